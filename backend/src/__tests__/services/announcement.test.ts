@@ -0,0 +1,41 @@
+import { AnnouncementService } from '../../services/announcement';
+
+describe('AnnouncementService', () => {
+  describe('validateSettings', () => {
+    it('should accept a full settings update', () => {
+      expect(AnnouncementService.validateSettings({
+        enabled: true,
+        templates: {
+          en: 'Token {token}, please proceed to {counter}.',
+          fil: 'Token {token}, pumunta po sa {counter}.'
+        },
+        voices: { en: 'Google US English', fil: '' },
+        rate: 0.9,
+        repeatCount: 2,
+        languageOrder: ['fil', 'en']
+      })).toBeNull();
+    });
+
+    it('should accept a single language', () => {
+      expect(AnnouncementService.validateSettings({ languageOrder: ['en'] })).toBeNull();
+    });
+
+    it('should require {token} in every template', () => {
+      expect(AnnouncementService.validateSettings({
+        templates: { en: 'Token {token}, please proceed to {counter}.', fil: 'Pumunta po sa {counter}.' }
+      })).toBe('The fil template must include {token}');
+      expect(AnnouncementService.validateSettings({ templates: { en: 'Token {token}' } } as any))
+        .toBe('templates must have an en and a fil template');
+    });
+
+    it('should reject out of range and unknown values', () => {
+      expect(AnnouncementService.validateSettings({ rate: 3 })).toBe('rate must be between 0.5 and 2');
+      expect(AnnouncementService.validateSettings({ repeatCount: 1.5 })).toBe('repeatCount must be 1, 2 or 3');
+      expect(AnnouncementService.validateSettings({ languageOrder: [] })).toMatch(/^languageOrder/);
+      expect(AnnouncementService.validateSettings({ languageOrder: ['en', 'en'] })).toMatch(/^languageOrder/);
+      expect(AnnouncementService.validateSettings({ languageOrder: ['es'] } as any)).toMatch(/^languageOrder/);
+      expect(AnnouncementService.validateSettings({ voices: { en: 1, fil: '' } } as any)).toMatch(/^voices/);
+      expect(AnnouncementService.validateSettings({ chime: true } as any)).toBe('Unknown announcement setting: chime');
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import { AppointmentService } from '../../services/appointment';
+import { SettingsService } from '../../services/settings';
+import { AppointmentStatus, ServiceType } from '../../types';
+
+// The global setup mocks CustomerService; check-in is exercised for real here
+jest.unmock('../../services/customer');
+import { CustomerService } from '../../services/customer';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    emitQueueUpdate: jest.fn(),
+    emitCustomerCreated: jest.fn()
+  }
+}));
+
+// Mock QueueAnalyticsService
+jest.mock('../../services/QueueAnalyticsService', () => ({
+  QueueAnalyticsService: {
+    recordQueueEvent: jest.fn()
+  }
+}));
+
+// Mock SettingsService
+jest.mock('../../services/settings', () => ({
+  SettingsService: {
+    getAppointmentSettings: jest.fn(),
+    getBusinessHoursSettings: jest.fn(),
+    getTokenFormatSettings: jest.fn()
+  }
+}));
+
+describe('AppointmentService', () => {
+  let pool: any;
+  let mockClient: any;
+
+  // Wednesday 15 January 2025, Manila time
+  const manila = (time: string, date = '2025-01-15') => new Date(`${date}T${time}:00+08:00`);
+  const now = manila('08:00');
+
+  const hours = { open: '09:00', close: '10:00' };
+
+  // Answers the slot queries: active counters for the service, then bookings of the day
+  const slotQueries = (counters: number, bookings: any[]) => (query: string) => {
+    if (query.includes('FROM counters')) {
+      return { rows: [{ count: String(counters) }] };
+    }
+    if (query.includes('SELECT slot_start, service_type, doctor_name')) {
+      return { rows: bookings };
+    }
+    return { rows: [] };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now, doNotFake: ['setTimeout', 'setImmediate', 'nextTick'] });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn()
+    };
+    pool = require('../../config/database').pool;
+    pool.connect.mockResolvedValue(mockClient);
+    pool.query.mockResolvedValue({ rows: [] });
+
+    (SettingsService.getAppointmentSettings as jest.Mock).mockResolvedValue({
+      slotMinutes: 15,
+      appointmentsPerCounter: 1,
+      noShowGraceMinutes: 20
+    });
+    (SettingsService.getBusinessHoursSettings as jest.Mock).mockResolvedValue({
+      weeklyHours: {
+        sunday: null,
+        monday: hours,
+        tuesday: hours,
+        wednesday: hours,
+        thursday: hours,
+        friday: hours,
+        saturday: hours
+      },
+      capacityCheckMode: 'block',
+      registrationCutoffMinutes: 0
+    });
+    (SettingsService.getTokenFormatSettings as jest.Mock).mockResolvedValue({
+      servicePrefixes: {},
+      priorityPrefix: '',
+      padding: 3
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    (console.log as jest.Mock).mockRestore();
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  describe('getSlots', () => {
+    it('should split business hours into slots sized by active counters', async () => {
+      pool.query.mockImplementation(slotQueries(2, [
+        { slot_start: manila('09:15'), service_type: 'eye_exam', doctor_name: null },
+        { slot_start: manila('09:15'), service_type: 'eye_exam', doctor_name: 'Dr. Reyes' },
+        { slot_start: manila('09:30'), service_type: 'cashier', doctor_name: null }
+      ]));
+
+      const slots = await AppointmentService.getSlots('2025-01-15', ServiceType.EYE_EXAM, null, now);
+
+      expect(slots.map((slot) => [slot.start, slot.booked, slot.available])).toEqual([
+        [manila('09:00'), 0, true],
+        [manila('09:15'), 2, false],
+        [manila('09:30'), 0, true],
+        [manila('09:45'), 0, true]
+      ]);
+      expect(slots[0].capacity).toBe(2);
+      expect(slots[0].end).toEqual(manila('09:15'));
+      expect(pool.query.mock.calls[0][1]).toEqual(['eye_exam']);
+    });
+
+    it('should leave out slots that have started and slots the doctor is busy in', async () => {
+      pool.query.mockImplementation(slotQueries(3, [
+        { slot_start: manila('09:45'), service_type: 'frame_fitting', doctor_name: 'Dr. Reyes' }
+      ]));
+
+      const slots = await AppointmentService.getSlots('2025-01-15', ServiceType.EYE_EXAM, 'Dr. Reyes', manila('09:20'));
+
+      expect(slots.map((slot) => [slot.start, slot.available])).toEqual([
+        [manila('09:30'), true],
+        [manila('09:45'), false]
+      ]);
+    });
+
+    it('should offer nothing on closed days or without an active counter', async () => {
+      pool.query.mockImplementation(slotQueries(0, []));
+
+      expect(await AppointmentService.getSlots('2025-01-19', ServiceType.EYE_EXAM, null, now)).toEqual([]);
+      const slots = await AppointmentService.getSlots('2025-01-15', ServiceType.EYE_EXAM, null, now);
+      expect(slots.every((slot) => !slot.available)).toBe(true);
+    });
+  });
+
+  describe('book', () => {
+    const booking = {
+      customer_name: 'Maria Santos',
+      contact_number: '09171234567',
+      service_type: ServiceType.EYE_EXAM,
+      doctor_name: 'Dr. Reyes',
+      slot_start: manila('09:30')
+    };
+
+    it('should book a free slot while holding the day lock', async () => {
+      mockClient.query.mockImplementation((query: string) => {
+        if (query.includes('INSERT INTO appointments')) {
+          return { rows: [{ id: 12 }] };
+        }
+        return slotQueries(1, [])(query);
+      });
+      pool.query.mockResolvedValue({ rows: [{ id: 12, status: 'booked', slot_start: manila('09:30') }] });
+
+      const appointment = await AppointmentService.book(booking, 4);
+
+      const queries = mockClient.query.mock.calls.map(([query]: [string]) => query);
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('pg_advisory_xact_lock'), ['appointments:2025-01-15']);
+      const insert = mockClient.query.mock.calls.find(([query]: [string]) => query.includes('INSERT INTO appointments'));
+      expect(insert[1]).toEqual(['Maria Santos', '09171234567', null, 'eye_exam', 'Dr. Reyes', manila('09:30'), manila('09:45'), null, 4]);
+      expect(queries).toContain('COMMIT');
+      expect(appointment.id).toBe(12);
+    });
+
+    it('should refuse full slots, double-booked doctors and off-grid times', async () => {
+      mockClient.query.mockImplementation(slotQueries(1, [
+        { slot_start: manila('09:30'), service_type: 'eye_exam', doctor_name: null },
+        { slot_start: manila('09:45'), service_type: 'cashier', doctor_name: 'Dr. Reyes' }
+      ]));
+
+      await expect(AppointmentService.book(booking)).rejects.toThrow('Slot is fully booked');
+      await expect(AppointmentService.book({ ...booking, slot_start: manila('09:45') })).rejects.toThrow('Doctor is already booked for this slot');
+      await expect(AppointmentService.book({ ...booking, slot_start: manila('09:40') })).rejects.toThrow('Slot is not a bookable time');
+      await expect(AppointmentService.book({ ...booking, slot_start: manila('18:00') })).rejects.toThrow('Slot is not a bookable time');
+
+      const queries = mockClient.query.mock.calls.map(([query]: [string]) => query);
+      expect(queries.filter((query: string) => query === 'ROLLBACK')).toHaveLength(4);
+      expect(queries.some((query: string) => query.includes('INSERT INTO appointments'))).toBe(false);
+    });
+  });
+
+  describe('check-in', () => {
+    const registration = {
+      name: 'Maria Santos',
+      contact_number: '09171234567',
+      email: 'maria@example.com',
+      age: 42,
+      address: 'Manila',
+      distribution_info: 'pickup' as any,
+      sales_agent_id: 2,
+      prescription: {} as any,
+      grade_type: 'Single Vision',
+      lens_type: 'Standard',
+      estimated_time: { days: 0, hours: 0, minutes: 30 },
+      payment_info: { mode: 'cash', amount: 1500 } as any,
+      priority_flags: { senior_citizen: false, pregnant: false, pwd: false },
+      appointment_id: 12
+    };
+
+    const withAppointment = (appointment: any) => (query: string, params: any[]) => {
+      if (query.includes('FROM appointments WHERE id = $1 FOR UPDATE')) {
+        return { rows: appointment ? [appointment] : [] };
+      }
+      if (query.includes('INSERT INTO daily_sequences')) {
+        return { rows: [{ last_value: 1 }] };
+      }
+      if (query.includes('INSERT INTO customers')) {
+        return { rows: [{ id: 31, name: params[1], service_type: params[21], appointment_at: params[22] }] };
+      }
+      return { rows: [] };
+    };
+
+    it('should queue the customer for the booked service and slot, even after registration closes', async () => {
+      jest.setSystemTime(manila('09:50'));
+      mockClient.query.mockImplementation(withAppointment({
+        id: 12,
+        status: AppointmentStatus.BOOKED,
+        service_type: ServiceType.EYE_EXAM,
+        doctor_name: 'Dr. Reyes',
+        slot_start: manila('09:30')
+      }));
+
+      const customer = await CustomerService.create(registration);
+
+      const insert = mockClient.query.mock.calls.find(([query]: [string]) => query.includes('INSERT INTO customers'));
+      expect(insert[1][9]).toBe('Dr. Reyes');
+      expect(customer.service_type).toBe(ServiceType.EYE_EXAM);
+      expect(customer.appointment_at).toEqual(manila('09:30'));
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining("SET status = 'checked_in'"), [12, 31]);
+      expect(customer.registration_warning).toBeUndefined();
+    });
+
+    it('should refuse appointments that are not booked for today', async () => {
+      mockClient.query.mockImplementation(withAppointment({ id: 12, status: AppointmentStatus.NO_SHOW, slot_start: manila('09:30') }));
+      await expect(CustomerService.create(registration)).rejects.toThrow('Appointment is already no show');
+
+      mockClient.query.mockImplementation(withAppointment({ id: 12, status: AppointmentStatus.BOOKED, slot_start: manila('09:30', '2025-01-16') }));
+      await expect(CustomerService.create(registration)).rejects.toThrow('Appointment is not scheduled for today');
+
+      mockClient.query.mockImplementation(withAppointment(null));
+      await expect(CustomerService.create(registration)).rejects.toThrow('Appointment not found');
+
+      const queries = mockClient.query.mock.calls.map(([query]: [string]) => query);
+      expect(queries.some((query: string) => query.includes('INSERT INTO customers'))).toBe(false);
+    });
+  });
+
+  describe('markNoShows', () => {
+    it('should mark booked appointments past the grace period', async () => {
+      pool.query.mockResolvedValue({ rows: [{ id: 1 }, { id: 2 }] });
+
+      const marked = await AppointmentService.markNoShows();
+
+      expect(marked).toBe(2);
+      expect(pool.query).toHaveBeenCalledWith(expect.stringContaining("WHERE status = 'booked'"), [20]);
+    });
+  });
+
+  describe('validateSettings', () => {
+    it('should reject out-of-range, fractional and unknown values', () => {
+      expect(AppointmentService.validateSettings({ slotMinutes: 30, appointmentsPerCounter: 2, noShowGraceMinutes: 0 })).toBeNull();
+      expect(AppointmentService.validateSettings({ slotMinutes: 2 })).toBe('slotMinutes must be between 5 and 240');
+      expect(AppointmentService.validateSettings({ appointmentsPerCounter: 1.5 })).toBe('appointmentsPerCounter must be a whole number');
+      expect(AppointmentService.validateSettings({ overbook: 1 } as any)).toBe('Unknown appointment setting: overbook');
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { BusinessHoursService } from '../../services/businessHours';
+import { SettingsService } from '../../services/settings';
+import { QueueService } from '../../services/queue';
+
+// Mock SettingsService
+jest.mock('../../services/settings', () => ({
+  SettingsService: {
+    getBusinessHoursSettings: jest.fn()
+  }
+}));
+
+// Mock QueueService
+jest.mock('../../services/queue', () => ({
+  QueueService: {
+    getProjectedWaitForNewCustomer: jest.fn()
+  }
+}));
+
+describe('BusinessHoursService', () => {
+  const weekday = { open: '09:00', close: '18:00' };
+  const weeklyHours = {
+    sunday: null,
+    monday: weekday,
+    tuesday: weekday,
+    wednesday: weekday,
+    thursday: weekday,
+    friday: weekday,
+    saturday: { open: '10:00', close: '15:00' }
+  };
+
+  // Wednesday 15 January 2025 at the given Manila (UTC+8) time
+  const manila = (time: string, date = '2025-01-15') => new Date(`${date}T${time}:00+08:00`);
+
+  const useSettings = (overrides: any = {}) => {
+    (SettingsService.getBusinessHoursSettings as jest.Mock).mockResolvedValue({
+      weeklyHours,
+      capacityCheckMode: 'warn',
+      registrationCutoffMinutes: 30,
+      ...overrides
+    });
+  };
+
+  const projectWait = (minutes: number) => {
+    (QueueService.getProjectedWaitForNewCustomer as jest.Mock).mockResolvedValue({ minutes, low: minutes, high: minutes });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useSettings();
+    projectWait(0);
+  });
+
+  describe('getRegistrationStatus', () => {
+    it('should accept registrations during opening hours when the line fits', async () => {
+      projectWait(45);
+
+      const status = await BusinessHoursService.getRegistrationStatus(undefined, manila('14:00'));
+
+      expect(status).toEqual({
+        accepting: true,
+        reason: null,
+        message: null,
+        mode: 'warn',
+        opensAt: '09:00',
+        closesAt: '18:00',
+        projectedWaitMinutes: 45
+      });
+    });
+
+    it('should use the hours of the day in Manila', async () => {
+      // Saturday 10:30 in Manila is still Friday in UTC
+      const status = await BusinessHoursService.getRegistrationStatus(undefined, manila('10:30', '2025-01-18'));
+
+      expect(status.opensAt).toBe('10:00');
+      expect(status.closesAt).toBe('15:00');
+      expect(status.reason).toBeNull();
+    });
+
+    it('should report days the shop is closed', async () => {
+      const status = await BusinessHoursService.getRegistrationStatus(undefined, manila('11:00', '2025-01-19'));
+
+      expect(status.reason).toBe('closed_today');
+      expect(status.opensAt).toBeNull();
+      expect(QueueService.getProjectedWaitForNewCustomer).not.toHaveBeenCalled();
+    });
+
+    it('should report registrations before opening and after the cutoff', async () => {
+      const early = await BusinessHoursService.getRegistrationStatus(undefined, manila('08:45'));
+      const late = await BusinessHoursService.getRegistrationStatus(undefined, manila('17:30'));
+
+      expect(early.reason).toBe('before_opening');
+      expect(early.message).toBe('Registration opens at 09:00');
+      expect(late.reason).toBe('after_cutoff');
+      expect(late.message).toBe('Registration closed at 17:30');
+    });
+
+    it('should flag a registration whose projected wait runs past closing', async () => {
+      projectWait(90);
+
+      const status = await BusinessHoursService.getRegistrationStatus(undefined, manila('16:45'));
+
+      expect(status.reason).toBe('over_capacity');
+      expect(status.message).toBe('Projected wait of 90 minutes runs past closing time (18:00)');
+      expect(status.projectedWaitMinutes).toBe(90);
+    });
+
+    it('should only refuse registrations in block mode', async () => {
+      projectWait(90);
+
+      const warned = await BusinessHoursService.getRegistrationStatus(undefined, manila('16:45'));
+      useSettings({ capacityCheckMode: 'block' });
+      const blocked = await BusinessHoursService.getRegistrationStatus(undefined, manila('16:45'));
+
+      expect(warned.accepting).toBe(true);
+      expect(blocked.accepting).toBe(false);
+      expect(blocked.reason).toBe('over_capacity');
+    });
+
+    it('should skip every check when turned off', async () => {
+      useSettings({ capacityCheckMode: 'off' });
+
+      const status = await BusinessHoursService.getRegistrationStatus(undefined, manila('11:00', '2025-01-19'));
+
+      expect(status.accepting).toBe(true);
+      expect(status.reason).toBeNull();
+      expect(QueueService.getProjectedWaitForNewCustomer).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to default hours when settings cannot be loaded', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (SettingsService.getBusinessHoursSettings as jest.Mock).mockRejectedValue(new Error('connection lost'));
+
+      const status = await BusinessHoursService.getRegistrationStatus(undefined, manila('11:00', '2025-01-19'));
+
+      expect(status.accepting).toBe(true);
+      expect(status.opensAt).toBe('09:00');
+      (console.error as jest.Mock).mockRestore();
+    });
+  });
+
+  describe('validateSettings', () => {
+    it('should accept a complete week', () => {
+      expect(BusinessHoursService.validateSettings({ weeklyHours, capacityCheckMode: 'block', registrationCutoffMinutes: 60 })).toBeNull();
+    });
+
+    it('should reject invalid settings', () => {
+      const { sunday, ...sixDays } = weeklyHours;
+      expect(BusinessHoursService.validateSettings({ capacityCheckMode: 'strict' as any })).toMatch(/capacityCheckMode/);
+      expect(BusinessHoursService.validateSettings({ registrationCutoffMinutes: -5 })).toMatch(/registrationCutoffMinutes/);
+      expect(BusinessHoursService.validateSettings({ weeklyHours: sixDays as any })).toMatch(/sunday is required/);
+      expect(BusinessHoursService.validateSettings({ weeklyHours: { ...weeklyHours, monday: { open: '9am', close: '18:00' } } })).toMatch(/HH:mm/);
+      expect(BusinessHoursService.validateSettings({ weeklyHours: { ...weeklyHours, friday: { open: '18:00', close: '09:00' } } })).toMatch(/close after it opens/);
+      expect(BusinessHoursService.validateSettings({ weeklyHours: { ...weeklyHours, holiday: null } as any })).toBe('Unknown weekday: holiday');
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { QueueService } from '../../services/queue';
+
+// Mock database pool; each test wires connect() to the in-memory database below
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    emitQueueUpdate: jest.fn(),
+    emitQueueStatusChanged: jest.fn()
+  }
+}));
+
+// Mock QueueAnalyticsService
+jest.mock('../../services/QueueAnalyticsService', () => ({
+  QueueAnalyticsService: {
+    recordQueueEvent: jest.fn()
+  }
+}));
+
+interface FakeCustomer {
+  id: number;
+  queue_status: string;
+  service_type: string;
+  priority_flags: string;
+  created_at: Date;
+  manual_position: number | null;
+}
+
+/**
+ * Just enough of PostgreSQL for callNext: READ COMMITTED reads, row locks held until
+ * COMMIT/ROLLBACK, FOR UPDATE waits, FOR UPDATE SKIP LOCKED skips, and writes that only
+ * become visible on commit. Every statement yields so transactions interleave.
+ */
+class FakeDatabase {
+  customers = new Map<number, FakeCustomer>();
+  counters = new Map<number, { id: number; current_customer_id: number | null }>();
+  locks = new Map<string, number>();
+  maxLockWaits = 0;
+  private nextTxId = 1;
+
+  connect() {
+    const txId = this.nextTxId++;
+    const pendingWrites: Array<() => void> = [];
+    const release = () => {
+      for (const [key, owner] of this.locks) {
+        if (owner === txId) this.locks.delete(key);
+      }
+      pendingWrites.length = 0;
+    };
+
+    const query = async (sql: string, params: any[] = []) => {
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * 3));
+
+      if (sql === 'BEGIN') return { rows: [] };
+      if (sql === 'COMMIT') {
+        pendingWrites.forEach((write) => write());
+        release();
+        return { rows: [] };
+      }
+      if (sql === 'ROLLBACK') {
+        release();
+        return { rows: [] };
+      }
+
+      if (sql.includes('FROM counters WHERE id = $1 FOR UPDATE')) {
+        const key = `counter:${params[0]}`;
+        let waits = 0;
+        while (this.locks.has(key) && this.locks.get(key) !== txId) {
+          waits++;
+          await new Promise((resolve) => setTimeout(resolve, 1));
+        }
+        this.maxLockWaits = Math.max(this.maxLockWaits, waits);
+        if (!this.counters.has(params[0])) return { rows: [] };
+        this.locks.set(key, txId);
+        return { rows: [{ id: params[0] }] };
+      }
+
+      if (sql.includes('wait_time_minutes')) {
+        const rows = [...this.customers.values()]
+          .filter((customer) => customer.queue_status === 'waiting')
+          .map((customer) => ({ ...customer, wait_time_minutes: 5 }));
+        return { rows };
+      }
+
+      if (sql.includes('FROM queue_events')) return { rows: [] };
+      if (sql.includes('FROM queue_pauses')) return { rows: [] };
+
+      if (sql.includes('FOR UPDATE SKIP LOCKED')) {
+        const key = `customer:${params[0]}`;
+        const customer = this.customers.get(params[0]);
+        if (this.locks.has(key) && this.locks.get(key) !== txId) return { rows: [] };
+        if (!customer || customer.queue_status !== 'waiting') return { rows: [] };
+        this.locks.set(key, txId);
+        return { rows: [{ id: customer.id }] };
+      }
+
+      if (sql.includes('UPDATE customers')) {
+        const customer = this.customers.get(params[0])!;
+        pendingWrites.push(() => { customer.queue_status = 'serving'; });
+        return { rows: [{ ...customer, queue_status: 'serving', prescription: '{}', payment_info: '{}' }] };
+      }
+
+      if (sql.includes('UPDATE counters')) {
+        const counter = this.counters.get(params[1])!;
+        pendingWrites.push(() => { counter.current_customer_id = params[0]; });
+        return { rows: [] };
+      }
+
+      throw new Error(`Unexpected query: ${sql}`);
+    };
+
+    return { query: jest.fn(query), release: jest.fn() };
+  }
+}
+
+describe('QueueService.callNext concurrency', () => {
+  let db: FakeDatabase;
+  let pool: any;
+
+  const regular = '{"senior_citizen":false,"pregnant":false,"pwd":false}';
+  const senior = '{"senior_citizen":true,"pregnant":false,"pwd":false}';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    db = new FakeDatabase();
+
+    pool = require('../../config/database').pool;
+    pool.connect.mockImplementation(async () => db.connect());
+    // Settings lookups fall back to the default priority policy
+    pool.query.mockResolvedValue({ rows: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const seed = (customerCount: number, counterCount: number) => {
+    for (let id = 1; id <= customerCount; id++) {
+      db.customers.set(id, {
+        id,
+        queue_status: 'waiting',
+        service_type: 'cashier',
+        priority_flags: id % 4 === 0 ? senior : regular,
+        created_at: new Date(Date.now() - (customerCount - id) * 60000),
+        manual_position: null
+      });
+    }
+    for (let id = 1; id <= counterCount; id++) {
+      db.counters.set(id, { id, current_customer_id: null });
+    }
+  };
+
+  it('should never assign the same customer twice under dozens of concurrent calls', async () => {
+    seed(40, 8);
+
+    // 8 counters each pressing "Call Next" 6 times at once: 48 calls for 40 customers
+    const calls = Array.from({ length: 48 }, (_, i) => {
+      const counterId = (i % 8) + 1;
+      return QueueService.callNext(counterId).then((customer) => ({ counterId, customer }));
+    });
+    const results = await Promise.all(calls);
+
+    const served = results.filter((result) => result.customer !== null);
+    const servedIds = served.map((result) => result.customer!.id);
+
+    expect(servedIds).toHaveLength(40);
+    expect(new Set(servedIds).size).toBe(40);
+    expect(results.filter((result) => result.customer === null)).toHaveLength(8);
+    expect([...db.customers.values()].every((customer) => customer.queue_status === 'serving')).toBe(true);
+    expect(db.locks.size).toBe(0);
+
+    // Each counter points at a customer it actually called
+    for (const counter of db.counters.values()) {
+      const calledHere = served.filter((result) => result.counterId === counter.id).map((result) => result.customer!.id);
+      expect(calledHere).toContain(counter.current_customer_id);
+    }
+  });
+
+  it('should skip a customer locked by another counter instead of waiting for it', async () => {
+    seed(3, 2);
+    // Another transaction is in the middle of calling customer 1
+    db.locks.set('customer:1', 999);
+
+    const customer = await QueueService.callNext(2);
+
+    expect(customer?.id).toBe(2);
+    expect(db.counters.get(2)!.current_customer_id).toBe(2);
+    expect(db.customers.get(1)!.queue_status).toBe('waiting');
+    expect(db.maxLockWaits).toBe(0);
+  });
+
+  it('should reject calls for an unknown counter without touching the queue', async () => {
+    seed(2, 1);
+
+    await expect(QueueService.callNext(42)).rejects.toThrow('Counter not found');
+    expect([...db.customers.values()].every((customer) => customer.queue_status === 'waiting')).toBe(true);
+  });
+});
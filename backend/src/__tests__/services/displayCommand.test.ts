@@ -0,0 +1,96 @@
+import { DisplayCommandService } from '../../services/displayCommand';
+import { WebSocketService } from '../../services/websocket';
+import { ConnectedDisplay } from '../../types';
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    getConnectedDisplays: jest.fn(),
+    emitDisplayCommand: jest.fn()
+  }
+}));
+
+describe('DisplayCommandService', () => {
+  const display = (overrides: Partial<ConnectedDisplay>): ConnectedDisplay => ({
+    connection_id: 'socket-1',
+    device_id: null,
+    name: 'Display',
+    connected_at: new Date('2025-01-15T08:00:00'),
+    health: null,
+    last_command: null,
+    ...overrides
+  });
+
+  const displays = [
+    display({ connection_id: 'socket-1', device_id: 4, name: 'Waiting area TV' }),
+    display({ connection_id: 'socket-2', device_id: 5, name: 'Cashier TV' }),
+    display({ connection_id: 'socket-3', device_id: null, name: "Maria's display" })
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (WebSocketService.getConnectedDisplays as jest.Mock).mockReturnValue(displays);
+  });
+
+  describe('validateCommand', () => {
+    it('should accept each command type with valid fields', () => {
+      expect(DisplayCommandService.validateCommand({ type: 'reload' })).toBeNull();
+      expect(DisplayCommandService.validateCommand({ type: 'set_layout', layout: 'counters_only' })).toBeNull();
+      expect(DisplayCommandService.validateCommand({ type: 'set_counters', counter_ids: [1, 3] })).toBeNull();
+      expect(DisplayCommandService.validateCommand({ type: 'set_counters', counter_ids: null })).toBeNull();
+      expect(DisplayCommandService.validateCommand({ type: 'set_volume', volume: 0 })).toBeNull();
+      expect(DisplayCommandService.validateCommand({ type: 'show_message', message: 'Back at 1 PM', duration_seconds: 60 })).toBeNull();
+    });
+
+    it('should reject unknown types and out of range values', () => {
+      expect(DisplayCommandService.validateCommand({ type: 'shutdown' })).toMatch(/^type must be one of/);
+      expect(DisplayCommandService.validateCommand({ type: 'set_layout', layout: 'grid' })).toMatch(/^layout/);
+      expect(DisplayCommandService.validateCommand({ type: 'set_counters', counter_ids: [] })).toMatch(/^counter_ids/);
+      expect(DisplayCommandService.validateCommand({ type: 'set_volume', volume: 101 })).toMatch(/^volume/);
+      expect(DisplayCommandService.validateCommand({ type: 'show_message', message: ' ', duration_seconds: 60 })).toMatch(/^message/);
+      expect(DisplayCommandService.validateCommand({ type: 'show_message', message: 'Hi', duration_seconds: 1 })).toMatch(/^duration_seconds/);
+    });
+  });
+
+  describe('validateTarget', () => {
+    it('should require all displays or a list of them', () => {
+      expect(DisplayCommandService.validateTarget({ all: true })).toBeNull();
+      expect(DisplayCommandService.validateTarget({ device_ids: [4] })).toBeNull();
+      expect(DisplayCommandService.validateTarget({ connection_ids: ['socket-3'] })).toBeNull();
+      expect(DisplayCommandService.validateTarget({})).toMatch(/^target must be/);
+      expect(DisplayCommandService.validateTarget({ device_ids: ['4'] })).toMatch(/^device_ids/);
+    });
+  });
+
+  describe('send', () => {
+    it('should send to paired devices and single connections', () => {
+      const result = DisplayCommandService.send(
+        { device_ids: [5], connection_ids: ['socket-3'] },
+        { type: 'set_volume', volume: 40 },
+        'Admin User'
+      );
+
+      expect(result.recipients).toEqual(['socket-2', 'socket-3']);
+      expect(WebSocketService.emitDisplayCommand).toHaveBeenCalledWith(
+        ['socket-2', 'socket-3'],
+        expect.objectContaining({ id: result.command_id, type: 'set_volume', volume: 40, issued_by: 'Admin User' }),
+        false
+      );
+    });
+
+    it('should broadcast to the display room and strip unrelated fields', () => {
+      DisplayCommandService.send({ all: true }, { type: 'reload', layout: 'full' } as any, 'Admin User');
+
+      const [recipients, message, toAll] = (WebSocketService.emitDisplayCommand as jest.Mock).mock.calls[0];
+      expect(recipients).toHaveLength(3);
+      expect(toAll).toBe(true);
+      expect(message).not.toHaveProperty('layout');
+    });
+
+    it('should fail when no connected display matches', () => {
+      expect(() => DisplayCommandService.send({ device_ids: [9] }, { type: 'reload' }, 'Admin User'))
+        .toThrow('No connected display matches the target');
+      expect(WebSocketService.emitDisplayCommand).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { DisplayContentService } from '../../services/displayContent';
+import { WebSocketService } from '../../services/websocket';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    emitDisplayContentChanged: jest.fn()
+  }
+}));
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+describe('DisplayContentService', () => {
+  let pool: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pool = require('../../config/database').pool;
+  });
+
+  describe('validatePlaylist', () => {
+    it('should accept a playlist with dates, slide time and groups', () => {
+      expect(DisplayContentService.validatePlaylist({ name: 'Back to school' })).toBeNull();
+      expect(DisplayContentService.validatePlaylist({
+        name: 'Back to school',
+        is_active: true,
+        starts_on: '2025-06-01',
+        ends_on: '2025-06-30',
+        slide_seconds: 15,
+        group_ids: [1, 2]
+      })).toBeNull();
+    });
+
+    it('should reject a missing name, bad dates, end before start and bad slide time', () => {
+      expect(DisplayContentService.validatePlaylist({ name: '  ' })).toMatch(/name is required/);
+      expect(DisplayContentService.validatePlaylist({ name: 'Sale', starts_on: '06/01/2025' })).toMatch(/starts_on must be a date/);
+      expect(DisplayContentService.validatePlaylist({ name: 'Sale', starts_on: '2025-06-30', ends_on: '2025-06-01' }))
+        .toBe('The playlist must start on or before its end date');
+      expect(DisplayContentService.validatePlaylist({ name: 'Sale', slide_seconds: 1 })).toMatch(/slide_seconds/);
+      expect(DisplayContentService.validatePlaylist({ name: 'Sale', group_ids: ['1'] })).toMatch(/group_ids/);
+    });
+  });
+
+  describe('validateSlide', () => {
+    it('should require what each slide type shows', () => {
+      expect(DisplayContentService.validateSlide({ type: 'image', image: PNG })).toBeNull();
+      expect(DisplayContentService.validateSlide({ type: 'text', body: 'Closed on Sunday' })).toBeNull();
+      expect(DisplayContentService.validateSlide({ type: 'promo', title: '20% off frames' })).toBeNull();
+
+      expect(DisplayContentService.validateSlide({ type: 'image' })).toBe('Image slides need an image');
+      expect(DisplayContentService.validateSlide({ type: 'text', body: ' ' })).toBe('Text slides need text');
+      expect(DisplayContentService.validateSlide({ type: 'promo', body: 'Frames' })).toBe('Promo slides need a title');
+      expect(DisplayContentService.validateSlide({ type: 'video' })).toMatch(/type must be one of/);
+    });
+
+    it('should let an image slide keep its current image on update', () => {
+      expect(DisplayContentService.validateSlide({ type: 'image' }, true)).toBeNull();
+    });
+
+    it('should only accept image data URLs of supported types and size', () => {
+      expect(DisplayContentService.validateSlide({ type: 'image', image: 'https://example.com/a.png' }))
+        .toBe('Images must be PNG, JPEG, GIF or WebP');
+      expect(DisplayContentService.validateSlide({ type: 'image', image: 'data:image/svg+xml;base64,PHN2Zz4=' }))
+        .toBe('Images must be PNG, JPEG, GIF or WebP');
+      expect(DisplayContentService.validateSlide({ type: 'image', image: `data:image/png;base64,${'A'.repeat(8 * 1024 * 1024)}` }))
+        .toMatch(/MB or smaller/);
+    });
+
+    it('should reject a schedule that ends before it starts', () => {
+      expect(DisplayContentService.validateSlide({
+        type: 'promo',
+        title: 'Sale',
+        starts_at: '2025-06-02T10:00:00Z',
+        ends_at: '2025-06-02T09:00:00Z'
+      })).toBe('The slide must start before it ends');
+    });
+  });
+
+  describe('getContentForDisplay', () => {
+    it('should query by shop date, time and group and map slides for the display', async () => {
+      pool.query.mockResolvedValueOnce({
+        rows: [{
+          id: 7,
+          playlist_id: 2,
+          type: 'image',
+          title: null,
+          body: null,
+          has_image: true,
+          display_seconds: null,
+          starts_at: null,
+          ends_at: null,
+          sort_order: 0,
+          created_at: new Date('2025-06-01T00:00:00Z'),
+          updated_at: new Date('2025-06-01T01:00:00Z'),
+          seconds: 10
+        }]
+      });
+
+      // 17:00 UTC on 1 June is already 2 June in Manila
+      const now = new Date('2025-06-01T17:00:00Z');
+      const slides = await DisplayContentService.getContentForDisplay(3, now);
+
+      expect(pool.query.mock.calls[0][1]).toEqual(['2025-06-02', now, 3]);
+      expect(slides).toEqual([{
+        id: 7,
+        type: 'image',
+        title: null,
+        body: null,
+        image_url: `/display-content/slides/7/image?v=${new Date('2025-06-01T01:00:00Z').getTime()}`,
+        seconds: 10
+      }]);
+    });
+  });
+
+  describe('deleteSlide', () => {
+    it('should tell the displays to refetch', async () => {
+      pool.query.mockResolvedValueOnce({ rows: [{ id: 7 }] });
+
+      await DisplayContentService.deleteSlide(7);
+
+      expect(WebSocketService.emitDisplayContentChanged).toHaveBeenCalled();
+    });
+
+    it('should throw when the slide does not exist', async () => {
+      pool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(DisplayContentService.deleteSlide(99)).rejects.toThrow('Slide not found');
+      expect(WebSocketService.emitDisplayContentChanged).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import { DisplayDeviceService } from '../../services/displayDevice';
+import { SettingsService } from '../../services/settings';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock SettingsService
+jest.mock('../../services/settings', () => ({
+  SettingsService: {
+    getDisplayAccessSettings: jest.fn()
+  }
+}));
+
+const hash = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('DisplayDeviceService', () => {
+  let pool: any;
+  let mockClient: any;
+
+  const device = {
+    id: 4,
+    name: 'Waiting area TV',
+    is_active: true,
+    is_claimed: true,
+    last_seen_at: null,
+    paired_by: 1,
+    paired_at: new Date('2025-01-15T08:00:00'),
+    revoked_at: null
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = {
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      release: jest.fn()
+    };
+    pool = require('../../config/database').pool;
+    pool.connect.mockResolvedValue(mockClient);
+    pool.query.mockResolvedValue({ rows: [] });
+  });
+
+  describe('createPairingRequest', () => {
+    it('should issue a readable code and store only a hash of the secret', async () => {
+      pool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 9, expires_at: new Date('2025-01-15T08:10:00') }] });
+
+      const pairing = await DisplayDeviceService.createPairingRequest();
+
+      expect(pairing.request_id).toBe(9);
+      expect(pairing.code).toMatch(/^[A-HJKMNP-Z2-9]{6}$/);
+      const [code, secretHash] = pool.query.mock.calls[1][1];
+      expect(code).toBe(pairing.code);
+      expect(secretHash).toBe(hash(pairing.secret));
+    });
+
+    it('should retry with a new code when the code is taken', async () => {
+      pool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }))
+        .mockResolvedValueOnce({ rows: [{ id: 10, expires_at: new Date() }] });
+
+      const pairing = await DisplayDeviceService.createPairingRequest();
+
+      expect(pairing.request_id).toBe(10);
+      expect(pool.query).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('pair', () => {
+    it('should register the display waiting with the code', async () => {
+      mockClient.query.mockImplementation(async (query: string) => {
+        if (query.includes('FROM display_pairing_requests')) return { rows: [{ id: 9 }] };
+        if (query.includes('INSERT INTO display_devices')) return { rows: [{ id: 4 }] };
+        return { rows: [] };
+      });
+      pool.query.mockResolvedValueOnce({ rows: [{ ...device, is_claimed: false }] });
+
+      const paired = await DisplayDeviceService.pair(' ab3xk7 ', 'Waiting area TV', 1);
+
+      expect(paired.is_claimed).toBe(false);
+      const lookup = mockClient.query.mock.calls.find(([query]: [string]) => query.includes('FROM display_pairing_requests'));
+      expect(lookup[1]).toEqual(['AB3XK7']);
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('SET device_id'), [4, 9]);
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should reject an unknown or expired code', async () => {
+      await expect(DisplayDeviceService.pair('ZZZZZZ', 'Waiting area TV', 1)).rejects.toThrow('Pairing code not found');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('claim', () => {
+    it('should keep the display waiting until an admin has paired it', async () => {
+      mockClient.query.mockImplementation(async (query: string) => {
+        if (query.includes('FROM display_pairing_requests')) return { rows: [{ id: 9, device_id: null }] };
+        return { rows: [] };
+      });
+
+      await expect(DisplayDeviceService.claim(9, 'secret')).resolves.toBeNull();
+      expect(mockClient.query).not.toHaveBeenCalledWith(expect.stringContaining('UPDATE display_devices'), expect.anything());
+    });
+
+    it('should hand out the token once and store only its hash', async () => {
+      mockClient.query.mockImplementation(async (query: string) => {
+        if (query.includes('FROM display_pairing_requests')) return { rows: [{ id: 9, device_id: 4 }] };
+        return { rows: [] };
+      });
+      pool.query.mockResolvedValueOnce({ rows: [device] });
+
+      const result = await DisplayDeviceService.claim(9, 'secret');
+
+      const lookup = mockClient.query.mock.calls.find(([query]: [string]) => query.includes('FROM display_pairing_requests'));
+      expect(lookup[1]).toEqual([9, hash('secret')]);
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE display_devices'), [hash(result!.token), 4]);
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM display_pairing_requests'), [9]);
+      expect(result!.device.id).toBe(4);
+    });
+
+    it('should reject a wrong secret', async () => {
+      await expect(DisplayDeviceService.claim(9, 'guess')).rejects.toThrow('Pairing request not found');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('devices', () => {
+    it('should only accept tokens of active displays', async () => {
+      pool.query.mockResolvedValueOnce({ rows: [device] });
+
+      await expect(DisplayDeviceService.authenticate('token')).resolves.toEqual(expect.objectContaining({ id: 4 }));
+      expect(pool.query.mock.calls[0][0]).toContain('is_active = true');
+      expect(pool.query.mock.calls[0][1]).toEqual([hash('token')]);
+    });
+
+    it('should tell an already revoked display from a missing one', async () => {
+      pool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ ...device, is_active: false }] });
+
+      await expect(DisplayDeviceService.revokeDevice(4)).rejects.toThrow('Display device is already revoked');
+
+      pool.query.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [] });
+      await expect(DisplayDeviceService.revokeDevice(5)).rejects.toThrow('Display device not found');
+    });
+
+    it('should follow the unpaired access setting', async () => {
+      (SettingsService.getDisplayAccessSettings as jest.Mock).mockResolvedValueOnce({ allowUnpaired: false });
+
+      await expect(DisplayDeviceService.isUnpairedAccessAllowed()).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { DisplayEventsService } from '../../services/displayEvents';
+import { CachedQueueService } from '../../services/cachedQueue';
+import { QueueService } from '../../services/queue';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+describe('Display event streams', () => {
+  const stream = () => {
+    const handlers: Record<string, () => void> = {};
+    const res: any = {
+      writeHead: jest.fn(),
+      write: jest.fn(),
+      on: jest.fn((event: string, handler: () => void) => { handlers[event] = handler; }),
+      close: () => handlers.close()
+    };
+    return res;
+  };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    CachedQueueService.invalidateDisplayCaches();
+  });
+
+  it('should open an unbuffered event stream and drop it on disconnect', () => {
+    const res = stream();
+
+    DisplayEventsService.addClient(res);
+
+    expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
+      'Content-Type': 'text/event-stream',
+      'X-Accel-Buffering': 'no'
+    }));
+    expect(DisplayEventsService.getClientCount()).toBe(1);
+
+    res.close();
+    expect(DisplayEventsService.getClientCount()).toBe(0);
+  });
+
+  it('should send a change signal with the WebSocket event position as its ID', () => {
+    const res = stream();
+    DisplayEventsService.addClient(res);
+
+    DisplayEventsService.publish('queue:update', { seq: 12, epoch: 'abc', type: 'customer_called' } as any);
+    DisplayEventsService.publish('display:content');
+
+    const [queueMessage] = res.write.mock.calls[1];
+    expect(queueMessage).toMatch(/^id: abc:12\nevent: queue:update\ndata: \{"seq":12,/);
+    // No customer details go out on the public stream
+    expect(queueMessage).not.toContain('customer_called');
+    expect(res.write.mock.calls[2][0]).toMatch(/^event: display:content\ndata: \{"seq":null,/);
+
+    res.close();
+  });
+
+  it('should serve the display queue from the cache until a queue event', async () => {
+    const getDisplayQueue = jest.spyOn(QueueService, 'getDisplayQueue').mockResolvedValue([]);
+
+    await CachedQueueService.getDisplayQueue();
+    await CachedQueueService.getDisplayQueue();
+    expect(getDisplayQueue).toHaveBeenCalledTimes(1);
+
+    DisplayEventsService.publish('display:content');
+    await CachedQueueService.getDisplayQueue();
+    expect(getDisplayQueue).toHaveBeenCalledTimes(1);
+
+    DisplayEventsService.publish('queue:status_changed', { seq: 13, epoch: 'abc' });
+    await CachedQueueService.getDisplayQueue();
+    expect(getDisplayQueue).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache a display queue read that a queue event overtook', async () => {
+    let finishRead: (queue: any[]) => void = () => {};
+    const getDisplayQueue = jest.spyOn(QueueService, 'getDisplayQueue')
+      .mockImplementationOnce(() => new Promise((resolve) => { finishRead = resolve; }))
+      .mockResolvedValue([]);
+
+    const staleRead = CachedQueueService.getDisplayQueue();
+    DisplayEventsService.publish('queue:update', { seq: 14, epoch: 'abc' });
+    finishRead([{ customer_id: 1 }]);
+    expect(await staleRead).toEqual([{ customer_id: 1 }]);
+
+    expect(await CachedQueueService.getDisplayQueue()).toEqual([]);
+    expect(getDisplayQueue).toHaveBeenCalledTimes(2);
+  });
+});
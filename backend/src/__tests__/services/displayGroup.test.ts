@@ -0,0 +1,112 @@
+import { DisplayGroupService } from '../../services/displayGroup';
+import { DisplayService } from '../../services/displayService';
+import { CachedQueueService } from '../../services/cachedQueue';
+import { DisplayGroup, QueueItem, ServiceType } from '../../types';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock the display feed cache
+jest.mock('../../services/cachedQueue', () => ({
+  CachedQueueService: {
+    getDisplayQueue: jest.fn(),
+    getDisplayCounters: jest.fn()
+  }
+}));
+
+describe('Display groups', () => {
+  const group = (overrides: Partial<DisplayGroup>): DisplayGroup => ({
+    id: 2,
+    name: 'Second floor',
+    counter_ids: [],
+    service_types: [],
+    created_at: new Date('2025-01-15T08:00:00'),
+    updated_at: new Date('2025-01-15T08:00:00'),
+    ...overrides
+  });
+
+  const item = (id: number, queueStatus: string, serviceType: ServiceType, position: number): QueueItem => ({
+    customer_id: id,
+    customer: { id, queue_status: queueStatus, service_type: serviceType } as any,
+    position,
+    priority_score: 0,
+    estimated_wait_time: position * 5
+  });
+
+  const queue = [
+    item(1, 'serving', ServiceType.EYE_EXAM, 0),
+    item(2, 'serving', ServiceType.CASHIER, 0),
+    item(3, 'waiting', ServiceType.CASHIER, 1),
+    item(4, 'waiting', ServiceType.EYE_EXAM, 2),
+    item(5, 'waiting', ServiceType.EYE_EXAM, 3),
+    item(6, 'on_hold', ServiceType.CASHIER, 0)
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (CachedQueueService.getDisplayQueue as jest.Mock).mockResolvedValue(queue);
+  });
+
+  describe('validateGroup', () => {
+    it('should accept a name with counters and service types', () => {
+      expect(DisplayGroupService.validateGroup({ name: 'Second floor' })).toBeNull();
+      expect(DisplayGroupService.validateGroup({
+        name: 'Second floor',
+        counter_ids: [3, 4],
+        service_types: ['eye_exam', 'frame_fitting']
+      })).toBeNull();
+    });
+
+    it('should reject a missing name, bad counter IDs and unknown service types', () => {
+      expect(DisplayGroupService.validateGroup({ name: '' })).toMatch(/name is required/);
+      expect(DisplayGroupService.validateGroup({ name: 'Lab', counter_ids: [0] })).toBe('counter_ids must be a list of counter IDs');
+      expect(DisplayGroupService.validateGroup({ name: 'Lab', service_types: ['surgery'] })).toMatch(/service_types must only contain/);
+    });
+  });
+
+  describe('filterCounters', () => {
+    const counters = [{ id: 1 }, { id: 2 }, { id: 3 }];
+
+    it('should keep every counter without a group or counter list', () => {
+      expect(DisplayGroupService.filterCounters(null, counters)).toEqual(counters);
+      expect(DisplayGroupService.filterCounters(group({}), counters)).toEqual(counters);
+    });
+
+    it("should keep only the group's counters", () => {
+      expect(DisplayGroupService.filterCounters(group({ counter_ids: [1, 3] }), counters)).toEqual([{ id: 1 }, { id: 3 }]);
+    });
+  });
+
+  describe('DisplayService.getDisplayQueue', () => {
+    it('should return the whole queue for a display outside any group', async () => {
+      expect(await DisplayService.getDisplayQueue(null)).toEqual(queue);
+      expect(CachedQueueService.getDisplayCounters).not.toHaveBeenCalled();
+    });
+
+    it("should show serving customers of the group's counters and its service types' line, renumbered", async () => {
+      (CachedQueueService.getDisplayCounters as jest.Mock).mockResolvedValue([
+        { id: 3, current_customer: { id: 1 } },
+        { id: 4, current_customer: { id: 2 } },
+        { id: 5, current_customer: null }
+      ]);
+
+      const result = await DisplayService.getDisplayQueue(group({ counter_ids: [3, 5], service_types: [ServiceType.EYE_EXAM] }));
+
+      expect(result.map((entry) => [entry.customer_id, entry.position])).toEqual([[1, 0], [4, 1], [5, 2]]);
+      // Wait estimates still come from the whole line
+      expect(result[1].estimated_wait_time).toBe(10);
+    });
+
+    it('should keep every serving customer when the group only limits service types', async () => {
+      const result = await DisplayService.getDisplayQueue(group({ service_types: [ServiceType.CASHIER] }));
+
+      expect(CachedQueueService.getDisplayCounters).not.toHaveBeenCalled();
+      expect(result.map((entry) => entry.customer_id)).toEqual([1, 2, 3, 6]);
+    });
+  });
+});
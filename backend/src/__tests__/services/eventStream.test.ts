@@ -0,0 +1,67 @@
+import { EventStreamService } from '../../services/eventStream';
+
+describe('EventStreamService', () => {
+  const rooms = new Set(['queue:updates']);
+
+  const position = () => EventStreamService.resume({}, rooms);
+
+  it('should number events in order and stamp the payload', () => {
+    const first = EventStreamService.record('queue:updates', 'queue:update', { type: 'customer_called' });
+    const second = EventStreamService.record('queue:updates', 'queue:status_changed', { id: 4 });
+
+    expect(second.seq).toBe(first.seq + 1);
+    expect(second.epoch).toBe(first.epoch);
+    expect(second).toEqual(expect.objectContaining({ id: 4 }));
+  });
+
+  it('should give a client without a position the current one', () => {
+    EventStreamService.record('queue:updates', 'queue:update', {});
+
+    const result = position();
+
+    expect(result.status).toBe('ok');
+    expect(result.events).toEqual([]);
+    expect(result.last_seq).toBeGreaterThan(0);
+  });
+
+  it("should replay the missed events in the client's rooms only", () => {
+    const { epoch, last_seq } = position();
+    EventStreamService.record('queue:updates', 'queue:update', { type: 'a' });
+    EventStreamService.record('transactions:updates', 'transactionUpdated', { type: 'b' });
+    EventStreamService.record('queue:updates', 'queue:status_changed', { type: 'c' });
+
+    const result = EventStreamService.resume({ epoch, last_seq }, rooms);
+
+    expect(result.status).toBe('ok');
+    expect(result.events.map((entry) => [entry.event, entry.payload.type])).toEqual([
+      ['queue:update', 'a'],
+      ['queue:status_changed', 'c']
+    ]);
+    expect(result.last_seq).toBe(last_seq + 3);
+  });
+
+  it('should replay nothing to a client that is up to date', () => {
+    const { epoch, last_seq } = position();
+
+    expect(EventStreamService.resume({ epoch, last_seq }, rooms)).toEqual(
+      expect.objectContaining({ status: 'ok', events: [] })
+    );
+  });
+
+  it('should ask for a resync after a server restart', () => {
+    const { last_seq } = position();
+
+    expect(EventStreamService.resume({ epoch: 'previous-run', last_seq }, rooms).status).toBe('resync_required');
+  });
+
+  it('should ask for a resync once the missed events have left the buffer', () => {
+    const { epoch, last_seq } = position();
+    for (let i = 0; i < 501; i++) {
+      EventStreamService.record('queue:updates', 'queue:update', { i });
+    }
+
+    expect(EventStreamService.resume({ epoch, last_seq }, rooms).status).toBe('resync_required');
+    // The newest events are still there
+    expect(EventStreamService.resume({ epoch, last_seq: last_seq + 2 }, rooms).events).toHaveLength(499);
+  });
+});
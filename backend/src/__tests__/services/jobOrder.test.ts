@@ -0,0 +1,212 @@
+import { JobOrderService } from '../../services/jobOrder';
+import { SettingsService } from '../../services/settings';
+import { EnhancedSMSService } from '../../services/EnhancedSMSService';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock SettingsService
+jest.mock('../../services/settings', () => ({
+  SettingsService: {
+    getJobOrderSettings: jest.fn()
+  }
+}));
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    emitQueueUpdate: jest.fn()
+  }
+}));
+
+// Mock EnhancedSMSService
+jest.mock('../../services/EnhancedSMSService', () => ({
+  EnhancedSMSService: {
+    sendCustomerReadyNotification: jest.fn(),
+    sendDelayNotification: jest.fn()
+  }
+}));
+
+describe('JobOrderService', () => {
+  let pool: any;
+  let mockClient: any;
+
+  const stages = [
+    { key: 'lens_ordered', label: 'Lens Ordered', ready: false, final: false },
+    { key: 'edging', label: 'Edging', ready: false, final: false },
+    { key: 'ready', label: 'Ready for Release', ready: true, final: false },
+    { key: 'released', label: 'Released', ready: false, final: true }
+  ];
+
+  const now = new Date('2025-01-15T08:00:00+08:00');
+
+  const jobOrderRow = (overrides: any = {}) => ({
+    id: 7,
+    customer_id: 3,
+    customer_name: 'Juan Dela Cruz',
+    contact_number: '09171234567',
+    or_number: 'OR-0003',
+    transaction_id: 11,
+    stage: 'edging',
+    expected_ready_at: new Date('2025-01-17T17:00:00+08:00'),
+    ...overrides
+  });
+
+  // The locked row inside the transaction, then the re-read job order
+  const givenJobOrder = (locked: any, after: any = locked) => {
+    mockClient.query.mockImplementation((query: string) => {
+      if (query.includes('FOR UPDATE')) {
+        return { rows: [locked] };
+      }
+      return { rows: [] };
+    });
+    pool.query.mockImplementation((query: string) => {
+      if (query.includes('FROM job_orders j')) {
+        return { rows: [after] };
+      }
+      return { rows: [] };
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockClient = {
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      release: jest.fn()
+    };
+    pool = require('../../config/database').pool;
+    pool.connect.mockResolvedValue(mockClient);
+    pool.query.mockResolvedValue({ rows: [] });
+
+    (SettingsService.getJobOrderSettings as jest.Mock).mockResolvedValue({ stages, defaultTurnaroundDays: 3 });
+  });
+
+  describe('validateSettings', () => {
+    it('should accept the default shape', () => {
+      expect(JobOrderService.validateSettings({ stages, defaultTurnaroundDays: 5 })).toBeNull();
+    });
+
+    it('should reject bad stage lists', () => {
+      expect(JobOrderService.validateSettings({ stages: [stages[0]] })).toMatch(/2 to 20 stages/);
+      expect(JobOrderService.validateSettings({ stages: [stages[0], stages[0], stages[3]] })).toBe('Duplicate stage: lens_ordered');
+      expect(JobOrderService.validateSettings({ stages: [{ ...stages[0], key: 'Lens Ordered' }, stages[3]] })).toMatch(/Stage keys/);
+      expect(JobOrderService.validateSettings({ stages: [stages[0], stages[2]] })).toBe('At least one stage must be final');
+      expect(JobOrderService.validateSettings({ stages: [stages[3], stages[0]] })).toBe('The first stage cannot be final');
+      expect(JobOrderService.validateSettings({ stages: [stages[0], { ...stages[3], ready: true }] }))
+        .toBe('Stage released cannot be both ready and final');
+    });
+
+    it('should reject unknown settings and bad turnaround', () => {
+      expect(JobOrderService.validateSettings({ foo: 1 } as any)).toBe('Unknown job order setting: foo');
+      expect(JobOrderService.validateSettings({ defaultTurnaroundDays: 1.5 })).toBe('defaultTurnaroundDays must be a whole number');
+      expect(JobOrderService.validateSettings({ defaultTurnaroundDays: 90 })).toBe('defaultTurnaroundDays must be between 0 and 60');
+    });
+  });
+
+  describe('create', () => {
+    it('should start at the first stage with the default turnaround and the latest transaction', async () => {
+      mockClient.query.mockImplementation((query: string) => {
+        if (query.includes('FROM customers')) return { rows: [{ id: 3 }] };
+        if (query.includes('FROM transactions')) return { rows: [{ id: 11 }] };
+        if (query.includes('INSERT INTO job_orders')) return { rows: [{ id: 7 }] };
+        return { rows: [] };
+      });
+      pool.query.mockImplementation((query: string) => (
+        query.includes('FROM job_orders j') ? { rows: [jobOrderRow({ stage: 'lens_ordered' })] } : { rows: [] }
+      ));
+
+      await JobOrderService.create({ customer_id: 3 }, 1, now);
+
+      const insert = mockClient.query.mock.calls.find(([query]: [string]) => query.includes('INSERT INTO job_orders'));
+      expect(insert[1]).toEqual([3, 11, 'lens_ordered', new Date('2025-01-18T08:00:00+08:00'), null, null, 1]);
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO job_order_events'), expect.any(Array));
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should reject a transaction of another customer', async () => {
+      mockClient.query.mockImplementation((query: string) => (
+        query.includes('FROM customers') ? { rows: [{ id: 3 }] } : { rows: [] }
+      ));
+
+      await expect(JobOrderService.create({ customer_id: 3, transaction_id: 99 })).rejects.toThrow('Transaction does not belong to this customer');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('moveToStage', () => {
+    it('should text the customer when the order becomes ready', async () => {
+      givenJobOrder(jobOrderRow({ stage: 'edging' }), jobOrderRow({ stage: 'ready' }));
+
+      await JobOrderService.moveToStage(7, 'ready', 1);
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE job_orders'), [7, 'ready']);
+      expect(EnhancedSMSService.sendCustomerReadyNotification).toHaveBeenCalledWith(3, '09171234567', 'Juan Dela Cruz', 'OR-0003');
+    });
+
+    it('should not text for other stages', async () => {
+      givenJobOrder(jobOrderRow({ stage: 'lens_ordered' }), jobOrderRow({ stage: 'edging' }));
+
+      await JobOrderService.moveToStage(7, 'edging', 1);
+
+      expect(EnhancedSMSService.sendCustomerReadyNotification).not.toHaveBeenCalled();
+    });
+
+    it('should keep the stage change when the SMS fails', async () => {
+      givenJobOrder(jobOrderRow({ stage: 'edging' }), jobOrderRow({ stage: 'ready' }));
+      (EnhancedSMSService.sendCustomerReadyNotification as jest.Mock).mockRejectedValueOnce(new Error('Provider down'));
+
+      await expect(JobOrderService.moveToStage(7, 'ready', 1)).resolves.toMatchObject({ stage: 'ready' });
+    });
+
+    it('should reject unknown stages and moves to the current stage', async () => {
+      await expect(JobOrderService.moveToStage(7, 'polishing')).rejects.toThrow('Unknown stage');
+
+      givenJobOrder(jobOrderRow({ stage: 'edging' }));
+      await expect(JobOrderService.moveToStage(7, 'edging')).rejects.toThrow('Job order is already at this stage');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('update', () => {
+    it('should text the new estimate when the expected-ready date moves later', async () => {
+      const later = new Date('2025-01-18T08:00:00+08:00');
+      givenJobOrder(jobOrderRow(), jobOrderRow({ expected_ready_at: later }));
+
+      await JobOrderService.update(7, { expected_ready_at: later }, 1, now);
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO job_order_events'),
+        [7, 'edging', later, null, 1]
+      );
+      expect(EnhancedSMSService.sendDelayNotification).toHaveBeenCalledWith(3, '09171234567', 'Juan Dela Cruz', 3 * 24 * 60);
+    });
+
+    it('should not text when the date moves earlier or the order is already ready', async () => {
+      const earlier = new Date('2025-01-16T17:00:00+08:00');
+      givenJobOrder(jobOrderRow(), jobOrderRow({ expected_ready_at: earlier }));
+      await JobOrderService.update(7, { expected_ready_at: earlier }, 1, now);
+
+      const later = new Date('2025-01-20T17:00:00+08:00');
+      givenJobOrder(jobOrderRow({ stage: 'ready' }), jobOrderRow({ stage: 'ready', expected_ready_at: later }));
+      await JobOrderService.update(7, { expected_ready_at: later }, 1, now);
+
+      expect(EnhancedSMSService.sendDelayNotification).not.toHaveBeenCalled();
+    });
+
+    it('should not record an event when only the notes change', async () => {
+      givenJobOrder(jobOrderRow());
+
+      await JobOrderService.update(7, { notes: ' Rush ' }, 1, now);
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('notes = $2'), [7, 'Rush']);
+      expect(mockClient.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO job_order_events'), expect.any(Array));
+    });
+  });
+});
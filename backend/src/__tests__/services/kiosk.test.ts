@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { KioskService } from '../../services/kiosk';
+import { CustomerService } from '../../services/customer';
+import { QueueService } from '../../services/queue';
+import { DistributionType, QueueStatus, ServiceType } from '../../types';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock QueueService
+jest.mock('../../services/queue', () => ({
+  QueueService: {
+    getPosition: jest.fn(),
+    getEstimatedWaitTime: jest.fn()
+  }
+}));
+
+describe('KioskService', () => {
+  let pool: any;
+
+  const lastVisit = {
+    id: 40,
+    or_number: 'OR2501100007',
+    name: 'Lorna Dizon Reyes',
+    contact_number: '09171234567',
+    email: 'lorna@example.com',
+    age: 67,
+    address: '12 Mabini St, Quezon City',
+    occupation: 'Retired',
+    distribution_info: DistributionType.LBC,
+    sales_agent_id: 2,
+    priority_flags: { senior_citizen: true, pregnant: false, pwd: false },
+    service_type: ServiceType.FRAME_FITTING,
+    queue_status: QueueStatus.COMPLETED,
+    token_number: 7,
+    token_code: 'F007',
+    created_at: new Date('2025-01-10T10:00:00')
+  };
+
+  const newVisit = {
+    ...lastVisit,
+    id: 52,
+    or_number: 'OR2501150012',
+    queue_status: QueueStatus.WAITING,
+    token_number: 12,
+    token_code: 'S012',
+    created_at: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pool = require('../../config/database').pool;
+    pool.query.mockResolvedValue({ rows: [] });
+    (QueueService.getPosition as jest.Mock).mockResolvedValue(4);
+    (QueueService.getEstimatedWaitTime as jest.Mock).mockResolvedValue({ minutes: 25, low: 15, high: 35 });
+  });
+
+  describe('devices', () => {
+    it('should store only a hash of the issued key and accept the key afterwards', async () => {
+      pool.query
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 3, name: 'Lobby kiosk', is_active: true }] });
+
+      const { device, key } = await KioskService.createDevice('Lobby kiosk', 1);
+
+      const hash = crypto.createHash('sha256').update(key).digest('hex');
+      expect(device.name).toBe('Lobby kiosk');
+      expect(pool.query.mock.calls[0][1]).toEqual(['Lobby kiosk', hash, 1]);
+      expect(pool.query.mock.calls[0][1]).not.toContain(key);
+
+      pool.query.mockResolvedValueOnce({ rows: [{ id: 3, name: 'Lobby kiosk', is_active: true }] });
+      await expect(KioskService.authenticate(key)).resolves.toEqual(expect.objectContaining({ id: 3 }));
+      expect(pool.query.mock.calls[2][0]).toContain('is_active = true');
+      expect(pool.query.mock.calls[2][1]).toEqual([hash]);
+    });
+
+    it('should tell a revoked device apart from an unknown one', async () => {
+      pool.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 3, is_active: false }] });
+      await expect(KioskService.revokeDevice(3)).rejects.toThrow('Kiosk device is already revoked');
+
+      pool.query.mockResolvedValue({ rows: [] });
+      await expect(KioskService.revokeDevice(9)).rejects.toThrow('Kiosk device not found');
+    });
+  });
+
+  describe('checkIn', () => {
+    it('should register a new visit from the last one, pending the sales details', async () => {
+      (CustomerService.findByOrNumber as jest.Mock).mockResolvedValue(lastVisit);
+      (CustomerService.create as jest.Mock).mockResolvedValue(newVisit);
+
+      const ticket = await KioskService.checkIn({ or_number: ' OR2501100007 ', service_type: ServiceType.CASHIER }, 3);
+
+      expect(CustomerService.findByOrNumber).toHaveBeenCalledWith('OR2501100007');
+      expect(CustomerService.create).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Lorna Dizon Reyes',
+        age: 67,
+        address: '12 Mabini St, Quezon City',
+        distribution_info: DistributionType.LBC,
+        service_type: ServiceType.CASHIER,
+        priority_flags: { senior_citizen: true, pregnant: false, pwd: false },
+        sales_agent_id: null,
+        registration_source: 'kiosk',
+        kiosk_device_id: 3
+      }));
+      expect(ticket).toEqual(expect.objectContaining({
+        customer_id: 52,
+        first_name: 'Lorna',
+        token_code: 'S012',
+        position: 4,
+        estimated_wait_minutes: 25,
+        already_queued: false
+      }));
+    });
+
+    it('should reissue the ticket of a customer already in line today', async () => {
+      pool.query.mockResolvedValueOnce({ rows: [{ id: 60, name: 'Mark Reyes Santos' }, { id: 52, name: 'Lorna  Dizon Reyes' }] });
+      (CustomerService.findById as jest.Mock).mockResolvedValue(newVisit);
+
+      const ticket = await KioskService.checkIn({ contact_number: '09171234567', last_name: ' dizon reyes ' }, 3);
+
+      expect(pool.query.mock.calls[0][1]).toEqual(['09171234567']);
+      expect(CustomerService.findById).toHaveBeenCalledWith(52);
+      expect(CustomerService.create).not.toHaveBeenCalled();
+      expect(ticket.already_queued).toBe(true);
+      expect(ticket.token_code).toBe('S012');
+      expect(ticket).not.toHaveProperty('or_number');
+    });
+
+    it('should not match a contact number without the right last name', async () => {
+      pool.query.mockResolvedValue({ rows: [{ id: 52, name: 'Lorna Dizon Reyes' }] });
+
+      await expect(KioskService.checkIn({ contact_number: '09171234567' }, 3)).rejects.toThrow('Customer not found');
+      await expect(KioskService.checkIn({ contact_number: '09171234567', last_name: 'Santos' }, 3)).rejects.toThrow('Customer not found');
+
+      expect(pool.query).toHaveBeenCalledTimes(1);
+      expect(CustomerService.findById).not.toHaveBeenCalled();
+    });
+
+    it('should fail when there is no previous visit', async () => {
+      (CustomerService.findByOrNumber as jest.Mock).mockResolvedValue(null);
+
+      await expect(KioskService.checkIn({ or_number: 'OR0000000000' }, 3)).rejects.toThrow('Customer not found');
+      expect(CustomerService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('register', () => {
+    it('should queue a new customer from the short form', async () => {
+      (CustomerService.create as jest.Mock).mockResolvedValue({ ...newVisit, name: 'Paolo Cruz' });
+
+      const ticket = await KioskService.register({
+        name: 'Paolo Cruz',
+        contact_number: '09181112222',
+        age: 29,
+        priority_flags: { senior_citizen: false, pregnant: false, pwd: true }
+      }, 3);
+
+      expect(CustomerService.create).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Paolo Cruz',
+        email: '',
+        payment_info: { mode: 'cash', amount: 0 },
+        priority_flags: { senior_citizen: false, pregnant: false, pwd: true },
+        registration_source: 'kiosk'
+      }));
+      expect(ticket.first_name).toBe('Paolo');
+    });
+  });
+
+  describe('completing a kiosk registration', () => {
+    const { CustomerService: RealCustomerService } = jest.requireActual('../../services/customer');
+
+    it('should clear the pending flag and create the skipped initial transaction', async () => {
+      const pending = { ...newVisit, sales_agent_id: null, details_pending: true, payment_info: '{"mode":"cash","amount":0}' };
+      pool.query.mockImplementation((query: string) => {
+        if (query.includes('UPDATE customers')) {
+          return { rows: [{ ...pending, sales_agent_id: 5, details_pending: false }] };
+        }
+        if (query.includes('SELECT payment_info FROM customers')) {
+          return { rows: [{ payment_info: { mode: 'gcash', amount: 2400 } }] };
+        }
+        if (query.includes('FROM customers c')) {
+          return { rows: [pending] };
+        }
+        return { rows: [] };
+      });
+
+      await RealCustomerService.update(52, { payment_info: { mode: 'gcash', amount: 2400 }, sales_agent_id: 5 } as any);
+
+      const update = pool.query.mock.calls.find(([query]: [string]) => query.includes('UPDATE customers'));
+      expect(update[0]).toContain('details_pending');
+      expect(update[1]).toContain(false);
+      const insert = pool.query.mock.calls.find(([query]: [string]) => query.includes('INSERT INTO transactions'));
+      expect(insert[1]).toEqual([52, 'OR2501150012', 2400, 'gcash', 5, null, 0, 2400, 'unpaid']);
+    });
+  });
+});
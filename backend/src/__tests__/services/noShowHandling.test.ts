@@ -0,0 +1,207 @@
+import { QueueService } from '../../services/queue';
+import { WebSocketService } from '../../services/websocket';
+import { QueueAnalyticsService } from '../../services/QueueAnalyticsService';
+import { SettingsService } from '../../services/settings';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    emitQueueUpdate: jest.fn(),
+    emitQueueStatusChanged: jest.fn(),
+    emitTransactionUpdate: jest.fn()
+  }
+}));
+
+// Mock QueueAnalyticsService
+jest.mock('../../services/QueueAnalyticsService', () => ({
+  QueueAnalyticsService: {
+    recordQueueEvent: jest.fn()
+  }
+}));
+
+// Mock SettingsService
+jest.mock('../../services/settings', () => ({
+  SettingsService: {
+    getNoShowSettings: jest.fn(),
+    getQueuePriorityPolicy: jest.fn()
+  }
+}));
+
+describe('No-show handling', () => {
+  let mockClient: any;
+  let pool: any;
+
+  const regular = '{"senior_citizen":false,"pregnant":false,"pwd":false}';
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000);
+
+  const servingCustomer = (overrides: any = {}) => ({
+    id: 5,
+    name: 'Juan Dela Cruz',
+    queue_status: 'serving',
+    service_type: 'cashier',
+    missed_call_count: 0,
+    queue_score_adjustment: '0',
+    manual_position: null,
+    priority_flags: regular,
+    prescription: '{}',
+    payment_info: '{}',
+    created_at: minutesAgo(30),
+    counter_id: 2,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn()
+    };
+
+    pool = require('../../config/database').pool;
+    pool.connect.mockResolvedValue(mockClient);
+    pool.query.mockResolvedValue({ rows: [] });
+
+    (SettingsService.getNoShowSettings as jest.Mock).mockResolvedValue({ maxMissedCalls: 3, skipBehindCount: 2 });
+    (SettingsService.getQueuePriorityPolicy as jest.Mock).mockResolvedValue({
+      seniorCitizenWeight: 1000,
+      pwdWeight: 900,
+      pregnantWeight: 800,
+      maxConsecutivePriority: 0,
+      agingBonusPerMinute: 20
+    });
+  });
+
+  const mockQueries = (customer: any, waiting: any[] = []) => {
+    mockClient.query.mockImplementation((query: string, params: any[]) => {
+      if (query.includes('FOR UPDATE OF c')) {
+        return { rows: customer ? [customer] : [] };
+      }
+      if (query.includes('SET missed_call_count')) {
+        return { rows: [{ ...customer, missed_call_count: params[1] }] };
+      }
+      if (query.includes("service_type = $1 AND id <> $2")) {
+        return { rows: waiting };
+      }
+      if (query.includes("SET queue_status = 'waiting'")) {
+        return { rows: [{ ...customer, queue_status: 'waiting', manual_position: params[1], queue_score_adjustment: params[2] }] };
+      }
+      if (query.includes("SET queue_status = 'cancelled'")) {
+        return { rows: [{ ...customer, queue_status: 'cancelled', remarks: `Cancelled: ${params[1]}` }] };
+      }
+      return { rows: [] };
+    });
+  };
+
+  describe('recallCustomer', () => {
+    it('should count the missed call and re-announce the customer', async () => {
+      mockQueries(servingCustomer());
+
+      const result = await QueueService.recallCustomer(5);
+
+      expect(result.action).toBe('recalled');
+      expect(result.missedCalls).toBe(1);
+      expect(WebSocketService.emitQueueUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'customer_recalled',
+        counterId: 2,
+        missedCalls: 1
+      }));
+      expect(QueueAnalyticsService.recordQueueEvent).toHaveBeenCalledWith(expect.objectContaining({
+        customerId: 5,
+        eventType: 'recalled',
+        counterId: 2
+      }));
+    });
+
+    it('should reject customers who are not being served', async () => {
+      mockQueries(servingCustomer({ queue_status: 'waiting' }));
+
+      await expect(QueueService.recallCustomer(5)).rejects.toThrow('Customer is not being served');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(WebSocketService.emitQueueUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should cancel the customer as a no-show once the missed call limit is reached', async () => {
+      mockQueries(servingCustomer({ missed_call_count: 2 }));
+      const cancelSpy = jest.spyOn(QueueService, 'cancelService');
+
+      const result = await QueueService.recallCustomer(5);
+
+      expect(result.action).toBe('cancelled');
+      expect(result.missedCalls).toBe(3);
+      expect(result.customer.queue_status).toBe('cancelled');
+      expect(cancelSpy).not.toHaveBeenCalled();
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('current_customer_id = NULL'), [2, 5]);
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining("queue_status = 'serving'"), [5, 'no_show']);
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+      expect(WebSocketService.emitQueueUpdate).toHaveBeenCalledWith(expect.objectContaining({ type: 'customer_cancelled', reason: 'no_show' }));
+      expect(WebSocketService.emitQueueUpdate).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'customer_recalled' }));
+
+      cancelSpy.mockRestore();
+    });
+
+    it('should keep the transactions of a customer cancelled as a no-show', async () => {
+      mockQueries(servingCustomer({ missed_call_count: 2, or_number: 'OR-250101-001' }));
+
+      await QueueService.recallCustomer(5);
+
+      const queries = [...mockClient.query.mock.calls, ...pool.query.mock.calls].map(([query]: [string]) => query);
+      expect(queries.some((query) => query.includes('transactions'))).toBe(false);
+      expect(WebSocketService.emitTransactionUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('skipCustomer', () => {
+    it('should return the customer to waiting right behind the next N customers', async () => {
+      mockQueries(servingCustomer(), [
+        { id: 6, priority_flags: regular, created_at: minutesAgo(20), manual_position: null, queue_score_adjustment: '0' },
+        { id: 7, priority_flags: regular, created_at: minutesAgo(10), manual_position: null, queue_score_adjustment: '0' },
+        { id: 8, priority_flags: regular, created_at: minutesAgo(5), manual_position: null, queue_score_adjustment: '0' }
+      ]);
+
+      const result = await QueueService.skipCustomer(5);
+
+      expect(result.action).toBe('skipped');
+      expect(result.customer.queue_status).toBe('waiting');
+
+      // 30 minutes waited vs. 10 for the second customer in line: 20 minutes * 20 points, plus a hair
+      const updateCall = mockClient.query.mock.calls.find(([query]: [string]) => query.includes("SET queue_status = 'waiting'"));
+      expect(updateCall[1]).toEqual([5, null, '-400.01']);
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('SET current_customer_id = NULL'), [5]);
+      expect(QueueAnalyticsService.recordQueueEvent).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'skipped',
+        queuePosition: 3
+      }));
+    });
+
+    it('should slot in after a manually positioned customer', async () => {
+      mockQueries(servingCustomer(), [
+        { id: 6, priority_flags: regular, created_at: minutesAgo(20), manual_position: 1, queue_score_adjustment: '0' },
+        { id: 7, priority_flags: regular, created_at: minutesAgo(10), manual_position: 2, queue_score_adjustment: '0' }
+      ]);
+
+      await QueueService.skipCustomer(5);
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('manual_position = manual_position + 1'), [3]);
+      const updateCall = mockClient.query.mock.calls.find(([query]: [string]) => query.includes("SET queue_status = 'waiting'"));
+      expect(updateCall[1]).toEqual([5, 3, '0.00']);
+    });
+
+    it('should cancel the customer as a no-show without deleting their transactions', async () => {
+      mockQueries(servingCustomer({ missed_call_count: 2 }));
+
+      const result = await QueueService.skipCustomer(5);
+
+      expect(result.action).toBe('cancelled');
+      expect(mockClient.query).not.toHaveBeenCalledWith(expect.stringContaining('DELETE FROM transactions'), expect.anything());
+      expect(mockClient.query).not.toHaveBeenCalledWith(expect.stringContaining("SET queue_status = 'waiting'"), expect.anything());
+    });
+  });
+});
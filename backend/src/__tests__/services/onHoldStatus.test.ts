@@ -0,0 +1,199 @@
+import { QueueService } from '../../services/queue';
+import { SettingsService } from '../../services/settings';
+import { WebSocketService } from '../../services/websocket';
+import { QueueStatus, UserRole } from '../../types';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    emitQueueUpdate: jest.fn(),
+    emitQueueStatusChanged: jest.fn()
+  }
+}));
+
+// Mock QueueAnalyticsService
+jest.mock('../../services/QueueAnalyticsService', () => ({
+  QueueAnalyticsService: {
+    recordQueueEvent: jest.fn()
+  }
+}));
+
+// Mock SettingsService
+jest.mock('../../services/settings', () => ({
+  SettingsService: {
+    getQueueHoldSettings: jest.fn(),
+    getQueuePriorityPolicy: jest.fn()
+  }
+}));
+
+describe('On-hold queue status', () => {
+  let mockClient: any;
+  let pool: any;
+
+  const regular = '{"senior_citizen":false,"pregnant":false,"pwd":false}';
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000);
+  const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60000);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn()
+    };
+
+    pool = require('../../config/database').pool;
+    pool.connect.mockResolvedValue(mockClient);
+    pool.query.mockResolvedValue({ rows: [] });
+
+    (SettingsService.getQueueHoldSettings as jest.Mock).mockResolvedValue({ holdWindowMinutes: 10 });
+    (SettingsService.getQueuePriorityPolicy as jest.Mock).mockResolvedValue({
+      seniorCitizenWeight: 1000,
+      pwdWeight: 900,
+      pregnantWeight: 800,
+      maxConsecutivePriority: 0,
+      agingBonusPerMinute: 20
+    });
+  });
+
+  const mockCustomer = (customer: any) => {
+    mockClient.query.mockImplementation((query: string, params: any[]) => {
+      if (query.includes('SELECT id, name, queue_status')) {
+        return { rows: customer ? [customer] : [] };
+      }
+      if (query.includes('UPDATE customers')) {
+        return { rows: [{ ...customer, queue_status: params[0], hold_expires_at: params[2], prescription: '{}', payment_info: '{}', priority_flags: regular }] };
+      }
+      return { rows: [] };
+    });
+  };
+
+  const findCall = (text: string) =>
+    mockClient.query.mock.calls.find(([query]: [string]) => query.includes(text));
+
+  describe('changeStatus', () => {
+    it('should let a cashier put a waiting customer on hold for the configured window', async () => {
+      mockCustomer({ id: 1, name: 'Maria Santos', queue_status: 'waiting', hold_expires_at: null });
+
+      const before = Date.now();
+      const customer = await QueueService.changeStatus(1, QueueStatus.ON_HOLD, 7, UserRole.CASHIER);
+
+      expect(customer.queue_status).toBe('on_hold');
+      const expiresAt = findCall('UPDATE customers')[1][2] as Date;
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + 10 * 60000);
+      expect(expiresAt.getTime()).toBeLessThan(before + 11 * 60000);
+
+      const event = findCall('INSERT INTO queue_events');
+      expect(event[1][1]).toBe('held');
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should reactivate a held customer within the window and clear the hold', async () => {
+      mockCustomer({ id: 1, name: 'Maria Santos', queue_status: 'on_hold', hold_expires_at: minutesFromNow(5) });
+
+      const customer = await QueueService.changeStatus(1, QueueStatus.WAITING, 7, UserRole.CASHIER);
+
+      expect(customer.queue_status).toBe('waiting');
+      expect(findCall('UPDATE customers')[1]).toEqual(['waiting', 1, null]);
+      expect(findCall('INSERT INTO queue_events')[1][1]).toBe('reactivated');
+      expect(SettingsService.getQueueHoldSettings).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to reactivate a customer whose hold has expired', async () => {
+      mockCustomer({ id: 1, name: 'Maria Santos', queue_status: 'on_hold', hold_expires_at: minutesAgo(1) });
+
+      await expect(QueueService.changeStatus(1, QueueStatus.WAITING, 7, UserRole.CASHIER)).rejects.toThrow('Hold has expired');
+      expect(findCall('UPDATE customers')).toBeUndefined();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should not allow calling a held customer straight to the counter', async () => {
+      mockCustomer({ id: 1, name: 'Maria Santos', queue_status: 'on_hold', hold_expires_at: minutesFromNow(5) });
+
+      await expect(QueueService.changeStatus(1, QueueStatus.SERVING, 1, UserRole.ADMIN)).rejects.toThrow('Invalid status transition');
+    });
+
+    it('should not allow the sales role to hold customers', async () => {
+      mockCustomer({ id: 1, name: 'Maria Santos', queue_status: 'waiting', hold_expires_at: null });
+
+      await expect(QueueService.changeStatus(1, QueueStatus.ON_HOLD, 3, UserRole.SALES)).rejects.toThrow('Access denied');
+    });
+  });
+
+  describe('getDisplayQueue', () => {
+    it('should list held customers after the line without giving them a position', async () => {
+      pool.query.mockImplementation((query: string) => {
+        if (query.includes('FROM customers c')) {
+          return {
+            rows: [
+              { id: 1, queue_status: 'on_hold', priority_flags: regular, created_at: minutesAgo(40), manual_position: null, prescription: '{}', payment_info: '{}' },
+              { id: 2, queue_status: 'waiting', priority_flags: regular, created_at: minutesAgo(30), manual_position: null, prescription: '{}', payment_info: '{}' },
+              { id: 3, queue_status: 'serving', priority_flags: regular, created_at: minutesAgo(50), manual_position: null, prescription: '{}', payment_info: '{}' }
+            ]
+          };
+        }
+        return { rows: [] };
+      });
+
+      const queue = await QueueService.getDisplayQueue();
+
+      expect(queue.map((item) => [item.customer_id, item.position])).toEqual([[3, 0], [2, 1], [1, 0]]);
+      expect(queue[2].customer.queue_status).toBe('on_hold');
+    });
+  });
+
+  describe('expireHolds', () => {
+    const mockCancellation = (stillOnHold: number[]) => {
+      mockClient.query.mockImplementation((query: string, params: any[]) => {
+        if (query.includes("SET queue_status = 'cancelled'")) {
+          return { rows: stillOnHold.includes(params[0]) ? [{ id: params[0], queue_status: 'cancelled', priority_flags: regular, prescription: '{}', payment_info: '{}' }] : [] };
+        }
+        return { rows: [] };
+      });
+    };
+
+    it('should cancel every customer whose hold has lapsed', async () => {
+      pool.query.mockResolvedValue({ rows: [{ id: 4 }, { id: 9 }] });
+      mockCancellation([4, 9]);
+
+      const expired = await QueueService.expireHolds();
+
+      expect(expired).toBe(2);
+      expect(pool.query).toHaveBeenCalledWith(expect.stringContaining("queue_status = 'on_hold' AND hold_expires_at <= CURRENT_TIMESTAMP"));
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining("WHERE id = $1 AND queue_status = 'on_hold' AND hold_expires_at <= CURRENT_TIMESTAMP"),
+        [4, 'hold_expired']
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO customer_history'), expect.any(Array));
+      expect(WebSocketService.emitQueueUpdate).toHaveBeenCalledWith(expect.objectContaining({ type: 'customer_cancelled', reason: 'hold_expired' }));
+    });
+
+    it('should leave customers alone whose status changed since the sweep started', async () => {
+      pool.query.mockResolvedValue({ rows: [{ id: 4 }, { id: 9 }] });
+      mockCancellation([9]);
+
+      const expired = await QueueService.expireHolds();
+
+      expect(expired).toBe(1);
+      expect(mockClient.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO customer_history'), expect.arrayContaining([4]));
+      expect(WebSocketService.emitQueueUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never delete the transactions of an expired hold', async () => {
+      pool.query.mockResolvedValue({ rows: [{ id: 4 }] });
+      mockCancellation([4]);
+
+      await QueueService.expireHolds();
+
+      const queries = [...mockClient.query.mock.calls, ...pool.query.mock.calls].map(([query]: [string]) => query);
+      expect(queries.some((query) => query.includes('transactions'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { OrderReleaseService } from '../../services/orderRelease';
+import { EnhancedSMSService } from '../../services/EnhancedSMSService';
+import { JobOrderService } from '../../services/jobOrder';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock EnhancedSMSService
+jest.mock('../../services/EnhancedSMSService', () => ({
+  EnhancedSMSService: {
+    sendReleaseCodeNotification: jest.fn()
+  }
+}));
+
+// Mock JobOrderService
+jest.mock('../../services/jobOrder', () => ({
+  JobOrderService: {
+    getSettings: jest.fn(),
+    list: jest.fn(),
+    moveToStage: jest.fn()
+  }
+}));
+
+describe('OrderReleaseService', () => {
+  let pool: any;
+  let mockClient: any;
+
+  const now = new Date('2025-01-15T15:00:00+08:00');
+  const signature = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+  const hash = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+  const customer = { id: 3, name: 'Juan Dela Cruz', contact_number: '09171234567', or_number: 'OR-0003' };
+  const release = { id: 1, customer_id: 3, received_by: 'Juan Dela Cruz' };
+
+  // Answers by query; `released` is what order_releases holds for the customer
+  const givenRelease = (options: { code?: any; balance?: number; released?: any; sent?: { sent: string; last_sent_at: Date | null } } = {}) => {
+    pool.query.mockImplementation((query: string) => {
+      if (query.includes('FROM customers')) return { rows: [customer] };
+      if (query.includes('FROM release_codes')) return { rows: options.code ? [options.code] : [] };
+      if (query.includes('FROM order_releases')) return { rows: options.released ? [options.released] : [] };
+      return { rows: [] };
+    });
+    mockClient.query.mockImplementation((query: string) => {
+      if (query.includes('FROM customers')) return { rows: [customer] };
+      if (query.includes('FROM order_releases')) return { rows: [] };
+      if (query.includes('FROM transactions')) return { rows: [{ id: 9, balance_amount: options.balance || 0 }] };
+      if (query.includes('UPDATE release_codes')) return { rows: [], rowCount: 1 };
+      if (query.includes('COUNT(*) AS sent')) return { rows: [options.sent || { sent: '0', last_sent_at: null }] };
+      return { rows: [] };
+    });
+  };
+
+  const insertedRelease = () => mockClient.query.mock.calls
+    .find(([query]: [string]) => query.includes('INSERT INTO order_releases'));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockClient = {
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      release: jest.fn()
+    };
+    pool = require('../../config/database').pool;
+    pool.connect.mockResolvedValue(mockClient);
+    pool.query.mockResolvedValue({ rows: [] });
+
+    (EnhancedSMSService.sendReleaseCodeNotification as jest.Mock).mockResolvedValue({ status: 'sent' });
+    (JobOrderService.getSettings as jest.Mock).mockResolvedValue({
+      stages: [{ key: 'ready', ready: true, final: false }, { key: 'released', ready: false, final: true }]
+    });
+    (JobOrderService.list as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('validateRelease', () => {
+    it('should accept a coded or representative release with a signature', () => {
+      expect(OrderReleaseService.validateRelease({ verification: 'sms_code', code: '123456', signature })).toBeNull();
+      expect(OrderReleaseService.validateRelease({ verification: 'representative', representative_name: 'Maria', signature })).toBeNull();
+    });
+
+    it('should reject missing names, signatures and override reasons', () => {
+      expect(OrderReleaseService.validateRelease({ verification: 'representative', representative_name: ' ', signature }))
+        .toBe("Enter the representative's name");
+      expect(OrderReleaseService.validateRelease({ verification: 'sms_code', code: '123456', signature: 'data:image/jpeg;base64,AAAA' }))
+        .toBe('Signature must be a PNG image');
+      expect(OrderReleaseService.validateRelease({ verification: 'sms_code', code: '123456' }))
+        .toBe('A signature is required');
+      expect(OrderReleaseService.validateRelease({ verification: 'sms_code', code: '123456', signature, override_balance: true }))
+        .toBe('Give a reason for releasing with a balance');
+    });
+  });
+
+  describe('sendCode', () => {
+    it('should text a six-digit code and keep only its hash', async () => {
+      givenRelease();
+
+      const sent = await OrderReleaseService.sendCode(3, 1, now);
+
+      const code = (EnhancedSMSService.sendReleaseCodeNotification as jest.Mock).mock.calls[0][4];
+      expect(code).toMatch(/^\d{6}$/);
+      const insert = mockClient.query.mock.calls.find(([query]: [string]) => query.includes('INSERT INTO release_codes'));
+      expect(insert[1]).toEqual([3, hash(code), new Date(now.getTime() + 10 * 60000), 1, now]);
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+      expect(sent).toEqual({ sent_to: '09171234567', expires_at: new Date(now.getTime() + 10 * 60000) });
+    });
+
+    it('should refuse released orders and report a failed text', async () => {
+      givenRelease({ released: release });
+      await expect(OrderReleaseService.sendCode(3, 1, now)).rejects.toThrow('Order is already released');
+
+      givenRelease();
+      (EnhancedSMSService.sendReleaseCodeNotification as jest.Mock).mockResolvedValue({ status: 'failed' });
+      await expect(OrderReleaseService.sendCode(3, 1, now)).rejects.toThrow('Failed to send the release code');
+    });
+
+    it('should not send another code within a minute of the last one', async () => {
+      givenRelease({ sent: { sent: '1', last_sent_at: new Date(now.getTime() - 30000) } });
+
+      await expect(OrderReleaseService.sendCode(3, 1, now)).rejects.toThrow('A release code was just sent');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(EnhancedSMSService.sendReleaseCodeNotification).not.toHaveBeenCalled();
+    });
+
+    it('should stop sending codes after the daily limit', async () => {
+      givenRelease({ sent: { sent: '5', last_sent_at: new Date(now.getTime() - 3600000) } });
+
+      await expect(OrderReleaseService.sendCode(3, 1, now)).rejects.toThrow('Too many release codes sent today');
+      const count = mockClient.query.mock.calls.find(([query]: [string]) => query.includes('COUNT(*) AS sent'));
+      expect(count[1]).toEqual([3, new Date(now.getTime() - 24 * 3600000)]);
+      expect(mockClient.query.mock.calls.some(([query]: [string]) => query.includes('INSERT INTO release_codes'))).toBe(false);
+    });
+  });
+
+  describe('release', () => {
+    it('should release to the customer with the right code and close their job orders', async () => {
+      givenRelease({ code: { id: 7, code_hash: hash('482913'), attempts: 0 }, released: release });
+      (JobOrderService.list as jest.Mock).mockResolvedValue([{ id: 12 }]);
+
+      await OrderReleaseService.release(3, { verification: 'sms_code', code: ' 482913 ', signature }, 1, now);
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE release_codes SET used_at'), [7, now]);
+      expect(insertedRelease()[1]).toEqual([3, 9, 'sms_code', 'Juan Dela Cruz', signature, 0, null, null, 1, now]);
+      expect(JobOrderService.moveToStage).toHaveBeenCalledWith(12, 'released', 1, 'Released to Juan Dela Cruz');
+    });
+
+    it('should count a wrong code and stop after too many', async () => {
+      givenRelease({ code: { id: 7, code_hash: hash('482913'), attempts: 2 } });
+      await expect(OrderReleaseService.release(3, { verification: 'sms_code', code: '111111', signature }, 1, now))
+        .rejects.toThrow('Wrong release code');
+      expect(pool.query).toHaveBeenCalledWith('UPDATE release_codes SET attempts = attempts + 1 WHERE id = $1', [7]);
+
+      givenRelease({ code: { id: 7, code_hash: hash('482913'), attempts: 5 } });
+      await expect(OrderReleaseService.release(3, { verification: 'sms_code', code: '482913', signature }, 1, now))
+        .rejects.toThrow('Too many wrong codes; send a new one');
+
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should hold an order with a balance unless overridden', async () => {
+      givenRelease({ balance: 500, released: release });
+      await expect(OrderReleaseService.release(3, { verification: 'representative', representative_name: 'Maria Santos', signature }, 1, now))
+        .rejects.toThrow('Order has an unpaid balance');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(insertedRelease()).toBeUndefined();
+
+      await OrderReleaseService.release(3, {
+        verification: 'representative',
+        representative_name: ' Maria Santos ',
+        signature,
+        override_balance: true,
+        override_reason: 'Pays on Friday'
+      }, 2, now);
+      expect(insertedRelease()[1]).toEqual([3, 9, 'representative', 'Maria Santos', signature, 500, 2, 'Pays on Friday', 2, now]);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { PatientService } from '../../services/patient';
+import { Patient } from '../../types';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+describe('PatientService', () => {
+  let pool: any;
+
+  const patient = (overrides: Partial<Patient>): Patient => ({
+    id: 1,
+    name: 'Maria Santos',
+    contact_number: '09171234567',
+    email: null,
+    birth_date: '1985-03-14',
+    address: null,
+    occupation: null,
+    visit_count: 1,
+    last_visit_at: new Date('2025-01-10T09:00:00'),
+    created_at: new Date('2025-01-10T09:00:00'),
+    updated_at: new Date('2025-01-10T09:00:00'),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pool = require('../../config/database').pool;
+  });
+
+  describe('validatePatient', () => {
+    it('should accept a name with optional details', () => {
+      expect(PatientService.validatePatient({ name: 'Maria Santos' })).toBeNull();
+      expect(PatientService.validatePatient({ name: 'Maria Santos', contact_number: '09171234567', birth_date: '1985-03-14' })).toBeNull();
+    });
+
+    it('should reject a missing name and a bad or future birthdate', () => {
+      expect(PatientService.validatePatient({ name: ' ' })).toMatch(/name is required/);
+      expect(PatientService.validatePatient({ name: 'Maria', birth_date: '1985-02-30' })).toMatch(/Birthdate/);
+      expect(PatientService.validatePatient({ name: 'Maria', birth_date: '2999-01-01' })).toMatch(/Birthdate/);
+    });
+  });
+
+  describe('matchedOn', () => {
+    it('should match phone numbers on their last 10 digits', () => {
+      expect(PatientService.matchedOn(patient({}), { contact_number: '+63 917 123 4567' })).toEqual(['contact_number']);
+    });
+
+    it('should match names regardless of case and spacing', () => {
+      expect(PatientService.matchedOn(patient({}), { name: '  maria   SANTOS ' })).toEqual(['name']);
+    });
+
+    it('should only count the birthdate alongside a phone or name match', () => {
+      expect(PatientService.matchedOn(patient({}), { name: 'Maria Santos', birth_date: '1985-03-14' })).toEqual(['name', 'birth_date']);
+      expect(PatientService.matchedOn(patient({}), { name: 'Ana Cruz', birth_date: '1985-03-14' })).toEqual([]);
+    });
+  });
+
+  describe('findMatches', () => {
+    it('should not look anything up without a phone number or name', async () => {
+      expect(await PatientService.findMatches({ contact_number: '123', birth_date: '1985-03-14' })).toEqual([]);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should put the profiles sharing the most details first', async () => {
+      pool.query.mockResolvedValueOnce({
+        rows: [
+          patient({ id: 1, contact_number: '09998887777' }),
+          patient({ id: 2 }),
+          patient({ id: 3, name: 'Jose Santos', birth_date: null })
+        ]
+      });
+
+      const matches = await PatientService.findMatches({ name: 'Maria Santos', contact_number: '09171234567', birth_date: '1985-03-14' });
+
+      expect(pool.query.mock.calls[0][1]).toEqual(['9171234567', 'maria santos']);
+      expect(matches.map((match) => [match.patient.id, match.matched_on])).toEqual([
+        [2, ['contact_number', 'name', 'birth_date']],
+        [1, ['name', 'birth_date']],
+        [3, ['contact_number']]
+      ]);
+    });
+  });
+
+  describe('getTimeline', () => {
+    it('should list the visits with their totals and the outstanding balance', async () => {
+      pool.query
+        .mockResolvedValueOnce({ rows: [patient({ visit_count: 2 })] })
+        .mockResolvedValueOnce({
+          rows: [
+            { customer_id: 9, or_number: 'OR-2', prescription: '{"od":"-1.25"}', amount: '2500.00', paid_amount: '1000.00', balance_amount: '1500.00' },
+            { customer_id: 4, or_number: 'OR-1', prescription: null, amount: '1800.00', paid_amount: '1800.00', balance_amount: '0.00' }
+          ]
+        });
+
+      const timeline = await PatientService.getTimeline(1);
+
+      expect(timeline.visits[0]).toEqual(expect.objectContaining({ customer_id: 9, prescription: { od: { sphere: -1.25 } }, balance_amount: 1500 }));
+      expect(timeline.visits[1].prescription).toEqual({});
+      expect(timeline.total_balance).toBe(1500);
+    });
+
+    it('should throw for an unknown profile', async () => {
+      pool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(PatientService.getTimeline(99)).rejects.toThrow('Patient not found');
+    });
+  });
+
+  describe('ageOn', () => {
+    const now = new Date('2025-06-01T10:00:00+08:00');
+
+    it('should use the birthdate when known', () => {
+      expect(PatientService.ageOn('1985-06-02', null, now)).toBe(39);
+      expect(PatientService.ageOn('1985-06-01', null, now)).toBe(40);
+    });
+
+    it("should otherwise age the latest visit's age", () => {
+      expect(PatientService.ageOn(null, { age: 30, created_at: new Date('2023-05-01T10:00:00+08:00') }, now)).toBe(32);
+      expect(PatientService.ageOn(null, null, now)).toBeNull();
+    });
+  });
+});
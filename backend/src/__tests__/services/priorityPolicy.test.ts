@@ -0,0 +1,108 @@
+import { PriorityPolicyService } from '../../services/priorityPolicy';
+import { QueuePriorityPolicySettings } from '../../services/settings';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    query: jest.fn()
+  }
+}));
+
+describe('PriorityPolicyService', () => {
+  const now = new Date('2026-01-15T10:00:00Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000);
+
+  const policy: QueuePriorityPolicySettings = {
+    seniorCitizenWeight: 1000,
+    pwdWeight: 900,
+    pregnantWeight: 800,
+    maxConsecutivePriority: 0,
+    agingBonusPerMinute: 20,
+    appointmentWeight: 800
+  };
+
+  const regular = '{"senior_citizen":false,"pregnant":false,"pwd":false}';
+  const senior = '{"senior_citizen":true,"pregnant":false,"pwd":false}';
+
+  const ids = (ordered: Array<{ customer: { id: number } }>) => ordered.map((item) => item.customer.id);
+
+  describe('getPriorityWeight', () => {
+    it('should use the strongest flag instead of stacking weights', () => {
+      expect(PriorityPolicyService.getPriorityWeight({ senior_citizen: true, pregnant: true, pwd: true }, policy)).toBe(1000);
+      expect(PriorityPolicyService.getPriorityWeight('{"pregnant":true}', policy)).toBe(800);
+      expect(PriorityPolicyService.getPriorityWeight(null, policy)).toBe(0);
+    });
+  });
+
+  describe('orderQueue', () => {
+    it('should put priority customers ahead of recent regular customers', () => {
+      const ordered = PriorityPolicyService.orderQueue([
+        { id: 1, priority_flags: regular, created_at: minutesAgo(10) },
+        { id: 2, priority_flags: senior, created_at: minutesAgo(1) }
+      ], policy, 0, now);
+
+      expect(ids(ordered)).toEqual([2, 1]);
+      expect(ordered[0].isPriority).toBe(true);
+    });
+
+    it('should let a long-waiting regular customer overtake a newly arrived priority customer', () => {
+      const ordered = PriorityPolicyService.orderQueue([
+        { id: 1, priority_flags: regular, created_at: minutesAgo(60) },
+        { id: 2, priority_flags: senior, created_at: minutesAgo(1) }
+      ], policy, 0, now);
+
+      expect(ids(ordered)).toEqual([1, 2]);
+      expect(ordered[0].score).toBe(1200);
+    });
+
+    it('should serve a regular customer once the consecutive priority limit is reached', () => {
+      const customers = [
+        { id: 1, priority_flags: senior, created_at: minutesAgo(3) },
+        { id: 2, priority_flags: senior, created_at: minutesAgo(2) },
+        { id: 3, priority_flags: senior, created_at: minutesAgo(1) },
+        { id: 4, priority_flags: regular, created_at: minutesAgo(1) }
+      ];
+      const limited = { ...policy, maxConsecutivePriority: 2 };
+
+      expect(ids(PriorityPolicyService.orderQueue(customers, limited, 0, now))).toEqual([1, 2, 4, 3]);
+      // Two priority customers were already called in a row before this ordering
+      expect(ids(PriorityPolicyService.orderQueue(customers, limited, 2, now))).toEqual([4, 1, 2, 3]);
+    });
+
+    it('should keep manually positioned customers at the front', () => {
+      const ordered = PriorityPolicyService.orderQueue([
+        { id: 1, priority_flags: senior, created_at: minutesAgo(30), manual_position: null },
+        { id: 2, priority_flags: regular, created_at: minutesAgo(1), manual_position: 2 },
+        { id: 3, priority_flags: regular, created_at: minutesAgo(1), manual_position: 1 }
+      ], policy, 0, now);
+
+      expect(ids(ordered)).toEqual([3, 2, 1]);
+    });
+
+    it('should merge checked-in appointments into the line at their slot time', () => {
+      const inMinutes = (minutes: number) => new Date(now.getTime() + minutes * 60000);
+      const ordered = PriorityPolicyService.orderQueue([
+        { id: 1, priority_flags: regular, created_at: minutesAgo(20) },
+        { id: 2, priority_flags: regular, created_at: minutesAgo(30), appointment_at: inMinutes(10) },
+        { id: 3, priority_flags: regular, created_at: minutesAgo(30), appointment_at: minutesAgo(5) }
+      ], policy, 0, now);
+
+      // Early arrivals don't age before their slot; once it starts they get the appointment weight
+      expect(ids(ordered)).toEqual([3, 1, 2]);
+      expect(ordered.map((item) => item.score)).toEqual([900, 400, 0]);
+    });
+  });
+
+  describe('validatePolicy', () => {
+    it('should accept values within range', () => {
+      expect(PriorityPolicyService.validatePolicy({ seniorCitizenWeight: 500, maxConsecutivePriority: 0 })).toBeNull();
+    });
+
+    it('should reject out-of-range, non-numeric and unknown values', () => {
+      expect(PriorityPolicyService.validatePolicy({ pwdWeight: -1 })).toBe('pwdWeight must be between 0 and 10000');
+      expect(PriorityPolicyService.validatePolicy({ maxConsecutivePriority: 1.5 })).toBe('maxConsecutivePriority must be a whole number');
+      expect(PriorityPolicyService.validatePolicy({ agingBonusPerMinute: '5' as any })).toBe('agingBonusPerMinute must be a number');
+      expect(PriorityPolicyService.validatePolicy({ vipWeight: 10 } as any)).toBe('Unknown priority policy setting: vipWeight');
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { QueuePauseService } from '../../services/queuePause';
+import { QueueService } from '../../services/queue';
+import { WebSocketService } from '../../services/websocket';
+import { QueueAnalyticsService } from '../../services/QueueAnalyticsService';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    emitQueueUpdate: jest.fn()
+  }
+}));
+
+// Mock QueueAnalyticsService
+jest.mock('../../services/QueueAnalyticsService', () => ({
+  QueueAnalyticsService: {
+    recordQueueEvent: jest.fn()
+  }
+}));
+
+describe('QueuePauseService', () => {
+  let pool: any;
+  let mockClient: any;
+
+  const lunch = {
+    id: 3,
+    reason: 'Lunch break',
+    expected_resume_at: new Date('2025-01-15T13:00:00'),
+    paused_by: 1,
+    paused_by_name: 'Cashier One',
+    paused_at: new Date('2025-01-15T12:00:00'),
+    resumed_by: null,
+    resumed_at: null
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn()
+    };
+    pool = require('../../config/database').pool;
+    pool.connect.mockResolvedValue(mockClient);
+  });
+
+  afterEach(() => {
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  describe('pause', () => {
+    it('should open a pause and broadcast it', async () => {
+      pool.query
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rows: [lunch] });
+
+      const pause = await QueuePauseService.pause('Lunch break', lunch.expected_resume_at, 1);
+
+      expect(pause).toEqual(lunch);
+      expect(pool.query.mock.calls[0][1]).toEqual(['Lunch break', lunch.expected_resume_at, 1]);
+      expect(WebSocketService.emitQueueUpdate).toHaveBeenCalledWith(expect.objectContaining({ type: 'queue_paused', pause: lunch }));
+    });
+
+    it('should refuse a second pause while one is open', async () => {
+      pool.query.mockRejectedValueOnce(Object.assign(new Error('duplicate key value'), { code: '23505' }));
+
+      await expect(QueuePauseService.pause('Power outage', null, 1)).rejects.toThrow('Queue is already paused');
+      expect(WebSocketService.emitQueueUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resume', () => {
+    it('should close the open pause and broadcast it', async () => {
+      const resumed = { ...lunch, resumed_by: 2, resumed_at: new Date('2025-01-15T12:50:00') };
+      pool.query
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rows: [resumed] });
+
+      const pause = await QueuePauseService.resume(2);
+
+      expect(pause.resumed_at).toEqual(resumed.resumed_at);
+      expect(pool.query.mock.calls[0][0]).toContain('WHERE resumed_at IS NULL');
+      expect(WebSocketService.emitQueueUpdate).toHaveBeenCalledWith(expect.objectContaining({ type: 'queue_resumed' }));
+    });
+
+    it('should fail when the queue is not paused', async () => {
+      pool.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(QueuePauseService.resume(2)).rejects.toThrow('Queue is not paused');
+    });
+  });
+
+  describe('calling customers while paused', () => {
+    beforeEach(() => {
+      mockClient.query.mockImplementation((query: string) => {
+        if (query.includes('FROM queue_pauses')) {
+          return { rows: [lunch] };
+        }
+        return { rows: [] };
+      });
+    });
+
+    it('should reject callNext without touching any customer', async () => {
+      await expect(QueueService.callNext(1)).rejects.toThrow('Queue is paused: Lunch break');
+
+      const queries = mockClient.query.mock.calls.map(([query]: [string]) => query);
+      expect(queries.some((query: string) => query.includes('UPDATE customers'))).toBe(false);
+      expect(queries).toContain('ROLLBACK');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should reject callSpecificCustomer', async () => {
+      await expect(QueueService.callSpecificCustomer(7, 1)).rejects.toThrow('Queue is paused: Lunch break');
+
+      const queries = mockClient.query.mock.calls.map(([query]: [string]) => query);
+      expect(queries.some((query: string) => query.includes('UPDATE customers'))).toBe(false);
+    });
+  });
+
+  describe('wait time analytics', () => {
+    it('should not count paused minutes as waiting', async () => {
+      mockClient.query.mockImplementation((query: string) => {
+        if (query.includes('wait_time_minutes')) {
+          return {
+            rows: [{
+              id: 7,
+              priority_flags: '{"senior_citizen":false,"pregnant":false,"pwd":false}',
+              created_at: new Date(),
+              manual_position: null,
+              wait_time_minutes: 75,
+              paused_minutes: '60'
+            }]
+          };
+        }
+        if (query.includes('FOR UPDATE SKIP LOCKED') || query.includes('FROM counters WHERE id = $1 FOR UPDATE')) {
+          return { rows: [{ id: 7 }] };
+        }
+        if (query.includes('UPDATE customers')) {
+          return { rows: [{ id: 7, service_type: 'cashier', prescription: '{}', payment_info: '{}', priority_flags: '{}' }] };
+        }
+        return { rows: [] };
+      });
+      pool.query.mockResolvedValue({ rows: [] });
+
+      await QueueService.callNext(1);
+
+      expect(QueueAnalyticsService.recordQueueEvent).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'called',
+        waitTimeMinutes: 15
+      }));
+    });
+  });
+});
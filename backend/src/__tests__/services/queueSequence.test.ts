@@ -0,0 +1,339 @@
+import { QueueSequenceService } from '../../services/queueSequence';
+import { SettingsService } from '../../services/settings';
+import { ServiceType } from '../../types';
+
+// The global setup mocks CustomerService; registration is exercised for real here
+jest.unmock('../../services/customer');
+import { CustomerService } from '../../services/customer';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    emitQueueUpdate: jest.fn(),
+    emitCustomerCreated: jest.fn()
+  }
+}));
+
+// Mock QueueAnalyticsService
+jest.mock('../../services/QueueAnalyticsService', () => ({
+  QueueAnalyticsService: {
+    recordQueueEvent: jest.fn()
+  }
+}));
+
+// Mock SettingsService
+jest.mock('../../services/settings', () => ({
+  SettingsService: {
+    getTokenFormatSettings: jest.fn()
+  }
+}));
+
+/**
+ * In-memory stand-in for daily_sequences that behaves like Postgres under concurrency:
+ * the upsert takes a row lock held until the transaction ends, and every statement
+ * yields to the event loop so concurrent callers interleave.
+ */
+const createSequenceDatabase = () => {
+  const values = new Map<string, number>();
+  const lockOwners = new Map<string, number>();
+  const lockWaiters = new Map<string, Array<() => void>>();
+  let nextClientId = 1;
+  let nextCustomerId = 1;
+
+  const tick = () => new Promise<void>((resolve) => setTimeout(resolve, Math.floor(Math.random() * 3)));
+
+  const acquire = async (key: string, clientId: number) => {
+    while (lockOwners.has(key) && lockOwners.get(key) !== clientId) {
+      await new Promise<void>((resolve) => lockWaiters.set(key, [...(lockWaiters.get(key) || []), resolve]));
+    }
+    lockOwners.set(key, clientId);
+  };
+
+  const releaseAll = (clientId: number) => {
+    lockOwners.forEach((owner, key) => {
+      if (owner === clientId) {
+        lockOwners.delete(key);
+        (lockWaiters.get(key) || []).forEach((wake) => wake());
+        lockWaiters.delete(key);
+      }
+    });
+  };
+
+  const query = async (clientId: number, undo: Array<() => void>, sql: string, params: any[] = []) => {
+    await tick();
+
+    if (sql === 'COMMIT' || sql === 'ROLLBACK') {
+      if (sql === 'ROLLBACK') {
+        undo.reverse().forEach((revert) => revert());
+      }
+      undo.length = 0;
+      releaseAll(clientId);
+      return { rows: [] };
+    }
+
+    if (sql.includes('INSERT INTO daily_sequences')) {
+      const key = params[1];
+      await acquire(key, clientId);
+      // Read and write happen after another yield, as they would with a slow round trip
+      const previous = values.get(key);
+      await tick();
+      const next = (previous || 0) + 1;
+      values.set(key, next);
+      undo.push(() => (previous === undefined ? values.delete(key) : values.set(key, previous)));
+      return { rows: [{ last_value: next }] };
+    }
+
+    if (sql.includes('DELETE FROM daily_sequences')) {
+      const removed = values.size;
+      values.clear();
+      return { rows: [], rowCount: removed };
+    }
+
+    if (sql.includes('INSERT INTO customers')) {
+      return {
+        rows: [{
+          id: nextCustomerId++,
+          or_number: params[0],
+          name: params[1],
+          priority_flags: params[17],
+          queue_status: params[18],
+          token_number: params[19],
+          token_code: params[20],
+          service_type: params[21]
+        }]
+      };
+    }
+
+    return { rows: [] };
+  };
+
+  return {
+    values,
+    connect: async () => {
+      const clientId = nextClientId++;
+      const undo: Array<() => void> = [];
+      return {
+        query: (sql: string, params?: any[]) => query(clientId, undo, sql, params),
+        release: jest.fn()
+      };
+    },
+    query: (sql: string, params?: any[]) => query(0, [], sql, params).then(async (result) => {
+      releaseAll(0);
+      return result;
+    })
+  };
+};
+
+describe('QueueSequenceService', () => {
+  let pool: any;
+  let db: ReturnType<typeof createSequenceDatabase>;
+
+  const regular = { senior_citizen: false, pregnant: false, pwd: false };
+  const senior = { senior_citizen: true, pregnant: false, pwd: false };
+
+  const registration = (index: number, overrides: any = {}) => ({
+    name: `Customer ${index}`,
+    contact_number: '09171234567',
+    email: `customer${index}@example.com`,
+    age: 30,
+    address: 'Manila',
+    distribution_info: 'pickup' as any,
+    sales_agent_id: 2,
+    prescription: {} as any,
+    grade_type: 'Single Vision',
+    lens_type: 'Standard',
+    estimated_time: { days: 0, hours: 0, minutes: 30 },
+    payment_info: { mode: 'cash', amount: 1500 } as any,
+    priority_flags: regular,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    db = createSequenceDatabase();
+    pool = require('../../config/database').pool;
+    pool.connect.mockImplementation(db.connect);
+    pool.query.mockImplementation(db.query);
+
+    (SettingsService.getTokenFormatSettings as jest.Mock).mockResolvedValue({
+      servicePrefixes: {},
+      priorityPrefix: '',
+      padding: 3
+    });
+  });
+
+  afterEach(() => {
+    (console.log as jest.Mock).mockRestore();
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  describe('concurrent registrations', () => {
+    it('should give every simultaneous registration a distinct token and OR number', async () => {
+      const customers = await Promise.all(
+        Array.from({ length: 30 }, (_, index) => CustomerService.create(registration(index)))
+      );
+
+      const tokens = customers.map((customer) => customer.token_number).sort((a, b) => a - b);
+      expect(tokens).toEqual(Array.from({ length: 30 }, (_, index) => index + 1));
+      expect(new Set(customers.map((customer) => customer.token_code)).size).toBe(30);
+
+      // The daily part of the OR number is unique as well, independent of the random suffix
+      const orSequences = customers.map((customer) => customer.or_number.slice(8, 11));
+      expect(new Set(orSequences).size).toBe(30);
+    });
+
+    it('should number each service type on its own, and the priority lane on its own', async () => {
+      (SettingsService.getTokenFormatSettings as jest.Mock).mockResolvedValue({
+        servicePrefixes: { [ServiceType.RELEASING]: 'PU' },
+        priorityPrefix: 'P',
+        padding: 3
+      });
+
+      const customers = await Promise.all([
+        ...Array.from({ length: 5 }, (_, index) => CustomerService.create(registration(index, { priority_flags: senior }))),
+        ...Array.from({ length: 5 }, (_, index) => CustomerService.create(registration(index + 5, { service_type: ServiceType.RELEASING }))),
+        ...Array.from({ length: 5 }, (_, index) => CustomerService.create(registration(index + 10)))
+      ]);
+
+      const codes = (serviceType: ServiceType, prefix: string) => customers
+        .filter((customer) => customer.service_type === serviceType && customer.token_code?.startsWith(prefix))
+        .map((customer) => customer.token_code)
+        .sort();
+
+      expect(codes(ServiceType.CASHIER, 'C')).toEqual(['C001', 'C002', 'C003', 'C004', 'C005']);
+      expect(codes(ServiceType.CASHIER, 'P0')).toEqual(['P001', 'P002', 'P003', 'P004', 'P005']);
+      expect(codes(ServiceType.RELEASING, 'PU')).toEqual(['PU001', 'PU002', 'PU003', 'PU004', 'PU005']);
+
+      expect(db.values.get(`token:${ServiceType.CASHIER}`)).toBe(5);
+      expect(db.values.get('token:priority')).toBe(5);
+      expect(db.values.get(`token:${ServiceType.RELEASING}`)).toBe(5);
+      expect(db.values.get('or')).toBe(15);
+    });
+
+    it('should never issue the same token code twice across service types', async () => {
+      (SettingsService.getTokenFormatSettings as jest.Mock).mockResolvedValue({
+        servicePrefixes: {},
+        priorityPrefix: 'P',
+        padding: 3
+      });
+      const serviceTypes = Object.values(ServiceType);
+
+      const customers = await Promise.all(
+        Array.from({ length: 40 }, (_, index) => CustomerService.create(registration(index, {
+          service_type: serviceTypes[index % serviceTypes.length],
+          priority_flags: index % 3 === 0 ? senior : regular
+        })))
+      );
+
+      expect(new Set(customers.map((customer) => customer.token_code)).size).toBe(40);
+    });
+
+    it('should give service types their default prefixes when none are configured', async () => {
+      const [eyeExam, releasing] = await Promise.all([
+        CustomerService.create(registration(1, { service_type: ServiceType.EYE_EXAM })),
+        CustomerService.create(registration(2, { service_type: ServiceType.RELEASING }))
+      ]);
+
+      expect(eyeExam.token_code).toBe('E001');
+      expect(releasing.token_code).toBe('R001');
+    });
+
+    it('should not consume a number when the registration is rolled back', async () => {
+      let failNext = true;
+      const connect = db.connect;
+      pool.connect.mockImplementation(async () => {
+        const client = await connect();
+        const query = client.query;
+        client.query = (sql: string, params?: any[]) => {
+          if (failNext && sql.includes('INSERT INTO customers')) {
+            failNext = false;
+            return Promise.reject(new Error('insert failed'));
+          }
+          return query(sql, params);
+        };
+        return client;
+      });
+
+      await expect(CustomerService.create(registration(1))).rejects.toThrow('insert failed');
+      const customer = await CustomerService.create(registration(2));
+
+      expect(customer.token_number).toBe(1);
+      expect(customer.token_code).toBe('C001');
+    });
+  });
+
+  describe('token format', () => {
+    it('should prefer the priority prefix for priority customers only', () => {
+      const format = { servicePrefixes: { eye_exam: 'EX', cashier: '' }, priorityPrefix: 'A', padding: 3 };
+
+      expect(QueueSequenceService.resolvePrefix(format, ServiceType.EYE_EXAM, senior)).toBe('A');
+      expect(QueueSequenceService.resolvePrefix(format, ServiceType.EYE_EXAM, regular)).toBe('EX');
+      expect(QueueSequenceService.resolvePrefix(format, ServiceType.CASHIER, regular)).toBe('');
+      expect(QueueSequenceService.resolvePrefix(format, ServiceType.RELEASING, regular)).toBe('R');
+      expect(QueueSequenceService.resolvePrefix({ ...format, priorityPrefix: '' }, ServiceType.EYE_EXAM, senior)).toBe('EX');
+    });
+
+    it('should pad the daily number to the configured width', () => {
+      expect(QueueSequenceService.formatTokenCode('P', 7, 3)).toBe('P007');
+      expect(QueueSequenceService.formatTokenCode('', 12, 4)).toBe('0012');
+      expect(QueueSequenceService.formatTokenCode('A', 1234, 3)).toBe('A1234');
+    });
+
+    it('should reject invalid formats', () => {
+      expect(QueueSequenceService.validateFormat({ padding: 0 })).toMatch(/padding/);
+      expect(QueueSequenceService.validateFormat({ priorityPrefix: 'a1' })).toMatch(/priorityPrefix/);
+      expect(QueueSequenceService.validateFormat({ servicePrefixes: { lens_cleaning: 'L' } })).toBe('Invalid service type: lens_cleaning');
+      expect(QueueSequenceService.validateFormat({ servicePrefixes: { releasing: 'PICK' } })).toMatch(/releasing/);
+      expect(QueueSequenceService.validateFormat({ servicePrefixes: { releasing: 'P' }, priorityPrefix: 'A', padding: 3 })).toBeNull();
+    });
+
+    it('should reject formats where two lanes share a prefix', () => {
+      expect(QueueSequenceService.validateFormat({ servicePrefixes: { eye_exam: '', cashier: '' } })).toBe('eye_exam and cashier must use different prefixes');
+      expect(QueueSequenceService.validateFormat({ servicePrefixes: { releasing: 'C' } })).toBe('cashier and releasing must use different prefixes');
+      expect(QueueSequenceService.validateFormat({ priorityPrefix: 'E' })).toBe('priorityPrefix must differ from the prefix of eye_exam');
+      expect(QueueSequenceService.validateFormat({ servicePrefixes: { cashier: '' }, priorityPrefix: '' })).toBeNull();
+    });
+  });
+
+  describe('resetDailySequences', () => {
+    it('should restart every lane at 1 after the daily reset', async () => {
+      await QueueSequenceService.nextToken(ServiceType.CASHIER, regular);
+      await QueueSequenceService.nextToken(ServiceType.CASHIER, regular);
+      await QueueSequenceService.nextORNumber();
+
+      const removed = await QueueSequenceService.resetDailySequences();
+
+      expect(removed).toBe(2);
+      expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('business_date <'), [expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/)]);
+      expect(await QueueSequenceService.nextToken(ServiceType.CASHIER, regular)).toEqual({ tokenNumber: 1, tokenCode: 'C001' });
+    });
+  });
+
+  describe('business date', () => {
+    it('should date OR numbers and counters by the Manila calendar', async () => {
+      // 01:30 on the 16th in Manila, still the 15th in UTC
+      const now = jest.spyOn(Date, 'now').mockReturnValue(new Date('2025-01-15T17:30:00Z').getTime());
+      try {
+        const orNumber = await QueueSequenceService.nextORNumber();
+        await QueueSequenceService.resetDailySequences();
+
+        expect(orNumber.slice(0, 11)).toBe('OR250116001');
+        expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO daily_sequences'), ['2025-01-16', 'or']);
+        expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('business_date <'), ['2025-01-16']);
+      } finally {
+        now.mockRestore();
+      }
+    });
+  });
+});
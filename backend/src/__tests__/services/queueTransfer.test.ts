@@ -0,0 +1,179 @@
+import { QueueService } from '../../services/queue';
+import { WebSocketService } from '../../services/websocket';
+import { QueueAnalyticsService } from '../../services/QueueAnalyticsService';
+import { ServiceType } from '../../types';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    emitQueueUpdate: jest.fn(),
+    emitQueueStatusChanged: jest.fn()
+  }
+}));
+
+// Mock QueueAnalyticsService
+jest.mock('../../services/QueueAnalyticsService', () => ({
+  QueueAnalyticsService: {
+    recordQueueEvent: jest.fn()
+  }
+}));
+
+describe('QueueService.transferCustomer', () => {
+  let mockClient: any;
+  let pool: any;
+
+  const servingCustomer = (overrides: any = {}) => ({
+    id: 5,
+    name: 'Juan Dela Cruz',
+    queue_status: 'serving',
+    service_type: 'eye_exam',
+    priority_flags: '{"senior_citizen":false,"pregnant":false,"pwd":false}',
+    prescription: '{}',
+    payment_info: '{}',
+    service_time_minutes: 12.4,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn()
+    };
+
+    pool = require('../../config/database').pool;
+    pool.connect.mockResolvedValue(mockClient);
+  });
+
+  const mockQueries = (customer: any, { sourceCounterId = 2, target = { is_active: true, current_customer_id: null, servable: true } }: any = {}) => {
+    mockClient.query.mockImplementation((query: string, params: any[]) => {
+      if (query.includes('WHERE current_customer_id = $1')) {
+        return { rows: sourceCounterId ? [{ id: sourceCounterId }] : [] };
+      }
+      if (query.includes('FROM counters WHERE id = $1 FOR UPDATE')) {
+        return { rows: [{ id: params[0] }] };
+      }
+      if (query.includes('FOR UPDATE OF c')) {
+        return { rows: customer ? [customer] : [] };
+      }
+      if (query.includes('AND current_customer_id = $2')) {
+        return { rows: [{ id: params[0] }] };
+      }
+      if (query.includes('SELECT is_active')) {
+        return { rows: [target] };
+      }
+      if (query.includes('UPDATE customers') && query.includes('service_type = $2')) {
+        const requeued = query.includes("queue_status = 'waiting'");
+        return {
+          rows: [{
+            ...customer,
+            queue_status: requeued ? 'waiting' : 'serving',
+            service_type: params[1],
+            manual_position: requeued ? params[2] : null
+          }]
+        };
+      }
+      return { rows: [] };
+    });
+  };
+
+  const callsMatching = (text: string) =>
+    mockClient.query.mock.calls.filter(([query]: [string]) => query.includes(text));
+
+  it('should move a serving customer to another free counter', async () => {
+    mockQueries(servingCustomer(), { sourceCounterId: 4 });
+
+    const result = await QueueService.transferCustomer(5, { toCounterId: 3, serviceType: ServiceType.FRAME_FITTING, reason: 'Exam done' }, 1);
+
+    expect(result).toEqual(expect.objectContaining({ action: 'moved', fromCounterId: 4, toCounterId: 3 }));
+    expect(result.customer.queue_status).toBe('serving');
+    expect(result.customer.service_type).toBe('frame_fitting');
+
+    // Both counters locked, lowest id first
+    expect(callsMatching('FOR UPDATE').slice(0, 2).map(([, params]: [string, any[]]) => params[0])).toEqual([3, 4]);
+    expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('SET current_customer_id = NULL'), [4]);
+    expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('SET current_customer_id = $1'), [5, 3]);
+    expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+
+    // The exam stage is closed at counter 4 and a new stage opens at counter 3
+    expect(QueueAnalyticsService.recordQueueEvent).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      eventType: 'transferred',
+      counterId: 4,
+      serviceTimeMinutes: 12,
+      stage: 'eye_exam',
+      reason: 'Exam done'
+    }));
+    expect(QueueAnalyticsService.recordQueueEvent).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      eventType: 'called',
+      counterId: 3,
+      stage: 'frame_fitting'
+    }));
+    expect(WebSocketService.emitQueueUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'customer_transferred',
+      fromCounterId: 4,
+      toCounterId: 3
+    }));
+  });
+
+  it('should send the customer back to the line for another stage at the front', async () => {
+    mockQueries(servingCustomer());
+
+    const result = await QueueService.transferCustomer(5, { serviceType: ServiceType.CASHIER, frontOfLine: true });
+
+    expect(result.action).toBe('requeued');
+    expect(result.toCounterId).toBeNull();
+    expect(result.customer.queue_status).toBe('waiting');
+
+    expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('manual_position = manual_position + 1'));
+    const update = callsMatching("SET queue_status = 'waiting'")[0];
+    expect(update[0]).toContain('stage_entered_at = CURRENT_TIMESTAMP');
+    expect(update[1]).toEqual([5, 'cashier', 1]);
+    expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('SET current_customer_id = NULL'), [2]);
+
+    expect(QueueAnalyticsService.recordQueueEvent).toHaveBeenCalledTimes(1);
+    expect(QueueAnalyticsService.recordQueueEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'transferred', stage: 'eye_exam' }));
+  });
+
+  it('should keep the normal queue order when not sent to the front', async () => {
+    mockQueries(servingCustomer());
+
+    await QueueService.transferCustomer(5, { serviceType: ServiceType.CASHIER });
+
+    expect(callsMatching('manual_position = manual_position + 1')).toHaveLength(0);
+    expect(callsMatching("SET queue_status = 'waiting'")[0][1]).toEqual([5, 'cashier', null]);
+  });
+
+  it('should refuse a counter that is already serving someone', async () => {
+    mockQueries(servingCustomer(), { target: { is_active: true, current_customer_id: 9, servable: true } });
+
+    await expect(QueueService.transferCustomer(5, { toCounterId: 3 })).rejects.toThrow('Target counter is busy');
+    expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(WebSocketService.emitQueueUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a counter that does not handle the stage', async () => {
+    mockQueries(servingCustomer(), { target: { is_active: true, current_customer_id: null, servable: false } });
+
+    await expect(QueueService.transferCustomer(5, { toCounterId: 3 })).rejects.toThrow('Counter does not handle service type: eye_exam');
+  });
+
+  it('should only transfer customers who are being served at a counter', async () => {
+    mockQueries(servingCustomer({ queue_status: 'waiting' }), { sourceCounterId: null });
+
+    await expect(QueueService.transferCustomer(5, { serviceType: ServiceType.CASHIER })).rejects.toThrow('Customer is not being served');
+    expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+  });
+
+  it('should require a destination', async () => {
+    await expect(QueueService.transferCustomer(5, {})).rejects.toThrow('A target counter or service type is required');
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+});
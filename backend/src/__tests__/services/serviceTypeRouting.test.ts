@@ -0,0 +1,167 @@
+import { QueueService, CounterService } from '../../services/queue';
+import { WebSocketService } from '../../services/websocket';
+import { ServiceType } from '../../types';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(() => ({
+      query: jest.fn(),
+      release: jest.fn()
+    })),
+    query: jest.fn()
+  }
+}));
+
+// Mock WebSocketService
+jest.mock('../../services/websocket', () => ({
+  WebSocketService: {
+    emitQueueUpdate: jest.fn(),
+    emitQueueStatusChanged: jest.fn()
+  }
+}));
+
+// Mock QueueAnalyticsService
+jest.mock('../../services/QueueAnalyticsService', () => ({
+  QueueAnalyticsService: {
+    recordQueueEvent: jest.fn()
+  }
+}));
+
+describe('Service type routing', () => {
+  let mockClient: any;
+  let pool: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn()
+    };
+
+    pool = require('../../config/database').pool;
+    pool.connect.mockResolvedValue(mockClient);
+  });
+
+  describe('callNext', () => {
+    it('should only consider customers whose service type the counter handles', async () => {
+      mockClient.query.mockImplementation((query: string) => {
+        if (query.includes('wait_time_minutes')) {
+          return {
+            rows: [{
+              id: 7,
+              priority_flags: '{"senior_citizen":false,"pregnant":false,"pwd":false}',
+              created_at: new Date(),
+              manual_position: null,
+              wait_time_minutes: 4
+            }]
+          };
+        }
+        if (query.includes('FOR UPDATE')) {
+          return { rows: [{ id: 7 }] };
+        }
+        if (query.includes('UPDATE customers')) {
+          return {
+            rows: [{
+              id: 7,
+              name: 'Frame Fitting Customer',
+              service_type: ServiceType.FRAME_FITTING,
+              prescription: '{}',
+              payment_info: '{}',
+              priority_flags: '{"senior_citizen":false,"pregnant":false,"pwd":false}'
+            }]
+          };
+        }
+        return { rows: [] };
+      });
+
+      const customer = await QueueService.callNext(3);
+
+      expect(customer?.id).toBe(7);
+      const queueCall = mockClient.query.mock.calls.find(([query]: [string]) => query.includes('wait_time_minutes'));
+      expect(queueCall[0]).toContain('ct.service_types ? c.service_type');
+      expect(queueCall[1]).toEqual([3]);
+    });
+
+    it('should return null when no customer matches the counter service types', async () => {
+      mockClient.query.mockImplementation((query: string) => {
+        if (query.includes('FROM counters WHERE id = $1 FOR UPDATE')) {
+          return { rows: [{ id: 3 }] };
+        }
+        return { rows: [] };
+      });
+
+      const customer = await QueueService.callNext(3);
+
+      expect(customer).toBeNull();
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.query).not.toHaveBeenCalledWith(expect.stringContaining('UPDATE counters'), expect.anything());
+    });
+  });
+
+  describe('callSpecificCustomer', () => {
+    it('should reject a customer the counter cannot serve', async () => {
+      mockClient.query.mockImplementation((query: string) => {
+        if (query.includes('servable')) {
+          return { rows: [{ id: 9, service_type: ServiceType.EYE_EXAM, servable: false }] };
+        }
+        if (query.includes('FROM counters WHERE id = $1 FOR UPDATE')) {
+          return { rows: [{ id: 2 }] };
+        }
+        return { rows: [] };
+      });
+
+      await expect(QueueService.callSpecificCustomer(9, 2))
+        .rejects.toThrow('Counter does not handle service type: eye_exam');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.query).not.toHaveBeenCalledWith(expect.stringContaining('UPDATE customers'), expect.anything());
+    });
+  });
+
+  describe('getServiceTypeBreakdown', () => {
+    it('should report every service type, filling gaps with zeros', async () => {
+      pool.query.mockResolvedValue({
+        rows: [
+          { service_type: 'cashier', waiting: '3', serving: '1', average_wait_minutes: '12.5' },
+          { service_type: 'releasing', waiting: '0', serving: '2', average_wait_minutes: null }
+        ]
+      });
+
+      const breakdown = await QueueService.getServiceTypeBreakdown();
+
+      expect(breakdown).toEqual({
+        eye_exam: { waiting: 0, serving: 0, averageWaitTime: 0 },
+        frame_fitting: { waiting: 0, serving: 0, averageWaitTime: 0 },
+        cashier: { waiting: 3, serving: 1, averageWaitTime: 12.5 },
+        releasing: { waiting: 0, serving: 2, averageWaitTime: 0 }
+      });
+    });
+  });
+
+  describe('CounterService service types', () => {
+    it('should reject unknown or empty service type lists', async () => {
+      await expect(CounterService.create('Counter X', [] as ServiceType[])).rejects.toThrow('Invalid service types');
+      await expect(CounterService.update(1, { service_types: ['massage' as ServiceType] })).rejects.toThrow('Invalid service types');
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should store service types as JSON', async () => {
+      pool.query.mockResolvedValue({ rows: [{ id: 1, name: 'Releasing', service_types: ['releasing'] }] });
+
+      await CounterService.create('Releasing', [ServiceType.RELEASING]);
+
+      expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('service_types'), ['Releasing', '["releasing"]']);
+    });
+
+    it('should tell the displays about counter changes', async () => {
+      const counter = { id: 1, name: 'Releasing', service_types: ['releasing'] };
+      pool.query.mockResolvedValue({ rows: [counter], rowCount: 1 });
+
+      await CounterService.update(1, { name: 'Releasing' });
+      await CounterService.delete(1);
+
+      expect(WebSocketService.emitQueueUpdate).toHaveBeenCalledWith(expect.objectContaining({ type: 'counter_updated', counter }));
+      expect(WebSocketService.emitQueueUpdate).toHaveBeenCalledWith(expect.objectContaining({ type: 'counter_deleted', counter }));
+    });
+  });
+});
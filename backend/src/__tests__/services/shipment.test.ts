@@ -0,0 +1,211 @@
+import { ShipmentService } from '../../services/shipment';
+import { MockCourierAdapter, registerCourierAdapter, clearCourierAdapters, validateStatusDetails } from '../../services/courierAdapters';
+import { EnhancedSMSService } from '../../services/EnhancedSMSService';
+import { DistributionType, ShipmentStatus } from '../../types';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock EnhancedSMSService
+jest.mock('../../services/EnhancedSMSService', () => ({
+  EnhancedSMSService: {
+    sendDeliveryReadyNotification: jest.fn()
+  }
+}));
+
+describe('ShipmentService', () => {
+  let pool: any;
+  let mockClient: any;
+
+  const booked = new Date('2025-01-15T09:00:00+08:00');
+  const at = (minutes: number) => new Date(booked.getTime() + minutes * 60000);
+
+  const shipmentRow = (overrides: any = {}) => ({
+    id: 5,
+    customer_id: 3,
+    customer_name: 'Juan Dela Cruz',
+    contact_number: '09171234567',
+    or_number: 'OR-0003',
+    courier: 'lbc',
+    reference: 'LBC123',
+    fee: '150.00',
+    status: 'pending',
+    status_updated_at: booked,
+    estimated_delivery_at: null,
+    ...overrides
+  });
+
+  // The locked shipment inside the transaction, then the re-read one
+  const givenShipment = (locked: any, after: any = locked) => {
+    mockClient.query.mockImplementation((query: string) => (
+      query.includes('FOR UPDATE') ? { rows: locked ? [locked] : [] } : { rows: [] }
+    ));
+    pool.query.mockImplementation((query: string) => (
+      query.includes('FROM shipments s') ? { rows: [after] } : { rows: [] }
+    ));
+  };
+
+  const recordedStatuses = () => mockClient.query.mock.calls
+    .filter(([query]: [string]) => query.includes('INSERT INTO shipment_events'))
+    .map(([, params]: [string, any[]]) => params[1]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    clearCourierAdapters();
+
+    mockClient = {
+      query: jest.fn().mockResolvedValue({ rows: [] }),
+      release: jest.fn()
+    };
+    pool = require('../../config/database').pool;
+    pool.connect.mockResolvedValue(mockClient);
+    pool.query.mockResolvedValue({ rows: [] });
+  });
+
+  describe('MockCourierAdapter', () => {
+    it('should move a polled shipment one status every step', async () => {
+      let now = booked;
+      const adapter = new MockCourierAdapter(10, () => now);
+
+      expect(await adapter.trackShipment('LBC123')).toEqual([]);
+
+      now = at(25);
+      const updates = await adapter.trackShipment('LBC123');
+      expect(updates.map((update) => update.status)).toEqual([ShipmentStatus.PICKED_UP, ShipmentStatus.IN_TRANSIT]);
+      expect(updates[1].occurred_at).toEqual(at(20));
+
+      now = at(60);
+      const delivered = await adapter.trackShipment('LBC123');
+      expect(delivered).toHaveLength(4);
+      expect(delivered[3].proof).toEqual({ received_by: 'Mock Recipient' });
+    });
+
+    it('should refuse webhooks unless a secret is set and sent', () => {
+      const adapter = new MockCourierAdapter();
+      expect(() => adapter.parseWebhook({ reference: 'LBC123', status: 'in_transit' }, {})).toThrow('Invalid webhook signature');
+
+      process.env.MOCK_COURIER_SECRET = 'letmein';
+      try {
+        expect(() => adapter.parseWebhook({ reference: 'LBC123', status: 'in_transit' }, {})).toThrow('Invalid webhook signature');
+        expect(adapter.parseWebhook(
+          [{ reference: 'LBC123', status: 'in_transit', location: 'Pasig Hub' }, { reference: 'LBC123', status: 'lost' }],
+          { 'x-mock-courier-secret': 'letmein' }
+        )).toEqual([expect.objectContaining({ reference: 'LBC123', status: 'in_transit', location: 'Pasig Hub' })]);
+      } finally {
+        delete process.env.MOCK_COURIER_SECRET;
+      }
+    });
+
+    it('should skip webhook updates with malformed details or a non-web photo link', () => {
+      const adapter = new MockCourierAdapter();
+      process.env.MOCK_COURIER_SECRET = 'letmein';
+      try {
+        const updates = adapter.parseWebhook([
+          { reference: 'LBC123', status: 'delivered', proof: { received_by: 'Ana', photo_url: 'javascript:alert(1)' } },
+          { reference: 'LBC123', status: 'in_transit', location: { city: 'Pasig' } },
+          { reference: 'LBC123', status: 'in_transit', description: 'x'.repeat(5000) },
+          { reference: 'LBC123', status: 'delivered', proof: { received_by: 'Ana', photo_url: 'https://pod.example.com/1.jpg', extra: 'dropped' } }
+        ], { 'x-mock-courier-secret': 'letmein' });
+
+        expect(updates).toHaveLength(1);
+        expect(updates[0].proof).toEqual({ received_by: 'Ana', photo_url: 'https://pod.example.com/1.jpg', notes: null });
+      } finally {
+        delete process.env.MOCK_COURIER_SECRET;
+      }
+    });
+  });
+
+  describe('validateStatusDetails', () => {
+    it('should only accept http(s) photo links', () => {
+      expect(validateStatusDetails({ proof: { photo_url: 'https://pod.example.com/1.jpg' } })).toBeNull();
+      expect(validateStatusDetails({ proof: { photo_url: 'data:text/html,<script>' } })).toBe('proof.photo_url must be an http(s) link');
+      expect(validateStatusDetails({ proof: 'delivered' })).toBe('proof must be an object');
+      expect(validateStatusDetails({ location: 42 })).toMatch(/^location must be text/);
+    });
+  });
+
+  describe('applyCourierUpdates', () => {
+    it('should record newer updates in order and text the customer once picked up', async () => {
+      givenShipment(shipmentRow(), shipmentRow({ status: 'picked_up' }));
+
+      const changed = await ShipmentService.applyCourierUpdates(DistributionType.LBC, [
+        { reference: 'LBC123', status: ShipmentStatus.IN_TRANSIT, occurred_at: at(20) },
+        { reference: 'LBC123', status: ShipmentStatus.PICKED_UP, occurred_at: at(10) },
+        { reference: 'LBC123', status: ShipmentStatus.PENDING, occurred_at: at(-5) }
+      ]);
+
+      expect(changed).toBe(1);
+      expect(recordedStatuses()).toEqual(['picked_up', 'in_transit']);
+      expect(EnhancedSMSService.sendDeliveryReadyNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('should text when the order goes out for delivery', async () => {
+      givenShipment(shipmentRow({ status: 'in_transit' }), shipmentRow({ status: 'out_for_delivery' }));
+
+      await ShipmentService.applyCourierUpdates(DistributionType.LBC, [
+        { reference: 'LBC123', status: ShipmentStatus.OUT_FOR_DELIVERY, occurred_at: at(30) }
+      ]);
+
+      expect(EnhancedSMSService.sendDeliveryReadyNotification).toHaveBeenCalledWith(3, '09171234567', 'Juan Dela Cruz', 'OR-0003', 'Today');
+    });
+
+    it('should ignore updates for delivered shipments and unknown references', async () => {
+      givenShipment(shipmentRow({ status: 'delivered' }));
+      expect(await ShipmentService.applyCourierUpdates(DistributionType.LBC, [
+        { reference: 'LBC123', status: ShipmentStatus.RETURNED, occurred_at: at(90) }
+      ])).toBe(0);
+
+      givenShipment(null);
+      expect(await ShipmentService.applyCourierUpdates(DistributionType.LBC, [
+        { reference: 'NOPE', status: ShipmentStatus.IN_TRANSIT, occurred_at: at(90) }
+      ])).toBe(0);
+
+      expect(recordedStatuses()).toEqual([]);
+      expect(EnhancedSMSService.sendDeliveryReadyNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeStatus', () => {
+    it('should keep proof of delivery', async () => {
+      givenShipment(shipmentRow({ status: 'out_for_delivery' }), shipmentRow({ status: 'delivered' }));
+
+      await ShipmentService.changeStatus(5, { status: ShipmentStatus.DELIVERED, proof: { received_by: ' Maria ' } }, 1);
+
+      const update = mockClient.query.mock.calls.find(([query]: [string]) => query.includes('UPDATE shipments'));
+      expect(update[1]).toEqual([5, 'delivered', expect.any(Date), true, 'Maria', null, null]);
+      expect(EnhancedSMSService.sendDeliveryReadyNotification).not.toHaveBeenCalled();
+    });
+
+    it('should reject changes to closed shipments and repeats', async () => {
+      givenShipment(shipmentRow({ status: 'delivered' }));
+      await expect(ShipmentService.changeStatus(5, { status: ShipmentStatus.RETURNED })).rejects.toThrow('Shipment is already delivered');
+
+      givenShipment(shipmentRow({ status: 'in_transit' }));
+      await expect(ShipmentService.changeStatus(5, { status: ShipmentStatus.IN_TRANSIT })).rejects.toThrow('Shipment is already in transit');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('polling and webhooks', () => {
+    it('should poll open shipments of couriers with an adapter', async () => {
+      const trackShipment = jest.fn().mockResolvedValue([]);
+      registerCourierAdapter(DistributionType.LALAMOVE, { name: 'test', trackShipment });
+      pool.query.mockResolvedValue({ rows: [shipmentRow({ courier: 'lalamove', reference: 'LLM-1' }), shipmentRow({ id: 6, courier: 'lalamove', reference: null })] });
+
+      await ShipmentService.pollOpenShipments();
+
+      expect(trackShipment).toHaveBeenCalledTimes(1);
+      expect(trackShipment).toHaveBeenCalledWith('LLM-1');
+    });
+
+    it('should refuse webhooks for couriers without an adapter', async () => {
+      await expect(ShipmentService.handleWebhook(DistributionType.LBC, {}, {})).rejects.toThrow('Courier updates are not available for lbc');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { TrackingService } from '../../services/tracking';
+import { QueueService } from '../../services/queue';
+import { QueuePauseService } from '../../services/queuePause';
+import { QueueStatus, ServiceType } from '../../types';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock QueueService
+jest.mock('../../services/queue', () => ({
+  QueueService: {
+    getPosition: jest.fn(),
+    getEstimatedWaitTime: jest.fn(),
+    changeStatus: jest.fn()
+  }
+}));
+
+// Mock QueuePauseService
+jest.mock('../../services/queuePause', () => ({
+  QueuePauseService: {
+    getActivePause: jest.fn()
+  }
+}));
+
+describe('TrackingService', () => {
+  let pool: any;
+  const now = new Date('2025-01-15T09:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pool = require('../../config/database').pool;
+    (QueueService.getPosition as jest.Mock).mockResolvedValue(3);
+    (QueueService.getEstimatedWaitTime as jest.Mock).mockResolvedValue({ minutes: 20, low: 12, high: 28 });
+    (QueuePauseService.getActivePause as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('tracking links', () => {
+    it('should verify its own token until the link expires', () => {
+      const token = TrackingService.createToken(52, now);
+
+      const link = TrackingService.verifyToken(token, now);
+      expect(link).toEqual({ customerId: 52, expiresAt: new Date(now.getTime() + 72 * 3600 * 1000) });
+      expect(TrackingService.verifyToken(token, link!.expiresAt)).toBeNull();
+    });
+
+    it('should reject a token pointed at another customer or with a changed expiry', () => {
+      const [, expiry, signature] = TrackingService.createToken(52, now).split('.');
+      const [id] = TrackingService.createToken(53, now).split('.');
+      const later = (parseInt(expiry, 36) + 3600).toString(36);
+
+      expect(TrackingService.verifyToken(`${id}.${expiry}.${signature}`, now)).toBeNull();
+      expect(TrackingService.verifyToken(`${(52).toString(36)}.${later}.${signature}`, now)).toBeNull();
+      expect(TrackingService.verifyToken('not-a-token', now)).toBeNull();
+    });
+
+    it('should build a short link for SMS', () => {
+      const url = TrackingService.getTrackingUrl(52);
+
+      expect(url).toMatch(/\/track\/[0-9a-z]+\.[0-9a-z]+\.[\w-]{22}$/);
+      expect(url.length).toBeLessThan(80);
+    });
+
+    it('should refuse to sign a customer id that is not a positive integer', () => {
+      // A string id would be read as base36 on the way in and point at another customer
+      expect(() => TrackingService.createToken('12' as unknown as number, now)).toThrow('Invalid customer ID');
+      expect(() => TrackingService.createToken(1.5, now)).toThrow('Invalid customer ID');
+      expect(() => TrackingService.createToken(0, now)).toThrow('Invalid customer ID');
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should return position and wait for a waiting customer', async () => {
+      pool.query.mockResolvedValueOnce({ rows: [{
+        token_number: 12,
+        token_code: 'C012',
+        service_type: ServiceType.CASHIER,
+        queue_status: QueueStatus.WAITING,
+        hold_expires_at: null,
+        counter_name: null
+      }] });
+
+      const status = await TrackingService.getStatus({ customerId: 52, expiresAt: now });
+
+      expect(pool.query.mock.calls[0][1]).toEqual([52]);
+      expect(status).toEqual(expect.objectContaining({
+        token_code: 'C012',
+        queue_status: QueueStatus.WAITING,
+        position: 3,
+        estimated_wait: { minutes: 20, low: 12, high: 28 },
+        counter_name: null,
+        queue_paused: null,
+        link_expires_at: now
+      }));
+      expect(status).not.toHaveProperty('name');
+    });
+
+    it('should say where to go once the customer is called', async () => {
+      pool.query.mockResolvedValueOnce({ rows: [{
+        token_number: 12,
+        token_code: 'C012',
+        service_type: ServiceType.CASHIER,
+        queue_status: QueueStatus.SERVING,
+        hold_expires_at: null,
+        counter_name: 'Counter 2'
+      }] });
+
+      const status = await TrackingService.getStatus({ customerId: 52, expiresAt: now });
+
+      expect(QueueService.getPosition).not.toHaveBeenCalled();
+      expect(status.position).toBeNull();
+      expect(status.counter_name).toBe('Counter 2');
+    });
+  });
+
+  describe('reactivate', () => {
+    it('should return an on-hold customer to the line', async () => {
+      pool.query
+        .mockResolvedValueOnce({ rows: [{ queue_status: QueueStatus.ON_HOLD }] })
+        .mockResolvedValueOnce({ rows: [{ token_number: 12, queue_status: QueueStatus.WAITING }] });
+
+      const status = await TrackingService.reactivate({ customerId: 52, expiresAt: now });
+
+      expect(QueueService.changeStatus).toHaveBeenCalledWith(52, QueueStatus.WAITING, undefined, undefined, 'tracking_link');
+      expect(status.queue_status).toBe(QueueStatus.WAITING);
+    });
+
+    it('should refuse a customer who is not on hold', async () => {
+      pool.query.mockResolvedValueOnce({ rows: [{ queue_status: QueueStatus.SERVING }] });
+
+      await expect(TrackingService.reactivate({ customerId: 52, expiresAt: now })).rejects.toThrow('Customer is not on hold');
+      expect(QueueService.changeStatus).not.toHaveBeenCalled();
+    });
+  });
+});
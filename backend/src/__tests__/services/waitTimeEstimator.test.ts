@@ -0,0 +1,175 @@
+import { WaitTimeEstimator, ActiveCounter, ServiceTimeProfile } from '../../services/waitTimeEstimator';
+import { QueueAnalyticsService } from '../../services/QueueAnalyticsService';
+
+// Mock database pool
+jest.mock('../../config/database', () => ({
+  pool: {
+    connect: jest.fn(),
+    query: jest.fn()
+  }
+}));
+
+// Mock QueueAnalyticsService
+jest.mock('../../services/QueueAnalyticsService', () => ({
+  QueueAnalyticsService: {
+    getServiceTimeSamples: jest.fn(),
+    getSummaryServiceTime: jest.fn()
+  }
+}));
+
+describe('WaitTimeEstimator', () => {
+  let pool: any;
+
+  // 10:00 local time, so hour buckets are predictable
+  const now = new Date(2025, 0, 15, 10, 0, 0);
+
+  const counter = (id: number, serviceTypes: string[], currentServiceType: string | null = null): ActiveCounter => ({
+    id,
+    serviceTypes,
+    currentServiceType
+  });
+
+  const profile = (samples: ServiceTimeProfile['samples'] = [], summaryMinutes: number | null = null): ServiceTimeProfile => ({
+    samples,
+    summaryMinutes
+  });
+
+  const overall = (avgMinutes: number, p25Minutes = avgMinutes, p75Minutes = avgMinutes, samples = 50) => ({
+    stage: null,
+    hour: null,
+    samples,
+    avgMinutes,
+    p25Minutes,
+    p75Minutes
+  });
+
+  const minutesFor = (estimates: Map<number, any>) =>
+    Array.from(estimates.entries()).map(([id, estimate]) => [id, estimate.minutes]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    WaitTimeEstimator.clearCache();
+    pool = require('../../config/database').pool;
+  });
+
+  describe('estimate', () => {
+    it('should spread the line over every counter that can serve it', () => {
+      const waiting = [1, 2, 3, 4, 5].map((id) => ({ id, service_type: 'cashier' }));
+      const counters = [counter(1, ['cashier']), counter(2, ['cashier'])];
+
+      const estimates = WaitTimeEstimator.estimate(waiting, counters, profile([overall(10)]), now);
+
+      expect(minutesFor(estimates)).toEqual([[1, 0], [2, 0], [3, 10], [4, 10], [5, 20]]);
+    });
+
+    it('should assume busy counters are halfway through their current customer', () => {
+      const waiting = [{ id: 1, service_type: 'cashier' }, { id: 2, service_type: 'cashier' }];
+      const counters = [counter(1, ['cashier'], 'cashier')];
+
+      const estimates = WaitTimeEstimator.estimate(waiting, counters, profile([overall(12)]), now);
+
+      expect(minutesFor(estimates)).toEqual([[1, 6], [2, 18]]);
+    });
+
+    it('should only count counters that handle the customer\'s service type', () => {
+      const waiting = [
+        { id: 1, service_type: 'eye_exam' },
+        { id: 2, service_type: 'cashier' },
+        { id: 3, service_type: 'eye_exam' }
+      ];
+      const counters = [counter(1, ['eye_exam']), counter(2, ['cashier'])];
+
+      const estimates = WaitTimeEstimator.estimate(waiting, counters, profile([overall(10)]), now);
+
+      expect(minutesFor(estimates)).toEqual([[1, 0], [2, 0], [3, 10]]);
+    });
+
+    it('should still give a sequential estimate when no counter is open for a service', () => {
+      const waiting = [1, 2, 3].map((id) => ({ id, service_type: 'releasing' }));
+
+      const estimates = WaitTimeEstimator.estimate(waiting, [], profile([overall(5)]), now);
+
+      expect(minutesFor(estimates)).toEqual([[1, 0], [2, 5], [3, 10]]);
+    });
+
+    it('should use the interquartile service times as the confidence range', () => {
+      const waiting = [1, 2, 3].map((id) => ({ id, service_type: 'cashier' }));
+      const counters = [counter(1, ['cashier'])];
+
+      const estimates = WaitTimeEstimator.estimate(waiting, counters, profile([overall(10, 6, 15)]), now);
+
+      expect(estimates.get(3)).toEqual({ minutes: 20, low: 12, high: 30 });
+    });
+  });
+
+  describe('getServiceDuration', () => {
+    const samples = [
+      { stage: 'eye_exam', hour: 10, samples: 8, avgMinutes: 25, p25Minutes: 20, p75Minutes: 30 },
+      { stage: 'eye_exam', hour: 15, samples: 2, avgMinutes: 40, p25Minutes: 35, p75Minutes: 45 },
+      { stage: 'eye_exam', hour: null, samples: 30, avgMinutes: 18, p25Minutes: 12, p75Minutes: 22 },
+      overall(9, 7, 11)
+    ];
+
+    it('should prefer the stage and hour of day bucket', () => {
+      expect(WaitTimeEstimator.getServiceDuration(profile(samples), 'eye_exam', 10)).toEqual({ avg: 25, low: 20, high: 30 });
+    });
+
+    it('should fall back to the whole stage when the hour has too few samples', () => {
+      expect(WaitTimeEstimator.getServiceDuration(profile(samples), 'eye_exam', 15)).toEqual({ avg: 18, low: 12, high: 22 });
+    });
+
+    it('should fall back to all stages for a stage without history', () => {
+      expect(WaitTimeEstimator.getServiceDuration(profile(samples), 'frame_fitting', 10)).toEqual({ avg: 9, low: 7, high: 11 });
+    });
+
+    it('should fall back to daily summaries and then the configured average', () => {
+      expect(WaitTimeEstimator.getServiceDuration(profile([], 8), 'cashier', 10)).toEqual({ avg: 8, low: 6, high: 12 });
+      expect(WaitTimeEstimator.getServiceDuration(profile(), 'cashier', 10)).toEqual({ avg: 15, low: 11.25, high: 22.5 });
+    });
+  });
+
+  describe('estimateWaits', () => {
+    it('should load history once and reuse it for later estimates', async () => {
+      (QueueAnalyticsService.getServiceTimeSamples as jest.Mock).mockResolvedValue([overall(10)]);
+      (QueueAnalyticsService.getSummaryServiceTime as jest.Mock).mockResolvedValue(null);
+      pool.query.mockResolvedValue({ rows: [{ id: 1, service_types: ['cashier'], current_service_type: null }] });
+
+      const first = await WaitTimeEstimator.estimateWaits([{ id: 7, service_type: 'cashier' }, { id: 8, service_type: 'cashier' }]);
+      await WaitTimeEstimator.estimateWaits([{ id: 8, service_type: 'cashier' }]);
+
+      expect(first.get(8)).toEqual({ minutes: 10, low: 10, high: 10 });
+      expect(QueueAnalyticsService.getServiceTimeSamples).toHaveBeenCalledTimes(1);
+      expect(QueueAnalyticsService.getServiceTimeSamples).toHaveBeenCalledWith(28);
+      expect(pool.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to defaults when history cannot be loaded', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (QueueAnalyticsService.getServiceTimeSamples as jest.Mock).mockRejectedValue(new Error('connection lost'));
+      (QueueAnalyticsService.getSummaryServiceTime as jest.Mock).mockResolvedValue(null);
+      pool.query.mockRejectedValue(new Error('connection lost'));
+
+      const estimates = await WaitTimeEstimator.estimateWaits([{ id: 1, service_type: 'cashier' }, { id: 2, service_type: 'cashier' }]);
+
+      expect(estimates.get(2)!.minutes).toBe(15);
+      (console.error as jest.Mock).mockRestore();
+    });
+
+    it('should not query anything for an empty line', async () => {
+      const estimates = await WaitTimeEstimator.estimateWaits([]);
+
+      expect(estimates.size).toBe(0);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toQueueItemFields', () => {
+    it('should expose the estimate and range on queue items', () => {
+      expect(WaitTimeEstimator.toQueueItemFields({ minutes: 12, low: 8, high: 18 })).toEqual({
+        estimated_wait_time: 12,
+        estimated_wait_range: { low: 8, high: 18 }
+      });
+      expect(WaitTimeEstimator.toQueueItemFields(undefined)).toEqual({ estimated_wait_time: 0 });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  parseEyePrescription,
+  normalizePrescription,
+  formatEyePrescription,
+  prescriptionTableRows
+} from '../../utils/prescription';
+
+describe('Prescription helpers', () => {
+
+  describe('parseEyePrescription', () => {
+    it('should parse sphere, cylinder, axis and add in the usual notations', () => {
+      expect(parseEyePrescription('-1.25 -0.50 x 180')).toEqual({ sphere: -1.25, cylinder: -0.5, axis: 180 });
+      expect(parseEyePrescription('+2.00/-1.00X90 ADD +1.50')).toEqual({ sphere: 2, cylinder: -1, axis: 90, add: 1.5 });
+      expect(parseEyePrescription('-3.00 DS')).toEqual({ sphere: -3 });
+      expect(parseEyePrescription('plano')).toEqual({ sphere: 0 });
+    });
+
+    it('should write axis 0 as 180', () => {
+      expect(parseEyePrescription('-1.00 -0.25 x 0')).toEqual({ sphere: -1, cylinder: -0.25, axis: 180 });
+    });
+
+    it('should reject text that does not parse or is out of range', () => {
+      expect(parseEyePrescription('see old glasses')).toBeNull();
+      expect(parseEyePrescription('-1.00 -0.50 x 200')).toBeNull();
+      expect(parseEyePrescription('-1.00 ADD +6.00')).toBeNull();
+    });
+  });
+
+  describe('normalizePrescription', () => {
+    it('should convert legacy strings', () => {
+      expect(normalizePrescription({ od: '-1.25 -0.50 x 180', os: '-1.00', pd: '62', add: '+2.00' })).toEqual({
+        od: { sphere: -1.25, cylinder: -0.5, axis: 180, add: 2 },
+        os: { sphere: -1, add: 2 },
+        pd: 62
+      });
+    });
+
+    it('should use OU for both eyes and split a monocular PD', () => {
+      expect(normalizePrescription('{"ou":"-0.75","pd":"31/32"}')).toEqual({
+        od: { sphere: -0.75, pd: 31 },
+        os: { sphere: -0.75, pd: 32 }
+      });
+    });
+
+    it('should keep what does not parse in notes', () => {
+      expect(normalizePrescription({ od: 'same as before', os: '-1.00', pd: 'n/a' })).toEqual({
+        os: { sphere: -1 },
+        notes: 'OD: same as before; PD: n/a'
+      });
+      expect(normalizePrescription('not json')).toEqual({ notes: 'not json' });
+    });
+
+    it('should coerce structured values and drop empty eyes', () => {
+      expect(normalizePrescription({ od: { sphere: '-1.25', axis: '', base: 'XX' }, os: {}, pd: 63 })).toEqual({
+        od: { sphere: -1.25, cylinder: null, axis: null, add: null, prism: null, base: null, pd: null },
+        pd: 63
+      });
+    });
+  });
+
+  describe('formatting', () => {
+    const prescription = {
+      od: { sphere: -1.25, cylinder: -0.5, axis: 180, add: 2, pd: 31 },
+      os: { sphere: 0, prism: 1, base: 'BI' as const },
+      pd: null
+    };
+
+    it('should format an eye in the usual notation', () => {
+      expect(formatEyePrescription(prescription.od)).toBe('-1.25 / -0.50 x 180, ADD +2.00, PD 31');
+      expect(formatEyePrescription(prescription.os)).toBe('Plano, 1.00 BI');
+    });
+
+    it('should lay the prescription out as one row per eye', () => {
+      expect(prescriptionTableRows(prescription)).toEqual([
+        ['OD (Right)', '-1.25', '-0.50', '180', '+2.00', '', '', '31'],
+        ['OS (Left)', 'Plano', '', '', '', '1.00', 'BI', '']
+      ]);
+      expect(prescriptionTableRows({ pd: 62 })).toHaveLength(3);
+    });
+  });
+});
@@ -6,7 +6,9 @@ import {
   updateCustomerSchema,
   updateCustomerStatusSchema,
   listCustomersSchema,
-  notifyCustomerSchema
+  notifyCustomerSchema,
+  kioskRegistrationSchema,
+  kioskCheckInSchema
 } from '../../validation/schemas/customer';
 
 // Create test app
@@ -155,6 +157,64 @@ describe('Customer Validation', () => {
     });
   });
 
+  describe('Prescription Validation', () => {
+    const app = createTestApp(updateCustomerSchema);
+
+    it('should pass validation with a structured prescription', async () => {
+      const response = await request(app)
+        .post('/test/1')
+        .send({
+          prescription: {
+            od: { sphere: -1.25, cylinder: -0.5, axis: 180, add: 2, pd: 31 },
+            os: { sphere: 0, prism: 1, base: 'BI', pd: 31.5 },
+            notes: 'Computer glasses'
+          }
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+    });
+
+    it('should fail validation with out of range or off-step powers', async () => {
+      const response = await request(app)
+        .post('/test/1')
+        .send({
+          prescription: {
+            od: { sphere: -32 },
+            os: { sphere: -1.3, add: 5 }
+          }
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ field: 'prescription.od.sphere', message: 'Right eye (OD) sphere must be between -30 and 30' }),
+          expect.objectContaining({ field: 'prescription.os.sphere', message: 'Left eye (OS) sphere must be in 0.25 steps' }),
+          expect.objectContaining({ field: 'prescription.os.add', message: 'Left eye (OS) add must be between 0.25 and 4' })
+        ])
+      );
+    });
+
+    it('should require an axis with a cylinder and a base with a prism', async () => {
+      const response = await request(app)
+        .post('/test/1')
+        .send({
+          prescription: {
+            od: { sphere: -1, cylinder: -0.75 },
+            os: { sphere: -1, prism: 2 }
+          }
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ field: 'prescription.od.axis' }),
+          expect.objectContaining({ field: 'prescription.os.base' })
+        ])
+      );
+    });
+  });
+
   describe('Update Customer Status Validation', () => {
     const app = createTestApp(updateCustomerStatusSchema);
 
@@ -266,5 +326,68 @@ describe('Customer Validation', () => {
       );
     });
   });
+
+  describe('Kiosk Registration Validation', () => {
+    const app = createTestApp(kioskRegistrationSchema);
+
+    it('should pass validation with the short form only', async () => {
+      const response = await request(app)
+        .post('/test')
+        .send({
+          name: 'Paolo Cruz',
+          contact_number: '09181112222',
+          age: 29,
+          'priority_flags.pwd': true
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+    });
+
+    it('should apply the staff registration rules to the short form', async () => {
+      const response = await request(app)
+        .post('/test')
+        .send({
+          name: 'P',
+          contact_number: '12345',
+          age: 0
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ field: 'name', message: 'Customer name must be between 2 and 100 characters' }),
+          expect.objectContaining({ field: 'contact_number', message: 'Invalid contact number format' }),
+          expect.objectContaining({ field: 'age', message: 'Age must be between 1 and 120' })
+        ])
+      );
+    });
+  });
+
+  describe('Kiosk Check-In Validation', () => {
+    const app = createTestApp(kioskCheckInSchema);
+
+    it('should pass validation with an OR number, or a contact number and last name', async () => {
+      const byOrNumber = await request(app).post('/test').send({ or_number: 'OR2501100007' });
+      const byContact = await request(app).post('/test').send({ contact_number: '09171234567', last_name: 'Reyes' });
+
+      expect(byOrNumber.status).toBe(200);
+      expect(byContact.status).toBe(200);
+    });
+
+    it('should fail validation without either', async () => {
+      const missing = await request(app).post('/test').send({ service_type: 'cashier' });
+      const contactOnly = await request(app).post('/test').send({ contact_number: '09171234567' });
+
+      for (const response of [missing, contactOnly]) {
+        expect(response.status).toBe(400);
+        expect(response.body.details).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ field: 'or_number', message: 'OR number, or contact number and last name, is required' })
+          ])
+        );
+      }
+    });
+  });
 });
 
@@ -202,7 +202,7 @@ describe('WebSocket Standardized Events', () => {
 
       // transactionUpdated should be sent to specific room
       expect(mockToFunction).toHaveBeenCalledWith('transactions:updates');
-      expect(mockIO.emit).toHaveBeenCalledWith('transactionUpdated', testData);
+      expect(mockIO.emit).toHaveBeenCalledWith('transactionUpdated', expect.objectContaining(testData));
     });
   });
 });
@@ -63,6 +63,10 @@ export const config = {
   JWT_SECRET: process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production',
   JWT_REFRESH_SECRET: process.env.JWT_REFRESH_SECRET || 'your-super-secret-refresh-key-change-in-production',
   
+  // Customer queue tracking links (sent by SMS)
+  TRACKING_LINK_SECRET: process.env.TRACKING_LINK_SECRET || process.env.JWT_SECRET || 'your-super-secret-tracking-key-change-in-production',
+  TRACKING_LINK_TTL_HOURS: parseInt(process.env.TRACKING_LINK_TTL_HOURS || '72'),
+  
   // Backup
   BACKUP_RETENTION_DAYS: parseInt(process.env.BACKUP_RETENTION_DAYS || '30'),
   
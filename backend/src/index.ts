@@ -5,12 +5,22 @@ import cookieParser from 'cookie-parser';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import { config } from './config/config';
-import { generalLimiter, sensitiveLimiter, burstLimiter } from './middleware/rateLimiter';
+import { generalLimiter, sensitiveLimiter, burstLimiter, trackingLimiter } from './middleware/rateLimiter';
 import { connectDatabase, initializeDatabase } from './config/database';
 import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
 import customerRoutes from './routes/customers';
 import queueRoutes from './routes/queue';
+import appointmentRoutes from './routes/appointments';
+import patientRoutes from './routes/patients';
+import jobOrderRoutes from './routes/jobOrders';
+import shipmentRoutes from './routes/shipments';
+import releaseRoutes from './routes/releases';
+import courierWebhookRoutes from './routes/courierWebhooks';
+import kioskRoutes from './routes/kiosk';
+import trackingRoutes from './routes/tracking';
+import displayRoutes from './routes/displays';
+import displayContentRoutes from './routes/displayContent';
 import transactionRoutes from './routes/transactions';
 import adminRoutes from './routes/admin';
 import analyticsRoutes from './routes/analytics';
@@ -117,10 +127,14 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Kiosk-Key', 'X-Display-Token'],
   optionsSuccessStatus: 200
 }));
 app.use(cookieParser());
+// Slide uploads carry their image as a data URL
+app.use('/api/display-content', express.json({ limit: Math.ceil(config.MAX_FILE_SIZE * 4 / 3) + 65536 }));
+// Releases carry the signature drawn at the counter as a data URL
+app.use('/api/releases', express.json({ limit: '512kb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -140,12 +154,24 @@ app.use('/api/auth/password-reset', sensitiveLimiter);
 app.use('/api/auth/request-password-reset', sensitiveLimiter);
 app.use('/api/auth/reset-password', burstLimiter);
 app.use('/api/transactions/checkout', sensitiveLimiter);
+app.use('/api/track', trackingLimiter);
+app.use('/api/track/:token/reactivate', burstLimiter);
 
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/users', authenticateToken, userRoutes);
 app.use('/api/customers', authenticateToken, customerRoutes);
 app.use('/api/queue', queueRoutes);
+app.use('/api/appointments', authenticateToken, appointmentRoutes);
+app.use('/api/patients', authenticateToken, patientRoutes);
+app.use('/api/job-orders', authenticateToken, jobOrderRoutes);
+app.use('/api/shipments', authenticateToken, shipmentRoutes);
+app.use('/api/releases', authenticateToken, releaseRoutes);
+app.use('/api/kiosk', kioskRoutes); // kiosk devices authenticate with their own key
+app.use('/api/track', trackingRoutes); // public, signed customer tracking links
+app.use('/api/courier-webhooks', courierWebhookRoutes); // public, couriers' adapters check their signatures
+app.use('/api/displays', displayRoutes); // pairing is public, device management is admin only
+app.use('/api/display-content', displayContentRoutes); // display feeds are public, playlists are admin only
 app.use('/api/transactions', authenticateToken, transactionRoutes);
 app.use('/api/admin', authenticateToken, adminRoutes);
 app.use('/api/analytics', authenticateToken, analyticsRoutes);
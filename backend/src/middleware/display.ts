@@ -0,0 +1,34 @@
+import { Response, NextFunction } from 'express';
+import { DisplayRequest } from '../types';
+import { DisplayDeviceService } from '../services/displayDevice';
+import { AuthErrors, throwAuthError, asyncErrorHandler } from './errorHandler';
+
+/**
+ * Middleware for the read-only display feeds: a paired display sends its device token in the
+ * X-Display-Token header, or as ?display_token= for the event stream since EventSource can't
+ * send headers. Displays without one are let through only while unpaired access is allowed in
+ * the display access settings.
+ */
+export const authenticateDisplay = asyncErrorHandler(async (
+  req: DisplayRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const token = req.headers['x-display-token'] || req.query.display_token;
+
+  if (token && typeof token === 'string') {
+    const device = await DisplayDeviceService.authenticate(token);
+    if (!device) {
+      throwAuthError(AuthErrors.DISPLAY_TOKEN_INVALID);
+    }
+
+    req.display = device!;
+    return next();
+  }
+
+  if (!(await DisplayDeviceService.isUnpairedAccessAllowed())) {
+    throwAuthError(AuthErrors.DISPLAY_PAIRING_REQUIRED);
+  }
+
+  next();
+});
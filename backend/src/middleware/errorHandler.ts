@@ -30,6 +30,10 @@ export const AuthErrors = {
   REFRESH_TOKEN_MISSING: new AuthError('REFRESH_TOKEN_MISSING', 'Refresh token required', 'Refresh token is required', 400),
   REFRESH_TOKEN_INVALID: new AuthError('REFRESH_TOKEN_INVALID', 'Invalid refresh token', 'Invalid refresh token', 401),
   REFRESH_TOKEN_EXPIRED: new AuthError('REFRESH_TOKEN_EXPIRED', 'Refresh token expired', 'Your refresh token has expired', 401),
+  KIOSK_KEY_MISSING: new AuthError('KIOSK_KEY_MISSING', 'No kiosk key provided', 'This device is not set up as a kiosk', 401),
+  KIOSK_KEY_INVALID: new AuthError('KIOSK_KEY_INVALID', 'Invalid or revoked kiosk key', 'This kiosk is not authorized', 401),
+  DISPLAY_PAIRING_REQUIRED: new AuthError('DISPLAY_PAIRING_REQUIRED', 'Unpaired displays are not allowed', 'This display has to be paired before it can show the queue', 401),
+  DISPLAY_TOKEN_INVALID: new AuthError('DISPLAY_TOKEN_INVALID', 'Invalid or revoked display token', 'This display is no longer authorized', 401),
 };
 
 // Helper function to create auth errors
@@ -0,0 +1,28 @@
+import { Response, NextFunction } from 'express';
+import { KioskRequest } from '../types';
+import { KioskService } from '../services/kiosk';
+import { AuthErrors, throwAuthError, asyncErrorHandler } from './errorHandler';
+
+/**
+ * Middleware for kiosk endpoints: the device sends the key it was issued when an admin
+ * registered it, in the X-Kiosk-Key header
+ */
+export const authenticateKiosk = asyncErrorHandler(async (
+  req: KioskRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.headers['x-kiosk-key'];
+
+  if (!key || typeof key !== 'string') {
+    throwAuthError(AuthErrors.KIOSK_KEY_MISSING);
+  }
+
+  const device = await KioskService.authenticate(key as string);
+  if (!device) {
+    throwAuthError(AuthErrors.KIOSK_KEY_INVALID);
+  }
+
+  req.kiosk = device!;
+  next();
+});
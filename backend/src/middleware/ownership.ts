@@ -41,8 +41,9 @@ export const requireCustomerOwnership = async (
         return;
       }
 
-      // Check if the sales agent owns this customer
-      if (customer.sales_agent_id !== user.id) {
+      // Check if the sales agent owns this customer; kiosk registrations are open to every
+      // agent until one of them completes the details
+      if (customer.sales_agent_id !== user.id && !customer.details_pending) {
         res.status(403).json({ 
           error: 'Access denied. You can only access customers you created.' 
         });
@@ -74,7 +75,7 @@ export const checkCustomerOwnership = async (
     // For sales agents, check actual ownership
     if (userRole === UserRole.SALES) {
       const customer = await CustomerService.findById(customerId);
-      return customer ? customer.sales_agent_id === userId : false;
+      return customer ? customer.sales_agent_id === userId || !!customer.details_pending : false;
     }
 
     // Other roles don't have customer ownership
@@ -86,6 +86,25 @@ export const apiLimiter = rateLimit({
   }
 });
 
+// Public tracking links: plenty for a customer checking their place, too few to guess tokens
+export const trackingLimiter = rateLimit({
+  windowMs: DEV_WINDOW, // 1 min in dev, 15 min in prod
+  max: 60 * DEV_MULTIPLIER, // 600 in dev, 60 in prod
+  message: {
+    error: 'Too many requests, please try again later.',
+    retryAfter: isDevelopment ? '1 minute' : '15 minutes'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: secureKeyGenerator,
+  handler: (req, res) => {
+    res.status(429).json({
+      error: 'Too many requests, please try again later.',
+      retryAfter: isDevelopment ? 60 : 900 // 1 min in dev, 15 min in prod
+    });
+  }
+});
+
 // Burst protection for very sensitive operations
 export const burstLimiter = rateLimit({
   windowMs: isDevelopment ? 30 * 1000 : 60 * 1000, // 30 sec in dev, 1 min in prod
@@ -108,5 +127,6 @@ export default {
   generalLimiter,
   sensitiveLimiter,
   apiLimiter,
+  trackingLimiter,
   burstLimiter
 };
@@ -3,7 +3,8 @@ import { ActivityService } from '../services/activity';
 import { NotificationService } from '../services/notification';
 import { ReportService } from '../services/transaction';
 import { authenticateToken, requireAdmin, logActivity } from '../middleware/auth';
-import { AuthRequest, NotificationStatus } from '../types';
+import { AuthRequest, NotificationStatus, ServiceType } from '../types';
+import { CounterService } from '../services/queue';
 import { pool } from '../config/database';
 
 const router: express.Router = Router();
@@ -526,26 +527,32 @@ router.get('/counters', authenticateToken, requireAdmin, logActivity('list_count
 
 router.post('/counters', authenticateToken, requireAdmin, logActivity('create_counter'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { name, displayOrder, isActive = true } = req.body;
+    const { name, displayOrder, isActive = true, serviceTypes = Object.values(ServiceType) } = req.body;
     
-    console.log('Creating counter with data:', { name, displayOrder, isActive });
+    console.log('Creating counter with data:', { name, displayOrder, isActive, serviceTypes });
     
     if (!name) {
       res.status(400).json({ error: 'Name is required' });
       return;
     }
 
+    if (!CounterService.isValidServiceTypes(serviceTypes)) {
+      res.status(400).json({ error: 'At least one valid service type is required' });
+      return;
+    }
+
     const query = `
-      INSERT INTO counters (name, display_order, is_active)
-      VALUES ($1, $2, $3)
+      INSERT INTO counters (name, display_order, is_active, service_types)
+      VALUES ($1, $2, $3, $4)
       RETURNING *
     `;
     
     console.log('Executing query:', query);
-    console.log('With parameters:', [name, displayOrder || 0, isActive]);
+    console.log('With parameters:', [name, displayOrder || 0, isActive, serviceTypes]);
     
-    const result = await pool.query(query, [name, displayOrder || 0, isActive]);
+    const result = await pool.query(query, [name, displayOrder || 0, isActive, JSON.stringify(serviceTypes)]);
     console.log('Query result:', result.rows[0]);
+    await CounterService.announceChange('counter_created', result.rows[0]);
     res.status(201).json(result.rows[0]);
   } catch (error) {
     console.error('Error creating counter:', error);
@@ -565,16 +572,24 @@ router.post('/counters', authenticateToken, requireAdmin, logActivity('create_co
 router.put('/counters/:id', authenticateToken, requireAdmin, logActivity('update_counter'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { name, displayOrder, isActive } = req.body;
+    const { name, displayOrder, isActive, serviceTypes } = req.body;
     
     if (!name) {
       res.status(400).json({ error: 'Name is required' });
       return;
     }
 
+    if (serviceTypes !== undefined && !CounterService.isValidServiceTypes(serviceTypes)) {
+      res.status(400).json({ error: 'At least one valid service type is required' });
+      return;
+    }
+
+    // Service types are left untouched when the client does not send them
     const query = `
       UPDATE counters 
-      SET name = $1, display_order = $2, is_active = $3, updated_at = CURRENT_TIMESTAMP
+      SET name = $1, display_order = $2, is_active = $3,
+          service_types = COALESCE($5::jsonb, service_types),
+          updated_at = CURRENT_TIMESTAMP
       WHERE id = $4
       RETURNING *
     `;
@@ -585,13 +600,20 @@ router.put('/counters/:id', authenticateToken, requireAdmin, logActivity('update
       return;
     }
 
-    const result = await pool.query(query, [name, displayOrder || 0, isActive, counterId]);
+    const result = await pool.query(query, [
+      name,
+      displayOrder || 0,
+      isActive,
+      counterId,
+      serviceTypes !== undefined ? JSON.stringify(serviceTypes) : null
+    ]);
     
     if (result.rows.length === 0) {
       res.status(404).json({ error: 'Counter not found' });
       return;
     }
     
+    await CounterService.announceChange('counter_updated', result.rows[0]);
     res.json(result.rows[0]);
   } catch (error) {
     console.error('Error updating counter:', error);
@@ -626,6 +648,7 @@ router.put('/counters/:id/toggle', authenticateToken, requireAdmin, logActivity(
       return;
     }
     
+    await CounterService.announceChange('counter_updated', result.rows[0]);
     res.json(result.rows[0]);
   } catch (error) {
     console.error('Error toggling counter:', error);
@@ -642,7 +665,7 @@ router.delete('/counters/:id', authenticateToken, requireAdmin, logActivity('del
       return;
     }
     
-    const query = 'DELETE FROM counters WHERE id = $1';
+    const query = 'DELETE FROM counters WHERE id = $1 RETURNING *';
     const result = await pool.query(query, [counterId]);
     
     if (result.rowCount === 0) {
@@ -650,6 +673,7 @@ router.delete('/counters/:id', authenticateToken, requireAdmin, logActivity('del
       return;
     }
     
+    await CounterService.announceChange('counter_deleted', result.rows[0]);
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting counter:', error);
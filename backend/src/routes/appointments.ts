@@ -0,0 +1,156 @@
+import express, { Router, Response } from 'express';
+import moment from 'moment-timezone';
+import { AppointmentService } from '../services/appointment';
+import { logActivity } from '../middleware/auth';
+import { AuthRequest, AppointmentStatus, ServiceType } from '../types';
+
+const router: express.Router = Router();
+
+const today = () => moment().tz('Asia/Manila').format('YYYY-MM-DD');
+
+// Shared handler for cancel / no-show; both only apply to booked appointments
+const closeAppointment = async (req: AuthRequest, res: Response, action: 'cancel' | 'markNoShow'): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid appointment ID' });
+      return;
+    }
+
+    const appointment = await AppointmentService[action](id);
+    res.json(appointment);
+  } catch (error) {
+    console.error(`Error closing appointment (${action}):`, error);
+    if (error instanceof Error && error.message === 'Appointment not found') {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message.startsWith('Only booked appointments')) {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+};
+
+// Bookable slots for a date and service type, optionally for one doctor
+router.get('/slots', logActivity('get_appointment_slots'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const date = (req.query.date as string) || today();
+    const serviceType = (req.query.serviceType as ServiceType) || ServiceType.EYE_EXAM;
+    const doctor = req.query.doctor as string | undefined;
+
+    if (!Object.values(ServiceType).includes(serviceType)) {
+      res.status(400).json({ error: `Invalid service type: ${serviceType}` });
+      return;
+    }
+
+    const slots = await AppointmentService.getSlots(date, serviceType, doctor || null);
+    res.json(slots);
+  } catch (error) {
+    console.error('Error getting appointment slots:', error);
+    if (error instanceof Error && error.message === 'Invalid date') {
+      res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Appointments on a date (today by default)
+router.get('/', logActivity('list_appointments'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const date = (req.query.date as string) || today();
+    const status = req.query.status as AppointmentStatus | undefined;
+
+    if (status && !Object.values(AppointmentStatus).includes(status)) {
+      res.status(400).json({ error: `Invalid appointment status: ${status}` });
+      return;
+    }
+
+    const appointments = await AppointmentService.list(date, status);
+    res.json(appointments);
+  } catch (error) {
+    console.error('Error listing appointments:', error);
+    if (error instanceof Error && error.message === 'Invalid date') {
+      res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Book an appointment
+router.post('/', logActivity('book_appointment'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { customer_name, contact_number, email, service_type = ServiceType.EYE_EXAM, doctor_name, slot_start, notes } = req.body;
+
+    if (!customer_name || typeof customer_name !== 'string' || !customer_name.trim()) {
+      res.status(400).json({ error: 'Customer name is required' });
+      return;
+    }
+
+    if (!Object.values(ServiceType).includes(service_type)) {
+      res.status(400).json({ error: `Invalid service type: ${service_type}` });
+      return;
+    }
+
+    if (!slot_start || isNaN(new Date(slot_start).getTime())) {
+      res.status(400).json({ error: 'A valid slot start time is required' });
+      return;
+    }
+
+    const appointment = await AppointmentService.book({
+      customer_name,
+      contact_number,
+      email,
+      service_type,
+      doctor_name,
+      slot_start: new Date(slot_start),
+      notes
+    }, req.user?.id);
+
+    res.status(201).json(appointment);
+  } catch (error) {
+    console.error('Error booking appointment:', error);
+    if (error instanceof Error && error.message === 'Slot is not a bookable time') {
+      res.status(400).json({ error: error.message });
+    } else if (error instanceof Error && (error.message === 'Slot is fully booked' || error.message === 'Doctor is already booked for this slot')) {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Get a single appointment
+router.get('/:id', logActivity('get_appointment'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid appointment ID' });
+      return;
+    }
+
+    const appointment = await AppointmentService.findById(id);
+    if (!appointment) {
+      res.status(404).json({ error: 'Appointment not found' });
+      return;
+    }
+
+    res.json(appointment);
+  } catch (error) {
+    console.error('Error getting appointment:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Cancel a booked appointment
+router.post('/:id/cancel', logActivity('cancel_appointment'), async (req: AuthRequest, res: Response): Promise<void> => {
+  await closeAppointment(req, res, 'cancel');
+});
+
+// Mark a booked appointment as a no-show
+router.post('/:id/no-show', logActivity('mark_appointment_no_show'), async (req: AuthRequest, res: Response): Promise<void> => {
+  await closeAppointment(req, res, 'markNoShow');
+});
+
+export default router;
@@ -0,0 +1,31 @@
+import express, { Router, Request, Response } from 'express';
+import { ShipmentService } from '../services/shipment';
+
+const router: express.Router = Router();
+
+// Public routes: each courier adapter checks the courier's own signature
+
+// Status updates pushed by a courier
+router.post('/:courier', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { courier } = req.params;
+    if (!ShipmentService.isCourier(courier)) {
+      res.status(404).json({ error: 'Unknown courier' });
+      return;
+    }
+
+    const changed = await ShipmentService.handleWebhook(courier, req.body, req.headers);
+    res.json({ received: true, changed });
+  } catch (error) {
+    console.error('Error handling courier webhook:', error);
+    if (error instanceof Error && error.message === 'Invalid webhook signature') {
+      res.status(401).json({ error: error.message });
+    } else if (error instanceof Error && error.message.startsWith('Courier updates are not available')) {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
@@ -8,7 +8,7 @@ import { WebSocketService } from '../services/websocket';
 import { UserService } from '../services/user';
 const { authenticateToken, requireSalesOrAdmin, requireAdmin, logActivity } = require('../middleware/auth');
 import { requireCustomerOwnership, getSalesAgentFilter } from '../middleware/ownership';
-import { AuthRequest, QueueStatus } from '../types';
+import { AuthRequest, QueueStatus, UserRole } from '../types';
 import { pool } from '../config/database';
 import { validateSchema } from '../middleware/validation';
 import {
@@ -28,7 +28,9 @@ router.post('/', authenticateToken, requireSalesOrAdmin, validateSchema(createCu
     const customerData = {
       ...req.body,
       sales_agent_id: req.user!.id,
-      create_initial_transaction: req.body.create_initial_transaction !== undefined ? req.body.create_initial_transaction : true
+      create_initial_transaction: req.body.create_initial_transaction !== undefined ? req.body.create_initial_transaction : true,
+      // Only admins may register past closing time or queue capacity
+      override_capacity: (req.user!.role === UserRole.ADMIN || req.user!.role === UserRole.SUPER_ADMIN) && req.body.override_capacity === true
     };
     
     console.log('🌐 [API_DEBUG] Processed customerData being sent to service:', JSON.stringify(customerData, null, 2));
@@ -54,17 +56,25 @@ router.post('/', authenticateToken, requireSalesOrAdmin, validateSchema(createCu
     res.status(201).json(customer);
   } catch (error) {
     console.error('Error creating customer:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    if (error instanceof Error && error.message.startsWith('Registration is closed')) {
+      res.status(409).json({ error: error.message, code: 'registration_closed' });
+    } else if (error instanceof Error && (error.message === 'Appointment not found' || error.message === 'Patient not found')) {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && (error.message.startsWith('Appointment is already') || error.message === 'Appointment is not scheduled for today')) {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
   }
 });
 
 // List customers - Enhanced for cashier access
 router.get('/', authenticateToken, logActivity('list_customers'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { status, salesAgentId, startDate, endDate, searchTerm, sortBy = 'created_at', sortOrder = 'desc', page = '1', limit = '20' } = req.query;
+    const { status, salesAgentId, detailsPending, startDate, endDate, searchTerm, sortBy = 'created_at', sortOrder = 'desc', page = '1', limit = '20' } = req.query;
     
     // Apply role-based filtering:
-    // - Sales agents: Only see their own customers
+    // - Sales agents: Only see their own customers, plus kiosk registrations waiting for an agent
     // - Cashiers: See all customers for transaction processing
     // - Admins: See all customers
     let effectiveSalesAgentId: number | undefined;
@@ -97,6 +107,8 @@ router.get('/', authenticateToken, logActivity('list_customers'), async (req: Au
     const filters = {
       status: status as QueueStatus,
       salesAgentId: effectiveSalesAgentId,
+      includeDetailsPending: req.user!.role === 'sales',
+      detailsPending: detailsPending === 'true',
       startDate: toManilaBoundary(startDate as string, false),
       endDate: toManilaBoundary(endDate as string, true),
       searchTerm: searchTerm as string
@@ -0,0 +1,231 @@
+import express, { Router, Request, Response } from 'express';
+import { DisplayContentService } from '../services/displayContent';
+import { authenticateToken, requireAdmin, logActivity } from '../middleware/auth';
+import { authenticateDisplay } from '../middleware/display';
+import { AuthRequest, DisplayRequest } from '../types';
+
+const router: express.Router = Router();
+
+// ---- Displays ----
+
+// The slides for a display opened in a staff session; such displays are in no group
+router.get('/current', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const slides = await DisplayContentService.getContentForDisplay(null);
+    res.json(slides);
+  } catch (error) {
+    console.error('Error getting display content:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The slides this display should play now (same access rules as the public display feeds)
+router.get('/public/current', authenticateDisplay, async (req: DisplayRequest, res: Response): Promise<void> => {
+  try {
+    const slides = await DisplayContentService.getContentForDisplay(req.display?.group_id ?? null);
+    res.json(slides);
+  } catch (error) {
+    console.error('Error getting display content:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Slide images are loaded by <img> tags, so they are public; the URL changes with the slide
+router.get('/slides/:id/image', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const image = isNaN(id) ? null : await DisplayContentService.getSlideImage(id);
+    if (!image) {
+      res.status(404).json({ error: 'Image not found' });
+      return;
+    }
+
+    res.set('Content-Type', image.mime_type);
+    res.set('Cache-Control', 'public, max-age=86400');
+    res.send(image.data);
+  } catch (error) {
+    console.error('Error getting slide image:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// ---- Playlists (admin) ----
+
+router.get('/playlists', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const playlists = await DisplayContentService.listPlaylists();
+    res.json(playlists);
+  } catch (error) {
+    console.error('Error listing playlists:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/playlists', authenticateToken, requireAdmin, logActivity('create_display_playlist'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const validationError = DisplayContentService.validatePlaylist(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const playlist = await DisplayContentService.createPlaylist(req.body, req.user?.id);
+    res.status(201).json(playlist);
+  } catch (error) {
+    console.error('Error creating playlist:', error);
+    if (error instanceof Error && error.message === 'Display group not found') {
+      res.status(400).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+router.put('/playlists/:id', authenticateToken, requireAdmin, logActivity('update_display_playlist'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid playlist ID' });
+      return;
+    }
+
+    const validationError = DisplayContentService.validatePlaylist(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const playlist = await DisplayContentService.updatePlaylist(id, req.body);
+    res.json(playlist);
+  } catch (error) {
+    console.error('Error updating playlist:', error);
+    if (error instanceof Error && error.message === 'Playlist not found') {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Display group not found') {
+      res.status(400).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+router.delete('/playlists/:id', authenticateToken, requireAdmin, logActivity('delete_display_playlist'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid playlist ID' });
+      return;
+    }
+
+    await DisplayContentService.deletePlaylist(id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting playlist:', error);
+    if (error instanceof Error && error.message === 'Playlist not found') {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Play the slides in the order given; every slide of the playlist has to be listed
+router.put('/playlists/:id/slide-order', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const { slide_ids } = req.body;
+
+    if (isNaN(id) || !Array.isArray(slide_ids) || !slide_ids.every((slideId: unknown) => Number.isInteger(slideId))) {
+      res.status(400).json({ error: 'Playlist ID and a list of slide_ids are required' });
+      return;
+    }
+
+    const slides = await DisplayContentService.reorderSlides(id, slide_ids);
+    res.json(slides);
+  } catch (error) {
+    console.error('Error reordering slides:', error);
+    if (error instanceof Error && error.message === 'Slide order must list every slide of the playlist once') {
+      res.status(400).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// ---- Slides (admin) ----
+
+router.post('/playlists/:id/slides', authenticateToken, requireAdmin, logActivity('create_display_slide'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid playlist ID' });
+      return;
+    }
+
+    const validationError = DisplayContentService.validateSlide(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const slide = await DisplayContentService.addSlide(id, req.body);
+    res.status(201).json(slide);
+  } catch (error) {
+    console.error('Error creating slide:', error);
+    if (error instanceof Error && error.message === 'Playlist not found') {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+router.put('/slides/:id', authenticateToken, requireAdmin, logActivity('update_display_slide'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid slide ID' });
+      return;
+    }
+
+    // An image slide being edited keeps its image unless a new one is sent
+    const hasImage = await DisplayContentService.hasSlideImage(id);
+    const validationError = DisplayContentService.validateSlide(req.body, hasImage);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const slide = await DisplayContentService.updateSlide(id, req.body);
+    res.json(slide);
+  } catch (error) {
+    console.error('Error updating slide:', error);
+    if (error instanceof Error && error.message === 'Slide not found') {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+router.delete('/slides/:id', authenticateToken, requireAdmin, logActivity('delete_display_slide'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid slide ID' });
+      return;
+    }
+
+    await DisplayContentService.deleteSlide(id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting slide:', error);
+    if (error instanceof Error && error.message === 'Slide not found') {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
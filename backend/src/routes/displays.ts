@@ -0,0 +1,256 @@
+import express, { Router, Request, Response } from 'express';
+import { DisplayDeviceService } from '../services/displayDevice';
+import { DisplayCommandService } from '../services/displayCommand';
+import { DisplayGroupService } from '../services/displayGroup';
+import { authenticateToken, requireAdmin, logActivity } from '../middleware/auth';
+import { AuthRequest } from '../types';
+
+const router: express.Router = Router();
+
+// ---- Pairing (unpaired display) ----
+
+// Start pairing: the display shows the code and keeps the secret
+router.post('/pairing-requests', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pairing = await DisplayDeviceService.createPairingRequest();
+    res.status(201).json(pairing);
+  } catch (error) {
+    console.error('Error creating display pairing request:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Polled by the display until an admin has entered its code; answers with the device token once
+router.post('/pairing-requests/:id/claim', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const { secret } = req.body;
+
+    if (isNaN(id) || !secret || typeof secret !== 'string') {
+      res.status(400).json({ error: 'Pairing request ID and secret are required' });
+      return;
+    }
+
+    const result = await DisplayDeviceService.claim(id, secret);
+    if (!result) {
+      res.status(202).json({ status: 'pending' });
+      return;
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error claiming display pairing:', error);
+    if (error instanceof Error && error.message === 'Pairing request not found') {
+      res.status(404).json({ error: 'This pairing code has expired. Please start again.' });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// ---- Device management (admin) ----
+
+router.get('/devices', authenticateToken, requireAdmin, logActivity('list_display_devices'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const devices = await DisplayDeviceService.listDevices();
+    res.json(devices);
+  } catch (error) {
+    console.error('Error listing display devices:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Pair the display showing the given code
+router.post('/devices', authenticateToken, requireAdmin, logActivity('pair_display_device'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { code, name } = req.body;
+
+    if (!code || typeof code !== 'string' || !code.trim()) {
+      res.status(400).json({ error: 'Pairing code is required' });
+      return;
+    }
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Display name is required' });
+      return;
+    }
+
+    if (name.trim().length > 100) {
+      res.status(400).json({ error: 'Display name must be 100 characters or less' });
+      return;
+    }
+
+    const device = await DisplayDeviceService.pair(code, name.trim(), req.user?.id);
+    res.status(201).json(device);
+  } catch (error) {
+    console.error('Error pairing display device:', error);
+    if (error instanceof Error && error.message === 'Pairing code not found') {
+      res.status(404).json({ error: 'No display is waiting with this code. Check the code on the screen, it changes every 10 minutes.' });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+router.post('/devices/:id/revoke', authenticateToken, requireAdmin, logActivity('revoke_display_device'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid device ID' });
+      return;
+    }
+
+    const device = await DisplayDeviceService.revokeDevice(id);
+    res.json(device);
+  } catch (error) {
+    console.error('Error revoking display device:', error);
+    if (error instanceof Error && error.message === 'Display device not found') {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Display device is already revoked') {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Put a display in a group, or take it out with group_id null
+router.put('/devices/:id/group', authenticateToken, requireAdmin, logActivity('set_display_device_group'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const { group_id } = req.body;
+
+    if (isNaN(id) || (group_id !== null && !Number.isInteger(group_id))) {
+      res.status(400).json({ error: 'Device ID and a group_id (or null) are required' });
+      return;
+    }
+
+    const device = await DisplayDeviceService.setGroup(id, group_id);
+    res.json(device);
+  } catch (error) {
+    console.error('Error setting display device group:', error);
+    if (error instanceof Error && (error.message === 'Display device not found' || error.message === 'Display group not found')) {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// ---- Display groups (admin) ----
+
+router.get('/groups', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const groups = await DisplayGroupService.listGroups();
+    res.json(groups);
+  } catch (error) {
+    console.error('Error listing display groups:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/groups', authenticateToken, requireAdmin, logActivity('create_display_group'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const validationError = DisplayGroupService.validateGroup(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const group = await DisplayGroupService.createGroup(req.body);
+    res.status(201).json(group);
+  } catch (error) {
+    console.error('Error creating display group:', error);
+    if (error instanceof Error && error.message === 'A display group with this name already exists') {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Replace a group's name, counters and service types
+router.put('/groups/:id', authenticateToken, requireAdmin, logActivity('update_display_group'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid group ID' });
+      return;
+    }
+
+    const validationError = DisplayGroupService.validateGroup(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const group = await DisplayGroupService.updateGroup(id, req.body);
+    res.json(group);
+  } catch (error) {
+    console.error('Error updating display group:', error);
+    if (error instanceof Error && error.message === 'Display group not found') {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'A display group with this name already exists') {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+router.delete('/groups/:id', authenticateToken, requireAdmin, logActivity('delete_display_group'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid group ID' });
+      return;
+    }
+
+    await DisplayGroupService.deleteGroup(id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting display group:', error);
+    if (error instanceof Error && error.message === 'Display group not found') {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// ---- Remote management (admin) ----
+
+// Displays connected right now, with their last reported health and command acknowledgement
+router.get('/connected', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.json(DisplayCommandService.listConnected());
+  } catch (error) {
+    console.error('Error listing connected displays:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Push a command; displays acknowledge it over the socket, so the response only says where it went
+router.post('/commands', authenticateToken, requireAdmin, logActivity('send_display_command'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { target, command } = req.body;
+
+    const validationError = DisplayCommandService.validateTarget(target) || DisplayCommandService.validateCommand(command);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const result = DisplayCommandService.send(target, command, req.user!.full_name);
+    res.status(202).json(result);
+  } catch (error) {
+    console.error('Error sending display command:', error);
+    if (error instanceof Error && error.message === 'No connected display matches the target') {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
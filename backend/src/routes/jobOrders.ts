@@ -0,0 +1,171 @@
+import express, { Router, Response } from 'express';
+import { JobOrderService } from '../services/jobOrder';
+import { requireSalesOrAdmin, logActivity } from '../middleware/auth';
+import { AuthRequest } from '../types';
+
+const router: express.Router = Router();
+
+const NOT_FOUND = ['Job order not found', 'Customer not found'];
+const BAD_REQUEST = ['Unknown stage', 'Transaction does not belong to this customer'];
+
+// Map the service's errors; anything else is a 500
+const sendError = (res: Response, error: unknown): void => {
+  if (error instanceof Error && NOT_FOUND.includes(error.message)) {
+    res.status(404).json({ error: error.message });
+  } else if (error instanceof Error && BAD_REQUEST.includes(error.message)) {
+    res.status(400).json({ error: error.message });
+  } else if (error instanceof Error && error.message === 'Job order is already at this stage') {
+    res.status(409).json({ error: error.message });
+  } else {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// An optional date from the request body: undefined when absent, null when cleared
+const parseOptionalDate = (value: unknown): Date | null | undefined | 'invalid' => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? 'invalid' : date;
+};
+
+// Stages in board order, for every staff member working the board
+router.get('/stages', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.json(await JobOrderService.getSettings());
+  } catch (error) {
+    console.error('Error fetching job order stages:', error);
+    sendError(res, error);
+  }
+});
+
+// Open job orders for the board, or a customer's job orders
+router.get('/', logActivity('list_job_orders'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const customerId = req.query.customerId ? parseInt(req.query.customerId as string, 10) : undefined;
+    if (customerId !== undefined && isNaN(customerId)) {
+      res.status(400).json({ error: 'Invalid customer ID' });
+      return;
+    }
+
+    const jobOrders = await JobOrderService.list({
+      customerId,
+      includeFinal: req.query.includeFinal === 'true'
+    });
+    res.json(jobOrders);
+  } catch (error) {
+    console.error('Error listing job orders:', error);
+    sendError(res, error);
+  }
+});
+
+// Start a job order for a visit
+router.post('/', requireSalesOrAdmin, logActivity('create_job_order'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const customerId = parseInt(req.body.customer_id, 10);
+    if (isNaN(customerId)) {
+      res.status(400).json({ error: 'customer_id is required' });
+      return;
+    }
+
+    const transactionId = req.body.transaction_id ? parseInt(req.body.transaction_id, 10) : null;
+    if (transactionId !== null && isNaN(transactionId)) {
+      res.status(400).json({ error: 'Invalid transaction ID' });
+      return;
+    }
+
+    const expectedReadyAt = parseOptionalDate(req.body.expected_ready_at);
+    if (expectedReadyAt === 'invalid') {
+      res.status(400).json({ error: 'Invalid expected ready date' });
+      return;
+    }
+
+    const jobOrder = await JobOrderService.create({
+      customer_id: customerId,
+      transaction_id: transactionId,
+      expected_ready_at: expectedReadyAt,
+      lab_name: req.body.lab_name,
+      notes: req.body.notes
+    }, req.user?.id);
+
+    res.status(201).json(jobOrder);
+  } catch (error) {
+    console.error('Error creating job order:', error);
+    sendError(res, error);
+  }
+});
+
+// A job order with its stage history
+router.get('/:id', logActivity('get_job_order'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid job order ID' });
+      return;
+    }
+
+    const jobOrder = await JobOrderService.findById(id);
+    if (!jobOrder) {
+      res.status(404).json({ error: 'Job order not found' });
+      return;
+    }
+
+    res.json(jobOrder);
+  } catch (error) {
+    console.error('Error getting job order:', error);
+    sendError(res, error);
+  }
+});
+
+// Move a job order to another stage; reaching a ready stage texts the customer
+router.post('/:id/stage', logActivity('move_job_order'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid job order ID' });
+      return;
+    }
+
+    const { stage, note } = req.body;
+    if (!stage || typeof stage !== 'string') {
+      res.status(400).json({ error: 'stage is required' });
+      return;
+    }
+
+    const jobOrder = await JobOrderService.moveToStage(id, stage, req.user?.id, typeof note === 'string' ? note : null);
+    res.json(jobOrder);
+  } catch (error) {
+    console.error('Error moving job order:', error);
+    sendError(res, error);
+  }
+});
+
+// Update the expected-ready date, lab or notes; a later date texts the customer
+router.put('/:id', requireSalesOrAdmin, logActivity('update_job_order'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid job order ID' });
+      return;
+    }
+
+    const expectedReadyAt = parseOptionalDate(req.body.expected_ready_at);
+    if (expectedReadyAt === 'invalid') {
+      res.status(400).json({ error: 'Invalid expected ready date' });
+      return;
+    }
+
+    const jobOrder = await JobOrderService.update(id, {
+      expected_ready_at: expectedReadyAt,
+      lab_name: req.body.lab_name,
+      notes: req.body.notes
+    }, req.user?.id);
+
+    res.json(jobOrder);
+  } catch (error) {
+    console.error('Error updating job order:', error);
+    sendError(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+import express, { Router, Response } from 'express';
+import { KioskService } from '../services/kiosk';
+import { BusinessHoursService } from '../services/businessHours';
+import { authenticateToken, requireAdmin, logActivity } from '../middleware/auth';
+import { authenticateKiosk } from '../middleware/kiosk';
+import { validateSchema } from '../middleware/validation';
+import { kioskCheckInSchema, kioskRegistrationSchema } from '../validation/schemas/customer';
+import { AuthRequest, KioskRequest } from '../types';
+
+const router: express.Router = Router();
+
+// Shared error mapping for kiosk check-in and registration
+const sendKioskError = (res: Response, error: unknown): void => {
+  if (error instanceof Error && error.message.startsWith('Registration is closed')) {
+    res.status(409).json({ error: error.message, code: 'registration_closed' });
+  } else if (error instanceof Error && error.message === 'Customer not found') {
+    res.status(404).json({ error: 'No previous visit found. Please register as a new customer.' });
+  } else {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// ---- Kiosk device endpoints (X-Kiosk-Key) ----
+
+// Device name and whether registration is open, shown on the kiosk's start screen
+router.get('/status', authenticateKiosk, async (req: KioskRequest, res: Response): Promise<void> => {
+  try {
+    const registration = await BusinessHoursService.getRegistrationStatus();
+    res.json({ device: { id: req.kiosk!.id, name: req.kiosk!.name }, registration });
+  } catch (error) {
+    console.error('Error getting kiosk status:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Returning customer: look up by OR number or contact number and issue a ticket
+router.post('/check-in', authenticateKiosk, validateSchema(kioskCheckInSchema), async (req: KioskRequest, res: Response): Promise<void> => {
+  try {
+    const { or_number, contact_number, last_name, service_type, priority_flags } = req.body;
+    const ticket = await KioskService.checkIn({ or_number, contact_number, last_name, service_type, priority_flags }, req.kiosk!.id);
+    res.status(ticket.already_queued ? 200 : 201).json(ticket);
+  } catch (error) {
+    console.error('Error checking in at kiosk:', error);
+    sendKioskError(res, error);
+  }
+});
+
+// New customer: short form, completed later by a sales agent
+router.post('/register', authenticateKiosk, validateSchema(kioskRegistrationSchema), async (req: KioskRequest, res: Response): Promise<void> => {
+  try {
+    const { name, contact_number, email, age, service_type, priority_flags } = req.body;
+    const ticket = await KioskService.register({ name, contact_number, email, age, service_type, priority_flags }, req.kiosk!.id);
+    res.status(201).json(ticket);
+  } catch (error) {
+    console.error('Error registering at kiosk:', error);
+    sendKioskError(res, error);
+  }
+});
+
+// ---- Device management (admin) ----
+
+router.get('/devices', authenticateToken, requireAdmin, logActivity('list_kiosk_devices'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const devices = await KioskService.listDevices();
+    res.json(devices);
+  } catch (error) {
+    console.error('Error listing kiosk devices:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Register a device; the response carries its key, which is shown this once
+router.post('/devices', authenticateToken, requireAdmin, logActivity('create_kiosk_device'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { name } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Device name is required' });
+      return;
+    }
+
+    if (name.trim().length > 100) {
+      res.status(400).json({ error: 'Device name must be 100 characters or less' });
+      return;
+    }
+
+    const result = await KioskService.createDevice(name.trim(), req.user?.id);
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error creating kiosk device:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/devices/:id/revoke', authenticateToken, requireAdmin, logActivity('revoke_kiosk_device'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid device ID' });
+      return;
+    }
+
+    const device = await KioskService.revokeDevice(id);
+    res.json(device);
+  } catch (error) {
+    console.error('Error revoking kiosk device:', error);
+    if (error instanceof Error && error.message === 'Kiosk device not found') {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Kiosk device is already revoked') {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,201 @@
+import express, { Router, Response } from 'express';
+import { PatientService } from '../services/patient';
+import { requireSalesOrAdmin, logActivity } from '../middleware/auth';
+import { AuthRequest } from '../types';
+
+const router: express.Router = Router();
+
+const NOT_FOUND = ['Patient not found', 'Customer not found'];
+
+// Map the service's errors; anything else is a 500
+const sendError = (res: Response, error: unknown): void => {
+  if (error instanceof Error && NOT_FOUND.includes(error.message)) {
+    res.status(404).json({ error: error.message });
+  } else if (error instanceof Error && error.message === 'Visit is already linked to a patient') {
+    res.status(409).json({ error: error.message });
+  } else {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Search profiles by name or phone number
+router.get('/', logActivity('search_patients'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+    if (search.length < 2) {
+      res.json([]);
+      return;
+    }
+
+    res.json(await PatientService.searchPatients(search));
+  } catch (error) {
+    console.error('Error searching patients:', error);
+    sendError(res, error);
+  }
+});
+
+// Profiles that may be the person being registered, for staff to confirm
+router.get('/matches', logActivity('match_patients'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { name, contact_number, birth_date } = req.query;
+    const matches = await PatientService.findMatches({
+      name: typeof name === 'string' ? name : null,
+      contact_number: typeof contact_number === 'string' ? contact_number : null,
+      birth_date: typeof birth_date === 'string' ? birth_date : null
+    });
+    res.json(matches);
+  } catch (error) {
+    console.error('Error matching patients:', error);
+    sendError(res, error);
+  }
+});
+
+// Start a profile from an unlinked visit and link the visit to it
+router.post('/from-visit', requireSalesOrAdmin, logActivity('create_patient_from_visit'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const customerId = parseInt(req.body.customer_id, 10);
+    if (isNaN(customerId)) {
+      res.status(400).json({ error: 'customer_id is required' });
+      return;
+    }
+    const birthDate = req.body.birth_date || null;
+    const validationError = PatientService.validateBirthDate(birthDate);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const patient = await PatientService.createFromVisit(customerId, birthDate);
+    res.status(201).json(patient);
+  } catch (error) {
+    console.error('Error creating patient from visit:', error);
+    sendError(res, error);
+  }
+});
+
+// Take a visit off its profile, e.g. when it was linked to the wrong person
+router.delete('/visits/:customerId', requireSalesOrAdmin, logActivity('unlink_patient_visit'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const customerId = parseInt(req.params.customerId, 10);
+    if (isNaN(customerId)) {
+      res.status(400).json({ error: 'Invalid customer ID' });
+      return;
+    }
+
+    await PatientService.unlinkVisit(customerId);
+    res.json({ message: 'Visit unlinked' });
+  } catch (error) {
+    console.error('Error unlinking patient visit:', error);
+    sendError(res, error);
+  }
+});
+
+router.post('/', requireSalesOrAdmin, logActivity('create_patient'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const validationError = PatientService.validatePatient(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const patient = await PatientService.createPatient(req.body);
+    res.status(201).json(patient);
+  } catch (error) {
+    console.error('Error creating patient:', error);
+    sendError(res, error);
+  }
+});
+
+router.get('/:id', logActivity('get_patient'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid patient ID' });
+      return;
+    }
+
+    const patient = await PatientService.findPatient(id);
+    if (!patient) {
+      res.status(404).json({ error: 'Patient not found' });
+      return;
+    }
+    res.json(patient);
+  } catch (error) {
+    console.error('Error getting patient:', error);
+    sendError(res, error);
+  }
+});
+
+router.put('/:id', requireSalesOrAdmin, logActivity('update_patient'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid patient ID' });
+      return;
+    }
+
+    const validationError = PatientService.validatePatient(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const patient = await PatientService.updatePatient(id, req.body);
+    res.json(patient);
+  } catch (error) {
+    console.error('Error updating patient:', error);
+    sendError(res, error);
+  }
+});
+
+// The profile's visits with their prescriptions, purchases and balances
+router.get('/:id/timeline', logActivity('get_patient_timeline'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid patient ID' });
+      return;
+    }
+
+    res.json(await PatientService.getTimeline(id));
+  } catch (error) {
+    console.error('Error getting patient timeline:', error);
+    sendError(res, error);
+  }
+});
+
+// Registration fields for the patient's next visit
+router.get('/:id/prefill', logActivity('get_patient_prefill'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid patient ID' });
+      return;
+    }
+
+    res.json(await PatientService.getPrefill(id));
+  } catch (error) {
+    console.error('Error getting patient prefill:', error);
+    sendError(res, error);
+  }
+});
+
+// Link a visit to the profile once staff confirmed it is the same person
+router.post('/:id/visits', requireSalesOrAdmin, logActivity('link_patient_visit'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const customerId = parseInt(req.body.customer_id, 10);
+    if (isNaN(id) || isNaN(customerId)) {
+      res.status(400).json({ error: 'A patient ID and customer_id are required' });
+      return;
+    }
+
+    await PatientService.linkVisit(customerId, id);
+    res.json(await PatientService.getTimeline(id));
+  } catch (error) {
+    console.error('Error linking patient visit:', error);
+    sendError(res, error);
+  }
+});
+
+export default router;
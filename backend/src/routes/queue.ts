@@ -1,6 +1,15 @@
 import express, { Router, Request, Response } from 'express';
+import crypto from 'crypto';
 import { QueueService, CounterService } from '../services/queue';
 import { DisplayService } from '../services/displayService';
+import { CachedQueueService } from '../services/cachedQueue';
+import { DisplayEventsService } from '../services/displayEvents';
+import { DisplayGroupService } from '../services/displayGroup';
+import { PriorityPolicyService } from '../services/priorityPolicy';
+import { WaitTimeEstimator } from '../services/waitTimeEstimator';
+import { BusinessHoursService } from '../services/businessHours';
+import { QueuePauseService } from '../services/queuePause';
+import { SettingsService } from '../services/settings';
 import { 
   authenticateToken, 
   requireCashierOrAdmin, 
@@ -10,24 +19,55 @@ import {
   requireAdmin,
   logActivity 
 } from '../middleware/auth';
-import { AuthRequest, QueueStatus } from '../types';
+import { authenticateDisplay } from '../middleware/display';
+import { AuthRequest, DisplayRequest, QueueStatus } from '../types';
 import { pool } from '../config/database';
 
 const router: express.Router = Router();
 
 // Helper functions
-const calculatePriorityScore = (priorityFlags: any): number => {
-  let score = 0;
-  if (priorityFlags.senior_citizen) score += 1000;
-  if (priorityFlags.pwd) score += 900;
-  if (priorityFlags.pregnant) score += 800;
-  return score;
+// Send a display feed with an ETag; a display polling with the ETag of what it already shows gets a 304
+const sendDisplayFeed = (req: Request, res: Response, body: unknown): void => {
+  const json = JSON.stringify(body);
+  res.set({
+    'ETag': `"${crypto.createHash('sha1').update(json).digest('base64url')}"`,
+    // Cacheable, but asked about again on every poll
+    'Cache-Control': 'no-cache'
+  });
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+  res.type('json').send(json);
 };
 
-const calculateEstimatedWaitTime = (position: number): number => {
-  // Estimated wait time based on position and average service time
-  const averageServiceTime = 15; // minutes
-  return (position - 1) * averageServiceTime;
+// Shared handler for hold/reactivate; both go through the status transition rules
+const changeHoldStatus = async (req: AuthRequest, res: Response, status: QueueStatus): Promise<void> => {
+  try {
+    const { customerId } = req.body;
+
+    if (!customerId) {
+      res.status(400).json({ error: 'Customer ID is required' });
+      return;
+    }
+
+    const customer = await QueueService.changeStatus(parseInt(customerId, 10), status, req.user?.id, req.user?.role);
+    res.json(customer);
+  } catch (error) {
+    console.error(`Error changing hold status to ${status}:`, error);
+    if (error instanceof Error && error.message === 'Customer not found') {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message.includes('Invalid status transition')) {
+      res.status(400).json({ error: error.message });
+    } else if (error instanceof Error && error.message.startsWith('Access denied')) {
+      res.status(403).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Hold has expired') {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
 };
 
 // Debug route to check customers
@@ -74,14 +114,20 @@ router.post('/call-next', authenticateToken, requireCashierOrAdmin, logActivity(
     const customer = await QueueService.callNext(counterId);
     
     if (!customer) {
-      res.status(404).json({ error: 'No customers in queue' });
+      res.status(404).json({ error: 'No customers in queue for this counter\'s service types' });
       return;
     }
 
     res.json(customer);
   } catch (error) {
     console.error('Error calling next customer:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    if (error instanceof Error && error.message === 'Counter not found') {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message.startsWith('Queue is paused')) {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
   }
 });
 
@@ -105,10 +151,78 @@ router.post('/call-customer', authenticateToken, requireCashierOrAdmin, logActiv
     res.json(customer);
   } catch (error) {
     console.error('Error calling specific customer:', error);
+    if (error instanceof Error && (error.message.startsWith('Counter does not handle service type') || error.message.startsWith('Queue is paused'))) {
+      res.status(409).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Counter not found') {
+      res.status(404).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Current pause, if any
+router.get('/pause', authenticateToken, logActivity('get_queue_pause'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const pause = await QueuePauseService.getActivePause();
+    res.json({ paused: pause !== null, pause });
+  } catch (error) {
+    console.error('Error getting queue pause:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Pause the whole queue (lunch break, emergency); no customer can be called until resumed
+router.post('/pause', authenticateToken, requireCashierOrAdmin, logActivity('pause_queue'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { reason, expectedResumeAt } = req.body;
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'Pause reason is required' });
+      return;
+    }
+
+    if (reason.trim().length > 255) {
+      res.status(400).json({ error: 'Pause reason must be at most 255 characters' });
+      return;
+    }
+
+    let resumeAt: Date | null = null;
+    if (expectedResumeAt) {
+      resumeAt = new Date(expectedResumeAt);
+      if (isNaN(resumeAt.getTime()) || resumeAt.getTime() <= Date.now()) {
+        res.status(400).json({ error: 'Expected resume time must be a future date and time' });
+        return;
+      }
+    }
+
+    const pause = await QueuePauseService.pause(reason.trim(), resumeAt, req.user?.id);
+    res.json(pause);
+  } catch (error) {
+    console.error('Error pausing queue:', error);
+    if (error instanceof Error && error.message === 'Queue is already paused') {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Resume a paused queue
+router.post('/resume', authenticateToken, requireCashierOrAdmin, logActivity('resume_queue'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const pause = await QueuePauseService.resume(req.user?.id);
+    res.json(pause);
+  } catch (error) {
+    console.error('Error resuming queue:', error);
+    if (error instanceof Error && error.message === 'Queue is not paused') {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
 // Complete service
 router.post('/complete', authenticateToken, requireCashierOrAdmin, logActivity('complete_service'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -153,13 +267,112 @@ router.post('/cancel', authenticateToken, requireCashierOrAdmin, logActivity('ca
   }
 });
 
+// Recall a called customer who hasn't come to the counter
+router.post('/recall', authenticateToken, requireCashierOrAdmin, logActivity('recall_customer'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { customerId } = req.body;
+
+    if (!customerId) {
+      res.status(400).json({ error: 'Customer ID is required' });
+      return;
+    }
+
+    const result = await QueueService.recallCustomer(customerId);
+    res.json(result);
+  } catch (error) {
+    console.error('Error recalling customer:', error);
+    if (error instanceof Error && error.message === 'Customer not found') {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Customer is not being served') {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Skip a called customer who hasn't come to the counter, returning them to waiting
+router.post('/skip', authenticateToken, requireCashierOrAdmin, logActivity('skip_customer'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { customerId } = req.body;
+
+    if (!customerId) {
+      res.status(400).json({ error: 'Customer ID is required' });
+      return;
+    }
+
+    const result = await QueueService.skipCustomer(customerId);
+    res.json(result);
+  } catch (error) {
+    console.error('Error skipping customer:', error);
+    if (error instanceof Error && error.message === 'Customer not found') {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Customer is not being served') {
+      res.status(409).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Put a waiting customer on hold; they keep their place but are not called until reactivated
+router.post('/hold', authenticateToken, requireCashierOrAdmin, logActivity('hold_customer'), async (req: AuthRequest, res: Response): Promise<void> => {
+  await changeHoldStatus(req, res, QueueStatus.ON_HOLD);
+});
+
+// Return an on-hold customer to the waiting line at their original position
+router.post('/reactivate', authenticateToken, requireCashierOrAdmin, logActivity('reactivate_customer'), async (req: AuthRequest, res: Response): Promise<void> => {
+  await changeHoldStatus(req, res, QueueStatus.WAITING);
+});
+
+// Transfer a serving customer to another counter, or back into the line for another stage
+router.post('/transfer', authenticateToken, requireCashierOrAdmin, logActivity('transfer_customer'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { customerId, toCounterId, serviceType, frontOfLine, reason } = req.body;
+
+    if (!customerId) {
+      res.status(400).json({ error: 'Customer ID is required' });
+      return;
+    }
+
+    const result = await QueueService.transferCustomer(parseInt(customerId, 10), {
+      toCounterId: toCounterId ? parseInt(toCounterId, 10) : undefined,
+      serviceType,
+      frontOfLine: frontOfLine === true,
+      reason
+    }, req.user?.id);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error transferring customer:', error);
+    if (error instanceof Error && (error.message === 'Customer not found' || error.message === 'Counter not found')) {
+      res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && ['Customer is not being served', 'Target counter is busy', 'Customer is already at this counter'].includes(error.message)) {
+      res.status(409).json({ error: error.message });
+    } else if (error instanceof Error && (
+      error.message === 'A target counter or service type is required' ||
+      error.message === 'Target counter is not active' ||
+      error.message.startsWith('Invalid service type') ||
+      error.message.startsWith('Counter does not handle service type')
+    )) {
+      res.status(400).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
 // Get customer position
 router.get('/position/:customerId', authenticateToken, logActivity('get_queue_position'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { customerId } = req.params;
-    const position = await QueueService.getPosition(parseInt(customerId, 10));
+    const id = parseInt(customerId, 10);
+    const [position, estimate] = await Promise.all([
+      QueueService.getPosition(id),
+      QueueService.getEstimatedWaitTime(id)
+    ]);
     
-    res.json({ position });
+    res.json({ position, ...WaitTimeEstimator.toQueueItemFields(estimate) });
   } catch (error) {
     console.error('Error getting queue position:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -188,57 +401,35 @@ router.get('/counters', authenticateToken, logActivity('list_counters'), async (
   }
 });
 
-// Get all customers for queue management (waiting + serving + completed)
+// Get all customers for queue management (waiting + serving + on hold + completed)
 router.get('/all-statuses', authenticateToken, logActivity('get_all_statuses'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const query = `
       SELECT 
         c.*,
-        u.full_name as sales_agent_name,
-        ROW_NUMBER() OVER (ORDER BY 
-          CASE 
-            WHEN c.queue_status = 'serving' THEN 0
-            WHEN c.queue_status = 'waiting' THEN 1
-            WHEN c.queue_status = 'completed' THEN 2
-            ELSE 3
-          END,
-          CASE 
-            WHEN c.manual_position IS NOT NULL THEN c.manual_position
-            ELSE
-              CASE 
-                WHEN c.priority_flags::json->>'senior_citizen' = 'true' THEN 1000
-                WHEN c.priority_flags::json->>'pwd' = 'true' THEN 900
-                WHEN c.priority_flags::json->>'pregnant' = 'true' THEN 800
-                ELSE 0
-              END * 100000 + EXTRACT(EPOCH FROM c.created_at)
-          END ASC
-        ) as position
+        u.full_name as sales_agent_name
       FROM customers c
       LEFT JOIN users u ON c.sales_agent_id = u.id
-      WHERE c.queue_status IN ('waiting', 'serving', 'processing', 'completed')
-      ORDER BY 
-        CASE 
-          WHEN c.queue_status = 'serving' THEN 0
-          WHEN c.queue_status = 'processing' THEN 0.5
-          WHEN c.queue_status = 'waiting' THEN 1
-          WHEN c.queue_status = 'completed' THEN 2
-          ELSE 3
-        END,
-        CASE 
-          WHEN c.manual_position IS NOT NULL THEN c.manual_position
-          ELSE
-            CASE 
-              WHEN c.priority_flags::json->>'senior_citizen' = 'true' THEN 1000
-              WHEN c.priority_flags::json->>'pwd' = 'true' THEN 900
-              WHEN c.priority_flags::json->>'pregnant' = 'true' THEN 800
-              ELSE 0
-            END * 100000 + EXTRACT(EPOCH FROM c.created_at)
-        END ASC
+      WHERE c.queue_status IN ('waiting', 'serving', 'processing', 'on_hold', 'completed')
     `;
     
     const result = await pool.query(query);
+    const policy = await PriorityPolicyService.getPolicy();
+    const streak = await PriorityPolicyService.getConsecutivePriorityStreak(policy);
+
+    // Group by status (serving, processing, waiting, on hold, completed); each group in policy order
+    const ordered = ['serving', 'processing', 'waiting', 'on_hold', 'completed'].flatMap((status) =>
+      PriorityPolicyService.orderQueue(
+        result.rows.filter((row: any) => row.queue_status === status),
+        policy,
+        status === 'waiting' ? streak : 0
+      )
+    );
+    const waits = await WaitTimeEstimator.estimateWaits(
+      ordered.map((item) => item.customer).filter((row: any) => row.queue_status === 'waiting')
+    );
     
-    const customers = result.rows.map((row: any) => ({
+    const customers = ordered.map(({ customer: row, score }, index: number) => ({
       customer_id: row.id,
       customer: {
         ...row,
@@ -246,9 +437,9 @@ router.get('/all-statuses', authenticateToken, logActivity('get_all_statuses'),
         payment_info: typeof row.payment_info === 'string' ? JSON.parse(row.payment_info) : row.payment_info,
         priority_flags: typeof row.priority_flags === 'string' ? JSON.parse(row.priority_flags) : row.priority_flags,
       },
-      position: row.position,
-      priority_score: calculatePriorityScore(typeof row.priority_flags === 'string' ? JSON.parse(row.priority_flags) : row.priority_flags),
-      estimated_wait_time: calculateEstimatedWaitTime(row.position)
+      position: index + 1,
+      priority_score: score,
+      ...WaitTimeEstimator.toQueueItemFields(waits.get(row.id))
     }));
     
     res.json(customers);
@@ -258,6 +449,25 @@ router.get('/all-statuses', authenticateToken, logActivity('get_all_statuses'),
   }
 });
 
+// Preview the waiting queue order under a (possibly unsaved) priority policy
+router.post('/priority-policy/preview', authenticateToken, requireAdmin, logActivity('preview_priority_policy'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const overrides = req.body || {};
+    const validationError = PriorityPolicyService.validatePolicy(overrides);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const policy = { ...(await PriorityPolicyService.getPolicy()), ...overrides };
+    const preview = await PriorityPolicyService.previewQueue(policy);
+    res.json({ policy, ...preview });
+  } catch (error) {
+    console.error('Error previewing priority policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get all customers for display monitor (waiting + serving) - excludes processing records
 router.get('/display-all', authenticateToken, logActivity('get_display_all'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -306,76 +516,33 @@ router.get('/display-all', authenticateToken, logActivity('get_display_all'), as
   }
 });
 
-// Public endpoint for display monitor - no authentication required
-router.get('/public/display-all', logActivity('get_public_display_all'), async (req: Request, res: Response): Promise<void> => {
+// Public endpoint for display monitors - paired device token, or none while unpaired access is allowed
+router.get('/public/display-all', authenticateDisplay, logActivity('get_public_display_all'), async (req: DisplayRequest, res: Response): Promise<void> => {
   try {
     // Use DisplayService.getDisplayQueue() method that filters out processing records
-    const customers = await DisplayService.getDisplayQueue();
+    // and, for a display in a group, customers of other counters and service types
+    const group = await DisplayGroupService.getDeviceGroup(req.display);
+    const customers = await DisplayService.getDisplayQueue(group);
     
-    console.log('Public display queue data retrieved:', {
-      count: customers.length,
-      items: customers.map(c => ({ 
-        id: c.customer_id, 
-        name: c.customer?.name, 
-        estimated_time: c.estimated_wait_time 
-      }))
-    });
-
-    res.json(customers);
+    sendDisplayFeed(req, res, customers);
   } catch (error) {
     console.error('Error getting public display all data:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Server-Sent Events for displays that can't keep a socket up: change signals only, the display
+// refetches the feeds above. Same access rules as /public/display-all.
+router.get('/public/events', authenticateDisplay, logActivity('open_public_display_events'), (req: DisplayRequest, res: Response): void => {
+  DisplayEventsService.addClient(res);
+});
+
 // Explanation: The average service time is calculated internally and logged, but not sent in the response.
 
 // Counters endpoint for Display Monitor (authenticated)
 router.get('/counters/display', authenticateToken, logActivity('list_display_counters'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const query = `
-      SELECT 
-        c.id,
-        c.name,
-        c.is_active,
-        c.display_order,
-        cu.id as current_customer_id,
-        cu.name as current_customer_name,
-        cu.token_number as current_customer_token,
-        cu.priority_flags as current_customer_priority_flags
-      FROM counters c
-      LEFT JOIN customers cu ON c.current_customer_id = cu.id AND cu.queue_status = 'serving'
-      WHERE c.is_active = true
-      ORDER BY c.display_order ASC, c.name ASC
-    `;
-    
-    const result = await pool.query(query);
-    
-    console.log('Display counters query result:', {
-      count: result.rows.length,
-      counters: result.rows.map(row => ({
-        id: row.id,
-        name: row.name,
-        current_customer_id: row.current_customer_id,
-        current_customer_name: row.current_customer_name
-      }))
-    });
-    
-    const counters = result.rows.map((row: any) => ({
-      id: row.id,
-      name: row.name,
-      is_active: row.is_active,
-      current_customer: row.current_customer_id ? {
-        id: row.current_customer_id,
-        name: row.current_customer_name,
-        token_number: row.current_customer_token,
-        queue_status: 'serving',
-        priority_flags: typeof row.current_customer_priority_flags === 'string' 
-          ? JSON.parse(row.current_customer_priority_flags) 
-          : row.current_customer_priority_flags || { senior_citizen: false, pregnant: false, pwd: false }
-      } : null
-    }));
-    
+    const counters = await CachedQueueService.getDisplayCounters();
     res.json(counters);
   } catch (error) {
     console.error('Error listing display counters:', error);
@@ -383,53 +550,69 @@ router.get('/counters/display', authenticateToken, logActivity('list_display_cou
   }
 });
 
-// Public counters endpoint for standalone display - no authentication required
-router.get('/public/counters/display', logActivity('list_public_display_counters'), async (req: Request, res: Response): Promise<void> => {
+// Public endpoint for display monitors to show when registration is closed for the day - same access rules as /public/display-all
+router.get('/public/registration-status', authenticateDisplay, logActivity('get_public_registration_status'), async (req: Request, res: Response): Promise<void> => {
   try {
-    const query = `
-      SELECT 
-        c.id,
-        c.name,
-        c.is_active,
-        c.display_order,
-        cu.id as current_customer_id,
-        cu.name as current_customer_name,
-        cu.token_number as current_customer_token,
-        cu.priority_flags as current_customer_priority_flags
-      FROM counters c
-      LEFT JOIN customers cu ON c.current_customer_id = cu.id AND cu.queue_status = 'serving'
-      WHERE c.is_active = true
-      ORDER BY c.display_order ASC, c.name ASC
-    `;
-    
-    const result = await pool.query(query);
-    
-    console.log('Public display counters query result:', {
-      count: result.rows.length,
-      counters: result.rows.map(row => ({
-        id: row.id,
-        name: row.name,
-        current_customer_id: row.current_customer_id,
-        current_customer_name: row.current_customer_name
-      }))
+    const status = await BusinessHoursService.getRegistrationStatus();
+    sendDisplayFeed(req, res, {
+      accepting: status.accepting,
+      reason: status.reason,
+      message: status.message,
+      opensAt: status.opensAt,
+      closesAt: status.closesAt
     });
+  } catch (error) {
+    console.error('Error getting public registration status:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Public endpoint for display monitors to show a banner while the queue is paused - same access rules as /public/display-all
+router.get('/public/pause-status', authenticateDisplay, logActivity('get_public_pause_status'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pause = await QueuePauseService.getActivePause();
+    sendDisplayFeed(req, res, {
+      paused: pause !== null,
+      reason: pause ? pause.reason : null,
+      pausedAt: pause ? pause.paused_at : null,
+      expectedResumeAt: pause ? pause.expected_resume_at : null
+    });
+  } catch (error) {
+    console.error('Error getting public pause status:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Announcement settings for the displays' spoken token calls
+router.get('/announcement-settings', authenticateToken, logActivity('get_announcement_settings'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getAnnouncementSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error getting announcement settings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Same for the standalone display - same access rules as /public/display-all
+router.get('/public/announcement-settings', authenticateDisplay, logActivity('get_public_announcement_settings'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getAnnouncementSettings();
+    sendDisplayFeed(req, res, settings);
+  } catch (error) {
+    console.error('Error getting announcement settings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Public counters endpoint for standalone display - same access rules as /public/display-all
+router.get('/public/counters/display', authenticateDisplay, logActivity('list_public_display_counters'), async (req: DisplayRequest, res: Response): Promise<void> => {
+  try {
+    // A display in a group only shows (and announces) the group's counters
+    const group = await DisplayGroupService.getDeviceGroup(req.display);
+    const counters = DisplayGroupService.filterCounters(group, await CachedQueueService.getDisplayCounters());
     
-    const counters = result.rows.map((row: any) => ({
-      id: row.id,
-      name: row.name,
-      is_active: row.is_active,
-      current_customer: row.current_customer_id ? {
-        id: row.current_customer_id,
-        name: row.current_customer_name,
-        token_number: row.current_customer_token,
-        queue_status: 'serving',
-        priority_flags: typeof row.current_customer_priority_flags === 'string' 
-          ? JSON.parse(row.current_customer_priority_flags) 
-          : row.current_customer_priority_flags || { senior_citizen: false, pregnant: false, pwd: false }
-      } : null
-    }));
-    
-    res.json(counters);
+    sendDisplayFeed(req, res, counters);
   } catch (error) {
     console.error('Error listing public display counters:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -562,18 +745,22 @@ router.post('/admin/fix-serving-counter-assignments', authenticateToken, require
 
 router.post('/counters', authenticateToken, requireCashierOrAdmin, logActivity('create_counter'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { name } = req.body;
+    const { name, service_types } = req.body;
 
     if (!name) {
       res.status(400).json({ error: 'Counter name is required' });
       return;
     }
 
-    const counter = await CounterService.create(name);
+    const counter = await CounterService.create(name, service_types);
     res.status(201).json(counter);
   } catch (error) {
     console.error('Error creating counter:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    if (error instanceof Error && error.message === 'Invalid service types') {
+      res.status(400).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
   }
 });
 
@@ -594,6 +781,8 @@ router.put('/counters/:id', authenticateToken, requireCashierOrAdmin, logActivit
     console.error('Error updating counter:', error);
     if (error instanceof Error && error.message === 'Counter not found') {
       res.status(404).json({ error: error.message });
+    } else if (error instanceof Error && error.message === 'Invalid service types') {
+      res.status(400).json({ error: error.message });
     } else {
       res.status(500).json({ error: 'Internal server error' });
     }
@@ -697,10 +886,10 @@ router.post('/change-status', authenticateToken, requireCashierOrAdmin, logActiv
     }
 
     // Validate status is one of the valid enum values
-    const validStatuses = ['waiting', 'serving', 'processing', 'completed', 'cancelled'];
+    const validStatuses = ['waiting', 'serving', 'processing', 'completed', 'cancelled', 'on_hold'];
     if (!validStatuses.includes(status.toLowerCase())) {
       res.status(400).json({ 
-        error: 'Invalid status. Valid statuses are: waiting, serving, processing, completed, cancelled' 
+        error: 'Invalid status. Valid statuses are: waiting, serving, processing, completed, cancelled, on_hold' 
       });
       return;
     }
@@ -718,6 +907,8 @@ router.post('/change-status', authenticateToken, requireCashierOrAdmin, logActiv
     if (error instanceof Error) {
       if (error.message.includes('Invalid status transition')) {
         res.status(400).json({ error: error.message });
+      } else if (error.message === 'Hold has expired') {
+        res.status(409).json({ error: error.message });
       } else if (error.message === 'Customer not found') {
         res.status(404).json({ error: error.message });
       } else {
@@ -750,10 +941,10 @@ router.patch('/:id/status', authenticateToken, requireCashierOrAdmin, logActivit
 
     // For PATCH endpoint, we primarily support 'processing' status
     // but allow other valid statuses for flexibility
-    const validStatuses = ['waiting', 'serving', 'processing', 'completed', 'cancelled'];
+    const validStatuses = ['waiting', 'serving', 'processing', 'completed', 'cancelled', 'on_hold'];
     if (!validStatuses.includes(status.toLowerCase())) {
       res.status(400).json({ 
-        error: 'Invalid status. Valid statuses are: waiting, serving, processing, completed, cancelled',
+        error: 'Invalid status. Valid statuses are: waiting, serving, processing, completed, cancelled, on_hold',
         note: 'Clients should ignore unknown future statuses for forward compatibility'
       });
       return;
@@ -778,6 +969,8 @@ router.patch('/:id/status', authenticateToken, requireCashierOrAdmin, logActivit
     if (error instanceof Error) {
       if (error.message.includes('Invalid status transition')) {
         res.status(400).json({ error: error.message });
+      } else if (error.message === 'Hold has expired') {
+        res.status(409).json({ error: error.message });
       } else if (error.message === 'Customer not found') {
         res.status(404).json({ error: error.message });
       } else {
@@ -0,0 +1,109 @@
+import express, { Router, Response } from 'express';
+import { OrderReleaseService } from '../services/orderRelease';
+import { logActivity } from '../middleware/auth';
+import { AuthRequest, UserRole } from '../types';
+
+const router: express.Router = Router();
+
+const NOT_FOUND = ['Customer not found'];
+const CONFLICT = ['Order is already released', 'Order has an unpaid balance'];
+const BAD_CODE = [
+  'No release code is waiting; send a new one',
+  'Too many wrong codes; send a new one',
+  'Wrong release code',
+  'Customer has no contact number'
+];
+const TOO_MANY = [
+  'A release code was just sent; wait a minute before sending another',
+  'Too many release codes sent today; try again tomorrow'
+];
+
+// Map the service's errors; anything else is a 500
+const sendError = (res: Response, error: unknown): void => {
+  if (error instanceof Error && NOT_FOUND.includes(error.message)) {
+    res.status(404).json({ error: error.message });
+  } else if (error instanceof Error && CONFLICT.includes(error.message)) {
+    res.status(409).json({ error: error.message });
+  } else if (error instanceof Error && BAD_CODE.includes(error.message)) {
+    res.status(400).json({ error: error.message });
+  } else if (error instanceof Error && TOO_MANY.includes(error.message)) {
+    res.status(429).json({ error: error.message });
+  } else if (error instanceof Error && error.message === 'Failed to send the release code') {
+    res.status(502).json({ error: error.message });
+  } else {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+const parseCustomerId = (res: Response, value: string): number | null => {
+  const id = parseInt(value, 10);
+  if (isNaN(id)) {
+    res.status(400).json({ error: 'Invalid customer ID' });
+    return null;
+  }
+  return id;
+};
+
+const isAdmin = (req: AuthRequest): boolean =>
+  req.user?.role === UserRole.ADMIN || req.user?.role === UserRole.SUPER_ADMIN;
+
+// A visit's release, or what it still owes and whether a code was sent
+router.get('/:customerId', logActivity('get_order_release'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const customerId = parseCustomerId(res, req.params.customerId);
+    if (customerId === null) return;
+
+    res.json(await OrderReleaseService.getStatus(customerId));
+  } catch (error) {
+    console.error('Error getting order release:', error);
+    sendError(res, error);
+  }
+});
+
+// Text the customer a one-time code to claim their order
+router.post('/:customerId/code', logActivity('send_release_code'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const customerId = parseCustomerId(res, req.params.customerId);
+    if (customerId === null) return;
+
+    res.json(await OrderReleaseService.sendCode(customerId, req.user?.id));
+  } catch (error) {
+    console.error('Error sending release code:', error);
+    sendError(res, error);
+  }
+});
+
+// Release the order to the customer (verified by code) or their representative, with a signature
+router.post('/:customerId', logActivity('release_order'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const customerId = parseCustomerId(res, req.params.customerId);
+    if (customerId === null) return;
+
+    const validationError = OrderReleaseService.validateRelease(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    if (req.body.override_balance && !isAdmin(req)) {
+      res.status(403).json({ error: 'Only an admin can release an order with a balance' });
+      return;
+    }
+
+    const release = await OrderReleaseService.release(customerId, {
+      verification: req.body.verification,
+      code: req.body.code,
+      representative_name: req.body.representative_name,
+      signature: req.body.signature,
+      override_balance: !!req.body.override_balance,
+      override_reason: req.body.override_reason
+    }, req.user?.id);
+
+    res.status(201).json(release);
+  } catch (error) {
+    console.error('Error releasing order:', error);
+    sendError(res, error);
+  }
+});
+
+export default router;
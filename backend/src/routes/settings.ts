@@ -2,6 +2,13 @@ import express, { Router, Request, Response } from 'express';
 import { SettingsService } from '../services/settings';
 import { requireAdmin } from '../middleware/auth';
 import { ActivityService } from '../services/activity';
+import { PriorityPolicyService } from '../services/priorityPolicy';
+import { QueueSequenceService } from '../services/queueSequence';
+import { BusinessHoursService } from '../services/businessHours';
+import { AppointmentService } from '../services/appointment';
+import { JobOrderService } from '../services/jobOrder';
+import { AnnouncementService } from '../services/announcement';
+import { WebSocketService } from '../services/websocket';
 import { AuthRequest } from '../types';
 
 const router: Router = express.Router();
@@ -40,6 +47,17 @@ router.get('/public', async (req: AuthRequest, res: Response): Promise<void> =>
   }
 });
 
+// Whether walk-in registration is open right now (accessible to all authenticated users)
+router.get('/public/registration-status', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const status = await BusinessHoursService.getRegistrationStatus();
+    res.json(status);
+  } catch (error) {
+    console.error('Error fetching registration status:', error);
+    res.status(500).json({ error: 'Failed to fetch registration status' });
+  }
+});
+
 // Get specific setting
 router.get('/:key', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -212,4 +230,428 @@ router.put('/session/timeout', requireAdmin, async (req: AuthRequest, res: Respo
   }
 });
 
+// Get queue priority policy (admin only)
+router.get('/queue/priority-policy', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const policy = await SettingsService.getQueuePriorityPolicy();
+    res.json(policy);
+  } catch (error) {
+    console.error('Error fetching queue priority policy:', error);
+    res.status(500).json({ error: 'Failed to fetch queue priority policy' });
+  }
+});
+
+// Update queue priority policy (admin only)
+router.put('/queue/priority-policy', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const policy = req.body;
+
+    const validationError = PriorityPolicyService.validatePolicy(policy);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    await SettingsService.updateQueuePriorityPolicy(policy);
+
+    // Log the activity
+    await ActivityService.log({
+      user_id: req.user!.id,
+      action: 'queue_priority_policy_update',
+      details: { policy },
+      ip_address: req.ip,
+      user_agent: req.get('User-Agent')
+    });
+
+    // Queue order may have changed for every connected screen
+    WebSocketService.emitQueueUpdate({
+      type: 'priority_policy_updated',
+      timestamp: new Date()
+    });
+
+    const updatedPolicy = await SettingsService.getQueuePriorityPolicy();
+    res.json(updatedPolicy);
+  } catch (error) {
+    console.error('Error updating queue priority policy:', error);
+    res.status(500).json({ error: 'Failed to update queue priority policy' });
+  }
+});
+
+// Get no-show handling settings (admin only)
+router.get('/queue/no-show', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getNoShowSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching no-show settings:', error);
+    res.status(500).json({ error: 'Failed to fetch no-show settings' });
+  }
+});
+
+// Update no-show handling settings (admin only)
+router.put('/queue/no-show', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = req.body;
+
+    if (settings.maxMissedCalls !== undefined && (!Number.isInteger(settings.maxMissedCalls) || settings.maxMissedCalls < 0 || settings.maxMissedCalls > 10)) {
+      res.status(400).json({ error: 'Max missed calls must be a whole number between 0 and 10' });
+      return;
+    }
+
+    if (settings.skipBehindCount !== undefined && (!Number.isInteger(settings.skipBehindCount) || settings.skipBehindCount < 1 || settings.skipBehindCount > 20)) {
+      res.status(400).json({ error: 'Skip behind count must be a whole number between 1 and 20' });
+      return;
+    }
+
+    await SettingsService.updateNoShowSettings({
+      maxMissedCalls: settings.maxMissedCalls,
+      skipBehindCount: settings.skipBehindCount
+    });
+
+    // Log the activity
+    await ActivityService.log({
+      user_id: req.user!.id,
+      action: 'no_show_settings_update',
+      details: { settings },
+      ip_address: req.ip,
+      user_agent: req.get('User-Agent')
+    });
+
+    const updatedSettings = await SettingsService.getNoShowSettings();
+    res.json(updatedSettings);
+  } catch (error) {
+    console.error('Error updating no-show settings:', error);
+    res.status(500).json({ error: 'Failed to update no-show settings' });
+  }
+});
+
+// Get on-hold settings (admin only)
+router.get('/queue/hold', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getQueueHoldSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching queue hold settings:', error);
+    res.status(500).json({ error: 'Failed to fetch queue hold settings' });
+  }
+});
+
+// Update on-hold settings (admin only)
+router.put('/queue/hold', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = req.body;
+
+    if (settings.holdWindowMinutes !== undefined && (!Number.isInteger(settings.holdWindowMinutes) || settings.holdWindowMinutes < 1 || settings.holdWindowMinutes > 240)) {
+      res.status(400).json({ error: 'Hold window must be a whole number of minutes between 1 and 240' });
+      return;
+    }
+
+    await SettingsService.updateQueueHoldSettings({
+      holdWindowMinutes: settings.holdWindowMinutes
+    });
+
+    // Log the activity
+    await ActivityService.log({
+      user_id: req.user!.id,
+      action: 'queue_hold_settings_update',
+      details: { settings },
+      ip_address: req.ip,
+      user_agent: req.get('User-Agent')
+    });
+
+    const updatedSettings = await SettingsService.getQueueHoldSettings();
+    res.json(updatedSettings);
+  } catch (error) {
+    console.error('Error updating queue hold settings:', error);
+    res.status(500).json({ error: 'Failed to update queue hold settings' });
+  }
+});
+
+// Get token number format settings (admin only)
+router.get('/queue/token-format', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getTokenFormatSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching token format settings:', error);
+    res.status(500).json({ error: 'Failed to fetch token format settings' });
+  }
+});
+
+// Update token number format settings (admin only); applies to tokens issued from now on
+router.put('/queue/token-format', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = req.body;
+
+    // Prefix clashes are checked against the format as it will be saved
+    const current = await SettingsService.getTokenFormatSettings();
+    const validationError = QueueSequenceService.validateFormat({ ...current, ...settings });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    await SettingsService.updateTokenFormatSettings({
+      servicePrefixes: settings.servicePrefixes,
+      priorityPrefix: settings.priorityPrefix,
+      padding: settings.padding
+    });
+
+    // Log the activity
+    await ActivityService.log({
+      user_id: req.user!.id,
+      action: 'token_format_settings_update',
+      details: { settings },
+      ip_address: req.ip,
+      user_agent: req.get('User-Agent')
+    });
+
+    const updatedSettings = await SettingsService.getTokenFormatSettings();
+    res.json(updatedSettings);
+  } catch (error) {
+    console.error('Error updating token format settings:', error);
+    res.status(500).json({ error: 'Failed to update token format settings' });
+  }
+});
+
+// Get business hours and registration capacity settings (admin only)
+router.get('/queue/business-hours', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getBusinessHoursSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching business hours settings:', error);
+    res.status(500).json({ error: 'Failed to fetch business hours settings' });
+  }
+});
+
+// Update business hours and registration capacity settings (admin only)
+router.put('/queue/business-hours', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = req.body;
+
+    const validationError = BusinessHoursService.validateSettings(settings);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    await SettingsService.updateBusinessHoursSettings({
+      weeklyHours: settings.weeklyHours,
+      capacityCheckMode: settings.capacityCheckMode,
+      registrationCutoffMinutes: settings.registrationCutoffMinutes
+    });
+
+    // Log the activity
+    await ActivityService.log({
+      user_id: req.user!.id,
+      action: 'business_hours_settings_update',
+      details: { settings },
+      ip_address: req.ip,
+      user_agent: req.get('User-Agent')
+    });
+
+    // Displays show whether the queue is closed for today
+    WebSocketService.emitQueueUpdate({
+      type: 'business_hours_updated',
+      timestamp: new Date()
+    });
+
+    const updatedSettings = await SettingsService.getBusinessHoursSettings();
+    res.json(updatedSettings);
+  } catch (error) {
+    console.error('Error updating business hours settings:', error);
+    res.status(500).json({ error: 'Failed to update business hours settings' });
+  }
+});
+
+// Get appointment booking settings (admin only)
+router.get('/queue/appointments', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getAppointmentSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching appointment settings:', error);
+    res.status(500).json({ error: 'Failed to fetch appointment settings' });
+  }
+});
+
+// Update appointment booking settings (admin only)
+router.put('/queue/appointments', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = req.body;
+
+    const validationError = AppointmentService.validateSettings(settings);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    await SettingsService.updateAppointmentSettings({
+      slotMinutes: settings.slotMinutes,
+      appointmentsPerCounter: settings.appointmentsPerCounter,
+      noShowGraceMinutes: settings.noShowGraceMinutes
+    });
+
+    // Log the activity
+    await ActivityService.log({
+      user_id: req.user!.id,
+      action: 'appointment_settings_update',
+      details: { settings },
+      ip_address: req.ip,
+      user_agent: req.get('User-Agent')
+    });
+
+    const updatedSettings = await SettingsService.getAppointmentSettings();
+    res.json(updatedSettings);
+  } catch (error) {
+    console.error('Error updating appointment settings:', error);
+    res.status(500).json({ error: 'Failed to update appointment settings' });
+  }
+});
+
+// Get job order stages and turnaround (admin only)
+router.get('/job-orders', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getJobOrderSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching job order settings:', error);
+    res.status(500).json({ error: 'Failed to fetch job order settings' });
+  }
+});
+
+// Update job order stages and turnaround (admin only)
+router.put('/job-orders', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = req.body;
+
+    const validationError = JobOrderService.validateSettings(settings);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    // Job orders at a stage keep it, so a stage in use can't be removed
+    if (settings.stages) {
+      const keys = settings.stages.map((stage: { key: string }) => stage.key);
+      const removed = (await JobOrderService.stagesInUse()).filter((stage) => !keys.includes(stage));
+      if (removed.length > 0) {
+        res.status(409).json({ error: `Job orders are still at these stages: ${removed.join(', ')}` });
+        return;
+      }
+    }
+
+    await SettingsService.updateJobOrderSettings({
+      stages: settings.stages,
+      defaultTurnaroundDays: settings.defaultTurnaroundDays
+    });
+
+    // Log the activity
+    await ActivityService.log({
+      user_id: req.user!.id,
+      action: 'job_order_settings_update',
+      details: { settings },
+      ip_address: req.ip,
+      user_agent: req.get('User-Agent')
+    });
+
+    const updatedSettings = await SettingsService.getJobOrderSettings();
+    res.json(updatedSettings);
+  } catch (error) {
+    console.error('Error updating job order settings:', error);
+    res.status(500).json({ error: 'Failed to update job order settings' });
+  }
+});
+
+// Get display monitor access settings (admin only)
+router.get('/display/access', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getDisplayAccessSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching display access settings:', error);
+    res.status(500).json({ error: 'Failed to fetch display access settings' });
+  }
+});
+
+// Update display monitor access settings (admin only)
+router.put('/display/access', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = req.body;
+
+    if (settings.allowUnpaired !== undefined && typeof settings.allowUnpaired !== 'boolean') {
+      res.status(400).json({ error: 'allowUnpaired must be true or false' });
+      return;
+    }
+
+    await SettingsService.updateDisplayAccessSettings({
+      allowUnpaired: settings.allowUnpaired
+    });
+
+    // Log the activity
+    await ActivityService.log({
+      user_id: req.user!.id,
+      action: 'display_access_settings_update',
+      details: { settings },
+      ip_address: req.ip,
+      user_agent: req.get('User-Agent')
+    });
+
+    const updatedSettings = await SettingsService.getDisplayAccessSettings();
+    res.json(updatedSettings);
+  } catch (error) {
+    console.error('Error updating display access settings:', error);
+    res.status(500).json({ error: 'Failed to update display access settings' });
+  }
+});
+
+// Get spoken announcement settings (admin only)
+router.get('/display/announcements', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await SettingsService.getAnnouncementSettings();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching announcement settings:', error);
+    res.status(500).json({ error: 'Failed to fetch announcement settings' });
+  }
+});
+
+// Update spoken announcement settings (admin only); displays pick them up on their next refresh
+router.put('/display/announcements', requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const settings = req.body;
+
+    const validationError = AnnouncementService.validateSettings(settings);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    await SettingsService.updateAnnouncementSettings({
+      enabled: settings.enabled,
+      templates: settings.templates,
+      voices: settings.voices,
+      rate: settings.rate,
+      repeatCount: settings.repeatCount,
+      languageOrder: settings.languageOrder
+    });
+
+    // Log the activity
+    await ActivityService.log({
+      user_id: req.user!.id,
+      action: 'announcement_settings_update',
+      details: { settings },
+      ip_address: req.ip,
+      user_agent: req.get('User-Agent')
+    });
+
+    const updatedSettings = await SettingsService.getAnnouncementSettings();
+    res.json(updatedSettings);
+  } catch (error) {
+    console.error('Error updating announcement settings:', error);
+    res.status(500).json({ error: 'Failed to update announcement settings' });
+  }
+});
+
 export default router;
@@ -0,0 +1,213 @@
+import express, { Router, Response } from 'express';
+import { ShipmentService } from '../services/shipment';
+import { validateStatusDetails } from '../services/courierAdapters';
+import { requireSalesOrAdmin, logActivity } from '../middleware/auth';
+import { AuthRequest, ShipmentStatus } from '../types';
+
+const router: express.Router = Router();
+
+const NOT_FOUND = ['Shipment not found', 'Customer not found'];
+const CONFLICT = ['Reference is already used by another shipment'];
+
+// Map the service's errors; anything else is a 500
+const sendError = (res: Response, error: unknown): void => {
+  if (error instanceof Error && NOT_FOUND.includes(error.message)) {
+    res.status(404).json({ error: error.message });
+  } else if (error instanceof Error && (CONFLICT.includes(error.message) || error.message.startsWith('Shipment is already'))) {
+    res.status(409).json({ error: error.message });
+  } else if (error instanceof Error && (error.message === 'Shipment has no courier reference' || error.message.startsWith('Courier updates are not available'))) {
+    res.status(400).json({ error: error.message });
+  } else {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// An optional date from the request body: undefined when absent, null when cleared
+const parseOptionalDate = (value: unknown): Date | null | undefined | 'invalid' => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? 'invalid' : date;
+};
+
+// An optional fee: undefined when absent, 'invalid' unless a non-negative amount
+const parseFee = (value: unknown): number | undefined | 'invalid' => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const fee = Number(value);
+  return isNaN(fee) || fee < 0 ? 'invalid' : fee;
+};
+
+const parseId = (value: string): number | null => {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+};
+
+// A customer's shipments, or every shipment still on its way
+router.get('/', logActivity('list_shipments'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (req.query.customerId) {
+      const customerId = parseId(req.query.customerId as string);
+      if (customerId === null) {
+        res.status(400).json({ error: 'Invalid customer ID' });
+        return;
+      }
+      res.json(await ShipmentService.listForCustomer(customerId));
+      return;
+    }
+
+    res.json(await ShipmentService.listOpen());
+  } catch (error) {
+    console.error('Error listing shipments:', error);
+    sendError(res, error);
+  }
+});
+
+// Record a Lalamove booking or LBC waybill for a customer's order
+router.post('/', requireSalesOrAdmin, logActivity('create_shipment'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const customerId = parseInt(req.body.customer_id, 10);
+    if (isNaN(customerId)) {
+      res.status(400).json({ error: 'customer_id is required' });
+      return;
+    }
+
+    if (!ShipmentService.isCourier(req.body.courier)) {
+      res.status(400).json({ error: 'courier must be lalamove or lbc' });
+      return;
+    }
+
+    const fee = parseFee(req.body.fee);
+    if (fee === 'invalid') {
+      res.status(400).json({ error: 'Fee must be a non-negative amount' });
+      return;
+    }
+
+    const estimatedDeliveryAt = parseOptionalDate(req.body.estimated_delivery_at);
+    if (estimatedDeliveryAt === 'invalid') {
+      res.status(400).json({ error: 'Invalid estimated delivery date' });
+      return;
+    }
+
+    const shipment = await ShipmentService.create({
+      customer_id: customerId,
+      courier: req.body.courier,
+      reference: req.body.reference,
+      fee,
+      recipient_name: req.body.recipient_name,
+      delivery_address: req.body.delivery_address,
+      estimated_delivery_at: estimatedDeliveryAt
+    }, req.user?.id);
+
+    res.status(201).json(shipment);
+  } catch (error) {
+    console.error('Error creating shipment:', error);
+    sendError(res, error);
+  }
+});
+
+// A shipment with its status history
+router.get('/:id', logActivity('get_shipment'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      res.status(400).json({ error: 'Invalid shipment ID' });
+      return;
+    }
+
+    const shipment = await ShipmentService.findById(id);
+    if (!shipment) {
+      res.status(404).json({ error: 'Shipment not found' });
+      return;
+    }
+
+    res.json(shipment);
+  } catch (error) {
+    console.error('Error getting shipment:', error);
+    sendError(res, error);
+  }
+});
+
+// Correct the reference, fee, recipient or estimated delivery
+router.put('/:id', requireSalesOrAdmin, logActivity('update_shipment'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      res.status(400).json({ error: 'Invalid shipment ID' });
+      return;
+    }
+
+    const fee = parseFee(req.body.fee);
+    if (fee === 'invalid') {
+      res.status(400).json({ error: 'Fee must be a non-negative amount' });
+      return;
+    }
+
+    const estimatedDeliveryAt = parseOptionalDate(req.body.estimated_delivery_at);
+    if (estimatedDeliveryAt === 'invalid') {
+      res.status(400).json({ error: 'Invalid estimated delivery date' });
+      return;
+    }
+
+    const shipment = await ShipmentService.update(id, {
+      reference: req.body.reference,
+      fee,
+      recipient_name: req.body.recipient_name,
+      delivery_address: req.body.delivery_address,
+      estimated_delivery_at: estimatedDeliveryAt
+    });
+    res.json(shipment);
+  } catch (error) {
+    console.error('Error updating shipment:', error);
+    sendError(res, error);
+  }
+});
+
+// Set the status by hand, with proof of delivery when delivered
+router.post('/:id/status', requireSalesOrAdmin, logActivity('change_shipment_status'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      res.status(400).json({ error: 'Invalid shipment ID' });
+      return;
+    }
+
+    const { status, description, location, proof } = req.body;
+    if (!Object.values(ShipmentStatus).includes(status)) {
+      res.status(400).json({ error: `Invalid shipment status: ${status}` });
+      return;
+    }
+    const detailsError = validateStatusDetails({ description, location, proof });
+    if (detailsError) {
+      res.status(400).json({ error: detailsError });
+      return;
+    }
+    if (status === ShipmentStatus.DELIVERED && !proof?.received_by && !proof?.photo_url) {
+      res.status(400).json({ error: 'Proof of delivery needs who received it or a photo' });
+      return;
+    }
+
+    const shipment = await ShipmentService.changeStatus(id, { status, description, location, proof }, req.user?.id);
+    res.json(shipment);
+  } catch (error) {
+    console.error('Error changing shipment status:', error);
+    sendError(res, error);
+  }
+});
+
+// Ask the courier for the latest status now instead of waiting for the next poll
+router.post('/:id/refresh', logActivity('refresh_shipment'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      res.status(400).json({ error: 'Invalid shipment ID' });
+      return;
+    }
+
+    res.json(await ShipmentService.refresh(id));
+  } catch (error) {
+    console.error('Error refreshing shipment:', error);
+    sendError(res, error);
+  }
+});
+
+export default router;
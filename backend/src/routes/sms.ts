@@ -2,19 +2,27 @@ import express, { Router, Response } from 'express';
 import { authenticateToken, requireCashierOrAdmin, logActivity } from '../middleware/auth';
 import { AuthRequest } from '../types';
 import { EnhancedSMSService } from '../services/EnhancedSMSService';
+import { QueueService } from '../services/queue';
 
 const router: express.Router = Router();
 
 // Send SMS notification to customer
 router.post('/send', authenticateToken, requireCashierOrAdmin, logActivity('send_sms'), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { customerId, customerName, tokenNumber, phoneNumber, notificationType = 'queue_position' } = req.body;
+    const { customerName, tokenNumber, phoneNumber, notificationType = 'queue_position' } = req.body;
 
-    if (!customerId || !customerName || !phoneNumber) {
+    if (!req.body.customerId || !customerName || !phoneNumber) {
       res.status(400).json({ error: 'Customer ID, name, and phone number are required' });
       return;
     }
 
+    // JSON clients may send the id as a string; services expect the numeric id
+    const customerId = Number(req.body.customerId);
+    if (!Number.isInteger(customerId) || customerId <= 0) {
+      res.status(400).json({ error: 'Invalid customer ID' });
+      return;
+    }
+
     let notification;
 
     switch (notificationType) {
@@ -29,16 +37,24 @@ router.post('/send', authenticateToken, requireCashierOrAdmin, logActivity('send
         break;
       
       case 'queue_position':
-        // Get current queue position for the customer
-        const position = await getCustomerQueuePosition(customerId);
-        const estimatedWait = position * 15; // 15 minutes average per customer
+        // Get current queue position and wait estimate for the customer
+        const [position, estimate] = await Promise.all([
+          QueueService.getPosition(customerId),
+          QueueService.getEstimatedWaitTime(customerId)
+        ]);
+
+        if (!position || !estimate) {
+          res.status(400).json({ error: 'Customer is not waiting in the queue' });
+          return;
+        }
         
         notification = await EnhancedSMSService.sendQueuePositionUpdate(
           customerId,
           phoneNumber,
           customerName,
           position,
-          estimatedWait
+          estimate.minutes,
+          { low: estimate.low, high: estimate.high }
         );
         break;
       
@@ -128,36 +144,4 @@ router.get('/templates', authenticateToken, logActivity('get_sms_templates'), as
   }
 });
 
-// Helper function to get customer queue position
-async function getCustomerQueuePosition(customerId: number): Promise<number> {
-  const { pool } = require('../config/database');
-  
-  const query = `
-    WITH queue_positions AS (
-      SELECT 
-        id,
-        ROW_NUMBER() OVER (ORDER BY 
-          CASE 
-            WHEN manual_position IS NOT NULL THEN manual_position
-            ELSE
-              CASE 
-                WHEN priority_flags::json->>'senior_citizen' = 'true' THEN 1000
-                WHEN priority_flags::json->>'pwd' = 'true' THEN 900
-                WHEN priority_flags::json->>'pregnant' = 'true' THEN 800
-                ELSE 0
-              END * 100000 + EXTRACT(EPOCH FROM created_at)
-          END ASC
-        ) as position
-      FROM customers
-      WHERE queue_status = 'waiting'
-    )
-    SELECT position
-    FROM queue_positions
-    WHERE id = $1
-  `;
-  
-  const result = await pool.query(query, [customerId]);
-  return result.rows[0]?.position || 1;
-}
-
 export default router;
@@ -0,0 +1,54 @@
+import express, { Router, Request, Response } from 'express';
+import { TrackingService } from '../services/tracking';
+
+const router: express.Router = Router();
+
+// Public routes: the signed token in the path is the only credential
+
+// Queue status for the customer the link was issued to
+router.get('/:token', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const link = TrackingService.verifyToken(req.params.token);
+    if (!link) {
+      res.status(404).json({ error: 'This tracking link is invalid or has expired' });
+      return;
+    }
+
+    const status = await TrackingService.getStatus(link);
+    res.json(status);
+  } catch (error) {
+    console.error('Error getting tracking status:', error);
+    if (error instanceof Error && error.message === 'Customer not found') {
+      res.status(404).json({ error: 'This tracking link is invalid or has expired' });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// "I'm back": the customer takes themselves off hold
+router.post('/:token/reactivate', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const link = TrackingService.verifyToken(req.params.token);
+    if (!link) {
+      res.status(404).json({ error: 'This tracking link is invalid or has expired' });
+      return;
+    }
+
+    const status = await TrackingService.reactivate(link);
+    res.json(status);
+  } catch (error) {
+    console.error('Error reactivating from tracking link:', error);
+    if (error instanceof Error && error.message === 'Customer not found') {
+      res.status(404).json({ error: 'This tracking link is invalid or has expired' });
+    } else if (error instanceof Error && error.message === 'Customer is not on hold') {
+      res.status(409).json({ error: 'You are not on hold' });
+    } else if (error instanceof Error && error.message === 'Hold has expired') {
+      res.status(409).json({ error: 'Your hold has expired. Please ask our staff for help.' });
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { pool } from '../config/database';
 import { QueueAnalyticsService } from './QueueAnalyticsService';
 import { ActivityService } from './activity';
+import { QueueSequenceService } from './queueSequence';
 
 export interface DailyQueueSnapshot {
   date: string;
@@ -271,7 +272,7 @@ export class DailyQueueResetService {
         reset_at = CURRENT_TIMESTAMP,
         served_at = CURRENT_TIMESTAMP
       WHERE DATE(created_at) < $1 
-      AND queue_status IN ('waiting', 'serving', 'processing')
+      AND queue_status IN ('waiting', 'serving', 'processing', 'on_hold')
     `, [today]);
     
     // Second: Reset today's incomplete customers (if any) to waiting status
@@ -283,12 +284,16 @@ export class DailyQueueResetService {
           WHEN queue_status = 'waiting' THEN 'waiting'
           WHEN queue_status = 'serving' THEN 'waiting'  -- Reset serving to waiting
           WHEN queue_status = 'processing' THEN 'waiting'  -- Reset processing to waiting
+          WHEN queue_status = 'on_hold' THEN 'waiting'  -- Holds do not survive the reset
           ELSE queue_status  -- Keep completed/cancelled as-is
         END,
+        held_at = NULL,
+        hold_expires_at = NULL,
+        stage_entered_at = NULL,
         carried_forward = true,
         reset_at = CURRENT_TIMESTAMP
       WHERE DATE(created_at) = $1 
-      AND queue_status IN ('waiting', 'serving', 'processing')
+      AND queue_status IN ('waiting', 'serving', 'processing', 'on_hold')
     `, [today]);
     
     // Reset counter assignments
@@ -312,6 +317,9 @@ export class DailyQueueResetService {
       SET value = '1' 
       WHERE key = 'daily_token_counter'
     `);
+
+    // Restart the token and OR number sequences of every lane
+    await QueueSequenceService.resetDailySequences(client);
     
     // Reset daily statistics counters
     await client.query(`
@@ -322,7 +330,7 @@ export class DailyQueueResetService {
       SELECT 
         CURRENT_DATE,
         COUNT(*) FILTER (WHERE queue_status IN ('completed', 'cancelled')),
-        COUNT(*) FILTER (WHERE queue_status IN ('waiting', 'serving', 'processing')),
+        COUNT(*) FILTER (WHERE queue_status IN ('waiting', 'serving', 'processing', 'on_hold')),
         CURRENT_TIMESTAMP
       FROM customers 
       WHERE DATE(created_at) = CURRENT_DATE
@@ -2,6 +2,9 @@ import * as cron from 'node-cron';
 import moment from 'moment-timezone';
 import { DailyQueueResetService } from './DailyQueueResetService';
 import { ActivityService } from './activity';
+import { QueueService } from './queue';
+import { AppointmentService } from './appointment';
+import { ShipmentService } from './shipment';
 
 /**
  * Scheduler service for daily queue reset operations
@@ -26,6 +29,15 @@ export class DailyQueueScheduler {
     
     // Schedule cleanup task for old history data
     this.scheduleHistoryCleanup();
+
+    // Schedule expiry of lapsed on-hold customers
+    this.scheduleHoldExpiry();
+
+    // Schedule no-show marking of missed appointments
+    this.scheduleAppointmentNoShows();
+
+    // Schedule polling of couriers for open shipments
+    this.scheduleShipmentPolling();
     
     console.log('✅ Daily Queue Reset Scheduler initialized successfully');
     console.log(`📍 Next reset scheduled for: ${this.getNextResetTime()}`);
@@ -60,6 +72,66 @@ export class DailyQueueScheduler {
     console.log('🧹 Weekly history cleanup scheduled for Sunday 2 AM Philippine Time');
   }
 
+  /**
+   * Cancel on-hold customers whose reactivation window has passed, every minute
+   */
+  private static scheduleHoldExpiry(): void {
+    cron.schedule('* * * * *', async () => {
+      try {
+        const expired = await QueueService.expireHolds();
+        if (expired > 0) {
+          console.log(`⏳ Cancelled ${expired} expired on-hold customer(s)`);
+        }
+      } catch (error) {
+        console.error('❌ On-hold expiry failed:', error);
+      }
+    }, {
+      timezone: "Asia/Manila"
+    });
+
+    console.log('⏳ On-hold expiry check scheduled every minute');
+  }
+
+  /**
+   * Mark booked appointments past their grace period as no-shows, every minute
+   */
+  private static scheduleAppointmentNoShows(): void {
+    cron.schedule('* * * * *', async () => {
+      try {
+        const missed = await AppointmentService.markNoShows();
+        if (missed > 0) {
+          console.log(`📅 Marked ${missed} missed appointment(s) as no-show`);
+        }
+      } catch (error) {
+        console.error('❌ Appointment no-show check failed:', error);
+      }
+    }, {
+      timezone: "Asia/Manila"
+    });
+
+    console.log('📅 Appointment no-show check scheduled every minute');
+  }
+
+  /**
+   * Ask the couriers with an adapter for the status of open shipments, every 10 minutes
+   */
+  private static scheduleShipmentPolling(): void {
+    cron.schedule('*/10 * * * *', async () => {
+      try {
+        const changed = await ShipmentService.pollOpenShipments();
+        if (changed > 0) {
+          console.log(`🚚 Updated the status of ${changed} shipment(s) from the couriers`);
+        }
+      } catch (error) {
+        console.error('❌ Shipment polling failed:', error);
+      }
+    }, {
+      timezone: "Asia/Manila"
+    });
+
+    console.log('🚚 Shipment polling scheduled every 10 minutes');
+  }
+
   /**
    * Execute the daily reset process with error handling and recovery
    */
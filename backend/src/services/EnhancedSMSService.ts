@@ -1,11 +1,13 @@
 import { pool } from '../config/database';
+import { WaitTimeRange } from '../types';
+import { TrackingService } from './tracking';
 
 export interface SMSNotification {
   id?: number;
   customerId: number;
   phoneNumber: string;
   message: string;
-  notificationType: 'queue_position' | 'ready_to_serve' | 'delay_notification' | 'customer_ready' | 'pickup_reminder' | 'delivery_ready';
+  notificationType: 'queue_position' | 'ready_to_serve' | 'delay_notification' | 'customer_ready' | 'pickup_reminder' | 'delivery_ready' | 'release_code';
   status: 'pending' | 'sent' | 'delivered' | 'failed';
   deliveryStatus?: string;
   queuePosition?: number;
@@ -42,13 +44,16 @@ export class EnhancedSMSService {
     phoneNumber: string,
     customerName: string,
     queuePosition: number,
-    estimatedWaitMinutes: number
+    estimatedWaitMinutes: number,
+    estimatedWaitRange?: WaitTimeRange
   ): Promise<SMSNotification> {
     const template = await this.getTemplate('queue_position');
     const message = this.replaceVariables(template.templateContent, {
       CustomerName: customerName,
       QueuePosition: queuePosition.toString(),
-      EstimatedWait: estimatedWaitMinutes.toString()
+      EstimatedWait: estimatedWaitMinutes.toString(),
+      ...this.waitRangeVariables(estimatedWaitMinutes, estimatedWaitRange),
+      TrackingUrl: TrackingService.getTrackingUrl(customerId)
     });
 
     const notification: SMSNotification = {
@@ -78,7 +83,8 @@ export class EnhancedSMSService {
     const message = this.replaceVariables(template.templateContent, {
       CustomerName: customerName,
       TokenNumber: tokenNumber,
-      CounterName: counterName
+      CounterName: counterName,
+      TrackingUrl: TrackingService.getTrackingUrl(customerId)
     });
 
     const notification: SMSNotification = {
@@ -104,7 +110,8 @@ export class EnhancedSMSService {
     const template = await this.getTemplate('delay_notification');
     const message = this.replaceVariables(template.templateContent, {
       CustomerName: customerName,
-      EstimatedWait: newEstimatedWait.toString()
+      EstimatedWait: newEstimatedWait.toString(),
+      TrackingUrl: TrackingService.getTrackingUrl(customerId)
     });
 
     const notification: SMSNotification = {
@@ -199,6 +206,36 @@ export class EnhancedSMSService {
     return await this.saveAndSendNotification(notification);
   }
 
+  /**
+   * Send the one-time code the customer shows at the counter to claim their order
+   */
+  static async sendReleaseCodeNotification(
+    customerId: number,
+    phoneNumber: string,
+    customerName: string,
+    orderNumber: string,
+    code: string,
+    expiresMinutes: number
+  ): Promise<SMSNotification> {
+    const template = await this.getTemplate('release_code');
+    const message = this.replaceVariables(template.templateContent, {
+      CustomerName: customerName,
+      OrderNumber: orderNumber,
+      Code: code,
+      ExpiresMinutes: expiresMinutes.toString()
+    });
+
+    const notification: SMSNotification = {
+      customerId,
+      phoneNumber,
+      message,
+      notificationType: 'release_code',
+      status: 'pending'
+    };
+
+    return await this.saveAndSendNotification(notification);
+  }
+
   /**
    * Send bulk queue position updates to all waiting customers
    */
@@ -208,6 +245,7 @@ export class EnhancedSMSService {
     customerName: string;
     queuePosition: number;
     estimatedWait: number;
+    estimatedWaitRange?: WaitTimeRange;
   }>): Promise<SMSNotification[]> {
     const template = await this.getTemplate('queue_position');
     const notifications: SMSNotification[] = [];
@@ -216,7 +254,9 @@ export class EnhancedSMSService {
       const message = this.replaceVariables(template.templateContent, {
         CustomerName: customer.customerName,
         QueuePosition: customer.queuePosition.toString(),
-        EstimatedWait: customer.estimatedWait.toString()
+        EstimatedWait: customer.estimatedWait.toString(),
+        ...this.waitRangeVariables(customer.estimatedWait, customer.estimatedWaitRange),
+        TrackingUrl: TrackingService.getTrackingUrl(customer.customerId)
       });
 
       const notification: SMSNotification = {
@@ -493,14 +533,31 @@ export class EnhancedSMSService {
   }
 
   /**
-   * Replace variables in template with actual values
+   * Template variables for the wait estimate range ([EstimatedWaitLow], [EstimatedWaitHigh], [EstimatedWaitRange]);
+   * without a range they collapse to the single estimate
+   */
+  private static waitRangeVariables(estimatedWaitMinutes: number, range?: WaitTimeRange): Record<string, string> {
+    const low = range ? range.low : estimatedWaitMinutes;
+    const high = range ? range.high : estimatedWaitMinutes;
+    return {
+      EstimatedWaitLow: low.toString(),
+      EstimatedWaitHigh: high.toString(),
+      EstimatedWaitRange: low === high ? low.toString() : `${low}-${high}`
+    };
+  }
+
+  /**
+   * Replace variables in template with actual values. Each variable can be written as
+   * [TrackingUrl] or in snake case as {tracking_url}.
    */
   private static replaceVariables(template: string, variables: Record<string, string>): string {
     let message = template;
     
     for (const [key, value] of Object.entries(variables)) {
-      const placeholder = `[${key}]`;
-      message = message.replace(new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), value);
+      const snakeCase = key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+      for (const placeholder of [`[${key}]`, `{${snakeCase}}`]) {
+        message = message.replace(new RegExp(placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), value);
+      }
     }
 
     return message;
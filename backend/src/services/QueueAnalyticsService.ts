@@ -1,5 +1,19 @@
 import { pool } from '../config/database';
 
+// Pairs each stage-ending event `qe` (served or transferred) with the call that started that
+// stage, so customers who went through several counters or stages are timed once per stage
+const CALL_FOR_STAGE_END = `
+  JOIN LATERAL (
+    SELECT called.created_at, called.wait_time_minutes
+    FROM queue_events called
+    WHERE called.customer_id = qe.customer_id
+      AND called.event_type = 'called'
+      AND called.created_at <= qe.created_at
+    ORDER BY called.created_at DESC
+    LIMIT 1
+  ) called ON true
+`;
+
 export interface QueueMetrics {
   date: string;
   hour: number;
@@ -33,13 +47,14 @@ export interface DailyQueueSummary {
 
 export interface QueueEvent {
   customerId: number;
-  eventType: 'joined' | 'called' | 'served' | 'left' | 'cancelled';
+  eventType: 'joined' | 'called' | 'served' | 'left' | 'cancelled' | 'recalled' | 'skipped' | 'transferred';
   counterId?: number;
   queuePosition?: number;
   waitTimeMinutes?: number;
   serviceTimeMinutes?: number;
   isPriority: boolean;
   reason?: string;
+  stage?: string;
 }
 
 export interface AnalyticsDashboard {
@@ -49,6 +64,44 @@ export interface AnalyticsDashboard {
   peakHours: { hour: number; avgCustomers: number }[];
   counterPerformance: { counterId: number; name: string; customersServed: number; avgServiceTime: number }[];
   waitTimeDistribution: { range: string; count: number }[];
+  noShows: NoShowStats;
+  stageDurations: StageDuration[];
+  appointments: AppointmentStats;
+}
+
+export interface NoShowStats {
+  recalls: number;
+  skips: number;
+  noShows: number;
+}
+
+export interface AppointmentStats {
+  booked: number; // every appointment with a slot in the range, whatever happened to it
+  checkedIn: number;
+  cancelled: number;
+  noShows: number;
+  noShowRate: number; // percent of appointments that were due (checked in or no-show) but missed
+}
+
+export interface StageDuration {
+  stage: string;
+  visits: number;
+  transfersOut: number;
+  avgWaitTimeMinutes: number;
+  avgServiceTimeMinutes: number;
+}
+
+/**
+ * Service duration statistics for one stage and hour of day.
+ * A null stage or hour means the row aggregates over all of them.
+ */
+export interface ServiceTimeSample {
+  stage: string | null;
+  hour: number | null;
+  samples: number;
+  avgMinutes: number;
+  p25Minutes: number;
+  p75Minutes: number;
 }
 
 export class QueueAnalyticsService {
@@ -61,8 +114,8 @@ export class QueueAnalyticsService {
       const query = `
         INSERT INTO queue_events (
           customer_id, event_type, counter_id, queue_position,
-          wait_time_minutes, service_time_minutes, is_priority
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          wait_time_minutes, service_time_minutes, is_priority, reason, stage
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       `;
       
       await pool.query(query, [
@@ -72,7 +125,9 @@ export class QueueAnalyticsService {
         event.queuePosition,
         event.waitTimeMinutes,
         event.serviceTimeMinutes,
-        event.isPriority ? 1 : 0
+        event.isPriority ? 1 : 0,
+        event.reason || null,
+        event.stage || null
       ]);
       
       // Skip complex analytics updates for now
@@ -300,11 +355,10 @@ export class QueueAnalyticsService {
         WITH service_times AS (
           SELECT 
             qe.customer_id,
-            EXTRACT(EPOCH FROM (served.created_at - called.created_at)) / 60 as service_time_minutes
+            EXTRACT(EPOCH FROM (qe.created_at - called.created_at)) / 60 as service_time_minutes
           FROM queue_events qe
-          JOIN queue_events called ON called.customer_id = qe.customer_id AND called.event_type = 'called'
-          JOIN queue_events served ON served.customer_id = qe.customer_id AND served.event_type = 'served'
-          WHERE qe.event_type = 'served'
+          ${CALL_FOR_STAGE_END}
+          WHERE qe.event_type IN ('served', 'transferred')
           AND DATE(qe.created_at) = $1
         )
         SELECT 
@@ -321,6 +375,7 @@ export class QueueAnalyticsService {
           ), 0) as avg_service_time,
           AVG(CASE WHEN queue_status IN ('waiting', 'serving', 'completed') THEN 
                 EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - created_at)) / 60 
+                - queue_paused_minutes(created_at, LOCALTIMESTAMP)
               END) as avg_wait_time,
           EXTRACT(HOUR FROM MAX(created_at)) as peak_hour,
           MAX(token_number) as max_token
@@ -396,16 +451,16 @@ export class QueueAnalyticsService {
     `;
     const peakHoursResult = await pool.query(peakHoursQuery, [startDate, endDate]);
 
-    // Get counter performance from queue events
+    // Get counter performance from queue events; a customer transferred away still counts for
+    // the counter that served them up to the transfer
     const counterQuery = `
       WITH counter_service_times AS (
         SELECT 
           qe.counter_id,
-          EXTRACT(EPOCH FROM (served.created_at - called.created_at)) / 60 as service_time_minutes
+          EXTRACT(EPOCH FROM (qe.created_at - called.created_at)) / 60 as service_time_minutes
         FROM queue_events qe
-        JOIN queue_events called ON called.customer_id = qe.customer_id AND called.event_type = 'called'
-        JOIN queue_events served ON served.customer_id = qe.customer_id AND served.event_type = 'served'
-        WHERE qe.event_type = 'served'
+        ${CALL_FOR_STAGE_END}
+        WHERE qe.event_type IN ('served', 'transferred')
         AND DATE(qe.created_at) BETWEEN $1 AND $2
         AND qe.counter_id IS NOT NULL
       )
@@ -422,21 +477,27 @@ export class QueueAnalyticsService {
     `;
     const counterResult = await pool.query(counterQuery, [startDate, endDate]);
 
-    // Get wait time distribution from customers table
+    // Get wait time distribution from customers table, leaving out time the queue was paused
     const waitTimeQuery = `
-      WITH wait_time_ranges AS (
+      WITH waits AS (
+        SELECT 
+          EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - created_at)) / 60
+            - queue_paused_minutes(created_at, LOCALTIMESTAMP) as minutes
+        FROM customers
+        WHERE DATE(created_at) BETWEEN $1 AND $2
+        AND queue_status IN ('waiting', 'serving', 'completed')
+      ),
+      wait_time_ranges AS (
         SELECT 
           CASE 
-            WHEN EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - created_at)) / 60 < 5 THEN '0-5 min'
-            WHEN EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - created_at)) / 60 < 10 THEN '5-10 min'
-            WHEN EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - created_at)) / 60 < 15 THEN '10-15 min'
-            WHEN EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - created_at)) / 60 < 30 THEN '15-30 min'
+            WHEN minutes < 5 THEN '0-5 min'
+            WHEN minutes < 10 THEN '5-10 min'
+            WHEN minutes < 15 THEN '10-15 min'
+            WHEN minutes < 30 THEN '15-30 min'
             ELSE '30+ min'
           END as range,
           COUNT(*) as count
-        FROM customers
-        WHERE DATE(created_at) BETWEEN $1 AND $2
-        AND queue_status IN ('waiting', 'serving', 'completed')
+        FROM waits
         GROUP BY range
       )
       SELECT range, count FROM wait_time_ranges
@@ -451,13 +512,160 @@ export class QueueAnalyticsService {
     `;
     const waitTimeResult = await pool.query(waitTimeQuery, [startDate, endDate]);
 
+    const noShows = await this.getNoShowStats(startDate, endDate);
+    const stageDurations = await this.getStageDurations(startDate, endDate);
+    const appointments = await this.getAppointmentStats(startDate, endDate);
+
     return {
       today: todaySummary,
       hourlyTrend: hourlyResult.rows,
       weeklyComparison: weeklyResult.rows,
       peakHours: peakHoursResult.rows,
       counterPerformance: counterResult.rows,
-      waitTimeDistribution: waitTimeResult.rows
+      waitTimeDistribution: waitTimeResult.rows,
+      noShows,
+      stageDurations,
+      appointments
+    };
+  }
+
+  /**
+   * Average wait and service time per stage (service type) for a date range.
+   * Each call-to-served or call-to-transferred span counts as one visit to that stage.
+   */
+  static async getStageDurations(startDate: string, endDate: string): Promise<StageDuration[]> {
+    const query = `
+      SELECT 
+        COALESCE(qe.stage, 'unknown') as stage,
+        COUNT(*) as visits,
+        COUNT(*) FILTER (WHERE qe.event_type = 'transferred') as transfers_out,
+        AVG(called.wait_time_minutes) as avg_wait_time,
+        AVG(EXTRACT(EPOCH FROM (qe.created_at - called.created_at)) / 60) as avg_service_time
+      FROM queue_events qe
+      ${CALL_FOR_STAGE_END}
+      WHERE qe.event_type IN ('served', 'transferred')
+      AND DATE(qe.created_at) BETWEEN $1 AND $2
+      GROUP BY COALESCE(qe.stage, 'unknown')
+      ORDER BY visits DESC
+    `;
+    const result = await pool.query(query, [startDate, endDate]);
+
+    return result.rows.map((row: any) => ({
+      stage: row.stage,
+      visits: parseInt(row.visits) || 0,
+      transfersOut: parseInt(row.transfers_out) || 0,
+      avgWaitTimeMinutes: parseFloat(row.avg_wait_time) || 0,
+      avgServiceTimeMinutes: parseFloat(row.avg_service_time) || 0
+    }));
+  }
+
+  /**
+   * Recent service durations grouped by stage and hour of day (when the customer was called),
+   * with per-stage and overall rollups. Durations outside 0-240 minutes are treated as noise.
+   */
+  static async getServiceTimeSamples(lookbackDays: number): Promise<ServiceTimeSample[]> {
+    const query = `
+      WITH durations AS (
+        SELECT 
+          COALESCE(qe.stage, 'unknown') as stage,
+          EXTRACT(HOUR FROM called.created_at)::int as hour,
+          EXTRACT(EPOCH FROM (qe.created_at - called.created_at)) / 60 as minutes
+        FROM queue_events qe
+        ${CALL_FOR_STAGE_END}
+        WHERE qe.event_type IN ('served', 'transferred')
+        AND qe.created_at >= CURRENT_DATE - $1::int
+      )
+      SELECT 
+        stage,
+        hour,
+        GROUPING(stage) as all_stages,
+        GROUPING(hour) as all_hours,
+        COUNT(*) as samples,
+        AVG(minutes) as avg_minutes,
+        percentile_cont(0.25) WITHIN GROUP (ORDER BY minutes) as p25_minutes,
+        percentile_cont(0.75) WITHIN GROUP (ORDER BY minutes) as p75_minutes
+      FROM durations
+      WHERE minutes > 0 AND minutes < 240
+      GROUP BY GROUPING SETS ((stage, hour), (stage), ())
+    `;
+    const result = await pool.query(query, [lookbackDays]);
+
+    return result.rows
+      .filter((row: any) => parseInt(row.samples) > 0)
+      .map((row: any) => ({
+        stage: parseInt(row.all_stages) ? null : row.stage,
+        hour: parseInt(row.all_hours) ? null : parseInt(row.hour),
+        samples: parseInt(row.samples) || 0,
+        avgMinutes: parseFloat(row.avg_minutes) || 0,
+        p25Minutes: parseFloat(row.p25_minutes) || 0,
+        p75Minutes: parseFloat(row.p75_minutes) || 0
+      }));
+  }
+
+  /**
+   * Average service time over recent daily summaries, or null when none were recorded
+   */
+  static async getSummaryServiceTime(lookbackDays: number): Promise<number | null> {
+    const query = `
+      SELECT AVG(avg_service_time_minutes) as avg_service_time
+      FROM daily_queue_summary 
+      WHERE date >= CURRENT_DATE - $1::int
+      AND avg_service_time_minutes > 0
+    `;
+    const result = await pool.query(query, [lookbackDays]);
+    const average = parseFloat(result.rows[0]?.avg_service_time);
+
+    return isNaN(average) ? null : average;
+  }
+
+  /**
+   * Count recalls, skips and no-show cancellations for a date range
+   */
+  static async getNoShowStats(startDate: string, endDate: string): Promise<NoShowStats> {
+    const query = `
+      SELECT 
+        COUNT(*) FILTER (WHERE event_type = 'recalled') as recalls,
+        COUNT(*) FILTER (WHERE event_type = 'skipped') as skips,
+        COUNT(*) FILTER (WHERE event_type = 'cancelled' AND reason = 'no_show') as no_shows
+      FROM queue_events
+      WHERE DATE(created_at) BETWEEN $1 AND $2
+    `;
+    const result = await pool.query(query, [startDate, endDate]);
+    const row = result.rows[0] || {};
+
+    return {
+      recalls: parseInt(row.recalls) || 0,
+      skips: parseInt(row.skips) || 0,
+      noShows: parseInt(row.no_shows) || 0
+    };
+  }
+
+  /**
+   * Appointment outcomes for slots in a date range
+   */
+  static async getAppointmentStats(startDate: string, endDate: string): Promise<AppointmentStats> {
+    const query = `
+      SELECT 
+        COUNT(*) as booked,
+        COUNT(*) FILTER (WHERE status = 'checked_in') as checked_in,
+        COUNT(*) FILTER (WHERE status = 'cancelled') as cancelled,
+        COUNT(*) FILTER (WHERE status = 'no_show') as no_shows
+      FROM appointments
+      WHERE DATE(slot_start) BETWEEN $1 AND $2
+    `;
+    const result = await pool.query(query, [startDate, endDate]);
+    const row = result.rows[0] || {};
+
+    const checkedIn = parseInt(row.checked_in) || 0;
+    const noShows = parseInt(row.no_shows) || 0;
+    const due = checkedIn + noShows;
+
+    return {
+      booked: parseInt(row.booked) || 0,
+      checkedIn,
+      cancelled: parseInt(row.cancelled) || 0,
+      noShows,
+      noShowRate: due > 0 ? Math.round((noShows / due) * 1000) / 10 : 0
     };
   }
 
@@ -1,6 +1,6 @@
 import { DetailedExportService } from '../detailedExport';
 import { CustomerService } from '../customer';
-import { DistributionType, PaymentMode, QueueStatus } from '../../types';
+import { DistributionType, PaymentMode, QueueStatus, ServiceType } from '../../types';
 
 // Mock CustomerService
 jest.mock('../customer');
@@ -19,11 +19,8 @@ describe('DetailedExportService', () => {
     sales_agent_name: 'Agent Smith',
     doctor_assigned: 'Dr. Johnson',
     prescription: {
-      od: '-2.00',
-      os: '-1.50',
-      ou: 'N/A',
-      pd: '32',
-      add: '+1.00'
+      od: { sphere: -2, add: 1, pd: 32 },
+      os: { sphere: -1.5, add: 1, pd: 32 }
     },
     grade_type: 'Progressive',
     lens_type: 'Anti-reflective',
@@ -35,6 +32,7 @@ describe('DetailedExportService', () => {
     or_number: 'OR-2024-001',
     queue_status: QueueStatus.WAITING,
     token_number: 101,
+    service_type: ServiceType.EYE_EXAM,
     priority_flags: {
       senior_citizen: false,
       pregnant: false,
@@ -0,0 +1,69 @@
+import { AnnouncementLanguage, AnnouncementSettings } from './settings';
+
+const LANGUAGES: AnnouncementLanguage[] = ['en', 'fil'];
+const MAX_TEMPLATE_LENGTH = 200;
+const MAX_VOICE_LENGTH = 100;
+
+const isLanguageRecord = (value: unknown): value is Record<AnnouncementLanguage, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  Object.keys(value).every(key => LANGUAGES.includes(key as AnnouncementLanguage)) &&
+  LANGUAGES.every(language => language in value);
+
+/**
+ * Spoken token announcements.
+ *
+ * The displays do the speaking with the browser's speech synthesis: when a counter calls a
+ * token (or recalls it) each language in `languageOrder` is spoken from its template,
+ * `repeatCount` times. Only the settings live on the server.
+ */
+export class AnnouncementService {
+  /**
+   * Validate a (partial) announcement settings update
+   * @returns an error message, or null if the settings are acceptable
+   */
+  static validateSettings(settings: Partial<AnnouncementSettings>): string | null {
+    for (const [key, value] of Object.entries(settings)) {
+      switch (key) {
+        case 'enabled':
+          if (typeof value !== 'boolean') return 'enabled must be true or false';
+          break;
+        case 'templates':
+          if (!isLanguageRecord(value)) return 'templates must have an en and a fil template';
+          for (const language of LANGUAGES) {
+            const template = value[language];
+            if (typeof template !== 'string' || !template.trim() || template.length > MAX_TEMPLATE_LENGTH) {
+              return `The ${language} template is required and must be ${MAX_TEMPLATE_LENGTH} characters or less`;
+            }
+            if (!template.includes('{token}')) {
+              return `The ${language} template must include {token}`;
+            }
+          }
+          break;
+        case 'voices':
+          if (!isLanguageRecord(value) ||
+              !LANGUAGES.every(language => typeof value[language] === 'string' && (value[language] as string).length <= MAX_VOICE_LENGTH)) {
+            return 'voices must have an en and a fil voice name (empty for the default voice)';
+          }
+          break;
+        case 'rate':
+          if (typeof value !== 'number' || value < 0.5 || value > 2) return 'rate must be between 0.5 and 2';
+          break;
+        case 'repeatCount':
+          if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 3) {
+            return 'repeatCount must be 1, 2 or 3';
+          }
+          break;
+        case 'languageOrder':
+          if (!Array.isArray(value) || value.length === 0 ||
+              !value.every(language => LANGUAGES.includes(language)) ||
+              new Set(value).size !== value.length) {
+            return 'languageOrder must list en and/or fil, each at most once';
+          }
+          break;
+        default:
+          return `Unknown announcement setting: ${key}`;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,333 @@
+import moment from 'moment-timezone';
+import { pool } from '../config/database';
+import { Appointment, AppointmentSlot, AppointmentStatus, ServiceType } from '../types';
+import { SettingsService, AppointmentSettings } from './settings';
+import { BusinessHoursService } from './businessHours';
+import { WebSocketService } from './websocket';
+
+const TIMEZONE = 'Asia/Manila';
+
+// Appointments that still hold their slot
+const ACTIVE_STATUSES = [AppointmentStatus.BOOKED, AppointmentStatus.CHECKED_IN];
+
+const SETTING_LIMITS: { [key in keyof AppointmentSettings]: { min: number; max: number } } = {
+  slotMinutes: { min: 5, max: 240 },
+  appointmentsPerCounter: { min: 1, max: 20 },
+  noShowGraceMinutes: { min: 0, max: 240 }
+};
+
+const APPOINTMENT_COLUMNS = `
+  a.*, u.full_name as booked_by_name
+`;
+
+export interface BookAppointmentData {
+  customer_name: string;
+  contact_number?: string | null;
+  email?: string | null;
+  service_type: ServiceType;
+  doctor_name?: string | null;
+  slot_start: Date;
+  notes?: string | null;
+}
+
+/**
+ * Appointment booking.
+ *
+ * Slots run from opening to closing time in steps of `slotMinutes`, and each slot takes
+ * `appointmentsPerCounter` bookings per active counter handling the service type. A doctor
+ * can hold one appointment per slot. Checking in registers the customer like a walk-in (see
+ * CustomerService.create), after which the priority policy calls them around their slot time.
+ * Booked appointments not checked in `noShowGraceMinutes` after their slot are no-shows.
+ */
+export class AppointmentService {
+  static async getSettings(): Promise<AppointmentSettings> {
+    try {
+      return await SettingsService.getAppointmentSettings();
+    } catch (error) {
+      console.error('Failed to load appointment settings, using defaults:', error);
+      return {
+        slotMinutes: 15,
+        appointmentsPerCounter: 1,
+        noShowGraceMinutes: 15
+      };
+    }
+  }
+
+  /**
+   * Validate a (partial) appointment settings update
+   * @returns an error message, or null if the settings are acceptable
+   */
+  static validateSettings(settings: Partial<AppointmentSettings>): string | null {
+    for (const [key, value] of Object.entries(settings)) {
+      const limits = SETTING_LIMITS[key as keyof AppointmentSettings];
+      if (!limits) {
+        return `Unknown appointment setting: ${key}`;
+      }
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return `${key} must be a whole number`;
+      }
+      if (value < limits.min || value > limits.max) {
+        return `${key} must be between ${limits.min} and ${limits.max}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Bookable slots on a date (YYYY-MM-DD, shop time) for a service type. Slots that have
+   * started are left out; with a doctor, slots the doctor is already booked for are unavailable.
+   * @throws Error('Invalid date')
+   */
+  static async getSlots(
+    date: string,
+    serviceType: ServiceType,
+    doctorName?: string | null,
+    now: Date = new Date(),
+    db: any = pool
+  ): Promise<AppointmentSlot[]> {
+    const hours = await BusinessHoursService.getOpeningHours(date);
+    if (!hours) {
+      return [];
+    }
+
+    const settings = await this.getSettings();
+
+    const countersResult = await db.query(
+      `SELECT COUNT(*) as count FROM counters WHERE is_active = true AND service_types ? $1`,
+      [serviceType]
+    );
+    const capacity = (parseInt(countersResult.rows[0]?.count) || 0) * settings.appointmentsPerCounter;
+
+    const bookedResult = await db.query(`
+      SELECT slot_start, service_type, doctor_name
+      FROM appointments
+      WHERE slot_start >= $1 AND slot_start < $2 AND status = ANY($3)
+    `, [hours.opensAt, hours.closesAt, ACTIVE_STATUSES]);
+
+    const slots: AppointmentSlot[] = [];
+    const slotMs = settings.slotMinutes * 60000;
+    for (let start = hours.opensAt.getTime(); start + slotMs <= hours.closesAt.getTime(); start += slotMs) {
+      if (start <= now.getTime()) {
+        continue;
+      }
+
+      const inSlot = bookedResult.rows.filter((row: any) => new Date(row.slot_start).getTime() === start);
+      const booked = inSlot.filter((row: any) => row.service_type === serviceType).length;
+      const doctorBusy = !!doctorName && inSlot.some((row: any) => row.doctor_name === doctorName);
+
+      slots.push({
+        start: new Date(start),
+        end: new Date(start + slotMs),
+        capacity,
+        booked,
+        available: booked < capacity && !doctorBusy
+      });
+    }
+
+    return slots;
+  }
+
+  /**
+   * Book a slot. Bookings for the same day are serialized so a slot is never overbooked.
+   * @throws Error('Slot is not a bookable time') when it isn't a future slot within business hours
+   * @throws Error('Doctor is already booked for this slot')
+   * @throws Error('Slot is fully booked')
+   */
+  static async book(data: BookAppointmentData, userId?: number): Promise<Appointment> {
+    const slotStart = new Date(data.slot_start);
+    const date = moment(slotStart).tz(TIMEZONE).format('YYYY-MM-DD');
+    const doctorName = data.doctor_name ? data.doctor_name.trim() || null : null;
+
+    const client = await pool.connect();
+    let appointmentId: number;
+    try {
+      await client.query('BEGIN');
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`appointments:${date}`]);
+
+      const slots = await this.getSlots(date, data.service_type, doctorName, new Date(), client);
+      const slot = slots.find((candidate) => candidate.start.getTime() === slotStart.getTime());
+
+      if (!slot) {
+        throw new Error('Slot is not a bookable time');
+      }
+      if (!slot.available) {
+        throw new Error(slot.booked < slot.capacity ? 'Doctor is already booked for this slot' : 'Slot is fully booked');
+      }
+
+      const result = await client.query(`
+        INSERT INTO appointments (
+          customer_name, contact_number, email, service_type, doctor_name,
+          slot_start, slot_end, notes, booked_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING id
+      `, [
+        data.customer_name.trim(),
+        data.contact_number || null,
+        data.email || null,
+        data.service_type,
+        doctorName,
+        slot.start,
+        slot.end,
+        data.notes || null,
+        userId || null
+      ]);
+      appointmentId = result.rows[0].id;
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const appointment = (await this.findById(appointmentId))!;
+    await this.emitUpdate('appointment_booked', appointment);
+    return appointment;
+  }
+
+  static async findById(id: number, db: any = pool): Promise<Appointment | null> {
+    const result = await db.query(`
+      SELECT ${APPOINTMENT_COLUMNS}
+      FROM appointments a
+      LEFT JOIN users u ON u.id = a.booked_by
+      WHERE a.id = $1
+    `, [id]);
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Appointments on a date (YYYY-MM-DD, shop time), optionally with one status, in slot order
+   */
+  static async list(date: string, status?: AppointmentStatus): Promise<Appointment[]> {
+    const day = moment.tz(date, 'YYYY-MM-DD', true, TIMEZONE);
+    if (!day.isValid()) {
+      throw new Error('Invalid date');
+    }
+
+    const params: any[] = [day.toDate(), day.clone().add(1, 'day').toDate()];
+    let statusClause = '';
+    if (status) {
+      params.push(status);
+      statusClause = `AND a.status = $${params.length}`;
+    }
+
+    const result = await pool.query(`
+      SELECT ${APPOINTMENT_COLUMNS}
+      FROM appointments a
+      LEFT JOIN users u ON u.id = a.booked_by
+      WHERE a.slot_start >= $1 AND a.slot_start < $2
+      ${statusClause}
+      ORDER BY a.slot_start, a.id
+    `, params);
+
+    return result.rows;
+  }
+
+  /**
+   * Cancel a booked appointment, freeing its slot
+   * @throws Error('Appointment not found')
+   * @throws Error('Only booked appointments can be cancelled')
+   */
+  static async cancel(id: number): Promise<Appointment> {
+    return this.closeBooked(id, AppointmentStatus.CANCELLED, 'Only booked appointments can be cancelled', 'appointment_cancelled');
+  }
+
+  /**
+   * Record that the customer didn't turn up
+   * @throws Error('Appointment not found')
+   * @throws Error('Only booked appointments can be marked as no-show')
+   */
+  static async markNoShow(id: number): Promise<Appointment> {
+    return this.closeBooked(id, AppointmentStatus.NO_SHOW, 'Only booked appointments can be marked as no-show', 'appointment_no_show');
+  }
+
+  /**
+   * Mark booked appointments whose grace period has passed as no-shows
+   * @returns number of appointments marked
+   */
+  static async markNoShows(): Promise<number> {
+    const settings = await this.getSettings();
+    const result = await pool.query(`
+      UPDATE appointments
+      SET status = 'no_show', updated_at = CURRENT_TIMESTAMP
+      WHERE status = 'booked'
+        AND slot_start + make_interval(mins => $1) < CURRENT_TIMESTAMP
+      RETURNING id
+    `, [settings.noShowGraceMinutes]);
+
+    return result.rows.length;
+  }
+
+  /**
+   * Lock a booked appointment of today for check-in, inside the registration transaction
+   * @throws Error('Appointment not found')
+   * @throws Error('Appointment is already <status>')
+   * @throws Error('Appointment is not scheduled for today')
+   */
+  static async claimForCheckIn(id: number, client: any, now: Date = new Date()): Promise<Appointment> {
+    const result = await client.query('SELECT * FROM appointments WHERE id = $1 FOR UPDATE', [id]);
+    const appointment: Appointment | undefined = result.rows[0];
+
+    if (!appointment) {
+      throw new Error('Appointment not found');
+    }
+    if (appointment.status !== AppointmentStatus.BOOKED) {
+      throw new Error(`Appointment is already ${appointment.status.replace('_', ' ')}`);
+    }
+    if (moment(appointment.slot_start).tz(TIMEZONE).format('YYYY-MM-DD') !== moment(now).tz(TIMEZONE).format('YYYY-MM-DD')) {
+      throw new Error('Appointment is not scheduled for today');
+    }
+
+    return appointment;
+  }
+
+  /**
+   * Link a claimed appointment to the customer registered for it
+   */
+  static async markCheckedIn(id: number, customerId: number, client: any): Promise<void> {
+    await client.query(`
+      UPDATE appointments
+      SET status = 'checked_in', customer_id = $2, checked_in_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `, [id, customerId]);
+  }
+
+  /**
+   * Broadcast a check-in once the registration transaction has committed
+   */
+  static async notifyCheckedIn(id: number): Promise<void> {
+    const appointment = await this.findById(id);
+    if (appointment) {
+      await this.emitUpdate('appointment_checked_in', appointment);
+    }
+  }
+
+  private static async closeBooked(id: number, status: AppointmentStatus, invalidMessage: string, event: string): Promise<Appointment> {
+    const result = await pool.query(`
+      UPDATE appointments
+      SET status = $2, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'booked'
+      RETURNING id
+    `, [id, status]);
+
+    if (result.rows.length === 0) {
+      const existing = await this.findById(id);
+      throw new Error(existing ? invalidMessage : 'Appointment not found');
+    }
+
+    const appointment = (await this.findById(id))!;
+    await this.emitUpdate(event, appointment);
+    return appointment;
+  }
+
+  private static async emitUpdate(type: string, appointment: Appointment): Promise<void> {
+    try {
+      await WebSocketService.emitQueueUpdate({ type, appointment, timestamp: new Date() });
+    } catch (error) {
+      console.error(`Failed to emit ${type} update:`, error);
+      // Don't fail the operation if WebSocket fails
+    }
+  }
+}
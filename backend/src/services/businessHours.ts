@@ -0,0 +1,172 @@
+import moment from 'moment-timezone';
+import { SettingsService, BusinessHoursSettings, Weekday } from './settings';
+import { QueueService } from './queue';
+import { ServiceType } from '../types';
+
+const TIMEZONE = 'Asia/Manila';
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CAPACITY_MODES: BusinessHoursSettings['capacityCheckMode'][] = ['off', 'warn', 'block'];
+
+// The given HH:mm on the same calendar day, in shop time
+const atTime = (day: moment.Moment, time: string): moment.Moment => {
+  const [hour, minute] = time.split(':').map(Number);
+  return day.clone().tz(TIMEZONE).set({ hour, minute, second: 0, millisecond: 0 });
+};
+
+export type RegistrationClosedReason = 'closed_today' | 'before_opening' | 'after_cutoff' | 'over_capacity';
+
+export interface RegistrationStatus {
+  accepting: boolean; // false only while registrations are being blocked
+  reason: RegistrationClosedReason | null; // why a registration now would be a problem, null if it isn't
+  message: string | null;
+  mode: BusinessHoursSettings['capacityCheckMode'];
+  opensAt: string | null; // today's hours (HH:mm), null when closed today
+  closesAt: string | null;
+  projectedWaitMinutes: number | null; // for someone joining the line now, when checked
+}
+
+/**
+ * Registration cutoff based on the shop's weekly hours.
+ *
+ * A registration is flagged when the shop is closed, past the registration cutoff, or when
+ * the projected wait for a new customer would run past closing time. Depending on
+ * `capacityCheckMode` the registration is then only warned about or refused; admins may
+ * register anyway.
+ */
+export class BusinessHoursService {
+  static async getSettings(): Promise<BusinessHoursSettings> {
+    try {
+      return await SettingsService.getBusinessHoursSettings();
+    } catch (error) {
+      // Never lock registration because settings can't be read
+      console.error('Failed to load business hours, using defaults:', error);
+      const openDaily = { open: '09:00', close: '18:00' };
+      return {
+        weeklyHours: {
+          sunday: openDaily,
+          monday: openDaily,
+          tuesday: openDaily,
+          wednesday: openDaily,
+          thursday: openDaily,
+          friday: openDaily,
+          saturday: openDaily
+        },
+        capacityCheckMode: 'warn',
+        registrationCutoffMinutes: 0
+      };
+    }
+  }
+
+  /**
+   * Validate a (partial) business hours update
+   * @returns an error message, or null if the settings are acceptable
+   */
+  static validateSettings(settings: Partial<BusinessHoursSettings>): string | null {
+    if (settings.capacityCheckMode !== undefined && !CAPACITY_MODES.includes(settings.capacityCheckMode)) {
+      return `capacityCheckMode must be one of: ${CAPACITY_MODES.join(', ')}`;
+    }
+
+    if (settings.registrationCutoffMinutes !== undefined &&
+        (!Number.isInteger(settings.registrationCutoffMinutes) || settings.registrationCutoffMinutes < 0 || settings.registrationCutoffMinutes > 480)) {
+      return 'registrationCutoffMinutes must be an integer between 0 and 480';
+    }
+
+    if (settings.weeklyHours !== undefined) {
+      if (typeof settings.weeklyHours !== 'object' || settings.weeklyHours === null || Array.isArray(settings.weeklyHours)) {
+        return 'weeklyHours must be an object';
+      }
+      for (const day of WEEKDAYS) {
+        if (!(day in settings.weeklyHours)) {
+          return `weeklyHours.${day} is required (null when closed)`;
+        }
+        const hours = settings.weeklyHours[day];
+        if (hours === null) continue;
+        if (!hours || !TIME_PATTERN.test(hours.open) || !TIME_PATTERN.test(hours.close)) {
+          return `weeklyHours.${day} needs open and close times as HH:mm`;
+        }
+        if (hours.open >= hours.close) {
+          return `weeklyHours.${day} must close after it opens`;
+        }
+      }
+      const unknownDay = Object.keys(settings.weeklyHours).find((day) => !WEEKDAYS.includes(day as Weekday));
+      if (unknownDay) {
+        return `Unknown weekday: ${unknownDay}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Opening and closing time on a calendar date (YYYY-MM-DD, shop time), or null when closed that day
+   * @throws Error('Invalid date')
+   */
+  static async getOpeningHours(date: string): Promise<{ opensAt: Date; closesAt: Date } | null> {
+    const day = moment.tz(date, 'YYYY-MM-DD', true, TIMEZONE);
+    if (!day.isValid()) {
+      throw new Error('Invalid date');
+    }
+
+    const settings = await this.getSettings();
+    const hours = settings.weeklyHours[WEEKDAYS[day.day()]] || null;
+    if (!hours) {
+      return null;
+    }
+
+    return {
+      opensAt: atTime(day, hours.open).toDate(),
+      closesAt: atTime(day, hours.close).toDate()
+    };
+  }
+
+  /**
+   * Whether a customer for this service type can be registered now, and why not
+   */
+  static async getRegistrationStatus(serviceType: ServiceType = ServiceType.CASHIER, now: Date = new Date()): Promise<RegistrationStatus> {
+    const settings = await this.getSettings();
+    const local = moment(now).tz(TIMEZONE);
+    const hours = settings.weeklyHours[WEEKDAYS[local.day()]] || null;
+
+    const status = (reason: RegistrationClosedReason | null, message: string | null, projectedWaitMinutes: number | null = null): RegistrationStatus => ({
+      accepting: reason === null || settings.capacityCheckMode !== 'block',
+      reason,
+      message,
+      mode: settings.capacityCheckMode,
+      opensAt: hours ? hours.open : null,
+      closesAt: hours ? hours.close : null,
+      projectedWaitMinutes
+    });
+
+    if (settings.capacityCheckMode === 'off') {
+      return status(null, null);
+    }
+
+    if (!hours) {
+      return status('closed_today', 'The shop is closed today');
+    }
+
+    const opensAt = atTime(local, hours.open);
+    const closesAt = atTime(local, hours.close);
+    const cutoffAt = closesAt.clone().subtract(settings.registrationCutoffMinutes, 'minutes');
+
+    if (local.isBefore(opensAt)) {
+      return status('before_opening', `Registration opens at ${hours.open}`);
+    }
+
+    if (!local.isBefore(cutoffAt)) {
+      return status('after_cutoff', `Registration closed at ${cutoffAt.format('HH:mm')}`);
+    }
+
+    const projected = await QueueService.getProjectedWaitForNewCustomer(serviceType);
+    if (local.clone().add(projected.minutes, 'minutes').isAfter(closesAt)) {
+      return status(
+        'over_capacity',
+        `Projected wait of ${projected.minutes} minutes runs past closing time (${hours.close})`,
+        projected.minutes
+      );
+    }
+
+    return status(null, null, projected.minutes);
+  }
+}
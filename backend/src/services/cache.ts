@@ -18,15 +18,18 @@ class InMemoryCache {
   private readonly maxSize: number;
   private readonly defaultTtl: number;
   private cleanupInterval?: NodeJS.Timeout;
+  // Bumped on every invalidation, so a fetch that started before one doesn't store what it read
+  private generation = 0;
 
   constructor(options: CacheOptions = {}) {
     this.maxSize = options.maxSize || 1000;
     this.defaultTtl = options.ttl || 300000; // 5 minutes default
 
-    // Setup cleanup interval (every 5 minutes)
+    // Setup cleanup interval (every 5 minutes); it doesn't keep scripts and tests running
     this.cleanupInterval = setInterval(() => {
       this.cleanup();
     }, 300000);
+    this.cleanupInterval.unref();
   }
 
   set<T>(key: string, value: T, ttl?: number): void {
@@ -66,10 +69,12 @@ class InMemoryCache {
   }
 
   delete(key: string): boolean {
+    this.generation++;
     return this.cache.delete(key);
   }
 
   clear(): void {
+    this.generation++;
     this.cache.clear();
   }
 
@@ -100,8 +105,11 @@ class InMemoryCache {
       return cached;
     }
 
+    const generation = this.generation;
     const value = await fetcher();
-    this.set(key, value, ttl);
+    if (generation === this.generation) {
+      this.set(key, value, ttl);
+    }
     return value;
   }
 
@@ -165,4 +173,6 @@ export const CACHE_KEYS = {
   CUSTOMER_COUNT: 'customers:count',
   ACTIVE_COUNTERS: 'counters:active',
   QUEUE_METRICS: 'queue:metrics',
+  DISPLAY_QUEUE: 'display:queue',
+  DISPLAY_COUNTERS: 'display:counters',
 } as const;
@@ -2,10 +2,92 @@
 import { QueueService } from './queue';
 import { cache, CACHE_KEYS } from './cache';
 import { WebSocketService } from './websocket';
+import { DisplayEventsService } from './displayEvents';
+import { pool } from '../config/database';
+import { QueueItem, PriorityFlags } from '../types';
+
+// The display feeds are dropped on every queue event; this only bounds how stale the wait
+// estimates and counter names can get between events
+const DISPLAY_FEED_TTL_MS = 10000;
+
+export interface DisplayCounter {
+  id: number;
+  name: string;
+  is_active: boolean;
+  service_types: string[];
+  current_customer: {
+    id: number;
+    name: string;
+    token_number: number;
+    token_code: string | null;
+    service_type: string;
+    missed_call_count: number;
+    queue_status: 'serving';
+    priority_flags: PriorityFlags;
+  } | null;
+}
 
 export class CachedQueueService extends QueueService {
   private wsService: WebSocketService;
 
+  /**
+   * The public display queue, shared by every display polling it
+   */
+  static async getDisplayQueue(): Promise<QueueItem[]> {
+    return cache.getOrSet(CACHE_KEYS.DISPLAY_QUEUE, () => super.getDisplayQueue(), DISPLAY_FEED_TTL_MS);
+  }
+
+  /**
+   * The active counters and who they are serving, for the display monitors
+   */
+  static async getDisplayCounters(): Promise<DisplayCounter[]> {
+    return cache.getOrSet(CACHE_KEYS.DISPLAY_COUNTERS, async () => {
+      const result = await pool.query(`
+        SELECT 
+          c.id,
+          c.name,
+          c.is_active,
+          c.display_order,
+          c.service_types,
+          cu.id as current_customer_id,
+          cu.name as current_customer_name,
+          cu.token_number as current_customer_token,
+          cu.token_code as current_customer_token_code,
+          cu.priority_flags as current_customer_priority_flags,
+          cu.service_type as current_customer_service_type,
+          cu.missed_call_count as current_customer_missed_calls
+        FROM counters c
+        LEFT JOIN customers cu ON c.current_customer_id = cu.id AND cu.queue_status = 'serving'
+        WHERE c.is_active = true
+        ORDER BY c.display_order ASC, c.name ASC
+      `);
+
+      return result.rows.map((row: any) => ({
+        id: row.id,
+        name: row.name,
+        is_active: row.is_active,
+        service_types: row.service_types,
+        current_customer: row.current_customer_id ? {
+          id: row.current_customer_id,
+          name: row.current_customer_name,
+          token_number: row.current_customer_token,
+          token_code: row.current_customer_token_code,
+          service_type: row.current_customer_service_type,
+          missed_call_count: row.current_customer_missed_calls || 0,
+          queue_status: 'serving',
+          priority_flags: typeof row.current_customer_priority_flags === 'string' 
+            ? JSON.parse(row.current_customer_priority_flags) 
+            : row.current_customer_priority_flags || { senior_citizen: false, pregnant: false, pwd: false }
+        } : null
+      }));
+    }, DISPLAY_FEED_TTL_MS);
+  }
+
+  static invalidateDisplayCaches(): void {
+    cache.delete(CACHE_KEYS.DISPLAY_QUEUE);
+    cache.delete(CACHE_KEYS.DISPLAY_COUNTERS);
+  }
+
   constructor(wsService: WebSocketService) {
     super();
     this.wsService = wsService;
@@ -216,3 +298,6 @@ export class CachedQueueService extends QueueService {
     return null;
   }
 }
+
+// Every queue mutation ends in a queue WebSocket event, which is passed on to the display streams
+DisplayEventsService.onQueueChange(() => CachedQueueService.invalidateDisplayCaches());
@@ -0,0 +1,183 @@
+import { Courier, DistributionType, ProofOfDelivery, ShipmentStatus } from '../types';
+
+/**
+ * A status reported by a courier for one shipment
+ */
+export interface CourierStatusUpdate {
+  reference: string;
+  status: ShipmentStatus;
+  occurred_at: Date;
+  description?: string | null;
+  location?: string | null;
+  proof?: ProofOfDelivery | null; // with a delivered status
+}
+
+/**
+ * Connects a courier's API to shipments. Adapters can be polled for a shipment's history,
+ * receive pushed status updates, or both; either method may be left out.
+ */
+export interface CourierAdapter {
+  readonly name: string;
+
+  /**
+   * The shipment's status history as the courier has it, oldest first
+   */
+  trackShipment?(reference: string): Promise<CourierStatusUpdate[]>;
+
+  /**
+   * Read a webhook call. Adapters check the courier's signature themselves.
+   * @throws Error('Invalid webhook signature')
+   */
+  parseWebhook?(payload: any, headers: Record<string, string | string[] | undefined>): CourierStatusUpdate[];
+}
+
+// Lengths the shipment and shipment event columns take
+const MAX_REFERENCE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_LOCATION_LENGTH = 255;
+const MAX_RECEIVED_BY_LENGTH = 255;
+const MAX_NOTES_LENGTH = 1000;
+const MAX_PHOTO_URL_LENGTH = 2048;
+
+const isOptionalText = (value: unknown, maxLength: number): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.length <= maxLength);
+
+/**
+ * Whether a proof of delivery photo is a web address; it is shown to staff as a link
+ */
+export function isPhotoUrl(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > MAX_PHOTO_URL_LENGTH) {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the free-text parts of a status update, from a courier or from staff
+ * @returns an error message, or null if they are acceptable
+ */
+export function validateStatusDetails(details: { description?: unknown; location?: unknown; proof?: unknown }): string | null {
+  if (!isOptionalText(details.description, MAX_DESCRIPTION_LENGTH)) {
+    return `description must be text of at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  if (!isOptionalText(details.location, MAX_LOCATION_LENGTH)) {
+    return `location must be text of at most ${MAX_LOCATION_LENGTH} characters`;
+  }
+
+  const proof = details.proof;
+  if (proof === undefined || proof === null) {
+    return null;
+  }
+  if (typeof proof !== 'object' || Array.isArray(proof)) {
+    return 'proof must be an object';
+  }
+  const { received_by, photo_url, notes } = proof as Record<string, unknown>;
+  if (!isOptionalText(received_by, MAX_RECEIVED_BY_LENGTH)) {
+    return `proof.received_by must be text of at most ${MAX_RECEIVED_BY_LENGTH} characters`;
+  }
+  if (photo_url !== undefined && photo_url !== null && photo_url !== '' && !isPhotoUrl(photo_url)) {
+    return 'proof.photo_url must be an http(s) link';
+  }
+  if (!isOptionalText(notes, MAX_NOTES_LENGTH)) {
+    return `proof.notes must be text of at most ${MAX_NOTES_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Statuses the mock courier goes through, one per step
+const MOCK_PROGRESS: ShipmentStatus[] = [
+  ShipmentStatus.PICKED_UP,
+  ShipmentStatus.IN_TRANSIT,
+  ShipmentStatus.OUT_FOR_DELIVERY,
+  ShipmentStatus.DELIVERED
+];
+
+/**
+ * A local courier for testing without courier accounts. Polled shipments move one status
+ * further every `stepMinutes` after they were first tracked; webhooks take a JSON update (or a
+ * list of them) and are only accepted with MOCK_COURIER_SECRET set and sent back in the
+ * `x-mock-courier-secret` header. Updates that don't validate are skipped.
+ */
+export class MockCourierAdapter implements CourierAdapter {
+  readonly name = 'mock';
+  private firstTracked = new Map<string, number>();
+
+  constructor(private stepMinutes: number = 1, private now: () => Date = () => new Date()) {}
+
+  async trackShipment(reference: string): Promise<CourierStatusUpdate[]> {
+    const now = this.now().getTime();
+    if (!this.firstTracked.has(reference)) {
+      this.firstTracked.set(reference, now);
+    }
+    const start = this.firstTracked.get(reference)!;
+    const stepMs = this.stepMinutes * 60000;
+    const steps = Math.min(Math.floor((now - start) / stepMs), MOCK_PROGRESS.length);
+
+    return MOCK_PROGRESS.slice(0, steps).map((status, index) => ({
+      reference,
+      status,
+      occurred_at: new Date(start + (index + 1) * stepMs),
+      description: `Mock courier: ${status.replace(/_/g, ' ')}`,
+      proof: status === ShipmentStatus.DELIVERED ? { received_by: 'Mock Recipient' } : null
+    }));
+  }
+
+  parseWebhook(payload: any, headers: Record<string, string | string[] | undefined>): CourierStatusUpdate[] {
+    // The endpoint is public: without a secret anyone could mark shipments delivered
+    const secret = process.env.MOCK_COURIER_SECRET;
+    if (!secret || headers['x-mock-courier-secret'] !== secret) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const updates = Array.isArray(payload) ? payload : [payload];
+    return updates
+      .filter((update) => update && typeof update === 'object' &&
+        typeof update.reference === 'string' && update.reference.length <= MAX_REFERENCE_LENGTH &&
+        Object.values(ShipmentStatus).includes(update.status) &&
+        validateStatusDetails(update) === null)
+      .map((update) => ({
+        reference: update.reference,
+        status: update.status,
+        occurred_at: update.occurred_at && !isNaN(new Date(update.occurred_at).getTime()) ? new Date(update.occurred_at) : this.now(),
+        description: update.description || null,
+        location: update.location || null,
+        proof: update.proof ? {
+          received_by: update.proof.received_by || null,
+          photo_url: update.proof.photo_url || null,
+          notes: update.proof.notes || null
+        } : null
+      }));
+  }
+}
+
+const adapters = new Map<Courier, CourierAdapter>();
+
+/**
+ * Use an adapter for a courier's shipments, replacing any registered before
+ */
+export function registerCourierAdapter(courier: Courier, adapter: CourierAdapter): void {
+  adapters.set(courier, adapter);
+}
+
+/**
+ * The courier's adapter, or null when its shipments are only updated by staff
+ */
+export function getCourierAdapter(courier: Courier): CourierAdapter | null {
+  return adapters.get(courier) || null;
+}
+
+export function clearCourierAdapters(): void {
+  adapters.clear();
+}
+
+// COURIER_ADAPTER=mock runs both couriers through the mock, e.g. in development
+if (process.env.COURIER_ADAPTER === 'mock') {
+  const mock = new MockCourierAdapter(parseInt(process.env.MOCK_COURIER_STEP_MINUTES || '', 10) || 1);
+  registerCourierAdapter(DistributionType.LALAMOVE, mock);
+  registerCourierAdapter(DistributionType.LBC, mock);
+}
@@ -1,7 +1,13 @@
 import { pool } from '../config/database';
-import { Customer, DistributionType, PaymentMode, QueueStatus, PriorityFlags, Prescription, PaymentInfo, EstimatedTime, PaymentStatus } from '../types';
+import { Customer, DistributionType, PaymentMode, QueueStatus, PriorityFlags, Prescription, PaymentInfo, EstimatedTime, PaymentStatus, ServiceType, RegistrationSource } from '../types';
 import { QueueAnalyticsService } from './QueueAnalyticsService';
 import { WebSocketService } from './websocket';
+import { PriorityPolicyService } from './priorityPolicy';
+import { QueueSequenceService } from './queueSequence';
+import { BusinessHoursService } from './businessHours';
+import { AppointmentService } from './appointment';
+import { PatientService } from './patient';
+import { normalizePrescription } from '../utils/prescription';
 
 export class CustomerService {
   // Helper to sanitize numeric amounts coming from various string formats (e.g., "₱1,500")
@@ -47,7 +53,7 @@ export class CustomerService {
     address: string;
     occupation?: string;
     distribution_info: DistributionType;
-    sales_agent_id: number;
+    sales_agent_id: number | null; // null for kiosk registrations until an agent completes them
     doctor_assigned?: string;
     prescription: Prescription;
     grade_type: string;
@@ -57,7 +63,15 @@ export class CustomerService {
     payment_info: PaymentInfo;
     remarks?: string;
     priority_flags: PriorityFlags;
+    service_type?: ServiceType;
     create_initial_transaction?: boolean;
+    override_capacity?: boolean;
+    appointment_id?: number;
+    registration_source?: RegistrationSource;
+    kiosk_device_id?: number | null;
+    patient_id?: number | null; // a returning patient's profile, confirmed by staff
+    create_patient?: boolean; // start a profile for a new patient, when staff ask for one
+    birth_date?: string | null;
   }): Promise<Customer> {
     console.log('🔍 [CUSTOMER_CREATE_DEBUG] Full customerData received:', JSON.stringify(customerData, null, 2));
     console.log('🔍 [PAYMENT_INFO_DEBUG] Payment info specifically:', JSON.stringify(customerData.payment_info, null, 2));
@@ -79,61 +93,134 @@ export class CustomerService {
       estimated_time,
       payment_info,
       remarks,
-      priority_flags
+      priority_flags,
+      service_type: requested_service_type = ServiceType.CASHIER,
+      override_capacity = false,
+      appointment_id,
+      registration_source = 'staff',
+      kiosk_device_id = null,
+      patient_id = null,
+      create_patient = false,
+      birth_date = null
     } = customerData;
-
-    // Generate token number
-    const tokenNumber = await this.generateTokenNumber();
-    
-    // Generate OR number if not provided
-    const or_number = provided_or_number || await this.generateORNumber();
+    // Kiosk registrations only carry the short form; a sales agent fills in the rest later
+    const details_pending = registration_source === 'kiosk';
+
+    // Walk-ins that can't be served before closing are flagged, or refused in 'block' mode.
+    // Appointments already had their slot accepted when they were booked.
+    const registration = appointment_id ? null : await BusinessHoursService.getRegistrationStatus(requested_service_type);
+    if (registration && !registration.accepting && !override_capacity) {
+      throw new Error(`Registration is closed: ${registration.message}`);
+    }
 
     const query = `
       INSERT INTO customers (
         or_number, name, contact_number, email, age, address, occupation,
         distribution_info, sales_agent_id, doctor_assigned, prescription, grade_type, lens_type,
         frame_code, estimated_time, payment_info, remarks, priority_flags,
-        queue_status, token_number
+        queue_status, token_number, token_code, service_type, appointment_at,
+        registration_source, kiosk_device_id, details_pending, patient_id
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27)
       RETURNING *
     `;
 
-    const values = [
-      or_number,
-      name,
-      contact_number,
-      email,
-      age,
-      address,
-      occupation,
-      distribution_info,
-      sales_agent_id,
-      doctor_assigned,
-      JSON.stringify(prescription),
-      grade_type,
-      lens_type,
-      frame_code,
-      JSON.stringify(estimated_time),
-      JSON.stringify(payment_info),
-      remarks,
-      JSON.stringify(priority_flags),
-      QueueStatus.WAITING,
-      tokenNumber
-    ];
+    // Token and OR numbers come from daily sequences inside the insert transaction, so
+    // concurrent registrations get distinct numbers and a failed insert doesn't burn one
+    const client = await pool.connect();
+    let result;
+    let or_number: string;
+    let service_type = requested_service_type;
+    try {
+      await client.query('BEGIN');
+
+      // Checking in for an appointment: the customer queues for the booked service and slot
+      const appointment = appointment_id ? await AppointmentService.claimForCheckIn(appointment_id, client) : null;
+      if (appointment) {
+        service_type = appointment.service_type;
+      }
+
+      // A returning patient's visit joins their profile, which takes the latest contact details.
+      // A new profile is only started when staff ask for one; other visits are linked later.
+      const patientDetails = { name, contact_number, email, birth_date, address, occupation };
+      let patientId = patient_id;
+      if (patientId) {
+        await PatientService.recordVisitDetails(patientId, patientDetails, client);
+      } else if (create_patient) {
+        patientId = await PatientService.insertPatient(patientDetails, client);
+      }
+
+      const { tokenNumber, tokenCode } = await QueueSequenceService.nextToken(service_type, priority_flags, client);
+      or_number = provided_or_number || await QueueSequenceService.nextORNumber(client);
+
+      const values = [
+        or_number,
+        name,
+        contact_number,
+        email,
+        age,
+        address,
+        occupation,
+        distribution_info,
+        sales_agent_id,
+        doctor_assigned || appointment?.doctor_name || undefined,
+        JSON.stringify(normalizePrescription(prescription)),
+        grade_type,
+        lens_type,
+        frame_code,
+        JSON.stringify(estimated_time),
+        JSON.stringify(payment_info),
+        remarks,
+        JSON.stringify(priority_flags),
+        QueueStatus.WAITING,
+        tokenNumber,
+        tokenCode,
+        service_type,
+        appointment ? appointment.slot_start : null,
+        registration_source,
+        kiosk_device_id,
+        details_pending,
+        patientId
+      ];
+
+      result = await client.query(query, values);
+      if (appointment) {
+        await AppointmentService.markCheckedIn(appointment.id, result.rows[0].id, client);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
-    const result = await pool.query(query, values);
     const customer = this.formatCustomer(result.rows[0]);
+    if (registration && registration.reason) {
+      customer.registration_warning = registration.message;
+    }
+
+    if (appointment_id) {
+      try {
+        await AppointmentService.notifyCheckedIn(appointment_id);
+      } catch (appointmentError) {
+        console.error('Failed to emit appointment check-in update:', appointmentError);
+        // Don't fail the registration if the notification fails
+      }
+    }
     
-    // Always create initial unpaid transaction to ensure customer appears in transaction lists
-    // This preserves the customer's selected payment mode in the transaction record
-    try {
-      console.log('🔍 [TRANSACTION_CREATE_DEBUG] About to create initial transaction with payment_info:', JSON.stringify(payment_info, null, 2));
-      await this.createInitialTransaction(customer.id, or_number, sales_agent_id);
-      console.log(`✅ [TRANSACTION_CREATED] Initial transaction created for customer ${customer.name} with payment mode: ${payment_info.mode} and amount: ${payment_info.amount}`);
-    } catch (transactionError) {
-      console.error('❌ [TRANSACTION_ERROR] Failed to create initial transaction:', transactionError);
-      // Don't fail the customer creation if transaction fails
+    // Create the initial unpaid transaction so the customer appears in transaction lists
+    // This preserves the customer's selected payment mode in the transaction record.
+    // Kiosk registrations get theirs once an agent completes the payment details (see update)
+    if (!details_pending && sales_agent_id !== null) {
+      try {
+        console.log('🔍 [TRANSACTION_CREATE_DEBUG] About to create initial transaction with payment_info:', JSON.stringify(payment_info, null, 2));
+        await this.createInitialTransaction(customer.id, or_number, sales_agent_id);
+        console.log(`✅ [TRANSACTION_CREATED] Initial transaction created for customer ${customer.name} with payment mode: ${payment_info.mode} and amount: ${payment_info.amount}`);
+      } catch (transactionError) {
+        console.error('❌ [TRANSACTION_ERROR] Failed to create initial transaction:', transactionError);
+        // Don't fail the customer creation if transaction fails
+      }
     }
     
     // Record analytics event for queue join
@@ -154,7 +241,7 @@ export class CustomerService {
       WebSocketService.emitCustomerCreated({
         customer,
         created_by: sales_agent_id,
-        has_initial_transaction: true, // Always true since we always create initial transactions
+        has_initial_transaction: !details_pending,
         timestamp: new Date()
       });
     } catch (websocketError) {
@@ -162,41 +249,44 @@ export class CustomerService {
       // Don't fail the operation if WebSocket fails
     }
     
-    // ISOLATED: Trigger Facebook-style customer registration notification to cashiers
-    try {
-      // Get sales agent info for notification
-      const salesAgentQuery = `SELECT full_name, role FROM users WHERE id = $1`;
-      const salesAgentResult = await pool.query(salesAgentQuery, [sales_agent_id]);
-      const salesAgent = salesAgentResult.rows[0];
+    // ISOLATED: Trigger Facebook-style customer registration notification to cashiers.
+    // Skipped for kiosk registrations, which have no sales agent to attribute it to
+    if (sales_agent_id !== null) {
+      try {
+        // Get sales agent info for notification
+        const salesAgentQuery = `SELECT full_name, role FROM users WHERE id = $1`;
+        const salesAgentResult = await pool.query(salesAgentQuery, [sales_agent_id]);
+        const salesAgent = salesAgentResult.rows[0];
       
-      if (salesAgent) {
-        // Import the isolated notification trigger
-        const { triggerCustomerRegistrationNotification } = await import('../routes/customerNotifications');
+        if (salesAgent) {
+          // Import the isolated notification trigger
+          const { triggerCustomerRegistrationNotification } = await import('../routes/customerNotifications');
         
-        // Trigger isolated Facebook-style notification
-        await triggerCustomerRegistrationNotification({
-          customer: {
-            id: customer.id,
-            name: customer.name,
-            or_number: customer.or_number,
-            token_number: customer.token_number,
-            contact_number: customer.contact_number,
-            priority_flags: customer.priority_flags,
-            payment_info: customer.payment_info
-          },
-          created_by: {
-            id: sales_agent_id,
-            name: salesAgent.full_name,
-            role: salesAgent.role
-          }
-        });
+          // Trigger isolated Facebook-style notification
+          await triggerCustomerRegistrationNotification({
+            customer: {
+              id: customer.id,
+              name: customer.name,
+              or_number: customer.or_number,
+              token_number: customer.token_number,
+              contact_number: customer.contact_number,
+              priority_flags: customer.priority_flags,
+              payment_info: customer.payment_info
+            },
+            created_by: {
+              id: sales_agent_id,
+              name: salesAgent.full_name,
+              role: salesAgent.role
+            }
+          });
         
-        console.log(`[CUSTOMER_NOTIFICATION_ISOLATED] Triggered Facebook-style notification for customer ${customer.name}`);
-      }
+          console.log(`[CUSTOMER_NOTIFICATION_ISOLATED] Triggered Facebook-style notification for customer ${customer.name}`);
+        }
       
-    } catch (notificationError) {
-      console.error('Failed to trigger isolated customer notification:', notificationError);
-      // Don't fail the operation if notification fails
+      } catch (notificationError) {
+        console.error('Failed to trigger isolated customer notification:', notificationError);
+        // Don't fail the operation if notification fails
+      }
     }
     
     return customer;
@@ -204,9 +294,10 @@ export class CustomerService {
 
   static async findById(id: number): Promise<Customer | null> {
     const query = `
-      SELECT c.*, u.full_name as sales_agent_name
+      SELECT c.*, u.full_name as sales_agent_name, r.released_at, r.received_by as released_to
       FROM customers c
       LEFT JOIN users u ON c.sales_agent_id = u.id
+      LEFT JOIN order_releases r ON r.customer_id = c.id
       WHERE c.id = $1
     `;
 
@@ -216,9 +307,10 @@ export class CustomerService {
 
   static async findByOrNumber(orNumber: string): Promise<Customer | null> {
     const query = `
-      SELECT c.*, u.full_name as sales_agent_name
+      SELECT c.*, u.full_name as sales_agent_name, r.released_at, r.received_by as released_to
       FROM customers c
       LEFT JOIN users u ON c.sales_agent_id = u.id
+      LEFT JOIN order_releases r ON r.customer_id = c.id
       WHERE c.or_number = $1
     `;
 
@@ -229,6 +321,8 @@ export class CustomerService {
   static async list(filters: {
     status?: QueueStatus;
     salesAgentId?: number;
+    includeDetailsPending?: boolean; // with salesAgentId, also kiosk registrations no agent has completed
+    detailsPending?: boolean;
     startDate?: Date;
     endDate?: Date;
     searchTerm?: string;
@@ -238,9 +332,10 @@ export class CustomerService {
     const validSortBy = allowedSortFields.includes(sortBy) ? sortBy : 'created_at';
     
     let query = `
-      SELECT c.*, u.full_name as sales_agent_name
+      SELECT c.*, u.full_name as sales_agent_name, r.released_at, r.received_by as released_to
       FROM customers c
       LEFT JOIN users u ON c.sales_agent_id = u.id
+      LEFT JOIN order_releases r ON r.customer_id = c.id
       WHERE 1=1
     `;
     
@@ -262,13 +357,21 @@ export class CustomerService {
     }
 
     if (filters.salesAgentId) {
-      const agentCondition = ` AND c.sales_agent_id = $${paramCount}`;
+      const agentCondition = filters.includeDetailsPending
+        ? ` AND (c.sales_agent_id = $${paramCount} OR c.details_pending = true)`
+        : ` AND c.sales_agent_id = $${paramCount}`;
       query += agentCondition;
       countQuery += agentCondition;
       values.push(filters.salesAgentId);
       paramCount++;
     }
 
+    if (filters.detailsPending) {
+      const pendingCondition = ` AND c.details_pending = true`;
+      query += pendingCondition;
+      countQuery += pendingCondition;
+    }
+
     if (filters.startDate) {
       const startDateCondition = ` AND c.created_at >= $${paramCount}`;
       query += startDateCondition;
@@ -322,9 +425,17 @@ export class CustomerService {
     // Merge payment_info to avoid losing fields on partial updates and normalize values
     let mergedUpdates: any = { ...updates };
     let shouldSyncPaymentInfo = false;
+    let completesKioskRegistration = false;
 
     if (updates && typeof (updates as any).payment_info === 'object' && (updates as any).payment_info !== null) {
       const existing = await this.findById(id);
+
+      // Filling in the payment details completes a kiosk registration
+      if (existing?.details_pending) {
+        mergedUpdates.details_pending = false;
+        mergedUpdates.sales_agent_id = mergedUpdates.sales_agent_id || existing.sales_agent_id;
+        completesKioskRegistration = true;
+      }
       const existingPI: any = existing?.payment_info || {};
       const incomingPI: any = (updates as any).payment_info || {};
 
@@ -344,6 +455,10 @@ export class CustomerService {
       shouldSyncPaymentInfo = true;
     }
 
+    if (updates?.prescription) {
+      mergedUpdates.prescription = normalizePrescription(updates.prescription);
+    }
+
     const setClause: string[] = [];
     const values: any[] = [];
     let paramCount = 1;
@@ -380,8 +495,20 @@ export class CustomerService {
 
     const updatedCustomer = this.formatCustomer(result.rows[0]);
 
+    // The transaction creation skipped at the kiosk, now that there is an agent and an amount
+    if (completesKioskRegistration) {
+      try {
+        if (!updatedCustomer.sales_agent_id) {
+          throw new Error('No sales agent to assign the transaction to');
+        }
+        await this.createInitialTransaction(id, updatedCustomer.or_number, updatedCustomer.sales_agent_id);
+      } catch (err) {
+        console.error('Failed to create initial transaction for kiosk registration:', err);
+      }
+    }
+
     // Best-effort sync to transactions if payment_info changed
-    if (shouldSyncPaymentInfo) {
+    if (shouldSyncPaymentInfo && !completesKioskRegistration) {
       try {
         await this.syncPaymentInfoToTransactions(id);
       } catch (err) {
@@ -389,6 +516,18 @@ export class CustomerService {
       }
     }
 
+    // Names, tokens and priority show on the displays
+    try {
+      await WebSocketService.emitQueueUpdate({
+        type: 'customer_updated',
+        customer: updatedCustomer,
+        timestamp: new Date()
+      });
+    } catch (websocketError) {
+      console.error('Failed to emit customer_updated event:', websocketError);
+      // Don't fail the operation if WebSocket fails
+    }
+
     return updatedCustomer;
   }
 
@@ -416,16 +555,22 @@ export class CustomerService {
     if (result.rowCount === 0) {
       throw new Error('Customer not found');
     }
+
+    try {
+      await WebSocketService.emitQueueUpdate({
+        type: 'customer_deleted',
+        customerId: id,
+        timestamp: new Date()
+      });
+    } catch (websocketError) {
+      console.error('Failed to emit customer_deleted event:', websocketError);
+      // Don't fail the operation if WebSocket fails
+    }
   }
 
   static async calculatePriorityScore(priorityFlags: PriorityFlags): Promise<number> {
-    let score = 0;
-    
-    if (priorityFlags.senior_citizen) score += 1000;
-    if (priorityFlags.pregnant) score += 800;
-    if (priorityFlags.pwd) score += 900;
-    
-    return score;
+    const policy = await PriorityPolicyService.getPolicy();
+    return PriorityPolicyService.getPriorityWeight(priorityFlags, policy);
   }
 
   // Synchronize the customer's updated payment_info to their most recent UNPAID/PARTIAL transaction
@@ -513,39 +658,6 @@ export class CustomerService {
     await pool.query(query, values);
   }
 
-  private static async generateTokenNumber(): Promise<number> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const query = `
-      SELECT COUNT(*) as count
-      FROM customers
-      WHERE created_at >= $1
-    `;
-    
-    const result = await pool.query(query, [today]);
-    return parseInt(result.rows[0].count) + 1;
-  }
-  
-  private static async generateORNumber(): Promise<string> {
-    const today = new Date();
-    const year = today.getFullYear().toString().slice(-2);
-    const month = (today.getMonth() + 1).toString().padStart(2, '0');
-    const day = today.getDate().toString().padStart(2, '0');
-    
-    // Get today's customer count
-    const tokenNumber = await this.generateTokenNumber();
-    
-    // Generate random alphanumeric suffix
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let suffix = '';
-    for (let i = 0; i < 6; i++) {
-      suffix += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    
-    return `OR${year}${month}${day}${tokenNumber.toString().padStart(3, '0')}${suffix}`;
-  }
-
   // Helper function to format token number with zero padding
   static formatTokenNumber(tokenNumber: number): string {
     return tokenNumber.toString().padStart(3, '0');
@@ -554,7 +666,7 @@ export class CustomerService {
   private static formatCustomer(row: any): Customer {
     return {
       ...row,
-      prescription: row.prescription && typeof row.prescription === 'string' ? JSON.parse(row.prescription) : row.prescription || null,
+      prescription: row.prescription ? normalizePrescription(row.prescription) : null,
       payment_info: row.payment_info && typeof row.payment_info === 'string' ? JSON.parse(row.payment_info) : row.payment_info || null,
       priority_flags: row.priority_flags && typeof row.priority_flags === 'string' ? JSON.parse(row.priority_flags) : row.priority_flags || null,
       estimated_time: row.estimated_time && typeof row.estimated_time === 'string' ? JSON.parse(row.estimated_time) : row.estimated_time || null,
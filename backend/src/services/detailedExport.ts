@@ -1,5 +1,6 @@
 import { jsPDF } from 'jspdf';
 import { CustomerService } from './customer';
+import { ExportService } from './export';
 import { Customer } from '../types';
 
 export class DetailedExportService {
@@ -124,13 +125,10 @@ export class DetailedExportService {
         { label: 'Doctor Assigned', value: customer.doctor_assigned || 'N/A' }
       ], currentY, leftMargin, lineHeight, fieldSpacing, sectionSpacing);
 
-      // Prescription Details Section
-      currentY = this.renderSection(doc, 'Prescription Details', [
-        { label: 'OD (Right Eye)', value: customer.prescription?.od || 'N/A' },
-        { label: 'OS (Left Eye)', value: customer.prescription?.os || 'N/A' },
-        { label: 'OU (Both Eyes)', value: customer.prescription?.ou || 'N/A' },
-        { label: 'PD (Pupillary Distance)', value: customer.prescription?.pd || 'N/A' },
-        { label: 'ADD (Addition)', value: customer.prescription?.add || 'N/A' },
+      // Prescription Details Section: the table, then the lens and frame
+      currentY = this.renderSection(doc, 'Prescription Details', [], currentY, leftMargin, lineHeight, fieldSpacing, 0);
+      currentY = ExportService.drawPrescriptionTable(doc, customer.prescription, leftMargin, currentY + 3);
+      currentY = this.renderSection(doc, 'Lens & Frame', [
         { label: 'Grade Type', value: customer.grade_type || 'N/A' },
         { label: 'Lens Type', value: customer.lens_type || 'N/A' },
         { label: 'Frame Code', value: customer.frame_code || 'N/A' }
@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import {
+  ConnectedDisplay,
+  DisplayCommand,
+  DisplayCommandMessage,
+  DisplayCommandTarget,
+  DisplayLayout
+} from '../types';
+import { WebSocketService } from './websocket';
+
+const LAYOUTS: DisplayLayout[] = ['full', 'counters_only', 'queue_only', 'single_counter'];
+const COMMAND_TYPES: DisplayCommand['type'][] = ['reload', 'set_layout', 'set_counters', 'set_volume', 'show_message'];
+const MAX_MESSAGE_LENGTH = 280;
+const MAX_MESSAGE_SECONDS = 3600;
+
+const isIdList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(id => Number.isInteger(id) && id > 0);
+
+/**
+ * Remote management of display monitors.
+ *
+ * Admins push commands to connected displays through the display room in websocket.ts. Each
+ * display answers with display:ack and reports its health on its own; both are kept on the
+ * display's entry in WebSocketService, which is what the admin panel lists.
+ */
+export class DisplayCommandService {
+  /**
+   * Validate a command from the admin panel
+   * @returns an error message, or null if the command can be sent
+   */
+  static validateCommand(command: any): string | null {
+    if (!command || typeof command !== 'object' || !COMMAND_TYPES.includes(command.type)) {
+      return `type must be one of: ${COMMAND_TYPES.join(', ')}`;
+    }
+
+    switch (command.type) {
+      case 'set_layout':
+        return LAYOUTS.includes(command.layout) ? null : `layout must be one of: ${LAYOUTS.join(', ')}`;
+      case 'set_counters':
+        return command.counter_ids === null || (isIdList(command.counter_ids) && command.counter_ids.length > 0)
+          ? null
+          : 'counter_ids must be a non-empty list of counter IDs, or null for all counters';
+      case 'set_volume':
+        return Number.isInteger(command.volume) && command.volume >= 0 && command.volume <= 100
+          ? null
+          : 'volume must be a whole number between 0 and 100';
+      case 'show_message':
+        if (typeof command.message !== 'string' || !command.message.trim() || command.message.length > MAX_MESSAGE_LENGTH) {
+          return `message is required and must be ${MAX_MESSAGE_LENGTH} characters or less`;
+        }
+        return Number.isInteger(command.duration_seconds) && command.duration_seconds >= 5 && command.duration_seconds <= MAX_MESSAGE_SECONDS
+          ? null
+          : `duration_seconds must be a whole number between 5 and ${MAX_MESSAGE_SECONDS}`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Validate which displays a command goes to
+   * @returns an error message, or null
+   */
+  static validateTarget(target: any): string | null {
+    if (!target || typeof target !== 'object') {
+      return 'target is required';
+    }
+    if (target.all === true) {
+      return null;
+    }
+    if (target.device_ids !== undefined && !isIdList(target.device_ids)) {
+      return 'device_ids must be a list of display device IDs';
+    }
+    if (target.connection_ids !== undefined &&
+        !(Array.isArray(target.connection_ids) && target.connection_ids.every((id: unknown) => typeof id === 'string'))) {
+      return 'connection_ids must be a list of connection IDs';
+    }
+    if (!target.device_ids?.length && !target.connection_ids?.length) {
+      return 'target must be all displays, or list device_ids or connection_ids';
+    }
+    return null;
+  }
+
+  /**
+   * Send a validated command to the targeted displays
+   * @returns the command id the displays will acknowledge, and the connections it went to
+   * @throws Error('No connected display matches the target')
+   */
+  static send(target: DisplayCommandTarget, command: DisplayCommand, issuedBy: string): { command_id: string; recipients: string[] } {
+    const recipients = this.resolveTarget(target).map(display => display.connection_id);
+    if (recipients.length === 0) {
+      throw new Error('No connected display matches the target');
+    }
+
+    const message: DisplayCommandMessage = {
+      ...this.normalize(command),
+      id: randomUUID(),
+      issued_by: issuedBy,
+      issued_at: new Date()
+    };
+
+    WebSocketService.emitDisplayCommand(recipients, message, target.all === true);
+
+    return { command_id: message.id, recipients };
+  }
+
+  static listConnected(): ConnectedDisplay[] {
+    return WebSocketService.getConnectedDisplays()
+      .sort((a, b) => a.name.localeCompare(b.name) || a.connected_at.getTime() - b.connected_at.getTime());
+  }
+
+  private static resolveTarget(target: DisplayCommandTarget): ConnectedDisplay[] {
+    const displays = WebSocketService.getConnectedDisplays();
+    if (target.all) {
+      return displays;
+    }
+
+    const deviceIds = new Set(target.device_ids || []);
+    const connectionIds = new Set(target.connection_ids || []);
+    return displays.filter(display =>
+      (display.device_id !== null && deviceIds.has(display.device_id)) || connectionIds.has(display.connection_id)
+    );
+  }
+
+  // Only the fields that belong to the command type go out to the displays
+  private static normalize(command: DisplayCommand): DisplayCommand {
+    switch (command.type) {
+      case 'set_layout':
+        return { type: command.type, layout: command.layout };
+      case 'set_counters':
+        return { type: command.type, counter_ids: command.counter_ids };
+      case 'set_volume':
+        return { type: command.type, volume: command.volume };
+      case 'show_message':
+        return { type: command.type, message: command.message.trim(), duration_seconds: command.duration_seconds };
+      default:
+        return { type: command.type };
+    }
+  }
+}
@@ -0,0 +1,518 @@
+import moment from 'moment-timezone';
+import { pool } from '../config/database';
+import { config } from '../config/config';
+import { DisplayContentSlide, DisplayPlaylist, DisplaySlide, DisplaySlideType } from '../types';
+import { WebSocketService } from './websocket';
+
+const TIMEZONE = 'Asia/Manila';
+
+const SLIDE_TYPES: DisplaySlideType[] = ['image', 'text', 'promo'];
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const MAX_TITLE_LENGTH = 100;
+const MAX_BODY_LENGTH = 500;
+const MIN_SECONDS = 3;
+const MAX_SECONDS = 300;
+
+const PLAYLIST_COLUMNS = `
+  p.id, p.name, p.is_active, to_char(p.starts_on, 'YYYY-MM-DD') as starts_on,
+  to_char(p.ends_on, 'YYYY-MM-DD') as ends_on, p.slide_seconds,
+  p.created_by, u.full_name as created_by_name, p.created_at, p.updated_at,
+  COALESCE(ARRAY(SELECT pg.group_id FROM display_playlist_groups pg WHERE pg.playlist_id = p.id ORDER BY pg.group_id), '{}') as group_ids
+`;
+
+// Everything but the image itself, which is served on its own
+const SLIDE_COLUMNS = `
+  s.id, s.playlist_id, s.type, s.title, s.body, s.image_data IS NOT NULL as has_image,
+  s.display_seconds, s.starts_at, s.ends_at, s.sort_order, s.created_at, s.updated_at
+`;
+
+export interface PlaylistData {
+  name: string;
+  is_active?: boolean;
+  starts_on?: string | null;
+  ends_on?: string | null;
+  slide_seconds?: number;
+  group_ids?: number[];
+}
+
+export interface SlideData {
+  type: DisplaySlideType;
+  title?: string | null;
+  body?: string | null;
+  image?: string; // data URL; left out on update to keep the current image
+  display_seconds?: number | null;
+  starts_at?: string | null;
+  ends_at?: string | null;
+}
+
+const isDate = (value: unknown): boolean =>
+  typeof value === 'string' && moment(value, 'YYYY-MM-DD', true).isValid();
+
+const isTimestamp = (value: unknown): boolean =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const isSeconds = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= MIN_SECONDS && value <= MAX_SECONDS;
+
+/**
+ * Content playlists for the display monitors.
+ *
+ * A playlist holds image, text and promo slides and runs between its start and end dates
+ * (shop time). Playlists assigned to display groups only play on displays in those groups;
+ * unassigned ones play everywhere. Displays show the slides beside the queue and refetch
+ * when they get display:content, so edits show up right away.
+ */
+export class DisplayContentService {
+  /**
+   * Validate a playlist create or update
+   * @returns an error message, or null
+   */
+  static validatePlaylist(data: any): string | null {
+    if (!data || typeof data.name !== 'string' || !data.name.trim() || data.name.trim().length > MAX_TITLE_LENGTH) {
+      return `Playlist name is required and must be ${MAX_TITLE_LENGTH} characters or less`;
+    }
+    if (data.is_active !== undefined && typeof data.is_active !== 'boolean') {
+      return 'is_active must be true or false';
+    }
+    for (const key of ['starts_on', 'ends_on']) {
+      if (data[key] !== undefined && data[key] !== null && !isDate(data[key])) {
+        return `${key} must be a date (YYYY-MM-DD)`;
+      }
+    }
+    if (data.starts_on && data.ends_on && data.starts_on > data.ends_on) {
+      return 'The playlist must start on or before its end date';
+    }
+    if (data.slide_seconds !== undefined && !isSeconds(data.slide_seconds)) {
+      return `slide_seconds must be a whole number between ${MIN_SECONDS} and ${MAX_SECONDS}`;
+    }
+    if (data.group_ids !== undefined &&
+        !(Array.isArray(data.group_ids) && data.group_ids.every((id: unknown) => Number.isInteger(id) && (id as number) > 0))) {
+      return 'group_ids must be a list of display group IDs';
+    }
+    return null;
+  }
+
+  /**
+   * Validate a slide create or update
+   * @param hasImage - the slide being updated already has an image
+   * @returns an error message, or null
+   */
+  static validateSlide(data: any, hasImage: boolean = false): string | null {
+    if (!data || !SLIDE_TYPES.includes(data.type)) {
+      return `type must be one of: ${SLIDE_TYPES.join(', ')}`;
+    }
+    if (data.title !== undefined && data.title !== null &&
+        (typeof data.title !== 'string' || data.title.length > MAX_TITLE_LENGTH)) {
+      return `title must be ${MAX_TITLE_LENGTH} characters or less`;
+    }
+    if (data.body !== undefined && data.body !== null &&
+        (typeof data.body !== 'string' || data.body.length > MAX_BODY_LENGTH)) {
+      return `body must be ${MAX_BODY_LENGTH} characters or less`;
+    }
+    if (data.image !== undefined) {
+      const imageError = this.validateImage(data.image);
+      if (imageError) return imageError;
+    }
+
+    const hasTitle = typeof data.title === 'string' && data.title.trim() !== '';
+    const hasBody = typeof data.body === 'string' && data.body.trim() !== '';
+    if (data.type === 'image' && data.image === undefined && !hasImage) {
+      return 'Image slides need an image';
+    }
+    if (data.type === 'text' && !hasBody) {
+      return 'Text slides need text';
+    }
+    if (data.type === 'promo' && !hasTitle) {
+      return 'Promo slides need a title';
+    }
+
+    if (data.display_seconds !== undefined && data.display_seconds !== null && !isSeconds(data.display_seconds)) {
+      return `display_seconds must be a whole number between ${MIN_SECONDS} and ${MAX_SECONDS}`;
+    }
+    for (const key of ['starts_at', 'ends_at']) {
+      if (data[key] !== undefined && data[key] !== null && !isTimestamp(data[key])) {
+        return `${key} must be a date and time`;
+      }
+    }
+    if (data.starts_at && data.ends_at && new Date(data.starts_at) >= new Date(data.ends_at)) {
+      return 'The slide must start before it ends';
+    }
+    return null;
+  }
+
+  static async listPlaylists(): Promise<DisplayPlaylist[]> {
+    const playlists = await pool.query(`
+      SELECT ${PLAYLIST_COLUMNS}
+      FROM display_playlists p
+      LEFT JOIN users u ON u.id = p.created_by
+      ORDER BY p.is_active DESC, p.name
+    `);
+    const slides = await pool.query(`
+      SELECT ${SLIDE_COLUMNS}
+      FROM display_slides s
+      ORDER BY s.playlist_id, s.sort_order, s.id
+    `);
+
+    const slidesByPlaylist = new Map<number, DisplaySlide[]>();
+    slides.rows.forEach((row: any) => {
+      const list = slidesByPlaylist.get(row.playlist_id) || [];
+      list.push(this.toSlide(row));
+      slidesByPlaylist.set(row.playlist_id, list);
+    });
+
+    return playlists.rows.map((row: any) => ({ ...row, slides: slidesByPlaylist.get(row.id) || [] }));
+  }
+
+  /**
+   * @throws Error('Display group not found') when a group id doesn't exist
+   */
+  static async createPlaylist(data: PlaylistData, userId?: number): Promise<DisplayPlaylist> {
+    const client = await pool.connect();
+    let playlistId: number;
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        INSERT INTO display_playlists (name, is_active, starts_on, ends_on, slide_seconds, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING id
+      `, [
+        data.name.trim(),
+        data.is_active !== false,
+        data.starts_on || null,
+        data.ends_on || null,
+        data.slide_seconds || 10,
+        userId || null
+      ]);
+      playlistId = result.rows[0].id;
+
+      await this.replaceGroups(client, playlistId, data.group_ids || []);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw this.mapError(error);
+    } finally {
+      client.release();
+    }
+
+    this.notifyDisplays();
+    return (await this.findPlaylist(playlistId))!;
+  }
+
+  /**
+   * Replace a playlist's settings and groups; its slides are left alone
+   * @throws Error('Playlist not found')
+   * @throws Error('Display group not found')
+   */
+  static async updatePlaylist(id: number, data: PlaylistData): Promise<DisplayPlaylist> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE display_playlists
+        SET name = $1, is_active = $2, starts_on = $3, ends_on = $4, slide_seconds = $5,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $6
+        RETURNING id
+      `, [
+        data.name.trim(),
+        data.is_active !== false,
+        data.starts_on || null,
+        data.ends_on || null,
+        data.slide_seconds || 10,
+        id
+      ]);
+
+      if (result.rows.length === 0) {
+        throw new Error('Playlist not found');
+      }
+
+      if (data.group_ids !== undefined) {
+        await this.replaceGroups(client, id, data.group_ids);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw this.mapError(error);
+    } finally {
+      client.release();
+    }
+
+    this.notifyDisplays();
+    return (await this.findPlaylist(id))!;
+  }
+
+  /**
+   * Delete a playlist and its slides
+   * @throws Error('Playlist not found')
+   */
+  static async deletePlaylist(id: number): Promise<void> {
+    const result = await pool.query('DELETE FROM display_playlists WHERE id = $1 RETURNING id', [id]);
+    if (result.rows.length === 0) {
+      throw new Error('Playlist not found');
+    }
+    this.notifyDisplays();
+  }
+
+  /**
+   * Add a validated slide at the end of a playlist
+   * @throws Error('Playlist not found')
+   */
+  static async addSlide(playlistId: number, data: SlideData): Promise<DisplaySlide> {
+    const image = data.image !== undefined ? this.parseImage(data.image) : null;
+
+    try {
+      const result = await pool.query(`
+        INSERT INTO display_slides (
+          playlist_id, type, title, body, image_data, image_mime_type,
+          display_seconds, starts_at, ends_at, sort_order
+        )
+        VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9,
+          (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM display_slides WHERE playlist_id = $1)
+        )
+        RETURNING id
+      `, [
+        playlistId,
+        data.type,
+        data.title?.trim() || null,
+        data.body?.trim() || null,
+        image ? image.data : null,
+        image ? image.mimeType : null,
+        data.display_seconds ?? null,
+        data.starts_at || null,
+        data.ends_at || null
+      ]);
+
+      this.notifyDisplays();
+      return (await this.findSlide(result.rows[0].id))!;
+    } catch (error: any) {
+      if (error.code === '23503') {
+        throw new Error('Playlist not found');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a slide's content; the image is kept unless a new one is given
+   * @throws Error('Slide not found')
+   */
+  static async updateSlide(id: number, data: SlideData): Promise<DisplaySlide> {
+    const image = data.image !== undefined ? this.parseImage(data.image) : null;
+
+    const result = await pool.query(`
+      UPDATE display_slides
+      SET type = $1, title = $2, body = $3,
+          image_data = CASE WHEN $4::boolean THEN $5::bytea ELSE image_data END,
+          image_mime_type = CASE WHEN $4::boolean THEN $6 ELSE image_mime_type END,
+          display_seconds = $7, starts_at = $8, ends_at = $9, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $10
+      RETURNING id
+    `, [
+      data.type,
+      data.title?.trim() || null,
+      data.body?.trim() || null,
+      image !== null,
+      image ? image.data : null,
+      image ? image.mimeType : null,
+      data.display_seconds ?? null,
+      data.starts_at || null,
+      data.ends_at || null,
+      id
+    ]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Slide not found');
+    }
+
+    this.notifyDisplays();
+    return (await this.findSlide(id))!;
+  }
+
+  /**
+   * @throws Error('Slide not found')
+   */
+  static async deleteSlide(id: number): Promise<void> {
+    const result = await pool.query('DELETE FROM display_slides WHERE id = $1 RETURNING id', [id]);
+    if (result.rows.length === 0) {
+      throw new Error('Slide not found');
+    }
+    this.notifyDisplays();
+  }
+
+  /**
+   * Play a playlist's slides in the given order
+   * @throws Error('Slide order must list every slide of the playlist once')
+   */
+  static async reorderSlides(playlistId: number, slideIds: number[]): Promise<DisplaySlide[]> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(
+        'SELECT id FROM display_slides WHERE playlist_id = $1 FOR UPDATE',
+        [playlistId]
+      );
+      const existingIds = existing.rows.map((row: any) => row.id);
+      if (slideIds.length !== existingIds.length || new Set(slideIds).size !== slideIds.length ||
+          !slideIds.every(id => existingIds.includes(id))) {
+        throw new Error('Slide order must list every slide of the playlist once');
+      }
+
+      for (let i = 0; i < slideIds.length; i++) {
+        await client.query('UPDATE display_slides SET sort_order = $1 WHERE id = $2', [i, slideIds[i]]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    this.notifyDisplays();
+    const result = await pool.query(`
+      SELECT ${SLIDE_COLUMNS}
+      FROM display_slides s
+      WHERE s.playlist_id = $1
+      ORDER BY s.sort_order, s.id
+    `, [playlistId]);
+    return result.rows.map((row: any) => this.toSlide(row));
+  }
+
+  static async hasSlideImage(id: number): Promise<boolean> {
+    const result = await pool.query('SELECT 1 FROM display_slides WHERE id = $1 AND image_data IS NOT NULL', [id]);
+    return result.rows.length > 0;
+  }
+
+  static async getSlideImage(id: number): Promise<{ data: Buffer; mime_type: string } | null> {
+    const result = await pool.query(
+      'SELECT image_data as data, image_mime_type as mime_type FROM display_slides WHERE id = $1 AND image_data IS NOT NULL',
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * The slides a display plays right now: from active playlists running today that are meant
+   * for every display or for the display's group, minus promos outside their schedule
+   */
+  static async getContentForDisplay(groupId: number | null, now: Date = new Date()): Promise<DisplayContentSlide[]> {
+    const today = moment(now).tz(TIMEZONE).format('YYYY-MM-DD');
+
+    const result = await pool.query(`
+      SELECT ${SLIDE_COLUMNS}, COALESCE(s.display_seconds, p.slide_seconds) as seconds
+      FROM display_slides s
+      JOIN display_playlists p ON p.id = s.playlist_id
+      WHERE p.is_active = true
+        AND (p.starts_on IS NULL OR p.starts_on <= $1::date)
+        AND (p.ends_on IS NULL OR p.ends_on >= $1::date)
+        AND (s.starts_at IS NULL OR s.starts_at <= $2)
+        AND (s.ends_at IS NULL OR s.ends_at > $2)
+        AND (
+          NOT EXISTS (SELECT 1 FROM display_playlist_groups pg WHERE pg.playlist_id = p.id)
+          OR EXISTS (SELECT 1 FROM display_playlist_groups pg WHERE pg.playlist_id = p.id AND pg.group_id = $3)
+        )
+      ORDER BY p.name, p.id, s.sort_order, s.id
+    `, [today, now, groupId]);
+
+    return result.rows.map((row: any) => {
+      const slide = this.toSlide(row);
+      return {
+        id: slide.id,
+        type: slide.type,
+        title: slide.title,
+        body: slide.body,
+        image_url: slide.image_url,
+        seconds: row.seconds
+      };
+    });
+  }
+
+  /**
+   * @returns an error message for a data URL that isn't an accepted image, or null
+   */
+  private static validateImage(image: unknown): string | null {
+    if (typeof image !== 'string') {
+      return 'image must be a data URL';
+    }
+    const match = image.match(/^data:([\w/+.-]+);base64,/);
+    if (!match || !IMAGE_TYPES.includes(match[1])) {
+      return 'Images must be PNG, JPEG, GIF or WebP';
+    }
+    // Base64 takes 4 characters for every 3 bytes
+    if ((image.length - match[0].length) * 3 / 4 > config.MAX_FILE_SIZE) {
+      return `Images must be ${Math.round(config.MAX_FILE_SIZE / 1024 / 1024)} MB or smaller`;
+    }
+    return null;
+  }
+
+  private static parseImage(image: string): { data: Buffer; mimeType: string } {
+    const [header, base64] = image.split(',', 2);
+    return { data: Buffer.from(base64, 'base64'), mimeType: header.slice('data:'.length, header.indexOf(';')) };
+  }
+
+  private static async replaceGroups(client: any, playlistId: number, groupIds: number[]): Promise<void> {
+    await client.query('DELETE FROM display_playlist_groups WHERE playlist_id = $1', [playlistId]);
+    for (const groupId of Array.from(new Set(groupIds))) {
+      await client.query('INSERT INTO display_playlist_groups (playlist_id, group_id) VALUES ($1, $2)', [playlistId, groupId]);
+    }
+  }
+
+  private static async findPlaylist(id: number): Promise<DisplayPlaylist | null> {
+    const playlist = await pool.query(`
+      SELECT ${PLAYLIST_COLUMNS}
+      FROM display_playlists p
+      LEFT JOIN users u ON u.id = p.created_by
+      WHERE p.id = $1
+    `, [id]);
+    if (playlist.rows.length === 0) {
+      return null;
+    }
+
+    const slides = await pool.query(`
+      SELECT ${SLIDE_COLUMNS}
+      FROM display_slides s
+      WHERE s.playlist_id = $1
+      ORDER BY s.sort_order, s.id
+    `, [id]);
+
+    return { ...playlist.rows[0], slides: slides.rows.map((row: any) => this.toSlide(row)) };
+  }
+
+  private static async findSlide(id: number): Promise<DisplaySlide | null> {
+    const result = await pool.query(`
+      SELECT ${SLIDE_COLUMNS}
+      FROM display_slides s
+      WHERE s.id = $1
+    `, [id]);
+
+    return result.rows[0] ? this.toSlide(result.rows[0]) : null;
+  }
+
+  // The image URL changes with the slide so displays don't keep showing a cached old image
+  private static toSlide(row: any): DisplaySlide {
+    const { has_image, seconds, ...slide } = row;
+    return {
+      ...slide,
+      image_url: has_image ? `/display-content/slides/${row.id}/image?v=${new Date(row.updated_at).getTime()}` : null
+    };
+  }
+
+  private static mapError(error: any): Error {
+    if (error.code === '23503') {
+      return new Error('Display group not found');
+    }
+    return error;
+  }
+
+  // Displays refetch their content on this
+  private static notifyDisplays(): void {
+    WebSocketService.emitDisplayContentChanged();
+  }
+}
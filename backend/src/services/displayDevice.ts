@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+import { pool } from '../config/database';
+import { DisplayDevice, DisplayPairingRequest } from '../types';
+import { SettingsService } from './settings';
+
+const DEVICE_COLUMNS = `
+  dd.id, dd.name, dd.is_active, dd.token_hash IS NOT NULL as is_claimed, dd.last_seen_at,
+  dd.paired_by, u.full_name as paired_by_name, dd.paired_at, dd.revoked_at,
+  dd.group_id, g.name as group_name
+`;
+
+// Read off a TV and typed in by an admin, so no 0/O or 1/I/L
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const PAIRING_TTL_MINUTES = 10;
+
+/**
+ * Display monitor pairing.
+ *
+ * An unpaired display asks for a pairing request and shows its code on screen. An admin enters
+ * the code and a name in the admin panel, which registers the device; the display, polling with
+ * the secret it got alongside the code, then collects a long-lived device token. The token only
+ * opens the read-only display feeds (see authenticateDisplay) and can be revoked at any time.
+ */
+export class DisplayDeviceService {
+  /**
+   * Start pairing a display
+   * @returns the code to show on screen and the secret the display polls with
+   */
+  static async createPairingRequest(): Promise<DisplayPairingRequest> {
+    await pool.query('DELETE FROM display_pairing_requests WHERE expires_at <= CURRENT_TIMESTAMP');
+
+    const secret = crypto.randomBytes(24).toString('hex');
+
+    // Codes are unique among open requests; retry on the rare collision
+    for (let attempt = 0; ; attempt++) {
+      const code = this.generateCode();
+      try {
+        const result = await pool.query(`
+          INSERT INTO display_pairing_requests (code, secret_hash, expires_at)
+          VALUES ($1, $2, CURRENT_TIMESTAMP + make_interval(mins => $3))
+          RETURNING id, expires_at
+        `, [code, this.hash(secret), PAIRING_TTL_MINUTES]);
+
+        return { request_id: result.rows[0].id, code, secret, expires_at: result.rows[0].expires_at };
+      } catch (error: any) {
+        if (error.code !== '23505' || attempt >= 4) throw error;
+      }
+    }
+  }
+
+  /**
+   * Pair the display showing `code` (admin)
+   * @throws Error('Pairing code not found') when it is unknown, expired or already used
+   */
+  static async pair(code: string, name: string, userId?: number): Promise<DisplayDevice> {
+    const client = await pool.connect();
+    let deviceId: number;
+    try {
+      await client.query('BEGIN');
+
+      const request = await client.query(`
+        SELECT id FROM display_pairing_requests
+        WHERE code = $1 AND device_id IS NULL AND expires_at > CURRENT_TIMESTAMP
+        FOR UPDATE
+      `, [code.trim().toUpperCase()]);
+
+      if (request.rows.length === 0) {
+        throw new Error('Pairing code not found');
+      }
+
+      const device = await client.query(`
+        INSERT INTO display_devices (name, paired_by)
+        VALUES ($1, $2)
+        RETURNING id
+      `, [name, userId || null]);
+      deviceId = device.rows[0].id;
+
+      await client.query('UPDATE display_pairing_requests SET device_id = $1 WHERE id = $2', [deviceId, request.rows[0].id]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return (await this.findDevice(deviceId))!;
+  }
+
+  /**
+   * Collect the device token once the display has been paired (display)
+   * @returns the device and its token, or null while no admin has entered the code yet
+   * @throws Error('Pairing request not found') when the id or secret is wrong, or it has expired
+   */
+  static async claim(requestId: number, secret: string): Promise<{ device: DisplayDevice; token: string } | null> {
+    const client = await pool.connect();
+    let deviceId: number;
+    const token = crypto.randomBytes(32).toString('hex');
+    try {
+      await client.query('BEGIN');
+
+      const request = await client.query(`
+        SELECT id, device_id FROM display_pairing_requests
+        WHERE id = $1 AND secret_hash = $2 AND expires_at > CURRENT_TIMESTAMP
+        FOR UPDATE
+      `, [requestId, this.hash(secret)]);
+
+      if (request.rows.length === 0) {
+        throw new Error('Pairing request not found');
+      }
+
+      if (!request.rows[0].device_id) {
+        await client.query('COMMIT');
+        return null;
+      }
+      deviceId = request.rows[0].device_id;
+
+      await client.query('UPDATE display_devices SET token_hash = $1, last_seen_at = CURRENT_TIMESTAMP WHERE id = $2', [this.hash(token), deviceId]);
+      await client.query('DELETE FROM display_pairing_requests WHERE id = $1', [requestId]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const device = (await this.findDevice(deviceId))!;
+    return { device, token };
+  }
+
+  static async listDevices(): Promise<DisplayDevice[]> {
+    const result = await pool.query(`
+      SELECT ${DEVICE_COLUMNS}
+      FROM display_devices dd
+      LEFT JOIN users u ON u.id = dd.paired_by
+      LEFT JOIN display_groups g ON g.id = dd.group_id
+      ORDER BY dd.is_active DESC, dd.paired_at DESC
+    `);
+
+    return result.rows;
+  }
+
+  /**
+   * Stop accepting a display's token
+   * @throws Error('Display device not found')
+   * @throws Error('Display device is already revoked')
+   */
+  static async revokeDevice(id: number): Promise<DisplayDevice> {
+    const result = await pool.query(`
+      UPDATE display_devices
+      SET is_active = false, revoked_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND is_active = true
+      RETURNING id
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      const existing = await this.findDevice(id);
+      throw new Error(existing ? 'Display device is already revoked' : 'Display device not found');
+    }
+
+    return (await this.findDevice(id))!;
+  }
+
+  /**
+   * Put a display in a group, or take it out of its group with null
+   * @throws Error('Display device not found')
+   * @throws Error('Display group not found')
+   */
+  static async setGroup(id: number, groupId: number | null): Promise<DisplayDevice> {
+    try {
+      const result = await pool.query('UPDATE display_devices SET group_id = $1 WHERE id = $2 RETURNING id', [groupId, id]);
+      if (result.rows.length === 0) {
+        throw new Error('Display device not found');
+      }
+    } catch (error: any) {
+      if (error.code === '23503') {
+        throw new Error('Display group not found');
+      }
+      throw error;
+    }
+
+    return (await this.findDevice(id))!;
+  }
+
+  /**
+   * The active display a token belongs to, or null
+   */
+  static async authenticate(token: string): Promise<DisplayDevice | null> {
+    const result = await pool.query(`
+      UPDATE display_devices
+      SET last_seen_at = CURRENT_TIMESTAMP
+      WHERE token_hash = $1 AND is_active = true
+      RETURNING id, name, is_active, true as is_claimed, last_seen_at, paired_by, paired_at, revoked_at, group_id
+    `, [this.hash(token)]);
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Whether displays without a device token may read the display feeds
+   */
+  static async isUnpairedAccessAllowed(): Promise<boolean> {
+    const settings = await SettingsService.getDisplayAccessSettings();
+    return settings.allowUnpaired;
+  }
+
+  private static generateCode(): string {
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  private static async findDevice(id: number): Promise<DisplayDevice | null> {
+    const result = await pool.query(`
+      SELECT ${DEVICE_COLUMNS}
+      FROM display_devices dd
+      LEFT JOIN users u ON u.id = dd.paired_by
+      LEFT JOIN display_groups g ON g.id = dd.group_id
+      WHERE dd.id = $1
+    `, [id]);
+
+    return result.rows[0] || null;
+  }
+
+  private static hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,72 @@
+import { Response } from 'express';
+
+// Proxies and some TV browsers drop a stream that stays silent for a minute
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export type DisplayEventName = 'queue:update' | 'queue:status_changed' | 'display:content';
+
+/**
+ * Server-Sent Events for displays whose browsers can't keep a socket.io connection alive.
+ *
+ * The stream only says that something changed (the event name, and the seq/epoch of the
+ * WebSocket event when there is one); displays refetch the public feeds, which are filtered
+ * for their group and answer 304 when nothing they show changed. Queue change listeners
+ * (the display feed cache) are told about every queue event, with or without streams open.
+ */
+export class DisplayEventsService {
+  private static clients = new Set<Response>();
+  private static heartbeat: NodeJS.Timeout | null = null;
+  private static queueChangeListeners: Array<() => void> = [];
+
+  static onQueueChange(listener: () => void): void {
+    this.queueChangeListeners.push(listener);
+  }
+
+  /**
+   * Start an event stream on a display's request; it is dropped when the display disconnects
+   */
+  static addClient(res: Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      // Stop nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+
+    this.clients.add(res);
+    res.on('close', () => this.removeClient(res));
+
+    if (!this.heartbeat) {
+      this.heartbeat = setInterval(() => {
+        this.clients.forEach((client) => client.write(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+    }
+  }
+
+  static getClientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Tell the open streams (and, for queue events, the queue change listeners) about an event
+   */
+  static publish(event: DisplayEventName, stamp: { seq?: number; epoch?: string } = {}): void {
+    if (event !== 'display:content') {
+      this.queueChangeListeners.forEach((listener) => listener());
+    }
+
+    const id = stamp.seq !== undefined ? `id: ${stamp.epoch}:${stamp.seq}\n` : '';
+    const message = `${id}event: ${event}\ndata: ${JSON.stringify({ seq: stamp.seq ?? null, timestamp: new Date() })}\n\n`;
+    this.clients.forEach((client) => client.write(message));
+  }
+
+  private static removeClient(res: Response): void {
+    this.clients.delete(res);
+    if (this.clients.size === 0 && this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { pool } from '../config/database';
+import { DisplayDevice, DisplayGroup, ServiceType } from '../types';
+
+const GROUP_COLUMNS = `
+  g.id, g.name, g.counter_ids, g.service_types, g.created_at, g.updated_at,
+  (SELECT COUNT(*) FROM display_devices dd WHERE dd.group_id = g.id AND dd.is_active = true)::int as device_count
+`;
+
+const MAX_NAME_LENGTH = 100;
+
+export interface DisplayGroupData {
+  name: string;
+  counter_ids?: number[];
+  service_types?: ServiceType[];
+}
+
+/**
+ * Display groups: named sets of paired displays, e.g. "Second floor". A group picks the
+ * counters its displays show (and announce) and the service types of the waiting line they
+ * list; empty lists mean everything. Content playlists can also be assigned to groups.
+ */
+export class DisplayGroupService {
+  /**
+   * Validate a group create or update
+   * @returns an error message, or null
+   */
+  static validateGroup(data: any): string | null {
+    if (!data || typeof data.name !== 'string' || !data.name.trim() || data.name.trim().length > MAX_NAME_LENGTH) {
+      return `Group name is required and must be ${MAX_NAME_LENGTH} characters or less`;
+    }
+    if (data.counter_ids !== undefined &&
+        !(Array.isArray(data.counter_ids) && data.counter_ids.every((id: unknown) => Number.isInteger(id) && (id as number) > 0))) {
+      return 'counter_ids must be a list of counter IDs';
+    }
+    const serviceTypes = Object.values(ServiceType) as string[];
+    if (data.service_types !== undefined &&
+        !(Array.isArray(data.service_types) && data.service_types.every((type: unknown) => serviceTypes.includes(type as string)))) {
+      return `service_types must only contain: ${serviceTypes.join(', ')}`;
+    }
+    return null;
+  }
+
+  static async listGroups(): Promise<DisplayGroup[]> {
+    const result = await pool.query(`
+      SELECT ${GROUP_COLUMNS}
+      FROM display_groups g
+      ORDER BY g.name
+    `);
+
+    return result.rows;
+  }
+
+  /**
+   * @throws Error('A display group with this name already exists')
+   */
+  static async createGroup(data: DisplayGroupData): Promise<DisplayGroup> {
+    try {
+      const result = await pool.query(
+        'INSERT INTO display_groups (name, counter_ids, service_types) VALUES ($1, $2, $3) RETURNING id',
+        [data.name.trim(), this.uniqueIds(data.counter_ids), JSON.stringify(Array.from(new Set(data.service_types || [])))]
+      );
+      return (await this.findGroup(result.rows[0].id))!;
+    } catch (error: any) {
+      throw this.mapError(error);
+    }
+  }
+
+  /**
+   * Replace a group's name, counters and service types
+   * @throws Error('Display group not found')
+   * @throws Error('A display group with this name already exists')
+   */
+  static async updateGroup(id: number, data: DisplayGroupData): Promise<DisplayGroup> {
+    try {
+      const result = await pool.query(`
+        UPDATE display_groups
+        SET name = $1, counter_ids = $2, service_types = $3, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $4
+        RETURNING id
+      `, [data.name.trim(), this.uniqueIds(data.counter_ids), JSON.stringify(Array.from(new Set(data.service_types || []))), id]);
+
+      if (result.rows.length === 0) {
+        throw new Error('Display group not found');
+      }
+    } catch (error: any) {
+      throw this.mapError(error);
+    }
+
+    return (await this.findGroup(id))!;
+  }
+
+  /**
+   * Delete a group; its displays stay paired, outside any group
+   * @throws Error('Display group not found')
+   */
+  static async deleteGroup(id: number): Promise<void> {
+    const result = await pool.query('DELETE FROM display_groups WHERE id = $1 RETURNING id', [id]);
+    if (result.rows.length === 0) {
+      throw new Error('Display group not found');
+    }
+  }
+
+  static async findGroup(id: number): Promise<DisplayGroup | null> {
+    const result = await pool.query(`
+      SELECT ${GROUP_COLUMNS}
+      FROM display_groups g
+      WHERE g.id = $1
+    `, [id]);
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * The group of the display making a request, if it is paired and in one
+   */
+  static async getDeviceGroup(device?: DisplayDevice | null): Promise<DisplayGroup | null> {
+    return device?.group_id ? this.findGroup(device.group_id) : null;
+  }
+
+  /**
+   * Keep the counters a group shows; everything without a group or counter list
+   */
+  static filterCounters<T extends { id: number }>(group: DisplayGroup | null, counters: T[]): T[] {
+    if (!group || group.counter_ids.length === 0) {
+      return counters;
+    }
+    return counters.filter((counter) => group.counter_ids.includes(counter.id));
+  }
+
+  private static uniqueIds(ids?: number[]): number[] {
+    return Array.from(new Set(ids || []));
+  }
+
+  private static mapError(error: any): Error {
+    if (error.code === '23505') {
+      return new Error('A display group with this name already exists');
+    }
+    return error;
+  }
+}
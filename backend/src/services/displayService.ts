@@ -1,5 +1,5 @@
-import { QueueService } from './queue';
-import { QueueItem } from '../types';
+import { CachedQueueService } from './cachedQueue';
+import { DisplayGroup, QueueItem } from '../types';
 
 /**
  * DisplayService - Handles queue display logic for public monitors
@@ -14,14 +14,42 @@ export class DisplayService {
    * 
    * Monitor Exclusion Rules:
    * - Excludes customers with 'processing' status (internal workflow state)
-   * - Only shows 'waiting' and 'serving' customers for public display
+   * - Only shows 'waiting', 'serving' and 'on_hold' customers for public display
+   * - On-hold customers are listed separately and do not take a position in line
    * - Maintains proper queue ordering and position calculations
    * 
+   * Display groups (displays paired into a group):
+   * - Serving customers are only shown for the group's counters
+   * - Waiting and on-hold customers are only shown for the group's service types,
+   *   numbered by their place in that part of the line
+   * 
+   * @param group - the requesting display's group, if any
    * @returns Promise<QueueItem[]> - Filtered queue items for display
    */
-  static async getDisplayQueue(): Promise<QueueItem[]> {
-    // Use the QueueService getDisplayQueue method that already implements filtering
-    return await QueueService.getDisplayQueue();
+  static async getDisplayQueue(group: DisplayGroup | null = null): Promise<QueueItem[]> {
+    // The QueueService display queue, which already implements filtering, through the display feed cache
+    const queue = await CachedQueueService.getDisplayQueue();
+    if (!group || (group.counter_ids.length === 0 && group.service_types.length === 0)) {
+      return queue;
+    }
+
+    let servingIds: number[] | null = null;
+    if (group.counter_ids.length > 0) {
+      const counters = await CachedQueueService.getDisplayCounters();
+      servingIds = counters
+        .filter((counter) => group.counter_ids.includes(counter.id) && counter.current_customer)
+        .map((counter) => counter.current_customer!.id);
+    }
+
+    let position = 0;
+    return queue
+      .filter((item) => {
+        if (item.customer.queue_status === 'serving') {
+          return servingIds === null || servingIds.includes(item.customer_id);
+        }
+        return group.service_types.length === 0 || group.service_types.includes(item.customer.service_type);
+      })
+      .map((item) => (item.position > 0 ? { ...item, position: ++position } : item));
   }
 
   /**
@@ -32,7 +60,7 @@ export class DisplayService {
    */
   static shouldDisplayStatus(status: string): boolean {
     // Display exclusion rule: hide processing status from public monitors
-    const displayableStatuses = ['waiting', 'serving'];
+    const displayableStatuses = ['waiting', 'serving', 'on_hold'];
     return displayableStatuses.includes(status.toLowerCase());
   }
 
@@ -44,6 +72,7 @@ export class DisplayService {
   static async getDisplayStatistics(): Promise<{
     totalWaiting: number;
     totalServing: number;
+    totalOnHold: number;
     averageWaitTime: number;
   }> {
     const displayQueue = await this.getDisplayQueue();
@@ -56,6 +85,10 @@ export class DisplayService {
       item.customer.queue_status === 'serving'
     );
 
+    const onHoldCustomers = displayQueue.filter(item => 
+      item.customer.queue_status === 'on_hold'
+    );
+
     // Calculate average wait time for waiting customers
     const averageWaitTime = waitingCustomers.length > 0
       ? waitingCustomers.reduce((sum, item) => sum + item.estimated_wait_time, 0) / waitingCustomers.length
@@ -64,6 +97,7 @@ export class DisplayService {
     return {
       totalWaiting: waitingCustomers.length,
       totalServing: servingCustomers.length,
+      totalOnHold: onHoldCustomers.length,
       averageWaitTime: Math.round(averageWaitTime)
     };
   }
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+
+// How many recent events a reconnecting client can catch up on
+const BUFFER_SIZE = 500;
+
+export interface StreamEvent {
+  seq: number;
+  room: string;
+  event: string;
+  payload: any;
+}
+
+export interface ResumeRequest {
+  epoch?: string;
+  last_seq?: number;
+}
+
+export interface ResumeResult {
+  // resync_required: the missed events are gone (or the server restarted), fetch everything again
+  status: 'ok' | 'resync_required';
+  epoch: string;
+  last_seq: number;
+  events: StreamEvent[];
+}
+
+/**
+ * Sequence numbers for the queue and transaction events sent over the WebSocket.
+ *
+ * Every recorded event gets the next number and goes into a bounded buffer. A client that
+ * reconnects sends the last number it saw and gets the events it missed in its rooms, or is
+ * told to resync when they have left the buffer. The epoch changes on every server start,
+ * since numbering starts over. Each backend instance keeps its own buffer.
+ */
+export class EventStreamService {
+  private static epoch = crypto.randomBytes(6).toString('hex');
+  private static seq = 0;
+  private static buffer: StreamEvent[] = [];
+
+  /**
+   * Number an event about to be sent to a room
+   * @returns the payload to send, with seq and epoch added
+   */
+  static record(room: string, event: string, payload: any): any {
+    const stamped = { ...payload, seq: ++this.seq, epoch: this.epoch };
+    this.buffer.push({ seq: this.seq, room, event, payload: stamped });
+    if (this.buffer.length > BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+    return stamped;
+  }
+
+  /**
+   * The events after the client's last one, in the given rooms. A client without a position
+   * just learns the current one.
+   */
+  static resume(request: ResumeRequest, rooms: Set<string>): ResumeResult {
+    const position = { epoch: this.epoch, last_seq: this.seq };
+    const lastSeq = request.last_seq;
+
+    if (request.epoch === undefined && lastSeq === undefined) {
+      return { status: 'ok', ...position, events: [] };
+    }
+
+    const oldestSeq = this.buffer.length > 0 ? this.buffer[0].seq : this.seq + 1;
+    if (request.epoch !== this.epoch || !Number.isInteger(lastSeq) ||
+        lastSeq! > this.seq || lastSeq! < oldestSeq - 1) {
+      return { status: 'resync_required', ...position, events: [] };
+    }
+
+    return {
+      status: 'ok',
+      ...position,
+      events: this.buffer.filter((entry) => entry.seq > lastSeq! && rooms.has(entry.room))
+    };
+  }
+}
@@ -2,8 +2,12 @@ import ExcelJS from 'exceljs';
 import { jsPDF } from 'jspdf';
 import axios from 'axios';
 import { CustomerService } from './customer';
-import { Customer } from '../types';
+import { Customer, Prescription } from '../types';
 import { config } from '../config/config';
+import { formatEyePrescription, normalizePrescription, PRESCRIPTION_TABLE_HEADERS, prescriptionTableRows } from '../utils/prescription';
+
+// Stands in the PDF detail lines where the prescription table is drawn
+const PRESCRIPTION_TABLE = '[prescription table]';
 
 export class ExportService {
   private static GOOGLE_SHEETS_URL = config.GOOGLE_SHEETS_URL;
@@ -117,23 +121,7 @@ export class ExportService {
     });
     
     // Handle complex objects with fallbacks
-    if (!validatedCustomer.prescription || typeof validatedCustomer.prescription !== 'object') {
-      validatedCustomer.prescription = {
-        od: 'Not Specified',
-        os: 'Not Specified', 
-        ou: 'Not Specified',
-        pd: 'Not Specified',
-        add: 'Not Specified'
-      };
-    } else {
-      validatedCustomer.prescription = {
-        od: validatedCustomer.prescription.od || 'Not Specified',
-        os: validatedCustomer.prescription.os || 'Not Specified',
-        ou: validatedCustomer.prescription.ou || 'Not Specified', 
-        pd: validatedCustomer.prescription.pd || 'Not Specified',
-        add: validatedCustomer.prescription.add || 'Not Specified'
-      };
-    }
+    validatedCustomer.prescription = normalizePrescription(validatedCustomer.prescription);
     
     if (!validatedCustomer.payment_info || typeof validatedCustomer.payment_info !== 'object') {
       validatedCustomer.payment_info = {
@@ -186,10 +174,10 @@ export class ExportService {
       const headers = [
         'Customer Name', 'Contact Number', 'Email', 'Age', 'Address',
         'Occupation', 'Distribution Method', 'Sales Agent', 'Doctor Assigned',
-        'OD (Right Eye)', 'OS (Left Eye)', 'OU (Both Eyes)', 'PD (Pupillary Distance)',
-        'ADD (Addition)', 'Grade Type', 'Lens Type', 'Frame Code', 'Payment Method',
+        'OD (Right Eye)', 'OS (Left Eye)', 'PD (Pupillary Distance)', 'Prescription Notes',
+        'Grade Type', 'Lens Type', 'Frame Code', 'Payment Method',
         'Payment Amount', 'OR Number', 'Priority Flags', 'Remarks', 'Queue Status', 'Token Number',
-        'Estimated Time (min)', 'Registration Date'
+        'Estimated Time (min)', 'Registration Date', 'Released', 'Released To'
       ];
 
       worksheet.addRow(headers);
@@ -214,6 +202,20 @@ export class ExportService {
         column.width = 15;
       });
 
+      // The prescription in table layout, one row per eye
+      const prescriptionSheet = workbook.addWorksheet('Prescription');
+      prescriptionSheet.addRow(PRESCRIPTION_TABLE_HEADERS);
+      prescriptionTableRows(validatedCustomer.prescription).forEach(row => prescriptionSheet.addRow(row));
+      prescriptionSheet.getRow(1).font = { bold: true };
+      prescriptionSheet.getColumn(1).font = { bold: true };
+      if (validatedCustomer.prescription.notes) {
+        prescriptionSheet.addRow([]);
+        prescriptionSheet.addRow(['Notes', validatedCustomer.prescription.notes]);
+      }
+      prescriptionSheet.columns.forEach(column => {
+        column.width = 12;
+      });
+
       if (exportId) this.updateProgress(exportId, 80, 'Generating Excel file...');
 
       // Generate buffer
@@ -280,11 +282,7 @@ export class ExportService {
         `Doctor Assigned: ${this.sanitizeTextForPDF(customer.doctor_assigned || 'N/A')}`,
         '',
         'Prescription Details:',
-        `OD (Right Eye): ${this.sanitizeTextForPDF(customer.prescription?.od || 'N/A')}`,
-        `OS (Left Eye): ${this.sanitizeTextForPDF(customer.prescription?.os || 'N/A')}`,
-        `OU (Both Eyes): ${this.sanitizeTextForPDF(customer.prescription?.ou || 'N/A')}`,
-        `PD (Pupillary Distance): ${this.sanitizeTextForPDF(customer.prescription?.pd || 'N/A')}`,
-        `ADD (Addition): ${this.sanitizeTextForPDF(customer.prescription?.add || 'N/A')}`,
+        PRESCRIPTION_TABLE,
         `Grade Type: ${this.sanitizeTextForPDF(customer.grade_type || 'N/A')}`,
         `Lens Type: ${this.sanitizeTextForPDF(customer.lens_type || 'N/A')}`,
         `Frame Code: ${this.sanitizeTextForPDF(customer.frame_code || 'N/A')}`,
@@ -300,7 +298,8 @@ export class ExportService {
         `Queue Status: ${customer.queue_status || 'Unknown'}`,
         `Token Number: #${customer.token_number || 'N/A'}`,
         `Estimated Time: ${this.formatEstimatedTime(customer.estimated_time)}`,
-        `Registration Date: ${customer.created_at ? new Date(customer.created_at).toLocaleDateString() : 'N/A'}`
+        `Registration Date: ${customer.created_at ? new Date(customer.created_at).toLocaleDateString() : 'N/A'}`,
+        `Released: ${this.formatRelease(customer)}`
       ];
 
       customerInfo.forEach((line, index) => {
@@ -309,6 +308,10 @@ export class ExportService {
             y += lineHeight / 2;
             return;
           }
+          if (line === PRESCRIPTION_TABLE) {
+            y = this.drawPrescriptionTable(doc, customer.prescription, 20, y);
+            return;
+          }
           
           // Set font style based on content
           if (line.includes(':') && !line.startsWith('  ')) {
@@ -483,10 +486,10 @@ export class ExportService {
       const headers = [
         'Customer Name', 'Contact Number', 'Email', 'Age', 'Address',
         'Occupation', 'Distribution Method', 'Sales Agent', 'Doctor Assigned',
-        'OD (Right Eye)', 'OS (Left Eye)', 'OU (Both Eyes)', 'PD (Pupillary Distance)',
-        'ADD (Addition)', 'Grade Type', 'Lens Type', 'Frame Code', 'Payment Method',
+        'OD (Right Eye)', 'OS (Left Eye)', 'PD (Pupillary Distance)', 'Prescription Notes',
+        'Grade Type', 'Lens Type', 'Frame Code', 'Payment Method',
         'Payment Amount', 'OR Number', 'Priority Flags', 'Remarks', 'Queue Status', 'Token Number',
-        'Estimated Time (min)', 'Registration Date'
+        'Estimated Time (min)', 'Registration Date', 'Released', 'Released To'
       ];
 
       worksheet.addRow(headers);
@@ -835,11 +838,10 @@ export class ExportService {
       customer.distribution_info || '',
       customer.sales_agent_name || '',
       customer.doctor_assigned || '',
-      customer.prescription?.od || 'N/A',
-      customer.prescription?.os || 'N/A',
-      customer.prescription?.ou || 'N/A',
-      customer.prescription?.pd || 'N/A',
-      customer.prescription?.add || 'N/A',
+      formatEyePrescription(customer.prescription?.od) || 'N/A',
+      formatEyePrescription(customer.prescription?.os) || 'N/A',
+      customer.prescription?.pd ? String(customer.prescription.pd) : 'N/A',
+      customer.prescription?.notes || '',
       customer.grade_type || '',
       customer.lens_type || '',
       customer.frame_code || '',
@@ -851,10 +853,60 @@ export class ExportService {
       customer.queue_status || '',
       customer.token_number || '',
       this.formatEstimatedTime(customer.estimated_time),
-      customer.created_at ? new Date(customer.created_at).toLocaleDateString() : 'N/A'
+      customer.created_at ? new Date(customer.created_at).toLocaleDateString() : 'N/A',
+      customer.released_at ? new Date(customer.released_at).toLocaleString() : 'Not released',
+      customer.released_to || ''
     ];
   }
 
+  /**
+   * When the order was released and to whom, for the PDF details
+   */
+  private static formatRelease(customer: Customer): string {
+    if (!customer.released_at) {
+      return 'Not released';
+    }
+    return `${new Date(customer.released_at).toLocaleString()} to ${this.sanitizeTextForPDF(customer.released_to || 'N/A')}`;
+  }
+
+  /**
+   * Draw the prescription as a grid, one row per eye, with its notes underneath
+   * @returns The y position below the table
+   */
+  static drawPrescriptionTable(doc: jsPDF, prescription: Prescription | null | undefined, x: number, y: number): number {
+    const widths = [26, 18, 18, 16, 18, 18, 16, 16];
+    const rowHeight = 7;
+    const fontSize = doc.getFontSize();
+    const rows = [PRESCRIPTION_TABLE_HEADERS, ...prescriptionTableRows(prescription)];
+    let top = y - 5;
+
+    doc.setFontSize(9);
+    doc.setLineWidth(0.2);
+    rows.forEach((row, rowIndex) => {
+      let left = x;
+      row.forEach((cell, cellIndex) => {
+        doc.setFont('helvetica', rowIndex === 0 || cellIndex === 0 ? 'bold' : 'normal');
+        doc.rect(left, top, widths[cellIndex], rowHeight);
+        doc.text(cell, left + 2, top + 5);
+        left += widths[cellIndex];
+      });
+      top += rowHeight;
+    });
+
+    let nextY = top + 5;
+    if (prescription?.notes) {
+      doc.setFont('helvetica', 'normal');
+      const lines: string[] = doc.splitTextToSize(`Notes: ${this.sanitizeTextForPDF(prescription.notes)}`, 170);
+      lines.forEach((line) => {
+        doc.text(line, x, nextY);
+        nextY += 5;
+      });
+    }
+
+    doc.setFontSize(fontSize);
+    return nextY + 3;
+  }
+
   /**
    * Format payment mode for display
    */
@@ -926,10 +978,10 @@ export class ExportService {
     const headers = [
       'Customer Name', 'Contact Number', 'Email', 'Age', 'Address',
       'Occupation', 'Distribution Method', 'Sales Agent', 'Doctor Assigned',
-      'OD (Right Eye)', 'OS (Left Eye)', 'OU (Both Eyes)', 'PD (Pupillary Distance)',
-      'ADD (Addition)', 'Grade Type', 'Lens Type', 'Frame Code', 'Payment Method',
+      'OD (Right Eye)', 'OS (Left Eye)', 'PD (Pupillary Distance)', 'Prescription Notes',
+      'Grade Type', 'Lens Type', 'Frame Code', 'Payment Method',
       'Payment Amount', 'OR Number', 'Priority Flags', 'Remarks', 'Queue Status', 'Token Number',
-      'Estimated Time (min)', 'Registration Date'
+      'Estimated Time (min)', 'Registration Date', 'Released', 'Released To'
     ];
 
     worksheet.addRow(headers);
@@ -1056,11 +1108,7 @@ export class ExportService {
         `Doctor Assigned: ${this.sanitizeTextForPDF(customer.doctor_assigned || 'N/A')}`,
         '',
         'Prescription Details:',
-        `OD (Right Eye): ${this.sanitizeTextForPDF(customer.prescription?.od || 'N/A')}`,
-        `OS (Left Eye): ${this.sanitizeTextForPDF(customer.prescription?.os || 'N/A')}`,
-        `OU (Both Eyes): ${this.sanitizeTextForPDF(customer.prescription?.ou || 'N/A')}`,
-        `PD (Pupillary Distance): ${this.sanitizeTextForPDF(customer.prescription?.pd || 'N/A')}`,
-        `ADD (Addition): ${this.sanitizeTextForPDF(customer.prescription?.add || 'N/A')}`,
+        PRESCRIPTION_TABLE,
         `Grade Type: ${this.sanitizeTextForPDF(customer.grade_type || 'N/A')}`,
         `Lens Type: ${this.sanitizeTextForPDF(customer.lens_type || 'N/A')}`,
         `Frame Code: ${this.sanitizeTextForPDF(customer.frame_code || 'N/A')}`,
@@ -1076,7 +1124,8 @@ export class ExportService {
         `Queue Status: ${customer.queue_status || 'Unknown'}`,
         `Token Number: #${customer.token_number || 'N/A'}`,
         `Estimated Time: ${this.formatEstimatedTime(customer.estimated_time)}`,
-        `Registration Date: ${customer.created_at ? new Date(customer.created_at).toLocaleDateString() : 'N/A'}`
+        `Registration Date: ${customer.created_at ? new Date(customer.created_at).toLocaleDateString() : 'N/A'}`,
+        `Released: ${this.formatRelease(customer)}`
       ];
 
       // Set text color
@@ -1088,6 +1137,10 @@ export class ExportService {
             y += lineHeight / 2;
             return;
           }
+          if (line === PRESCRIPTION_TABLE) {
+            y = this.drawPrescriptionTable(doc, customer.prescription, 20, y);
+            return;
+          }
           
           // Set font style based on content
           if (line.includes(':') && !line.startsWith('  ')) {
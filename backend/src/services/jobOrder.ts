@@ -0,0 +1,437 @@
+import { pool } from '../config/database';
+import { JobOrder, JobOrderEvent } from '../types';
+import { SettingsService, JobOrderSettings } from './settings';
+import { EnhancedSMSService } from './EnhancedSMSService';
+import { WebSocketService } from './websocket';
+
+const STAGE_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+const MAX_STAGES = 20;
+const MAX_TURNAROUND_DAYS = 60;
+
+const DEFAULT_SETTINGS: JobOrderSettings = {
+  stages: [
+    { key: 'lens_ordered', label: 'Lens Ordered', ready: false, final: false },
+    { key: 'at_lab', label: 'At Lab', ready: false, final: false },
+    { key: 'edging', label: 'Edging', ready: false, final: false },
+    { key: 'qc', label: 'Quality Check', ready: false, final: false },
+    { key: 'ready', label: 'Ready for Release', ready: true, final: false },
+    { key: 'released', label: 'Released', ready: false, final: true }
+  ],
+  defaultTurnaroundDays: 3
+};
+
+const JOB_ORDER_COLUMNS = `
+  j.*, c.name as customer_name, c.contact_number, c.or_number, u.full_name as created_by_name
+`;
+
+const JOB_ORDER_JOINS = `
+  JOIN customers c ON c.id = j.customer_id
+  LEFT JOIN users u ON u.id = j.created_by
+`;
+
+export interface CreateJobOrderData {
+  customer_id: number;
+  transaction_id?: number | null;
+  expected_ready_at?: Date | null;
+  lab_name?: string | null;
+  notes?: string | null;
+}
+
+export interface UpdateJobOrderData {
+  expected_ready_at?: Date | null;
+  lab_name?: string | null;
+  notes?: string | null;
+}
+
+export interface JobOrderFilters {
+  customerId?: number;
+  includeFinal?: boolean; // final stages (e.g. released) are left out unless asked for
+}
+
+/**
+ * Job orders: eyewear being made after the visit, tracked through configurable stages.
+ *
+ * The queue status ends when the customer leaves the shop; a job order follows the pair from
+ * lens ordering to release. Every stage or expected-ready change is kept as an event, so each
+ * stage has the time it was reached. Reaching a `ready` stage texts the customer that the order
+ * is ready for pickup, and pushing the expected-ready date later texts them the new estimate.
+ */
+export class JobOrderService {
+  static async getSettings(): Promise<JobOrderSettings> {
+    try {
+      return await SettingsService.getJobOrderSettings();
+    } catch (error) {
+      console.error('Failed to load job order settings, using defaults:', error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  /**
+   * Validate a (partial) job order settings update
+   * @returns an error message, or null if the settings are acceptable
+   */
+  static validateSettings(settings: Partial<JobOrderSettings>): string | null {
+    for (const key of Object.keys(settings)) {
+      if (key !== 'stages' && key !== 'defaultTurnaroundDays') {
+        return `Unknown job order setting: ${key}`;
+      }
+    }
+
+    const { stages, defaultTurnaroundDays } = settings;
+    if (defaultTurnaroundDays !== undefined) {
+      if (typeof defaultTurnaroundDays !== 'number' || !Number.isInteger(defaultTurnaroundDays)) {
+        return 'defaultTurnaroundDays must be a whole number';
+      }
+      if (defaultTurnaroundDays < 0 || defaultTurnaroundDays > MAX_TURNAROUND_DAYS) {
+        return `defaultTurnaroundDays must be between 0 and ${MAX_TURNAROUND_DAYS}`;
+      }
+    }
+
+    if (stages !== undefined) {
+      if (!Array.isArray(stages) || stages.length < 2 || stages.length > MAX_STAGES) {
+        return `stages must be a list of 2 to ${MAX_STAGES} stages`;
+      }
+
+      const keys = new Set<string>();
+      for (const stage of stages) {
+        if (!stage || typeof stage.key !== 'string' || !STAGE_KEY_PATTERN.test(stage.key)) {
+          return 'Stage keys must be lowercase letters, digits and underscores, starting with a letter';
+        }
+        if (keys.has(stage.key)) {
+          return `Duplicate stage: ${stage.key}`;
+        }
+        keys.add(stage.key);
+        if (typeof stage.label !== 'string' || !stage.label.trim() || stage.label.length > 50) {
+          return `Stage ${stage.key} needs a label of at most 50 characters`;
+        }
+        if (typeof stage.ready !== 'boolean' || typeof stage.final !== 'boolean') {
+          return `Stage ${stage.key} must say whether it is ready and whether it is final`;
+        }
+        if (stage.ready && stage.final) {
+          return `Stage ${stage.key} cannot be both ready and final`;
+        }
+      }
+
+      if (stages[0].final) {
+        return 'The first stage cannot be final';
+      }
+      if (!stages.some((stage) => stage.final)) {
+        return 'At least one stage must be final';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Stages that job orders are at, so a stage still in use isn't removed from the settings
+   */
+  static async stagesInUse(): Promise<string[]> {
+    const result = await pool.query('SELECT DISTINCT stage FROM job_orders');
+    return result.rows.map((row: any) => row.stage);
+  }
+
+  /**
+   * Start a job order at the first stage. Without a transaction it is tied to the customer's
+   * latest one; without an expected-ready date it gets the default turnaround.
+   * @throws Error('Customer not found')
+   * @throws Error('Transaction does not belong to this customer')
+   */
+  static async create(data: CreateJobOrderData, userId?: number, now: Date = new Date()): Promise<JobOrder> {
+    const settings = await this.getSettings();
+
+    const client = await pool.connect();
+    let jobOrderId: number;
+    try {
+      await client.query('BEGIN');
+
+      const customerResult = await client.query('SELECT id FROM customers WHERE id = $1', [data.customer_id]);
+      if (customerResult.rows.length === 0) {
+        throw new Error('Customer not found');
+      }
+
+      let transactionId: number | null = null;
+      if (data.transaction_id) {
+        const transactionResult = await client.query(
+          'SELECT id FROM transactions WHERE id = $1 AND customer_id = $2',
+          [data.transaction_id, data.customer_id]
+        );
+        if (transactionResult.rows.length === 0) {
+          throw new Error('Transaction does not belong to this customer');
+        }
+        transactionId = data.transaction_id;
+      } else {
+        const latestResult = await client.query(
+          'SELECT id FROM transactions WHERE customer_id = $1 ORDER BY transaction_date DESC, id DESC LIMIT 1',
+          [data.customer_id]
+        );
+        transactionId = latestResult.rows[0]?.id ?? null;
+      }
+
+      const expectedReadyAt = data.expected_ready_at
+        || new Date(now.getTime() + settings.defaultTurnaroundDays * 24 * 60 * 60 * 1000);
+      const stage = settings.stages[0].key;
+
+      const result = await client.query(`
+        INSERT INTO job_orders (customer_id, transaction_id, stage, expected_ready_at, lab_name, notes, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING id
+      `, [
+        data.customer_id,
+        transactionId,
+        stage,
+        expectedReadyAt,
+        data.lab_name?.trim() || null,
+        data.notes?.trim() || null,
+        userId || null
+      ]);
+      jobOrderId = result.rows[0].id;
+
+      await this.recordEvent(client, jobOrderId, stage, expectedReadyAt, null, userId);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const jobOrder = (await this.findById(jobOrderId))!;
+    await this.emitUpdate('job_order_created', jobOrder);
+    return jobOrder;
+  }
+
+  /**
+   * A job order with its stage history
+   */
+  static async findById(id: number): Promise<JobOrder | null> {
+    const result = await pool.query(`
+      SELECT ${JOB_ORDER_COLUMNS}
+      FROM job_orders j
+      ${JOB_ORDER_JOINS}
+      WHERE j.id = $1
+    `, [id]);
+
+    const jobOrder: JobOrder | undefined = result.rows[0];
+    if (!jobOrder) {
+      return null;
+    }
+
+    const eventsResult = await pool.query(`
+      SELECT e.*, u.full_name as changed_by_name
+      FROM job_order_events e
+      LEFT JOIN users u ON u.id = e.changed_by
+      WHERE e.job_order_id = $1
+      ORDER BY e.created_at, e.id
+    `, [id]);
+    jobOrder.events = eventsResult.rows as JobOrderEvent[];
+
+    return jobOrder;
+  }
+
+  /**
+   * Job orders for the board, soonest expected first
+   */
+  static async list(filters: JobOrderFilters = {}): Promise<JobOrder[]> {
+    const params: any[] = [];
+    const conditions: string[] = [];
+
+    if (filters.customerId) {
+      params.push(filters.customerId);
+      conditions.push(`j.customer_id = $${params.length}`);
+    }
+    if (!filters.includeFinal) {
+      const settings = await this.getSettings();
+      params.push(settings.stages.filter((stage) => stage.final).map((stage) => stage.key));
+      conditions.push(`j.stage <> ALL($${params.length})`);
+    }
+
+    const result = await pool.query(`
+      SELECT ${JOB_ORDER_COLUMNS}
+      FROM job_orders j
+      ${JOB_ORDER_JOINS}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY j.expected_ready_at NULLS LAST, j.id
+    `, params);
+
+    return result.rows;
+  }
+
+  /**
+   * Move a job order to another stage, in either direction (e.g. back to edging after a failed QC)
+   * @throws Error('Unknown stage')
+   * @throws Error('Job order not found')
+   * @throws Error('Job order is already at this stage')
+   */
+  static async moveToStage(id: number, stageKey: string, userId?: number, note?: string | null): Promise<JobOrder> {
+    const settings = await this.getSettings();
+    const stage = settings.stages.find((candidate) => candidate.key === stageKey);
+    if (!stage) {
+      throw new Error('Unknown stage');
+    }
+
+    const client = await pool.connect();
+    let previousStage: string;
+    try {
+      await client.query('BEGIN');
+
+      const current = await this.lockJobOrder(client, id);
+      if (current.stage === stageKey) {
+        throw new Error('Job order is already at this stage');
+      }
+      previousStage = current.stage;
+
+      await client.query(`
+        UPDATE job_orders
+        SET stage = $2, stage_changed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [id, stageKey]);
+      await this.recordEvent(client, id, stageKey, current.expected_ready_at, note?.trim() || null, userId);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const jobOrder = (await this.findById(id))!;
+    await this.emitUpdate('job_order_stage_changed', jobOrder);
+    const wasReady = settings.stages.find((candidate) => candidate.key === previousStage)?.ready;
+    if (stage.ready && !wasReady) {
+      await this.notifyReady(jobOrder);
+    }
+    return jobOrder;
+  }
+
+  /**
+   * Update the expected-ready date, lab or notes. A later expected-ready date is recorded as an
+   * event and, while the order isn't ready yet, texted to the customer.
+   * @throws Error('Job order not found')
+   */
+  static async update(id: number, updates: UpdateJobOrderData, userId?: number, now: Date = new Date()): Promise<JobOrder> {
+    const client = await pool.connect();
+    let previousReadyAt: Date | null;
+    let dateChanged = false;
+    try {
+      await client.query('BEGIN');
+
+      const current = await this.lockJobOrder(client, id);
+      previousReadyAt = current.expected_ready_at ? new Date(current.expected_ready_at) : null;
+
+      const fields: string[] = [];
+      const params: any[] = [id];
+      if (updates.expected_ready_at !== undefined) {
+        params.push(updates.expected_ready_at);
+        fields.push(`expected_ready_at = $${params.length}`);
+        dateChanged = (previousReadyAt?.getTime() ?? null) !== (updates.expected_ready_at?.getTime() ?? null);
+      }
+      if (updates.lab_name !== undefined) {
+        params.push(updates.lab_name?.trim() || null);
+        fields.push(`lab_name = $${params.length}`);
+      }
+      if (updates.notes !== undefined) {
+        params.push(updates.notes?.trim() || null);
+        fields.push(`notes = $${params.length}`);
+      }
+
+      if (fields.length > 0) {
+        await client.query(`
+          UPDATE job_orders
+          SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+        `, params);
+      }
+      if (dateChanged) {
+        await this.recordEvent(client, id, current.stage, updates.expected_ready_at!, null, userId);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const jobOrder = (await this.findById(id))!;
+    await this.emitUpdate('job_order_updated', jobOrder);
+    const newReadyAt = updates.expected_ready_at;
+    if (dateChanged && newReadyAt && previousReadyAt && newReadyAt.getTime() > previousReadyAt.getTime()) {
+      const settings = await this.getSettings();
+      const stage = settings.stages.find((candidate) => candidate.key === jobOrder.stage);
+      if (!stage?.ready && !stage?.final) {
+        await this.notifyDelay(jobOrder, newReadyAt, now);
+      }
+    }
+    return jobOrder;
+  }
+
+  private static async lockJobOrder(client: any, id: number): Promise<JobOrder> {
+    const result = await client.query('SELECT * FROM job_orders WHERE id = $1 FOR UPDATE', [id]);
+    if (result.rows.length === 0) {
+      throw new Error('Job order not found');
+    }
+    return result.rows[0];
+  }
+
+  private static async recordEvent(
+    client: any,
+    jobOrderId: number,
+    stage: string,
+    expectedReadyAt: Date | null,
+    note: string | null,
+    userId?: number
+  ): Promise<void> {
+    await client.query(`
+      INSERT INTO job_order_events (job_order_id, stage, expected_ready_at, note, changed_by)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [jobOrderId, stage, expectedReadyAt, note, userId || null]);
+  }
+
+  private static async emitUpdate(type: string, jobOrder: JobOrder): Promise<void> {
+    try {
+      await WebSocketService.emitQueueUpdate({ type, jobOrder, timestamp: new Date() });
+    } catch (error) {
+      console.error(`Failed to emit ${type} update:`, error);
+      // Don't fail the operation if WebSocket fails
+    }
+  }
+
+  private static async notifyReady(jobOrder: JobOrder): Promise<void> {
+    if (!jobOrder.contact_number) {
+      return;
+    }
+    try {
+      await EnhancedSMSService.sendCustomerReadyNotification(
+        jobOrder.customer_id,
+        jobOrder.contact_number,
+        jobOrder.customer_name,
+        jobOrder.or_number
+      );
+    } catch (error) {
+      console.error(`Failed to send ready SMS for job order ${jobOrder.id}:`, error);
+      // Don't fail the stage change if the SMS fails
+    }
+  }
+
+  private static async notifyDelay(jobOrder: JobOrder, expectedReadyAt: Date, now: Date): Promise<void> {
+    if (!jobOrder.contact_number) {
+      return;
+    }
+    try {
+      const minutes = Math.max(1, Math.ceil((expectedReadyAt.getTime() - now.getTime()) / 60000));
+      await EnhancedSMSService.sendDelayNotification(
+        jobOrder.customer_id,
+        jobOrder.contact_number,
+        jobOrder.customer_name,
+        minutes
+      );
+    } catch (error) {
+      console.error(`Failed to send delay SMS for job order ${jobOrder.id}:`, error);
+      // Don't fail the update if the SMS fails
+    }
+  }
+}
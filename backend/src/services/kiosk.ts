@@ -0,0 +1,269 @@
+import crypto from 'crypto';
+import { pool } from '../config/database';
+import {
+  Customer,
+  DistributionType,
+  KioskDevice,
+  KioskTicket,
+  PaymentMode,
+  PriorityFlags,
+  QueueStatus,
+  ServiceType
+} from '../types';
+import { CustomerService } from './customer';
+import { QueueService } from './queue';
+
+const DEVICE_COLUMNS = `
+  kd.id, kd.name, kd.is_active, kd.last_seen_at, kd.created_by, u.full_name as created_by_name,
+  kd.created_at, kd.revoked_at
+`;
+
+// A returning customer still in one of these today gets their ticket again instead of a new one
+const IN_LINE_STATUSES = [QueueStatus.WAITING, QueueStatus.SERVING, QueueStatus.PROCESSING, QueueStatus.ON_HOLD];
+
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export interface KioskLookup {
+  or_number?: string;
+  contact_number?: string;
+  last_name?: string; // required with contact_number; a phone number alone is not enough
+  service_type?: ServiceType;
+  priority_flags?: PriorityFlags;
+}
+
+export interface KioskRegistration {
+  name: string;
+  contact_number: string;
+  email?: string | null;
+  age: number;
+  service_type?: ServiceType;
+  priority_flags?: PriorityFlags;
+}
+
+/**
+ * Self-service kiosks.
+ *
+ * A kiosk is a device an admin registered; it gets a random key once and sends it with every
+ * request (see authenticateKiosk). Customers register through CustomerService.create like any
+ * walk-in, but the kiosk only collects a short form, so the record is flagged details_pending
+ * until a sales agent fills in the prescription and payment details.
+ */
+export class KioskService {
+  /**
+   * Register a kiosk device
+   * @returns the device and its key; the key is not stored and can't be shown again
+   */
+  static async createDevice(name: string, userId?: number): Promise<{ device: KioskDevice; key: string }> {
+    const key = crypto.randomBytes(24).toString('hex');
+
+    const result = await pool.query(`
+      INSERT INTO kiosk_devices (name, key_hash, created_by)
+      VALUES ($1, $2, $3)
+      RETURNING id
+    `, [name, this.hashKey(key), userId || null]);
+
+    const device = (await this.findDevice(result.rows[0].id))!;
+    return { device, key };
+  }
+
+  static async listDevices(): Promise<KioskDevice[]> {
+    const result = await pool.query(`
+      SELECT ${DEVICE_COLUMNS}
+      FROM kiosk_devices kd
+      LEFT JOIN users u ON u.id = kd.created_by
+      ORDER BY kd.is_active DESC, kd.created_at DESC
+    `);
+
+    return result.rows;
+  }
+
+  /**
+   * Stop accepting a device's key
+   * @throws Error('Kiosk device not found')
+   * @throws Error('Kiosk device is already revoked')
+   */
+  static async revokeDevice(id: number): Promise<KioskDevice> {
+    const result = await pool.query(`
+      UPDATE kiosk_devices
+      SET is_active = false, revoked_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND is_active = true
+      RETURNING id
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      const existing = await this.findDevice(id);
+      throw new Error(existing ? 'Kiosk device is already revoked' : 'Kiosk device not found');
+    }
+
+    return (await this.findDevice(id))!;
+  }
+
+  /**
+   * The active device a key belongs to, or null
+   */
+  static async authenticate(key: string): Promise<KioskDevice | null> {
+    const result = await pool.query(`
+      UPDATE kiosk_devices
+      SET last_seen_at = CURRENT_TIMESTAMP
+      WHERE key_hash = $1 AND is_active = true
+      RETURNING id, name, is_active, last_seen_at, created_by, created_at, revoked_at
+    `, [this.hashKey(key)]);
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Check in a returning customer by OR number, or by contact number and last name. Someone already in line
+   * today gets their ticket again; otherwise a new visit is registered from their last one.
+   * @throws Error('Customer not found')
+   * @throws Error('Registration is closed: <reason>') from CustomerService.create
+   */
+  static async checkIn(lookup: KioskLookup, deviceId: number): Promise<KioskTicket> {
+    const previous = await this.findReturningCustomer(lookup);
+    if (!previous) {
+      throw new Error('Customer not found');
+    }
+
+    if (this.isInLineToday(previous)) {
+      return this.toTicket(previous, true);
+    }
+
+    // Senior and PWD status carry over from the last visit; pregnancy doesn't
+    const priorityFlags = lookup.priority_flags || {
+      senior_citizen: !!previous.priority_flags?.senior_citizen,
+      pregnant: false,
+      pwd: !!previous.priority_flags?.pwd
+    };
+
+    const customer = await CustomerService.create({
+      ...this.pendingDetails(),
+      name: previous.name,
+      contact_number: previous.contact_number,
+      email: previous.email,
+      age: previous.age,
+      address: previous.address,
+      occupation: previous.occupation,
+      distribution_info: previous.distribution_info,
+      priority_flags: priorityFlags,
+      service_type: lookup.service_type || previous.service_type,
+      kiosk_device_id: deviceId
+    });
+
+    return this.toTicket(customer, false);
+  }
+
+  /**
+   * Register a new customer from the kiosk's short form
+   * @throws Error('Registration is closed: <reason>') from CustomerService.create
+   */
+  static async register(data: KioskRegistration, deviceId: number): Promise<KioskTicket> {
+    const customer = await CustomerService.create({
+      ...this.pendingDetails(),
+      name: data.name,
+      contact_number: data.contact_number,
+      email: data.email || '',
+      age: data.age,
+      address: '',
+      distribution_info: DistributionType.PICKUP,
+      priority_flags: {
+        senior_citizen: !!data.priority_flags?.senior_citizen,
+        pregnant: !!data.priority_flags?.pregnant,
+        pwd: !!data.priority_flags?.pwd
+      },
+      service_type: data.service_type,
+      kiosk_device_id: deviceId
+    });
+
+    return this.toTicket(customer, false);
+  }
+
+  /**
+   * Most recent visit matching the OR number, or else the contact number together with the
+   * last name. Family members often share a phone, so the number alone could hand the kiosk
+   * user someone else's visit.
+   */
+  private static async findReturningCustomer(lookup: KioskLookup): Promise<Customer | null> {
+    if (lookup.or_number) {
+      return CustomerService.findByOrNumber(lookup.or_number.trim());
+    }
+
+    const lastName = normalizeName(lookup.last_name || '');
+    if (!lookup.contact_number || !lastName) {
+      return null;
+    }
+
+    const result = await pool.query(`
+      SELECT id, name FROM customers
+      WHERE contact_number = $1
+      ORDER BY created_at DESC
+    `, [lookup.contact_number.trim()]);
+
+    const match = result.rows.find((row: { name: string }) => {
+      const name = normalizeName(row.name);
+      return name === lastName || name.endsWith(` ${lastName}`);
+    });
+    return match ? CustomerService.findById(match.id) : null;
+  }
+
+  private static isInLineToday(customer: Customer): boolean {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    return IN_LINE_STATUSES.includes(customer.queue_status) && new Date(customer.created_at) >= startOfDay;
+  }
+
+  // Fields the kiosk doesn't collect; the sales agent completing the record replaces them
+  private static pendingDetails() {
+    return {
+      sales_agent_id: null,
+      prescription: {},
+      grade_type: '',
+      lens_type: '',
+      estimated_time: { days: 0, hours: 0, minutes: 0 },
+      payment_info: { mode: PaymentMode.CASH, amount: 0 },
+      registration_source: 'kiosk' as const
+    };
+  }
+
+  private static async toTicket(customer: Customer, alreadyQueued: boolean): Promise<KioskTicket> {
+    let position: number | null = null;
+    let estimatedWait: number | null = null;
+    if (customer.queue_status === QueueStatus.WAITING) {
+      try {
+        position = await QueueService.getPosition(customer.id);
+        estimatedWait = (await QueueService.getEstimatedWaitTime(customer.id))?.minutes ?? null;
+      } catch (error) {
+        // The ticket is still valid without an estimate
+        console.error('Failed to estimate wait for kiosk ticket:', error);
+      }
+    }
+
+    return {
+      customer_id: customer.id,
+      // Only the first name; the ticket may be left on the kiosk or shown to the next person
+      first_name: customer.name.trim().split(/\s+/)[0],
+      token_number: customer.token_number,
+      token_code: customer.token_code || null,
+      service_type: customer.service_type,
+      queue_status: customer.queue_status,
+      position,
+      estimated_wait_minutes: estimatedWait,
+      already_queued: alreadyQueued,
+      issued_at: new Date()
+    };
+  }
+
+  private static async findDevice(id: number): Promise<KioskDevice | null> {
+    const result = await pool.query(`
+      SELECT ${DEVICE_COLUMNS}
+      FROM kiosk_devices kd
+      LEFT JOIN users u ON u.id = kd.created_by
+      WHERE kd.id = $1
+    `, [id]);
+
+    return result.rows[0] || null;
+  }
+
+  private static hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
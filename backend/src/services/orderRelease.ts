@@ -0,0 +1,341 @@
+import crypto from 'crypto';
+import { pool } from '../config/database';
+import { OrderRelease, ReleaseVerification } from '../types';
+import { EnhancedSMSService } from './EnhancedSMSService';
+import { JobOrderService } from './jobOrder';
+
+const CODE_LENGTH = 6;
+const CODE_TTL_MINUTES = 10;
+const MAX_CODE_ATTEMPTS = 5;
+
+// Texts cost money and a customer shouldn't be flooded: one code a minute, a few a day
+const RESEND_INTERVAL_SECONDS = 60;
+const MAX_CODES_PER_DAY = 5;
+
+// A signature drawn on the counter screen, as the canvas exports it
+const SIGNATURE_PATTERN = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+const MAX_SIGNATURE_LENGTH = 400000;
+
+const MAX_NAME_LENGTH = 255;
+
+export interface ReleaseData {
+  verification: ReleaseVerification;
+  code?: string; // the texted code, for sms_code
+  representative_name?: string; // for representative
+  signature: string;
+  override_balance?: boolean; // release although a balance is still owed (admins only)
+  override_reason?: string | null;
+}
+
+export interface ReleaseStatus {
+  release: OrderRelease | null;
+  balance_amount: number; // owed on the visit's transactions
+  code_expires_at: Date | null; // a texted code that can still be used
+}
+
+const hashCode = (code: string): string => crypto.createHash('sha256').update(code).digest('hex');
+
+/**
+ * Releasing eyewear at the counter.
+ *
+ * Whoever picks the order up is verified by a one-time code texted to the customer's contact
+ * number, or staff record the name of an authorized representative. Either way they sign on the
+ * screen. Orders with a balance are only released when an admin overrides. Releasing moves the
+ * visit's open job orders to their final stage.
+ */
+export class OrderReleaseService {
+  /**
+   * @returns An error message, or null when the release can be recorded
+   */
+  static validateRelease(data: Partial<ReleaseData>): string | null {
+    if (data.verification !== 'sms_code' && data.verification !== 'representative') {
+      return 'verification must be sms_code or representative';
+    }
+    if (data.verification === 'sms_code' && (typeof data.code !== 'string' || !data.code.trim())) {
+      return 'Enter the code texted to the customer';
+    }
+    if (data.verification === 'representative') {
+      if (typeof data.representative_name !== 'string' || !data.representative_name.trim()) {
+        return "Enter the representative's name";
+      }
+      if (data.representative_name.trim().length > MAX_NAME_LENGTH) {
+        return 'Representative name is too long';
+      }
+    }
+
+    if (typeof data.signature !== 'string' || !data.signature) {
+      return 'A signature is required';
+    }
+    if (data.signature.length > MAX_SIGNATURE_LENGTH) {
+      return 'Signature image is too large';
+    }
+    if (!SIGNATURE_PATTERN.test(data.signature)) {
+      return 'Signature must be a PNG image';
+    }
+
+    if (data.override_balance && (typeof data.override_reason !== 'string' || !data.override_reason.trim())) {
+      return 'Give a reason for releasing with a balance';
+    }
+    return null;
+  }
+
+  /**
+   * The visit's release, what it still owes and whether a code is waiting to be used
+   * @throws Error('Customer not found')
+   */
+  static async getStatus(customerId: number, now: Date = new Date()): Promise<ReleaseStatus> {
+    const customerResult = await pool.query('SELECT id FROM customers WHERE id = $1', [customerId]);
+    if (customerResult.rows.length === 0) {
+      throw new Error('Customer not found');
+    }
+
+    const [release, balance, codeResult] = await Promise.all([
+      this.findByCustomer(customerId),
+      this.getBalance(customerId),
+      pool.query(`
+        SELECT expires_at FROM release_codes
+        WHERE customer_id = $1 AND used_at IS NULL AND expires_at > $2 AND attempts < $3
+        ORDER BY created_at DESC
+        LIMIT 1
+      `, [customerId, now, MAX_CODE_ATTEMPTS])
+    ]);
+
+    return {
+      release,
+      balance_amount: balance.amount,
+      code_expires_at: release ? null : codeResult.rows[0]?.expires_at || null
+    };
+  }
+
+  static async findByCustomer(customerId: number): Promise<OrderRelease | null> {
+    const result = await pool.query(`
+      SELECT r.*, CAST(r.balance_amount AS NUMERIC)::FLOAT as balance_amount,
+             rb.full_name as released_by_name, ob.full_name as balance_override_by_name
+      FROM order_releases r
+      LEFT JOIN users rb ON rb.id = r.released_by
+      LEFT JOIN users ob ON ob.id = r.balance_override_by
+      WHERE r.customer_id = $1
+    `, [customerId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Text the customer a one-time code for claiming their order. A new code replaces any sent before.
+   * @throws Error('Customer not found')
+   * @throws Error('Order is already released')
+   * @throws Error('Customer has no contact number')
+   * @throws Error('A release code was just sent; wait a minute before sending another')
+   * @throws Error('Too many release codes sent today; try again tomorrow')
+   * @throws Error('Failed to send the release code')
+   */
+  static async sendCode(customerId: number, userId?: number, now: Date = new Date()): Promise<{ sent_to: string; expires_at: Date }> {
+    const customerResult = await pool.query(
+      'SELECT id, name, contact_number, or_number FROM customers WHERE id = $1',
+      [customerId]
+    );
+    const customer = customerResult.rows[0];
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    if (await this.findByCustomer(customerId)) {
+      throw new Error('Order is already released');
+    }
+    if (!customer.contact_number) {
+      throw new Error('Customer has no contact number');
+    }
+
+    const code = crypto.randomInt(0, 10 ** CODE_LENGTH).toString().padStart(CODE_LENGTH, '0');
+    const expiresAt = new Date(now.getTime() + CODE_TTL_MINUTES * 60000);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Locking the customer makes concurrent sends wait, so both limits hold
+      await client.query('SELECT id FROM customers WHERE id = $1 FOR UPDATE', [customerId]);
+      const sentResult = await client.query(`
+        SELECT COUNT(*) AS sent, MAX(created_at) AS last_sent_at
+        FROM release_codes
+        WHERE customer_id = $1 AND created_at > $2
+      `, [customerId, new Date(now.getTime() - 24 * 3600000)]);
+      const { sent, last_sent_at } = sentResult.rows[0] || {};
+
+      if (last_sent_at && now.getTime() - new Date(last_sent_at).getTime() < RESEND_INTERVAL_SECONDS * 1000) {
+        throw new Error('A release code was just sent; wait a minute before sending another');
+      }
+      if (Number(sent) >= MAX_CODES_PER_DAY) {
+        throw new Error('Too many release codes sent today; try again tomorrow');
+      }
+
+      await client.query(`
+        UPDATE release_codes SET expires_at = $2
+        WHERE customer_id = $1 AND used_at IS NULL AND expires_at > $2
+      `, [customerId, now]);
+      await client.query(`
+        INSERT INTO release_codes (customer_id, code_hash, expires_at, created_by, created_at)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [customerId, hashCode(code), expiresAt, userId || null, now]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const notification = await EnhancedSMSService.sendReleaseCodeNotification(
+      customerId,
+      customer.contact_number,
+      customer.name,
+      customer.or_number,
+      code,
+      CODE_TTL_MINUTES
+    );
+    if (notification.status === 'failed') {
+      throw new Error('Failed to send the release code');
+    }
+
+    return { sent_to: customer.contact_number, expires_at: expiresAt };
+  }
+
+  /**
+   * Record who picked up the order. A wrong code counts against the code's attempts.
+   * @throws Error('Customer not found')
+   * @throws Error('Order is already released')
+   * @throws Error('Order has an unpaid balance')
+   * @throws Error('No release code is waiting; send a new one')
+   * @throws Error('Too many wrong codes; send a new one')
+   * @throws Error('Wrong release code')
+   */
+  static async release(customerId: number, data: ReleaseData, userId?: number, now: Date = new Date()): Promise<OrderRelease> {
+    const codeId = data.verification === 'sms_code'
+      ? await this.checkCode(customerId, (data.code || '').trim(), now)
+      : null;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const customerResult = await client.query('SELECT id, name FROM customers WHERE id = $1 FOR UPDATE', [customerId]);
+      const customer = customerResult.rows[0];
+      if (!customer) {
+        throw new Error('Customer not found');
+      }
+
+      const existing = await client.query('SELECT id FROM order_releases WHERE customer_id = $1', [customerId]);
+      if (existing.rows.length > 0) {
+        throw new Error('Order is already released');
+      }
+
+      const balance = await this.getBalance(customerId, client);
+      const overridden = balance.amount > 0;
+      if (overridden && !data.override_balance) {
+        throw new Error('Order has an unpaid balance');
+      }
+
+      if (codeId !== null) {
+        const used = await client.query(
+          'UPDATE release_codes SET used_at = $2 WHERE id = $1 AND used_at IS NULL',
+          [codeId, now]
+        );
+        if (used.rowCount === 0) {
+          throw new Error('No release code is waiting; send a new one');
+        }
+      }
+
+      await client.query(`
+        INSERT INTO order_releases (
+          customer_id, transaction_id, verification, received_by, signature, balance_amount,
+          balance_override_by, balance_override_reason, released_by, released_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `, [
+        customerId,
+        balance.transactionId,
+        data.verification,
+        data.verification === 'representative' ? data.representative_name!.trim() : customer.name,
+        data.signature,
+        balance.amount,
+        overridden ? userId || null : null,
+        overridden ? data.override_reason?.trim() || null : null,
+        userId || null,
+        now
+      ]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const release = (await this.findByCustomer(customerId))!;
+    await this.closeJobOrders(customerId, release, userId);
+    return release;
+  }
+
+  /**
+   * The latest usable code when it matches; a mismatch is counted
+   * @returns The code's id
+   */
+  private static async checkCode(customerId: number, code: string, now: Date): Promise<number> {
+    const result = await pool.query(`
+      SELECT id, code_hash, attempts FROM release_codes
+      WHERE customer_id = $1 AND used_at IS NULL AND expires_at > $2
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [customerId, now]);
+    const stored = result.rows[0];
+    if (!stored) {
+      throw new Error('No release code is waiting; send a new one');
+    }
+    if (stored.attempts >= MAX_CODE_ATTEMPTS) {
+      throw new Error('Too many wrong codes; send a new one');
+    }
+
+    const given = Buffer.from(hashCode(code), 'hex');
+    const expected = Buffer.from(stored.code_hash, 'hex');
+    if (!/^\d+$/.test(code) || given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      await pool.query('UPDATE release_codes SET attempts = attempts + 1 WHERE id = $1', [stored.id]);
+      throw new Error('Wrong release code');
+    }
+    return stored.id;
+  }
+
+  /**
+   * What the visit still owes, and its latest transaction
+   */
+  private static async getBalance(customerId: number, client: any = pool): Promise<{ amount: number; transactionId: number | null }> {
+    const result = await client.query(`
+      SELECT id, CAST(COALESCE(balance_amount, 0) AS NUMERIC)::FLOAT as balance_amount
+      FROM transactions
+      WHERE customer_id = $1
+      ORDER BY transaction_date DESC, id DESC
+    `, [customerId]);
+
+    return {
+      amount: Math.round(result.rows.reduce((sum: number, row: any) => sum + Math.max(row.balance_amount, 0), 0) * 100) / 100,
+      transactionId: result.rows[0]?.id || null
+    };
+  }
+
+  /**
+   * Move the visit's open job orders to the first final stage
+   */
+  private static async closeJobOrders(customerId: number, release: OrderRelease, userId?: number): Promise<void> {
+    try {
+      const settings = await JobOrderService.getSettings();
+      const finalStage = settings.stages.find((stage) => stage.final);
+      if (!finalStage) return;
+
+      const jobOrders = await JobOrderService.list({ customerId });
+      for (const jobOrder of jobOrders) {
+        await JobOrderService.moveToStage(jobOrder.id, finalStage.key, userId, `Released to ${release.received_by}`);
+      }
+    } catch (error) {
+      console.error('Failed to close job orders on release:', error);
+      // Don't fail the release if the job orders can't be moved
+    }
+  }
+}
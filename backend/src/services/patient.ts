@@ -0,0 +1,385 @@
+import moment from 'moment-timezone';
+import { PoolClient } from 'pg';
+import { pool } from '../config/database';
+import { normalizePrescription } from '../utils/prescription';
+import { Patient, PatientMatch, PatientMatchField, PatientPrefill, PatientTimeline, PatientVisit } from '../types';
+
+const TIMEZONE = 'Asia/Manila';
+
+const PATIENT_COLUMNS = `
+  p.id, p.name, p.contact_number, p.email, to_char(p.birth_date, 'YYYY-MM-DD') as birth_date,
+  p.address, p.occupation, p.created_at, p.updated_at,
+  (SELECT COUNT(*) FROM customers c WHERE c.patient_id = p.id)::int as visit_count,
+  (SELECT MAX(c.created_at) FROM customers c WHERE c.patient_id = p.id) as last_visit_at
+`;
+
+// Phone numbers are compared on their last 10 digits, so 0917..., +63917... and 63 917... match
+const CONTACT_DIGITS = 10;
+const MIN_CONTACT_DIGITS = 7;
+const MAX_MATCHES = 10;
+const MAX_SEARCH_RESULTS = 20;
+const MIN_SEARCH_DIGITS = 4;
+
+export interface PatientData {
+  name: string;
+  contact_number?: string | null;
+  email?: string | null;
+  birth_date?: string | null;
+  address?: string | null;
+  occupation?: string | null;
+}
+
+export interface PatientMatchQuery {
+  name?: string | null;
+  contact_number?: string | null;
+  birth_date?: string | null;
+}
+
+/**
+ * Patient profiles. Every visit is still registered as its own customer record with its own
+ * OR number; visits of the same person link to one profile so their prescriptions, purchases
+ * and balances can be seen together and the next registration prefilled.
+ *
+ * Profiles are matched on phone number and name, with the birthdate as supporting evidence.
+ * Matches are only suggestions: a visit is linked once staff confirm it is the same person.
+ */
+export class PatientService {
+  /**
+   * Validate a profile create or update
+   * @returns an error message, or null
+   */
+  static validatePatient(data: any): string | null {
+    if (!data || typeof data.name !== 'string' || this.normalizeName(data.name).length < 2 || data.name.length > 255) {
+      return 'Patient name is required and must be between 2 and 255 characters';
+    }
+    if (data.contact_number != null && (typeof data.contact_number !== 'string' || data.contact_number.length > 20)) {
+      return 'Contact number must be 20 characters or less';
+    }
+    if (data.email != null && (typeof data.email !== 'string' || data.email.length > 255)) {
+      return 'Email must be 255 characters or less';
+    }
+    return this.validateBirthDate(data.birth_date);
+  }
+
+  /**
+   * @returns an error message, or null for a valid or missing birthdate
+   */
+  static validateBirthDate(value: unknown): string | null {
+    if (value == null || value === '') {
+      return null;
+    }
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return 'Birthdate must be a past date (YYYY-MM-DD)';
+    }
+    const date = moment.tz(value, 'YYYY-MM-DD', true, TIMEZONE);
+    if (!date.isValid() || !date.isBefore(moment().tz(TIMEZONE)) || date.year() < 1900) {
+      return 'Birthdate must be a past date (YYYY-MM-DD)';
+    }
+    return null;
+  }
+
+  /**
+   * Profiles by name or phone number, most recently seen first
+   */
+  static async searchPatients(search: string): Promise<Patient[]> {
+    const term = search.trim();
+    const digits = term.replace(/\D/g, '');
+    const result = await pool.query(`
+      SELECT ${PATIENT_COLUMNS}
+      FROM patients p
+      WHERE p.name ILIKE $1
+         OR ($2::text IS NOT NULL AND regexp_replace(p.contact_number, '\\D', '', 'g') LIKE '%' || $2 || '%')
+      ORDER BY last_visit_at DESC NULLS LAST, p.name
+      LIMIT ${MAX_SEARCH_RESULTS}
+    `, [`%${term}%`, digits.length >= MIN_SEARCH_DIGITS ? digits : null]);
+
+    return result.rows;
+  }
+
+  static async findPatient(id: number): Promise<Patient | null> {
+    const result = await pool.query(`
+      SELECT ${PATIENT_COLUMNS}
+      FROM patients p
+      WHERE p.id = $1
+    `, [id]);
+
+    return result.rows[0] || null;
+  }
+
+  static async createPatient(data: PatientData): Promise<Patient> {
+    return (await this.findPatient(await this.insertPatient(data)))!;
+  }
+
+  /**
+   * Add a profile, e.g. inside a registration's transaction
+   * @returns the new profile's ID
+   */
+  static async insertPatient(data: PatientData, client?: PoolClient): Promise<number> {
+    const db = client || pool;
+    const result = await db.query(`
+      INSERT INTO patients (name, contact_number, email, birth_date, address, occupation)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id
+    `, this.values(data));
+
+    return result.rows[0].id;
+  }
+
+  /**
+   * @throws Error('Patient not found')
+   */
+  static async updatePatient(id: number, data: PatientData): Promise<Patient> {
+    const result = await pool.query(`
+      UPDATE patients
+      SET name = $1, contact_number = $2, email = $3, birth_date = $4, address = $5, occupation = $6,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $7
+      RETURNING id
+    `, [...this.values(data), id]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Patient not found');
+    }
+    return (await this.findPatient(id))!;
+  }
+
+  /**
+   * Keep a profile's contact details current with a new visit; a known birthdate is kept
+   * @throws Error('Patient not found')
+   */
+  static async recordVisitDetails(id: number, data: PatientData, client?: PoolClient): Promise<void> {
+    const db = client || pool;
+    const result = await db.query(`
+      UPDATE patients
+      SET name = $1, contact_number = $2, email = $3, birth_date = COALESCE(birth_date, $4),
+          address = $5, occupation = $6, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $7
+      RETURNING id
+    `, [...this.values(data), id]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Patient not found');
+    }
+  }
+
+  /**
+   * Profiles that may belong to the person being registered: same phone number or same name.
+   * The best matches come first.
+   */
+  static async findMatches(query: PatientMatchQuery): Promise<PatientMatch[]> {
+    const digits = this.contactDigits(query.contact_number);
+    const name = query.name ? this.normalizeName(query.name).toLowerCase() : null;
+    if (!digits && !name) {
+      return [];
+    }
+
+    const result = await pool.query(`
+      SELECT ${PATIENT_COLUMNS}
+      FROM patients p
+      WHERE ($1::text IS NOT NULL AND RIGHT(regexp_replace(p.contact_number, '\\D', '', 'g'), ${CONTACT_DIGITS}) = $1)
+         OR ($2::text IS NOT NULL AND LOWER(p.name) = $2)
+    `, [digits, name]);
+
+    return result.rows
+      .map((patient: Patient) => ({ patient, matched_on: this.matchedOn(patient, query) }))
+      .filter((match: PatientMatch) => match.matched_on.length > 0)
+      .sort((a: PatientMatch, b: PatientMatch) =>
+        b.matched_on.length - a.matched_on.length ||
+        new Date(b.patient.last_visit_at || 0).getTime() - new Date(a.patient.last_visit_at || 0).getTime()
+      )
+      .slice(0, MAX_MATCHES);
+  }
+
+  /**
+   * The details a profile shares with the person being registered
+   */
+  static matchedOn(patient: Pick<Patient, 'name' | 'contact_number' | 'birth_date'>, query: PatientMatchQuery): PatientMatchField[] {
+    const fields: PatientMatchField[] = [];
+    const digits = this.contactDigits(query.contact_number);
+    if (digits && this.contactDigits(patient.contact_number) === digits) {
+      fields.push('contact_number');
+    }
+    if (query.name && this.normalizeName(query.name).toLowerCase() === this.normalizeName(patient.name).toLowerCase()) {
+      fields.push('name');
+    }
+    // A shared birthdate alone doesn't make a match
+    if (fields.length > 0 && query.birth_date && patient.birth_date === query.birth_date) {
+      fields.push('birth_date');
+    }
+    return fields;
+  }
+
+  /**
+   * Link a visit to a profile, after staff confirmed it is the same person. A visit linked
+   * to another profile moves.
+   * @throws Error('Customer not found')
+   * @throws Error('Patient not found')
+   */
+  static async linkVisit(customerId: number, patientId: number): Promise<void> {
+    if (!(await this.findPatient(patientId))) {
+      throw new Error('Patient not found');
+    }
+
+    const result = await pool.query(
+      'UPDATE customers SET patient_id = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING id',
+      [patientId, customerId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Customer not found');
+    }
+  }
+
+  /**
+   * @throws Error('Customer not found')
+   */
+  static async unlinkVisit(customerId: number): Promise<void> {
+    const result = await pool.query(
+      'UPDATE customers SET patient_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING id',
+      [customerId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error('Customer not found');
+    }
+  }
+
+  /**
+   * Start a profile from an unlinked visit's details and link the visit to it
+   * @throws Error('Customer not found')
+   * @throws Error('Visit is already linked to a patient')
+   */
+  static async createFromVisit(customerId: number, birthDate: string | null = null): Promise<Patient> {
+    const customer = await pool.query(
+      'SELECT name, contact_number, email, address, occupation, patient_id FROM customers WHERE id = $1',
+      [customerId]
+    );
+    if (customer.rows.length === 0) {
+      throw new Error('Customer not found');
+    }
+    if (customer.rows[0].patient_id) {
+      throw new Error('Visit is already linked to a patient');
+    }
+
+    const patientId = await this.insertPatient({ ...customer.rows[0], birth_date: birthDate });
+    await this.linkVisit(customerId, patientId);
+    return (await this.findPatient(patientId))!;
+  }
+
+  /**
+   * A profile with its visits, newest first: what each visit cost, still owes and who it was released to
+   * @throws Error('Patient not found')
+   */
+  static async getTimeline(patientId: number): Promise<PatientTimeline> {
+    const patient = await this.findPatient(patientId);
+    if (!patient) {
+      throw new Error('Patient not found');
+    }
+
+    const result = await pool.query(`
+      SELECT
+        c.id as customer_id, c.or_number, c.created_at, c.service_type, c.queue_status,
+        c.doctor_assigned, c.prescription, c.grade_type, c.lens_type, c.frame_code,
+        COALESCE(SUM(t.amount), 0) as amount,
+        COALESCE(SUM(t.paid_amount), 0) as paid_amount,
+        COALESCE(SUM(t.balance_amount), 0) as balance_amount,
+        r.released_at, r.received_by as released_to
+      FROM customers c
+      LEFT JOIN transactions t ON t.customer_id = c.id
+      LEFT JOIN order_releases r ON r.customer_id = c.id
+      WHERE c.patient_id = $1
+      GROUP BY c.id, r.id
+      ORDER BY c.created_at DESC
+    `, [patientId]);
+
+    const visits: PatientVisit[] = result.rows.map((row: any) => ({
+      customer_id: row.customer_id,
+      or_number: row.or_number,
+      created_at: row.created_at,
+      service_type: row.service_type,
+      queue_status: row.queue_status,
+      doctor_assigned: row.doctor_assigned,
+      prescription: normalizePrescription(row.prescription),
+      grade_type: row.grade_type,
+      lens_type: row.lens_type,
+      frame_code: row.frame_code,
+      amount: parseFloat(row.amount),
+      paid_amount: parseFloat(row.paid_amount),
+      balance_amount: parseFloat(row.balance_amount),
+      released_at: row.released_at || null,
+      released_to: row.released_to || null
+    }));
+
+    return {
+      patient,
+      visits,
+      total_balance: visits.reduce((sum, visit) => sum + visit.balance_amount, 0)
+    };
+  }
+
+  /**
+   * Registration fields for a returning patient: the profile's details and the latest
+   * visit's doctor and prescription
+   * @throws Error('Patient not found')
+   */
+  static async getPrefill(patientId: number): Promise<PatientPrefill> {
+    const patient = await this.findPatient(patientId);
+    if (!patient) {
+      throw new Error('Patient not found');
+    }
+
+    const latest = await pool.query(`
+      SELECT age, created_at, doctor_assigned, prescription
+      FROM customers
+      WHERE patient_id = $1
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [patientId]);
+    const visit = latest.rows[0];
+
+    return {
+      patient_id: patient.id,
+      name: patient.name,
+      contact_number: patient.contact_number || '',
+      email: patient.email || '',
+      address: patient.address || '',
+      occupation: patient.occupation || '',
+      birth_date: patient.birth_date,
+      age: this.ageOn(patient.birth_date, visit),
+      doctor_assigned: visit?.doctor_assigned || '',
+      prescription: visit ? normalizePrescription(visit.prescription) : {}
+    };
+  }
+
+  /**
+   * Age today, from the birthdate or else from the age given at the latest visit
+   */
+  static ageOn(birthDate: string | null, visit?: { age: number; created_at: Date } | null, now: Date = new Date()): number | null {
+    const today = moment(now).tz(TIMEZONE);
+    if (birthDate) {
+      return today.diff(moment.tz(birthDate, 'YYYY-MM-DD', TIMEZONE), 'years');
+    }
+    if (visit && visit.age) {
+      return visit.age + today.diff(moment(visit.created_at).tz(TIMEZONE), 'years');
+    }
+    return null;
+  }
+
+  private static values(data: PatientData): any[] {
+    return [
+      this.normalizeName(data.name),
+      data.contact_number || null,
+      data.email || null,
+      data.birth_date || null,
+      data.address || null,
+      data.occupation || null
+    ];
+  }
+
+  private static normalizeName(name: string): string {
+    return name.trim().replace(/\s+/g, ' ');
+  }
+
+  private static contactDigits(contact?: string | null): string | null {
+    const digits = (contact || '').replace(/\D/g, '');
+    return digits.length >= MIN_CONTACT_DIGITS ? digits.slice(-CONTACT_DIGITS) : null;
+  }
+}
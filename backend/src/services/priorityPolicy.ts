@@ -0,0 +1,242 @@
+import { pool } from '../config/database';
+import { PriorityFlags } from '../types';
+import { SettingsService, QueuePriorityPolicySettings } from './settings';
+
+/**
+ * Minimal shape of a customer row the policy needs to rank it
+ */
+export interface RankableCustomer {
+  id: number;
+  priority_flags: PriorityFlags | string | null;
+  created_at: Date | string;
+  manual_position?: number | null;
+  queue_score_adjustment?: number | string | null;
+  appointment_at?: Date | string | null;
+}
+
+export interface RankedCustomer<T extends RankableCustomer> {
+  customer: T;
+  score: number;
+  isPriority: boolean;
+}
+
+const POLICY_LIMITS: { [key in keyof QueuePriorityPolicySettings]: { min: number; max: number } } = {
+  seniorCitizenWeight: { min: 0, max: 10000 },
+  pwdWeight: { min: 0, max: 10000 },
+  pregnantWeight: { min: 0, max: 10000 },
+  maxConsecutivePriority: { min: 0, max: 20 },
+  agingBonusPerMinute: { min: 0, max: 1000 },
+  appointmentWeight: { min: 0, max: 10000 }
+};
+
+/**
+ * Single source of truth for queue ordering.
+ *
+ * A customer's score is the highest weight among their priority flags plus an aging bonus
+ * for every minute waited, so regular customers eventually overtake newly arrived priority
+ * customers. Manually positioned customers (queue reorder) always come first, and after
+ * `maxConsecutivePriority` priority calls in a row the next regular customer is served.
+ * `queue_score_adjustment` is added as-is; skipping a no-show lowers it to move them back.
+ * Checked-in appointments age from their slot time (or check-in, if later) and get
+ * `appointmentWeight` once the slot has started, so they merge into the line at their slot.
+ */
+export class PriorityPolicyService {
+  static async getPolicy(): Promise<QueuePriorityPolicySettings> {
+    try {
+      return await SettingsService.getQueuePriorityPolicy();
+    } catch (error) {
+      // Queue ordering must keep working even if settings can't be read
+      console.error('Failed to load queue priority policy, using defaults:', error);
+      return {
+        seniorCitizenWeight: 1000,
+        pwdWeight: 900,
+        pregnantWeight: 800,
+        maxConsecutivePriority: 3,
+        agingBonusPerMinute: 20,
+        appointmentWeight: 800
+      };
+    }
+  }
+
+  /**
+   * Validate a (partial) policy update
+   * @returns an error message, or null if the policy is acceptable
+   */
+  static validatePolicy(policy: Partial<QueuePriorityPolicySettings>): string | null {
+    for (const [key, value] of Object.entries(policy)) {
+      const limits = POLICY_LIMITS[key as keyof QueuePriorityPolicySettings];
+      if (!limits) {
+        return `Unknown priority policy setting: ${key}`;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${key} must be a number`;
+      }
+      if (value < limits.min || value > limits.max) {
+        return `${key} must be between ${limits.min} and ${limits.max}`;
+      }
+      if (key === 'maxConsecutivePriority' && !Number.isInteger(value)) {
+        return 'maxConsecutivePriority must be a whole number';
+      }
+    }
+    return null;
+  }
+
+  static parseFlags(priorityFlags: RankableCustomer['priority_flags']): PriorityFlags {
+    const flags = typeof priorityFlags === 'string' ? JSON.parse(priorityFlags) : priorityFlags;
+    return {
+      senior_citizen: !!flags?.senior_citizen,
+      pregnant: !!flags?.pregnant,
+      pwd: !!flags?.pwd
+    };
+  }
+
+  /**
+   * Weight of the strongest priority flag a customer carries (flags don't stack)
+   */
+  static getPriorityWeight(priorityFlags: RankableCustomer['priority_flags'], policy: QueuePriorityPolicySettings): number {
+    const flags = this.parseFlags(priorityFlags);
+    return Math.max(
+      0,
+      flags.senior_citizen ? policy.seniorCitizenWeight : 0,
+      flags.pwd ? policy.pwdWeight : 0,
+      flags.pregnant ? policy.pregnantWeight : 0
+    );
+  }
+
+  static calculateScore(customer: RankableCustomer, policy: QueuePriorityPolicySettings, now: Date = new Date()): number {
+    const joinedAt = new Date(customer.created_at).getTime();
+    const slotAt = customer.appointment_at ? new Date(customer.appointment_at).getTime() : null;
+    // Early arrivals for an appointment don't gain on the line before their slot
+    const waitingSince = slotAt !== null ? Math.max(joinedAt, slotAt) : joinedAt;
+    const waitedMinutes = Math.max(0, (now.getTime() - waitingSince) / 60000);
+    const appointmentBonus = slotAt !== null && now.getTime() >= slotAt ? (policy.appointmentWeight || 0) : 0;
+    const score = this.getPriorityWeight(customer.priority_flags, policy) +
+      waitedMinutes * policy.agingBonusPerMinute +
+      appointmentBonus +
+      (Number(customer.queue_score_adjustment) || 0);
+    return Math.round(score * 100) / 100;
+  }
+
+  /**
+   * Order customers the way they will be called.
+   * @param consecutivePriorityServed - priority customers already called in a row before this ordering starts
+   */
+  static orderQueue<T extends RankableCustomer>(
+    customers: T[],
+    policy: QueuePriorityPolicySettings,
+    consecutivePriorityServed: number = 0,
+    now: Date = new Date()
+  ): RankedCustomer<T>[] {
+    const ranked = customers.map((customer) => ({
+      customer,
+      score: this.calculateScore(customer, policy, now),
+      isPriority: this.getPriorityWeight(customer.priority_flags, policy) > 0
+    }));
+
+    const manual = ranked
+      .filter((item) => item.customer.manual_position !== null && item.customer.manual_position !== undefined)
+      .sort((a, b) => Number(a.customer.manual_position) - Number(b.customer.manual_position));
+
+    const remaining = ranked
+      .filter((item) => item.customer.manual_position === null || item.customer.manual_position === undefined)
+      .sort((a, b) =>
+        b.score - a.score ||
+        new Date(a.customer.created_at).getTime() - new Date(b.customer.created_at).getTime() ||
+        a.customer.id - b.customer.id
+      );
+
+    let streak = consecutivePriorityServed;
+    const ordered: RankedCustomer<T>[] = [];
+    const take = (item: RankedCustomer<T>) => {
+      ordered.push(item);
+      streak = item.isPriority ? streak + 1 : 0;
+    };
+
+    manual.forEach(take);
+
+    while (remaining.length > 0) {
+      let index = 0;
+      if (policy.maxConsecutivePriority > 0 && remaining[0].isPriority && streak >= policy.maxConsecutivePriority) {
+        const regularIndex = remaining.findIndex((item) => !item.isPriority);
+        if (regularIndex >= 0) {
+          index = regularIndex;
+        }
+      }
+      take(remaining.splice(index, 1)[0]);
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Number of priority customers called in a row most recently today
+   */
+  static async getConsecutivePriorityStreak(policy: QueuePriorityPolicySettings, db: any = pool): Promise<number> {
+    if (policy.maxConsecutivePriority <= 0) {
+      return 0;
+    }
+
+    const query = `
+      SELECT c.priority_flags
+      FROM queue_events qe
+      JOIN customers c ON c.id = qe.customer_id
+      WHERE qe.event_type = 'called' AND qe.created_at >= CURRENT_DATE
+      ORDER BY qe.created_at DESC
+      LIMIT $1
+    `;
+
+    const result = await db.query(query, [policy.maxConsecutivePriority]);
+
+    let streak = 0;
+    for (const row of result.rows) {
+      if (this.getPriorityWeight(row.priority_flags, policy) <= 0) break;
+      streak++;
+    }
+    return streak;
+  }
+
+  /**
+   * Projected call order of the waiting queue under a policy, for the admin preview
+   */
+  static async previewQueue(policy: QueuePriorityPolicySettings): Promise<{
+    consecutivePriorityServed: number;
+    queue: Array<{
+      position: number;
+      customer_id: number;
+      name: string;
+      token_number: number;
+      service_type: string;
+      priority_flags: PriorityFlags;
+      manual_position: number | null;
+      wait_minutes: number;
+      is_priority: boolean;
+      score: number;
+    }>;
+  }> {
+    const result = await pool.query(`
+      SELECT id, name, token_number, service_type, priority_flags, manual_position, queue_score_adjustment, appointment_at, created_at
+      FROM customers
+      WHERE queue_status = 'waiting'
+    `);
+
+    const now = new Date();
+    const consecutivePriorityServed = await this.getConsecutivePriorityStreak(policy);
+    const ordered = this.orderQueue(result.rows, policy, consecutivePriorityServed, now);
+
+    return {
+      consecutivePriorityServed,
+      queue: ordered.map((item, index) => ({
+        position: index + 1,
+        customer_id: item.customer.id,
+        name: item.customer.name,
+        token_number: item.customer.token_number,
+        service_type: item.customer.service_type,
+        priority_flags: this.parseFlags(item.customer.priority_flags),
+        manual_position: item.customer.manual_position,
+        wait_minutes: Math.round((now.getTime() - new Date(item.customer.created_at).getTime()) / 60000),
+        is_priority: item.isPriority,
+        score: item.score
+      }))
+    };
+  }
+}
@@ -1,9 +1,13 @@
 import { pool } from '../config/database';
-import { QueueItem, Customer, QueueStatus, Counter } from '../types';
+import { PoolClient } from 'pg';
+import { QueueItem, Customer, QueueStatus, Counter, ServiceType, ServiceTypeQueueStats, NoShowResult, TransferOptions, TransferResult, WaitTimeEstimate } from '../types';
 import { CustomerService } from './customer';
 import { WebSocketService } from './websocket';
-import { config } from '../config/config';
 import { QueueAnalyticsService } from './QueueAnalyticsService';
+import { PriorityPolicyService } from './priorityPolicy';
+import { WaitTimeEstimator } from './waitTimeEstimator';
+import { QueuePauseService } from './queuePause';
+import { SettingsService, NoShowSettings } from './settings';
 import { validateAndFallbackQueueStatus, validateQueueStatusForDB } from '../utils/queueStatusValidation';
 
 export class QueueService {
@@ -19,28 +23,21 @@ export class QueueService {
     const query = `
       SELECT 
         c.*,
-        u.full_name as sales_agent_name,
-        ROW_NUMBER() OVER (ORDER BY 
-          CASE 
-            WHEN c.manual_position IS NOT NULL THEN c.manual_position
-            ELSE
-              CASE 
-                WHEN c.priority_flags::json->>'senior_citizen' = 'true' THEN 1000
-                WHEN c.priority_flags::json->>'pwd' = 'true' THEN 900
-                WHEN c.priority_flags::json->>'pregnant' = 'true' THEN 800
-                ELSE 0
-              END * 100000 + EXTRACT(EPOCH FROM c.created_at)
-          END ASC
-        ) as position
+        u.full_name as sales_agent_name
       FROM customers c
       LEFT JOIN users u ON c.sales_agent_id = u.id
       ${whereClause}
-      ORDER BY position
     `;
 
     const result = await pool.query(query, queryParams);
+    const policy = await PriorityPolicyService.getPolicy();
+    const streak = await PriorityPolicyService.getConsecutivePriorityStreak(policy);
+    const ordered = PriorityPolicyService.orderQueue(result.rows, policy, streak);
+    const waits = await WaitTimeEstimator.estimateWaits(
+      ordered.map((item) => item.customer).filter((row: any) => row.queue_status === 'waiting')
+    );
     
-    return result.rows.map((row: any, index: number) => ({
+    return ordered.map(({ customer: row, score }, index: number) => ({
       customer_id: row.id,
       customer: {
         ...row,
@@ -50,8 +47,8 @@ export class QueueService {
         priority_flags: typeof row.priority_flags === 'string' ? JSON.parse(row.priority_flags) : row.priority_flags,
       },
       position: index + 1,
-      priority_score: this.calculatePriorityScore(typeof row.priority_flags === 'string' ? JSON.parse(row.priority_flags) : row.priority_flags),
-      estimated_wait_time: this.calculateEstimatedWaitTime(index + 1)
+      priority_score: score,
+      ...WaitTimeEstimator.toQueueItemFields(waits.get(row.id))
     }));
   }
 
@@ -63,42 +60,27 @@ export class QueueService {
     const query = `
       SELECT 
         c.*,
-        u.full_name as sales_agent_name,
-        ROW_NUMBER() OVER (ORDER BY 
-          CASE 
-            WHEN c.manual_position IS NOT NULL THEN c.manual_position
-            ELSE
-              CASE 
-                WHEN c.priority_flags::json->>'senior_citizen' = 'true' THEN 1000
-                WHEN c.priority_flags::json->>'pwd' = 'true' THEN 900
-                WHEN c.priority_flags::json->>'pregnant' = 'true' THEN 800
-                ELSE 0
-              END * 100000 + EXTRACT(EPOCH FROM c.created_at)
-          END ASC
-        ) as position
+        u.full_name as sales_agent_name
       FROM customers c
       LEFT JOIN users u ON c.sales_agent_id = u.id
-      WHERE c.queue_status IN ('waiting', 'serving')
-      ORDER BY 
-        CASE 
-          WHEN c.queue_status = 'serving' THEN 0
-          ELSE 1
-        END,
-        CASE 
-          WHEN c.manual_position IS NOT NULL THEN c.manual_position
-          ELSE
-            CASE 
-              WHEN c.priority_flags::json->>'senior_citizen' = 'true' THEN 1000
-              WHEN c.priority_flags::json->>'pwd' = 'true' THEN 900
-              WHEN c.priority_flags::json->>'pregnant' = 'true' THEN 800
-              ELSE 0
-            END * 100000 + EXTRACT(EPOCH FROM c.created_at)
-        END ASC
+      WHERE c.queue_status IN ('waiting', 'serving', 'on_hold')
     `;
 
     const result = await pool.query(query);
+    const policy = await PriorityPolicyService.getPolicy();
+    const streak = await PriorityPolicyService.getConsecutivePriorityStreak(policy);
+
+    // Serving customers first, then the waiting line in call order, then held tokens (not in line)
+    const serving = PriorityPolicyService.orderQueue(result.rows.filter((row: any) => row.queue_status === 'serving'), policy);
+    const waiting = PriorityPolicyService.orderQueue(result.rows.filter((row: any) => row.queue_status === 'waiting'), policy, streak);
+    const onHold = PriorityPolicyService.orderQueue(result.rows.filter((row: any) => row.queue_status === 'on_hold'), policy);
+    const waits = await WaitTimeEstimator.estimateWaits(waiting.map((item) => item.customer));
     
-    return result.rows.map((row: any) => ({
+    return [
+      ...serving.map((item) => ({ ...item, position: 0 })),
+      ...waiting.map((item, index) => ({ ...item, position: index + 1 })),
+      ...onHold.map((item) => ({ ...item, position: 0 }))
+    ].map(({ customer: row, score, position }) => ({
       customer_id: row.id,
       customer: {
         ...row,
@@ -107,67 +89,79 @@ export class QueueService {
         payment_info: typeof row.payment_info === 'string' ? JSON.parse(row.payment_info) : row.payment_info,
         priority_flags: typeof row.priority_flags === 'string' ? JSON.parse(row.priority_flags) : row.priority_flags,
       },
-      position: row.position,
-      priority_score: this.calculatePriorityScore(typeof row.priority_flags === 'string' ? JSON.parse(row.priority_flags) : row.priority_flags),
-      estimated_wait_time: this.calculateEstimatedWaitTime(row.position)
+      position,
+      priority_score: score,
+      ...WaitTimeEstimator.toQueueItemFields(position > 0 ? waits.get(row.id) : null)
     }));
   }
 
   static async callNext(counterId: number): Promise<Customer | null> {
+    const policy = await PriorityPolicyService.getPolicy();
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
 
-      // Get the next customer in queue with position and wait time calculation
-      const queueQuery = `
+      await QueuePauseService.assertNotPaused(client);
+
+      // Serialize calls on the same counter only, so current_customer_id always matches
+      // the last customer it called; other counters are never blocked by this lock
+      await this.lockCounter(client, counterId);
+
+      // Only customers whose requested service type this counter handles are eligible
+      const candidatesQuery = `
         SELECT 
           c.id,
           c.priority_flags,
           c.created_at,
-          ROW_NUMBER() OVER (ORDER BY 
-            CASE 
-              WHEN c.manual_position IS NOT NULL THEN c.manual_position
-              ELSE
-                CASE 
-                  WHEN c.priority_flags::json->>'senior_citizen' = 'true' THEN 1000
-                  WHEN c.priority_flags::json->>'pwd' = 'true' THEN 900
-                  WHEN c.priority_flags::json->>'pregnant' = 'true' THEN 800
-                  ELSE 0
-                END * 100000 + EXTRACT(EPOCH FROM c.created_at)
-            END ASC
-          ) as position,
-          EXTRACT(EPOCH FROM (NOW() - c.created_at)) / 60 as wait_time_minutes
+          c.manual_position,
+          c.queue_score_adjustment,
+          c.appointment_at,
+          EXTRACT(EPOCH FROM (NOW() - COALESCE(c.stage_entered_at, c.created_at))) / 60 as wait_time_minutes,
+          queue_paused_minutes(COALESCE(c.stage_entered_at, c.created_at), LOCALTIMESTAMP) as paused_minutes
         FROM customers c
         WHERE c.queue_status = 'waiting'
-        ORDER BY 
-          CASE 
-            WHEN c.manual_position IS NOT NULL THEN c.manual_position
-            ELSE
-              CASE 
-                WHEN c.priority_flags::json->>'senior_citizen' = 'true' THEN 1000
-                WHEN c.priority_flags::json->>'pwd' = 'true' THEN 900
-                WHEN c.priority_flags::json->>'pregnant' = 'true' THEN 800
-                ELSE 0
-              END * 100000 + EXTRACT(EPOCH FROM c.created_at)
-          END ASC
-        LIMIT 1
-        FOR UPDATE
+          AND EXISTS (
+            SELECT 1 FROM counters ct
+            WHERE ct.id = $1 AND ct.service_types ? c.service_type
+          )
       `;
 
-      const queueResult = await client.query(queueQuery);
+      const candidatesResult = await client.query(candidatesQuery, [counterId]);
       
-      if (queueResult.rows.length === 0) {
+      if (candidatesResult.rows.length === 0) {
         await client.query('ROLLBACK');
         return null;
       }
 
-      const customerId = queueResult.rows[0].id;
-      const queuePosition = queueResult.rows[0].position;
-      const waitTimeMinutes = Math.round(queueResult.rows[0].wait_time_minutes);
-      const priorityFlags = typeof queueResult.rows[0].priority_flags === 'string' 
-        ? JSON.parse(queueResult.rows[0].priority_flags) 
-        : queueResult.rows[0].priority_flags;
-      const isPriority = priorityFlags.senior_citizen || priorityFlags.pwd || priorityFlags.pregnant;
+      const streak = await PriorityPolicyService.getConsecutivePriorityStreak(policy, client);
+      const ordered = PriorityPolicyService.orderQueue(candidatesResult.rows, policy, streak);
+
+      // Claim the best candidate nobody else is calling. Rows locked by another counter's
+      // transaction are skipped instead of waited on, and the status is re-checked once
+      // locked in case a concurrent call already served the customer.
+      let selectedIndex = -1;
+      for (let i = 0; i < ordered.length; i++) {
+        const lockResult = await client.query(
+          `SELECT id FROM customers WHERE id = $1 AND queue_status = 'waiting' FOR UPDATE SKIP LOCKED`,
+          [ordered[i].customer.id]
+        );
+        if (lockResult.rows.length > 0) {
+          selectedIndex = i;
+          break;
+        }
+      }
+
+      if (selectedIndex === -1) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const selected = ordered[selectedIndex];
+      const customerId = selected.customer.id;
+      const queuePosition = selectedIndex + 1;
+      // Time the queue spent paused is not counted as waiting
+      const waitTimeMinutes = Math.max(0, Math.round(selected.customer.wait_time_minutes - (parseFloat(selected.customer.paused_minutes) || 0)));
+      const isPriority = selected.isPriority;
 
       // Update customer status to serving
       const updateCustomerQuery = `
@@ -213,7 +207,8 @@ export class QueueService {
           counterId,
           queuePosition,
           waitTimeMinutes,
-          isPriority
+          isPriority,
+          stage: customer.service_type
         });
       } catch (analyticsError) {
         console.error('Failed to record analytics event:', analyticsError);
@@ -229,26 +224,52 @@ export class QueueService {
     }
   }
 
+  /**
+   * Lock a counter row for the rest of the transaction
+   * @throws Error('Counter not found') if the counter does not exist
+   */
+  private static async lockCounter(client: PoolClient, counterId: number): Promise<void> {
+    const result = await client.query('SELECT id FROM counters WHERE id = $1 FOR UPDATE', [counterId]);
+    if (result.rows.length === 0) {
+      throw new Error('Counter not found');
+    }
+  }
+
   static async callSpecificCustomer(customerId: number, counterId: number): Promise<Customer | null> {
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
 
+      await QueuePauseService.assertNotPaused(client);
+
       // Check if customer exists and is waiting
       const checkCustomerQuery = `
-        SELECT id
-        FROM customers
-        WHERE id = $1 AND queue_status = 'waiting'
+        SELECT 
+          c.id,
+          c.service_type,
+          EXISTS (
+            SELECT 1 FROM counters ct
+            WHERE ct.id = $2 AND ct.service_types ? c.service_type
+          ) as servable
+        FROM customers c
+        WHERE c.id = $1 AND c.queue_status = 'waiting'
         FOR UPDATE
       `;
 
-      const checkResult = await client.query(checkCustomerQuery, [customerId]);
+      await this.lockCounter(client, counterId);
+
+      const checkResult = await client.query(checkCustomerQuery, [customerId, counterId]);
       
       if (checkResult.rows.length === 0) {
         await client.query('ROLLBACK');
         return null;
       }
 
+      if (!checkResult.rows[0].servable) {
+        await client.query('ROLLBACK');
+        throw new Error(`Counter does not handle service type: ${checkResult.rows[0].service_type}`);
+      }
+
       // Update customer status to serving
       const updateCustomerQuery = `
         UPDATE customers 
@@ -401,7 +422,8 @@ export class QueueService {
           eventType: 'served',
           counterId,
           serviceTimeMinutes,
-          isPriority
+          isPriority,
+          stage: customerInfo.service_type
         });
       } catch (analyticsError) {
         console.error('Failed to record analytics event:', analyticsError);
@@ -486,33 +508,7 @@ export class QueueService {
 
       // Archive cancelled customer record into customer_history table
       console.log(`[QUEUE_CANCEL] Archiving cancelled customer ${customerId} to customer_history`);
-      await client.query(`
-        INSERT INTO customer_history (
-          original_customer_id, name, email, phone, queue_status, 
-          token_number, priority_flags, created_at, served_at, 
-          counter_id, estimated_wait_time, archive_date
-        )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-        ON CONFLICT (original_customer_id, archive_date) 
-        DO UPDATE SET
-          queue_status = EXCLUDED.queue_status,
-          served_at = EXCLUDED.served_at,
-          counter_id = EXCLUDED.counter_id
-      `, [
-        customerId,
-        customerInfo.name,
-        customerInfo.email,
-        customerInfo.contact_number,
-        'cancelled',
-        customerInfo.token_number,
-        customerInfo.priority_flags,
-        customerInfo.created_at,
-        new Date(),  // Use current timestamp as served_at for cancelled customers
-        null,        // No counter for cancelled customers
-        0,           // No estimated wait time for cancelled customers
-        new Date().toISOString().split('T')[0] // Today's date as archive_date
-      ]);
-      
+      await this.archiveCancelled(client, customerInfo);
       console.log(`[QUEUE_CANCEL] Successfully archived cancelled customer ${customerId} to customer_history`);
 
       await client.query('COMMIT');
@@ -524,13 +520,7 @@ export class QueueService {
         priority_flags: typeof updatedCustomerResult.rows[0].priority_flags === 'string' ? JSON.parse(updatedCustomerResult.rows[0].priority_flags) : updatedCustomerResult.rows[0].priority_flags,
       };
 
-      // Emit real-time update for queue cancellation
-      await WebSocketService.emitQueueUpdate({
-        type: 'customer_cancelled',
-        customer,
-        reason,
-        timestamp: new Date()
-      });
+      await this.announceCancellation(customer, reason);
 
       // If transactions were deleted, emit transaction updates too
       if (deletedTransactionResult.rows.length > 0) {
@@ -545,23 +535,61 @@ export class QueueService {
         }
       }
 
+      return customer;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Re-announce a called customer who hasn't come to the counter.
+   * Counts as a missed call; reaching the no-show limit cancels the customer instead.
+   */
+  static async recallCustomer(customerId: number): Promise<NoShowResult> {
+    const settings = await SettingsService.getNoShowSettings();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { customer: current, counterId, missedCalls } = await this.registerMissedCall(client, customerId);
+
+      if (this.reachedNoShowLimit(missedCalls, settings)) {
+        const customer = await this.cancelNoShow(client, customerId, counterId);
+        await client.query('COMMIT');
+        await this.announceCancellation(customer, 'no_show');
+        return { action: 'cancelled', customer, missedCalls };
+      }
+
+      await client.query('COMMIT');
+
+      const customer = this.parseCustomerRow(current);
+
+      // Displays re-announce the token on this event
+      await WebSocketService.emitQueueUpdate({
+        type: 'customer_recalled',
+        customer,
+        counterId,
+        missedCalls,
+        timestamp: new Date()
+      });
+
       // Record analytics event
       try {
-        const priorityFlags = customer.priority_flags;
-        const isPriority = priorityFlags.senior_citizen || priorityFlags.pwd || priorityFlags.pregnant;
-        
         await QueueAnalyticsService.recordQueueEvent({
           customerId,
-          eventType: 'cancelled',
-          isPriority,
-          reason
+          eventType: 'recalled',
+          counterId: counterId ?? undefined,
+          isPriority: this.hasPriority(customer.priority_flags)
         });
       } catch (analyticsError) {
         console.error('Failed to record analytics event:', analyticsError);
         // Don't fail the operation if analytics fails
       }
 
-      return customer;
+      return { action: 'recalled', customer, missedCalls };
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -570,37 +598,495 @@ export class QueueService {
     }
   }
 
-  static async getPosition(customerId: number): Promise<number | null> {
-    const query = `
-      WITH queue_position AS (
-        SELECT 
-          id,
-          ROW_NUMBER() OVER (ORDER BY 
-            CASE 
-              WHEN priority_flags::json->>'senior_citizen' = 'true' THEN 1000
-              WHEN priority_flags::json->>'pwd' = 'true' THEN 900
-              WHEN priority_flags::json->>'pregnant' = 'true' THEN 800
-              ELSE 0
-            END DESC,
-            created_at ASC
-          ) as position
+  /**
+   * Send a called customer who hasn't come to the counter back to waiting, behind the
+   * next `skipBehindCount` customers of the same service type. Counts as a missed call;
+   * reaching the no-show limit cancels the customer instead.
+   */
+  static async skipCustomer(customerId: number): Promise<NoShowResult> {
+    const settings = await SettingsService.getNoShowSettings();
+    const policy = await PriorityPolicyService.getPolicy();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const { customer: current, counterId, missedCalls } = await this.registerMissedCall(client, customerId);
+
+      if (this.reachedNoShowLimit(missedCalls, settings)) {
+        const customer = await this.cancelNoShow(client, customerId, counterId);
+        await client.query('COMMIT');
+        await this.announceCancellation(customer, 'no_show');
+        return { action: 'cancelled', customer, missedCalls };
+      }
+
+      // Find who the customer should end up right behind
+      const waitingResult = await client.query(`
+        SELECT id, priority_flags, created_at, manual_position, queue_score_adjustment, appointment_at
         FROM customers
-        WHERE queue_status = 'waiting'
+        WHERE queue_status = 'waiting' AND service_type = $1 AND id <> $2
+      `, [current.service_type, customerId]);
+
+      const now = new Date();
+      const ordered = PriorityPolicyService.orderQueue(waitingResult.rows, policy, 0, now);
+      const anchor = ordered[Math.min(settings.skipBehindCount, ordered.length) - 1];
+
+      let manualPosition: number | null = null;
+      let scoreAdjustment = Number(current.queue_score_adjustment) || 0;
+
+      if (anchor && anchor.customer.manual_position !== null && anchor.customer.manual_position !== undefined) {
+        // Anchor was placed by hand: slot in right after it and shift the rest down
+        manualPosition = Number(anchor.customer.manual_position) + 1;
+        await client.query(
+          `UPDATE customers SET manual_position = manual_position + 1 WHERE queue_status = 'waiting' AND manual_position >= $1`,
+          [manualPosition]
+        );
+      } else if (anchor) {
+        // Lower the score just below the anchor's; everyone ages at the same rate so this holds
+        const ownScore = PriorityPolicyService.calculateScore({ ...current, manual_position: null }, policy, now);
+        scoreAdjustment += Math.min(0, anchor.score - ownScore - 0.01);
+      }
+
+      const updateResult = await client.query(`
+        UPDATE customers
+        SET queue_status = 'waiting',
+            manual_position = $2,
+            queue_score_adjustment = $3,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+        RETURNING *
+      `, [customerId, manualPosition, scoreAdjustment.toFixed(2)]);
+
+      await client.query(
+        'UPDATE counters SET current_customer_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE current_customer_id = $1',
+        [customerId]
+      );
+
+      await client.query('COMMIT');
+
+      const customer = this.parseCustomerRow(updateResult.rows[0]);
+      const queuePosition = anchor ? ordered.indexOf(anchor) + 2 : 1;
+
+      await WebSocketService.emitQueueUpdate({
+        type: 'customer_skipped',
+        customer,
+        counterId,
+        missedCalls,
+        queuePosition,
+        timestamp: new Date()
+      });
+
+      // Record analytics event
+      try {
+        await QueueAnalyticsService.recordQueueEvent({
+          customerId,
+          eventType: 'skipped',
+          counterId: counterId ?? undefined,
+          queuePosition,
+          isPriority: this.hasPriority(customer.priority_flags)
+        });
+      } catch (analyticsError) {
+        console.error('Failed to record analytics event:', analyticsError);
+        // Don't fail the operation if analytics fails
+      }
+
+      return { action: 'skipped', customer, missedCalls };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Transfer a serving customer away from their counter: either straight to another counter
+   * (still serving), or back into the line for another stage, optionally at the front.
+   * The stage that ended is recorded as a 'transferred' event so per-stage timing stays intact.
+   */
+  static async transferCustomer(customerId: number, options: TransferOptions, userId?: number): Promise<TransferResult> {
+    const { toCounterId, serviceType, frontOfLine = false, reason } = options;
+
+    if (!toCounterId && !serviceType) {
+      throw new Error('A target counter or service type is required');
+    }
+    if (serviceType && !Object.values(ServiceType).includes(serviceType)) {
+      throw new Error(`Invalid service type: ${serviceType}`);
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Lock counters before the customer, in id order, like callNext/callSpecificCustomer do
+      const sourceResult = await client.query('SELECT id FROM counters WHERE current_customer_id = $1', [customerId]);
+      const fromCounterId: number | undefined = sourceResult.rows[0]?.id;
+      const counterIds = [fromCounterId, toCounterId].filter((id): id is number => !!id);
+      for (const counterId of [...new Set(counterIds)].sort((a, b) => a - b)) {
+        await this.lockCounter(client, counterId);
+      }
+
+      const customerResult = await client.query(`
+        SELECT c.*, EXTRACT(EPOCH FROM (NOW() - c.updated_at)) / 60 as service_time_minutes
+        FROM customers c
+        WHERE c.id = $1
+        FOR UPDATE OF c
+      `, [customerId]);
+
+      if (customerResult.rows.length === 0) {
+        throw new Error('Customer not found');
+      }
+
+      const current = customerResult.rows[0];
+      const stillAtCounter = fromCounterId
+        ? (await client.query('SELECT id FROM counters WHERE id = $1 AND current_customer_id = $2', [fromCounterId, customerId])).rows.length > 0
+        : false;
+      if (current.queue_status !== QueueStatus.SERVING || !fromCounterId || !stillAtCounter) {
+        throw new Error('Customer is not being served');
+      }
+
+      const nextServiceType: ServiceType = serviceType || current.service_type;
+      let updateResult;
+
+      if (toCounterId) {
+        if (toCounterId === fromCounterId) {
+          throw new Error('Customer is already at this counter');
+        }
+
+        const targetResult = await client.query(
+          'SELECT is_active, current_customer_id, service_types ? $2 as servable FROM counters WHERE id = $1',
+          [toCounterId, nextServiceType]
+        );
+        const target = targetResult.rows[0];
+        if (!target.is_active) {
+          throw new Error('Target counter is not active');
+        }
+        if (target.current_customer_id) {
+          throw new Error('Target counter is busy');
+        }
+        if (!target.servable) {
+          throw new Error(`Counter does not handle service type: ${nextServiceType}`);
+        }
+
+        // updated_at restarts the service timer that completeService measures from
+        updateResult = await client.query(`
+          UPDATE customers
+          SET service_type = $2,
+              missed_call_count = 0,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+          RETURNING *
+        `, [customerId, nextServiceType]);
+
+        await client.query(
+          'UPDATE counters SET current_customer_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+          [fromCounterId]
+        );
+        await client.query(
+          'UPDATE counters SET current_customer_id = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+          [customerId, toCounterId]
+        );
+      } else {
+        // Manual positions are served before everyone else, so position 1 is the front of the line
+        if (frontOfLine) {
+          await client.query(
+            `UPDATE customers SET manual_position = manual_position + 1 WHERE queue_status = 'waiting' AND manual_position >= 1`
+          );
+        }
+
+        // created_at is kept so aging still credits the whole visit; the stage wait starts now
+        updateResult = await client.query(`
+          UPDATE customers
+          SET queue_status = 'waiting',
+              service_type = $2,
+              manual_position = $3,
+              queue_score_adjustment = 0,
+              missed_call_count = 0,
+              stage_entered_at = CURRENT_TIMESTAMP,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+          RETURNING *
+        `, [customerId, nextServiceType, frontOfLine ? 1 : null]);
+
+        await client.query(
+          'UPDATE counters SET current_customer_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+          [fromCounterId]
+        );
+      }
+
+      await client.query('COMMIT');
+
+      const customer = this.parseCustomerRow(updateResult.rows[0]);
+      const action: TransferResult['action'] = toCounterId ? 'moved' : 'requeued';
+
+      await WebSocketService.emitQueueUpdate({
+        type: 'customer_transferred',
+        customer,
+        action,
+        fromCounterId,
+        toCounterId: toCounterId ?? null,
+        previousServiceType: current.service_type,
+        serviceType: nextServiceType,
+        frontOfLine: !toCounterId && frontOfLine,
+        userId,
+        timestamp: new Date()
+      });
+
+      // Record analytics events: close the stage at the old counter, open one at the new counter
+      try {
+        const isPriority = this.hasPriority(customer.priority_flags);
+        await QueueAnalyticsService.recordQueueEvent({
+          customerId,
+          eventType: 'transferred',
+          counterId: fromCounterId,
+          serviceTimeMinutes: Math.round(current.service_time_minutes),
+          isPriority,
+          reason,
+          stage: current.service_type
+        });
+        if (toCounterId) {
+          await QueueAnalyticsService.recordQueueEvent({
+            customerId,
+            eventType: 'called',
+            counterId: toCounterId,
+            waitTimeMinutes: 0,
+            isPriority,
+            stage: nextServiceType
+          });
+        }
+      } catch (analyticsError) {
+        console.error('Failed to record analytics event:', analyticsError);
+        // Don't fail the operation if analytics fails
+      }
+
+      return { action, customer, fromCounterId, toCounterId: toCounterId ?? null };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Cancel on-hold customers whose reactivation window has passed.
+   * Returns the number of holds that were cancelled.
+   */
+  static async expireHolds(): Promise<number> {
+    const result = await pool.query(`
+      SELECT id FROM customers
+      WHERE queue_status = 'on_hold' AND hold_expires_at <= CURRENT_TIMESTAMP
+      ORDER BY hold_expires_at
+    `);
+
+    let expired = 0;
+    for (const row of result.rows) {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        // Re-checked on update: the customer may have been reactivated since the SELECT
+        const customer = await this.markCancelled(
+          client,
+          row.id,
+          'hold_expired',
+          "queue_status = 'on_hold' AND hold_expires_at <= CURRENT_TIMESTAMP"
+        );
+        await client.query('COMMIT');
+
+        if (customer) {
+          await this.announceCancellation(customer, 'hold_expired');
+          expired++;
+        }
+      } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`Failed to expire hold for customer ${row.id}:`, error);
+      } finally {
+        client.release();
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Lock a serving customer and increment their missed call count
+   */
+  private static async registerMissedCall(client: PoolClient, customerId: number): Promise<{ customer: any; counterId: number | null; missedCalls: number }> {
+    const result = await client.query(`
+      SELECT c.*, ct.id as counter_id
+      FROM customers c
+      LEFT JOIN counters ct ON ct.current_customer_id = c.id
+      WHERE c.id = $1
+      FOR UPDATE OF c
+    `, [customerId]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Customer not found');
+    }
+
+    const row = result.rows[0];
+    if (row.queue_status !== QueueStatus.SERVING) {
+      throw new Error('Customer is not being served');
+    }
+
+    const missedCalls = (Number(row.missed_call_count) || 0) + 1;
+    const updateResult = await client.query(
+      'UPDATE customers SET missed_call_count = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *',
+      [customerId, missedCalls]
+    );
+
+    return { customer: updateResult.rows[0], counterId: row.counter_id ?? null, missedCalls };
+  }
+
+  private static reachedNoShowLimit(missedCalls: number, settings: NoShowSettings): boolean {
+    return settings.maxMissedCalls > 0 && missedCalls >= settings.maxMissedCalls;
+  }
+
+  private static async cancelNoShow(client: PoolClient, customerId: number, counterId: number | null): Promise<Customer> {
+    if (counterId) {
+      await client.query(
+        'UPDATE counters SET current_customer_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $1 AND current_customer_id = $2',
+        [counterId, customerId]
+      );
+    }
+
+    const customer = await this.markCancelled(client, customerId, 'no_show', "queue_status = 'serving'");
+    if (!customer) {
+      throw new Error('Customer is not being served');
+    }
+    return customer;
+  }
+
+  /**
+   * Cancel a customer the queue gave up on by itself (missed calls, lapsed hold).
+   * Unlike cancelService this only closes the queue entry: the visit's transactions are kept.
+   * Returns null when the customer no longer matches `condition`.
+   */
+  private static async markCancelled(client: PoolClient, customerId: number, reason: string, condition: string): Promise<Customer | null> {
+    const result = await client.query(`
+      UPDATE customers
+      SET queue_status = 'cancelled',
+          served_at = CURRENT_TIMESTAMP,
+          remarks = COALESCE(remarks || ' | ', '') || 'Cancelled: ' || $2,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND ${condition}
+      RETURNING *
+    `, [customerId, reason]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    await this.archiveCancelled(client, result.rows[0]);
+    return this.parseCustomerRow(result.rows[0]);
+  }
+
+  private static async archiveCancelled(client: PoolClient, customerInfo: any): Promise<void> {
+    await client.query(`
+      INSERT INTO customer_history (
+        original_customer_id, name, email, phone, queue_status, 
+        token_number, priority_flags, created_at, served_at, 
+        counter_id, estimated_wait_time, archive_date
       )
-      SELECT position
-      FROM queue_position
-      WHERE id = $1
-    `;
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      ON CONFLICT (original_customer_id, archive_date) 
+      DO UPDATE SET
+        queue_status = EXCLUDED.queue_status,
+        served_at = EXCLUDED.served_at,
+        counter_id = EXCLUDED.counter_id
+    `, [
+      customerInfo.id,
+      customerInfo.name,
+      customerInfo.email,
+      customerInfo.contact_number,
+      'cancelled',
+      customerInfo.token_number,
+      customerInfo.priority_flags,
+      customerInfo.created_at,
+      new Date(),  // Use current timestamp as served_at for cancelled customers
+      null,        // No counter for cancelled customers
+      0,           // No estimated wait time for cancelled customers
+      new Date().toISOString().split('T')[0] // Today's date as archive_date
+    ]);
+  }
+
+  private static async announceCancellation(customer: Customer, reason?: string): Promise<void> {
+    // Emit real-time update for queue cancellation
+    await WebSocketService.emitQueueUpdate({
+      type: 'customer_cancelled',
+      customer,
+      reason,
+      timestamp: new Date()
+    });
 
-    const result = await pool.query(query, [customerId]);
-    return result.rows[0]?.position || null;
+    // Record analytics event
+    try {
+      await QueueAnalyticsService.recordQueueEvent({
+        customerId: customer.id,
+        eventType: 'cancelled',
+        isPriority: this.hasPriority(customer.priority_flags),
+        reason
+      });
+    } catch (analyticsError) {
+      console.error('Failed to record analytics event:', analyticsError);
+      // Don't fail the operation if analytics fails
+    }
   }
 
-  static async getEstimatedWaitTime(customerId: number): Promise<number> {
-    const position = await this.getPosition(customerId);
-    if (!position) return 0;
+  private static hasPriority(priorityFlags: any): boolean {
+    return !!(priorityFlags?.senior_citizen || priorityFlags?.pwd || priorityFlags?.pregnant);
+  }
 
-    return this.calculateEstimatedWaitTime(position);
+  private static parseCustomerRow(row: any): Customer {
+    return {
+      ...row,
+      prescription: typeof row.prescription === 'string' ? JSON.parse(row.prescription) : row.prescription,
+      payment_info: typeof row.payment_info === 'string' ? JSON.parse(row.payment_info) : row.payment_info,
+      priority_flags: typeof row.priority_flags === 'string' ? JSON.parse(row.priority_flags) : row.priority_flags,
+    };
+  }
+
+  static async getPosition(customerId: number): Promise<number | null> {
+    const ordered = await this.getOrderedWaiting();
+
+    const index = ordered.findIndex((customer) => customer.id === customerId);
+    return index >= 0 ? index + 1 : null;
+  }
+
+  /**
+   * Estimated wait for a waiting customer, or null if they are not in line
+   */
+  static async getEstimatedWaitTime(customerId: number): Promise<WaitTimeEstimate | null> {
+    const ordered = await this.getOrderedWaiting();
+    if (!ordered.some((customer) => customer.id === customerId)) return null;
+
+    const waits = await WaitTimeEstimator.estimateWaits(ordered);
+    return waits.get(customerId) || null;
+  }
+
+  /**
+   * Estimated wait for someone joining the end of the line right now
+   */
+  static async getProjectedWaitForNewCustomer(serviceType: ServiceType): Promise<WaitTimeEstimate> {
+    const ordered = await this.getOrderedWaiting();
+    // id 0 never belongs to a real customer
+    const waits = await WaitTimeEstimator.estimateWaits([...ordered, { id: 0, service_type: serviceType }]);
+    return waits.get(0)!;
+  }
+
+  /**
+   * Waiting customers in the order they will be called
+   */
+  private static async getOrderedWaiting(): Promise<Array<{ id: number; service_type: string }>> {
+    const query = `
+      SELECT id, service_type, priority_flags, created_at, manual_position, queue_score_adjustment, appointment_at
+      FROM customers
+      WHERE queue_status = 'waiting'
+    `;
+
+    const result = await pool.query(query);
+    const policy = await PriorityPolicyService.getPolicy();
+    const streak = await PriorityPolicyService.getConsecutivePriorityStreak(policy);
+    return PriorityPolicyService.orderQueue(result.rows, policy, streak).map((item) => item.customer);
   }
 
   static async updatePriority(customerId: number, priorityBoost: number = 0): Promise<Customer> {
@@ -642,6 +1128,7 @@ export class QueueService {
     averageWaitTime: number;
     longestWaitTime: number;
     priorityCustomers: number;
+    byServiceType: Record<ServiceType, ServiceTypeQueueStats>;
   }> {
     const query = `
       SELECT 
@@ -664,24 +1151,44 @@ export class QueueService {
       totalWaiting: parseInt(stats.total_waiting),
       averageWaitTime: parseFloat(stats.average_wait_minutes) || 0,
       longestWaitTime: parseFloat(stats.longest_wait_minutes) || 0,
-      priorityCustomers: parseInt(stats.priority_customers)
+      priorityCustomers: parseInt(stats.priority_customers),
+      byServiceType: await this.getServiceTypeBreakdown()
     };
   }
 
-  private static calculatePriorityScore(priorityFlags: any): number {
-    let score = 0;
-    
-    if (priorityFlags.senior_citizen) score += 1000;
-    if (priorityFlags.pwd) score += 900;
-    if (priorityFlags.pregnant) score += 800;
-    
-    return score;
-  }
+  /**
+   * Waiting/serving counts per requested service type.
+   * Every service type is present in the result, even when nobody is queued for it.
+   */
+  static async getServiceTypeBreakdown(): Promise<Record<ServiceType, ServiceTypeQueueStats>> {
+    const query = `
+      SELECT 
+        service_type,
+        COUNT(*) FILTER (WHERE queue_status = 'waiting') as waiting,
+        COUNT(*) FILTER (WHERE queue_status = 'serving') as serving,
+        AVG(EXTRACT(EPOCH FROM (NOW() - created_at)) / 60) FILTER (WHERE queue_status = 'waiting') as average_wait_minutes
+      FROM customers
+      WHERE queue_status IN ('waiting', 'serving')
+      GROUP BY service_type
+    `;
 
-  private static calculateEstimatedWaitTime(position: number): number {
-    // Estimated wait time based on position and average service time
-    const averageServiceTime = config.AVERAGE_SERVICE_TIME || 15; // minutes
-    return (position - 1) * averageServiceTime;
+    const result = await pool.query(query);
+
+    const breakdown = {} as Record<ServiceType, ServiceTypeQueueStats>;
+    Object.values(ServiceType).forEach((serviceType) => {
+      breakdown[serviceType] = { waiting: 0, serving: 0, averageWaitTime: 0 };
+    });
+
+    result.rows.forEach((row: any) => {
+      if (!(row.service_type in breakdown)) return;
+      breakdown[row.service_type as ServiceType] = {
+        waiting: parseInt(row.waiting) || 0,
+        serving: parseInt(row.serving) || 0,
+        averageWaitTime: parseFloat(row.average_wait_minutes) || 0
+      };
+    });
+
+    return breakdown;
   }
 
   static async reorderQueue(customerIds: number[]): Promise<QueueItem[]> {
@@ -721,14 +1228,15 @@ export class QueueService {
     }
   }
 
-  static async changeStatus(customerId: number, nextStatus: QueueStatus, userId?: number, userRole?: string): Promise<Customer> {
+  // `actor` records who made a change that doesn't come from a staff user, e.g. a customer's tracking link
+  static async changeStatus(customerId: number, nextStatus: QueueStatus, userId?: number, userRole?: string, actor?: string): Promise<Customer> {
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
 
       // Get current customer status
       const getCurrentStatusQuery = `
-        SELECT id, name, queue_status, created_at, updated_at
+        SELECT id, name, queue_status, hold_expires_at, created_at, updated_at
         FROM customers
         WHERE id = $1
         FOR UPDATE
@@ -758,15 +1266,35 @@ export class QueueService {
         );
       }
 
+      // A lapsed hold can only be cancelled, not reactivated
+      if (
+        currentStatus === QueueStatus.ON_HOLD &&
+        nextStatus === QueueStatus.WAITING &&
+        currentCustomer.hold_expires_at &&
+        new Date(currentCustomer.hold_expires_at).getTime() <= Date.now()
+      ) {
+        throw new Error('Hold has expired');
+      }
+
+      // Held customers keep created_at, so they return to their original place in line
+      let holdExpiresAt: Date | null = null;
+      if (nextStatus === QueueStatus.ON_HOLD) {
+        const { holdWindowMinutes } = await SettingsService.getQueueHoldSettings();
+        holdExpiresAt = new Date(Date.now() + holdWindowMinutes * 60000);
+      }
+
       // Update customer status
       const updateCustomerQuery = `
         UPDATE customers 
-        SET queue_status = $1, updated_at = CURRENT_TIMESTAMP
+        SET queue_status = $1,
+            held_at = CASE WHEN $1 = 'on_hold' THEN CURRENT_TIMESTAMP ELSE NULL END,
+            hold_expires_at = $3,
+            updated_at = CURRENT_TIMESTAMP
         WHERE id = $2
         RETURNING *
       `;
 
-      const customerResult = await client.query(updateCustomerQuery, [nextStatus, customerId]);
+      const customerResult = await client.query(updateCustomerQuery, [nextStatus, customerId, holdExpiresAt]);
       
       // Record queue event with processing timestamps
       await this.recordQueueEventWithTimestamps(
@@ -774,7 +1302,8 @@ export class QueueService {
         customerId, 
         currentStatus,
         nextStatus,
-        userId
+        userId,
+        actor
       );
 
       await client.query('COMMIT');
@@ -818,9 +1347,11 @@ export class QueueService {
 
   private static isValidStatusTransition(currentStatus: QueueStatus, nextStatus: QueueStatus): boolean {
     // Define valid transitions: Waiting → Serving → Processing → Completed
+    // Waiting customers can be put on hold and reactivated back to waiting
     // Cancelled can be reached from any status
     const validTransitions: { [key in QueueStatus]: QueueStatus[] } = {
-      [QueueStatus.WAITING]: [QueueStatus.SERVING, QueueStatus.CANCELLED],
+      [QueueStatus.WAITING]: [QueueStatus.SERVING, QueueStatus.ON_HOLD, QueueStatus.CANCELLED],
+      [QueueStatus.ON_HOLD]: [QueueStatus.WAITING, QueueStatus.CANCELLED],
       [QueueStatus.SERVING]: [QueueStatus.PROCESSING, QueueStatus.COMPLETED, QueueStatus.CANCELLED],
       [QueueStatus.PROCESSING]: [QueueStatus.COMPLETED, QueueStatus.CANCELLED],
       [QueueStatus.COMPLETED]: [], // Terminal state
@@ -875,6 +1406,13 @@ export class QueueService {
       if (currentStatus === QueueStatus.PROCESSING && nextStatus === QueueStatus.COMPLETED) {
         return true;
       }
+      // Allow putting a waiting customer on hold and reactivating them
+      if (currentStatus === QueueStatus.WAITING && nextStatus === QueueStatus.ON_HOLD) {
+        return true;
+      }
+      if (currentStatus === QueueStatus.ON_HOLD && nextStatus === QueueStatus.WAITING) {
+        return true;
+      }
       // Allow cancellation from any status
       if (nextStatus === QueueStatus.CANCELLED) {
         return true;
@@ -890,7 +1428,8 @@ export class QueueService {
     customerId: number, 
     fromStatus: QueueStatus,
     toStatus: QueueStatus,
-    userId?: number
+    userId?: number,
+    actor?: string
   ): Promise<void> {
     const now = new Date();
     let eventType: string;
@@ -918,6 +1457,12 @@ export class QueueService {
           processingEndAt = now;
         }
         break;
+      case QueueStatus.ON_HOLD:
+        eventType = 'held';
+        break;
+      case QueueStatus.WAITING:
+        eventType = fromStatus === QueueStatus.ON_HOLD ? 'reactivated' : 'status_changed';
+        break;
       default:
         eventType = 'status_changed';
     }
@@ -938,6 +1483,7 @@ export class QueueService {
       from_status: fromStatus,
       to_status: toStatus,
       user_id: userId,
+      ...(actor && { actor }),
       timestamp: now.toISOString()
     };
 
@@ -1054,26 +1600,35 @@ export class CounterService {
     return result.rows;
   }
 
-  static async create(name: string): Promise<Counter> {
+  static async create(name: string, serviceTypes: ServiceType[] = Object.values(ServiceType)): Promise<Counter> {
+    if (!this.isValidServiceTypes(serviceTypes)) {
+      throw new Error('Invalid service types');
+    }
+
     const query = `
-      INSERT INTO counters (name, is_active)
-      VALUES ($1, true)
+      INSERT INTO counters (name, is_active, service_types)
+      VALUES ($1, true, $2)
       RETURNING *
     `;
 
-    const result = await pool.query(query, [name]);
+    const result = await pool.query(query, [name, JSON.stringify(serviceTypes)]);
+    await this.announceChange('counter_created', result.rows[0]);
     return result.rows[0];
   }
 
-  static async update(id: number, updates: { name?: string; is_active?: boolean }): Promise<Counter> {
+  static async update(id: number, updates: { name?: string; is_active?: boolean; service_types?: ServiceType[] }): Promise<Counter> {
     const setClause: string[] = [];
     const values: any[] = [];
     let paramCount = 1;
 
+    if (updates.service_types !== undefined && !this.isValidServiceTypes(updates.service_types)) {
+      throw new Error('Invalid service types');
+    }
+
     Object.entries(updates).forEach(([key, value]) => {
       if (value !== undefined) {
         setClause.push(`${key} = $${paramCount}`);
-        values.push(value);
+        values.push(key === 'service_types' ? JSON.stringify(value) : value);
         paramCount++;
       }
     });
@@ -1096,16 +1651,19 @@ export class CounterService {
       throw new Error('Counter not found');
     }
 
+    await this.announceChange('counter_updated', result.rows[0]);
     return result.rows[0];
   }
 
   static async delete(id: number): Promise<void> {
-    const query = `DELETE FROM counters WHERE id = $1`;
+    const query = `DELETE FROM counters WHERE id = $1 RETURNING *`;
     const result = await pool.query(query, [id]);
     
     if (result.rowCount === 0) {
       throw new Error('Counter not found');
     }
+
+    await this.announceChange('counter_deleted', result.rows[0]);
   }
 
   static async findById(id: number): Promise<Counter | null> {
@@ -1119,4 +1677,24 @@ export class CounterService {
     const result = await pool.query(query, [id]);
     return result.rows[0] || null;
   }
+
+  /**
+   * A counter must handle at least one service type, and only known ones
+   */
+  static isValidServiceTypes(serviceTypes: any): serviceTypes is ServiceType[] {
+    return Array.isArray(serviceTypes) &&
+      serviceTypes.length > 0 &&
+      serviceTypes.every((type) => Object.values(ServiceType).includes(type));
+  }
+
+  /**
+   * Counter names and service types are on the displays, so their feeds are refreshed too
+   */
+  static async announceChange(type: 'counter_created' | 'counter_updated' | 'counter_deleted', counter: Counter): Promise<void> {
+    await WebSocketService.emitQueueUpdate({
+      type,
+      counter,
+      timestamp: new Date()
+    });
+  }
 }
@@ -0,0 +1,112 @@
+import { pool } from '../config/database';
+import { QueuePause } from '../types';
+import { WebSocketService } from './websocket';
+
+const PAUSE_COLUMNS = `
+  qp.id, qp.reason, qp.expected_resume_at, qp.paused_by, u.full_name as paused_by_name,
+  qp.paused_at, qp.resumed_by, qp.resumed_at
+`;
+
+/**
+ * Pausing the whole queue, e.g. over lunch or during a power outage.
+ *
+ * While a pause is open no customer can be called. Every pause is kept in queue_pauses so
+ * wait-time analytics can leave the paused minutes out (see queue_paused_minutes()).
+ */
+export class QueuePauseService {
+  /**
+   * The pause currently in effect, or null when the queue is running
+   */
+  static async getActivePause(db: any = pool): Promise<QueuePause | null> {
+    const result = await db.query(`
+      SELECT ${PAUSE_COLUMNS}
+      FROM queue_pauses qp
+      LEFT JOIN users u ON u.id = qp.paused_by
+      WHERE qp.resumed_at IS NULL
+      ORDER BY qp.paused_at DESC
+      LIMIT 1
+    `);
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Reject the operation while the queue is paused. Pass the transaction's client so the
+   * check sees the same snapshot as the call it guards.
+   * @throws Error('Queue is paused: <reason>')
+   */
+  static async assertNotPaused(db: any = pool): Promise<void> {
+    const pause = await this.getActivePause(db);
+    if (pause) {
+      throw new Error(`Queue is paused: ${pause.reason}`);
+    }
+  }
+
+  /**
+   * Pause the queue
+   * @throws Error('Queue is already paused')
+   */
+  static async pause(reason: string, expectedResumeAt: Date | null, userId?: number): Promise<QueuePause> {
+    let pause: QueuePause;
+    try {
+      const result = await pool.query(`
+        INSERT INTO queue_pauses (reason, expected_resume_at, paused_by)
+        VALUES ($1, $2, $3)
+        RETURNING id
+      `, [reason, expectedResumeAt, userId || null]);
+      pause = (await this.findById(result.rows[0].id))!;
+    } catch (error: any) {
+      // The single-open-pause index turns a concurrent second pause into a unique violation
+      if (error && error.code === '23505') {
+        throw new Error('Queue is already paused');
+      }
+      throw error;
+    }
+
+    await WebSocketService.emitQueueUpdate({
+      type: 'queue_paused',
+      pause,
+      timestamp: new Date()
+    });
+
+    return pause;
+  }
+
+  /**
+   * Resume a paused queue
+   * @throws Error('Queue is not paused')
+   */
+  static async resume(userId?: number): Promise<QueuePause> {
+    const result = await pool.query(`
+      UPDATE queue_pauses
+      SET resumed_at = CURRENT_TIMESTAMP, resumed_by = $1
+      WHERE resumed_at IS NULL
+      RETURNING id
+    `, [userId || null]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Queue is not paused');
+    }
+
+    const pause = (await this.findById(result.rows[0].id))!;
+
+    await WebSocketService.emitQueueUpdate({
+      type: 'queue_resumed',
+      pause,
+      timestamp: new Date()
+    });
+
+    return pause;
+  }
+
+  private static async findById(id: number): Promise<QueuePause | null> {
+    const result = await pool.query(`
+      SELECT ${PAUSE_COLUMNS}
+      FROM queue_pauses qp
+      LEFT JOIN users u ON u.id = qp.paused_by
+      WHERE qp.id = $1
+    `, [id]);
+
+    return result.rows[0] || null;
+  }
+}
@@ -0,0 +1,183 @@
+import { PoolClient } from 'pg';
+import moment from 'moment-timezone';
+import { pool } from '../config/database';
+import { PriorityFlags, ServiceType } from '../types';
+import { SettingsService, TokenFormatSettings } from './settings';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+export interface IssuedToken {
+  tokenNumber: number;
+  tokenCode: string;
+}
+
+// Business days follow the shop's local calendar, same as the daily reset scheduler
+const TIMEZONE = 'Asia/Manila';
+const businessDay = (): moment.Moment => moment().tz(TIMEZONE);
+
+const OR_SEQUENCE_KEY = 'or';
+const PRIORITY_SEQUENCE_KEY = 'token:priority';
+const PREFIX_PATTERN = /^[A-Z]{0,3}$/;
+
+// Same defaults as SettingsService.getTokenFormatSettings
+const DEFAULT_SERVICE_PREFIXES: Record<string, string> = {
+  [ServiceType.EYE_EXAM]: 'E',
+  [ServiceType.FRAME_FITTING]: 'F',
+  [ServiceType.CASHIER]: 'C',
+  [ServiceType.RELEASING]: 'R'
+};
+
+const DEFAULT_TOKEN_FORMAT: TokenFormatSettings = {
+  servicePrefixes: DEFAULT_SERVICE_PREFIXES,
+  priorityPrefix: '',
+  padding: 3
+};
+
+/**
+ * Daily counters for queue tokens and OR numbers.
+ *
+ * Each value is taken with a single `INSERT ... ON CONFLICT DO UPDATE ... RETURNING` on
+ * `daily_sequences`, so concurrent registrations can never be handed the same number.
+ * Tokens are numbered per service type, so each counter's line starts at 001. Every service
+ * type has its own prefix so codes stay unique across lines; a priority lane prefix, when set,
+ * gets a sequence of its own (e.g. `P001`) shared by priority customers of all service types.
+ */
+export class QueueSequenceService {
+  static async getFormat(): Promise<TokenFormatSettings> {
+    try {
+      return await SettingsService.getTokenFormatSettings();
+    } catch (error) {
+      // Registration must keep working even if settings can't be read
+      console.error('Failed to load token format settings, using defaults:', error);
+      return { ...DEFAULT_TOKEN_FORMAT };
+    }
+  }
+
+  /**
+   * Validate a (partial) token format update
+   * @returns an error message, or null if the format is acceptable
+   */
+  static validateFormat(format: Partial<TokenFormatSettings>): string | null {
+    if (format.padding !== undefined &&
+        (!Number.isInteger(format.padding) || format.padding < 1 || format.padding > 6)) {
+      return 'padding must be an integer between 1 and 6';
+    }
+
+    if (format.priorityPrefix !== undefined &&
+        (typeof format.priorityPrefix !== 'string' || !PREFIX_PATTERN.test(format.priorityPrefix))) {
+      return 'priorityPrefix must be up to 3 uppercase letters';
+    }
+
+    if (format.servicePrefixes !== undefined) {
+      if (typeof format.servicePrefixes !== 'object' || format.servicePrefixes === null || Array.isArray(format.servicePrefixes)) {
+        return 'servicePrefixes must be an object';
+      }
+      const validServiceTypes = Object.values(ServiceType) as string[];
+      for (const [serviceType, prefix] of Object.entries(format.servicePrefixes)) {
+        if (!validServiceTypes.includes(serviceType)) {
+          return `Invalid service type: ${serviceType}`;
+        }
+        if (typeof prefix !== 'string' || !PREFIX_PATTERN.test(prefix)) {
+          return `Prefix for ${serviceType} must be up to 3 uppercase letters`;
+        }
+      }
+    }
+
+    // Lines sharing a prefix would hand out the same token codes
+    const servicePrefixes = { ...DEFAULT_SERVICE_PREFIXES, ...format.servicePrefixes };
+    const prefixOwners = new Map<string, string>();
+    for (const serviceType of Object.values(ServiceType)) {
+      const prefix = servicePrefixes[serviceType];
+      const owner = prefixOwners.get(prefix);
+      if (owner !== undefined) {
+        return `${owner} and ${serviceType} must use different prefixes`;
+      }
+      prefixOwners.set(prefix, serviceType);
+    }
+
+    if (format.priorityPrefix && prefixOwners.has(format.priorityPrefix)) {
+      return `priorityPrefix must differ from the prefix of ${prefixOwners.get(format.priorityPrefix)}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Prefix a new customer's token gets: the priority lane prefix wins when configured,
+   * otherwise the service type's own (falling back to its default when never saved)
+   */
+  static resolvePrefix(format: TokenFormatSettings, serviceType: ServiceType, priorityFlags?: PriorityFlags | null): string {
+    if (this.usesPriorityLane(format, priorityFlags)) {
+      return format.priorityPrefix;
+    }
+    return format.servicePrefixes?.[serviceType] ?? DEFAULT_SERVICE_PREFIXES[serviceType] ?? '';
+  }
+
+  private static usesPriorityLane(format: TokenFormatSettings, priorityFlags?: PriorityFlags | null): boolean {
+    const isPriority = !!(priorityFlags && (priorityFlags.senior_citizen || priorityFlags.pwd || priorityFlags.pregnant));
+    return isPriority && !!format.priorityPrefix;
+  }
+
+  static formatTokenCode(prefix: string, tokenNumber: number, padding: number = DEFAULT_TOKEN_FORMAT.padding): string {
+    return `${prefix}${tokenNumber.toString().padStart(padding, '0')}`;
+  }
+
+  /**
+   * Atomically increment and return a business day's value of a sequence, starting at 1
+   */
+  static async nextValue(sequenceKey: string, db: Queryable = pool, businessDate: string = businessDay().format('YYYY-MM-DD')): Promise<number> {
+    const result = await db.query(`
+      INSERT INTO daily_sequences (business_date, sequence_key, last_value)
+      VALUES ($1, $2, 1)
+      ON CONFLICT (business_date, sequence_key)
+      DO UPDATE SET last_value = daily_sequences.last_value + 1, updated_at = CURRENT_TIMESTAMP
+      RETURNING last_value
+    `, [businessDate, sequenceKey]);
+
+    return Number(result.rows[0].last_value);
+  }
+
+  /**
+   * Issue the next token for a new customer. Pass the registration transaction's client so
+   * the number is only consumed if the customer is actually inserted.
+   */
+  static async nextToken(serviceType: ServiceType, priorityFlags?: PriorityFlags | null, db: Queryable = pool): Promise<IssuedToken> {
+    const format = await this.getFormat();
+    const prefix = this.resolvePrefix(format, serviceType, priorityFlags);
+    const sequenceKey = this.usesPriorityLane(format, priorityFlags) ? PRIORITY_SEQUENCE_KEY : `token:${serviceType}`;
+    const tokenNumber = await this.nextValue(sequenceKey, db);
+
+    return {
+      tokenNumber,
+      tokenCode: this.formatTokenCode(prefix, tokenNumber, format.padding)
+    };
+  }
+
+  /**
+   * Issue the next OR number: OR + yymmdd + 3-digit daily sequence + random suffix
+   */
+  static async nextORNumber(db: Queryable = pool): Promise<string> {
+    // The date in the number is the business day the sequence counts for
+    const today = businessDay();
+    const sequence = await this.nextValue(OR_SEQUENCE_KEY, db, today.format('YYYY-MM-DD'));
+
+    // Random alphanumeric suffix keeps OR numbers hard to guess
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    let suffix = '';
+    for (let i = 0; i < 6; i++) {
+      suffix += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+
+    return `OR${today.format('YYMMDD')}${sequence.toString().padStart(3, '0')}${suffix}`;
+  }
+
+  /**
+   * Drop counters of past business days so every sequence restarts at 1.
+   * Called from the daily reset inside its transaction.
+   * @returns number of counters removed
+   */
+  static async resetDailySequences(db: Queryable = pool): Promise<number> {
+    const result = await db.query('DELETE FROM daily_sequences WHERE business_date < $1', [businessDay().format('YYYY-MM-DD')]);
+    return result.rowCount || 0;
+  }
+}
@@ -1,4 +1,5 @@
 import { pool } from '../config/database';
+import { ServiceType } from '../types';
 
 export interface SystemSetting {
   id: number;
@@ -22,6 +23,76 @@ export interface SessionTimeoutSettings {
   soundNotifications: boolean;
 }
 
+export interface QueuePriorityPolicySettings {
+  seniorCitizenWeight: number;
+  pwdWeight: number;
+  pregnantWeight: number;
+  maxConsecutivePriority: number; // priority customers called in a row before a regular one; 0 = no limit
+  agingBonusPerMinute: number; // score added for every minute a customer has waited
+  appointmentWeight: number; // added for checked-in appointments once their slot has started
+}
+
+export interface NoShowSettings {
+  maxMissedCalls: number; // auto-cancel when reached, 0 = never
+  skipBehindCount: number; // people a skipped customer is placed behind
+}
+
+export interface QueueHoldSettings {
+  holdWindowMinutes: number; // how long an on-hold customer can be reactivated
+}
+
+export interface TokenFormatSettings {
+  servicePrefixes: Record<string, string>; // prefix per service type, '' = no prefix
+  priorityPrefix: string; // priority customers' own lane, used instead of the service prefix, '' = off
+  padding: number; // digits the daily number is zero-padded to
+}
+
+export interface DailyHours {
+  open: string; // HH:mm, shop local time
+  close: string; // HH:mm
+}
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+export interface BusinessHoursSettings {
+  weeklyHours: Record<Weekday, DailyHours | null>; // null = closed all day
+  capacityCheckMode: 'off' | 'warn' | 'block'; // what to do when a registration would be served after closing
+  registrationCutoffMinutes: number; // stop taking registrations this long before closing
+}
+
+export interface AppointmentSettings {
+  slotMinutes: number; // length of a bookable slot
+  appointmentsPerCounter: number; // bookings per slot for each active counter of the service type
+  noShowGraceMinutes: number; // a booked appointment not checked in this long after its slot starts is a no-show
+}
+
+export interface JobOrderStage {
+  key: string;
+  label: string;
+  ready: boolean; // reaching it texts the customer that the order is ready for pickup
+  final: boolean; // the order has left the shop; final stages are off the board
+}
+
+export interface JobOrderSettings {
+  stages: JobOrderStage[]; // in board order; new job orders start at the first
+  defaultTurnaroundDays: number; // expected-ready date of a new job order when none is given
+}
+
+export interface DisplayAccessSettings {
+  allowUnpaired: boolean; // let displays without a device token read the public display feeds
+}
+
+export type AnnouncementLanguage = 'en' | 'fil';
+
+export interface AnnouncementSettings {
+  enabled: boolean;
+  templates: Record<AnnouncementLanguage, string>; // {token} and {counter} are filled in by the display
+  voices: Record<AnnouncementLanguage, string>; // speech synthesis voice name, '' = the browser's voice for the language
+  rate: number; // speech rate, 1 = normal
+  repeatCount: number; // times each call is announced
+  languageOrder: AnnouncementLanguage[]; // languages spoken, in order; leaving one out skips it
+}
+
 export class SettingsService {
   /**
    * Get all system settings
@@ -137,9 +208,7 @@ export class SettingsService {
    * Get session timeout settings with defaults
    */
   static async getSessionTimeoutSettings(): Promise<SessionTimeoutSettings> {
-    const settings = await this.getSettingsByCategory('session');
-    
-    const defaults: SessionTimeoutSettings = {
+    return this.getCategoryValues<SessionTimeoutSettings>('session', {
       accessTokenExpiry: 30, // 30 minutes
       refreshTokenExpiry: 7, // 7 days
       warningTime: 5, // 5 minutes before expiry
@@ -147,20 +216,227 @@ export class SettingsService {
       autoExtendOnActivity: true,
       maxSessionExtensions: 5,
       soundNotifications: true
+    });
+  }
+
+  /**
+   * Update session timeout settings
+   */
+  static async updateSessionTimeoutSettings(settings: Partial<SessionTimeoutSettings>): Promise<void> {
+    await this.updateCategoryValues('session', settings, 'Session timeout setting', true);
+  }
+
+  /**
+   * Get the queue priority policy with defaults
+   */
+  static async getQueuePriorityPolicy(): Promise<QueuePriorityPolicySettings> {
+    return this.getCategoryValues<QueuePriorityPolicySettings>('queue_priority', {
+      seniorCitizenWeight: 1000,
+      pwdWeight: 900,
+      pregnantWeight: 800,
+      maxConsecutivePriority: 3,
+      agingBonusPerMinute: 20,
+      appointmentWeight: 800
+    });
+  }
+
+  /**
+   * Update the queue priority policy
+   */
+  static async updateQueuePriorityPolicy(policy: Partial<QueuePriorityPolicySettings>): Promise<void> {
+    await this.updateCategoryValues('queue_priority', policy, 'Queue priority policy', false);
+  }
+
+  /**
+   * Get no-show handling settings with defaults
+   */
+  static async getNoShowSettings(): Promise<NoShowSettings> {
+    return this.getCategoryValues<NoShowSettings>('no_show', {
+      maxMissedCalls: 3,
+      skipBehindCount: 3
+    });
+  }
+
+  /**
+   * Update no-show handling settings
+   */
+  static async updateNoShowSettings(settings: Partial<NoShowSettings>): Promise<void> {
+    await this.updateCategoryValues('no_show', settings, 'No-show handling', false);
+  }
+
+  /**
+   * Get on-hold settings with defaults
+   */
+  static async getQueueHoldSettings(): Promise<QueueHoldSettings> {
+    return this.getCategoryValues<QueueHoldSettings>('queue_hold', {
+      holdWindowMinutes: 15
+    });
+  }
+
+  /**
+   * Update on-hold settings
+   */
+  static async updateQueueHoldSettings(settings: Partial<QueueHoldSettings>): Promise<void> {
+    await this.updateCategoryValues('queue_hold', settings, 'Queue hold', false);
+  }
+
+  /**
+   * Get token number format settings with defaults
+   */
+  static async getTokenFormatSettings(): Promise<TokenFormatSettings> {
+    // Distinct per service type so every line issues its own codes
+    const servicePrefixes = {
+      [ServiceType.EYE_EXAM]: 'E',
+      [ServiceType.FRAME_FITTING]: 'F',
+      [ServiceType.CASHIER]: 'C',
+      [ServiceType.RELEASING]: 'R'
     };
+    const settings = await this.getCategoryValues<TokenFormatSettings>('token_format', {
+      servicePrefixes,
+      priorityPrefix: '',
+      padding: 3
+    });
+    // Service types without a saved prefix keep their default
+    return { ...settings, servicePrefixes: { ...servicePrefixes, ...settings.servicePrefixes } };
+  }
+
+  /**
+   * Update token number format settings
+   */
+  static async updateTokenFormatSettings(settings: Partial<TokenFormatSettings>): Promise<void> {
+    await this.updateCategoryValues('token_format', settings, 'Token format', false);
+  }
+
+  /**
+   * Get business hours and registration capacity settings with defaults
+   */
+  static async getBusinessHoursSettings(): Promise<BusinessHoursSettings> {
+    const openDaily = { open: '09:00', close: '18:00' };
+    return this.getCategoryValues<BusinessHoursSettings>('business_hours', {
+      weeklyHours: {
+        sunday: openDaily,
+        monday: openDaily,
+        tuesday: openDaily,
+        wednesday: openDaily,
+        thursday: openDaily,
+        friday: openDaily,
+        saturday: openDaily
+      },
+      capacityCheckMode: 'warn',
+      registrationCutoffMinutes: 0
+    });
+  }
+
+  /**
+   * Update business hours settings; they are public so every screen can show opening times
+   */
+  static async updateBusinessHoursSettings(settings: Partial<BusinessHoursSettings>): Promise<void> {
+    await this.updateCategoryValues('business_hours', settings, 'Business hours', true);
+  }
+
+  /**
+   * Get appointment booking settings
+   */
+  static async getAppointmentSettings(): Promise<AppointmentSettings> {
+    return this.getCategoryValues<AppointmentSettings>('appointments', {
+      slotMinutes: 15,
+      appointmentsPerCounter: 1,
+      noShowGraceMinutes: 15
+    });
+  }
+
+  /**
+   * Update appointment booking settings
+   */
+  static async updateAppointmentSettings(settings: Partial<AppointmentSettings>): Promise<void> {
+    await this.updateCategoryValues('appointments', settings, 'Appointments', false);
+  }
+
+  /**
+   * Get job order stages and turnaround
+   */
+  static async getJobOrderSettings(): Promise<JobOrderSettings> {
+    return this.getCategoryValues<JobOrderSettings>('job_orders', {
+      stages: [
+        { key: 'lens_ordered', label: 'Lens Ordered', ready: false, final: false },
+        { key: 'at_lab', label: 'At Lab', ready: false, final: false },
+        { key: 'edging', label: 'Edging', ready: false, final: false },
+        { key: 'qc', label: 'Quality Check', ready: false, final: false },
+        { key: 'ready', label: 'Ready for Release', ready: true, final: false },
+        { key: 'released', label: 'Released', ready: false, final: true }
+      ],
+      defaultTurnaroundDays: 3
+    });
+  }
 
+  /**
+   * Update job order stages and turnaround
+   */
+  static async updateJobOrderSettings(settings: Partial<JobOrderSettings>): Promise<void> {
+    await this.updateCategoryValues('job_orders', settings, 'Job orders', false);
+  }
+
+  /**
+   * Get display monitor access settings; unpaired displays stay allowed until an admin turns it off
+   */
+  static async getDisplayAccessSettings(): Promise<DisplayAccessSettings> {
+    return this.getCategoryValues<DisplayAccessSettings>('display_access', {
+      allowUnpaired: true
+    });
+  }
+
+  /**
+   * Update display monitor access settings
+   */
+  static async updateDisplayAccessSettings(settings: Partial<DisplayAccessSettings>): Promise<void> {
+    await this.updateCategoryValues('display_access', settings, 'Display access', false);
+  }
+
+  /**
+   * Get spoken token announcement settings for the display monitors
+   */
+  static async getAnnouncementSettings(): Promise<AnnouncementSettings> {
+    return this.getCategoryValues<AnnouncementSettings>('announcements', {
+      enabled: true,
+      templates: {
+        en: 'Token {token}, please proceed to {counter}.',
+        fil: 'Token {token}, pumunta po sa {counter}.'
+      },
+      voices: { en: '', fil: '' },
+      rate: 0.9,
+      repeatCount: 1,
+      languageOrder: ['en', 'fil']
+    });
+  }
+
+  /**
+   * Update announcement settings; they are public so the displays can read them
+   */
+  static async updateAnnouncementSettings(settings: Partial<AnnouncementSettings>): Promise<void> {
+    await this.updateCategoryValues('announcements', settings, 'Announcements', true);
+  }
+
+  /**
+   * Read all settings of a category into a typed object, keyed without the category prefix.
+   * Keys missing from the database keep their default value.
+   */
+  private static async getCategoryValues<T extends object>(category: string, defaults: T): Promise<T> {
+    const settings = await this.getSettingsByCategory(category);
     const result = { ...defaults };
-    
+
     settings.forEach(setting => {
-      const key = setting.key.replace('session.', '') as keyof SessionTimeoutSettings;
+      const key = setting.key.replace(`${category}.`, '');
       if (key in result) {
         switch (setting.data_type) {
           case 'number':
-            (result as any)[key] = parseInt(setting.value, 10);
+            (result as any)[key] = Number(setting.value);
             break;
           case 'boolean':
             (result as any)[key] = setting.value === 'true';
             break;
+          case 'json':
+            (result as any)[key] = JSON.parse(setting.value);
+            break;
           default:
             (result as any)[key] = setting.value;
         }
@@ -171,25 +447,34 @@ export class SettingsService {
   }
 
   /**
-   * Update session timeout settings
+   * Write values back as `${category}.${key}` settings, creating any that don't exist yet
    */
-  static async updateSessionTimeoutSettings(settings: Partial<SessionTimeoutSettings>): Promise<void> {
-    for (const [key, value] of Object.entries(settings)) {
-      const settingKey = `session.${key}`;
+  private static async updateCategoryValues(
+    category: string,
+    values: Record<string, any>,
+    descriptionPrefix: string,
+    isPublic: boolean
+  ): Promise<void> {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) continue;
+
+      const settingKey = `${category}.${key}`;
+      const dataType = typeof value === 'number' ? 'number' :
+                      typeof value === 'boolean' ? 'boolean' :
+                      typeof value === 'object' ? 'json' : 'string';
+      const storedValue = dataType === 'json' ? JSON.stringify(value) : value.toString();
+
       try {
-        await this.updateSetting(settingKey, value.toString());
+        await this.updateSetting(settingKey, storedValue);
       } catch (error) {
         // If setting doesn't exist, create it
-        const dataType = typeof value === 'number' ? 'number' : 
-                        typeof value === 'boolean' ? 'boolean' : 'string';
-        
         await this.createSetting({
           key: settingKey,
-          value: value.toString(),
-          description: `Session timeout setting: ${key}`,
-          category: 'session',
+          value: storedValue,
+          description: `${descriptionPrefix}: ${key}`,
+          category,
           data_type: dataType,
-          is_public: true
+          is_public: isPublic
         });
       }
     }
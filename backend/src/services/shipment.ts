@@ -0,0 +1,435 @@
+import { pool } from '../config/database';
+import { Courier, DistributionType, ProofOfDelivery, Shipment, ShipmentEvent, ShipmentEventSource, ShipmentStatus } from '../types';
+import { EnhancedSMSService } from './EnhancedSMSService';
+import { CourierStatusUpdate, getCourierAdapter } from './courierAdapters';
+
+const COURIERS: Courier[] = [DistributionType.LALAMOVE, DistributionType.LBC];
+
+// Shipments in these statuses are done with; they take no more updates
+const CLOSED_STATUSES = [ShipmentStatus.DELIVERED, ShipmentStatus.RETURNED, ShipmentStatus.CANCELLED];
+
+// Reaching these texts the customer that the order is on its way
+const NOTIFY_STATUSES = [ShipmentStatus.PICKED_UP, ShipmentStatus.OUT_FOR_DELIVERY];
+
+const SHIPMENT_COLUMNS = `
+  s.*, c.name as customer_name, c.contact_number, c.or_number, u.full_name as created_by_name
+`;
+
+const SHIPMENT_JOINS = `
+  JOIN customers c ON c.id = s.customer_id
+  LEFT JOIN users u ON u.id = s.created_by
+`;
+
+export interface CreateShipmentData {
+  customer_id: number;
+  courier: Courier;
+  reference?: string | null;
+  fee?: number;
+  recipient_name?: string | null;
+  delivery_address?: string | null;
+  estimated_delivery_at?: Date | null;
+}
+
+export interface UpdateShipmentData {
+  reference?: string | null;
+  fee?: number;
+  recipient_name?: string | null;
+  delivery_address?: string | null;
+  estimated_delivery_at?: Date | null;
+}
+
+export interface ShipmentStatusChange {
+  status: ShipmentStatus;
+  description?: string | null;
+  location?: string | null;
+  proof?: ProofOfDelivery | null;
+}
+
+/**
+ * Shipments of orders delivered by Lalamove or LBC.
+ *
+ * Staff record the booking and can update the status by hand; couriers with an adapter (see
+ * courierAdapters) update it themselves, by polling or webhook. Each status is kept as an event.
+ * Being picked up and going out for delivery text the customer.
+ */
+export class ShipmentService {
+  static isCourier(value: unknown): value is Courier {
+    return COURIERS.includes(value as Courier);
+  }
+
+  /**
+   * Record a shipment for a customer's order. The recipient and address default to the customer's.
+   * @throws Error('Customer not found')
+   * @throws Error('Reference is already used by another shipment')
+   */
+  static async create(data: CreateShipmentData, userId?: number): Promise<Shipment> {
+    const customerResult = await pool.query('SELECT id, name, address FROM customers WHERE id = $1', [data.customer_id]);
+    const customer = customerResult.rows[0];
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    let shipmentId: number;
+    try {
+      const result = await pool.query(`
+        INSERT INTO shipments (
+          customer_id, courier, reference, fee, recipient_name, delivery_address, estimated_delivery_at, created_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING id
+      `, [
+        data.customer_id,
+        data.courier,
+        data.reference?.trim() || null,
+        data.fee || 0,
+        data.recipient_name?.trim() || customer.name,
+        data.delivery_address?.trim() || customer.address,
+        data.estimated_delivery_at || null,
+        userId || null
+      ]);
+      shipmentId = result.rows[0].id;
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new Error('Reference is already used by another shipment');
+      }
+      throw error;
+    }
+
+    await pool.query(`
+      INSERT INTO shipment_events (shipment_id, status, description, source, created_by)
+      VALUES ($1, 'pending', 'Shipment recorded', 'staff', $2)
+    `, [shipmentId, userId || null]);
+
+    return (await this.findById(shipmentId))!;
+  }
+
+  /**
+   * A shipment with its status history
+   */
+  static async findById(id: number): Promise<Shipment | null> {
+    const result = await pool.query(`
+      SELECT ${SHIPMENT_COLUMNS}
+      FROM shipments s
+      ${SHIPMENT_JOINS}
+      WHERE s.id = $1
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const shipment = this.formatShipment(result.rows[0]);
+
+    const eventsResult = await pool.query(`
+      SELECT e.*, u.full_name as created_by_name
+      FROM shipment_events e
+      LEFT JOIN users u ON u.id = e.created_by
+      WHERE e.shipment_id = $1
+      ORDER BY e.occurred_at, e.id
+    `, [id]);
+    shipment.events = eventsResult.rows as ShipmentEvent[];
+
+    return shipment;
+  }
+
+  /**
+   * A customer's shipments with their history, newest first
+   */
+  static async listForCustomer(customerId: number): Promise<Shipment[]> {
+    const result = await pool.query('SELECT id FROM shipments WHERE customer_id = $1 ORDER BY created_at DESC, id DESC', [customerId]);
+    const shipments = await Promise.all(result.rows.map((row: any) => this.findById(row.id)));
+    return shipments.filter((shipment): shipment is Shipment => shipment !== null);
+  }
+
+  /**
+   * Shipments still on their way, optionally for one courier, oldest first
+   */
+  static async listOpen(courier?: Courier): Promise<Shipment[]> {
+    const params: any[] = [CLOSED_STATUSES];
+    let courierClause = '';
+    if (courier) {
+      params.push(courier);
+      courierClause = `AND s.courier = $${params.length}`;
+    }
+
+    const result = await pool.query(`
+      SELECT ${SHIPMENT_COLUMNS}
+      FROM shipments s
+      ${SHIPMENT_JOINS}
+      WHERE s.status <> ALL($1) ${courierClause}
+      ORDER BY s.created_at, s.id
+    `, params);
+
+    return result.rows.map((row: any) => this.formatShipment(row));
+  }
+
+  /**
+   * Correct the booking details
+   * @throws Error('Shipment not found')
+   * @throws Error('Reference is already used by another shipment')
+   */
+  static async update(id: number, updates: UpdateShipmentData): Promise<Shipment> {
+    const fields: string[] = [];
+    const params: any[] = [id];
+    const set = (column: string, value: any) => {
+      params.push(value);
+      fields.push(`${column} = $${params.length}`);
+    };
+
+    if (updates.reference !== undefined) set('reference', updates.reference?.trim() || null);
+    if (updates.fee !== undefined) set('fee', updates.fee);
+    if (updates.recipient_name !== undefined) set('recipient_name', updates.recipient_name?.trim() || null);
+    if (updates.delivery_address !== undefined) set('delivery_address', updates.delivery_address?.trim() || null);
+    if (updates.estimated_delivery_at !== undefined) set('estimated_delivery_at', updates.estimated_delivery_at);
+
+    if (fields.length > 0) {
+      try {
+        const result = await pool.query(`
+          UPDATE shipments
+          SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+          RETURNING id
+        `, params);
+        if (result.rows.length === 0) {
+          throw new Error('Shipment not found');
+        }
+      } catch (error: any) {
+        if (error?.code === '23505') {
+          throw new Error('Reference is already used by another shipment');
+        }
+        throw error;
+      }
+    }
+
+    const shipment = await this.findById(id);
+    if (!shipment) {
+      throw new Error('Shipment not found');
+    }
+    return shipment;
+  }
+
+  /**
+   * Set the status by hand, e.g. for couriers without an adapter
+   * @throws Error('Shipment not found')
+   * @throws Error('Shipment is already <status>')
+   */
+  static async changeStatus(id: number, change: ShipmentStatusChange, userId?: number): Promise<Shipment> {
+    const client = await pool.connect();
+    let previous: ShipmentStatus;
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query('SELECT * FROM shipments WHERE id = $1 FOR UPDATE', [id]);
+      const shipment = result.rows[0];
+      if (!shipment) {
+        throw new Error('Shipment not found');
+      }
+      if (shipment.status === change.status || CLOSED_STATUSES.includes(shipment.status)) {
+        throw new Error(`Shipment is already ${shipment.status.replace(/_/g, ' ')}`);
+      }
+      previous = shipment.status;
+
+      await this.recordStatus(client, id, { ...change, occurred_at: new Date() }, 'staff', userId);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const shipment = (await this.findById(id))!;
+    if (change.status !== previous) {
+      await this.notify(shipment);
+    }
+    return shipment;
+  }
+
+  /**
+   * Ask the courier for the shipment's latest status
+   * @throws Error('Shipment not found')
+   * @throws Error('Shipment has no courier reference')
+   * @throws Error('Courier updates are not available for <courier>')
+   */
+  static async refresh(id: number): Promise<Shipment> {
+    const shipment = await this.findById(id);
+    if (!shipment) {
+      throw new Error('Shipment not found');
+    }
+    if (!shipment.reference) {
+      throw new Error('Shipment has no courier reference');
+    }
+
+    const adapter = getCourierAdapter(shipment.courier);
+    if (!adapter?.trackShipment) {
+      throw new Error(`Courier updates are not available for ${shipment.courier}`);
+    }
+
+    const updates = await adapter.trackShipment(shipment.reference);
+    await this.applyCourierUpdates(shipment.courier, updates);
+    return (await this.findById(id))!;
+  }
+
+  /**
+   * Poll the couriers for every open shipment with a reference
+   * @returns number of shipments whose status changed
+   */
+  static async pollOpenShipments(): Promise<number> {
+    let changed = 0;
+    for (const courier of COURIERS) {
+      const adapter = getCourierAdapter(courier);
+      if (!adapter?.trackShipment) continue;
+
+      const shipments = (await this.listOpen(courier)).filter((shipment) => shipment.reference);
+      for (const shipment of shipments) {
+        try {
+          const updates = await adapter.trackShipment(shipment.reference!);
+          changed += await this.applyCourierUpdates(courier, updates);
+        } catch (error) {
+          console.error(`Failed to poll ${courier} for shipment ${shipment.id}:`, error);
+        }
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Apply a courier's webhook call
+   * @returns number of shipments whose status changed
+   * @throws Error('Courier updates are not available for <courier>')
+   * @throws Error('Invalid webhook signature')
+   */
+  static async handleWebhook(courier: Courier, payload: any, headers: Record<string, string | string[] | undefined>): Promise<number> {
+    const adapter = getCourierAdapter(courier);
+    if (!adapter?.parseWebhook) {
+      throw new Error(`Courier updates are not available for ${courier}`);
+    }
+    return this.applyCourierUpdates(courier, adapter.parseWebhook(payload, headers));
+  }
+
+  /**
+   * Record courier updates newer than each shipment's last status; repeats and updates for
+   * closed shipments are ignored
+   * @returns number of shipments whose status changed
+   */
+  static async applyCourierUpdates(courier: Courier, updates: CourierStatusUpdate[]): Promise<number> {
+    const byReference = new Map<string, CourierStatusUpdate[]>();
+    updates.forEach((update) => {
+      byReference.set(update.reference, [...(byReference.get(update.reference) || []), update]);
+    });
+
+    let changed = 0;
+    for (const [reference, shipmentUpdates] of byReference) {
+      const client = await pool.connect();
+      let shipmentId: number | null = null;
+      let statusChanged = false;
+      try {
+        await client.query('BEGIN');
+
+        const result = await client.query(
+          'SELECT * FROM shipments WHERE courier = $1 AND reference = $2 FOR UPDATE',
+          [courier, reference]
+        );
+        const shipment = result.rows[0];
+        if (shipment) {
+          shipmentId = shipment.id;
+          let status: ShipmentStatus = shipment.status;
+          let lastAt = new Date(shipment.status_updated_at).getTime();
+
+          const newer = shipmentUpdates
+            .filter((update) => update.occurred_at.getTime() > lastAt)
+            .sort((a, b) => a.occurred_at.getTime() - b.occurred_at.getTime());
+          for (const update of newer) {
+            if (CLOSED_STATUSES.includes(status)) break;
+            await this.recordStatus(client, shipment.id, update, 'courier');
+            statusChanged = statusChanged || update.status !== status;
+            status = update.status;
+            lastAt = update.occurred_at.getTime();
+          }
+        }
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+
+      if (shipmentId && statusChanged) {
+        changed++;
+        await this.notify((await this.findById(shipmentId))!);
+      }
+    }
+    return changed;
+  }
+
+  private static async recordStatus(
+    client: any,
+    shipmentId: number,
+    change: ShipmentStatusChange & { occurred_at: Date },
+    source: ShipmentEventSource,
+    userId?: number
+  ): Promise<void> {
+    const delivered = change.status === ShipmentStatus.DELIVERED;
+    await client.query(`
+      UPDATE shipments
+      SET status = $2,
+          status_updated_at = $3,
+          delivered_at = CASE WHEN $4 THEN $3 ELSE delivered_at END,
+          pod_received_by = COALESCE($5, pod_received_by),
+          pod_photo_url = COALESCE($6, pod_photo_url),
+          pod_notes = COALESCE($7, pod_notes),
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `, [
+      shipmentId,
+      change.status,
+      change.occurred_at,
+      delivered,
+      change.proof?.received_by?.trim() || null,
+      change.proof?.photo_url || null,
+      change.proof?.notes?.trim() || null
+    ]);
+
+    await client.query(`
+      INSERT INTO shipment_events (shipment_id, status, description, location, source, occurred_at, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      shipmentId,
+      change.status,
+      change.description?.trim() || null,
+      change.location?.trim() || null,
+      source,
+      change.occurred_at,
+      userId || null
+    ]);
+  }
+
+  private static async notify(shipment: Shipment): Promise<void> {
+    if (!NOTIFY_STATUSES.includes(shipment.status) || !shipment.contact_number) {
+      return;
+    }
+    try {
+      const estimate = shipment.estimated_delivery_at
+        ? new Date(shipment.estimated_delivery_at).toLocaleString('en-PH', { timeZone: 'Asia/Manila', dateStyle: 'medium', timeStyle: 'short' })
+        : shipment.status === ShipmentStatus.OUT_FOR_DELIVERY ? 'Today' : undefined;
+      await EnhancedSMSService.sendDeliveryReadyNotification(
+        shipment.customer_id,
+        shipment.contact_number,
+        shipment.customer_name,
+        shipment.or_number,
+        estimate
+      );
+    } catch (error) {
+      console.error(`Failed to send delivery SMS for shipment ${shipment.id}:`, error);
+      // Don't fail the status change if the SMS fails
+    }
+  }
+
+  private static formatShipment(row: any): Shipment {
+    return {
+      ...row,
+      fee: parseFloat(row.fee) || 0
+    };
+  }
+}
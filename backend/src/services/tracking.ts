@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import { pool } from '../config/database';
+import { config } from '../config/config';
+import { QueueStatus, QueueTrackingStatus } from '../types';
+import { QueueService } from './queue';
+import { QueuePauseService } from './queuePause';
+
+// Queue events for changes the customer makes from their link are recorded under this actor
+const TRACKING_LINK_ACTOR = 'tracking_link';
+
+export interface TrackingLink {
+  customerId: number;
+  expiresAt: Date;
+}
+
+/**
+ * Public queue tracking links.
+ *
+ * A link carries the customer id and an expiry, signed with TRACKING_LINK_SECRET, so it can be
+ * checked without a database lookup and can't be altered to point at another customer. The
+ * token is kept short (id.expiry.signature in base36/base64url) because it goes out by SMS.
+ */
+export class TrackingService {
+  /**
+   * Signed token for a customer's tracking link
+   */
+  static createToken(customerId: number, now: Date = new Date()): string {
+    // The id is encoded in base36; anything but a positive integer would point at another customer
+    if (!Number.isInteger(customerId) || customerId <= 0) {
+      throw new Error(`Invalid customer ID for tracking link: ${customerId}`);
+    }
+    const expiresAt = Math.floor(now.getTime() / 1000) + config.TRACKING_LINK_TTL_HOURS * 3600;
+    const payload = `${customerId.toString(36)}.${expiresAt.toString(36)}`;
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * The customer a token belongs to, or null if it is malformed, tampered with or expired
+   */
+  static verifyToken(token: string, now: Date = new Date()): TrackingLink | null {
+    const parts = typeof token === 'string' ? token.split('.') : [];
+    if (parts.length !== 3) return null;
+
+    const [idPart, expiresPart, signature] = parts;
+    const expected = Buffer.from(this.sign(`${idPart}.${expiresPart}`));
+    const given = Buffer.from(signature);
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      return null;
+    }
+
+    const customerId = parseInt(idPart, 36);
+    const expiresAt = new Date(parseInt(expiresPart, 36) * 1000);
+    if (!customerId || isNaN(expiresAt.getTime()) || expiresAt <= now) {
+      return null;
+    }
+
+    return { customerId, expiresAt };
+  }
+
+  /**
+   * Link to the customer's tracking page, used as [TrackingUrl] in SMS templates
+   */
+  static getTrackingUrl(customerId: number): string {
+    return `${config.FRONTEND_URL}/track/${this.createToken(customerId)}`;
+  }
+
+  /**
+   * Current queue status for the customer behind a verified link
+   * @throws Error('Customer not found')
+   */
+  static async getStatus(link: TrackingLink): Promise<QueueTrackingStatus> {
+    const result = await pool.query(`
+      SELECT c.token_number, c.token_code, c.service_type, c.queue_status, c.hold_expires_at,
+             co.name as counter_name
+      FROM customers c
+      LEFT JOIN counters co ON co.current_customer_id = c.id
+      WHERE c.id = $1
+    `, [link.customerId]);
+
+    const customer = result.rows[0];
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const waiting = customer.queue_status === QueueStatus.WAITING;
+    const [position, estimatedWait, pause] = await Promise.all([
+      waiting ? QueueService.getPosition(link.customerId) : null,
+      waiting ? QueueService.getEstimatedWaitTime(link.customerId) : null,
+      QueuePauseService.getActivePause()
+    ]);
+
+    return {
+      token_number: customer.token_number,
+      token_code: customer.token_code || null,
+      service_type: customer.service_type,
+      queue_status: customer.queue_status,
+      position,
+      estimated_wait: estimatedWait,
+      counter_name: customer.queue_status === QueueStatus.SERVING ? customer.counter_name || null : null,
+      hold_expires_at: customer.queue_status === QueueStatus.ON_HOLD ? customer.hold_expires_at : null,
+      queue_paused: pause ? { reason: pause.reason, expected_resume_at: pause.expected_resume_at } : null,
+      link_expires_at: link.expiresAt,
+      updated_at: new Date()
+    };
+  }
+
+  /**
+   * The customer is back: return them from hold to their place in line
+   * @throws Error('Customer not found')
+   * @throws Error('Customer is not on hold')
+   * @throws Error('Hold has expired') from QueueService.changeStatus
+   */
+  static async reactivate(link: TrackingLink): Promise<QueueTrackingStatus> {
+    const result = await pool.query('SELECT queue_status FROM customers WHERE id = $1', [link.customerId]);
+    if (result.rows.length === 0) {
+      throw new Error('Customer not found');
+    }
+    if (result.rows[0].queue_status !== QueueStatus.ON_HOLD) {
+      throw new Error('Customer is not on hold');
+    }
+
+    await QueueService.changeStatus(link.customerId, QueueStatus.WAITING, undefined, undefined, TRACKING_LINK_ACTOR);
+    return this.getStatus(link);
+  }
+
+  private static sign(payload: string): string {
+    return crypto
+      .createHmac('sha256', config.TRACKING_LINK_SECRET)
+      .update(payload)
+      .digest('base64url')
+      .slice(0, 22); // 132 bits
+  }
+}
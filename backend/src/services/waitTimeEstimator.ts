@@ -0,0 +1,201 @@
+import { pool } from '../config/database';
+import { config } from '../config/config';
+import { QueueAnalyticsService, ServiceTimeSample } from './QueueAnalyticsService';
+import { QueueItem, ServiceType, WaitTimeEstimate } from '../types';
+
+/**
+ * Minimal shape of a waiting customer the estimator needs
+ */
+export interface EstimatableCustomer {
+  id: number;
+  service_type?: string | null;
+}
+
+export interface ActiveCounter {
+  id: number;
+  serviceTypes: string[];
+  currentServiceType: string | null; // stage of the customer being served, null when idle
+}
+
+export interface ServiceTimeProfile {
+  samples: ServiceTimeSample[];
+  summaryMinutes: number | null; // from daily_queue_summary, used when events are too sparse
+}
+
+interface ServiceDuration {
+  avg: number;
+  low: number;
+  high: number;
+}
+
+const LOOKBACK_DAYS = 28;
+const MIN_SAMPLES = 5;
+const PROFILE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Predicts how long each waiting customer will wait.
+ *
+ * The line is simulated in call order over the active counters: every customer goes to the
+ * eligible counter that frees up first and occupies it for the typical service time of their
+ * stage at that hour of day. Busy counters are assumed to be halfway through their current
+ * customer. Running the simulation with the 25th and 75th percentile durations gives the range.
+ * Service times come from the last few weeks of queue events, falling back to the daily
+ * summaries and finally to AVERAGE_SERVICE_TIME.
+ */
+export class WaitTimeEstimator {
+  private static cachedProfile: { profile: ServiceTimeProfile; loadedAt: number } | null = null;
+
+  static async getProfile(): Promise<ServiceTimeProfile> {
+    if (this.cachedProfile && Date.now() - this.cachedProfile.loadedAt < PROFILE_TTL_MS) {
+      return this.cachedProfile.profile;
+    }
+
+    let profile: ServiceTimeProfile;
+    try {
+      const [samples, summaryMinutes] = await Promise.all([
+        QueueAnalyticsService.getServiceTimeSamples(LOOKBACK_DAYS),
+        QueueAnalyticsService.getSummaryServiceTime(LOOKBACK_DAYS)
+      ]);
+      profile = { samples, summaryMinutes };
+    } catch (error) {
+      // Estimates must keep working even if history can't be read; don't cache the failure
+      console.error('Failed to load service time history, using defaults:', error);
+      return { samples: [], summaryMinutes: null };
+    }
+
+    this.cachedProfile = { profile, loadedAt: Date.now() };
+    return profile;
+  }
+
+  static clearCache(): void {
+    this.cachedProfile = null;
+  }
+
+  static async getActiveCounters(): Promise<ActiveCounter[]> {
+    try {
+      const result = await pool.query(`
+        SELECT ct.id, ct.service_types, cu.service_type as current_service_type
+        FROM counters ct
+        LEFT JOIN customers cu ON cu.id = ct.current_customer_id AND cu.queue_status = 'serving'
+        WHERE ct.is_active = true
+      `);
+
+      return result.rows.map((row: any) => ({
+        id: row.id,
+        serviceTypes: Array.isArray(row.service_types) ? row.service_types : [],
+        currentServiceType: row.current_service_type || null
+      }));
+    } catch (error) {
+      console.error('Failed to load active counters for wait estimates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Typical service duration for a stage at an hour of day. Uses the most specific bucket
+   * with enough samples; without history the range is widened since it is only a guess.
+   */
+  static getServiceDuration(profile: ServiceTimeProfile, stage: string, hour: number): ServiceDuration {
+    const candidates = [
+      profile.samples.find((sample) => sample.stage === stage && sample.hour === hour),
+      profile.samples.find((sample) => sample.stage === stage && sample.hour === null),
+      profile.samples.find((sample) => sample.stage === null && sample.hour === null)
+    ];
+    const sample = candidates.find((candidate) => candidate && candidate.samples >= MIN_SAMPLES);
+
+    if (sample) {
+      return {
+        avg: sample.avgMinutes,
+        low: sample.p25Minutes || sample.avgMinutes,
+        high: sample.p75Minutes || sample.avgMinutes
+      };
+    }
+
+    const fallback = profile.summaryMinutes || config.AVERAGE_SERVICE_TIME || 15;
+    return { avg: fallback, low: fallback * 0.75, high: fallback * 1.5 };
+  }
+
+  /**
+   * Estimate the wait of every waiting customer, given in call order
+   */
+  static estimate(
+    waiting: EstimatableCustomer[],
+    counters: ActiveCounter[],
+    profile: ServiceTimeProfile,
+    now: Date = new Date()
+  ): Map<number, WaitTimeEstimate> {
+    const durationAt = (stage: string, offsetMinutes: number): ServiceDuration =>
+      this.getServiceDuration(profile, stage, new Date(now.getTime() + offsetMinutes * 60000).getHours());
+
+    const simulate = (pick: (duration: ServiceDuration) => number): Map<number, number> => {
+      // Minutes from now until each counter can take its next customer
+      const freeAt = new Map<number, number>(counters.map((counter) => [
+        counter.id,
+        counter.currentServiceType ? pick(durationAt(counter.currentServiceType, 0)) / 2 : 0
+      ]));
+      // Stages no active counter handles are served one at a time once someone opens
+      const unstaffedFreeAt = new Map<string, number>();
+      const waits = new Map<number, number>();
+
+      for (const customer of waiting) {
+        const stage = customer.service_type || ServiceType.CASHIER;
+        const eligible = counters.filter((counter) => counter.serviceTypes.includes(stage));
+
+        if (eligible.length === 0) {
+          const wait = unstaffedFreeAt.get(stage) || 0;
+          unstaffedFreeAt.set(stage, wait + pick(durationAt(stage, wait)));
+          waits.set(customer.id, wait);
+          continue;
+        }
+
+        const next = eligible.reduce((best, counter) => freeAt.get(counter.id)! < freeAt.get(best.id)! ? counter : best);
+        const wait = freeAt.get(next.id)!;
+        freeAt.set(next.id, wait + pick(durationAt(stage, wait)));
+        waits.set(customer.id, wait);
+      }
+
+      return waits;
+    };
+
+    const expected = simulate((duration) => duration.avg);
+    const optimistic = simulate((duration) => duration.low);
+    const pessimistic = simulate((duration) => duration.high);
+
+    const estimates = new Map<number, WaitTimeEstimate>();
+    waiting.forEach((customer) => {
+      const minutes = Math.round(expected.get(customer.id) || 0);
+      estimates.set(customer.id, {
+        minutes,
+        low: Math.min(minutes, Math.round(optimistic.get(customer.id) || 0)),
+        high: Math.max(minutes, Math.round(pessimistic.get(customer.id) || 0))
+      });
+    });
+
+    return estimates;
+  }
+
+  /**
+   * Load history and counters, then estimate waits for customers given in call order
+   */
+  static async estimateWaits(waiting: EstimatableCustomer[]): Promise<Map<number, WaitTimeEstimate>> {
+    if (waiting.length === 0) {
+      return new Map();
+    }
+
+    const [profile, counters] = await Promise.all([this.getProfile(), this.getActiveCounters()]);
+    return this.estimate(waiting, counters, profile);
+  }
+
+  /**
+   * Queue item fields for an estimate; customers not waiting in line get no wait
+   */
+  static toQueueItemFields(estimate?: WaitTimeEstimate | null): Pick<QueueItem, 'estimated_wait_time' | 'estimated_wait_range'> {
+    if (!estimate) {
+      return { estimated_wait_time: 0 };
+    }
+    return {
+      estimated_wait_time: estimate.minutes,
+      estimated_wait_range: { low: estimate.low, high: estimate.high }
+    };
+  }
+}
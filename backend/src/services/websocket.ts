@@ -1,18 +1,51 @@
-import { Server, Socket } from 'socket.io';
+import { Server, Socket, Namespace } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/config';
 import { UserService } from './user';
-import { User, PriorityFlags } from '../types';
+import { DisplayDeviceService } from './displayDevice';
+import { EventStreamService, ResumeRequest } from './eventStream';
+import { DisplayEventsService } from './displayEvents';
+import {
+  User,
+  PriorityFlags,
+  QueueTrackingStatus,
+  DisplayDevice,
+  DisplayCommandMessage,
+  DisplayHealth,
+  DisplayLayout,
+  ConnectedDisplay
+} from '../types';
 
 interface AuthenticatedSocket extends Socket {
   user?: User;
+  display?: DisplayDevice; // set for paired displays, which connect with their device token
+  displayHandlers?: boolean; // display:ack and display:health are listened to
 }
 
+// Coalesce bursts of queue changes into one refresh of open tracking pages
+const TRACKING_REFRESH_DELAY_MS = 1000;
+
+// Every display connection joins this room
+const DISPLAY_ROOM = 'displays';
+
 export const setupWebSocketHandlers = (io: Server): void => {
   // Authentication middleware for socket.io
   io.use(async (socket: AuthenticatedSocket, next) => {
     try {
       const token = socket.handshake.auth.token;
+      const displayToken = socket.handshake.auth.displayToken;
+
+      // Paired displays have no user session
+      if (!token && displayToken) {
+        const device = await DisplayDeviceService.authenticate(displayToken);
+        if (!device) {
+          WebSocketService.emitAuthError(socket, 'DISPLAY_TOKEN_INVALID', 'Invalid or revoked display token');
+          return next(new Error('Invalid or revoked display token'));
+        }
+
+        socket.display = device;
+        return next();
+      }
       
       if (!token) {
         // Emit auth error
@@ -69,6 +102,12 @@ export const setupWebSocketHandlers = (io: Server): void => {
   });
 
   io.on('connection', (socket: AuthenticatedSocket) => {
+    if (socket.display) {
+      console.log(`Display ${socket.display.name} connected via WebSocket`);
+      registerDisplay(socket, socket.display);
+      return;
+    }
+
     console.log(`User ${socket.user?.full_name} connected via WebSocket`);
 
     // Join role-specific rooms
@@ -83,6 +122,16 @@ export const setupWebSocketHandlers = (io: Server): void => {
       console.log(`User ${socket.user?.full_name} subscribed to queue updates`);
     });
 
+    // Catch up after a reconnect: replay the missed events in this socket's rooms, or tell
+    // the client to fetch everything again. Sent after the client re-subscribed.
+    socket.on('events:resume', (request: ResumeRequest = {}, ack?: (response: object) => void) => {
+      const result = EventStreamService.resume(request || {}, socket.rooms);
+      result.events.forEach((entry) => socket.emit(entry.event, entry.payload));
+      if (typeof ack === 'function') {
+        ack({ status: result.status, epoch: result.epoch, last_seq: result.last_seq, replayed: result.events.length });
+      }
+    });
+
     // Handle transaction updates subscription
     socket.on('subscribe:transactions', () => {
       if (socket.user?.role === 'cashier' || socket.user?.role === 'admin') {
@@ -208,6 +257,22 @@ export const setupWebSocketHandlers = (io: Server): void => {
       }
     });
 
+    // A display monitor opened in a staff session; it sends the device token if the browser is paired
+    socket.on('display:register', async (data: { deviceToken?: string } = {}) => {
+      try {
+        const device = data.deviceToken ? await DisplayDeviceService.authenticate(data.deviceToken) : null;
+        registerDisplay(socket, device);
+      } catch (error) {
+        console.error('Error registering display:', error);
+      }
+    });
+
+    // The staff session left the display monitor page
+    socket.on('display:unregister', () => {
+      socket.leave(DISPLAY_ROOM);
+      WebSocketService.removeDisplay(socket.id);
+    });
+
     // Handle disconnection
     socket.on('disconnect', () => {
       console.log(`User ${socket.user?.full_name} disconnected from WebSocket`);
@@ -220,15 +285,209 @@ export const setupWebSocketHandlers = (io: Server): void => {
       timestamp: new Date()
     });
   });
+
+  setupTrackingHandlers(io);
+};
+
+/**
+ * Put a display connection in the display room and listen for its acknowledgements and
+ * health reports. Commands are sent through WebSocketService.emitDisplayCommand.
+ */
+const registerDisplay = (socket: AuthenticatedSocket, device: DisplayDevice | null): void => {
+  socket.join(DISPLAY_ROOM);
+  WebSocketService.addDisplay(socket.id, device, device ? device.name : `${socket.user?.full_name || 'Staff'}'s display`);
+
+  if (socket.displayHandlers) return;
+  socket.displayHandlers = true;
+
+  socket.on('display:ack', (ack: { command_id?: string; ok?: boolean; error?: string } = {}) => {
+    WebSocketService.recordDisplayAck(socket.id, ack);
+  });
+
+  socket.on('display:health', (health: Partial<DisplayHealth> = {}) => {
+    WebSocketService.recordDisplayHealth(socket.id, health);
+  });
+
+  socket.on('disconnect', () => {
+    WebSocketService.removeDisplay(socket.id);
+  });
+};
+
+/**
+ * Customer tracking pages connect to their own namespace with the signed token from their
+ * link instead of a user JWT. Broadcasts on the main namespace never reach them; each socket
+ * only ever receives its own customer's status.
+ */
+const setupTrackingHandlers = (io: Server): void => {
+  const tracking = io.of('/tracking');
+
+  tracking.use(async (socket, next) => {
+    // Import here to avoid circular dependency (tracking -> queue -> websocket)
+    const { TrackingService } = await import('./tracking');
+    const link = TrackingService.verifyToken(socket.handshake.auth.token);
+
+    if (!link) {
+      return next(new Error('Invalid or expired tracking link'));
+    }
+
+    socket.data.link = link;
+    next();
+  });
+
+  tracking.on('connection', (socket) => {
+    socket.join(`customer:${socket.data.link.customerId}`);
+  });
+
+  WebSocketService.setTrackingNamespace(tracking);
 };
 
 export class WebSocketService {
   private static io: Server;
+  private static trackingNamespace: Namespace | null = null;
+  private static trackingRefreshTimer: NodeJS.Timeout | null = null;
+  // Connected displays by socket id; kept in memory, displays re-register when they reconnect
+  private static displays = new Map<string, ConnectedDisplay>();
 
   static setIO(io: Server): void {
     this.io = io;
   }
 
+  static getConnectedDisplays(): ConnectedDisplay[] {
+    return Array.from(this.displays.values());
+  }
+
+  static addDisplay(connectionId: string, device: DisplayDevice | null, name: string): void {
+    const existing = this.displays.get(connectionId);
+    this.displays.set(connectionId, {
+      connection_id: connectionId,
+      device_id: device ? device.id : null,
+      name,
+      connected_at: existing ? existing.connected_at : new Date(),
+      health: existing ? existing.health : null,
+      last_command: existing ? existing.last_command : null
+    });
+    this.emitDisplayStatus();
+  }
+
+  static removeDisplay(connectionId: string): void {
+    if (this.displays.delete(connectionId)) {
+      this.emitDisplayStatus();
+    }
+  }
+
+  static recordDisplayHealth(connectionId: string, health: Partial<DisplayHealth>): void {
+    const display = this.displays.get(connectionId);
+    if (!display) return;
+
+    // Reported by the client, so only take the fields we know, with the types we expect
+    const layouts: DisplayLayout[] = ['full', 'counters_only', 'queue_only', 'single_counter'];
+    const lastDataAt = health.last_data_at ? new Date(health.last_data_at) : null;
+    display.health = {
+      version: typeof health.version === 'string' ? health.version.slice(0, 50) : 'unknown',
+      uptime_seconds: Number.isFinite(health.uptime_seconds) ? Math.max(0, Math.floor(health.uptime_seconds!)) : 0,
+      last_data_at: lastDataAt && !isNaN(lastDataAt.getTime()) ? lastDataAt : null,
+      layout: layouts.includes(health.layout as DisplayLayout) ? health.layout! : 'full',
+      volume: Number.isFinite(health.volume) ? health.volume! : 100,
+      counter_ids: Array.isArray(health.counter_ids) ? health.counter_ids.filter(Number.isInteger) : null,
+      reported_at: new Date()
+    };
+    this.emitDisplayStatus();
+  }
+
+  static recordDisplayAck(connectionId: string, ack: { command_id?: string; ok?: boolean; error?: string }): void {
+    const command = this.displays.get(connectionId)?.last_command;
+    if (!command || command.id !== ack.command_id) return;
+
+    command.acknowledged_at = new Date();
+    command.ok = ack.ok !== false;
+    command.error = typeof ack.error === 'string' ? ack.error.slice(0, 200) : null;
+    this.emitDisplayStatus();
+  }
+
+  /**
+   * Send a command to the given display connections, or to the whole display room when it
+   * goes to all of them. `connectionIds` must all be registered displays.
+   */
+  static emitDisplayCommand(connectionIds: string[], message: DisplayCommandMessage, toAll: boolean = false): void {
+    const sentAt = new Date();
+    connectionIds.forEach(connectionId => {
+      const display = this.displays.get(connectionId);
+      if (display) {
+        display.last_command = { id: message.id, type: message.type, sent_at: sentAt, acknowledged_at: null, ok: null, error: null };
+      }
+    });
+
+    if (this.io) {
+      this.io.to(toAll ? DISPLAY_ROOM : connectionIds).emit('display:command', message);
+    }
+    this.emitDisplayStatus();
+  }
+
+  // Displays refetch their content playlist on this
+  static emitDisplayContentChanged(): void {
+    if (this.io) {
+      this.io.to(DISPLAY_ROOM).emit('display:content', { timestamp: new Date() });
+    }
+    DisplayEventsService.publish('display:content');
+  }
+
+  // Admin panels refetch the display list on this
+  private static emitDisplayStatus(): void {
+    if (this.io) {
+      this.io.to('role:admin').emit('display:status', { displays: this.displays.size, timestamp: new Date() });
+    }
+  }
+
+  static setTrackingNamespace(namespace: Namespace): void {
+    this.trackingNamespace = namespace;
+  }
+
+  /**
+   * Push a fresh status to every open tracking page. Any queue change can move everyone's
+   * position, so all of them are refreshed, at most once per TRACKING_REFRESH_DELAY_MS.
+   */
+  static scheduleTrackingRefresh(): void {
+    if (!this.trackingNamespace || this.trackingRefreshTimer) return;
+
+    this.trackingRefreshTimer = setTimeout(() => {
+      this.trackingRefreshTimer = null;
+      this.emitTrackingUpdates().catch(error => {
+        console.error('Error refreshing tracking pages:', error);
+      });
+    }, TRACKING_REFRESH_DELAY_MS);
+    this.trackingRefreshTimer.unref();
+  }
+
+  private static async emitTrackingUpdates(): Promise<void> {
+    if (!this.trackingNamespace) return;
+
+    const { TrackingService } = await import('./tracking');
+    const sockets = await this.trackingNamespace.fetchSockets();
+    const now = new Date();
+    // Several pages may track the same customer
+    const statuses = new Map<number, Promise<QueueTrackingStatus>>();
+
+    for (const socket of sockets) {
+      const link = socket.data.link;
+      if (link.expiresAt <= now) {
+        socket.emit('tracking:expired');
+        socket.disconnect(true);
+        continue;
+      }
+
+      if (!statuses.has(link.customerId)) {
+        statuses.set(link.customerId, TrackingService.getStatus(link));
+      }
+
+      try {
+        const status = await statuses.get(link.customerId);
+        socket.emit('tracking:update', { ...status, link_expires_at: link.expiresAt });
+      } catch (error) {
+        console.error(`Error refreshing tracking status for customer ${link.customerId}:`, error);
+      }
+    }
+  }
+
   // Emit authentication error
   static emitAuthError(socket: AuthenticatedSocket, code: string, message: string): void {
     socket.emit('auth:error', { code, message });
@@ -262,8 +521,11 @@ export class WebSocketService {
         enhancedData.suppressSound = true;
       }
       
-      this.io.to('queue:updates').emit('queue:update', enhancedData);
+      const stamped = EventStreamService.record('queue:updates', 'queue:update', enhancedData);
+      this.io.to('queue:updates').emit('queue:update', stamped);
+      DisplayEventsService.publish('queue:update', stamped);
     }
+    this.scheduleTrackingRefresh();
   }
 
   // New event for specific status changes
@@ -278,7 +540,9 @@ export class WebSocketService {
         ...additionalData
       };
       
-      this.io.to('queue:updates').emit('queue:status_changed', payload);
+      const stamped = EventStreamService.record('queue:updates', 'queue:status_changed', payload);
+      this.io.to('queue:updates').emit('queue:status_changed', stamped);
+      DisplayEventsService.publish('queue:status_changed', stamped);
       console.log(`[WEBSOCKET] Emitted queue:status_changed for customer ${id} -> ${newStatus}${newStatus === 'processing' ? ' (sound suppressed)' : ''}`);
     }
   }
@@ -290,7 +554,7 @@ static emitTransactionUpdate(data: any, traceId?: string): void {
     console.log(`[WEBSOCKET_TRACE] ${logId}: Transaction update data:`, JSON.stringify({ type: data.type, transactionId: data.transaction?.id || data.transactionId, timestamp: data.timestamp }));
     
     if (this.io) {
-      this.io.to('transactions:updates').emit('transactionUpdated', data);
+      this.io.to('transactions:updates').emit('transactionUpdated', EventStreamService.record('transactions:updates', 'transactionUpdated', data));
       console.log(`[WEBSOCKET_TRACE] ${logId}: Transaction update emitted successfully`);
     } else {
       console.log(`[WEBSOCKET_TRACE] ${logId}: WebSocket IO not available, emission skipped`);
@@ -364,7 +628,7 @@ static emitTransactionUpdate(data: any, traceId?: string): void {
 
   static emitCustomerCreated(data: {
     customer: any;
-    created_by: number;
+    created_by: number | null;
     has_initial_transaction: boolean;
     timestamp: Date;
   }): void {
@@ -390,6 +654,13 @@ static emitTransactionUpdate(data: any, traceId?: string): void {
         notification_type: 'new_customer_registration'
       });
     }
+    // The new token shows up on the displays, and a priority customer can move ahead of
+    // people already waiting (tracking links are refreshed by the queue update)
+    this.emitQueueUpdate({
+      type: 'customer_created',
+      customer: data.customer,
+      timestamp: data.timestamp
+    }).catch((error) => console.error('Failed to emit queue update for new customer:', error));
   }
 
   // Enhanced method for cashier-specific notifications
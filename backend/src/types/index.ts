@@ -26,6 +26,14 @@ export interface AuthRequest extends Request {
   user?: User;
 }
 
+export interface KioskRequest extends Request {
+  kiosk?: KioskDevice;
+}
+
+export interface DisplayRequest extends Request {
+  display?: DisplayDevice; // unset when the display was let in without pairing
+}
+
 export interface EstimatedTime {
   days: number;
   hours: number;
@@ -53,10 +61,32 @@ export interface Customer {
   payment_info: PaymentInfo;
   remarks?: string;
   priority_flags: PriorityFlags;
+  service_type: ServiceType;
   queue_status: QueueStatus;
   token_number: number;
+  token_code?: string | null;
+  missed_call_count?: number;
+  held_at?: Date | null;
+  hold_expires_at?: Date | null;
+  stage_entered_at?: Date | null;
+  appointment_at?: Date | null; // slot time when the customer checked in for an appointment
+  registration_source?: RegistrationSource;
+  kiosk_device_id?: number | null;
+  details_pending?: boolean; // registered at a kiosk; prescription and payment still to be filled in
+  patient_id?: number | null; // the patient profile this visit belongs to
+  released_at?: Date | null; // when the order was picked up, from its release record
+  released_to?: string | null;
   created_at: Date;
   updated_at: Date;
+  registration_warning?: string | null; // set on create when registered past the cutoff or capacity
+}
+
+// Stations a customer can queue for; counters declare which of these they handle
+export enum ServiceType {
+  EYE_EXAM = 'eye_exam',
+  FRAME_FITTING = 'frame_fitting',
+  CASHIER = 'cashier',
+  RELEASING = 'releasing'
 }
 
 export enum DistributionType {
@@ -65,12 +95,27 @@ export enum DistributionType {
   PICKUP = 'pickup'
 }
 
+export type PrismBase = 'BU' | 'BD' | 'BI' | 'BO'; // base up, down, in, out
+
+/**
+ * One eye of a prescription. Sphere, cylinder, add and prism are in diopters, axis in
+ * degrees and the monocular PD in millimetres.
+ */
+export interface EyePrescription {
+  sphere?: number | null;
+  cylinder?: number | null;
+  axis?: number | null;
+  add?: number | null;
+  prism?: number | null;
+  base?: PrismBase | null;
+  pd?: number | null;
+}
+
 export interface Prescription {
-  od?: string;
-  os?: string;
-  ou?: string;
-  pd?: string;
-  add?: string;
+  od?: EyePrescription; // right eye
+  os?: EyePrescription; // left eye
+  pd?: number | null; // binocular PD, when monocular PDs were not measured
+  notes?: string | null; // free text, including older prescriptions that could not be parsed
 }
 
 export interface PaymentInfo {
@@ -103,7 +148,8 @@ export enum QueueStatus {
   SERVING = 'serving',
   PROCESSING = 'processing',
   COMPLETED = 'completed',
-  CANCELLED = 'cancelled'
+  CANCELLED = 'cancelled',
+  ON_HOLD = 'on_hold'
 }
 
 // Utility type for queue status with fallback information
@@ -114,23 +160,440 @@ export interface QueueStatusWithFallback {
   warningMessage?: string;
 }
 
+// Outcome of a recall or skip; 'cancelled' means the missed call limit was reached
+export interface NoShowResult {
+  action: 'recalled' | 'skipped' | 'cancelled';
+  customer: Customer;
+  missedCalls: number;
+}
+
+export interface TransferOptions {
+  toCounterId?: number; // move straight to another counter, still serving
+  serviceType?: ServiceType; // stage to continue in; without a counter the customer re-joins that line
+  frontOfLine?: boolean; // only when re-joining the line
+  reason?: string;
+}
+
+export interface TransferResult {
+  action: 'moved' | 'requeued';
+  customer: Customer;
+  fromCounterId: number;
+  toCounterId: number | null;
+}
+
+export enum AppointmentStatus {
+  BOOKED = 'booked',
+  CHECKED_IN = 'checked_in',
+  CANCELLED = 'cancelled',
+  NO_SHOW = 'no_show'
+}
+
+export interface Appointment {
+  id: number;
+  customer_name: string;
+  contact_number?: string | null;
+  email?: string | null;
+  service_type: ServiceType;
+  doctor_name?: string | null;
+  slot_start: Date;
+  slot_end: Date;
+  status: AppointmentStatus;
+  notes?: string | null;
+  customer_id?: number | null; // set on check-in
+  booked_by?: number | null;
+  booked_by_name?: string | null;
+  checked_in_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AppointmentSlot {
+  start: Date;
+  end: Date;
+  capacity: number; // appointments the active counters can take in this slot
+  booked: number;
+  available: boolean;
+}
+
+export type RegistrationSource = 'staff' | 'kiosk';
+
+// A returning patient's profile; each visit is still its own customer record
+export interface Patient {
+  id: number;
+  name: string;
+  contact_number: string | null;
+  email: string | null;
+  birth_date: string | null; // YYYY-MM-DD
+  address: string | null;
+  occupation: string | null;
+  visit_count?: number;
+  last_visit_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type PatientMatchField = 'contact_number' | 'name' | 'birth_date';
+
+// A profile that may be the same person; staff confirm before a visit is linked to it
+export interface PatientMatch {
+  patient: Patient;
+  matched_on: PatientMatchField[];
+}
+
+export interface PatientVisit {
+  customer_id: number;
+  or_number: string;
+  created_at: Date;
+  service_type: ServiceType;
+  queue_status: QueueStatus;
+  doctor_assigned: string | null;
+  prescription: Prescription;
+  grade_type: string;
+  lens_type: string;
+  frame_code: string | null;
+  amount: number; // totals of the visit's transactions
+  paid_amount: number;
+  balance_amount: number;
+  released_at: Date | null;
+  released_to: string | null;
+}
+
+export interface PatientTimeline {
+  patient: Patient;
+  visits: PatientVisit[]; // newest first
+  total_balance: number;
+}
+
+// Registration fields filled in from a profile and its latest visit
+export interface PatientPrefill {
+  patient_id: number;
+  name: string;
+  contact_number: string;
+  email: string;
+  address: string;
+  occupation: string;
+  birth_date: string | null;
+  age: number | null;
+  doctor_assigned: string;
+  prescription: Prescription;
+}
+
+export interface JobOrderEvent {
+  id: number;
+  job_order_id: number;
+  stage: string;
+  expected_ready_at: Date | null;
+  note: string | null;
+  changed_by: number | null;
+  changed_by_name?: string | null;
+  created_at: Date;
+}
+
+// Eyewear being made for a visit; the stage is a key from the job order stage settings
+export interface JobOrder {
+  id: number;
+  customer_id: number;
+  customer_name: string;
+  contact_number: string;
+  or_number: string;
+  transaction_id: number | null;
+  stage: string;
+  stage_changed_at: Date;
+  expected_ready_at: Date | null;
+  lab_name: string | null;
+  notes: string | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: Date;
+  updated_at: Date;
+  events?: JobOrderEvent[]; // oldest first
+}
+
+export type Courier = DistributionType.LALAMOVE | DistributionType.LBC;
+
+export enum ShipmentStatus {
+  PENDING = 'pending', // booked, not yet with the courier
+  PICKED_UP = 'picked_up',
+  IN_TRANSIT = 'in_transit',
+  OUT_FOR_DELIVERY = 'out_for_delivery',
+  DELIVERED = 'delivered',
+  FAILED = 'failed', // delivery attempt failed; the courier retries
+  RETURNED = 'returned',
+  CANCELLED = 'cancelled'
+}
+
+export type ShipmentEventSource = 'staff' | 'courier';
+
+export interface ProofOfDelivery {
+  received_by?: string | null;
+  photo_url?: string | null;
+  notes?: string | null;
+}
+
+export interface ShipmentEvent {
+  id: number;
+  shipment_id: number;
+  status: ShipmentStatus;
+  description: string | null;
+  location: string | null;
+  source: ShipmentEventSource;
+  occurred_at: Date;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: Date;
+}
+
+// An order delivered by Lalamove or LBC
+export interface Shipment {
+  id: number;
+  customer_id: number;
+  customer_name: string;
+  contact_number: string;
+  or_number: string;
+  courier: Courier;
+  reference: string | null; // LBC waybill or Lalamove booking reference
+  fee: number;
+  status: ShipmentStatus;
+  status_updated_at: Date;
+  recipient_name: string | null;
+  delivery_address: string | null;
+  estimated_delivery_at: Date | null;
+  delivered_at: Date | null;
+  pod_received_by: string | null;
+  pod_photo_url: string | null;
+  pod_notes: string | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: Date;
+  updated_at: Date;
+  events?: ShipmentEvent[]; // oldest first
+}
+
+// How the person picking up an order was verified
+export type ReleaseVerification = 'sms_code' | 'representative';
+
+// Eyewear handed over at the counter
+export interface OrderRelease {
+  id: number;
+  customer_id: number;
+  transaction_id: number | null;
+  verification: ReleaseVerification;
+  received_by: string; // the customer, or the authorized representative
+  signature: string; // PNG data URL
+  balance_amount: number; // still owed when released
+  balance_override_by: number | null;
+  balance_override_by_name?: string | null;
+  balance_override_reason: string | null;
+  released_by: number | null;
+  released_by_name?: string | null;
+  released_at: Date;
+}
+
+export interface KioskDevice {
+  id: number;
+  name: string;
+  is_active: boolean;
+  last_seen_at: Date | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: Date;
+  revoked_at: Date | null;
+}
+
+export interface DisplayDevice {
+  id: number;
+  name: string;
+  is_active: boolean;
+  is_claimed: boolean; // false until the display has collected its token
+  last_seen_at: Date | null;
+  paired_by: number | null;
+  paired_by_name?: string | null;
+  paired_at: Date;
+  revoked_at: Date | null;
+  group_id: number | null;
+  group_name?: string | null;
+}
+
+export interface DisplayGroup {
+  id: number;
+  name: string;
+  counter_ids: number[]; // empty = every counter
+  service_types: ServiceType[]; // waiting line shown; empty = every service type
+  device_count?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type DisplaySlideType = 'image' | 'text' | 'promo';
+
+export interface DisplaySlide {
+  id: number;
+  playlist_id: number;
+  type: DisplaySlideType;
+  title: string | null;
+  body: string | null;
+  image_url: string | null; // relative to the API base URL
+  display_seconds: number | null; // null = the playlist's slide_seconds
+  starts_at: Date | null; // promo schedule
+  ends_at: Date | null;
+  sort_order: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DisplayPlaylist {
+  id: number;
+  name: string;
+  is_active: boolean;
+  starts_on: string | null; // YYYY-MM-DD, shop local date
+  ends_on: string | null;
+  slide_seconds: number;
+  group_ids: number[]; // empty = every display
+  slides: DisplaySlide[];
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A slide as a display plays it
+export interface DisplayContentSlide {
+  id: number;
+  type: DisplaySlideType;
+  title: string | null;
+  body: string | null;
+  image_url: string | null;
+  seconds: number;
+}
+
+export type DisplayLayout = 'full' | 'counters_only' | 'queue_only' | 'single_counter'; // single_counter: the first shown counter, full screen
+
+// Pushed to displays from the admin panel; every command is acknowledged with display:ack
+export type DisplayCommand =
+  | { type: 'reload' }
+  | { type: 'set_layout'; layout: DisplayLayout }
+  | { type: 'set_counters'; counter_ids: number[] | null } // null = all counters
+  | { type: 'set_volume'; volume: number } // 0-100
+  | { type: 'show_message'; message: string; duration_seconds: number };
+
+export type DisplayCommandMessage = DisplayCommand & { id: string; issued_by: string; issued_at: Date };
+
+// Which connected displays a command goes to
+export interface DisplayCommandTarget {
+  all?: boolean;
+  device_ids?: number[];
+  connection_ids?: string[];
+}
+
+// Reported by the display itself every half minute
+export interface DisplayHealth {
+  version: string;
+  uptime_seconds: number;
+  last_data_at: Date | null; // when it last received queue data
+  layout: DisplayLayout;
+  volume: number;
+  counter_ids: number[] | null;
+  reported_at: Date;
+}
+
+export interface ConnectedDisplay {
+  connection_id: string;
+  device_id: number | null; // null for a display opened in a staff session without pairing
+  name: string;
+  connected_at: Date;
+  health: DisplayHealth | null;
+  last_command: {
+    id: string;
+    type: DisplayCommand['type'];
+    sent_at: Date;
+    acknowledged_at: Date | null;
+    ok: boolean | null;
+    error: string | null;
+  } | null;
+}
+
+// Shown on an unpaired display; the secret stays on the device
+export interface DisplayPairingRequest {
+  request_id: number;
+  code: string;
+  secret: string;
+  expires_at: Date;
+}
+
+// Printed or shown by the kiosk after check-in
+export interface KioskTicket {
+  customer_id: number;
+  first_name: string;
+  token_number: number;
+  token_code: string | null;
+  service_type: ServiceType;
+  queue_status: QueueStatus;
+  position: number | null;
+  estimated_wait_minutes: number | null;
+  already_queued: boolean; // the customer was already in line; this is a reprint
+  issued_at: Date;
+}
+
+// What a customer sees on the public tracking page; nothing identifying beyond their own token
+export interface QueueTrackingStatus {
+  token_number: number;
+  token_code: string | null;
+  service_type: ServiceType;
+  queue_status: QueueStatus;
+  position: number | null;
+  estimated_wait: WaitTimeEstimate | null;
+  counter_name: string | null; // where to go once called
+  hold_expires_at: Date | null;
+  queue_paused: { reason: string; expected_resume_at: Date | null } | null;
+  link_expires_at: Date;
+  updated_at: Date;
+}
+
+export interface QueuePause {
+  id: number;
+  reason: string;
+  expected_resume_at: Date | null;
+  paused_by: number | null;
+  paused_by_name?: string | null;
+  paused_at: Date;
+  resumed_by: number | null;
+  resumed_at: Date | null;
+}
+
 export interface QueueItem {
   customer_id: number;
   customer: Customer;
   position: number;
   priority_score: number;
   estimated_wait_time: number;
+  estimated_wait_range?: WaitTimeRange;
+}
+
+export interface WaitTimeRange {
+  low: number;
+  high: number;
+}
+
+export interface WaitTimeEstimate extends WaitTimeRange {
+  minutes: number;
 }
 
 export interface Counter {
   id: number;
   name: string;
   is_active: boolean;
+  service_types: ServiceType[];
   current_customer_id?: number;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface ServiceTypeQueueStats {
+  waiting: number;
+  serving: number;
+  averageWaitTime: number;
+}
+
 export interface Transaction {
   id: number;
   customer_id: number;
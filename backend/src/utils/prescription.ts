@@ -0,0 +1,206 @@
+import { EyePrescription, Prescription, PrismBase } from '../types';
+
+/**
+ * Structured optical prescription helpers
+ * Prescriptions used to be free-text od/os/ou/pd/add strings; these read either shape and
+ * format the structured one for display and exports.
+ */
+
+export const PRISM_BASES: PrismBase[] = ['BU', 'BD', 'BI', 'BO'];
+
+const EYES: Array<'od' | 'os'> = ['od', 'os'];
+
+// "SPH [CYL x AXIS] [ADD x]", e.g. "-1.25 -0.50 x 180", "+2.00/-1.00X90 ADD +1.50", "PLANO"
+const EYE_PATTERN = new RegExp(
+  '^(PL|PLANO|[+-]?\\d{1,2}(?:\\.\\d{1,2})?)(?: ?(?:DS|SPH|D))?' +
+  '(?: ?/? ?([+-]?\\d{1,2}(?:\\.\\d{1,2})?) ?(?:DC|CYL)? ?[X×@] ?(\\d{1,3}))?' +
+  '(?: ?ADD ?\\+?(\\d(?:\\.\\d{1,2})?))?$'
+);
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(number) ? null : number;
+};
+
+const between = (value: number | null | undefined, min: number, max: number): boolean =>
+  value === null || value === undefined || (value >= min && value <= max);
+
+/**
+ * Parse one eye written in the usual notation
+ * @param text - e.g. "-1.25 -0.50 x 180"
+ * @returns The eye, or null when the text does not parse or a value is out of range
+ */
+export function parseEyePrescription(text: string): EyePrescription | null {
+  const match = text.trim().replace(/\s+/g, ' ').toUpperCase().match(EYE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const sphere = match[1] === 'PL' || match[1] === 'PLANO' ? 0 : parseFloat(match[1]);
+  const cylinder = toNumber(match[2]);
+  const axis = match[3] !== undefined ? parseInt(match[3], 10) || 180 : null; // axis 0 is written 180
+  const add = toNumber(match[4]);
+
+  if (!between(sphere, -30, 30) || !between(cylinder, -10, 10) || !between(axis, 1, 180) || !between(add, 0.25, 4)) {
+    return null;
+  }
+
+  const eye: EyePrescription = { sphere };
+  if (cylinder !== null) {
+    eye.cylinder = cylinder;
+    eye.axis = axis;
+  }
+  if (add !== null) eye.add = add;
+  return eye;
+}
+
+const normalizeEye = (value: any): EyePrescription | undefined => {
+  const eye: EyePrescription = {
+    sphere: toNumber(value.sphere),
+    cylinder: toNumber(value.cylinder),
+    axis: toNumber(value.axis),
+    add: toNumber(value.add),
+    prism: toNumber(value.prism),
+    base: PRISM_BASES.includes(value.base) ? value.base : null,
+    pd: toNumber(value.pd)
+  };
+  return Object.values(eye).some((field) => field !== null) ? eye : undefined;
+};
+
+/**
+ * Read a stored or submitted prescription in either shape. Legacy strings are parsed where
+ * possible; whatever does not parse is kept in notes.
+ * @param value - A prescription object or its JSON text
+ */
+export function normalizePrescription(value: unknown): Prescription {
+  let raw: any = value;
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return {};
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return { notes: raw };
+    }
+  }
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+
+  const prescription: Prescription = {};
+  const notes: string[] = raw.notes ? [String(raw.notes)] : [];
+  const text = (key: string): string => (typeof raw[key] === 'string' ? raw[key].trim() : '');
+
+  EYES.forEach((key) => {
+    if (raw[key] && typeof raw[key] === 'object') {
+      const eye = normalizeEye(raw[key]);
+      if (eye) prescription[key] = eye;
+    } else if (text(key)) {
+      const eye = parseEyePrescription(text(key));
+      if (eye) {
+        prescription[key] = eye;
+      } else {
+        notes.push(`${key.toUpperCase()}: ${text(key)}`);
+      }
+    }
+  });
+
+  // OU applies to both eyes when they were not written separately
+  if (text('ou')) {
+    const eye = parseEyePrescription(text('ou'));
+    if (eye && !text('od') && !text('os') && !prescription.od && !prescription.os) {
+      prescription.od = { ...eye };
+      prescription.os = { ...eye };
+    } else {
+      notes.push(`OU: ${text('ou')}`);
+    }
+  }
+
+  // A single ADD goes on each eye that does not have its own
+  if (text('add')) {
+    const add = /^\+?\d(\.\d{1,2})?$/.test(text('add')) ? parseFloat(text('add')) : null;
+    if (add !== null && between(add, 0.25, 4) && (prescription.od || prescription.os)) {
+      EYES.forEach((key) => {
+        const eye = prescription[key];
+        if (eye && (eye.add === null || eye.add === undefined)) eye.add = add;
+      });
+    } else {
+      notes.push(`ADD: ${text('add')}`);
+    }
+  }
+
+  // PD is either binocular ("62") or monocular right/left ("31/31.5")
+  const pd = raw.pd;
+  if (typeof pd === 'number') {
+    prescription.pd = pd;
+  } else if (text('pd')) {
+    const binocular = text('pd').match(/^(\d{2}(?:\.\d)?) ?(?:mm)?$/i);
+    const monocular = text('pd').match(/^(\d{2}(?:\.\d)?) ?\/ ?(\d{2}(?:\.\d)?)$/);
+    if (binocular && between(parseFloat(binocular[1]), 40, 80)) {
+      prescription.pd = parseFloat(binocular[1]);
+    } else if (monocular && between(parseFloat(monocular[1]), 20, 40) && between(parseFloat(monocular[2]), 20, 40)) {
+      prescription.od = { ...prescription.od, pd: parseFloat(monocular[1]) };
+      prescription.os = { ...prescription.os, pd: parseFloat(monocular[2]) };
+    } else {
+      notes.push(`PD: ${text('pd')}`);
+    }
+  }
+
+  if (notes.length > 0) {
+    prescription.notes = notes.join('; ');
+  }
+  return prescription;
+}
+
+/**
+ * Format a diopter value with its sign and two decimals, e.g. "-1.25", "+2.00"
+ */
+export function formatDiopter(value?: number | null): string {
+  if (value === null || value === undefined) return '';
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+/**
+ * One eye in the usual notation, e.g. "-1.25 / -0.50 x 180, ADD +2.00, 1.00 BI, PD 31"
+ */
+export function formatEyePrescription(eye?: EyePrescription | null): string {
+  if (!eye) return '';
+
+  const parts: string[] = [];
+  if (eye.sphere !== null && eye.sphere !== undefined) {
+    let power = eye.sphere === 0 ? 'Plano' : formatDiopter(eye.sphere);
+    if (eye.cylinder) power += ` / ${formatDiopter(eye.cylinder)} x ${eye.axis ?? '?'}`;
+    parts.push(power);
+  }
+  if (eye.add) parts.push(`ADD ${formatDiopter(eye.add)}`);
+  if (eye.prism) parts.push(`${eye.prism.toFixed(2)} ${eye.base || ''}`.trim());
+  if (eye.pd) parts.push(`PD ${eye.pd}`);
+  return parts.join(', ');
+}
+
+export const PRESCRIPTION_TABLE_HEADERS = ['', 'SPH', 'CYL', 'AXIS', 'ADD', 'PRISM', 'BASE', 'PD'];
+
+/**
+ * The prescription as table rows under PRESCRIPTION_TABLE_HEADERS: one per eye, then the
+ * binocular PD when it was measured instead of monocular ones
+ */
+export function prescriptionTableRows(prescription?: Prescription | null): string[][] {
+  const rows = EYES.map((key) => {
+    const eye = prescription?.[key] || {};
+    return [
+      key === 'od' ? 'OD (Right)' : 'OS (Left)',
+      eye.sphere === 0 ? 'Plano' : formatDiopter(eye.sphere),
+      formatDiopter(eye.cylinder),
+      eye.axis ? String(eye.axis) : '',
+      formatDiopter(eye.add),
+      eye.prism ? eye.prism.toFixed(2) : '',
+      eye.base || '',
+      eye.pd ? String(eye.pd) : ''
+    ];
+  });
+
+  if (prescription?.pd) {
+    rows.push(['OU (Both)', '', '', '', '', '', '', String(prescription.pd)]);
+  }
+  return rows;
+}
@@ -8,7 +8,8 @@ const VALID_QUEUE_STATUSES: string[] = [
   'serving',
   'processing',
   'completed',
-  'cancelled'
+  'cancelled',
+  'on_hold'
 ];
 
 /**
@@ -1,6 +1,104 @@
-import { UserRole, QueueStatus, DistributionType, PaymentMode } from '../../types';
+import { UserRole, QueueStatus, DistributionType, PaymentMode, ServiceType } from '../../types';
+import { PRISM_BASES } from '../../utils/prescription';
 type Schema = any;
 
+const isBlank = (value: any): boolean => value === null || value === undefined || value === '';
+
+// Lens powers come in quarter diopter steps
+const isQuarterStep = (value: any): boolean => {
+  const quarters = Number(value) * 4;
+  return Math.abs(quarters - Math.round(quarters)) < 1e-6;
+};
+
+const diopterField = (label: string, min: number, max: number): Schema => ({
+  in: ['body'],
+  optional: { options: { nullable: true, checkFalsy: true } },
+  isFloat: {
+    options: { min, max },
+    errorMessage: `${label} must be between ${min} and ${max}`
+  },
+  custom: {
+    options: isQuarterStep,
+    errorMessage: `${label} must be in 0.25 steps`
+  },
+  toFloat: true
+});
+
+/**
+ * Fields of one eye of a structured prescription. An axis is required with a cylinder and a
+ * base direction with a prism.
+ */
+const eyePrescriptionSchema = (eye: 'od' | 'os', label: string): Schema => ({
+  [`prescription.${eye}.sphere`]: diopterField(`${label} sphere`, -30, 30),
+  [`prescription.${eye}.cylinder`]: diopterField(`${label} cylinder`, -10, 10),
+  [`prescription.${eye}.axis`]: {
+    in: ['body'],
+    custom: {
+      options: (value: any, { req }: any) => {
+        if (isBlank(value)) {
+          return !Number(req.body.prescription?.[eye]?.cylinder);
+        }
+        return Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= 180;
+      },
+      errorMessage: `${label} axis must be a whole number from 1 to 180, and is required with a cylinder`
+    }
+  },
+  [`prescription.${eye}.add`]: diopterField(`${label} add`, 0.25, 4),
+  [`prescription.${eye}.prism`]: {
+    in: ['body'],
+    optional: { options: { nullable: true, checkFalsy: true } },
+    isFloat: {
+      options: { min: 0.25, max: 20 },
+      errorMessage: `${label} prism must be between 0.25 and 20`
+    },
+    toFloat: true
+  },
+  [`prescription.${eye}.base`]: {
+    in: ['body'],
+    custom: {
+      options: (value: any, { req }: any) => {
+        if (isBlank(value)) {
+          return !Number(req.body.prescription?.[eye]?.prism);
+        }
+        return PRISM_BASES.includes(value);
+      },
+      errorMessage: `${label} prism base must be one of ${PRISM_BASES.join(', ')}, and is required with a prism`
+    }
+  },
+  [`prescription.${eye}.pd`]: {
+    in: ['body'],
+    optional: { options: { nullable: true, checkFalsy: true } },
+    isFloat: {
+      options: { min: 20, max: 40 },
+      errorMessage: `${label} PD must be between 20 and 40 mm`
+    },
+    toFloat: true
+  }
+});
+
+const prescriptionSchema: Schema = {
+  ...eyePrescriptionSchema('od', 'Right eye (OD)'),
+  ...eyePrescriptionSchema('os', 'Left eye (OS)'),
+  'prescription.pd': {
+    in: ['body'],
+    optional: { options: { nullable: true, checkFalsy: true } },
+    isFloat: {
+      options: { min: 40, max: 80 },
+      errorMessage: 'PD must be between 40 and 80 mm'
+    },
+    toFloat: true
+  },
+  'prescription.notes': {
+    in: ['body'],
+    optional: { options: { nullable: true } },
+    isLength: {
+      options: { max: 500 },
+      errorMessage: 'Prescription notes must be less than 500 characters'
+    },
+    trim: true
+  }
+};
+
 /**
  * Validation schema for creating a new customer
  */
@@ -81,31 +179,7 @@ export const createCustomerSchema: Schema = {
     },
     trim: true
   },
-  'prescription.od': {
-    in: ['body'],
-    optional: { options: { nullable: true } },
-    trim: true
-  },
-  'prescription.os': {
-    in: ['body'],
-    optional: { options: { nullable: true } },
-    trim: true
-  },
-  'prescription.ou': {
-    in: ['body'],
-    optional: { options: { nullable: true } },
-    trim: true
-  },
-  'prescription.pd': {
-    in: ['body'],
-    optional: { options: { nullable: true } },
-    trim: true
-  },
-  'prescription.add': {
-    in: ['body'],
-    optional: { options: { nullable: true } },
-    trim: true
-  },
+  ...prescriptionSchema,
   grade_type: {
     in: ['body'],
     notEmpty: {
@@ -199,6 +273,16 @@ export const createCustomerSchema: Schema = {
     },
     toBoolean: true
   },
+  service_type: {
+    in: ['body'],
+    optional: { options: { nullable: true } },
+    custom: {
+      options: (value: any) => {
+        return Object.values(ServiceType).includes(value);
+      },
+      errorMessage: 'Invalid service type'
+    }
+  },
   create_initial_transaction: {
     in: ['body'],
     optional: { options: { nullable: true } },
@@ -206,6 +290,48 @@ export const createCustomerSchema: Schema = {
       errorMessage: 'Create initial transaction flag must be a boolean'
     },
     toBoolean: true
+  },
+  override_capacity: {
+    in: ['body'],
+    optional: { options: { nullable: true } },
+    isBoolean: {
+      errorMessage: 'Capacity override flag must be a boolean'
+    },
+    toBoolean: true
+  },
+  appointment_id: {
+    in: ['body'],
+    optional: { options: { nullable: true } },
+    isInt: {
+      options: { min: 1 },
+      errorMessage: 'Appointment ID must be a positive integer'
+    },
+    toInt: true
+  },
+  patient_id: {
+    in: ['body'],
+    optional: { options: { nullable: true } },
+    isInt: {
+      options: { min: 1 },
+      errorMessage: 'Patient ID must be a positive integer'
+    },
+    toInt: true
+  },
+  create_patient: {
+    in: ['body'],
+    optional: { options: { nullable: true } },
+    isBoolean: {
+      errorMessage: 'Create patient flag must be a boolean'
+    },
+    toBoolean: true
+  },
+  birth_date: {
+    in: ['body'],
+    optional: { options: { nullable: true, checkFalsy: true } },
+    isDate: {
+      options: { format: 'YYYY-MM-DD', strictMode: true },
+      errorMessage: 'Birthdate must be a date (YYYY-MM-DD)'
+    }
   }
 };
 
@@ -293,31 +419,7 @@ export const updateCustomerSchema: Schema = {
     },
     trim: true
   },
-  'prescription.od': {
-    in: ['body'],
-    optional: { options: { nullable: true } },
-    trim: true
-  },
-  'prescription.os': {
-    in: ['body'],
-    optional: { options: { nullable: true } },
-    trim: true
-  },
-  'prescription.ou': {
-    in: ['body'],
-    optional: { options: { nullable: true } },
-    trim: true
-  },
-  'prescription.pd': {
-    in: ['body'],
-    optional: { options: { nullable: true } },
-    trim: true
-  },
-  'prescription.add': {
-    in: ['body'],
-    optional: { options: { nullable: true } },
-    trim: true
-  },
+  ...prescriptionSchema,
   grade_type: {
     in: ['body'],
     optional: { options: { nullable: true } },
@@ -411,6 +513,16 @@ export const updateCustomerSchema: Schema = {
       errorMessage: 'PWD flag must be a boolean'
     },
     toBoolean: true
+  },
+  service_type: {
+    in: ['body'],
+    optional: { options: { nullable: true } },
+    custom: {
+      options: (value: any) => {
+        return Object.values(ServiceType).includes(value);
+      },
+      errorMessage: 'Invalid service type'
+    }
   }
 };
 
@@ -521,6 +633,56 @@ export const listCustomersSchema: Schema = {
   }
 };
 
+/**
+ * Validation schema for registering at a self-service kiosk. The kiosk only asks for
+ * the short form, validated the same way as a staff registration.
+ */
+export const kioskRegistrationSchema: Schema = {
+  name: createCustomerSchema.name,
+  contact_number: createCustomerSchema.contact_number,
+  email: createCustomerSchema.email,
+  age: createCustomerSchema.age,
+  service_type: createCustomerSchema.service_type,
+  'priority_flags.senior_citizen': createCustomerSchema['priority_flags.senior_citizen'],
+  'priority_flags.pregnant': createCustomerSchema['priority_flags.pregnant'],
+  'priority_flags.pwd': createCustomerSchema['priority_flags.pwd']
+};
+
+/**
+ * Validation schema for checking in a returning customer at a kiosk
+ */
+export const kioskCheckInSchema: Schema = {
+  or_number: {
+    in: ['body'],
+    custom: {
+      options: (value: any, { req }: any) => !!value || (!!req.body.contact_number && !!req.body.last_name),
+      errorMessage: 'OR number, or contact number and last name, is required'
+    },
+    isLength: {
+      options: { max: 50 },
+      errorMessage: 'OR number must be less than 50 characters'
+    },
+    trim: true
+  },
+  contact_number: {
+    ...createCustomerSchema.contact_number,
+    optional: { options: { nullable: true, checkFalsy: true } }
+  },
+  last_name: {
+    in: ['body'],
+    optional: { options: { nullable: true, checkFalsy: true } },
+    isLength: {
+      options: { max: 100 },
+      errorMessage: 'Last name must be less than 100 characters'
+    },
+    trim: true
+  },
+  service_type: createCustomerSchema.service_type,
+  'priority_flags.senior_citizen': createCustomerSchema['priority_flags.senior_citizen'],
+  'priority_flags.pregnant': createCustomerSchema['priority_flags.pregnant'],
+  'priority_flags.pwd': createCustomerSchema['priority_flags.pwd']
+};
+
 /**
  * Validation schema for customer notification
  */
@@ -0,0 +1,26 @@
+-- 008_service_type_routing.sql
+-- Adds requested service type to customers and the list of service types each counter handles
+
+BEGIN;
+
+-- 1) Requested service type per customer (eye_exam, frame_fitting, cashier, releasing)
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS service_type VARCHAR(30) NOT NULL DEFAULT 'cashier';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_name = 'chk_customers_service_type') THEN
+    ALTER TABLE customers ADD CONSTRAINT chk_customers_service_type
+      CHECK (service_type IN ('eye_exam', 'frame_fitting', 'cashier', 'releasing'));
+  END IF;
+END $$;
+
+-- 2) Service types a counter can serve; existing counters keep serving everything
+ALTER TABLE counters
+  ADD COLUMN IF NOT EXISTS service_types JSONB NOT NULL
+  DEFAULT '["eye_exam", "frame_fitting", "cashier", "releasing"]'::jsonb;
+
+-- Speeds up callNext filtering of the waiting queue by service type
+CREATE INDEX IF NOT EXISTS idx_customers_status_service_type ON customers(queue_status, service_type);
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- 009_no_show_handling.sql
+-- Tracks missed calls per customer so staff can recall or skip no-shows, and keeps the reason on queue events
+
+BEGIN;
+
+-- 1) Number of times a called customer did not come to the counter (recall or skip)
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS missed_call_count INTEGER NOT NULL DEFAULT 0;
+
+-- 2) Score offset applied by the priority policy; skip uses it to place a customer behind the next N people
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS queue_score_adjustment NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+-- 3) Reason for an event, e.g. 'no_show' on automatic cancellations
+ALTER TABLE queue_events
+  ADD COLUMN IF NOT EXISTS reason VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_queue_events_type_created ON queue_events(event_type, created_at);
+
+COMMIT;
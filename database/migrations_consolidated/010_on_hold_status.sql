@@ -0,0 +1,19 @@
+-- 010_on_hold_status.sql
+-- Adds the 'on_hold' queue status for waiting customers who stepped out, with the time their hold lapses
+
+BEGIN;
+
+-- 1) Allow 'on_hold' in the queue status constraint
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_queue_status_check;
+ALTER TABLE customers ADD CONSTRAINT customers_queue_status_check
+  CHECK (queue_status IN ('waiting', 'serving', 'processing', 'completed', 'cancelled', 'on_hold', 'unknown'));
+
+-- 2) When the hold started and until when it can be reactivated
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS held_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS hold_expires_at TIMESTAMP;
+
+-- Used by the scheduler sweep that cancels lapsed holds
+CREATE INDEX IF NOT EXISTS idx_customers_hold_expires_at ON customers(hold_expires_at) WHERE queue_status = 'on_hold';
+
+COMMIT;
@@ -0,0 +1,17 @@
+-- 011_queue_transfers.sql
+-- Supports transferring customers between counters and service stages while keeping per-stage timing
+
+BEGIN;
+
+-- 1) When the customer joined the line for their current stage; NULL means since created_at
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS stage_entered_at TIMESTAMP;
+
+-- 2) Service type (stage) the event belongs to, so durations can be reported per stage
+ALTER TABLE queue_events
+  ADD COLUMN IF NOT EXISTS stage VARCHAR(50);
+
+-- Stage-ending events are paired with the latest preceding 'called' event of the same customer
+CREATE INDEX IF NOT EXISTS idx_queue_events_customer_type_created ON queue_events(customer_id, event_type, created_at);
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- 012_daily_sequences.sql
+-- Race-free per-business-day counters for queue tokens and OR numbers, plus prefixed token codes
+
+BEGIN;
+
+-- 1) One counter row per business day and sequence key ('or', 'token:', 'token:A', ...).
+--    Values are taken with INSERT ... ON CONFLICT DO UPDATE ... RETURNING, which is atomic.
+CREATE TABLE IF NOT EXISTS daily_sequences (
+  business_date DATE NOT NULL,
+  sequence_key VARCHAR(50) NOT NULL,
+  last_value INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (business_date, sequence_key)
+);
+
+-- 2) Display form of the token including its lane prefix (e.g. A001, P001)
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS token_code VARCHAR(20);
+
+COMMIT;
@@ -0,0 +1,17 @@
+-- 013_wait_time_estimates.sql
+-- Queue position SMS can quote the estimated wait range
+
+BEGIN;
+
+-- Advertise the new range variables and use them in the default template (customised templates are left alone)
+UPDATE sms_templates
+SET variables = '["CustomerName", "QueuePosition", "EstimatedWait", "EstimatedWaitLow", "EstimatedWaitHigh", "EstimatedWaitRange"]'::JSONB,
+    updated_at = CURRENT_TIMESTAMP
+WHERE name = 'queue_position';
+
+UPDATE sms_templates
+SET template_content = 'Hello [CustomerName], you are currently #[QueuePosition] in line. Estimated wait time: [EstimatedWaitRange] minutes. Thank you for your patience!'
+WHERE name = 'queue_position'
+  AND template_content = 'Hello [CustomerName], you are currently #[QueuePosition] in line. Estimated wait time: [EstimatedWait] minutes. Thank you for your patience!';
+
+COMMIT;
@@ -0,0 +1,32 @@
+-- 014_queue_pauses.sql
+-- Global queue pause (lunch break, power outage) with the paused periods kept for analytics
+
+BEGIN;
+
+-- 1) One row per pause; the open pause has no resumed_at
+CREATE TABLE IF NOT EXISTS queue_pauses (
+    id SERIAL PRIMARY KEY,
+    reason VARCHAR(255) NOT NULL,
+    expected_resume_at TIMESTAMP,
+    paused_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    paused_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    resumed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    resumed_at TIMESTAMP
+);
+
+-- At most one pause can be open at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_queue_pauses_single_open ON queue_pauses ((true)) WHERE resumed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_queue_pauses_period ON queue_pauses(paused_at, resumed_at);
+
+-- 2) Minutes of [from_ts, to_ts) the queue spent paused, so waits can exclude them
+CREATE OR REPLACE FUNCTION queue_paused_minutes(from_ts TIMESTAMP, to_ts TIMESTAMP)
+RETURNS NUMERIC AS $$
+    SELECT COALESCE(SUM(
+        EXTRACT(EPOCH FROM (LEAST(COALESCE(resumed_at, LOCALTIMESTAMP), to_ts) - GREATEST(paused_at, from_ts))) / 60
+    ), 0)
+    FROM queue_pauses
+    WHERE paused_at < to_ts
+      AND COALESCE(resumed_at, LOCALTIMESTAMP) > from_ts
+$$ LANGUAGE SQL STABLE;
+
+COMMIT;
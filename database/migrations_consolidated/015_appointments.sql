@@ -0,0 +1,39 @@
+-- 015_appointments.sql
+-- Booked appointments that join the walk-in queue at their slot time once checked in
+
+BEGIN;
+
+-- 1) Appointments; a booked appointment becomes a customer record on check-in
+CREATE TABLE IF NOT EXISTS appointments (
+    id SERIAL PRIMARY KEY,
+    customer_name VARCHAR(255) NOT NULL,
+    contact_number VARCHAR(20),
+    email VARCHAR(255),
+    service_type VARCHAR(50) NOT NULL DEFAULT 'eye_exam'
+        CHECK (service_type IN ('cashier', 'eye_exam', 'frame_fitting', 'releasing')),
+    doctor_name VARCHAR(255),
+    slot_start TIMESTAMP NOT NULL,
+    slot_end TIMESTAMP NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'booked'
+        CHECK (status IN ('booked', 'checked_in', 'cancelled', 'no_show')),
+    notes TEXT,
+    customer_id INTEGER REFERENCES customers(id) ON DELETE SET NULL,
+    booked_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    checked_in_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (slot_end > slot_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_slot ON appointments(slot_start, service_type) WHERE status IN ('booked', 'checked_in');
+CREATE INDEX IF NOT EXISTS idx_appointments_status_slot ON appointments(status, slot_start);
+
+-- A doctor can't be booked twice for the same slot
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_doctor_slot ON appointments(doctor_name, slot_start)
+    WHERE doctor_name IS NOT NULL AND status IN ('booked', 'checked_in');
+
+-- 2) Slot time of a checked-in customer's appointment, used for call ordering
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS appointment_at TIMESTAMP;
+
+COMMIT;
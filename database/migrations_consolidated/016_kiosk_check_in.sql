@@ -0,0 +1,36 @@
+-- 016_kiosk_check_in.sql
+-- Self-service kiosks: registered devices and customers created at a kiosk
+
+BEGIN;
+
+-- 1) Kiosk devices; a device authenticates with a key that is only stored hashed
+CREATE TABLE IF NOT EXISTS kiosk_devices (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    key_hash CHAR(64) NOT NULL UNIQUE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    last_seen_at TIMESTAMP,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    revoked_at TIMESTAMP
+);
+
+-- 2) Where a customer was registered, and whether a sales agent still has to
+--    fill in the prescription and payment details
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS registration_source VARCHAR(20) NOT NULL DEFAULT 'staff',
+  ADD COLUMN IF NOT EXISTS kiosk_device_id INTEGER REFERENCES kiosk_devices(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS details_pending BOOLEAN NOT NULL DEFAULT false;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.table_constraints WHERE constraint_name = 'chk_customers_registration_source') THEN
+    ALTER TABLE customers ADD CONSTRAINT chk_customers_registration_source
+      CHECK (registration_source IN ('staff', 'kiosk'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_customers_details_pending ON customers(created_at) WHERE details_pending = true;
+CREATE INDEX IF NOT EXISTS idx_customers_contact_number ON customers(contact_number);
+
+COMMIT;
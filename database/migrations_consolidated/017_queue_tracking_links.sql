@@ -0,0 +1,19 @@
+-- 017_queue_tracking_links.sql
+-- SMS templates can include the customer's live tracking link
+
+BEGIN;
+
+-- Advertise [TrackingUrl] (also written {tracking_url}) on the templates sent while a customer is in line
+UPDATE sms_templates
+SET variables = variables || '["TrackingUrl"]'::JSONB,
+    updated_at = CURRENT_TIMESTAMP
+WHERE name IN ('queue_position', 'ready_to_serve', 'delay_notification')
+  AND NOT variables ? 'TrackingUrl';
+
+-- Link to it from the default queue position template (customised templates are left alone)
+UPDATE sms_templates
+SET template_content = 'Hello [CustomerName], you are currently #[QueuePosition] in line. Estimated wait time: [EstimatedWaitRange] minutes. Follow your place in line: [TrackingUrl]'
+WHERE name = 'queue_position'
+  AND template_content = 'Hello [CustomerName], you are currently #[QueuePosition] in line. Estimated wait time: [EstimatedWaitRange] minutes. Thank you for your patience!';
+
+COMMIT;
@@ -0,0 +1,32 @@
+-- 018_display_devices.sql
+-- Display monitors paired through a code shown on screen and entered in the admin panel
+
+BEGIN;
+
+-- 1) Paired displays; the device token is only stored hashed and is set when the
+--    display collects it after an admin entered its pairing code
+CREATE TABLE IF NOT EXISTS display_devices (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    token_hash CHAR(64) UNIQUE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    last_seen_at TIMESTAMP,
+    paired_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    paired_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    revoked_at TIMESTAMP
+);
+
+-- 2) Open pairing requests. The display holds the secret and polls with it until an
+--    admin has paired the code; the row is removed once the token is collected
+CREATE TABLE IF NOT EXISTS display_pairing_requests (
+    id SERIAL PRIMARY KEY,
+    code CHAR(6) NOT NULL UNIQUE,
+    secret_hash CHAR(64) NOT NULL,
+    device_id INTEGER REFERENCES display_devices(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_display_pairing_requests_expires_at ON display_pairing_requests(expires_at);
+
+COMMIT;
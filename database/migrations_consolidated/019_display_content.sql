@@ -0,0 +1,59 @@
+-- 019_display_content.sql
+-- Display groups, and playlists of content slides shown beside the queue on display monitors
+
+BEGIN;
+
+-- 1) Named groups of paired displays, e.g. "Second floor"
+CREATE TABLE IF NOT EXISTS display_groups (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE display_devices
+    ADD COLUMN IF NOT EXISTS group_id INTEGER REFERENCES display_groups(id) ON DELETE SET NULL;
+
+-- 2) Playlists run between their start and end dates (shop local dates, inclusive)
+CREATE TABLE IF NOT EXISTS display_playlists (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    starts_on DATE,
+    ends_on DATE,
+    slide_seconds INTEGER NOT NULL DEFAULT 10 CHECK (slide_seconds BETWEEN 3 AND 300),
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (starts_on IS NULL OR ends_on IS NULL OR starts_on <= ends_on)
+);
+
+-- 3) Groups a playlist is shown on; a playlist without any is shown on every display
+CREATE TABLE IF NOT EXISTS display_playlist_groups (
+    playlist_id INTEGER NOT NULL REFERENCES display_playlists(id) ON DELETE CASCADE,
+    group_id INTEGER NOT NULL REFERENCES display_groups(id) ON DELETE CASCADE,
+    PRIMARY KEY (playlist_id, group_id)
+);
+
+-- 4) Slides; images are kept in the database so every backend instance can serve them
+CREATE TABLE IF NOT EXISTS display_slides (
+    id SERIAL PRIMARY KEY,
+    playlist_id INTEGER NOT NULL REFERENCES display_playlists(id) ON DELETE CASCADE,
+    type VARCHAR(10) NOT NULL CHECK (type IN ('image', 'text', 'promo')),
+    title VARCHAR(100),
+    body TEXT,
+    image_data BYTEA,
+    image_mime_type VARCHAR(50),
+    display_seconds INTEGER CHECK (display_seconds BETWEEN 3 AND 300), -- NULL = the playlist's slide_seconds
+    starts_at TIMESTAMP,
+    ends_at TIMESTAMP,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_display_slides_playlist ON display_slides(playlist_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_display_devices_group ON display_devices(group_id);
+
+COMMIT;
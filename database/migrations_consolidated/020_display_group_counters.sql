@@ -0,0 +1,11 @@
+-- 020_display_group_counters.sql
+-- Display groups pick the counters and service types their displays show
+
+BEGIN;
+
+-- Empty lists mean every counter / every service type, so existing groups keep showing everything
+ALTER TABLE display_groups
+    ADD COLUMN IF NOT EXISTS counter_ids INTEGER[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS service_types JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMIT;
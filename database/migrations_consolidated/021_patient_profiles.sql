@@ -0,0 +1,31 @@
+-- 021_patient_profiles.sql
+-- Patient profiles that a returning patient's visits (customer records) link to
+
+BEGIN;
+
+-- 1) Patient profiles; every visit still gets its own customer record and OR number
+CREATE TABLE IF NOT EXISTS patients (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    contact_number VARCHAR(20),
+    email VARCHAR(255),
+    birth_date DATE,
+    address TEXT,
+    occupation VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Matching looks profiles up by the last 10 digits of the phone number and by name
+CREATE INDEX IF NOT EXISTS idx_patients_contact_digits
+    ON patients ((RIGHT(regexp_replace(contact_number, '\D', '', 'g'), 10)));
+CREATE INDEX IF NOT EXISTS idx_patients_name ON patients (LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_patients_birth_date ON patients (birth_date);
+
+-- 2) The patient a visit belongs to; existing and kiosk visits stay unlinked until staff link them
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS patient_id INTEGER REFERENCES patients(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_patient ON customers(patient_id, created_at);
+
+COMMIT;
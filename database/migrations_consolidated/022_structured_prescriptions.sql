@@ -0,0 +1,147 @@
+-- 022_structured_prescriptions.sql
+-- Prescriptions move from free-text od/os/ou/pd/add strings to structured values per eye:
+--   {"od": {"sphere": -1.25, "cylinder": -0.5, "axis": 180, "add": 2, "prism": 1, "base": "BI", "pd": 31},
+--    "os": {...}, "pd": 62, "notes": "..."}
+-- Existing strings are parsed where they follow the usual "SPH CYL x AXIS" notation; anything
+-- else is kept word for word in notes so no prescription is lost.
+
+BEGIN;
+
+-- 1) One eye's text, e.g. "-1.25 -0.50 x 180", "+2.00/-1.00X90 ADD +1.50", "PLANO"; NULL if it
+--    does not parse or a value is out of range
+CREATE OR REPLACE FUNCTION pg_temp.parse_eye_prescription(raw TEXT) RETURNS JSONB AS $$
+DECLARE
+  m TEXT[];
+  sphere NUMERIC;
+  cylinder NUMERIC;
+  axis INTEGER;
+  addition NUMERIC;
+BEGIN
+  m := regexp_match(
+    upper(regexp_replace(trim(raw), '\s+', ' ', 'g')),
+    '^(PL|PLANO|[+-]?\d{1,2}(?:\.\d{1,2})?)(?: ?(?:DS|SPH|D))?'
+    || '(?: ?/? ?([+-]?\d{1,2}(?:\.\d{1,2})?) ?(?:DC|CYL)? ?[X×@] ?(\d{1,3}))?'
+    || '(?: ?ADD ?\+?(\d(?:\.\d{1,2})?))?$'
+  );
+  IF m IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  sphere := CASE WHEN m[1] IN ('PL', 'PLANO') THEN 0 ELSE m[1]::NUMERIC END;
+  cylinder := m[2]::NUMERIC;
+  axis := CASE WHEN m[3]::INTEGER = 0 THEN 180 ELSE m[3]::INTEGER END;
+  addition := m[4]::NUMERIC;
+
+  IF sphere NOT BETWEEN -30 AND 30
+     OR cylinder NOT BETWEEN -10 AND 10
+     OR axis NOT BETWEEN 1 AND 180
+     OR addition NOT BETWEEN 0.25 AND 4 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_strip_nulls(jsonb_build_object(
+    'sphere', sphere,
+    'cylinder', cylinder,
+    'axis', axis,
+    'add', addition
+  ));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 2) A whole stored prescription; structured ones are returned unchanged
+CREATE OR REPLACE FUNCTION pg_temp.structure_prescription(raw TEXT) RETURNS TEXT AS $$
+DECLARE
+  rx JSONB;
+  result JSONB := '{}'::JSONB;
+  notes TEXT[] := '{}';
+  eye TEXT;
+  value TEXT;
+  parsed JSONB;
+  pd TEXT[];
+BEGIN
+  IF raw IS NULL OR trim(raw) = '' THEN
+    RETURN raw;
+  END IF;
+
+  BEGIN
+    rx := raw::JSONB;
+  EXCEPTION WHEN others THEN
+    RETURN jsonb_build_object('notes', raw)::TEXT;
+  END;
+
+  IF jsonb_typeof(rx) <> 'object' THEN
+    RETURN jsonb_build_object('notes', raw)::TEXT;
+  END IF;
+  IF jsonb_typeof(rx->'od') = 'object' OR jsonb_typeof(rx->'os') = 'object' OR rx ? 'notes' THEN
+    RETURN raw;
+  END IF;
+
+  FOREACH eye IN ARRAY ARRAY['od', 'os'] LOOP
+    value := NULLIF(trim(rx->>eye), '');
+    CONTINUE WHEN value IS NULL;
+    parsed := pg_temp.parse_eye_prescription(value);
+    IF parsed IS NULL THEN
+      notes := notes || (upper(eye) || ': ' || value);
+    ELSE
+      result := result || jsonb_build_object(eye, parsed);
+    END IF;
+  END LOOP;
+
+  -- OU applies to both eyes when they were not written separately
+  value := NULLIF(trim(rx->>'ou'), '');
+  IF value IS NOT NULL THEN
+    parsed := pg_temp.parse_eye_prescription(value);
+    IF parsed IS NOT NULL AND NULLIF(trim(rx->>'od'), '') IS NULL AND NULLIF(trim(rx->>'os'), '') IS NULL THEN
+      result := result || jsonb_build_object('od', parsed, 'os', parsed);
+    ELSE
+      notes := notes || ('OU: ' || value);
+    END IF;
+  END IF;
+
+  -- A single ADD goes on each eye that does not have its own
+  value := NULLIF(trim(rx->>'add'), '');
+  IF value IS NOT NULL THEN
+    IF value ~ '^\+?\d(\.\d{1,2})?$' AND value::NUMERIC BETWEEN 0.25 AND 4 AND (result ? 'od' OR result ? 'os') THEN
+      FOREACH eye IN ARRAY ARRAY['od', 'os'] LOOP
+        IF result ? eye AND NOT (result->eye ? 'add') THEN
+          result := jsonb_set(result, ARRAY[eye, 'add'], to_jsonb(value::NUMERIC));
+        END IF;
+      END LOOP;
+    ELSE
+      notes := notes || ('ADD: ' || value);
+    END IF;
+  END IF;
+
+  -- PD is either binocular ("62") or monocular right/left ("31/31.5")
+  value := NULLIF(trim(rx->>'pd'), '');
+  IF value IS NOT NULL THEN
+    pd := regexp_match(value, '^(\d{2}(?:\.\d)?) ?(?:mm)?$', 'i');
+    IF pd IS NOT NULL AND pd[1]::NUMERIC BETWEEN 40 AND 80 THEN
+      result := result || jsonb_build_object('pd', pd[1]::NUMERIC);
+    ELSE
+      pd := regexp_match(value, '^(\d{2}(?:\.\d)?) ?/ ?(\d{2}(?:\.\d)?)$');
+      IF pd IS NOT NULL AND pd[1]::NUMERIC BETWEEN 20 AND 40 AND pd[2]::NUMERIC BETWEEN 20 AND 40 THEN
+        result := result
+          || jsonb_build_object('od', COALESCE(result->'od', '{}'::JSONB) || jsonb_build_object('pd', pd[1]::NUMERIC))
+          || jsonb_build_object('os', COALESCE(result->'os', '{}'::JSONB) || jsonb_build_object('pd', pd[2]::NUMERIC));
+      ELSE
+        notes := notes || ('PD: ' || value);
+      END IF;
+    END IF;
+  END IF;
+
+  IF cardinality(notes) > 0 THEN
+    result := result || jsonb_build_object('notes', array_to_string(notes, '; '));
+  END IF;
+
+  RETURN result::TEXT;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 3) Convert the stored prescriptions
+UPDATE customers
+SET prescription = pg_temp.structure_prescription(prescription)
+WHERE prescription IS NOT NULL
+  AND prescription IS DISTINCT FROM pg_temp.structure_prescription(prescription);
+
+COMMIT;
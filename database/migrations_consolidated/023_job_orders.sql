@@ -0,0 +1,37 @@
+-- 023_job_orders.sql
+-- Job orders tracking eyewear through the lab after the visit, separate from the queue status
+
+BEGIN;
+
+-- 1) One job order per pair being made; the stage is a key from the job_orders.stages setting
+CREATE TABLE IF NOT EXISTS job_orders (
+    id SERIAL PRIMARY KEY,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    transaction_id INTEGER REFERENCES transactions(id) ON DELETE SET NULL,
+    stage VARCHAR(50) NOT NULL,
+    stage_changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expected_ready_at TIMESTAMP,
+    lab_name VARCHAR(255),
+    notes TEXT,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_orders_stage ON job_orders(stage, expected_ready_at);
+CREATE INDEX IF NOT EXISTS idx_job_orders_customer ON job_orders(customer_id);
+
+-- 2) Every stage or expected-ready change, so each stage has the time it was reached
+CREATE TABLE IF NOT EXISTS job_order_events (
+    id SERIAL PRIMARY KEY,
+    job_order_id INTEGER NOT NULL REFERENCES job_orders(id) ON DELETE CASCADE,
+    stage VARCHAR(50) NOT NULL,
+    expected_ready_at TIMESTAMP,
+    note TEXT,
+    changed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_order_events_job ON job_order_events(job_order_id, created_at);
+
+COMMIT;
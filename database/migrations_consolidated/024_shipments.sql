@@ -0,0 +1,49 @@
+-- 024_shipments.sql
+-- Shipments for orders delivered by Lalamove or LBC, with their status history and proof of delivery
+
+BEGIN;
+
+-- 1) One shipment per delivery; the reference is the LBC waybill or the Lalamove booking
+CREATE TABLE IF NOT EXISTS shipments (
+    id SERIAL PRIMARY KEY,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    courier VARCHAR(20) NOT NULL CHECK (courier IN ('lalamove', 'lbc')),
+    reference VARCHAR(100),
+    fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+    status VARCHAR(30) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered', 'failed', 'returned', 'cancelled')),
+    status_updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    recipient_name VARCHAR(255),
+    delivery_address TEXT,
+    estimated_delivery_at TIMESTAMP,
+    delivered_at TIMESTAMP,
+    pod_received_by VARCHAR(255),
+    pod_photo_url TEXT,
+    pod_notes TEXT,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Courier updates find their shipment by reference
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipments_courier_reference
+    ON shipments(courier, reference) WHERE reference IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_shipments_customer ON shipments(customer_id);
+CREATE INDEX IF NOT EXISTS idx_shipments_status ON shipments(status);
+
+-- 2) Status history, from staff or the courier
+CREATE TABLE IF NOT EXISTS shipment_events (
+    id SERIAL PRIMARY KEY,
+    shipment_id INTEGER NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+    status VARCHAR(30) NOT NULL,
+    description TEXT,
+    location VARCHAR(255),
+    source VARCHAR(20) NOT NULL DEFAULT 'staff' CHECK (source IN ('staff', 'courier')),
+    occurred_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipment_events_shipment ON shipment_events(shipment_id, occurred_at);
+
+COMMIT;
@@ -0,0 +1,44 @@
+-- 025_order_releases.sql
+-- Release of eyewear at the counter: who picked it up, how they were verified and their signature
+
+BEGIN;
+
+-- 1) One release per visit
+CREATE TABLE IF NOT EXISTS order_releases (
+    id SERIAL PRIMARY KEY,
+    customer_id INTEGER NOT NULL UNIQUE REFERENCES customers(id) ON DELETE CASCADE,
+    transaction_id INTEGER REFERENCES transactions(id) ON DELETE SET NULL,
+    verification VARCHAR(20) NOT NULL CHECK (verification IN ('sms_code', 'representative')),
+    received_by VARCHAR(255) NOT NULL, -- the customer, or the authorized representative
+    signature TEXT NOT NULL, -- PNG data URL drawn on the counter screen
+    balance_amount DECIMAL(10,2) NOT NULL DEFAULT 0, -- still owed when released
+    balance_override_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    balance_override_reason TEXT,
+    released_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    released_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_releases_released_at ON order_releases(released_at);
+
+-- 2) One-time codes texted to the customer; only a hash of the code is kept
+CREATE TABLE IF NOT EXISTS release_codes (
+    id SERIAL PRIMARY KEY,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    used_at TIMESTAMP,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_release_codes_customer ON release_codes(customer_id, created_at DESC);
+
+-- 3) The text carrying the code
+INSERT INTO sms_templates (name, template_content, variables)
+SELECT 'release_code',
+       'Hi [CustomerName], your EscaShop Optical release code for order #[OrderNumber] is [Code]. Show it to our staff to claim your eyewear. It expires in [ExpiresMinutes] minutes.',
+       '["CustomerName", "OrderNumber", "Code", "ExpiresMinutes"]'::JSONB
+WHERE NOT EXISTS (SELECT 1 FROM sms_templates WHERE name = 'release_code');
+
+COMMIT;
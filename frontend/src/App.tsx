@@ -14,11 +14,15 @@ import ResetPassword from './components/auth/ResetPassword';
 import Dashboard from './components/dashboard/Dashboard';
 import CustomerManagement from './components/customers/CustomerManagement';
 import QueueManagement from './components/queue/QueueManagement';
+import AppointmentManagement from './components/appointments/AppointmentManagement';
+import JobOrderBoard from './components/jobOrders/JobOrderBoard';
 import EnhancedTransactionManagement from './components/transactions/EnhancedTransactionManagement';
 import AdminPanel from './components/admin/AdminPanel';
 import HistoricalAnalyticsDashboard from './components/analytics/HistoricalAnalyticsDashboard';
 import DisplayMonitor from './components/display/DisplayMonitor';
 import StandaloneDisplayMonitor from './components/display/StandaloneDisplayMonitor';
+import KioskMode from './components/kiosk/KioskMode';
+import QueueTracking from './components/tracking/QueueTracking';
 import Layout from './components/layout/Layout';
 import DarkModeWrapper from './components/common/DarkModeWrapper';
 import SessionManager from './components/common/SessionManager';
@@ -100,6 +104,20 @@ const AppContent: React.FC = () => {
                     </Layout>
                   </ProtectedRoute>
                 } />
+                <Route path="/appointments" element={
+                  <ProtectedRoute requiredRoles={[UserRole.ADMIN, UserRole.SALES]}>
+                    <Layout>
+                      <AppointmentManagement />
+                    </Layout>
+                  </ProtectedRoute>
+                } />
+                <Route path="/job-orders" element={
+                  <ProtectedRoute>
+                    <Layout>
+                      <JobOrderBoard />
+                    </Layout>
+                  </ProtectedRoute>
+                } />
                 <Route path="/display" element={
                   <ProtectedRoute>
                     <Layout>
@@ -108,6 +126,8 @@ const AppContent: React.FC = () => {
                   </ProtectedRoute>
                 } />
                 <Route path="/display-standalone" element={<StandaloneDisplayMonitor />} />
+                <Route path="/kiosk" element={<KioskMode />} />
+                <Route path="/track/:token" element={<QueueTracking />} />
                 <Route path="/transactions" element={
                   <ProtectedRoute>
                     <Layout>
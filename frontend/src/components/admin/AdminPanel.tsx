@@ -20,7 +20,8 @@ import {
   Assignment as LogIcon,
   Analytics as AnalyticsIcon,
   Message as MessageIcon,
-  Schedule as ScheduleIcon
+  Schedule as ScheduleIcon,
+  PriorityHigh as PriorityIcon
 } from '@mui/icons-material';
 import UserManagement from './UserManagement';
 import DropdownManagement from './DropdownManagement';
@@ -29,6 +30,18 @@ import ActivityLogs from './ActivityLogs';
 import QueueAnalyticsDashboard from '../analytics/QueueAnalyticsDashboard';
 import EnhancedSMSManagement from '../analytics/EnhancedSMSManagement';
 import { SessionTimeoutSettingsComponent as SessionTimeoutSettings } from './SessionTimeoutSettings';
+import { PriorityPolicySettingsComponent as PriorityPolicySettings } from './PriorityPolicySettings';
+import { NoShowSettingsComponent as NoShowSettings } from './NoShowSettings';
+import { QueueHoldSettingsComponent as QueueHoldSettings } from './QueueHoldSettings';
+import { TokenFormatSettingsComponent as TokenFormatSettings } from './TokenFormatSettings';
+import { BusinessHoursSettingsComponent as BusinessHoursSettings } from './BusinessHoursSettings';
+import { AppointmentSettingsComponent as AppointmentSettings } from './AppointmentSettings';
+import { JobOrderSettingsComponent as JobOrderSettings } from './JobOrderSettings';
+import { KioskDevicesComponent as KioskDevices } from './KioskDevices';
+import { DisplayDevicesComponent as DisplayDevices } from './DisplayDevices';
+import { DisplayRemoteComponent as DisplayRemote } from './DisplayRemote';
+import { AnnouncementSettingsComponent as AnnouncementSettings } from './AnnouncementSettings';
+import { DisplayContentComponent as DisplayContent } from './DisplayContent';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -121,6 +134,12 @@ const AdminPanel: React.FC = () => {
       description: 'Configure session timeout and security settings',
       icon: <ScheduleIcon sx={{ fontSize: 40, color: 'error.main' }} />,
       color: 'error.main'
+    },
+    {
+      title: 'Queue Settings',
+      description: 'Tune queue priority, fairness and no-show handling',
+      icon: <PriorityIcon sx={{ fontSize: 40, color: 'warning.dark' }} />,
+      color: 'warning.dark'
     }
   ];
 
@@ -316,6 +335,12 @@ const AdminPanel: React.FC = () => {
               iconPosition="start"
               {...a11yProps(7)}
             />
+            <Tab
+              label={isSmallMobile ? "Queue" : "Queue Settings"}
+              icon={<PriorityIcon />}
+              iconPosition="start"
+              {...a11yProps(8)}
+            />
           </Tabs>
         </Box>
         
@@ -358,6 +383,21 @@ const AdminPanel: React.FC = () => {
         <TabPanel value={tabValue} index={7}>
           <SessionTimeoutSettings />
         </TabPanel>
+        
+        <TabPanel value={tabValue} index={8}>
+          <PriorityPolicySettings />
+          <NoShowSettings />
+          <QueueHoldSettings />
+          <TokenFormatSettings />
+          <BusinessHoursSettings />
+          <AppointmentSettings />
+          <JobOrderSettings />
+          <KioskDevices />
+          <DisplayDevices />
+          <DisplayRemote />
+          <AnnouncementSettings />
+          <DisplayContent />
+        </TabPanel>
       </Paper>
       </Box>
     </div>
@@ -0,0 +1,317 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Divider,
+  CircularProgress,
+  Snackbar,
+  Switch,
+  FormControlLabel,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Slider
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Refresh as RefreshIcon,
+  RecordVoiceOver as AnnouncementIcon,
+  PlayArrow as PreviewIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { SettingsApi, AnnouncementSettings, AnnouncementLanguage } from '../../services/settingsApi';
+import { tokenAnnouncer } from '../../utils/tokenAnnouncer';
+
+const LANGUAGE_LABELS: Record<AnnouncementLanguage, string> = {
+  en: 'English',
+  fil: 'Filipino'
+};
+
+const LANGUAGE_ORDERS: { value: string; label: string }[] = [
+  { value: 'en,fil', label: 'English, then Filipino' },
+  { value: 'fil,en', label: 'Filipino, then English' },
+  { value: 'en', label: 'English only' },
+  { value: 'fil', label: 'Filipino only' }
+];
+
+const VOICE_PREFIXES: Record<AnnouncementLanguage, string[]> = { en: ['en'], fil: ['fil', 'tl'] };
+
+export const AnnouncementSettingsComponent: React.FC = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<AnnouncementSettings>({
+    enabled: true,
+    templates: {
+      en: 'Token {token}, please proceed to {counter}.',
+      fil: 'Token {token}, pumunta po sa {counter}.'
+    },
+    voices: { en: '', fil: '' },
+    rate: 0.9,
+    repeatCount: 1,
+    languageOrder: ['en', 'fil']
+  });
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Load settings on component mount
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  // Voices load asynchronously in some browsers
+  useEffect(() => {
+    if (!tokenAnnouncer.isSupported()) return;
+
+    const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await SettingsApi.getAnnouncementSettings();
+      setSettings(data);
+    } catch (err) {
+      setError('Failed to load announcement settings');
+      console.error('Error loading announcement settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      // Validate settings
+      for (const language of Object.keys(LANGUAGE_LABELS) as AnnouncementLanguage[]) {
+        if (!settings.templates[language].includes('{token}')) {
+          setError(`The ${LANGUAGE_LABELS[language]} announcement must include {token}`);
+          return;
+        }
+      }
+
+      await SettingsApi.updateAnnouncementSettings(settings);
+      setSuccess('Announcement settings updated. Displays use them from their next refresh.');
+
+      // Reload settings to ensure consistency
+      await loadSettings();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save settings');
+      console.error('Error saving announcement settings:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreview = () => {
+    tokenAnnouncer.clear();
+    tokenAnnouncer.announce({ token: 'A015', counter: 'Counter 2' }, { ...settings, enabled: true });
+  };
+
+  const handleTemplateChange = (language: AnnouncementLanguage, value: string) => {
+    setSettings(prev => ({ ...prev, templates: { ...prev.templates, [language]: value } }));
+  };
+
+  const handleVoiceChange = (language: AnnouncementLanguage, value: string) => {
+    setSettings(prev => ({ ...prev, voices: { ...prev.voices, [language]: value } }));
+  };
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can access announcement settings.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <AnnouncementIcon color="primary" />
+              <Typography variant="h5">Token Announcements</Typography>
+            </Box>
+          }
+          subheader="What the display monitors say when a counter calls or recalls a token"
+        />
+
+        <CardContent>
+          {loading && (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {!loading && (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 3 }}>
+                  {error}
+                </Alert>
+              )}
+
+              {!tokenAnnouncer.isSupported() && (
+                <Alert severity="warning" sx={{ mb: 3 }}>
+                  This browser can't speak, so the preview won't play. Displays need a browser with speech synthesis.
+                </Alert>
+              )}
+
+              <FormControlLabel
+                sx={{ mb: 2 }}
+                control={
+                  <Switch
+                    checked={settings.enabled}
+                    onChange={(e) => setSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                  />
+                }
+                label="Announce called tokens on the display monitors"
+              />
+
+              {(Object.keys(LANGUAGE_LABELS) as AnnouncementLanguage[]).map((language) => (
+                <Box key={language} sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+                  <TextField
+                    sx={{ flex: 2, minWidth: 280 }}
+                    label={`${LANGUAGE_LABELS[language]} Announcement`}
+                    value={settings.templates[language]}
+                    onChange={(e) => handleTemplateChange(language, e.target.value)}
+                    helperText="{token} is read out character by character, {counter} is the counter name"
+                    inputProps={{ maxLength: 200 }}
+                  />
+                  <FormControl sx={{ flex: 1, minWidth: 200 }}>
+                    <InputLabel>{`${LANGUAGE_LABELS[language]} Voice`}</InputLabel>
+                    <Select
+                      value={settings.voices[language]}
+                      label={`${LANGUAGE_LABELS[language]} Voice`}
+                      onChange={(e) => handleVoiceChange(language, e.target.value)}
+                    >
+                      <MenuItem value="">Browser default</MenuItem>
+                      {/* Keep a saved voice selectable even if this browser doesn't have it */}
+                      {settings.voices[language] && !voices.some(voice => voice.name === settings.voices[language]) && (
+                        <MenuItem value={settings.voices[language]}>{settings.voices[language]}</MenuItem>
+                      )}
+                      {voices
+                        .filter(voice => VOICE_PREFIXES[language].some(prefix => voice.lang.toLowerCase().startsWith(prefix)))
+                        .map(voice => (
+                          <MenuItem key={voice.name} value={voice.name}>{`${voice.name} (${voice.lang})`}</MenuItem>
+                        ))}
+                    </Select>
+                  </FormControl>
+                </Box>
+              ))}
+
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                Voices come from the browser. The list shows this computer's voices; a display
+                without the chosen voice uses its own voice for the language.
+              </Typography>
+
+              <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'center' }}>
+                <FormControl sx={{ minWidth: 240 }}>
+                  <InputLabel>Languages</InputLabel>
+                  <Select
+                    value={settings.languageOrder.join(',')}
+                    label="Languages"
+                    onChange={(e) => setSettings(prev => ({
+                      ...prev,
+                      languageOrder: e.target.value.split(',') as AnnouncementLanguage[]
+                    }))}
+                  >
+                    {LANGUAGE_ORDERS.map(order => (
+                      <MenuItem key={order.value} value={order.value}>{order.label}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                <FormControl sx={{ minWidth: 160 }}>
+                  <InputLabel>Repeat</InputLabel>
+                  <Select
+                    value={settings.repeatCount}
+                    label="Repeat"
+                    onChange={(e) => setSettings(prev => ({ ...prev, repeatCount: Number(e.target.value) }))}
+                  >
+                    <MenuItem value={1}>Once</MenuItem>
+                    <MenuItem value={2}>Twice</MenuItem>
+                    <MenuItem value={3}>Three times</MenuItem>
+                  </Select>
+                </FormControl>
+
+                <Box sx={{ minWidth: 240 }}>
+                  <Typography variant="body2" gutterBottom>
+                    Speaking Rate: {settings.rate.toFixed(1)}x
+                  </Typography>
+                  <Slider
+                    value={settings.rate}
+                    onChange={(_, value) => setSettings(prev => ({ ...prev, rate: value as number }))}
+                    min={0.5}
+                    max={2}
+                    step={0.1}
+                  />
+                </Box>
+              </Box>
+
+              {/* Action Buttons */}
+              <Divider sx={{ my: 2 }} />
+              <Box display="flex" gap={2}>
+                <Button
+                  variant="contained"
+                  startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+                  onClick={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </Button>
+
+                <Button
+                  variant="outlined"
+                  startIcon={<PreviewIcon />}
+                  onClick={handlePreview}
+                  disabled={!tokenAnnouncer.isSupported()}
+                >
+                  Preview
+                </Button>
+
+                <Button
+                  variant="outlined"
+                  startIcon={<RefreshIcon />}
+                  onClick={loadSettings}
+                  disabled={saving}
+                >
+                  Reset
+                </Button>
+              </Box>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default AnnouncementSettingsComponent;
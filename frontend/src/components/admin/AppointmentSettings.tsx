@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Divider,
+  CircularProgress,
+  Snackbar
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Refresh as RefreshIcon,
+  EventAvailable as AppointmentIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { SettingsApi, AppointmentSettings } from '../../services/settingsApi';
+
+const LIMITS: Record<keyof AppointmentSettings, { min: number; max: number; label: string }> = {
+  slotMinutes: { min: 5, max: 240, label: 'Slot length' },
+  appointmentsPerCounter: { min: 1, max: 20, label: 'Appointments per counter' },
+  noShowGraceMinutes: { min: 0, max: 240, label: 'No-show grace period' }
+};
+
+export const AppointmentSettingsComponent: React.FC = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<AppointmentSettings>({
+    slotMinutes: 15,
+    appointmentsPerCounter: 1,
+    noShowGraceMinutes: 15
+  });
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Load settings on component mount
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await SettingsApi.getAppointmentSettings();
+      setSettings(data);
+    } catch (err) {
+      setError('Failed to load appointment settings');
+      console.error('Error loading appointment settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      // Validate settings
+      for (const key of Object.keys(LIMITS) as (keyof AppointmentSettings)[]) {
+        const { min, max, label } = LIMITS[key];
+        if (!Number.isInteger(settings[key]) || settings[key] < min || settings[key] > max) {
+          setError(`${label} must be a whole number between ${min} and ${max}`);
+          return;
+        }
+      }
+
+      await SettingsApi.updateAppointmentSettings(settings);
+      setSuccess('Appointment settings updated successfully');
+
+      // Reload settings to ensure consistency
+      await loadSettings();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save settings');
+      console.error('Error saving appointment settings:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSettingChange = (key: keyof AppointmentSettings, value: number) => {
+    setSettings(prev => ({
+      ...prev,
+      [key]: value
+    }));
+  };
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can access appointment settings.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <AppointmentIcon color="primary" />
+              <Typography variant="h5">Appointments</Typography>
+            </Box>
+          }
+          subheader="Bookable slots and when missed appointments become no-shows"
+        />
+
+        <CardContent>
+          {loading && (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {!loading && (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 3 }}>
+                  {error}
+                </Alert>
+              )}
+
+              <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                <Box sx={{ flex: 1, minWidth: 200 }}>
+                  <TextField
+                    fullWidth
+                    label="Slot Length (minutes)"
+                    type="number"
+                    value={settings.slotMinutes}
+                    onChange={(e) => handleSettingChange('slotMinutes', parseInt(e.target.value))}
+                    helperText="Slots run from opening to closing time in these steps (5-240)"
+                    inputProps={{ min: 5, max: 240 }}
+                  />
+                </Box>
+                <Box sx={{ flex: 1, minWidth: 200 }}>
+                  <TextField
+                    fullWidth
+                    label="Appointments per Counter"
+                    type="number"
+                    value={settings.appointmentsPerCounter}
+                    onChange={(e) => handleSettingChange('appointmentsPerCounter', parseInt(e.target.value))}
+                    helperText="Bookings per slot for each active counter of the service (1-20)"
+                    inputProps={{ min: 1, max: 20 }}
+                  />
+                </Box>
+                <Box sx={{ flex: 1, minWidth: 200 }}>
+                  <TextField
+                    fullWidth
+                    label="No-Show Grace Period (minutes)"
+                    type="number"
+                    value={settings.noShowGraceMinutes}
+                    onChange={(e) => handleSettingChange('noShowGraceMinutes', parseInt(e.target.value))}
+                    helperText="Appointments not checked in this long after their slot are no-shows (0-240)"
+                    inputProps={{ min: 0, max: 240 }}
+                  />
+                </Box>
+              </Box>
+
+              {/* Action Buttons */}
+              <Divider sx={{ my: 2 }} />
+              <Box display="flex" gap={2}>
+                <Button
+                  variant="contained"
+                  startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+                  onClick={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </Button>
+
+                <Button
+                  variant="outlined"
+                  startIcon={<RefreshIcon />}
+                  onClick={loadSettings}
+                  disabled={saving}
+                >
+                  Reset
+                </Button>
+              </Box>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default AppointmentSettingsComponent;
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Divider,
+  CircularProgress,
+  Snackbar,
+  Switch,
+  FormControlLabel,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Refresh as RefreshIcon,
+  Schedule as ScheduleIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { SettingsApi, BusinessHoursSettings, Weekday } from '../../services/settingsApi';
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const DEFAULT_HOURS = { open: '09:00', close: '18:00' };
+
+export const BusinessHoursSettingsComponent: React.FC = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<BusinessHoursSettings>({
+    weeklyHours: {
+      sunday: DEFAULT_HOURS,
+      monday: DEFAULT_HOURS,
+      tuesday: DEFAULT_HOURS,
+      wednesday: DEFAULT_HOURS,
+      thursday: DEFAULT_HOURS,
+      friday: DEFAULT_HOURS,
+      saturday: DEFAULT_HOURS
+    },
+    capacityCheckMode: 'warn',
+    registrationCutoffMinutes: 0
+  });
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Load settings on component mount
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await SettingsApi.getBusinessHoursSettings();
+      setSettings(data);
+    } catch (err) {
+      setError('Failed to load business hours');
+      console.error('Error loading business hours:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      // Validate settings
+      const invalidDay = WEEKDAYS.find((day) => {
+        const hours = settings.weeklyHours[day];
+        return hours !== null && (!hours.open || !hours.close || hours.open >= hours.close);
+      });
+      if (invalidDay) {
+        setError(`${invalidDay.charAt(0).toUpperCase() + invalidDay.slice(1)} must close after it opens`);
+        return;
+      }
+      if (!Number.isInteger(settings.registrationCutoffMinutes) || settings.registrationCutoffMinutes < 0 || settings.registrationCutoffMinutes > 480) {
+        setError('Registration cutoff must be a whole number of minutes between 0 and 480');
+        return;
+      }
+
+      await SettingsApi.updateBusinessHoursSettings(settings);
+      setSuccess('Business hours updated successfully');
+
+      // Reload settings to ensure consistency
+      await loadSettings();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save settings');
+      console.error('Error saving business hours:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDayToggle = (day: Weekday, open: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      weeklyHours: {
+        ...prev.weeklyHours,
+        [day]: open ? DEFAULT_HOURS : null
+      }
+    }));
+  };
+
+  const handleTimeChange = (day: Weekday, key: 'open' | 'close', value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      weeklyHours: {
+        ...prev.weeklyHours,
+        [day]: { ...(prev.weeklyHours[day] || DEFAULT_HOURS), [key]: value }
+      }
+    }));
+  };
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can access business hours.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <ScheduleIcon color="primary" />
+              <Typography variant="h5">Business Hours & Registration Cutoff</Typography>
+            </Box>
+          }
+          subheader="Stop taking walk-ins the shop can't serve before closing"
+        />
+
+        <CardContent>
+          {loading && (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {!loading && (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 3 }}>
+                  {error}
+                </Alert>
+              )}
+
+              {WEEKDAYS.map((day) => {
+                const hours = settings.weeklyHours[day];
+                return (
+                  <Box key={day} sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+                    <FormControlLabel
+                      sx={{ minWidth: 180, textTransform: 'capitalize' }}
+                      control={
+                        <Switch
+                          checked={hours !== null}
+                          onChange={(e) => handleDayToggle(day, e.target.checked)}
+                        />
+                      }
+                      label={hours !== null ? day : `${day} (closed)`}
+                    />
+                    <TextField
+                      label="Opens"
+                      type="time"
+                      size="small"
+                      value={hours?.open || ''}
+                      onChange={(e) => handleTimeChange(day, 'open', e.target.value)}
+                      disabled={hours === null}
+                      InputLabelProps={{ shrink: true }}
+                    />
+                    <TextField
+                      label="Closes"
+                      type="time"
+                      size="small"
+                      value={hours?.close || ''}
+                      onChange={(e) => handleTimeChange(day, 'close', e.target.value)}
+                      disabled={hours === null}
+                      InputLabelProps={{ shrink: true }}
+                    />
+                  </Box>
+                );
+              })}
+
+              <Divider sx={{ my: 2 }} />
+              <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                <Box sx={{ flex: 1, minWidth: 280 }}>
+                  <FormControl fullWidth>
+                    <InputLabel>When the queue is full</InputLabel>
+                    <Select
+                      value={settings.capacityCheckMode}
+                      label="When the queue is full"
+                      onChange={(e) => setSettings(prev => ({
+                        ...prev,
+                        capacityCheckMode: e.target.value as BusinessHoursSettings['capacityCheckMode']
+                      }))}
+                    >
+                      <MenuItem value="off">Don't check</MenuItem>
+                      <MenuItem value="warn">Warn staff but register</MenuItem>
+                      <MenuItem value="block">Refuse registration (admins can override)</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Box>
+                <Box sx={{ flex: 1, minWidth: 280 }}>
+                  <TextField
+                    fullWidth
+                    label="Registration Cutoff (minutes before closing)"
+                    type="number"
+                    value={settings.registrationCutoffMinutes}
+                    onChange={(e) => setSettings(prev => ({
+                      ...prev,
+                      registrationCutoffMinutes: parseInt(e.target.value)
+                    }))}
+                    helperText="Walk-ins are not taken after this point (0-480)"
+                    inputProps={{ min: 0, max: 480 }}
+                  />
+                </Box>
+              </Box>
+
+              {/* Action Buttons */}
+              <Divider sx={{ my: 2 }} />
+              <Box display="flex" gap={2}>
+                <Button
+                  variant="contained"
+                  startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+                  onClick={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </Button>
+
+                <Button
+                  variant="outlined"
+                  startIcon={<RefreshIcon />}
+                  onClick={loadSettings}
+                  disabled={saving}
+                >
+                  Reset
+                </Button>
+              </Box>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default BusinessHoursSettingsComponent;
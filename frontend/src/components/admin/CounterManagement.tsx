@@ -20,7 +20,11 @@ import {
   IconButton,
   Chip,
   Alert,
-  Snackbar
+  Snackbar,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
+  FormHelperText
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -29,11 +33,14 @@ import {
   Store as CounterIcon
 } from '@mui/icons-material';
 import { authenticatedApiRequest, parseApiResponse } from '../../utils/api';
+import { ServiceType } from '../../types';
+import { SERVICE_TYPES, getServiceTypeLabel } from '../../utils/serviceTypes';
 
 interface Counter {
   id: number;
   name: string;
   is_active: boolean;
+  service_types: ServiceType[];
   created_at: string;
   updated_at: string;
 }
@@ -43,6 +50,7 @@ const CounterManagement: React.FC = () => {
   const [openDialog, setOpenDialog] = useState(false);
   const [editingCounter, setEditingCounter] = useState<Counter | null>(null);
   const [counterName, setCounterName] = useState('');
+  const [serviceTypes, setServiceTypes] = useState<ServiceType[]>(SERVICE_TYPES);
   const [successMessage, setSuccessMessage] = useState('');
   const [errorMessage, setErrorMessage] = useState('');
   const [loading, setLoading] = useState(true);
@@ -70,9 +78,11 @@ const CounterManagement: React.FC = () => {
     if (counter) {
       setEditingCounter(counter);
       setCounterName(counter.name);
+      setServiceTypes(counter.service_types || SERVICE_TYPES);
     } else {
       setEditingCounter(null);
       setCounterName('');
+      setServiceTypes(SERVICE_TYPES);
     }
     setOpenDialog(true);
   };
@@ -81,6 +91,13 @@ const CounterManagement: React.FC = () => {
     setOpenDialog(false);
     setEditingCounter(null);
     setCounterName('');
+    setServiceTypes(SERVICE_TYPES);
+  };
+
+  const handleToggleServiceType = (type: ServiceType) => {
+    setServiceTypes((prev) =>
+      prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]
+    );
   };
 
   const handleSaveCounter = async () => {
@@ -89,6 +106,11 @@ const CounterManagement: React.FC = () => {
       return;
     }
 
+    if (serviceTypes.length === 0) {
+      setErrorMessage('Select at least one service type');
+      return;
+    }
+
     try {
       const method = editingCounter ? 'PUT' : 'POST';
       const url = editingCounter 
@@ -100,7 +122,8 @@ const CounterManagement: React.FC = () => {
         body: JSON.stringify({
           name: counterName.trim(),
           displayOrder: 0,
-          isActive: true
+          isActive: true,
+          serviceTypes
         })
       });
       await parseApiResponse(response);
@@ -187,6 +210,7 @@ const CounterManagement: React.FC = () => {
               <TableHead>
                 <TableRow>
                   <TableCell>Counter Name</TableCell>
+                  <TableCell>Service Types</TableCell>
                   <TableCell>Status</TableCell>
                   <TableCell>Created</TableCell>
                   <TableCell>Last Updated</TableCell>
@@ -204,6 +228,13 @@ const CounterManagement: React.FC = () => {
                         </Typography>
                       </Box>
                     </TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                        {(counter.service_types || []).map((type) => (
+                          <Chip key={type} label={getServiceTypeLabel(type)} size="small" variant="outlined" />
+                        ))}
+                      </Box>
+                    </TableCell>
                     <TableCell>
                       <Chip
                         label={counter.is_active ? 'Active' : 'Inactive'}
@@ -273,6 +304,26 @@ const CounterManagement: React.FC = () => {
             placeholder="e.g., Counter 1, JA, Reception"
             helperText="Enter a name for this service counter"
           />
+          <Typography variant="subtitle2" sx={{ mt: 2 }}>
+            Service Types
+          </Typography>
+          <FormGroup row>
+            {SERVICE_TYPES.map((type) => (
+              <FormControlLabel
+                key={type}
+                control={
+                  <Checkbox
+                    checked={serviceTypes.includes(type)}
+                    onChange={() => handleToggleServiceType(type)}
+                  />
+                }
+                label={getServiceTypeLabel(type)}
+              />
+            ))}
+          </FormGroup>
+          <FormHelperText>
+            Call Next at this counter only picks customers queued for these services
+          </FormHelperText>
         </DialogContent>
         <DialogActions>
           <Button onClick={handleCloseDialog}>Cancel</Button>
@@ -0,0 +1,587 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  IconButton,
+  Typography,
+  Alert,
+  Chip,
+  CircularProgress,
+  Snackbar,
+  Switch,
+  FormControlLabel,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Tooltip
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  ArrowUpward as UpIcon,
+  ArrowDownward as DownIcon,
+  Slideshow as ContentIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { DisplayApi, PlaylistInput, SlideInput } from '../../services/displayApi';
+import { DisplayGroup, DisplayPlaylist, DisplaySlide, DisplaySlideType } from '../../types';
+import { apiUrl } from '../../utils/api';
+
+const SLIDE_TYPE_LABELS: Record<DisplaySlideType, string> = {
+  image: 'Image',
+  text: 'Text',
+  promo: 'Promo'
+};
+
+const EMPTY_PLAYLIST: PlaylistInput = {
+  name: '',
+  is_active: true,
+  starts_on: null,
+  ends_on: null,
+  slide_seconds: 10,
+  group_ids: []
+};
+
+const EMPTY_SLIDE: SlideInput = {
+  type: 'promo',
+  title: null,
+  body: null,
+  display_seconds: null,
+  starts_at: null,
+  ends_at: null
+};
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso: string | null): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string): string | null => (value ? new Date(value).toISOString() : null);
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const DisplayContentComponent: React.FC = () => {
+  const { user } = useAuth();
+  const [playlists, setPlaylists] = useState<DisplayPlaylist[]>([]);
+  const [groups, setGroups] = useState<DisplayGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Playlist dialog: editingPlaylistId is null when creating
+  const [playlistDialogOpen, setPlaylistDialogOpen] = useState(false);
+  const [editingPlaylistId, setEditingPlaylistId] = useState<number | null>(null);
+  const [playlistForm, setPlaylistForm] = useState<PlaylistInput>(EMPTY_PLAYLIST);
+
+  // Slide dialog: a new slide goes to slidePlaylistId, an edited one keeps its playlist
+  const [slideDialogOpen, setSlideDialogOpen] = useState(false);
+  const [slidePlaylistId, setSlidePlaylistId] = useState<number | null>(null);
+  const [editingSlide, setEditingSlide] = useState<DisplaySlide | null>(null);
+  const [slideForm, setSlideForm] = useState<SlideInput>(EMPTY_SLIDE);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+
+  // Load playlists and groups on component mount
+  useEffect(() => {
+    loadPlaylists();
+    loadGroups();
+  }, []);
+
+  const loadPlaylists = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setPlaylists(await DisplayApi.getPlaylists());
+    } catch (err) {
+      setError('Failed to load display content');
+      console.error('Error loading playlists:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadGroups = async () => {
+    try {
+      setGroups(await DisplayApi.getGroups());
+    } catch (err) {
+      console.error('Error loading display groups:', err);
+    }
+  };
+
+  const openPlaylistDialog = (playlist?: DisplayPlaylist) => {
+    setEditingPlaylistId(playlist ? playlist.id : null);
+    setPlaylistForm(playlist
+      ? {
+          name: playlist.name,
+          is_active: playlist.is_active,
+          starts_on: playlist.starts_on,
+          ends_on: playlist.ends_on,
+          slide_seconds: playlist.slide_seconds,
+          group_ids: playlist.group_ids
+        }
+      : EMPTY_PLAYLIST);
+    setPlaylistDialogOpen(true);
+  };
+
+  const handleSavePlaylist = async () => {
+    if (!playlistForm.name.trim()) {
+      setError('Playlist name is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingPlaylistId) {
+        await DisplayApi.updatePlaylist(editingPlaylistId, playlistForm);
+      } else {
+        await DisplayApi.createPlaylist(playlistForm);
+      }
+      setSuccess(`Playlist "${playlistForm.name.trim()}" saved`);
+      setPlaylistDialogOpen(false);
+      await loadPlaylists();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save playlist');
+      console.error('Error saving playlist:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePlaylist = async (playlist: DisplayPlaylist) => {
+    if (!window.confirm(`Delete "${playlist.name}" and its ${playlist.slides.length} slide(s)?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await DisplayApi.deletePlaylist(playlist.id);
+      setSuccess(`Playlist "${playlist.name}" deleted`);
+      await loadPlaylists();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to delete playlist');
+      console.error('Error deleting playlist:', err);
+    }
+  };
+
+  const openSlideDialog = (playlistId: number, slide?: DisplaySlide) => {
+    setSlidePlaylistId(playlistId);
+    setEditingSlide(slide || null);
+    setSlideForm(slide
+      ? {
+          type: slide.type,
+          title: slide.title,
+          body: slide.body,
+          display_seconds: slide.display_seconds,
+          starts_at: slide.starts_at,
+          ends_at: slide.ends_at
+        }
+      : EMPTY_SLIDE);
+    setImagePreview(slide?.image_url ? apiUrl(slide.image_url) : null);
+    setSlideDialogOpen(true);
+  };
+
+  const handleImageChange = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const image = await readAsDataUrl(file);
+      setSlideForm(prev => ({ ...prev, image }));
+      setImagePreview(image);
+    } catch (err) {
+      setError('Failed to read the image');
+      console.error('Error reading slide image:', err);
+    }
+  };
+
+  const handleSaveSlide = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingSlide) {
+        await DisplayApi.updateSlide(editingSlide.id, slideForm);
+      } else if (slidePlaylistId) {
+        await DisplayApi.addSlide(slidePlaylistId, slideForm);
+      }
+      setSuccess('Slide saved. Displays show it right away.');
+      setSlideDialogOpen(false);
+      await loadPlaylists();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save slide');
+      console.error('Error saving slide:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSlide = async (slide: DisplaySlide) => {
+    if (!window.confirm('Delete this slide?')) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await DisplayApi.deleteSlide(slide.id);
+      await loadPlaylists();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to delete slide');
+      console.error('Error deleting slide:', err);
+    }
+  };
+
+  const handleMoveSlide = async (playlist: DisplayPlaylist, index: number, offset: number) => {
+    const slideIds = playlist.slides.map(slide => slide.id);
+    [slideIds[index], slideIds[index + offset]] = [slideIds[index + offset], slideIds[index]];
+
+    try {
+      setError(null);
+      const slides = await DisplayApi.reorderSlides(playlist.id, slideIds);
+      setPlaylists(prev => prev.map(p => (p.id === playlist.id ? { ...p, slides } : p)));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to reorder slides');
+      console.error('Error reordering slides:', err);
+    }
+  };
+
+  const describeSchedule = (playlist: DisplayPlaylist): string => {
+    if (!playlist.starts_on && !playlist.ends_on) return 'Always';
+    if (!playlist.ends_on) return `From ${playlist.starts_on}`;
+    if (!playlist.starts_on) return `Until ${playlist.ends_on}`;
+    return `${playlist.starts_on} to ${playlist.ends_on}`;
+  };
+
+  const describeSlide = (slide: DisplaySlide): string =>
+    slide.title || slide.body || (slide.image_url ? 'Image' : 'Untitled');
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can manage display content.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <ContentIcon color="primary" />
+              <Typography variant="h5">Display Content</Typography>
+            </Box>
+          }
+          subheader="Promos and announcements played beside the queue on the display monitors"
+          action={
+            <Button variant="contained" startIcon={<AddIcon />} onClick={() => openPlaylistDialog()}>
+              New Playlist
+            </Button>
+          }
+        />
+
+        <CardContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {loading ? (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          ) : playlists.length === 0 ? (
+            <Typography color="text.secondary">No playlists yet. Displays show only the queue.</Typography>
+          ) : (
+            playlists.map(playlist => (
+              <Paper key={playlist.id} variant="outlined" sx={{ p: 2, mb: 2 }}>
+                <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+                  <Typography variant="h6" sx={{ mr: 1 }}>{playlist.name}</Typography>
+                  <Chip size="small" label={playlist.is_active ? 'Active' : 'Paused'} color={playlist.is_active ? 'success' : 'default'} />
+                  <Chip size="small" variant="outlined" label={describeSchedule(playlist)} />
+                  <Chip size="small" variant="outlined" label={`${playlist.slide_seconds}s per slide`} />
+                  {playlist.group_ids.length === 0 ? (
+                    <Chip size="small" variant="outlined" label="All displays" />
+                  ) : (
+                    playlist.group_ids.map(groupId => (
+                      <Chip
+                        key={groupId}
+                        size="small"
+                        variant="outlined"
+                        color="primary"
+                        label={groups.find(group => group.id === groupId)?.name || `Group ${groupId}`}
+                      />
+                    ))
+                  )}
+                  <Box flex={1} />
+                  <Button size="small" startIcon={<AddIcon />} onClick={() => openSlideDialog(playlist.id)}>
+                    Add Slide
+                  </Button>
+                  <IconButton size="small" onClick={() => openPlaylistDialog(playlist)}>
+                    <EditIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton size="small" color="error" onClick={() => handleDeletePlaylist(playlist)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+
+                {playlist.slides.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    No slides yet.
+                  </Typography>
+                ) : (
+                  <List dense>
+                    {playlist.slides.map((slide, index) => (
+                      <ListItem
+                        key={slide.id}
+                        divider={index < playlist.slides.length - 1}
+                        secondaryAction={
+                          <Box>
+                            <IconButton size="small" disabled={index === 0} onClick={() => handleMoveSlide(playlist, index, -1)}>
+                              <UpIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              disabled={index === playlist.slides.length - 1}
+                              onClick={() => handleMoveSlide(playlist, index, 1)}
+                            >
+                              <DownIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton size="small" onClick={() => openSlideDialog(playlist.id, slide)}>
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton size="small" color="error" onClick={() => handleDeleteSlide(slide)}>
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </Box>
+                        }
+                      >
+                        {slide.image_url && (
+                          <Box
+                            component="img"
+                            src={apiUrl(slide.image_url)}
+                            alt=""
+                            sx={{ width: 64, height: 40, objectFit: 'cover', borderRadius: 0.5, mr: 2 }}
+                          />
+                        )}
+                        <ListItemText
+                          primary={describeSlide(slide)}
+                          secondary={[
+                            SLIDE_TYPE_LABELS[slide.type],
+                            `${slide.display_seconds || playlist.slide_seconds}s`,
+                            slide.starts_at && `from ${new Date(slide.starts_at).toLocaleString()}`,
+                            slide.ends_at && `until ${new Date(slide.ends_at).toLocaleString()}`
+                          ].filter(Boolean).join(' · ')}
+                          primaryTypographyProps={{ noWrap: true, sx: { maxWidth: 480 } }}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                )}
+              </Paper>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Playlist Dialog */}
+      <Dialog open={playlistDialogOpen} onClose={() => setPlaylistDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingPlaylistId ? 'Edit Playlist' : 'New Playlist'}</DialogTitle>
+        <DialogContent>
+          <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <TextField
+              label="Name"
+              value={playlistForm.name}
+              onChange={(e) => setPlaylistForm(prev => ({ ...prev, name: e.target.value }))}
+              inputProps={{ maxLength: 100 }}
+              autoFocus
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={playlistForm.is_active}
+                  onChange={(e) => setPlaylistForm(prev => ({ ...prev, is_active: e.target.checked }))}
+                />
+              }
+              label="Active"
+            />
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Starts On"
+                type="date"
+                value={playlistForm.starts_on || ''}
+                onChange={(e) => setPlaylistForm(prev => ({ ...prev, starts_on: e.target.value || null }))}
+                InputLabelProps={{ shrink: true }}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Ends On"
+                type="date"
+                value={playlistForm.ends_on || ''}
+                onChange={(e) => setPlaylistForm(prev => ({ ...prev, ends_on: e.target.value || null }))}
+                InputLabelProps={{ shrink: true }}
+                helperText="Leave empty to run without an end"
+                sx={{ flex: 1 }}
+              />
+            </Box>
+            <TextField
+              label="Seconds per Slide"
+              type="number"
+              value={playlistForm.slide_seconds}
+              onChange={(e) => setPlaylistForm(prev => ({ ...prev, slide_seconds: parseInt(e.target.value, 10) || 10 }))}
+              inputProps={{ min: 3, max: 300 }}
+            />
+            <FormControl>
+              <InputLabel>Display Groups</InputLabel>
+              <Select
+                multiple
+                value={playlistForm.group_ids}
+                label="Display Groups"
+                onChange={(e) => setPlaylistForm(prev => ({ ...prev, group_ids: e.target.value as number[] }))}
+                renderValue={(selected) => (selected as number[])
+                  .map(id => groups.find(group => group.id === id)?.name || `Group ${id}`)
+                  .join(', ')}
+              >
+                {groups.map(group => (
+                  <MenuItem key={group.id} value={group.id}>{group.name}</MenuItem>
+                ))}
+              </Select>
+              <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, ml: 1.5 }}>
+                Leave empty to play on every display. Groups are managed under Display Monitors.
+              </Typography>
+            </FormControl>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPlaylistDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSavePlaylist} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Slide Dialog */}
+      <Dialog open={slideDialogOpen} onClose={() => setSlideDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingSlide ? 'Edit Slide' : 'New Slide'}</DialogTitle>
+        <DialogContent>
+          <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <FormControl>
+              <InputLabel>Type</InputLabel>
+              <Select
+                value={slideForm.type}
+                label="Type"
+                onChange={(e) => setSlideForm(prev => ({ ...prev, type: e.target.value as DisplaySlideType }))}
+              >
+                {(Object.keys(SLIDE_TYPE_LABELS) as DisplaySlideType[]).map(type => (
+                  <MenuItem key={type} value={type}>{SLIDE_TYPE_LABELS[type]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              label="Title"
+              value={slideForm.title || ''}
+              onChange={(e) => setSlideForm(prev => ({ ...prev, title: e.target.value || null }))}
+              inputProps={{ maxLength: 100 }}
+              required={slideForm.type === 'promo'}
+            />
+            <TextField
+              label="Text"
+              value={slideForm.body || ''}
+              onChange={(e) => setSlideForm(prev => ({ ...prev, body: e.target.value || null }))}
+              inputProps={{ maxLength: 500 }}
+              required={slideForm.type === 'text'}
+              multiline
+              minRows={2}
+            />
+            <Box display="flex" alignItems="center" gap={2}>
+              <Button variant="outlined" component="label">
+                {imagePreview ? 'Change Image' : 'Choose Image'}
+                <input
+                  hidden
+                  type="file"
+                  accept="image/png,image/jpeg,image/gif,image/webp"
+                  onChange={(e) => handleImageChange(e.target.files?.[0])}
+                />
+              </Button>
+              {imagePreview && (
+                <Box component="img" src={imagePreview} alt="" sx={{ maxWidth: 160, maxHeight: 90, objectFit: 'contain' }} />
+              )}
+            </Box>
+            <Tooltip title="Leave empty to use the playlist's time per slide">
+              <TextField
+                label="Seconds on Screen"
+                type="number"
+                value={slideForm.display_seconds ?? ''}
+                onChange={(e) => setSlideForm(prev => ({
+                  ...prev,
+                  display_seconds: e.target.value ? parseInt(e.target.value, 10) : null
+                }))}
+                inputProps={{ min: 3, max: 300 }}
+              />
+            </Tooltip>
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Show From"
+                type="datetime-local"
+                value={toLocalInput(slideForm.starts_at)}
+                onChange={(e) => setSlideForm(prev => ({ ...prev, starts_at: fromLocalInput(e.target.value) }))}
+                InputLabelProps={{ shrink: true }}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                label="Show Until"
+                type="datetime-local"
+                value={toLocalInput(slideForm.ends_at)}
+                onChange={(e) => setSlideForm(prev => ({ ...prev, ends_at: fromLocalInput(e.target.value) }))}
+                InputLabelProps={{ shrink: true }}
+                sx={{ flex: 1 }}
+              />
+            </Box>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSlideDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveSlide} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default DisplayContentComponent;
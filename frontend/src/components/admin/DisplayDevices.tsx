@@ -0,0 +1,477 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Chip,
+  CircularProgress,
+  Snackbar,
+  Switch,
+  FormControlLabel,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Select,
+  MenuItem,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  IconButton
+} from '@mui/material';
+import {
+  Link as PairIcon,
+  Block as RevokeIcon,
+  Tv as DisplayIcon,
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { DisplayApi, DisplayGroupInput } from '../../services/displayApi';
+import { SettingsApi } from '../../services/settingsApi';
+import { DisplayDevice, DisplayGroup, ServiceType } from '../../types';
+import { authenticatedApiRequest, parseApiResponse } from '../../utils/api';
+import { SERVICE_TYPES, getServiceTypeLabel } from '../../utils/serviceTypes';
+
+const EMPTY_GROUP: DisplayGroupInput = { name: '', counter_ids: [], service_types: [] };
+
+export const DisplayDevicesComponent: React.FC = () => {
+  const { user } = useAuth();
+  const [devices, setDevices] = useState<DisplayDevice[]>([]);
+  const [groups, setGroups] = useState<DisplayGroup[]>([]);
+  const [counters, setCounters] = useState<{ id: number; name: string }[]>([]);
+  // Group dialog: editingGroupId is null when creating
+  const [groupDialogOpen, setGroupDialogOpen] = useState(false);
+  const [editingGroupId, setEditingGroupId] = useState<number | null>(null);
+  const [groupForm, setGroupForm] = useState<DisplayGroupInput>(EMPTY_GROUP);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [allowUnpaired, setAllowUnpaired] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Load devices and access settings on component mount
+  useEffect(() => {
+    loadDevices();
+    loadGroups();
+    loadCounters();
+    loadSettings();
+  }, []);
+
+  const loadDevices = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setDevices(await DisplayApi.getDevices());
+    } catch (err) {
+      setError('Failed to load display monitors');
+      console.error('Error loading display devices:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadGroups = async () => {
+    try {
+      setGroups(await DisplayApi.getGroups());
+    } catch (err) {
+      console.error('Error loading display groups:', err);
+    }
+  };
+
+  const loadCounters = async () => {
+    try {
+      const response = await authenticatedApiRequest('/admin/counters', { method: 'GET' });
+      setCounters(await parseApiResponse<{ id: number; name: string }[]>(response));
+    } catch (err) {
+      console.error('Error loading counters:', err);
+    }
+  };
+
+  const loadSettings = async () => {
+    try {
+      const settings = await SettingsApi.getDisplayAccessSettings();
+      setAllowUnpaired(settings.allowUnpaired);
+    } catch (err) {
+      console.error('Error loading display access settings:', err);
+    }
+  };
+
+  const handlePair = async () => {
+    if (!code.trim() || !name.trim()) {
+      setError('Pairing code and display name are required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const device = await DisplayApi.pairDevice(code.trim(), name.trim());
+      setSuccess(`${device.name} paired. It will show the queue in a few seconds.`);
+      setCode('');
+      setName('');
+      await loadDevices();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to pair display');
+      console.error('Error pairing display device:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (device: DisplayDevice) => {
+    if (!window.confirm(`Revoke "${device.name}"? The display will go back to its pairing screen.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await DisplayApi.revokeDevice(device.id);
+      setSuccess(`${device.name} revoked`);
+      await loadDevices();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to revoke display');
+      console.error('Error revoking display device:', err);
+    }
+  };
+
+  const handleGroupChange = async (device: DisplayDevice, groupId: number | null) => {
+    try {
+      setError(null);
+      const updated = await DisplayApi.setDeviceGroup(device.id, groupId);
+      setDevices(prev => prev.map(d => (d.id === updated.id ? updated : d)));
+      await loadGroups();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to change display group');
+      console.error('Error setting display device group:', err);
+    }
+  };
+
+  const openGroupDialog = (group?: DisplayGroup) => {
+    setEditingGroupId(group ? group.id : null);
+    setGroupForm(group
+      ? { name: group.name, counter_ids: group.counter_ids, service_types: group.service_types }
+      : EMPTY_GROUP);
+    setGroupDialogOpen(true);
+  };
+
+  const handleSaveGroup = async () => {
+    if (!groupForm.name.trim()) {
+      setError('Group name is required');
+      return;
+    }
+
+    try {
+      setError(null);
+      const data = { ...groupForm, name: groupForm.name.trim() };
+      const group = editingGroupId
+        ? await DisplayApi.updateGroup(editingGroupId, data)
+        : await DisplayApi.createGroup(data);
+      setSuccess(`Group "${group.name}" saved. Its displays pick up the change within a few seconds.`);
+      setGroupDialogOpen(false);
+      await Promise.all([loadGroups(), loadDevices()]);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save group');
+      console.error('Error saving display group:', err);
+    }
+  };
+
+  const describeCounters = (group: DisplayGroup): string =>
+    group.counter_ids.length === 0
+      ? 'All counters'
+      : group.counter_ids.map(id => counters.find(counter => counter.id === id)?.name || `Counter ${id}`).join(', ');
+
+  const describeServiceTypes = (group: DisplayGroup): string =>
+    group.service_types.length === 0 ? 'All services' : group.service_types.map(getServiceTypeLabel).join(', ');
+
+  const handleDeleteGroup = async (group: DisplayGroup) => {
+    if (!window.confirm(`Delete the group "${group.name}"? Its displays stay paired and show content meant for every display.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await DisplayApi.deleteGroup(group.id);
+      setSuccess(`Group "${group.name}" deleted`);
+      await Promise.all([loadGroups(), loadDevices()]);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to delete group');
+      console.error('Error deleting display group:', err);
+    }
+  };
+
+  const handleAllowUnpairedChange = async (allow: boolean) => {
+    try {
+      setError(null);
+      const settings = await SettingsApi.updateDisplayAccessSettings({ allowUnpaired: allow });
+      setAllowUnpaired(settings.allowUnpaired);
+      setSuccess(allow ? 'Unpaired displays can show the queue' : 'Only paired displays can show the queue');
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to update display access');
+      console.error('Error updating display access settings:', err);
+    }
+  };
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can manage display monitors.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <DisplayIcon color="primary" />
+              <Typography variant="h5">Display Monitors</Typography>
+            </Box>
+          }
+          subheader={`Open ${window.location.origin}/display-standalone on the TV and enter the code it shows.`}
+        />
+
+        <CardContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <FormControlLabel
+            sx={{ mb: 2 }}
+            control={
+              <Switch
+                checked={allowUnpaired}
+                onChange={(e) => handleAllowUnpairedChange(e.target.checked)}
+              />
+            }
+            label="Allow unpaired displays to show the queue"
+          />
+
+          <Box display="flex" gap={2} mb={3}>
+            <TextField
+              size="small"
+              label="Pairing Code"
+              placeholder="e.g. K7M4PX"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              inputProps={{ maxLength: 6, style: { fontFamily: 'monospace', letterSpacing: '0.2em' } }}
+              sx={{ width: 180 }}
+            />
+            <TextField
+              size="small"
+              label="Display Name"
+              placeholder="e.g. Waiting area TV"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              inputProps={{ maxLength: 100 }}
+              sx={{ flex: 1 }}
+            />
+            <Button
+              variant="contained"
+              startIcon={saving ? <CircularProgress size={20} /> : <PairIcon />}
+              onClick={handlePair}
+              disabled={saving}
+            >
+              Pair Display
+            </Button>
+          </Box>
+
+          {loading ? (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          ) : devices.length === 0 ? (
+            <Typography color="text.secondary">No paired displays yet.</Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Group</TableCell>
+                  <TableCell>Last Seen</TableCell>
+                  <TableCell>Paired</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {devices.map((device) => (
+                  <TableRow key={device.id}>
+                    <TableCell>{device.name}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={!device.is_active ? 'Revoked' : device.is_claimed ? 'Active' : 'Connecting'}
+                        color={!device.is_active ? 'default' : device.is_claimed ? 'success' : 'warning'}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        value={device.group_id ? String(device.group_id) : ''}
+                        displayEmpty
+                        disabled={!device.is_active}
+                        onChange={(e) => handleGroupChange(device, e.target.value ? Number(e.target.value) : null)}
+                        sx={{ minWidth: 160 }}
+                      >
+                        <MenuItem value="">No group</MenuItem>
+                        {groups.map(group => (
+                          <MenuItem key={group.id} value={String(group.id)}>{group.name}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>{device.last_seen_at ? new Date(device.last_seen_at).toLocaleString() : 'Never'}</TableCell>
+                    <TableCell>
+                      {new Date(device.paired_at).toLocaleDateString()}
+                      {device.paired_by_name && ` by ${device.paired_by_name}`}
+                    </TableCell>
+                    <TableCell align="right">
+                      {device.is_active && (
+                        <Button size="small" color="error" startIcon={<RevokeIcon />} onClick={() => handleRevoke(device)}>
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {/* Groups decide which counters, line and content playlists a display shows */}
+          <Divider sx={{ my: 3 }} />
+          <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+            <Typography variant="h6">Display Groups</Typography>
+            <Button variant="outlined" startIcon={<AddIcon />} onClick={() => openGroupDialog()}>
+              Add Group
+            </Button>
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Displays in a group show and announce only the group's counters, list only its services'
+            waiting line, and play content playlists meant for the group.
+          </Typography>
+
+          {groups.length === 0 ? (
+            <Typography color="text.secondary">No groups yet. Every display shows everything.</Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Counters</TableCell>
+                  <TableCell>Waiting Line</TableCell>
+                  <TableCell>Displays</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {groups.map((group) => (
+                  <TableRow key={group.id}>
+                    <TableCell>{group.name}</TableCell>
+                    <TableCell>{describeCounters(group)}</TableCell>
+                    <TableCell>{describeServiceTypes(group)}</TableCell>
+                    <TableCell>{group.device_count}</TableCell>
+                    <TableCell align="right">
+                      <IconButton size="small" onClick={() => openGroupDialog(group)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" color="error" onClick={() => handleDeleteGroup(group)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Group Dialog */}
+      <Dialog open={groupDialogOpen} onClose={() => setGroupDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingGroupId ? 'Edit Group' : 'New Group'}</DialogTitle>
+        <DialogContent>
+          <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <TextField
+              label="Name"
+              placeholder="e.g. Second floor"
+              value={groupForm.name}
+              onChange={(e) => setGroupForm(prev => ({ ...prev, name: e.target.value }))}
+              inputProps={{ maxLength: 100 }}
+              autoFocus
+            />
+            <FormControl>
+              <InputLabel>Counters</InputLabel>
+              <Select
+                multiple
+                value={groupForm.counter_ids}
+                label="Counters"
+                onChange={(e) => setGroupForm(prev => ({ ...prev, counter_ids: e.target.value as number[] }))}
+                renderValue={(ids) => counters.filter(counter => (ids as number[]).includes(counter.id)).map(counter => counter.name).join(', ')}
+              >
+                {counters.map(counter => (
+                  <MenuItem key={counter.id} value={counter.id}>{counter.name}</MenuItem>
+                ))}
+              </Select>
+              <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, ml: 1.5 }}>
+                Leave empty to show every counter
+              </Typography>
+            </FormControl>
+            <FormControl>
+              <InputLabel>Waiting Line Services</InputLabel>
+              <Select
+                multiple
+                value={groupForm.service_types}
+                label="Waiting Line Services"
+                onChange={(e) => setGroupForm(prev => ({ ...prev, service_types: e.target.value as ServiceType[] }))}
+                renderValue={(types) => (types as ServiceType[]).map(getServiceTypeLabel).join(', ')}
+              >
+                {SERVICE_TYPES.map(type => (
+                  <MenuItem key={type} value={type}>{getServiceTypeLabel(type)}</MenuItem>
+                ))}
+              </Select>
+              <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, ml: 1.5 }}>
+                Leave empty to list every waiting customer
+              </Typography>
+            </FormControl>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setGroupDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveGroup}>Save</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default DisplayDevicesComponent;
@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Chip,
+  Checkbox,
+  CircularProgress,
+  Snackbar,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  OutlinedInput,
+  Slider,
+  Tooltip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import {
+  Refresh as ReloadIcon,
+  SettingsRemote as RemoteIcon,
+  Send as SendIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { useSocket } from '../../contexts/SocketContext';
+import { DisplayApi } from '../../services/displayApi';
+import { authenticatedApiRequest, parseApiResponse } from '../../utils/api';
+import { ConnectedDisplay, DisplayCommand, DisplayLayout } from '../../types';
+
+const LAYOUT_LABELS: Record<DisplayLayout, string> = {
+  full: 'Full',
+  counters_only: 'Counters only',
+  queue_only: 'Queue only',
+  single_counter: 'Single counter'
+};
+
+// Health is reported every 30 seconds; a display that missed two reports is shown as stale
+const STALE_HEALTH_MS = 75000;
+
+const formatUptime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '-';
+
+export const DisplayRemoteComponent: React.FC = () => {
+  const { user } = useAuth();
+  const { socket } = useSocket();
+  const [displays, setDisplays] = useState<ConnectedDisplay[]>([]);
+  const [counters, setCounters] = useState<{ id: number; name: string }[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [layout, setLayout] = useState<DisplayLayout>('full');
+  const [counterIds, setCounterIds] = useState<number[]>([]);
+  const [volume, setVolume] = useState(100);
+  const [message, setMessage] = useState('');
+  const [messageMinutes, setMessageMinutes] = useState(5);
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadDisplays = useCallback(async () => {
+    try {
+      setDisplays(await DisplayApi.getConnectedDisplays());
+    } catch (err) {
+      setError('Failed to load connected displays');
+      console.error('Error loading connected displays:', err);
+    }
+  }, []);
+
+  // Load displays and counters on component mount
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      await loadDisplays();
+      setLoading(false);
+    };
+    load();
+    loadCounters();
+  }, [loadDisplays]);
+
+  // Displays connecting, acknowledging commands and reporting health
+  useEffect(() => {
+    if (!socket) return;
+
+    socket.on('display:status', loadDisplays);
+    return () => {
+      socket.off('display:status', loadDisplays);
+    };
+  }, [socket, loadDisplays]);
+
+  // Drop selections for displays that went away
+  useEffect(() => {
+    setSelected((prev) => prev.filter((id) => displays.some((display) => display.connection_id === id)));
+  }, [displays]);
+
+  const loadCounters = async () => {
+    try {
+      const response = await authenticatedApiRequest('/admin/counters', { method: 'GET' });
+      setCounters(await parseApiResponse<{ id: number; name: string }[]>(response));
+    } catch (err) {
+      console.error('Error loading counters:', err);
+    }
+  };
+
+  const sendCommand = async (command: DisplayCommand, description: string) => {
+    try {
+      setSending(true);
+      setError(null);
+      const target = selected.length > 0 ? { connection_ids: selected } : { all: true };
+      const result = await DisplayApi.sendCommand(target, command);
+      setSuccess(`${description} sent to ${result.recipients.length} display${result.recipients.length === 1 ? '' : 's'}`);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to send command');
+      console.error('Error sending display command:', err);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSendMessage = () => {
+    if (!message.trim()) {
+      setError('Enter a message to show');
+      return;
+    }
+    sendCommand(
+      { type: 'show_message', message: message.trim(), duration_seconds: messageMinutes * 60 },
+      'Message'
+    );
+  };
+
+  const toggleSelected = (connectionId: string) => {
+    setSelected((prev) =>
+      prev.includes(connectionId) ? prev.filter((id) => id !== connectionId) : [...prev, connectionId]
+    );
+  };
+
+  const renderCommandStatus = (display: ConnectedDisplay) => {
+    const command = display.last_command;
+    if (!command) return '-';
+
+    if (!command.acknowledged_at) {
+      return <Chip size="small" color="warning" label={`${command.type}: waiting`} />;
+    }
+    return (
+      <Tooltip title={command.error || `Acknowledged at ${formatTime(command.acknowledged_at)}`}>
+        <Chip size="small" color={command.ok ? 'success' : 'error'} label={`${command.type}: ${command.ok ? 'done' : 'failed'}`} />
+      </Tooltip>
+    );
+  };
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can manage display monitors.
+      </Alert>
+    );
+  }
+
+  const targetLabel = selected.length > 0 ? `${selected.length} selected` : 'all displays';
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <RemoteIcon color="primary" />
+              <Typography variant="h5">Display Remote Control</Typography>
+            </Box>
+          }
+          subheader="Commands go to the selected displays, or to all connected displays when none are selected."
+        />
+
+        <CardContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {loading ? (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          ) : displays.length === 0 ? (
+            <Typography color="text.secondary" sx={{ mb: 3 }}>No displays are connected right now.</Typography>
+          ) : (
+            <Table size="small" sx={{ mb: 3 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox" />
+                  <TableCell>Display</TableCell>
+                  <TableCell>Version</TableCell>
+                  <TableCell>Uptime</TableCell>
+                  <TableCell>Last Data</TableCell>
+                  <TableCell>Layout</TableCell>
+                  <TableCell>Volume</TableCell>
+                  <TableCell>Last Command</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {displays.map((display) => {
+                  const health = display.health;
+                  const stale = !health || Date.now() - new Date(health.reported_at).getTime() > STALE_HEALTH_MS;
+                  return (
+                    <TableRow key={display.connection_id} selected={selected.includes(display.connection_id)}>
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          checked={selected.includes(display.connection_id)}
+                          onChange={() => toggleSelected(display.connection_id)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {display.name}
+                        {display.device_id === null && (
+                          <Chip size="small" variant="outlined" label="Staff session" sx={{ ml: 1 }} />
+                        )}
+                        {stale && <Chip size="small" color="warning" label="No recent health report" sx={{ ml: 1 }} />}
+                      </TableCell>
+                      <TableCell>{health?.version || '-'}</TableCell>
+                      <TableCell>{health ? formatUptime(health.uptime_seconds) : '-'}</TableCell>
+                      <TableCell>{formatTime(health?.last_data_at || null)}</TableCell>
+                      <TableCell>
+                        {health ? LAYOUT_LABELS[health.layout] : '-'}
+                        {health?.counter_ids && ` (${health.counter_ids.length} counters)`}
+                      </TableCell>
+                      <TableCell>{health ? `${health.volume}%` : '-'}</TableCell>
+                      <TableCell>{renderCommandStatus(display)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+            Send to {targetLabel}
+          </Typography>
+
+          <Box display="flex" flexDirection="column" gap={2}>
+            <Box display="flex" gap={2} alignItems="center" flexWrap="wrap">
+              <Button
+                variant="outlined"
+                startIcon={<ReloadIcon />}
+                onClick={() => sendCommand({ type: 'reload' }, 'Reload')}
+                disabled={sending || displays.length === 0}
+              >
+                Reload
+              </Button>
+
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel>Layout</InputLabel>
+                <Select value={layout} label="Layout" onChange={(e) => setLayout(e.target.value as DisplayLayout)}>
+                  {(Object.keys(LAYOUT_LABELS) as DisplayLayout[]).map((value) => (
+                    <MenuItem key={value} value={value}>{LAYOUT_LABELS[value]}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Button
+                variant="outlined"
+                onClick={() => sendCommand({ type: 'set_layout', layout }, 'Layout')}
+                disabled={sending || displays.length === 0}
+              >
+                Set Layout
+              </Button>
+            </Box>
+
+            <Box display="flex" gap={2} alignItems="center" flexWrap="wrap">
+              <FormControl size="small" sx={{ minWidth: 320 }}>
+                <InputLabel>Counters</InputLabel>
+                <Select
+                  multiple
+                  value={counterIds}
+                  onChange={(e) => setCounterIds(e.target.value as number[])}
+                  input={<OutlinedInput label="Counters" />}
+                  renderValue={(ids) => counters.filter((counter) => ids.includes(counter.id)).map((counter) => counter.name).join(', ')}
+                >
+                  {counters.map((counter) => (
+                    <MenuItem key={counter.id} value={counter.id}>
+                      <Checkbox checked={counterIds.includes(counter.id)} size="small" />
+                      {counter.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Button
+                variant="outlined"
+                onClick={() => sendCommand({ type: 'set_counters', counter_ids: counterIds.length > 0 ? counterIds : null }, 'Counters')}
+                disabled={sending || displays.length === 0}
+              >
+                {counterIds.length > 0 ? 'Show These Counters' : 'Show All Counters'}
+              </Button>
+            </Box>
+
+            <Box display="flex" gap={2} alignItems="center" flexWrap="wrap">
+              <Typography sx={{ minWidth: 60 }}>Volume</Typography>
+              <Slider
+                value={volume}
+                onChange={(_, value) => setVolume(value as number)}
+                step={5}
+                min={0}
+                max={100}
+                valueLabelDisplay="auto"
+                sx={{ width: 240 }}
+              />
+              <Button
+                variant="outlined"
+                onClick={() => sendCommand({ type: 'set_volume', volume }, 'Volume')}
+                disabled={sending || displays.length === 0}
+              >
+                {volume === 0 ? 'Mute' : `Set Volume ${volume}%`}
+              </Button>
+            </Box>
+
+            <Box display="flex" gap={2} alignItems="center" flexWrap="wrap">
+              <TextField
+                size="small"
+                label="Message"
+                placeholder="e.g. Lunch break, counters reopen at 1:00 PM"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                inputProps={{ maxLength: 280 }}
+                sx={{ flex: 1, minWidth: 280 }}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Minutes"
+                value={messageMinutes}
+                onChange={(e) => setMessageMinutes(Math.min(60, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                inputProps={{ min: 1, max: 60 }}
+                sx={{ width: 100 }}
+              />
+              <Button
+                variant="contained"
+                startIcon={sending ? <CircularProgress size={20} /> : <SendIcon />}
+                onClick={handleSendMessage}
+                disabled={sending || displays.length === 0}
+              >
+                Show Message
+              </Button>
+            </Box>
+          </Box>
+        </CardContent>
+      </Card>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default DisplayRemoteComponent;
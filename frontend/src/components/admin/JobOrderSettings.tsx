@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Divider,
+  CircularProgress,
+  Snackbar,
+  Checkbox,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Refresh as RefreshIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ArrowUpward as UpIcon,
+  ArrowDownward as DownIcon,
+  Build as JobOrderIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { SettingsApi, JobOrderSettings, JobOrderStage } from '../../services/settingsApi';
+
+// Stored key for a new stage, from its label; existing stages keep their key
+const stageKey = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(\d)/, 's_$1').slice(0, 50);
+
+export const JobOrderSettingsComponent: React.FC = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<JobOrderSettings>({ stages: [], defaultTurnaroundDays: 3 });
+  const [savedKeys, setSavedKeys] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Load settings on component mount
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await SettingsApi.getJobOrderSettings();
+      setSettings(data);
+      setSavedKeys(data.stages.map((stage) => stage.key));
+    } catch (err) {
+      setError('Failed to load job order settings');
+      console.error('Error loading job order settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      // Validate settings
+      const keys = settings.stages.map((stage) => stage.key);
+      if (settings.stages.length < 2) {
+        setError('Add at least two stages');
+        return;
+      }
+      if (settings.stages.some((stage) => !stage.label.trim() || !stage.key)) {
+        setError('Every stage needs a label');
+        return;
+      }
+      if (new Set(keys).size !== keys.length) {
+        setError('Stage labels must be different');
+        return;
+      }
+      if (settings.stages[0].final || !settings.stages.some((stage) => stage.final)) {
+        setError('The first stage cannot be final, and at least one stage must be');
+        return;
+      }
+      if (!Number.isInteger(settings.defaultTurnaroundDays) || settings.defaultTurnaroundDays < 0 || settings.defaultTurnaroundDays > 60) {
+        setError('Default turnaround must be a whole number of days between 0 and 60');
+        return;
+      }
+
+      await SettingsApi.updateJobOrderSettings(settings);
+      setSuccess('Job order settings updated successfully');
+
+      // Reload settings to ensure consistency
+      await loadSettings();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save settings');
+      console.error('Error saving job order settings:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateStage = (index: number, changes: Partial<JobOrderStage>) => {
+    setSettings(prev => ({
+      ...prev,
+      stages: prev.stages.map((stage, i) => {
+        if (i !== index) return stage;
+        const updated = { ...stage, ...changes };
+        // A stage can't be both; ticking one clears the other
+        if (changes.ready) updated.final = false;
+        if (changes.final) updated.ready = false;
+        if (changes.label !== undefined && !savedKeys.includes(stage.key)) updated.key = stageKey(changes.label);
+        return updated;
+      })
+    }));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setSettings(prev => {
+      const stages = [...prev.stages];
+      const [stage] = stages.splice(index, 1);
+      stages.splice(index + offset, 0, stage);
+      return { ...prev, stages };
+    });
+  };
+
+  const removeStage = (index: number) => {
+    setSettings(prev => ({ ...prev, stages: prev.stages.filter((_, i) => i !== index) }));
+  };
+
+  const addStage = () => {
+    setSettings(prev => {
+      // New stages go before the final ones
+      const at = prev.stages.findIndex((stage) => stage.final);
+      const stages = [...prev.stages];
+      stages.splice(at === -1 ? stages.length : at, 0, { key: '', label: '', ready: false, final: false });
+      return { ...prev, stages };
+    });
+  };
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can access job order settings.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <JobOrderIcon color="primary" />
+              <Typography variant="h5">Job Orders</Typography>
+            </Box>
+          }
+          subheader="Stages eyewear goes through after the visit, and when it is expected"
+        />
+
+        <CardContent>
+          {loading && (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {!loading && (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 3 }}>
+                  {error}
+                </Alert>
+              )}
+
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Stage</TableCell>
+                    <TableCell align="center">
+                      <Tooltip title="Reaching this stage texts the customer that the order is ready for pickup">
+                        <span>Ready</span>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell align="center">
+                      <Tooltip title="The order has left the shop; final stages are off the board">
+                        <span>Final</span>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {settings.stages.map((stage, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          fullWidth
+                          value={stage.label}
+                          onChange={(e) => updateStage(index, { label: e.target.value })}
+                          inputProps={{ maxLength: 50, 'aria-label': 'Stage label' }}
+                          helperText={index === 0 ? 'New job orders start here' : undefined}
+                        />
+                      </TableCell>
+                      <TableCell align="center">
+                        <Checkbox checked={stage.ready} onChange={(e) => updateStage(index, { ready: e.target.checked })} />
+                      </TableCell>
+                      <TableCell align="center">
+                        <Checkbox checked={stage.final} onChange={(e) => updateStage(index, { final: e.target.checked })} />
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <IconButton size="small" onClick={() => moveStage(index, -1)} disabled={index === 0}>
+                          <UpIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton size="small" onClick={() => moveStage(index, 1)} disabled={index === settings.stages.length - 1}>
+                          <DownIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton size="small" onClick={() => removeStage(index)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Button startIcon={<AddIcon />} onClick={addStage} sx={{ mt: 1 }}>
+                Add Stage
+              </Button>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                Stages that job orders are at can't be removed. Pushing an order's expected-ready date later texts the customer the new estimate.
+              </Typography>
+
+              <Box sx={{ mt: 3, maxWidth: 300 }}>
+                <TextField
+                  fullWidth
+                  label="Default Turnaround (days)"
+                  type="number"
+                  value={settings.defaultTurnaroundDays}
+                  onChange={(e) => setSettings(prev => ({ ...prev, defaultTurnaroundDays: parseInt(e.target.value) }))}
+                  helperText="Expected-ready date of a new job order (0-60)"
+                  inputProps={{ min: 0, max: 60 }}
+                />
+              </Box>
+
+              {/* Action Buttons */}
+              <Divider sx={{ my: 2 }} />
+              <Box display="flex" gap={2}>
+                <Button
+                  variant="contained"
+                  startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+                  onClick={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </Button>
+
+                <Button
+                  variant="outlined"
+                  startIcon={<RefreshIcon />}
+                  onClick={loadSettings}
+                  disabled={saving}
+                >
+                  Reset
+                </Button>
+              </Box>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default JobOrderSettingsComponent;
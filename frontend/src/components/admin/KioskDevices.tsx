@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Chip,
+  CircularProgress,
+  Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Block as RevokeIcon,
+  TouchApp as KioskIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { KioskApi } from '../../services/kioskApi';
+import { KioskDevice } from '../../types';
+
+export const KioskDevicesComponent: React.FC = () => {
+  const { user } = useAuth();
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [name, setName] = useState('');
+  const [newKey, setNewKey] = useState<{ name: string; key: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Load devices on component mount
+  useEffect(() => {
+    loadDevices();
+  }, []);
+
+  const loadDevices = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setDevices(await KioskApi.getDevices());
+    } catch (err) {
+      setError('Failed to load kiosk devices');
+      console.error('Error loading kiosk devices:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim()) {
+      setError('Device name is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const { device, key } = await KioskApi.createDevice(name.trim());
+      setNewKey({ name: device.name, key });
+      setName('');
+      await loadDevices();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to add kiosk device');
+      console.error('Error adding kiosk device:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (device: KioskDevice) => {
+    if (!window.confirm(`Revoke "${device.name}"? The kiosk will stop working until it is set up with a new key.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await KioskApi.revokeDevice(device.id);
+      setSuccess(`${device.name} revoked`);
+      await loadDevices();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to revoke kiosk device');
+      console.error('Error revoking kiosk device:', err);
+    }
+  };
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can manage kiosk devices.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <KioskIcon color="primary" />
+              <Typography variant="h5">Kiosk Devices</Typography>
+            </Box>
+          }
+          subheader={`Self-service check-in terminals. Open ${window.location.origin}/kiosk on the device and enter its key.`}
+        />
+
+        <CardContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {newKey && (
+            <Alert severity="warning" sx={{ mb: 3 }} onClose={() => setNewKey(null)}>
+              Key for <strong>{newKey.name}</strong> — copy it now, it won't be shown again:
+              <Typography component="div" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', mt: 1 }}>
+                {newKey.key}
+              </Typography>
+            </Alert>
+          )}
+
+          <Box display="flex" gap={2} mb={3}>
+            <TextField
+              size="small"
+              label="Device Name"
+              placeholder="e.g. Lobby kiosk"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              inputProps={{ maxLength: 100 }}
+              sx={{ flex: 1 }}
+            />
+            <Button
+              variant="contained"
+              startIcon={saving ? <CircularProgress size={20} /> : <AddIcon />}
+              onClick={handleAdd}
+              disabled={saving}
+            >
+              Add Device
+            </Button>
+          </Box>
+
+          {loading ? (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          ) : devices.length === 0 ? (
+            <Typography color="text.secondary">No kiosk devices yet.</Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Last Seen</TableCell>
+                  <TableCell>Added</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {devices.map((device) => (
+                  <TableRow key={device.id}>
+                    <TableCell>{device.name}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={device.is_active ? 'Active' : 'Revoked'}
+                        color={device.is_active ? 'success' : 'default'}
+                      />
+                    </TableCell>
+                    <TableCell>{device.last_seen_at ? new Date(device.last_seen_at).toLocaleString() : 'Never'}</TableCell>
+                    <TableCell>
+                      {new Date(device.created_at).toLocaleDateString()}
+                      {device.created_by_name && ` by ${device.created_by_name}`}
+                    </TableCell>
+                    <TableCell align="right">
+                      {device.is_active && (
+                        <Button size="small" color="error" startIcon={<RevokeIcon />} onClick={() => handleRevoke(device)}>
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default KioskDevicesComponent;
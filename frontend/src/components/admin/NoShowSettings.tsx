@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Divider,
+  CircularProgress,
+  Snackbar
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Refresh as RefreshIcon,
+  PersonOff as NoShowIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { SettingsApi, NoShowSettings } from '../../services/settingsApi';
+
+export const NoShowSettingsComponent: React.FC = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<NoShowSettings>({
+    maxMissedCalls: 3,
+    skipBehindCount: 3
+  });
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Load settings on component mount
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await SettingsApi.getNoShowSettings();
+      setSettings(data);
+    } catch (err) {
+      setError('Failed to load no-show settings');
+      console.error('Error loading no-show settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      // Validate settings
+      if (!Number.isInteger(settings.maxMissedCalls) || settings.maxMissedCalls < 0 || settings.maxMissedCalls > 10) {
+        setError('Max missed calls must be a whole number between 0 and 10');
+        return;
+      }
+
+      if (!Number.isInteger(settings.skipBehindCount) || settings.skipBehindCount < 1 || settings.skipBehindCount > 20) {
+        setError('Skip behind count must be a whole number between 1 and 20');
+        return;
+      }
+
+      await SettingsApi.updateNoShowSettings(settings);
+      setSuccess('No-show settings updated successfully');
+
+      // Reload settings to ensure consistency
+      await loadSettings();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save settings');
+      console.error('Error saving no-show settings:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSettingChange = (key: keyof NoShowSettings, value: number) => {
+    setSettings(prev => ({
+      ...prev,
+      [key]: value
+    }));
+  };
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can access no-show settings.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <NoShowIcon color="primary" />
+              <Typography variant="h5">No-Show Handling</Typography>
+            </Box>
+          }
+          subheader="What happens when a called customer doesn't come to the counter"
+        />
+
+        <CardContent>
+          {loading && (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {!loading && (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 3 }}>
+                  {error}
+                </Alert>
+              )}
+
+              <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                <Box sx={{ flex: 1, minWidth: 280 }}>
+                  <TextField
+                    fullWidth
+                    label="Max Missed Calls"
+                    type="number"
+                    value={settings.maxMissedCalls}
+                    onChange={(e) => handleSettingChange('maxMissedCalls', parseInt(e.target.value))}
+                    helperText="Recalls and skips before the customer is cancelled as a no-show (0 = never)"
+                    inputProps={{ min: 0, max: 10 }}
+                  />
+                </Box>
+                <Box sx={{ flex: 1, minWidth: 280 }}>
+                  <TextField
+                    fullWidth
+                    label="Skip Behind"
+                    type="number"
+                    value={settings.skipBehindCount}
+                    onChange={(e) => handleSettingChange('skipBehindCount', parseInt(e.target.value))}
+                    helperText="How many waiting customers a skipped customer is placed behind (1-20)"
+                    inputProps={{ min: 1, max: 20 }}
+                  />
+                </Box>
+              </Box>
+
+              {/* Action Buttons */}
+              <Divider sx={{ my: 2 }} />
+              <Box display="flex" gap={2}>
+                <Button
+                  variant="contained"
+                  startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+                  onClick={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </Button>
+
+                <Button
+                  variant="outlined"
+                  startIcon={<RefreshIcon />}
+                  onClick={loadSettings}
+                  disabled={saving}
+                >
+                  Reset
+                </Button>
+              </Box>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default NoShowSettingsComponent;
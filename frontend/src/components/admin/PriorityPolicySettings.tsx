@@ -0,0 +1,359 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Divider,
+  InputAdornment,
+  CircularProgress,
+  Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Refresh as RefreshIcon,
+  Visibility as PreviewIcon,
+  PriorityHigh as PriorityIcon,
+  HourglassBottom as AgingIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  SettingsApi,
+  QueuePriorityPolicySettings,
+  PriorityPolicyPreview,
+  PriorityPolicyPreviewEntry
+} from '../../services/settingsApi';
+import { getServiceTypeLabel } from '../../utils/serviceTypes';
+
+const getPriorityLabel = (entry: PriorityPolicyPreviewEntry): string => {
+  const labels: string[] = [];
+  if (entry.priority_flags.senior_citizen) labels.push('Senior');
+  if (entry.priority_flags.pwd) labels.push('PWD');
+  if (entry.priority_flags.pregnant) labels.push('Pregnant');
+  return labels.join(', ');
+};
+
+export const PriorityPolicySettingsComponent: React.FC = () => {
+  const { user } = useAuth();
+  const [policy, setPolicy] = useState<QueuePriorityPolicySettings>({
+    seniorCitizenWeight: 1000,
+    pwdWeight: 900,
+    pregnantWeight: 800,
+    maxConsecutivePriority: 3,
+    agingBonusPerMinute: 20,
+    appointmentWeight: 800
+  });
+  const [preview, setPreview] = useState<PriorityPolicyPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Load policy on component mount
+  useEffect(() => {
+    loadPolicy();
+  }, []);
+
+  const loadPolicy = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await SettingsApi.getQueuePriorityPolicy();
+      setPolicy(data);
+      setPreview(null);
+    } catch (err) {
+      setError('Failed to load queue priority policy');
+      console.error('Error loading priority policy:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      await SettingsApi.updateQueuePriorityPolicy(policy);
+      setSuccess('Queue priority policy updated successfully');
+
+      // Reload policy to ensure consistency
+      await loadPolicy();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save priority policy');
+      console.error('Error saving priority policy:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    try {
+      setPreviewing(true);
+      setError(null);
+      const data = await SettingsApi.previewQueuePriorityPolicy(policy);
+      setPreview(data);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to preview queue order');
+      console.error('Error previewing priority policy:', err);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handlePolicyChange = (key: keyof QueuePriorityPolicySettings, value: number) => {
+    setPolicy(prev => ({
+      ...prev,
+      [key]: value
+    }));
+  };
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can access queue priority settings.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <PriorityIcon color="primary" />
+              <Typography variant="h5">Queue Priority Policy</Typography>
+            </Box>
+          }
+          subheader="Control how priority customers are ordered against regular customers"
+        />
+
+        <CardContent>
+          {loading && (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {!loading && (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 3 }}>
+                  {error}
+                </Alert>
+              )}
+
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+                {/* Priority Weights */}
+                <Box>
+                  <Box display="flex" alignItems="center" gap={1} mb={2}>
+                    <PriorityIcon color="action" />
+                    <Typography variant="h6">Priority Weights</Typography>
+                  </Box>
+                  <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                    <Box sx={{ flex: 1, minWidth: 200 }}>
+                      <TextField
+                        fullWidth
+                        label="Senior Citizen"
+                        type="number"
+                        value={policy.seniorCitizenWeight}
+                        onChange={(e) => handlePolicyChange('seniorCitizenWeight', Number(e.target.value))}
+                        helperText="Score for senior citizens (0-10000)"
+                        inputProps={{ min: 0, max: 10000 }}
+                      />
+                    </Box>
+                    <Box sx={{ flex: 1, minWidth: 200 }}>
+                      <TextField
+                        fullWidth
+                        label="PWD"
+                        type="number"
+                        value={policy.pwdWeight}
+                        onChange={(e) => handlePolicyChange('pwdWeight', Number(e.target.value))}
+                        helperText="Score for persons with disability (0-10000)"
+                        inputProps={{ min: 0, max: 10000 }}
+                      />
+                    </Box>
+                    <Box sx={{ flex: 1, minWidth: 200 }}>
+                      <TextField
+                        fullWidth
+                        label="Pregnant"
+                        type="number"
+                        value={policy.pregnantWeight}
+                        onChange={(e) => handlePolicyChange('pregnantWeight', Number(e.target.value))}
+                        helperText="Score for pregnant customers (0-10000)"
+                        inputProps={{ min: 0, max: 10000 }}
+                      />
+                    </Box>
+                    <Box sx={{ flex: 1, minWidth: 200 }}>
+                      <TextField
+                        fullWidth
+                        label="Appointment"
+                        type="number"
+                        value={policy.appointmentWeight}
+                        onChange={(e) => handlePolicyChange('appointmentWeight', Number(e.target.value))}
+                        helperText="Score for checked-in appointments from their slot time (0-10000)"
+                        inputProps={{ min: 0, max: 10000 }}
+                      />
+                    </Box>
+                  </Box>
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    Customers with several flags get the highest of their weights.
+                  </Typography>
+                </Box>
+
+                {/* Anti-starvation */}
+                <Box>
+                  <Divider sx={{ my: 2 }} />
+                  <Box display="flex" alignItems="center" gap={1} mb={2}>
+                    <AgingIcon color="action" />
+                    <Typography variant="h6">Fairness</Typography>
+                  </Box>
+                  <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                    <Box sx={{ flex: 1, minWidth: 280 }}>
+                      <TextField
+                        fullWidth
+                        label="Aging Bonus"
+                        type="number"
+                        value={policy.agingBonusPerMinute}
+                        onChange={(e) => handlePolicyChange('agingBonusPerMinute', Number(e.target.value))}
+                        InputProps={{
+                          endAdornment: <InputAdornment position="end">per minute</InputAdornment>
+                        }}
+                        helperText="Score added for every minute a customer waits (0-1000)"
+                        inputProps={{ min: 0, max: 1000 }}
+                      />
+                    </Box>
+                    <Box sx={{ flex: 1, minWidth: 280 }}>
+                      <TextField
+                        fullWidth
+                        label="Max Consecutive Priority Calls"
+                        type="number"
+                        value={policy.maxConsecutivePriority}
+                        onChange={(e) => handlePolicyChange('maxConsecutivePriority', parseInt(e.target.value))}
+                        helperText="Serve a regular customer after this many priority calls in a row (0 = no limit)"
+                        inputProps={{ min: 0, max: 20 }}
+                      />
+                    </Box>
+                  </Box>
+                </Box>
+
+                {/* Action Buttons */}
+                <Box>
+                  <Divider sx={{ my: 2 }} />
+                  <Box display="flex" gap={2} flexWrap="wrap">
+                    <Button
+                      variant="contained"
+                      startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+                      onClick={handleSave}
+                      disabled={saving || previewing}
+                    >
+                      {saving ? 'Saving...' : 'Save Changes'}
+                    </Button>
+
+                    <Button
+                      variant="outlined"
+                      startIcon={previewing ? <CircularProgress size={20} /> : <PreviewIcon />}
+                      onClick={handlePreview}
+                      disabled={saving || previewing}
+                    >
+                      Preview Queue Order
+                    </Button>
+
+                    <Button
+                      variant="outlined"
+                      startIcon={<RefreshIcon />}
+                      onClick={loadPolicy}
+                      disabled={saving}
+                    >
+                      Reset
+                    </Button>
+                  </Box>
+                </Box>
+
+                {/* Preview */}
+                {preview && (
+                  <Box>
+                    <Divider sx={{ my: 2 }} />
+                    <Typography variant="h6" gutterBottom>Projected Call Order</Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                      {preview.consecutivePriorityServed > 0
+                        ? `${preview.consecutivePriorityServed} priority customer(s) were just called in a row.`
+                        : 'The last customer called was not a priority customer.'}
+                    </Typography>
+                    {preview.queue.length === 0 ? (
+                      <Alert severity="info">No customers are waiting.</Alert>
+                    ) : (
+                      <TableContainer component={Paper} variant="outlined">
+                        <Table size="small">
+                          <TableHead>
+                            <TableRow>
+                              <TableCell>#</TableCell>
+                              <TableCell>Token</TableCell>
+                              <TableCell>Name</TableCell>
+                              <TableCell>Service</TableCell>
+                              <TableCell>Priority</TableCell>
+                              <TableCell align="right">Waiting</TableCell>
+                              <TableCell align="right">Score</TableCell>
+                            </TableRow>
+                          </TableHead>
+                          <TableBody>
+                            {preview.queue.map((entry) => (
+                              <TableRow key={entry.customer_id}>
+                                <TableCell>{entry.position}</TableCell>
+                                <TableCell>{entry.token_number}</TableCell>
+                                <TableCell>{entry.name}</TableCell>
+                                <TableCell>{getServiceTypeLabel(entry.service_type)}</TableCell>
+                                <TableCell>
+                                  {entry.is_priority && (
+                                    <Chip label={getPriorityLabel(entry)} size="small" color="warning" />
+                                  )}
+                                  {entry.manual_position !== null && (
+                                    <Chip label="Manual" size="small" variant="outlined" sx={{ ml: 0.5 }} />
+                                  )}
+                                </TableCell>
+                                <TableCell align="right">{entry.wait_minutes} min</TableCell>
+                                <TableCell align="right">{entry.score}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </TableContainer>
+                    )}
+                  </Box>
+                )}
+              </Box>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default PriorityPolicySettingsComponent;
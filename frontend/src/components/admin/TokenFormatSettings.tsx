@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  CardHeader,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Divider,
+  CircularProgress,
+  Snackbar
+} from '@mui/material';
+import {
+  Save as SaveIcon,
+  Refresh as RefreshIcon,
+  ConfirmationNumber as TokenIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { SettingsApi, TokenFormatSettings } from '../../services/settingsApi';
+import { SERVICE_TYPES, getServiceTypeLabel } from '../../utils/serviceTypes';
+
+const PREFIX_PATTERN = /^[A-Z]{0,3}$/;
+
+export const TokenFormatSettingsComponent: React.FC = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<TokenFormatSettings>({
+    servicePrefixes: {},
+    priorityPrefix: '',
+    padding: 3
+  });
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Load settings on component mount
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await SettingsApi.getTokenFormatSettings();
+      setSettings(data);
+    } catch (err) {
+      setError('Failed to load token format settings');
+      console.error('Error loading token format settings:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      // Validate settings
+      if (!Number.isInteger(settings.padding) || settings.padding < 1 || settings.padding > 6) {
+        setError('Number of digits must be between 1 and 6');
+        return;
+      }
+      const prefixes = [settings.priorityPrefix, ...Object.values(settings.servicePrefixes)];
+      if (prefixes.some(prefix => !PREFIX_PATTERN.test(prefix))) {
+        setError('Prefixes must be up to 3 uppercase letters');
+        return;
+      }
+      const servicePrefixes = SERVICE_TYPES.map(serviceType => settings.servicePrefixes[serviceType] || '');
+      if (new Set(servicePrefixes).size < servicePrefixes.length ||
+          (settings.priorityPrefix && servicePrefixes.includes(settings.priorityPrefix))) {
+        setError('Each service and the priority lane need a different prefix');
+        return;
+      }
+
+      await SettingsApi.updateTokenFormatSettings(settings);
+      setSuccess('Token format updated successfully');
+
+      // Reload settings to ensure consistency
+      await loadSettings();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to save settings');
+      console.error('Error saving token format settings:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePrefixChange = (serviceType: string, value: string) => {
+    setSettings(prev => ({
+      ...prev,
+      servicePrefixes: {
+        ...prev.servicePrefixes,
+        [serviceType]: value.toUpperCase()
+      }
+    }));
+  };
+
+  const preview = (prefix: string) => `#${prefix}${'1'.padStart(settings.padding || 1, '0')}`;
+
+  if (!user || user.role !== 'admin') {
+    return (
+      <Alert severity="error" sx={{ mt: 2 }}>
+        Access denied. Only administrators can access token format settings.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Card>
+        <CardHeader
+          title={
+            <Box display="flex" alignItems="center" gap={1}>
+              <TokenIcon color="primary" />
+              <Typography variant="h5">Token Numbers</Typography>
+            </Box>
+          }
+          subheader="Prefixes for each lane; every service counts from 1 again each business day"
+        />
+
+        <CardContent>
+          {loading && (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {!loading && (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 3 }}>
+                  {error}
+                </Alert>
+              )}
+
+              <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                <Box sx={{ flex: 1, minWidth: 200 }}>
+                  <TextField
+                    fullWidth
+                    label="Priority Lane Prefix"
+                    value={settings.priorityPrefix}
+                    onChange={(e) => setSettings(prev => ({ ...prev, priorityPrefix: e.target.value.toUpperCase() }))}
+                    helperText={settings.priorityPrefix ? `Senior, PWD and pregnant customers get their own numbers: ${preview(settings.priorityPrefix)}` : 'Leave empty to use the service prefix'}
+                    inputProps={{ maxLength: 3 }}
+                  />
+                </Box>
+                <Box sx={{ flex: 1, minWidth: 200 }}>
+                  <TextField
+                    fullWidth
+                    label="Number of Digits"
+                    type="number"
+                    value={settings.padding}
+                    onChange={(e) => setSettings(prev => ({ ...prev, padding: parseInt(e.target.value) }))}
+                    helperText="Zero padding of the daily number (1-6)"
+                    inputProps={{ min: 1, max: 6 }}
+                  />
+                </Box>
+              </Box>
+
+              <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+                Service Prefixes
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+                {SERVICE_TYPES.map((serviceType) => {
+                  const prefix = settings.servicePrefixes[serviceType] || '';
+                  return (
+                    <Box key={serviceType} sx={{ flex: 1, minWidth: 200 }}>
+                      <TextField
+                        fullWidth
+                        label={getServiceTypeLabel(serviceType)}
+                        value={prefix}
+                        onChange={(e) => handlePrefixChange(serviceType, e.target.value)}
+                        helperText={`First token: ${preview(prefix)}`}
+                        inputProps={{ maxLength: 3 }}
+                      />
+                    </Box>
+                  );
+                })}
+              </Box>
+
+              {/* Action Buttons */}
+              <Divider sx={{ my: 2 }} />
+              <Box display="flex" gap={2}>
+                <Button
+                  variant="contained"
+                  startIcon={saving ? <CircularProgress size={20} /> : <SaveIcon />}
+                  onClick={handleSave}
+                  disabled={saving}
+                >
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </Button>
+
+                <Button
+                  variant="outlined"
+                  startIcon={<RefreshIcon />}
+                  onClick={loadSettings}
+                  disabled={saving}
+                >
+                  Reset
+                </Button>
+              </Box>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Success Snackbar */}
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default TokenFormatSettingsComponent;
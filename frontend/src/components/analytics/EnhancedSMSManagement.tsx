@@ -359,7 +359,7 @@ const EnhancedSMSManagement: React.FC = () => {
           <CardContent>
             <Typography variant="h6" gutterBottom>SMS Templates</Typography>
             <Typography variant="body2" color="text.secondary" paragraph>
-              Manage SMS message templates. Use variables like [CustomerName], [QueuePosition], [EstimatedWait], [TokenNumber], and [CounterName].
+              Manage SMS message templates. Use variables like [CustomerName], [QueuePosition], [EstimatedWait], [TokenNumber], [CounterName], and [TrackingUrl] (the customer's live tracking link, also written {'{tracking_url}'}).
             </Typography>
             
             <Box sx={{ maxHeight: 600, overflow: 'auto' }}>
@@ -64,11 +64,12 @@ import {
   GetApp as GetAppIcon,
   Settings as SettingsIcon
 } from '@mui/icons-material';
+import { getServiceTypeLabel } from '../../utils/serviceTypes';
 
 interface QueueActivity {
   id: number;
   customer_id: number;
-  event_type: 'joined' | 'called' | 'served' | 'left' | 'cancelled';
+  event_type: 'joined' | 'called' | 'served' | 'left' | 'cancelled' | 'recalled' | 'skipped' | 'transferred';
   queue_position: number;
   wait_time_minutes: number;
   service_time_minutes: number;
@@ -120,6 +121,15 @@ interface AnalyticsDashboard {
     avgServiceTime: number; 
   }>;
   waitTimeDistribution: Array<{ range: string; count: number }>;
+  noShows?: { recalls: number; skips: number; noShows: number };
+  appointments?: { booked: number; checkedIn: number; cancelled: number; noShows: number; noShowRate: number };
+  stageDurations?: Array<{
+    stage: string;
+    visits: number;
+    transfersOut: number;
+    avgWaitTimeMinutes: number;
+    avgServiceTimeMinutes: number;
+  }>;
 }
 
 const QueueAnalyticsDashboard: React.FC = () => {
@@ -482,6 +492,91 @@ const QueueAnalyticsDashboard: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* No-Shows */}
+      {dashboard.noShows && (
+        <Card sx={{ mb: 3 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>No-Shows</Typography>
+            <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2 }}>
+              <Box textAlign="center" sx={{ flex: 1 }}>
+                <Typography variant="h5" color="warning.main">{dashboard.noShows.recalls}</Typography>
+                <Typography variant="body2" color="text.secondary">Recalls</Typography>
+              </Box>
+              <Box textAlign="center" sx={{ flex: 1 }}>
+                <Typography variant="h5" color="warning.main">{dashboard.noShows.skips}</Typography>
+                <Typography variant="body2" color="text.secondary">Skipped</Typography>
+              </Box>
+              <Box textAlign="center" sx={{ flex: 1 }}>
+                <Typography variant="h5" color="error">{dashboard.noShows.noShows}</Typography>
+                <Typography variant="body2" color="text.secondary">Cancelled as No-Show</Typography>
+              </Box>
+            </Box>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Appointments */}
+      {dashboard.appointments && dashboard.appointments.booked > 0 && (
+        <Card sx={{ mb: 3 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>Appointments</Typography>
+            <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2 }}>
+              <Box textAlign="center" sx={{ flex: 1 }}>
+                <Typography variant="h5" color="primary">{dashboard.appointments.booked}</Typography>
+                <Typography variant="body2" color="text.secondary">Booked</Typography>
+              </Box>
+              <Box textAlign="center" sx={{ flex: 1 }}>
+                <Typography variant="h5" color="success.main">{dashboard.appointments.checkedIn}</Typography>
+                <Typography variant="body2" color="text.secondary">Checked In</Typography>
+              </Box>
+              <Box textAlign="center" sx={{ flex: 1 }}>
+                <Typography variant="h5" color="text.secondary">{dashboard.appointments.cancelled}</Typography>
+                <Typography variant="body2" color="text.secondary">Cancelled</Typography>
+              </Box>
+              <Box textAlign="center" sx={{ flex: 1 }}>
+                <Typography variant="h5" color="error">
+                  {dashboard.appointments.noShows} ({dashboard.appointments.noShowRate}%)
+                </Typography>
+                <Typography variant="body2" color="text.secondary">No-Shows</Typography>
+              </Box>
+            </Box>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Per-Stage Timing */}
+      {dashboard.stageDurations && dashboard.stageDurations.length > 0 && (
+        <Card sx={{ mb: 3 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>Timing by Stage</Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Stage</TableCell>
+                    <TableCell align="right">Visits</TableCell>
+                    <TableCell align="right">Transferred On</TableCell>
+                    <TableCell align="right">Avg Wait</TableCell>
+                    <TableCell align="right">Avg Service</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {dashboard.stageDurations.map((stage) => (
+                    <TableRow key={stage.stage}>
+                      <TableCell>{getServiceTypeLabel(stage.stage)}</TableCell>
+                      <TableCell align="right">{stage.visits}</TableCell>
+                      <TableCell align="right">{stage.transfersOut}</TableCell>
+                      <TableCell align="right">{formatTime(stage.avgWaitTimeMinutes)}</TableCell>
+                      <TableCell align="right">{formatTime(stage.avgServiceTimeMinutes)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Queue Activities Log */}
       <Card sx={{ mb: 3 }}>
         <CardContent>
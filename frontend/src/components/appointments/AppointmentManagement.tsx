@@ -0,0 +1,421 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Snackbar
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Refresh as RefreshIcon,
+  EventAvailable as AppointmentIcon
+} from '@mui/icons-material';
+import { useSocket } from '../../contexts/SocketContext';
+import { Appointment, AppointmentSlot, AppointmentStatus, ServiceType } from '../../types';
+import { SERVICE_TYPES, getServiceTypeLabel } from '../../utils/serviceTypes';
+import { apiGet, apiPost } from '../../utils/api';
+
+const STATUS_CHIPS: Record<AppointmentStatus, { label: string; color: 'primary' | 'success' | 'default' | 'error' }> = {
+  [AppointmentStatus.BOOKED]: { label: 'Booked', color: 'primary' },
+  [AppointmentStatus.CHECKED_IN]: { label: 'Checked in', color: 'success' },
+  [AppointmentStatus.CANCELLED]: { label: 'Cancelled', color: 'default' },
+  [AppointmentStatus.NO_SHOW]: { label: 'No-show', color: 'error' }
+};
+
+// Today's date in shop time, as YYYY-MM-DD
+const shopToday = (): string => new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Manila' });
+
+const formatTime = (value: string): string =>
+  new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const emptyBooking = {
+  customer_name: '',
+  contact_number: '',
+  email: '',
+  service_type: ServiceType.EYE_EXAM,
+  doctor_name: '',
+  slot_start: '',
+  notes: ''
+};
+
+const AppointmentManagement: React.FC = () => {
+  const navigate = useNavigate();
+  const { socket } = useSocket();
+  const [date, setDate] = useState(shopToday());
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [showBookDialog, setShowBookDialog] = useState(false);
+  const [booking, setBooking] = useState(emptyBooking);
+  const [bookingDate, setBookingDate] = useState(shopToday());
+  const [slots, setSlots] = useState<AppointmentSlot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [bookingError, setBookingError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchAppointments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiGet(`/appointments?date=${date}`);
+      if (response.ok) {
+        setAppointments(await response.json());
+        setError(null);
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to load appointments');
+      }
+    } catch (err) {
+      console.error('Error fetching appointments:', err);
+      setError('Failed to load appointments');
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  const fetchSlots = useCallback(async () => {
+    try {
+      setSlotsLoading(true);
+      const params = new URLSearchParams({ date: bookingDate, serviceType: booking.service_type });
+      if (booking.doctor_name.trim()) {
+        params.append('doctor', booking.doctor_name.trim());
+      }
+      const response = await apiGet(`/appointments/slots?${params.toString()}`);
+      if (response.ok) {
+        setSlots(await response.json());
+      } else {
+        setSlots([]);
+      }
+    } catch (err) {
+      console.error('Error fetching appointment slots:', err);
+      setSlots([]);
+    } finally {
+      setSlotsLoading(false);
+    }
+  }, [bookingDate, booking.service_type, booking.doctor_name]);
+
+  useEffect(() => {
+    fetchAppointments();
+  }, [fetchAppointments]);
+
+  useEffect(() => {
+    if (showBookDialog) {
+      fetchSlots();
+    }
+  }, [showBookDialog, fetchSlots]);
+
+  // Bookings, check-ins and no-shows from other stations
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleQueueUpdate = (data: any) => {
+      if (typeof data?.type === 'string' && data.type.startsWith('appointment_')) {
+        fetchAppointments();
+      }
+    };
+
+    socket.on('queue:update', handleQueueUpdate);
+    return () => {
+      socket.off('queue:update', handleQueueUpdate);
+    };
+  }, [socket, fetchAppointments]);
+
+  const handleBook = async () => {
+    if (!booking.customer_name.trim()) {
+      setBookingError('Customer name is required');
+      return;
+    }
+    if (!booking.slot_start) {
+      setBookingError('Pick a time slot');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setBookingError(null);
+      const response = await apiPost('/appointments', booking);
+      const data = await response.json();
+      if (!response.ok) {
+        setBookingError(data.error || 'Failed to book appointment');
+        // The slot may have just been taken
+        fetchSlots();
+        return;
+      }
+      setSuccess(`Booked ${data.customer_name} at ${formatTime(data.slot_start)}`);
+      setShowBookDialog(false);
+      setBooking(emptyBooking);
+      fetchAppointments();
+    } catch (err) {
+      console.error('Error booking appointment:', err);
+      setBookingError('Failed to book appointment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = async (appointment: Appointment, action: 'cancel' | 'no-show') => {
+    const question = action === 'cancel'
+      ? `Cancel the appointment of ${appointment.customer_name}?`
+      : `Mark ${appointment.customer_name} as a no-show?`;
+    if (!window.confirm(question)) return;
+
+    try {
+      const response = await apiPost(`/appointments/${appointment.id}/${action}`, {});
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to update appointment');
+        return;
+      }
+      setSuccess(action === 'cancel' ? 'Appointment cancelled' : 'Appointment marked as no-show');
+      fetchAppointments();
+    } catch (err) {
+      console.error('Error updating appointment:', err);
+      setError('Failed to update appointment');
+    }
+  };
+
+  // Registration runs through the customer form, which books the appointment as checked in
+  const handleCheckIn = (appointment: Appointment) => {
+    navigate('/customers/new', { state: { appointment } });
+  };
+
+  const openBookDialog = () => {
+    setBooking(emptyBooking);
+    setBookingDate(date < shopToday() ? shopToday() : date);
+    setBookingError(null);
+    setShowBookDialog(true);
+  };
+
+  const isToday = date === shopToday();
+
+  return (
+    <Box sx={{ p: { xs: 2, md: 3 } }}>
+      <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={2} mb={3}>
+        <Box display="flex" alignItems="center" gap={1}>
+          <AppointmentIcon color="primary" />
+          <Typography variant="h5">Appointments</Typography>
+        </Box>
+        <Box display="flex" alignItems="center" gap={2}>
+          <TextField
+            label="Date"
+            type="date"
+            size="small"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button variant="outlined" startIcon={<RefreshIcon />} onClick={fetchAppointments}>
+            Refresh
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openBookDialog}>
+            Book Appointment
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Time</TableCell>
+              <TableCell>Customer</TableCell>
+              <TableCell>Contact</TableCell>
+              <TableCell>Service</TableCell>
+              <TableCell>Doctor</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {loading && appointments.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            )}
+            {!loading && appointments.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  <Typography color="text.secondary">No appointments on this day</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+            {appointments.map((appointment) => (
+              <TableRow key={appointment.id}>
+                <TableCell>{formatTime(appointment.slot_start)} - {formatTime(appointment.slot_end)}</TableCell>
+                <TableCell>
+                  {appointment.customer_name}
+                  {appointment.notes && (
+                    <Typography variant="caption" display="block" color="text.secondary">
+                      {appointment.notes}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>{appointment.contact_number || '-'}</TableCell>
+                <TableCell>{getServiceTypeLabel(appointment.service_type)}</TableCell>
+                <TableCell>{appointment.doctor_name || '-'}</TableCell>
+                <TableCell>
+                  <Chip
+                    size="small"
+                    label={STATUS_CHIPS[appointment.status].label}
+                    color={STATUS_CHIPS[appointment.status].color}
+                  />
+                </TableCell>
+                <TableCell align="right">
+                  {appointment.status === AppointmentStatus.BOOKED && (
+                    <Box display="flex" gap={1} justifyContent="flex-end">
+                      {isToday && (
+                        <Button size="small" variant="contained" color="success" onClick={() => handleCheckIn(appointment)}>
+                          Check In
+                        </Button>
+                      )}
+                      <Button size="small" color="warning" onClick={() => handleClose(appointment, 'no-show')}>
+                        No-show
+                      </Button>
+                      <Button size="small" color="error" onClick={() => handleClose(appointment, 'cancel')}>
+                        Cancel
+                      </Button>
+                    </Box>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Book Appointment Dialog */}
+      <Dialog open={showBookDialog} onClose={() => setShowBookDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Book Appointment</DialogTitle>
+        <DialogContent>
+          {bookingError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {bookingError}
+            </Alert>
+          )}
+          <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            <TextField
+              label="Customer Name"
+              required
+              value={booking.customer_name}
+              onChange={(e) => setBooking({ ...booking, customer_name: e.target.value })}
+            />
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Contact Number"
+                fullWidth
+                value={booking.contact_number}
+                onChange={(e) => setBooking({ ...booking, contact_number: e.target.value })}
+              />
+              <TextField
+                label="Email"
+                type="email"
+                fullWidth
+                value={booking.email}
+                onChange={(e) => setBooking({ ...booking, email: e.target.value })}
+              />
+            </Box>
+            <Box display="flex" gap={2}>
+              <TextField
+                select
+                label="Service"
+                fullWidth
+                value={booking.service_type}
+                onChange={(e) => setBooking({ ...booking, service_type: e.target.value as ServiceType, slot_start: '' })}
+              >
+                {SERVICE_TYPES.map((type) => (
+                  <MenuItem key={type} value={type}>{getServiceTypeLabel(type)}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Doctor (optional)"
+                fullWidth
+                value={booking.doctor_name}
+                onChange={(e) => setBooking({ ...booking, doctor_name: e.target.value, slot_start: '' })}
+              />
+            </Box>
+            <Box display="flex" gap={2}>
+              <TextField
+                label="Date"
+                type="date"
+                value={bookingDate}
+                onChange={(e) => {
+                  setBookingDate(e.target.value);
+                  setBooking({ ...booking, slot_start: '' });
+                }}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ min: shopToday() }}
+              />
+              <TextField
+                select
+                label="Time Slot"
+                fullWidth
+                value={booking.slot_start}
+                onChange={(e) => setBooking({ ...booking, slot_start: e.target.value })}
+                disabled={slotsLoading}
+                helperText={!slotsLoading && slots.length === 0 ? 'No slots left on this day' : ' '}
+              >
+                {slots.map((slot) => (
+                  <MenuItem key={slot.start} value={slot.start} disabled={!slot.available}>
+                    {formatTime(slot.start)} ({slot.available ? `${slot.capacity - slot.booked} left` : 'unavailable'})
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Box>
+            <TextField
+              label="Notes"
+              multiline
+              rows={2}
+              value={booking.notes}
+              onChange={(e) => setBooking({ ...booking, notes: e.target.value })}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowBookDialog(false)} disabled={saving}>Close</Button>
+          <Button variant="contained" onClick={handleBook} disabled={saving}>
+            {saving ? 'Booking...' : 'Book'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default AppointmentManagement;
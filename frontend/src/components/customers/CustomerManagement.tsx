@@ -3,8 +3,18 @@ import { useAuth } from '../../contexts/AuthContext';
 import { useSocket } from '../../contexts/SocketContext';
 import { useNotification } from '../../contexts/NotificationContext';
 import { useLocation } from 'react-router-dom';
-import { EstimatedTime } from '../../types';
+import { Appointment, EstimatedTime, PatientPrefill, Prescription, ServiceType } from '../../types';
+import { PatientApi } from '../../services/patientApi';
+import {
+  emptyPrescriptionForm,
+  fromPrescriptionForm,
+  hasPrescription,
+  hasPrescriptionErrors,
+  PrescriptionForm,
+  toPrescriptionForm
+} from '../../utils/prescription';
 import { formatEstimatedTime } from '../../utils/formatters';
+import { SERVICE_TYPES, getServiceTypeLabel } from '../../utils/serviceTypes';
 import { apiGet, apiPost, apiPut, apiDelete } from '../../utils/api';
 import {
   Box,
@@ -57,9 +67,19 @@ import {
   GetApp as ExportIcon,
   Visibility as ViewIcon,
   Search as SearchIcon,
-  Refresh as RefreshIcon
+  Refresh as RefreshIcon,
+  History as HistoryIcon,
+  Build as JobOrderIcon,
+  HowToReg as ReleaseIcon
 } from '@mui/icons-material';
 import RegistrationNotification from './RegistrationNotification';
+import PatientMatches from './PatientMatches';
+import PatientRecordDialog from './PatientRecordDialog';
+import PrescriptionFields from './PrescriptionFields';
+import PrescriptionTable from './PrescriptionTable';
+import CreateJobOrderDialog from '../jobOrders/CreateJobOrderDialog';
+import ShipmentsPanel from './ShipmentsPanel';
+import ReleaseDialog from './ReleaseDialog';
 
 interface CustomerFormData {
   // Basic Information
@@ -70,21 +90,19 @@ interface CustomerFormData {
   age: number | '';
   address: string;
   occupation: string;
+  birth_date: string; // kept on the patient profile, for matching returning patients
   
   // Distribution Information
   distribution_info: string;
   
+  // Requested station in the queue
+  service_type: ServiceType;
+  
   // Doctor Information
   doctor_assigned: string;
   
   // Prescription Information
-  prescription: {
-    od: string;
-    os: string;
-    ou: string;
-    pd: string;
-    add: string;
-  };
+  prescription: PrescriptionForm;
   
   // Product Information
   grade_type: string;
@@ -121,14 +139,9 @@ interface Customer {
   address: string;
   occupation?: string;
   distribution_info: string;
+  service_type?: ServiceType;
   doctor_assigned?: string;
-  prescription: {
-    od: string;
-    os: string;
-    ou: string;
-    pd: string;
-    add: string;
-  };
+  prescription: Prescription;
   grade_type: string;
   lens_type: string;
   frame_code: string;
@@ -148,6 +161,11 @@ interface Customer {
   created_at: string;
   updated_at: string;
   sales_agent_name?: string;
+  // Registered at a kiosk; prescription and payment still to be filled in
+  details_pending?: boolean;
+  patient_id?: number | null;
+  released_at?: string | null;
+  released_to?: string | null;
 }
 
 const CustomerManagement: React.FC = () => {
@@ -192,12 +210,25 @@ const CustomerManagement: React.FC = () => {
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
+  const [showPatientRecord, setShowPatientRecord] = useState(false);
+  const [showCreateJobOrder, setShowCreateJobOrder] = useState(false);
+  const [showRelease, setShowRelease] = useState(false);
+  // Patient profile the new visit joins, picked by staff from the returning patient matches
+  const [linkedPatientId, setLinkedPatientId] = useState<number | null>(null);
+  // Otherwise a patient profile is only started when staff tick the box
+  const [createPatient, setCreatePatient] = useState(false);
+  // The patient's prescription from their previous visit, to show what changed
+  const [previousPrescription, setPreviousPrescription] = useState<Prescription | null>(null);
   
   const [gradeTypes, setGradeTypes] = useState<string[]>([]);
   const [lensTypes, setLensTypes] = useState<string[]>([]);
   const [successMessage, setSuccessMessage] = useState('');
   const [errorMessage, setErrorMessage] = useState('');
   const [registeredCustomer, setRegisteredCustomer] = useState<any>(null);
+  // Appointment being checked in, handed over from the appointments page
+  const [checkInAppointment, setCheckInAppointment] = useState<Appointment | null>(
+    (location.state as { appointment?: Appointment } | null)?.appointment || null
+  );
   
   const [formData, setFormData] = useState<CustomerFormData>({
     or_number: '',
@@ -207,15 +238,11 @@ const CustomerManagement: React.FC = () => {
     age: '',
     address: '',
     occupation: '',
+    birth_date: '',
     distribution_info: '',
+    service_type: ServiceType.CASHIER,
     doctor_assigned: '',
-    prescription: {
-      od: '',
-      os: '',
-      ou: '',
-      pd: '',
-      add: ''
-    },
+    prescription: emptyPrescriptionForm(),
     grade_type: '',
     lens_type: '',
     frame_code: '',
@@ -249,6 +276,21 @@ const CustomerManagement: React.FC = () => {
     fetchDropdownOptions();
     generateORNumber();
   }, []);
+
+  // Prefill the registration form with the appointment's details
+  useEffect(() => {
+    if (checkInAppointment) {
+      setFormData(prev => ({
+        ...prev,
+        name: checkInAppointment.customer_name,
+        contact_number: checkInAppointment.contact_number || '',
+        email: checkInAppointment.email || '',
+        service_type: checkInAppointment.service_type,
+        doctor_assigned: checkInAppointment.doctor_name || ''
+      }));
+      setShowForm(true);
+    }
+  }, [checkInAppointment]);
   
   useEffect(() => {
     fetchCustomers();
@@ -362,10 +404,37 @@ const CustomerManagement: React.FC = () => {
     }
   }, []);
 
-  const validatePrescriptionField = useCallback((value: string) => {
-    // Allow letters, numbers and common prescription symbols including +, -, ., /, *, parentheses, and spaces
-    const prescriptionRegex = /^[a-zA-Z0-9+\-.*()/\s]*$/;
-    return prescriptionRegex.test(value) && value.length <= 50;
+  // Returning patient picked from the matches: link the visit and fill in what we know
+  const handleUsePatient = useCallback((prefill: PatientPrefill) => {
+    setFormData(prev => ({
+      ...prev,
+      name: prefill.name,
+      contact_number: prefill.contact_number || prev.contact_number,
+      email: prefill.email || prev.email,
+      address: prefill.address || prev.address,
+      occupation: prefill.occupation || prev.occupation,
+      birth_date: prefill.birth_date || prev.birth_date,
+      age: prefill.age ?? prev.age,
+      doctor_assigned: prefill.doctor_assigned || prev.doctor_assigned,
+      prescription: toPrescriptionForm(prefill.prescription)
+    }));
+    setLinkedPatientId(prefill.patient_id);
+    setPreviousPrescription(hasPrescription(prefill.prescription) ? prefill.prescription : null);
+  }, []);
+
+  // The prescription of the patient's visit before this one, to compare against
+  const loadPreviousPrescription = useCallback(async (customer: Customer) => {
+    setPreviousPrescription(null);
+    if (!customer.patient_id) return;
+    try {
+      const timeline = await PatientApi.getTimeline(customer.patient_id);
+      const index = timeline.visits.findIndex((visit) => visit.customer_id === customer.id);
+      if (index < 0) return;
+      const earlier = timeline.visits.slice(index + 1).find((visit) => hasPrescription(visit.prescription));
+      setPreviousPrescription(earlier ? earlier.prescription : null);
+    } catch (error) {
+      console.error('Error loading previous prescription:', error);
+    }
   }, []);
 
   const validateFrameCode = useCallback((value: string) => {
@@ -400,8 +469,9 @@ const CustomerManagement: React.FC = () => {
         address: formData.address,
         occupation: formData.occupation,
         distribution_info: formData.distribution_info,
+        service_type: formData.service_type,
         doctor_assigned: formData.doctor_assigned,
-        prescription: formData.prescription,
+        prescription: fromPrescriptionForm(formData.prescription),
         grade_type: formData.grade_type,
         lens_type: formData.lens_type,
         frame_code: formData.frame_code,
@@ -425,10 +495,25 @@ const CustomerManagement: React.FC = () => {
       console.log('🎯 [FRONTEND_DEBUG] Amount conversion - raw:', formData.payment_info.amount, 'converted:', Number(formData.payment_info.amount));
       
       const isEditing = editingCustomer !== null;
+      const createData = {
+        ...submissionData,
+        patient_id: linkedPatientId,
+        create_patient: !linkedPatientId && createPatient,
+        birth_date: formData.birth_date || null,
+        ...(checkInAppointment && { appointment_id: checkInAppointment.id })
+      };
       
-      const response = isEditing 
+      let response = isEditing 
         ? await apiPut(`/customers/${editingCustomer.id}`, submissionData)
-        : await apiPost('/customers', submissionData);
+        : await apiPost('/customers', createData);
+      
+      // Past closing or over capacity: admins may still register the walk-in
+      if (!isEditing && response.status === 409 && (user?.role === 'admin' || user?.role === 'super_admin')) {
+        const closed = await response.clone().json();
+        if (closed.code === 'registration_closed' && window.confirm(`${closed.error}\n\nRegister this customer anyway?`)) {
+          response = await apiPost('/customers', { ...createData, override_capacity: true });
+        }
+      }
       
       if (response.ok) {
         const result = await response.json();
@@ -437,7 +522,14 @@ const CustomerManagement: React.FC = () => {
           setEditingCustomer(null);
         } else {
           setRegisteredCustomer(result);
-          setSuccessMessage(`Customer registered successfully! OR Number: ${result.or_number}`);
+          setCheckInAppointment(null);
+          setLinkedPatientId(null);
+          setCreatePatient(false);
+          setPreviousPrescription(null);
+          setSuccessMessage(
+            `Customer registered successfully! OR Number: ${result.or_number}` +
+            (result.registration_warning ? ` (Note: ${result.registration_warning})` : '')
+          );
         }
         setShowForm(false);
         setActiveStep(0);
@@ -450,15 +542,11 @@ const CustomerManagement: React.FC = () => {
           age: '',
           address: '',
           occupation: '',
+          birth_date: '',
           distribution_info: '',
+          service_type: ServiceType.CASHIER,
           doctor_assigned: '',
-          prescription: {
-            od: '',
-            os: '',
-            ou: '',
-            pd: '',
-            add: ''
-          },
+          prescription: emptyPrescriptionForm(),
           grade_type: '',
           lens_type: '',
           frame_code: '',
@@ -560,9 +648,25 @@ const CustomerManagement: React.FC = () => {
     setShowCustomerDialog(true);
     if (selectedCustomer) {
       setAnchorEl(null);
+      loadPreviousPrescription(selectedCustomer);
     }
   };
 
+  const handleViewPatientRecord = () => {
+    setShowPatientRecord(true);
+    setAnchorEl(null);
+  };
+
+  const handleStartJobOrder = () => {
+    setShowCreateJobOrder(true);
+    setAnchorEl(null);
+  };
+
+  const handleReleaseOrder = () => {
+    setShowRelease(true);
+    setAnchorEl(null);
+  };
+
   const handleExportCustomer = async (customer: Customer) => {
     try {
       const response = await apiGet(`/customers/${customer.id}/export`);
@@ -592,9 +696,11 @@ const CustomerManagement: React.FC = () => {
       age: customer.age,
       address: customer.address,
       occupation: customer.occupation || '',
+      birth_date: '',
       distribution_info: customer.distribution_info,
+      service_type: customer.service_type || ServiceType.CASHIER,
       doctor_assigned: customer.doctor_assigned || '',
-      prescription: customer.prescription,
+      prescription: toPrescriptionForm(customer.prescription),
       grade_type: customer.grade_type,
       lens_type: customer.lens_type,
       frame_code: customer.frame_code || '',
@@ -603,6 +709,7 @@ const CustomerManagement: React.FC = () => {
       remarks: customer.remarks || '',
       priority_flags: customer.priority_flags
     });
+    loadPreviousPrescription(customer);
     setShowForm(true);
     setActiveStep(0);
     handleMenuClose();
@@ -812,8 +919,8 @@ const CustomerManagement: React.FC = () => {
       const hasValidEstimatedTime = (formData.estimated_time.days !== '' && formData.estimated_time.days !== 0) || 
                                    (formData.estimated_time.hours !== '' && formData.estimated_time.hours !== 0) || 
                                    (formData.estimated_time.minutes !== '' && formData.estimated_time.minutes !== 0);
-      // OD/OS/OU/PD/ADD are optional; only require product selections and an estimated time
-      return formData.grade_type &&
+      // The prescription is optional, but what is entered must be in range
+      return !hasPrescriptionErrors(formData.prescription) && formData.grade_type &&
              formData.lens_type && formData.frame_code && hasValidEstimatedTime;
     }
     if (activeStep === 2) {
@@ -850,6 +957,9 @@ const CustomerManagement: React.FC = () => {
               <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.875rem' }}>
                 OR: {customer.or_number}
               </Typography>
+              {customer.details_pending && (
+                <Chip label="Kiosk – details pending" size="small" color="warning" variant="outlined" sx={{ mt: 0.5, fontSize: '0.75rem' }} />
+              )}
             </Box>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexShrink: 0 }}>
               <Chip 
@@ -1050,6 +1160,9 @@ const CustomerManagement: React.FC = () => {
             } else {
               setEditingCustomer(null);
             }
+            setLinkedPatientId(null);
+            setCreatePatient(false);
+            setPreviousPrescription(null);
             setShowForm(!showForm);
           }}
           sx={{ mb: 3 }}
@@ -1076,6 +1189,12 @@ const CustomerManagement: React.FC = () => {
             <Typography variant="h6" gutterBottom>
               {editingCustomer ? `Edit Customer: ${editingCustomer.name}` : 'Add New Customer'}
             </Typography>
+            {checkInAppointment && !editingCustomer && (
+              <Alert severity="info" sx={{ mb: 2 }} onClose={() => setCheckInAppointment(null)}>
+                Checking in the {new Date(checkInAppointment.slot_start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} appointment
+                {' '}of {checkInAppointment.customer_name}. They will be called around their slot time.
+              </Alert>
+            )}
             <form onSubmit={handleSubmit}>
               <Stepper activeStep={activeStep} sx={{ mb: 4 }}>
                 {steps.map((label) => (
@@ -1128,6 +1247,24 @@ const CustomerManagement: React.FC = () => {
                       required
                     />
                   </Grid>
+                  {!editingCustomer && (
+                    <Grid size={12}>
+                      <PatientMatches
+                        name={formData.name}
+                        contactNumber={formData.contact_number}
+                        birthDate={formData.birth_date}
+                        linkedPatientId={linkedPatientId}
+                        onUse={handleUsePatient}
+                        onClear={() => setLinkedPatientId(null)}
+                      />
+                      {!linkedPatientId && (
+                        <FormControlLabel
+                          control={<Checkbox checked={createPatient} onChange={(e) => setCreatePatient(e.target.checked)} />}
+                          label="New patient: start a patient record for this visit"
+                        />
+                      )}
+                    </Grid>
+                  )}
                   <Grid size={{ xs: 12, sm: 6, lg: 6 }}>
                     <TextField
                       label="Email"
@@ -1146,6 +1283,19 @@ const CustomerManagement: React.FC = () => {
                       type="number"
                     />
                   </Grid>
+                  {!editingCustomer && (
+                    <Grid size={{ xs: 12, sm: 6, lg: 6 }}>
+                      <TextField
+                        label="Birthdate"
+                        type="date"
+                        value={formData.birth_date}
+                        onChange={(e) => handleInputChange('birth_date', e.target.value)}
+                        fullWidth
+                        InputLabelProps={{ shrink: true }}
+                        helperText="Helps find the patient's record on their next visit"
+                      />
+                    </Grid>
+                  )}
                   <Grid size={{ xs: 12, sm: 6, lg: 6 }}>
                     <TextField
                       label="Address"
@@ -1175,6 +1325,19 @@ const CustomerManagement: React.FC = () => {
                       </Select>
                     </FormControl>
                   </Grid>
+                  <Grid size={12}>
+                    <FormControl fullWidth required>
+                      <InputLabel>Service Needed</InputLabel>
+                      <Select
+                        value={formData.service_type}
+                        onChange={(e) => handleInputChange('service_type', e.target.value)}
+                      >
+                        {SERVICE_TYPES.map((type) => (
+                          <MenuItem key={type} value={type}>{getServiceTypeLabel(type)}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
                   <Grid size={12}>
                     <TextField
                       label="Doctor Assigned"
@@ -1213,52 +1376,11 @@ const CustomerManagement: React.FC = () => {
                       Prescription Details
                     </Typography>
                   </Grid>
-                  <Grid size={{ xs: 12, md: 4 }}>
-                    <TextField
-                      label="OD (Right Eye)"
-                      value={formData.prescription.od}
-                      onChange={(e) => handleInputChange('prescription.od', e.target.value)}
-                      fullWidth
-                      error={!!formData.prescription.od && !validatePrescriptionField(formData.prescription.od)}
-                      helperText="Max 50 characters. Allowed: letters, numbers, +, -, ., /, *, (, )"
-                    />
-                  </Grid>
-                  <Grid size={{ xs: 12, md: 4 }}>
-                    <TextField
-                      label="OS (Left Eye)"
-                      value={formData.prescription.os}
-                      onChange={(e) => handleInputChange('prescription.os', e.target.value)}
-                      fullWidth
-                      error={!!formData.prescription.os && !validatePrescriptionField(formData.prescription.os)}
-                      helperText="Max 50 characters. Allowed: letters, numbers, +, -, ., /, *, (, )"
-                    />
-                  </Grid>
-                  <Grid size={{ xs: 12, md: 4 }}>
-                    <TextField
-                      label="OU (Both Eyes)"
-                      value={formData.prescription.ou}
-                      onChange={(e) => handleInputChange('prescription.ou', e.target.value)}
-                      fullWidth
-                      error={!!formData.prescription.ou && !validatePrescriptionField(formData.prescription.ou)}
-                      helperText="Max 50 characters. Allowed: letters, numbers, +, -, ., /, *, (, )"
-                    />
-                  </Grid>
-                  <Grid size={{ xs: 12, md: 6 }}>
-                    <TextField
-                      label="PD (Pupillary Distance)"
-                      value={formData.prescription.pd}
-                      onChange={(e) => handleInputChange('prescription.pd', e.target.value)}
-                      fullWidth
-                      error={!!formData.prescription.pd && !validatePrescriptionField(formData.prescription.pd)}
-                    />
-                  </Grid>
-                  <Grid size={{ xs: 12, md: 6 }}>
-                    <TextField
-                      label="ADD (Addition)"
-                      value={formData.prescription.add}
-                      onChange={(e) => handleInputChange('prescription.add', e.target.value)}
-                      fullWidth
-                      error={!!formData.prescription.add && !validatePrescriptionField(formData.prescription.add)}
+                  <Grid size={12}>
+                    <PrescriptionFields
+                      value={formData.prescription}
+                      onChange={(prescription) => handleInputChange('prescription', prescription)}
+                      previous={previousPrescription}
                     />
                   </Grid>
                   <Grid size={{ xs: 12, md: 6 }}>
@@ -1774,6 +1896,9 @@ const CustomerManagement: React.FC = () => {
                       </TableCell>
                       <TableCell sx={{ position: 'sticky', left: 100, backgroundColor: 'background.paper', zIndex: 9 }}>
                         <Box sx={{ fontWeight: 'medium' }}>{customer.name}</Box>
+                        {customer.details_pending && (
+                          <Chip label="Kiosk – details pending" size="small" color="warning" variant="outlined" />
+                        )}
                       </TableCell>
                       <TableCell>
                         <Box sx={{ maxWidth: 120, overflow: 'hidden', textOverflow: 'ellipsis' }}>
@@ -1939,6 +2064,20 @@ const CustomerManagement: React.FC = () => {
           <ListItemIcon><ViewIcon /></ListItemIcon>
           <ListItemText>View Details</ListItemText>
         </MenuItem>
+        <MenuItem onClick={handleViewPatientRecord}>
+          <ListItemIcon><HistoryIcon /></ListItemIcon>
+          <ListItemText>Patient Record</ListItemText>
+        </MenuItem>
+        {(user?.role === 'admin' || user?.role === 'sales') && (
+          <MenuItem onClick={handleStartJobOrder}>
+            <ListItemIcon><JobOrderIcon /></ListItemIcon>
+            <ListItemText>Start Job Order</ListItemText>
+          </MenuItem>
+        )}
+        <MenuItem onClick={handleReleaseOrder}>
+          <ListItemIcon><ReleaseIcon /></ListItemIcon>
+          <ListItemText>{selectedCustomer?.released_at ? 'View Release' : 'Release Order'}</ListItemText>
+        </MenuItem>
         <MenuItem onClick={() => selectedCustomer && handleExportCustomerFormat(selectedCustomer, 'excel')}>
           <ListItemIcon><ExportIcon /></ListItemIcon>
           <ListItemText>Export to Excel</ListItemText>
@@ -1963,6 +2102,50 @@ const CustomerManagement: React.FC = () => {
         )}
       </Menu>
       
+      {/* Patient record: visit timeline, or linking an unlinked visit */}
+      <PatientRecordDialog
+        open={showPatientRecord}
+        customer={selectedCustomer}
+        canEdit={user?.role === 'admin' || user?.role === 'sales'}
+        onClose={() => {
+          setShowPatientRecord(false);
+          setSelectedCustomer(null);
+        }}
+        onChanged={fetchCustomers}
+      />
+
+      {/* Lab job order for the visit's eyewear, tracked on the job order board */}
+      <CreateJobOrderDialog
+        open={showCreateJobOrder}
+        customer={selectedCustomer}
+        onClose={() => {
+          setShowCreateJobOrder(false);
+          setSelectedCustomer(null);
+        }}
+        onCreated={(jobOrder) => {
+          setShowCreateJobOrder(false);
+          setSelectedCustomer(null);
+          setSuccessMessage(`Job order #${jobOrder.id} started for ${jobOrder.customer_name}`);
+        }}
+      />
+
+      {/* Pickup at the counter: texted code or representative, signature, balance check */}
+      <ReleaseDialog
+        open={showRelease}
+        customer={selectedCustomer}
+        isAdmin={user?.role === 'admin' || user?.role === 'super_admin'}
+        onClose={() => {
+          setShowRelease(false);
+          setSelectedCustomer(null);
+        }}
+        onReleased={(release) => {
+          setShowRelease(false);
+          setSelectedCustomer(null);
+          setSuccessMessage(`Order released to ${release.received_by}`);
+          fetchCustomers();
+        }}
+      />
+
       {/* Customer Details Dialog */}
       <Dialog 
         open={showCustomerDialog} 
@@ -2012,6 +2195,10 @@ const CustomerManagement: React.FC = () => {
                       <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>Distribution:</Typography>
                       <Typography variant="body2">{selectedCustomer.distribution_info}</Typography>
                     </Box>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                      <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>Service:</Typography>
+                      <Typography variant="body2">{getServiceTypeLabel(selectedCustomer.service_type)}</Typography>
+                    </Box>
                     <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                       <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>Sales Agent:</Typography>
                       <Typography variant="body2">{selectedCustomer.sales_agent_name || 'N/A'}</Typography>
@@ -2027,26 +2214,7 @@ const CustomerManagement: React.FC = () => {
                     Prescription Details
                   </Typography>
                   <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
-                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-                      <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>OD (Right Eye):</Typography>
-                      <Typography variant="body2">{selectedCustomer.prescription.od}</Typography>
-                    </Box>
-                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-                      <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>OS (Left Eye):</Typography>
-                      <Typography variant="body2">{selectedCustomer.prescription.os}</Typography>
-                    </Box>
-                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-                      <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>OU (Both Eyes):</Typography>
-                      <Typography variant="body2">{selectedCustomer.prescription.ou}</Typography>
-                    </Box>
-                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-                      <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>PD (Pupillary Distance):</Typography>
-                      <Typography variant="body2">{selectedCustomer.prescription.pd}</Typography>
-                    </Box>
-                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-                      <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>ADD (Addition):</Typography>
-                      <Typography variant="body2">{selectedCustomer.prescription.add}</Typography>
-                    </Box>
+                    <PrescriptionTable prescription={selectedCustomer.prescription} previous={previousPrescription} />
                     <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                       <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>Grade Type:</Typography>
                       <Typography variant="body2">{selectedCustomer.grade_type}</Typography>
@@ -2129,8 +2297,22 @@ const CustomerManagement: React.FC = () => {
                       <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>Last Updated:</Typography>
                       <Typography variant="body2">{new Date(selectedCustomer.updated_at).toLocaleString()}</Typography>
                     </Box>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                      <Typography variant="body2" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>Released:</Typography>
+                      <Typography variant="body2">
+                        {selectedCustomer.released_at
+                          ? `${new Date(selectedCustomer.released_at).toLocaleString()} to ${selectedCustomer.released_to}`
+                          : 'Not yet'}
+                      </Typography>
+                    </Box>
                   </Box>
                 </Grid>
+                <Grid size={{ xs: 12 }}>
+                  <ShipmentsPanel
+                    customer={selectedCustomer}
+                    canEdit={user?.role === 'admin' || user?.role === 'sales'}
+                  />
+                </Grid>
               </Grid>
             </Box>
           )}
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Alert, AlertTitle, Box, Button, Chip, Stack, Typography } from '@mui/material';
+import { PatientApi } from '../../services/patientApi';
+import { PatientMatch, PatientMatchField, PatientPrefill } from '../../types';
+
+// Wait for the typing to settle before looking profiles up
+const LOOKUP_DELAY_MS = 500;
+
+const MATCH_LABELS: Record<PatientMatchField, string> = {
+  contact_number: 'Same phone',
+  name: 'Same name',
+  birth_date: 'Same birthdate'
+};
+
+interface PatientMatchesProps {
+  name: string;
+  contactNumber: string;
+  birthDate: string;
+  linkedPatientId: number | null;
+  onUse: (prefill: PatientPrefill) => void;
+  onClear: () => void;
+}
+
+/**
+ * Returning patient suggestions on the registration form. Profiles sharing the phone number
+ * or name are listed; staff pick one to link the visit and prefill the form from it.
+ */
+const PatientMatches: React.FC<PatientMatchesProps> = ({ name, contactNumber, birthDate, linkedPatientId, onUse, onClear }) => {
+  const [matches, setMatches] = useState<PatientMatch[]>([]);
+  const [loadingId, setLoadingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (linkedPatientId) return;
+    if (name.trim().length < 2 && contactNumber.replace(/\D/g, '').length < 7) {
+      setMatches([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        setMatches(await PatientApi.findMatches({
+          name: name.trim() || undefined,
+          contact_number: contactNumber.trim() || undefined,
+          birth_date: birthDate || undefined
+        }));
+      } catch (err) {
+        // Registering without a suggestion still works
+        console.error('Error looking up patient matches:', err);
+      }
+    }, LOOKUP_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [name, contactNumber, birthDate, linkedPatientId]);
+
+  const handleUse = async (match: PatientMatch) => {
+    setLoadingId(match.patient.id);
+    try {
+      onUse(await PatientApi.getPrefill(match.patient.id));
+    } catch (err) {
+      console.error('Error loading patient profile:', err);
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  if (linkedPatientId) {
+    return (
+      <Alert
+        severity="success"
+        action={<Button color="inherit" size="small" onClick={onClear}>Not the same person</Button>}
+      >
+        Returning patient: this visit will be added to their record (profile #{linkedPatientId}).
+      </Alert>
+    );
+  }
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert severity="info">
+      <AlertTitle>Returning patient?</AlertTitle>
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        These patient records share details with this registration. Check that it is the same person before using one.
+      </Typography>
+      <Stack spacing={1}>
+        {matches.map((match) => (
+          <Box key={match.patient.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Box sx={{ flex: 1, minWidth: 200 }}>
+              <Typography variant="body2" sx={{ fontWeight: 'bold' }}>{match.patient.name}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {[
+                  match.patient.contact_number,
+                  match.patient.birth_date && `born ${match.patient.birth_date}`,
+                  `${match.patient.visit_count || 0} visit(s)`,
+                  match.patient.last_visit_at && `last ${new Date(match.patient.last_visit_at).toLocaleDateString()}`
+                ].filter(Boolean).join(' · ')}
+              </Typography>
+            </Box>
+            {match.matched_on.map((field) => (
+              <Chip key={field} label={MATCH_LABELS[field]} size="small" />
+            ))}
+            <Button size="small" variant="outlined" disabled={loadingId !== null} onClick={() => handleUse(match)}>
+              {loadingId === match.patient.id ? 'Loading...' : 'Same patient'}
+            </Button>
+          </Box>
+        ))}
+      </Stack>
+    </Alert>
+  );
+};
+
+export default PatientMatches;
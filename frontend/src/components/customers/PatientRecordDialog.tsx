@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { PatientApi } from '../../services/patientApi';
+import { PatientMatch, PatientTimeline, PatientVisit } from '../../types';
+import { getServiceTypeLabel } from '../../utils/serviceTypes';
+import { comparePrescriptions, describeChange, formatEyePrescription, hasPrescription } from '../../utils/prescription';
+
+interface PatientRecordDialogProps {
+  open: boolean;
+  customer: { id: number; name: string; contact_number: string; patient_id?: number | null } | null;
+  canEdit: boolean; // linking is for sales and admins
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const peso = (amount: number) => `₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const prescriptionSummary = (visit: PatientVisit): string => {
+  const { od, os, pd } = visit.prescription || {};
+  const parts = [
+    od && formatEyePrescription(od) && `OD ${formatEyePrescription(od)}`,
+    os && formatEyePrescription(os) && `OS ${formatEyePrescription(os)}`,
+    pd && `PD ${pd}`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : '—';
+};
+
+// What changed since the patient's previous prescription; visits are newest first
+const prescriptionChanges = (visits: PatientVisit[], index: number): string | null => {
+  if (!hasPrescription(visits[index].prescription)) return null;
+  const previous = visits.slice(index + 1).find((visit) => hasPrescription(visit.prescription));
+  if (!previous) return null;
+  const changes = comparePrescriptions(previous.prescription, visits[index].prescription);
+  return changes.length > 0 ? changes.map(describeChange).join('; ') : 'No change';
+};
+
+/**
+ * A visit's patient record: the visit timeline of the patient it is linked to, or for an
+ * unlinked visit, the profiles it may belong to so staff can link it (or start a new one).
+ */
+const PatientRecordDialog: React.FC<PatientRecordDialogProps> = ({ open, customer, canEdit, onClose, onChanged }) => {
+  const [timeline, setTimeline] = useState<PatientTimeline | null>(null);
+  const [matches, setMatches] = useState<PatientMatch[]>([]);
+  const [birthDate, setBirthDate] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!customer) return;
+    setLoading(true);
+    setError(null);
+    try {
+      if (customer.patient_id) {
+        setTimeline(await PatientApi.getTimeline(customer.patient_id));
+        setMatches([]);
+      } else {
+        setTimeline(null);
+        setMatches(await PatientApi.findMatches({ name: customer.name, contact_number: customer.contact_number }));
+      }
+    } catch (err) {
+      console.error('Error loading patient record:', err);
+      setError('Failed to load the patient record');
+    } finally {
+      setLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    if (open) {
+      setBirthDate('');
+      load();
+    }
+  }, [open, load]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      onChanged();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || failure);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLink = (match: PatientMatch) => {
+    if (!customer) return;
+    run(async () => setTimeline(await PatientApi.linkVisit(match.patient.id, customer.id)), 'Failed to link the visit');
+  };
+
+  const handleCreate = () => {
+    if (!customer) return;
+    run(async () => {
+      const patient = await PatientApi.createFromVisit(customer.id, birthDate || null);
+      setTimeline(await PatientApi.getTimeline(patient.id));
+    }, 'Failed to create the patient record');
+  };
+
+  const handleUnlink = () => {
+    if (!customer || !window.confirm('Take this visit off the patient record?')) return;
+    run(async () => {
+      await PatientApi.unlinkVisit(customer.id);
+      setTimeline(null);
+      setMatches(await PatientApi.findMatches({ name: customer.name, contact_number: customer.contact_number }));
+    }, 'Failed to unlink the visit');
+  };
+
+  const renderTimeline = (record: PatientTimeline) => (
+    <Stack spacing={2}>
+      <Box>
+        <Typography variant="h6">{record.patient.name}</Typography>
+        <Typography variant="body2" color="text.secondary">
+          {[
+            record.patient.contact_number,
+            record.patient.email,
+            record.patient.birth_date && `Born ${record.patient.birth_date}`,
+            record.patient.address
+          ].filter(Boolean).join(' · ')}
+        </Typography>
+      </Box>
+      {record.total_balance > 0 && (
+        <Alert severity="warning">Outstanding balance across visits: {peso(record.total_balance)}</Alert>
+      )}
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>OR Number</TableCell>
+              <TableCell>Service</TableCell>
+              <TableCell>Prescription</TableCell>
+              <TableCell>Lens / Frame</TableCell>
+              <TableCell>Released</TableCell>
+              <TableCell align="right">Amount</TableCell>
+              <TableCell align="right">Balance</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {record.visits.map((visit, index) => {
+              const changes = prescriptionChanges(record.visits, index);
+              return (
+                <TableRow key={visit.customer_id} selected={visit.customer_id === customer?.id}>
+                  <TableCell>{new Date(visit.created_at).toLocaleDateString()}</TableCell>
+                  <TableCell>{visit.or_number}</TableCell>
+                  <TableCell>
+                    {getServiceTypeLabel(visit.service_type)}
+                    {visit.doctor_assigned && (
+                      <Typography variant="caption" display="block" color="text.secondary">{visit.doctor_assigned}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {prescriptionSummary(visit)}
+                    {changes && (
+                      <Typography variant="caption" display="block" color="text.secondary">{changes}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {[visit.grade_type, visit.lens_type, visit.frame_code].filter(Boolean).join(' · ') || '—'}
+                  </TableCell>
+                  <TableCell>
+                    {visit.released_at ? (
+                      <>
+                        {new Date(visit.released_at).toLocaleDateString()}
+                        <Typography variant="caption" display="block" color="text.secondary">{visit.released_to}</Typography>
+                      </>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell align="right">{peso(visit.amount)}</TableCell>
+                  <TableCell align="right">
+                    {visit.balance_amount > 0
+                      ? <Chip label={peso(visit.balance_amount)} size="small" color="warning" />
+                      : peso(0)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Stack>
+  );
+
+  const renderUnlinked = () => (
+    <Stack spacing={2}>
+      <Alert severity="info">
+        This visit is not linked to a patient record yet.
+        {matches.length > 0 ? ' These records share details with it; link it once you have checked it is the same person.' : ''}
+      </Alert>
+      {matches.map((match) => (
+        <Box key={match.patient.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+          <Box sx={{ flex: 1, minWidth: 200 }}>
+            <Typography variant="body2" sx={{ fontWeight: 'bold' }}>{match.patient.name}</Typography>
+            <Typography variant="caption" color="text.secondary">
+              {[match.patient.contact_number, match.patient.birth_date && `born ${match.patient.birth_date}`, `${match.patient.visit_count || 0} visit(s)`]
+                .filter(Boolean).join(' · ')}
+            </Typography>
+          </Box>
+          {canEdit && (
+            <Button size="small" variant="outlined" disabled={saving} onClick={() => handleLink(match)}>
+              Link to this patient
+            </Button>
+          )}
+        </Box>
+      ))}
+      {canEdit && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+          <TextField
+            label="Birthdate (optional)"
+            type="date"
+            size="small"
+            value={birthDate}
+            onChange={(e) => setBirthDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button variant="contained" disabled={saving} onClick={handleCreate}>
+            New patient record
+          </Button>
+        </Box>
+      )}
+    </Stack>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Patient Record</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : timeline ? renderTimeline(timeline) : renderUnlinked()}
+      </DialogContent>
+      <DialogActions>
+        {timeline && canEdit && (
+          <Button color="warning" disabled={saving} onClick={handleUnlink}>
+            Unlink this visit
+          </Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PatientRecordDialog;
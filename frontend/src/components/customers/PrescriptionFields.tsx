@@ -0,0 +1,129 @@
+import React from 'react';
+import {
+  Box,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Prescription } from '../../types';
+import {
+  binocularPdError,
+  Eye,
+  EYE_FIELDS,
+  EYE_LABELS,
+  EyeField,
+  eyeFieldError,
+  EYES,
+  formatEyeField,
+  PRISM_BASES,
+  PrescriptionForm
+} from '../../utils/prescription';
+
+interface PrescriptionFieldsProps {
+  value: PrescriptionForm;
+  onChange: (value: PrescriptionForm) => void;
+  previous?: Prescription | null; // the patient's last prescription, to show what changed
+}
+
+/**
+ * Prescription entry in the usual table layout: one row per eye, then the binocular PD and notes
+ */
+const PrescriptionFields: React.FC<PrescriptionFieldsProps> = ({ value, onChange, previous }) => {
+  const handleEyeChange = (eye: Eye, field: EyeField, fieldValue: string) => {
+    onChange({ ...value, [eye]: { ...value[eye], [field]: fieldValue } });
+  };
+
+  // What the field was on the last visit, when it differs from what is entered now
+  const previousText = (eye: Eye, field: EyeField): string | null => {
+    if (!previous) return null;
+    const before = formatEyeField(field, previous[eye]?.[field]);
+    const now = value[eye][field].trim() === '' ? '' : formatEyeField(field, field === 'base' ? value[eye][field] : Number(value[eye][field]));
+    return before !== now ? `was ${before || '—'}` : null;
+  };
+
+  const pdError = binocularPdError(value.pd);
+
+  return (
+    <Box>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell />
+              {EYE_FIELDS.map(({ key, label }) => (
+                <TableCell key={key}>{label}</TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {EYES.map((eye) => (
+              <TableRow key={eye}>
+                <TableCell sx={{ fontWeight: 'bold', whiteSpace: 'nowrap' }}>{EYE_LABELS[eye]}</TableCell>
+                {EYE_FIELDS.map(({ key, label }) => {
+                  const error = eyeFieldError(key, value[eye]);
+                  const change = previousText(eye, key);
+                  return (
+                    <TableCell key={key} sx={{ minWidth: key === 'base' ? 90 : 80, verticalAlign: 'top' }}>
+                      <TextField
+                        size="small"
+                        select={key === 'base'}
+                        value={value[eye][key]}
+                        onChange={(e) => handleEyeChange(eye, key, e.target.value)}
+                        type={key === 'base' ? undefined : 'number'}
+                        inputProps={{
+                          'aria-label': `${EYE_LABELS[eye]} ${label}`,
+                          step: key === 'axis' ? 1 : key === 'pd' ? 0.5 : 0.25
+                        }}
+                        error={!!error}
+                        helperText={error || change || ' '}
+                        FormHelperTextProps={{ sx: { color: !error && change ? 'warning.main' : undefined, mx: 0 } }}
+                        fullWidth
+                      >
+                        {key === 'base' && [
+                          <MenuItem key="" value=""><em>None</em></MenuItem>,
+                          ...PRISM_BASES.map((base) => <MenuItem key={base} value={base}>{base}</MenuItem>)
+                        ]}
+                      </TextField>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <Box sx={{ display: 'flex', gap: 2, mt: 2, flexWrap: 'wrap' }}>
+        <TextField
+          label="PD (both eyes, mm)"
+          type="number"
+          value={value.pd}
+          onChange={(e) => onChange({ ...value, pd: e.target.value })}
+          error={!!pdError}
+          helperText={pdError || 'When monocular PDs were not measured'}
+          inputProps={{ step: 0.5 }}
+          sx={{ width: 220 }}
+        />
+        <TextField
+          label="Prescription Notes"
+          value={value.notes}
+          onChange={(e) => onChange({ ...value, notes: e.target.value })}
+          inputProps={{ maxLength: 500 }}
+          sx={{ flex: 1, minWidth: 240 }}
+        />
+      </Box>
+      {previous && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          Fields that differ from the patient's previous prescription show what it was.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default PrescriptionFields;
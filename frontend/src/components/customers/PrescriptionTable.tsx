@@ -0,0 +1,85 @@
+import React from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { Prescription } from '../../types';
+import {
+  comparePrescriptions,
+  describeChange,
+  EYE_FIELDS,
+  EYE_LABELS,
+  EYES,
+  formatEyeField,
+  hasPrescription
+} from '../../utils/prescription';
+
+interface PrescriptionTableProps {
+  prescription?: Prescription | null;
+  previous?: Prescription | null; // the patient's previous prescription, to list what changed
+}
+
+/**
+ * A prescription in the usual table layout, with the changes since the previous one
+ */
+const PrescriptionTable: React.FC<PrescriptionTableProps> = ({ prescription, previous }) => {
+  if (!hasPrescription(prescription)) {
+    return <Typography variant="body2" color="text.secondary">No prescription recorded</Typography>;
+  }
+
+  const changes = previous ? comparePrescriptions(previous, prescription) : [];
+
+  return (
+    <Box>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell />
+              {EYE_FIELDS.map(({ key, label }) => (
+                <TableCell key={key} align="center">{label}</TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {EYES.map((eye) => (
+              <TableRow key={eye}>
+                <TableCell sx={{ fontWeight: 'bold', whiteSpace: 'nowrap' }}>{EYE_LABELS[eye]}</TableCell>
+                {EYE_FIELDS.map(({ key }) => (
+                  <TableCell
+                    key={key}
+                    align="center"
+                    sx={{ bgcolor: changes.some((change) => change.eye === eye && change.field === key) ? 'warning.light' : undefined }}
+                  >
+                    {formatEyeField(key, prescription?.[eye]?.[key]) || '—'}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      {prescription?.pd && (
+        <Typography variant="body2" sx={{ mt: 1 }}>PD (both eyes): {prescription.pd} mm</Typography>
+      )}
+      {prescription?.notes && (
+        <Typography variant="body2" sx={{ mt: 1 }}>Notes: {prescription.notes}</Typography>
+      )}
+      {previous && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          {changes.length > 0
+            ? `Changed since the previous visit: ${changes.map(describeChange).join('; ')}`
+            : 'Same as the previous visit'}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default PrescriptionTable;
@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { ReleaseApi } from '../../services/releaseApi';
+import { OrderRelease, ReleaseStatus, ReleaseVerification } from '../../types';
+import SignaturePad from './SignaturePad';
+
+interface ReleaseDialogProps {
+  open: boolean;
+  customer: { id: number; name: string; or_number: string; contact_number: string } | null;
+  isAdmin: boolean; // only admins can release an order that still has a balance
+  onClose: () => void;
+  onReleased: (release: OrderRelease) => void;
+}
+
+const peso = (amount: number) => `₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Release a visit's eyewear at the counter. The customer reads back a code texted to their
+ * number, or staff record an authorized representative; whoever picks it up signs on screen.
+ * A released order shows who took it instead.
+ */
+const ReleaseDialog: React.FC<ReleaseDialogProps> = ({ open, customer, isAdmin, onClose, onReleased }) => {
+  const [status, setStatus] = useState<ReleaseStatus | null>(null);
+  const [verification, setVerification] = useState<ReleaseVerification>('sms_code');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState<{ sent_to: string; expires_at: string } | null>(null);
+  const [representativeName, setRepresentativeName] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [overrideBalance, setOverrideBalance] = useState(false);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!customer) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await ReleaseApi.getStatus(customer.id);
+      setStatus(loaded);
+      setCodeSent(loaded.code_expires_at ? { sent_to: customer.contact_number, expires_at: loaded.code_expires_at } : null);
+    } catch (err) {
+      console.error('Error loading release:', err);
+      setError('Failed to load the release');
+    } finally {
+      setLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    if (!open) return;
+    setStatus(null);
+    setVerification('sms_code');
+    setCode('');
+    setCodeSent(null);
+    setRepresentativeName('');
+    setSignature(null);
+    setOverrideBalance(false);
+    setOverrideReason('');
+    load();
+  }, [open, load]);
+
+  const handleSendCode = async () => {
+    if (!customer) return;
+    setSending(true);
+    setError(null);
+    try {
+      setCodeSent(await ReleaseApi.sendCode(customer.id));
+      setCode('');
+    } catch (err: any) {
+      setError(err?.response?.data?.error || 'Failed to send the release code');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRelease = async () => {
+    if (!customer || !signature) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const release = await ReleaseApi.release(customer.id, {
+        verification,
+        code: verification === 'sms_code' ? code : undefined,
+        representative_name: verification === 'representative' ? representativeName : undefined,
+        signature,
+        override_balance: overrideBalance || undefined,
+        override_reason: overrideBalance ? overrideReason : undefined
+      });
+      onReleased(release);
+    } catch (err: any) {
+      setError(err?.response?.data?.error || 'Failed to release the order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const release = status?.release;
+  const balance = status?.balance_amount || 0;
+  const blockedByBalance = balance > 0 && !(overrideBalance && overrideReason.trim());
+  const verified = verification === 'sms_code' ? code.trim().length > 0 : representativeName.trim().length > 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {customer ? `Release Order · ${customer.name} (OR ${customer.or_number})` : 'Release Order'}
+      </DialogTitle>
+      <DialogContent>
+        {loading && (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress />
+          </Box>
+        )}
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {release && (
+          <Stack spacing={1}>
+            <Alert severity="success">
+              Released {new Date(release.released_at).toLocaleString()} to {release.received_by}
+              {release.verification === 'sms_code' ? ' (verified by texted code)' : ' (authorized representative)'}
+            </Alert>
+            {release.released_by_name && (
+              <Typography variant="body2" color="text.secondary">Handed over by {release.released_by_name}</Typography>
+            )}
+            {release.balance_override_by && (
+              <Typography variant="body2" color="text.secondary">
+                Released with {peso(release.balance_amount)} unpaid, approved by {release.balance_override_by_name || 'an admin'}
+                {release.balance_override_reason ? `: ${release.balance_override_reason}` : ''}
+              </Typography>
+            )}
+            <Box
+              component="img"
+              src={release.signature}
+              alt={`Signature of ${release.received_by}`}
+              sx={{ maxWidth: '100%', maxHeight: 160, border: 1, borderColor: 'divider', borderRadius: 1, backgroundColor: '#fff' }}
+            />
+          </Stack>
+        )}
+
+        {status && !release && (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {balance > 0 && (
+              <Alert severity="warning">
+                {peso(balance)} is still owed on this order.
+                {isAdmin ? ' Settle it first, or approve releasing it anyway.' : ' Settle it first or ask an admin to approve the release.'}
+              </Alert>
+            )}
+            {balance > 0 && isAdmin && (
+              <Box>
+                <FormControlLabel
+                  control={<Checkbox checked={overrideBalance} onChange={(e) => setOverrideBalance(e.target.checked)} />}
+                  label="Release with the balance unpaid"
+                />
+                {overrideBalance && (
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label="Reason"
+                    value={overrideReason}
+                    onChange={(e) => setOverrideReason(e.target.value)}
+                  />
+                )}
+              </Box>
+            )}
+
+            <TextField
+              select
+              size="small"
+              label="Picked Up By"
+              value={verification}
+              onChange={(e) => setVerification(e.target.value as ReleaseVerification)}
+            >
+              <MenuItem value="sms_code">The customer (code texted to their number)</MenuItem>
+              <MenuItem value="representative">An authorized representative</MenuItem>
+            </TextField>
+
+            {verification === 'sms_code' && (
+              <Box>
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+                  <Button variant="outlined" onClick={handleSendCode} disabled={sending}>
+                    {codeSent ? 'Resend Code' : 'Send Code'}
+                  </Button>
+                  <TextField
+                    size="small"
+                    label="Code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                    inputProps={{ inputMode: 'numeric', maxLength: 6 }}
+                    disabled={!codeSent}
+                    sx={{ flex: 1 }}
+                  />
+                </Stack>
+                <Typography variant="caption" color="text.secondary">
+                  {codeSent
+                    ? `Sent to ${codeSent.sent_to}; it works until ${formatTime(codeSent.expires_at)}.`
+                    : `The code is texted to ${customer?.contact_number || 'the customer'}.`}
+                </Typography>
+              </Box>
+            )}
+
+            {verification === 'representative' && (
+              <TextField
+                size="small"
+                label="Representative's Name"
+                value={representativeName}
+                onChange={(e) => setRepresentativeName(e.target.value)}
+                helperText="Check their ID and the customer's authorization"
+              />
+            )}
+
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>Signature</Typography>
+              <SignaturePad onChange={setSignature} />
+            </Box>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{release ? 'Close' : 'Cancel'}</Button>
+        {status && !release && (
+          <Button
+            variant="contained"
+            onClick={handleRelease}
+            disabled={saving || !verified || !signature || blockedByBalance}
+          >
+            Release
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReleaseDialog;
@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Divider,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { ShipmentApi } from '../../services/shipmentApi';
+import { Courier, DistributionType, Shipment, ShipmentStatus } from '../../types';
+import { formatShopDate, formatShopDateTime, fromShopDate } from '../../utils/jobOrders';
+
+interface ShipmentsPanelProps {
+  customer: { id: number; name: string; distribution_info: string };
+  canEdit: boolean; // booking shipments and changing their status is for sales and admins
+}
+
+const COURIER_LABELS: Record<Courier, string> = {
+  [DistributionType.LALAMOVE]: 'Lalamove',
+  [DistributionType.LBC]: 'LBC'
+};
+
+const STATUS_COLORS: Record<ShipmentStatus, 'default' | 'primary' | 'info' | 'success' | 'warning' | 'error'> = {
+  [ShipmentStatus.PENDING]: 'default',
+  [ShipmentStatus.PICKED_UP]: 'primary',
+  [ShipmentStatus.IN_TRANSIT]: 'primary',
+  [ShipmentStatus.OUT_FOR_DELIVERY]: 'info',
+  [ShipmentStatus.DELIVERED]: 'success',
+  [ShipmentStatus.FAILED]: 'warning',
+  [ShipmentStatus.RETURNED]: 'error',
+  [ShipmentStatus.CANCELLED]: 'default'
+};
+
+const CLOSED_STATUSES = [ShipmentStatus.DELIVERED, ShipmentStatus.RETURNED, ShipmentStatus.CANCELLED];
+
+const statusLabel = (status: string): string =>
+  status.replace(/_/g, ' ').replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+// Only web links are opened; anything else a courier sent is not rendered as a link
+const isWebLink = (url: string): boolean => /^https?:\/\//i.test(url);
+
+const isCourier = (value: string): value is Courier =>
+  value === DistributionType.LALAMOVE || value === DistributionType.LBC;
+
+/**
+ * A customer's Lalamove and LBC shipments: status history, proof of delivery, booking new ones
+ * and updating their status by hand or from the courier
+ */
+const ShipmentsPanel: React.FC<ShipmentsPanelProps> = ({ customer, canEdit }) => {
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // New shipment form
+  const [adding, setAdding] = useState(false);
+  const [courier, setCourier] = useState<Courier>(
+    isCourier(customer.distribution_info) ? customer.distribution_info : DistributionType.LALAMOVE
+  );
+  const [reference, setReference] = useState('');
+  const [fee, setFee] = useState('');
+  const [estimatedDelivery, setEstimatedDelivery] = useState('');
+
+  // Status change for one shipment
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [status, setStatus] = useState<ShipmentStatus>(ShipmentStatus.PICKED_UP);
+  const [description, setDescription] = useState('');
+  const [receivedBy, setReceivedBy] = useState('');
+  const [photoUrl, setPhotoUrl] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setShipments(await ShipmentApi.listForCustomer(customer.id));
+    } catch (err) {
+      console.error('Error loading shipments:', err);
+      setError('Failed to load shipments');
+    } finally {
+      setLoading(false);
+    }
+  }, [customer.id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const replace = (updated: Shipment) => {
+    setShipments((current) => current.map((shipment) => (shipment.id === updated.id ? updated : shipment)));
+  };
+
+  const run = async (id: number, action: () => Promise<Shipment>, failure: string): Promise<boolean> => {
+    setBusyId(id);
+    setError(null);
+    try {
+      replace(await action());
+      return true;
+    } catch (err: any) {
+      setError(err?.response?.data?.error || failure);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    setBusyId(0);
+    setError(null);
+    try {
+      const created = await ShipmentApi.create({
+        customer_id: customer.id,
+        courier,
+        reference: reference.trim() || undefined,
+        fee: fee ? parseFloat(fee) : undefined,
+        estimated_delivery_at: fromShopDate(estimatedDelivery)
+      });
+      setShipments((current) => [created, ...current]);
+      setAdding(false);
+      setReference('');
+      setFee('');
+      setEstimatedDelivery('');
+    } catch (err: any) {
+      setError(err?.response?.data?.error || 'Failed to add the shipment');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startEditing = (shipment: Shipment) => {
+    setEditingId(shipment.id);
+    setStatus(shipment.status === ShipmentStatus.PENDING ? ShipmentStatus.PICKED_UP : shipment.status);
+    setDescription('');
+    setReceivedBy('');
+    setPhotoUrl('');
+  };
+
+  const handleChangeStatus = async (shipment: Shipment) => {
+    const changed = await run(shipment.id, () => ShipmentApi.changeStatus(shipment.id, {
+      status,
+      description: description.trim() || undefined,
+      proof: status === ShipmentStatus.DELIVERED
+        ? { received_by: receivedBy.trim() || null, photo_url: photoUrl.trim() || null }
+        : undefined
+    }), 'Failed to change the status');
+    if (changed) setEditingId(null);
+  };
+
+  const handleRefresh = (shipment: Shipment) => {
+    run(shipment.id, () => ShipmentApi.refresh(shipment.id), 'Failed to get the status from the courier');
+  };
+
+  // Pickup customers only see shipments that were booked anyway
+  if (!isCourier(customer.distribution_info) && shipments.length === 0 && !loading && !error) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="h6" color="primary">Shipments</Typography>
+        {canEdit && !adding && (
+          <Button size="small" onClick={() => setAdding(true)}>Add Shipment</Button>
+        )}
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+      {loading && (
+        <Box display="flex" justifyContent="center" py={2}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {adding && (
+        <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1}>
+            <TextField
+              select
+              size="small"
+              label="Courier"
+              value={courier}
+              onChange={(e) => setCourier(e.target.value as Courier)}
+              sx={{ minWidth: 140 }}
+            >
+              {Object.entries(COURIER_LABELS).map(([value, label]) => (
+                <MenuItem key={value} value={value}>{label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              label={courier === DistributionType.LBC ? 'Waybill Number' : 'Booking Reference'}
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Fee"
+              value={fee}
+              onChange={(e) => setFee(e.target.value)}
+              inputProps={{ min: 0, step: '0.01' }}
+              sx={{ width: 110 }}
+            />
+            <TextField
+              size="small"
+              type="date"
+              label="Estimated Delivery"
+              value={estimatedDelivery}
+              onChange={(e) => setEstimatedDelivery(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Stack>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Delivered to {customer.name} at the address on file.
+          </Typography>
+          <Box display="flex" justifyContent="flex-end" gap={1} sx={{ mt: 1 }}>
+            <Button size="small" onClick={() => setAdding(false)}>Cancel</Button>
+            <Button size="small" variant="contained" onClick={handleCreate} disabled={busyId === 0 || (fee !== '' && parseFloat(fee) < 0)}>
+              Add
+            </Button>
+          </Box>
+        </Paper>
+      )}
+
+      {!loading && shipments.length === 0 && !adding && (
+        <Typography variant="body2" color="text.secondary">No shipments yet.</Typography>
+      )}
+
+      <Stack spacing={1}>
+        {shipments.map((shipment) => {
+          const closed = CLOSED_STATUSES.includes(shipment.status);
+          return (
+            <Paper key={shipment.id} variant="outlined" sx={{ p: 2 }}>
+              <Box display="flex" gap={1} alignItems="center" flexWrap="wrap">
+                <Typography variant="subtitle2">
+                  {COURIER_LABELS[shipment.courier]} {shipment.reference ? `· ${shipment.reference}` : '· no reference yet'}
+                </Typography>
+                <Chip size="small" color={STATUS_COLORS[shipment.status]} label={statusLabel(shipment.status)} />
+                <Typography variant="body2" color="text.secondary" sx={{ ml: 'auto' }}>
+                  Fee ₱{shipment.fee.toFixed(2)}
+                  {shipment.estimated_delivery_at && !closed ? ` · ETA ${formatShopDate(shipment.estimated_delivery_at)}` : ''}
+                </Typography>
+              </Box>
+
+              {(shipment.events || []).map((event) => (
+                <Typography key={event.id} variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                  {formatShopDateTime(event.occurred_at)} · {statusLabel(event.status)}
+                  {event.location ? ` at ${event.location}` : ''}
+                  {event.description ? `: ${event.description}` : ''}
+                  {event.source === 'courier' ? ' (courier)' : event.created_by_name ? ` (${event.created_by_name})` : ''}
+                </Typography>
+              ))}
+
+              {shipment.status === ShipmentStatus.DELIVERED && (
+                <Typography variant="body2" sx={{ mt: 1 }}>
+                  Delivered {formatShopDateTime(shipment.delivered_at)}
+                  {shipment.pod_received_by ? `, received by ${shipment.pod_received_by}` : ''}
+                  {shipment.pod_photo_url && isWebLink(shipment.pod_photo_url) && (
+                    <> · <a href={shipment.pod_photo_url} target="_blank" rel="noopener noreferrer">Photo</a></>
+                  )}
+                  {shipment.pod_notes ? ` · ${shipment.pod_notes}` : ''}
+                </Typography>
+              )}
+
+              {!closed && (
+                <Box display="flex" gap={1} sx={{ mt: 1 }}>
+                  {shipment.reference && (
+                    <Button size="small" onClick={() => handleRefresh(shipment)} disabled={busyId === shipment.id}>
+                      Refresh from Courier
+                    </Button>
+                  )}
+                  {canEdit && editingId !== shipment.id && (
+                    <Button size="small" onClick={() => startEditing(shipment)}>Update Status</Button>
+                  )}
+                </Box>
+              )}
+
+              {editingId === shipment.id && (
+                <>
+                  <Divider sx={{ my: 1 }} />
+                  <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1}>
+                    <TextField
+                      select
+                      size="small"
+                      label="Status"
+                      value={status}
+                      onChange={(e) => setStatus(e.target.value as ShipmentStatus)}
+                      sx={{ minWidth: 170 }}
+                    >
+                      {Object.values(ShipmentStatus).map((candidate) => (
+                        <MenuItem key={candidate} value={candidate}>{statusLabel(candidate)}</MenuItem>
+                      ))}
+                    </TextField>
+                    <TextField
+                      size="small"
+                      label="Note"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      sx={{ flex: 1 }}
+                    />
+                  </Stack>
+                  {status === ShipmentStatus.DELIVERED && (
+                    <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} sx={{ mt: 1 }}>
+                      <TextField
+                        size="small"
+                        label="Received By"
+                        value={receivedBy}
+                        onChange={(e) => setReceivedBy(e.target.value)}
+                        sx={{ flex: 1 }}
+                      />
+                      <TextField
+                        size="small"
+                        label="Photo Link"
+                        value={photoUrl}
+                        onChange={(e) => setPhotoUrl(e.target.value)}
+                        sx={{ flex: 1 }}
+                      />
+                    </Stack>
+                  )}
+                  {(status === ShipmentStatus.PICKED_UP || status === ShipmentStatus.OUT_FOR_DELIVERY) && status !== shipment.status && (
+                    <Typography variant="caption" color="text.secondary">
+                      The customer is texted that the order is on its way.
+                    </Typography>
+                  )}
+                  <Box display="flex" justifyContent="flex-end" gap={1} sx={{ mt: 1 }}>
+                    <Button size="small" onClick={() => setEditingId(null)}>Cancel</Button>
+                    <Button
+                      size="small"
+                      variant="contained"
+                      onClick={() => handleChangeStatus(shipment)}
+                      disabled={
+                        busyId === shipment.id
+                        || status === shipment.status
+                        || (status === ShipmentStatus.DELIVERED && !receivedBy.trim() && !photoUrl.trim())
+                      }
+                    >
+                      Save
+                    </Button>
+                  </Box>
+                </>
+              )}
+            </Paper>
+          );
+        })}
+      </Stack>
+    </Box>
+  );
+};
+
+export default ShipmentsPanel;
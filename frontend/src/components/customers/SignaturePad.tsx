@@ -0,0 +1,112 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { Box, Button, Typography } from '@mui/material';
+
+interface SignaturePadProps {
+  onChange: (signature: string | null) => void; // PNG data URL, or null once cleared
+  height?: number;
+}
+
+/**
+ * A box to sign in with a finger, stylus or mouse
+ */
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, height = 160 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [signed, setSigned] = useState(false);
+
+  // Match the drawing surface to the displayed size so strokes land under the pointer
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.scale(ratio, ratio);
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.strokeStyle = '#000';
+    }
+  }, []);
+
+  const point = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = point(event);
+    context.beginPath();
+    context.moveTo(x, y);
+    // A tap leaves a dot
+    context.lineTo(x + 0.1, y + 0.1);
+    context.stroke();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = point(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    setSigned(true);
+    onChange(event.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (canvas && context) {
+      context.save();
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      context.restore();
+    }
+    setSigned(false);
+    onChange(null);
+  };
+
+  return (
+    <Box>
+      <Box
+        component="canvas"
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        sx={{
+          display: 'block',
+          width: '100%',
+          height,
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1,
+          backgroundColor: '#fff',
+          touchAction: 'none',
+          cursor: 'crosshair'
+        }}
+      />
+      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mt: 0.5 }}>
+        <Typography variant="caption" color="text.secondary">
+          {signed ? 'Signed' : 'Sign inside the box'}
+        </Typography>
+        <Button size="small" onClick={handleClear} disabled={!signed}>Clear</Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default SignaturePad;
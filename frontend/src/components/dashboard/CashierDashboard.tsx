@@ -29,6 +29,7 @@ import {
   Warning as WarningIcon,
 } from '@mui/icons-material';
 import { CustomerRegistrationNotification } from '../notifications/CustomerRegistrationToast';
+import { useEventStream } from '../../hooks/useEventStream';
 
 const CashierDashboard: React.FC = () => {
   const { user } = useAuth();
@@ -105,7 +106,8 @@ const CashierDashboard: React.FC = () => {
       console.log('[CASHIER_DASHBOARD] Connected to WebSocket');
       setIsConnected(true);
       socket.emit('subscribe:customer_registration_notifications');
-      socket.emit('subscribe:queue_updates');
+      socket.emit('subscribe:queue');
+      socket.emit('subscribe:transactions');
     };
 
     const handleDisconnect = () => {
@@ -190,14 +192,29 @@ const CashierDashboard: React.FC = () => {
     socket.on('new_customer_registration_notification', handleNewNotification);
     socket.on('customer_registration_notification', handleLegacyNotification);
     socket.on('queue_stats_update', handleQueueUpdate);
+    // Queue and payment changes (live or replayed after a reconnect) refresh the stats
+    socket.on('queue:update', loadQueueStats);
+    socket.on('queue:status_changed', loadQueueStats);
+    socket.on('transactionUpdated', loadDailyStats);
 
     return () => {
       socket.off('new_customer_registration_notification', handleNewNotification);
       socket.off('customer_registration_notification', handleLegacyNotification);
       socket.off('queue_stats_update', handleQueueUpdate);
+      socket.off('queue:update', loadQueueStats);
+      socket.off('queue:status_changed', loadQueueStats);
+      socket.off('transactionUpdated', loadDailyStats);
     };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [socket]);
 
+  // After a reconnect that missed too much, reload everything
+  useEventStream(socket, () => {
+    loadNotifications();
+    loadQueueStats();
+    loadDailyStats();
+  });
+
   const loadNotifications = async () => {
     try {
       const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
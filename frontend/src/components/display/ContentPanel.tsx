@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Box, Card, CardContent, Typography, Fade, useTheme, alpha } from '@mui/material';
+import { Socket } from 'socket.io-client';
+import { DisplayApi } from '../../services/displayApi';
+import { DisplayContentSlide } from '../../types';
+import { apiUrl } from '../../utils/api';
+
+// Content changes are pushed over display:content; this catches schedules starting and ending
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface ContentPanelProps {
+  socket: Socket | null;
+  // The standalone display's event stream, which also carries display:content
+  events?: EventSource | null;
+  standalone: boolean;
+}
+
+/**
+ * Plays the display's content playlist beside the queue. Renders nothing while there are no
+ * slides, so the queue takes the whole screen.
+ */
+const ContentPanel: React.FC<ContentPanelProps> = ({ socket, events = null, standalone }) => {
+  const theme = useTheme();
+  const [slides, setSlides] = useState<DisplayContentSlide[]>([]);
+  const [index, setIndex] = useState(0);
+
+  const fetchContent = useCallback(async () => {
+    try {
+      setSlides(await DisplayApi.getContent(standalone));
+    } catch (err) {
+      // Keep playing what we have
+      console.error('Error fetching display content:', err);
+    }
+  }, [standalone]);
+
+  useEffect(() => {
+    fetchContent();
+    const interval = setInterval(fetchContent, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchContent]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    socket.on('display:content', fetchContent);
+    return () => {
+      socket.off('display:content', fetchContent);
+    };
+  }, [socket, fetchContent]);
+
+  useEffect(() => {
+    if (!events) return;
+
+    events.addEventListener('display:content', fetchContent);
+    return () => {
+      events.removeEventListener('display:content', fetchContent);
+    };
+  }, [events, fetchContent]);
+
+  // Advance after the current slide's time; a refetch that shortens the list starts over
+  const current = slides[index] || slides[0];
+  useEffect(() => {
+    if (!current) return;
+    if (slides.length === 1) {
+      setIndex(0);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      setIndex(prev => (prev + 1 < slides.length ? prev + 1 : 0));
+    }, current.seconds * 1000);
+    return () => clearTimeout(timer);
+  }, [current, slides.length]);
+
+  if (!current) {
+    return null;
+  }
+
+  return (
+    <Card sx={{
+      width: '30%',
+      minWidth: 300,
+      maxWidth: 560,
+      flexShrink: 0,
+      position: 'sticky',
+      top: 24,
+      minHeight: 420,
+      overflow: 'hidden',
+      display: 'flex',
+      flexDirection: 'column',
+      background: current.type === 'promo'
+        ? `linear-gradient(135deg, ${theme.palette.secondary.main} 0%, ${theme.palette.secondary.dark} 100%)`
+        : `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.05)} 0%, ${alpha(theme.palette.info.main, 0.05)} 100%)`,
+      color: current.type === 'promo' ? 'white' : undefined
+    }}>
+      <Fade in key={current.id} timeout={800}>
+        <CardContent sx={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'center', textAlign: 'center', gap: 2 }}>
+          {current.image_url && (
+            <Box
+              component="img"
+              src={apiUrl(current.image_url)}
+              alt={current.title || ''}
+              sx={{ width: '100%', maxHeight: current.type === 'image' ? '60vh' : '35vh', objectFit: 'contain', borderRadius: 1 }}
+            />
+          )}
+          {current.title && (
+            <Typography variant={current.type === 'promo' ? 'h3' : 'h4'} sx={{ fontWeight: 'bold' }}>
+              {current.title}
+            </Typography>
+          )}
+          {current.body && (
+            <Typography variant={current.type === 'text' ? 'h4' : 'h5'} sx={{ whiteSpace: 'pre-line', opacity: 0.9 }}>
+              {current.body}
+            </Typography>
+          )}
+        </CardContent>
+      </Fade>
+
+      {slides.length > 1 && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', gap: 1, pb: 2 }}>
+          {slides.map(slide => (
+            <Box
+              key={slide.id}
+              sx={{
+                width: 8,
+                height: 8,
+                borderRadius: '50%',
+                bgcolor: 'currentColor',
+                opacity: slide.id === current.id ? 0.9 : 0.3
+              }}
+            />
+          ))}
+        </Box>
+      )}
+    </Card>
+  );
+};
+
+export default ContentPanel;
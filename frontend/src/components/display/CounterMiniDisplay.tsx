@@ -0,0 +1,86 @@
+import React from 'react';
+import { Box, Typography, Chip, useTheme } from '@mui/material';
+import { keyframes } from '@mui/system';
+import { formatTokenNumberWithHash } from '../../utils/tokenFormatter';
+
+const pulse = keyframes`
+  0% { opacity: 1; }
+  50% { opacity: 0.6; }
+  100% { opacity: 1; }
+`;
+
+interface CounterMiniDisplayProps {
+  counter: {
+    name: string;
+    current_customer?: { id: number; token_number: number; token_code?: string | null } | null;
+  } | null;
+  recalled: boolean;
+  message: string | null;
+}
+
+/**
+ * The single_counter layout: one counter's current token, full screen, for a small screen
+ * mounted at the counter. Shows the first counter the display is set to show.
+ */
+const CounterMiniDisplay: React.FC<CounterMiniDisplayProps> = ({ counter, recalled, message }) => {
+  const theme = useTheme();
+  const customer = counter?.current_customer;
+
+  return (
+    <Box sx={{
+      minHeight: '100vh',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      textAlign: 'center',
+      gap: 3,
+      p: 3,
+      boxSizing: 'border-box',
+      background: customer
+        ? `linear-gradient(135deg, ${theme.palette.success.main} 0%, ${theme.palette.success.dark} 100%)`
+        : `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.primary.dark} 100%)`,
+      color: 'white'
+    }}>
+      <Typography sx={{ fontWeight: 'bold', fontSize: 'clamp(2rem, 8vw, 5rem)', textShadow: '2px 2px 4px rgba(0,0,0,0.3)' }}>
+        {counter ? counter.name : 'No counter selected'}
+      </Typography>
+
+      {customer ? (
+        <>
+          <Typography variant="h5" sx={{ opacity: 0.9 }}>
+            NOW SERVING
+          </Typography>
+          <Typography sx={{
+            fontWeight: 'bold',
+            fontFamily: 'monospace',
+            fontSize: 'clamp(4rem, 22vw, 16rem)',
+            lineHeight: 1,
+            textShadow: '4px 4px 8px rgba(0,0,0,0.3)',
+            animation: recalled ? `${pulse} 1s ease-in-out infinite` : undefined
+          }}>
+            {formatTokenNumberWithHash(customer.token_number, customer.token_code)}
+          </Typography>
+          {recalled && (
+            <Chip
+              label="RECALL - Please proceed to the counter"
+              sx={{ bgcolor: theme.palette.warning.main, color: 'white', fontWeight: 'bold', fontSize: '1.25rem', py: 3, px: 1 }}
+            />
+          )}
+        </>
+      ) : (
+        <Typography variant="h4" sx={{ opacity: 0.9 }}>
+          {counter ? 'Please wait to be called' : 'Choose a counter for this display in the admin panel'}
+        </Typography>
+      )}
+
+      {message && (
+        <Typography variant="h5" sx={{ mt: 2, px: 3, py: 2, borderRadius: 2, bgcolor: 'rgba(0,0,0,0.25)' }}>
+          {message}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default CounterMiniDisplay;
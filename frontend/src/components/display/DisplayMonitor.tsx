@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Box,
   Card,
@@ -32,12 +32,22 @@ import {
 import { useSocket } from '../../contexts/SocketContext';
 import { keyframes } from '@mui/system';
 import { formatTokenNumberWithHash } from '../../utils/tokenFormatter';
+import { formatWaitEstimate } from '../../utils/formatters';
+import { AnnouncementSettings, RegistrationStatus } from '../../services/settingsApi';
 import { apiGet, parseApiResponse } from '../../utils/api';
+import { SERVICE_TYPES, countByServiceType, getServiceTypeLabel } from '../../utils/serviceTypes';
+import { useRecallAlerts } from '../../hooks/useRecallAlerts';
+import { useDisplayRemote } from '../../hooks/useDisplayRemote';
+import { useTokenAnnouncements } from '../../hooks/useTokenAnnouncements';
+import { useEventStream } from '../../hooks/useEventStream';
+import ContentPanel from './ContentPanel';
+import CounterMiniDisplay from './CounterMiniDisplay';
 
 interface QueueItem {
   id: number;
   name: string;
   token_number: number;
+  token_code?: string | null;
   queue_status: string;
   priority_flags: {
     senior_citizen: boolean;
@@ -45,6 +55,9 @@ interface QueueItem {
     pwd: boolean;
   };
   estimated_time: number;
+  estimated_wait_range?: { low: number; high: number };
+  service_type?: string;
+  missed_call_count?: number;
   counter_id?: number;
   counter_name?: string;
 }
@@ -53,6 +66,7 @@ interface Counter {
   id: number;
   name: string;
   is_active: boolean;
+  service_types?: string[];
   current_customer?: QueueItem;
 }
 
@@ -93,14 +107,19 @@ const DisplayMonitor: React.FC = () => {
   const isSmallScreen = useMediaQuery('(max-width: 1200px)');
   const [queueData, setQueueData] = useState<QueueItem[]>([]);
   const [counters, setCounters] = useState<Counter[]>([]);
+  const [registrationStatus, setRegistrationStatus] = useState<RegistrationStatus | null>(null);
+  const [pauseStatus, setPauseStatus] = useState<{ paused: boolean; reason: string | null; expectedResumeAt: string | null } | null>(null);
+  const [announcementSettings, setAnnouncementSettings] = useState<AnnouncementSettings | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [previousServingCustomers, setPreviousServingCustomers] = useState<Set<number>>(new Set());
+  // Layout, counters, volume and messages set from Admin Panel > Display Monitors
+  const remote = useDisplayRemote(socket, true);
 
   const playNotificationSound = useCallback(async () => {
-    if (!soundEnabled) {
+    if (!soundEnabled || remote.volume === 0) {
       console.log('Sound is disabled');
       return;
     }
@@ -134,8 +153,9 @@ const DisplayMonitor: React.FC = () => {
       // Configure the sound (800Hz sine wave with fade out)
       oscillator.frequency.value = 800;
       oscillator.type = 'sine';
-      gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.5);
+      const peakGain = 0.3 * remote.volume / 100;
+      gainNode.gain.setValueAtTime(peakGain, audioContext.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(peakGain / 30, audioContext.currentTime + 0.5);
       
       // Play the sound
       oscillator.start(audioContext.currentTime);
@@ -157,14 +177,14 @@ const DisplayMonitor: React.FC = () => {
         // Create a simple data URL for a beep sound
         const beepDataUrl = 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+T4wGcdBSuX3/LXeSYELIHA8N2LRQJY';
         const audio = new Audio(beepDataUrl);
-        audio.volume = 0.3;
+        audio.volume = 0.3 * remote.volume / 100;
         await audio.play();
         console.log('Fallback beep played successfully');
       } catch (fallbackError) {
         console.error('Fallback sound also failed:', fallbackError);
       }
     }
-  }, [soundEnabled]);
+  }, [soundEnabled, remote.volume]);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -177,10 +197,16 @@ const DisplayMonitor: React.FC = () => {
   useEffect(() => {
     fetchQueueData();
     fetchCounters();
+    fetchRegistrationStatus();
+    fetchPauseStatus();
+    fetchAnnouncementSettings();
     
     const interval = setInterval(() => {
       fetchQueueData();
       fetchCounters();
+      fetchRegistrationStatus();
+      fetchPauseStatus();
+      fetchAnnouncementSettings();
     }, 5000); // Refresh every 5 seconds
 
     return () => clearInterval(interval);
@@ -199,9 +225,11 @@ const DisplayMonitor: React.FC = () => {
           id: item.customer?.id || item.id,
           name: item.customer?.name || item.name,
           token_number: item.customer?.token_number || item.token_number || item.position,
+          token_code: item.customer?.token_code || item.token_code,
           queue_status: item.customer?.queue_status || item.queue_status,
           priority_flags: item.customer?.priority_flags || item.priority_flags || { senior_citizen: false, pregnant: false, pwd: false },
           estimated_time: item.estimated_wait_time || item.estimated_time || 0,
+          estimated_wait_range: item.estimated_wait_range,
           counter_id: item.customer?.counter_id || item.counter_id,
           counter_name: item.customer?.counter_name || item.counter_name
         }));
@@ -211,6 +239,7 @@ const DisplayMonitor: React.FC = () => {
         console.log(`WebSocket update: ${wsServingCount} serving customers`);
         
         setQueueData(transformedData);
+        remote.markDataReceived();
         
         // Check for newly serving customers and trigger sound
         const currentServingIds = new Set(
@@ -249,6 +278,20 @@ const DisplayMonitor: React.FC = () => {
       fetchCounters();
     };
 
+    const handleQueueChange = (data: any) => {
+      if (data?.type === 'queue_paused' || data?.type === 'queue_resumed') {
+        fetchPauseStatus();
+        return;
+      }
+      fetchQueueData();
+      fetchCounters();
+    };
+
+    // Rooms are lost on reconnect
+    const handleConnect = () => {
+      socket.emit('subscribe:queue');
+    };
+
     const handleDailyReset = (data: any) => {
       console.log('Daily reset completed:', data);
       // Force immediate data refresh when daily reset completes
@@ -264,14 +307,31 @@ const DisplayMonitor: React.FC = () => {
     socket.on('customer_called', handleCustomerCalled);
     socket.on('status_change', handleQueueUpdate);
     socket.on('daily_reset_completed', handleDailyReset);
+    socket.on('queue:update', handleQueueChange);
+    socket.on('queue:status_changed', handleQueueChange);
+    socket.on('connect', handleConnect);
+    if (socket.connected) {
+      handleConnect();
+    }
     
     return () => {
       socket.off('queue_update', handleQueueUpdate);
       socket.off('customer_called', handleCustomerCalled);
       socket.off('status_change', handleQueueUpdate);
       socket.off('daily_reset_completed', handleDailyReset);
+      socket.off('queue:update', handleQueueChange);
+      socket.off('queue:status_changed', handleQueueChange);
+      socket.off('connect', handleConnect);
     };
-  }, [socket, previousServingCustomers, playNotificationSound]);
+  }, [socket, previousServingCustomers, playNotificationSound, remote.markDataReceived]);
+
+  // After a reconnect that missed too much, fetch everything instead of waiting for the next poll
+  useEventStream(socket, () => {
+    fetchQueueData();
+    fetchCounters();
+    fetchPauseStatus();
+    fetchRegistrationStatus();
+  });
 
   // Initialize serving customers tracking
   useEffect(() => {
@@ -320,9 +380,12 @@ const DisplayMonitor: React.FC = () => {
             id: customer.id,
             name: customer.name,
             token_number: customer.token_number || item.token_number || item.position || 0,
+            token_code: customer.token_code,
             queue_status: customer.queue_status || item.queue_status,
             priority_flags: customer.priority_flags || { senior_citizen: false, pregnant: false, pwd: false },
             estimated_time: item.estimated_wait_time || customer.estimated_time || 0,
+            estimated_wait_range: item.estimated_wait_range,
+            service_type: customer.service_type,
             counter_id: customer.counter_id || item.counter_id,
             counter_name: customer.counter_name || item.counter_name
           };
@@ -330,6 +393,7 @@ const DisplayMonitor: React.FC = () => {
         
         console.log('Transformed display queue data:', transformedData);
         setQueueData(transformedData);
+        remote.markDataReceived();
         setError(null);
       } else {
         const errorText = await response.text();
@@ -352,6 +416,44 @@ const DisplayMonitor: React.FC = () => {
     }
   };
 
+  const fetchPauseStatus = async () => {
+    try {
+      const response = await apiGet('/queue/pause');
+      if (response.ok) {
+        const { paused, pause } = await response.json();
+        setPauseStatus({
+          paused,
+          reason: pause ? pause.reason : null,
+          expectedResumeAt: pause ? pause.expected_resume_at : null
+        });
+      }
+    } catch (error) {
+      console.error('DisplayMonitor: Error fetching pause status:', error);
+    }
+  };
+
+  const fetchAnnouncementSettings = async () => {
+    try {
+      const response = await apiGet('/queue/announcement-settings');
+      if (response.ok) {
+        setAnnouncementSettings(await response.json());
+      }
+    } catch (error) {
+      console.error('DisplayMonitor: Error fetching announcement settings:', error);
+    }
+  };
+
+  const fetchRegistrationStatus = async () => {
+    try {
+      const response = await apiGet('/settings/public/registration-status');
+      if (response.ok) {
+        setRegistrationStatus(await response.json());
+      }
+    } catch (error) {
+      console.error('DisplayMonitor: Error fetching registration status:', error);
+    }
+  };
+
   const fetchCounters = async () => {
     try {
       console.log('DisplayMonitor: About to call apiGet with endpoint: /queue/counters/display');
@@ -409,11 +511,28 @@ const DisplayMonitor: React.FC = () => {
   };
 
 
+  const showQueue = remote.layout !== 'counters_only';
+  const showCounters = remote.layout !== 'queue_only';
+  const visibleCounters = useMemo(() => remote.counterIds
+    ? counters.filter(counter => remote.counterIds!.includes(counter.id))
+    : counters, [counters, remote.counterIds]);
+
+  // Speak "Token A015, please proceed to Counter 2" for the counters this display shows
+  const announceCustomers = useTokenAnnouncements(visibleCounters, announcementSettings, remote.volume, soundEnabled);
+
+  // Re-announce tokens that staff recalled at the counter
+  const recalledCustomerIds = useRecallAlerts(counters, (customerIds) => {
+    playNotificationSound();
+    announceCustomers(customerIds);
+  });
+
   const waitingCustomers = queueData.filter(item => item.queue_status === 'waiting');
   const servingCustomers = queueData.filter(item => item.queue_status === 'serving');
+  const onHoldCustomers = queueData.filter(item => item.queue_status === 'on_hold');
   const priorityCustomers = queueData.filter(item => 
     item.priority_flags.senior_citizen || item.priority_flags.pregnant || item.priority_flags.pwd
   );
+  const waitingByServiceType = countByServiceType(waitingCustomers);
 
   // Debug serving customers count discrepancy
   console.log('DisplayMonitor: SERVING CUSTOMERS ANALYSIS:', {
@@ -482,6 +601,17 @@ const DisplayMonitor: React.FC = () => {
     );
   }
 
+  if (remote.layout === 'single_counter') {
+    const counter = visibleCounters[0] || null;
+    return (
+      <CounterMiniDisplay
+        counter={counter}
+        recalled={!!counter?.current_customer && recalledCustomerIds.has(counter.current_customer.id)}
+        message={remote.message}
+      />
+    );
+  }
+
   return (
     <Box sx={{ 
       minHeight: '100vh', 
@@ -596,7 +726,19 @@ const DisplayMonitor: React.FC = () => {
           </Card>
         </Fade>
 
+        {/* Message from the admin panel */}
+        {remote.message && (
+          <Alert severity="info" variant="filled" sx={{ mb: 3, fontSize: '1.5rem', alignItems: 'center' }}>
+            {remote.message}
+          </Alert>
+        )}
+
+        {/* Queue, with the content playlist beside it on wide screens */}
+        <Box sx={{ display: 'flex', gap: 3, alignItems: 'flex-start' }}>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
         {/* Statistics Cards */}
+        {showQueue && (
+          <>
         <Box sx={{ 
           display: 'flex', 
           gap: isMobile ? 0.5 : isTablet ? 2 : 3, 
@@ -814,7 +956,31 @@ const DisplayMonitor: React.FC = () => {
           </Slide>
         </Box>
 
+        {/* Waiting per service type */}
+        <Fade in timeout={1500}>
+          <Box sx={{ 
+            display: 'flex', 
+            gap: 1, 
+            flexWrap: 'wrap', 
+            justifyContent: 'center',
+            mb: 4
+          }}>
+            {SERVICE_TYPES.map((type) => (
+              <Chip
+                key={type}
+                label={`${getServiceTypeLabel(type)}: ${waitingByServiceType[type]} waiting`}
+                color={waitingByServiceType[type] > 0 ? 'primary' : 'default'}
+                variant={waitingByServiceType[type] > 0 ? 'filled' : 'outlined'}
+                sx={{ fontWeight: 'bold', fontSize: isMobile ? '0.75rem' : '0.9rem' }}
+              />
+            ))}
+          </Box>
+        </Fade>
+          </>
+        )}
+
         {/* Service Counters */}
+        {showCounters && (
         <Fade in timeout={1600}>
           <Box sx={{ mb: 4 }}>
             <Typography variant="h4" gutterBottom sx={{ 
@@ -838,7 +1004,7 @@ const DisplayMonitor: React.FC = () => {
               overflow: 'hidden',
               boxSizing: 'border-box'
             }}>
-              {counters.map((counter, index) => {
+              {visibleCounters.map((counter, index) => {
                 console.log(`DisplayMonitor: Rendering counter ${index + 1}:`, {
                   id: counter.id,
                   name: counter.name,
@@ -874,9 +1040,16 @@ const DisplayMonitor: React.FC = () => {
                     }}>
                       <CardContent sx={{ height: '100%', display: 'flex', flexDirection: 'column', position: 'relative', zIndex: 1 }}>
                         <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
-                          <Typography variant="h5" sx={{ fontWeight: 'bold' }}>
-                            {counter.name}
-                          </Typography>
+                          <Box sx={{ minWidth: 0 }}>
+                            <Typography variant="h5" sx={{ fontWeight: 'bold' }}>
+                              {counter.name}
+                            </Typography>
+                            {counter.service_types && counter.service_types.length < SERVICE_TYPES.length && (
+                              <Typography variant="caption" noWrap sx={{ display: 'block', opacity: 0.85 }}>
+                                {counter.service_types.map(getServiceTypeLabel).join(' · ')}
+                              </Typography>
+                            )}
+                          </Box>
                           <Box sx={{ 
                             p: 1, 
                             borderRadius: '50%', 
@@ -897,7 +1070,7 @@ const DisplayMonitor: React.FC = () => {
                                 textShadow: '2px 2px 4px rgba(0,0,0,0.3)',
                                 animation: `${pulse} 2s ease-in-out infinite`
                               }}>
-                                {formatTokenNumberWithHash(counter.current_customer.token_number)}
+                                {formatTokenNumberWithHash(counter.current_customer.token_number, counter.current_customer.token_code)}
                               </Typography>
                               <Typography variant="h6" sx={{ 
                                 fontWeight: 'medium',
@@ -905,6 +1078,19 @@ const DisplayMonitor: React.FC = () => {
                               }}>
                                 {counter.current_customer.name}
                               </Typography>
+                              {recalledCustomerIds.has(counter.current_customer.id) && (
+                                <Chip
+                                  label="RECALL - Please proceed to the counter"
+                                  size="small"
+                                  sx={{
+                                    mt: 1,
+                                    bgcolor: theme.palette.warning.main,
+                                    color: 'white',
+                                    fontWeight: 'bold',
+                                    animation: `${pulse} 1s ease-in-out infinite`
+                                  }}
+                                />
+                              )}
                             </Box>
                             <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1 }}>
                               {getPriorityIcon(counter.current_customer.priority_flags)}
@@ -958,8 +1144,25 @@ const DisplayMonitor: React.FC = () => {
             </Box>
           </Box>
         </Fade>
+        )}
+
+        {/* Queue paused */}
+        {pauseStatus?.paused && (
+          <Alert severity="info" variant="filled" sx={{ mb: 3, fontSize: '1.25rem', alignItems: 'center' }}>
+            ⏸️ Queue paused{pauseStatus.reason ? ` - ${pauseStatus.reason}` : ''}
+            {pauseStatus.expectedResumeAt && `. We expect to resume at ${new Date(pauseStatus.expectedResumeAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+          </Alert>
+        )}
+
+        {/* Queue closed for today */}
+        {registrationStatus && !registrationStatus.accepting && (
+          <Alert severity="warning" variant="filled" sx={{ mb: 3, fontSize: '1.25rem', alignItems: 'center' }}>
+            🚫 Queue closed for today{registrationStatus.message ? ` - ${registrationStatus.message}` : ''}
+          </Alert>
+        )}
 
         {/* Waiting Queue */}
+        {showQueue && (
         <Fade in timeout={2000}>
           <Card sx={{ 
             background: `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.05)} 0%, ${alpha(theme.palette.info.main, 0.05)} 100%)`,
@@ -1116,7 +1319,7 @@ const DisplayMonitor: React.FC = () => {
                                 textShadow: '2px 2px 4px rgba(0,0,0,0.3)',
                                 fontFamily: 'monospace'
                               }}>
-                                {formatTokenNumberWithHash(customer.token_number)}
+                                {formatTokenNumberWithHash(customer.token_number, customer.token_code)}
                               </Typography>
                             </Box>
                             <Typography variant="h6" sx={{ 
@@ -1126,6 +1329,12 @@ const DisplayMonitor: React.FC = () => {
                             }}>
                               {customer.name}
                             </Typography>
+                            <Typography variant="caption" sx={{ mb: 1, opacity: 0.9 }}>
+                              {getServiceTypeLabel(customer.service_type)}
+                            </Typography>
+                            <Typography variant="caption" sx={{ display: 'block', mb: 1, opacity: 0.9 }}>
+                              ⏱️ {formatWaitEstimate(customer.estimated_time, customer.estimated_wait_range)}
+                            </Typography>
                             <Chip 
                               label={getPriorityLabel(customer.priority_flags)}
                               size="small"
@@ -1181,9 +1390,29 @@ const DisplayMonitor: React.FC = () => {
                   </Typography>
                 </Box>
               )}
+
+              {/* Held tokens keep their place but are not part of the line */}
+              {onHoldCustomers.length > 0 && (
+                <Box sx={{ mt: 4, pt: 3, borderTop: `1px dashed ${alpha(theme.palette.text.secondary, 0.3)}` }}>
+                  <Typography variant="h6" sx={{ fontWeight: 'bold', color: 'text.secondary', mb: 2 }}>
+                    ⏸️ On Hold - Please see the front desk to rejoin the queue
+                  </Typography>
+                  <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+                    {onHoldCustomers.map((customer) => (
+                      <Chip
+                        key={customer.id}
+                        label={formatTokenNumberWithHash(customer.token_number, customer.token_code)}
+                        variant="outlined"
+                        sx={{ fontSize: '1.1rem', fontWeight: 'bold', fontFamily: 'monospace', px: 1, py: 2.5 }}
+                      />
+                    ))}
+                  </Box>
+                </Box>
+              )}
             </CardContent>
           </Card>
         </Fade>
+        )}
         
         {/* Error Display */}
         {error && (
@@ -1193,6 +1422,9 @@ const DisplayMonitor: React.FC = () => {
             </Alert>
           </Slide>
         )}
+          </Box>
+          {!isMobile && <ContentPanel socket={socket} standalone={false} />}
+        </Box>
       </Box>
     </Box>
   );
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Paper, Typography, Alert, CircularProgress } from '@mui/material';
+import { Tv as DisplayIcon } from '@mui/icons-material';
+import { DisplayApi } from '../../services/displayApi';
+import { DisplayPairingRequest } from '../../types';
+
+const CLAIM_INTERVAL_MS = 3000;
+
+interface DisplayPairingProps {
+  onPaired: (token: string) => void;
+}
+
+/**
+ * Shown by a display that has to be paired: the code is entered by an admin under
+ * Admin Panel > Display Monitors, after which this screen collects the device token.
+ */
+const DisplayPairing: React.FC<DisplayPairingProps> = ({ onPaired }) => {
+  const [pairing, setPairing] = useState<DisplayPairingRequest | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get a code, and a new one whenever it runs out
+  useEffect(() => {
+    if (pairing) {
+      const timeout = setTimeout(() => setPairing(null), new Date(pairing.expires_at).getTime() - Date.now());
+      return () => clearTimeout(timeout);
+    }
+
+    let cancelled = false;
+    const start = async () => {
+      try {
+        const request = await DisplayApi.requestPairing();
+        if (!cancelled) {
+          setPairing(request);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('DisplayPairing: Error requesting pairing code:', err);
+        if (!cancelled) {
+          setError('Unable to reach the server. Retrying...');
+          setTimeout(() => !cancelled && start(), CLAIM_INTERVAL_MS * 5);
+        }
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pairing]);
+
+  // Wait for an admin to enter the code
+  useEffect(() => {
+    if (!pairing) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const result = await DisplayApi.claimPairing(pairing.request_id, pairing.secret);
+        if (result) {
+          clearInterval(interval);
+          DisplayApi.setDeviceToken(result.token);
+          onPaired(result.token);
+        }
+      } catch (err: any) {
+        console.error('DisplayPairing: Error checking pairing:', err);
+        if (err.status === 404) {
+          setPairing(null);
+        }
+      }
+    }, CLAIM_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [pairing, onPaired]);
+
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', bgcolor: 'background.default', p: 3 }}>
+      <Paper sx={{ p: 6, textAlign: 'center', maxWidth: 640 }}>
+        <DisplayIcon color="primary" sx={{ fontSize: 64 }} />
+        <Typography variant="h4" fontWeight="bold" gutterBottom>
+          Pair this display
+        </Typography>
+        <Typography variant="h6" color="text.secondary" gutterBottom>
+          In the admin panel, open Display Monitors and enter this code:
+        </Typography>
+
+        {error && (
+          <Alert severity="warning" sx={{ my: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {pairing ? (
+          <Typography sx={{ fontFamily: 'monospace', fontSize: '5rem', fontWeight: 'bold', letterSpacing: '0.3em', my: 3 }}>
+            {pairing.code}
+          </Typography>
+        ) : (
+          <Box py={5}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        <Typography variant="body2" color="text.secondary">
+          The code changes every few minutes. The queue will appear here once the display is paired.
+        </Typography>
+      </Paper>
+    </Box>
+  );
+};
+
+export default DisplayPairing;
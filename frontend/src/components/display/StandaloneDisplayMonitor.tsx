@@ -1,6 +1,7 @@
-import { apiGet, parseApiResponse } from '../../utils/api';
+import { parseApiResponse } from '../../utils/api';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import io, { Socket } from 'socket.io-client';
 import {
   Box,
   Card,
@@ -18,6 +19,7 @@ import {
   Tooltip,
   Divider,
   useTheme,
+  useMediaQuery,
   alpha
 } from '@mui/material';
 import CircularLogo from '../CircularLogo';
@@ -36,11 +38,22 @@ import {
 } from '@mui/icons-material';
 import { keyframes } from '@mui/system';
 import { formatTokenNumberWithHash } from '../../utils/tokenFormatter';
+import { formatWaitEstimate } from '../../utils/formatters';
+import { AnnouncementSettings, RegistrationStatus } from '../../services/settingsApi';
+import { SERVICE_TYPES, countByServiceType, getServiceTypeLabel } from '../../utils/serviceTypes';
+import { useRecallAlerts } from '../../hooks/useRecallAlerts';
+import { useDisplayRemote } from '../../hooks/useDisplayRemote';
+import { useTokenAnnouncements } from '../../hooks/useTokenAnnouncements';
+import { DisplayApi } from '../../services/displayApi';
+import DisplayPairing from './DisplayPairing';
+import ContentPanel from './ContentPanel';
+import CounterMiniDisplay from './CounterMiniDisplay';
 
 interface QueueItem {
   id: number;
   name: string;
   token_number: number;
+  token_code?: string | null;
   queue_status: string;
   priority_flags: {
     senior_citizen: boolean;
@@ -48,6 +61,9 @@ interface QueueItem {
     pwd: boolean;
   };
   estimated_time: number;
+  estimated_wait_range?: { low: number; high: number };
+  service_type?: string;
+  missed_call_count?: number;
   counter_id?: number;
   counter_name?: string;
 }
@@ -56,6 +72,7 @@ interface Counter {
   id: number;
   name: string;
   is_active: boolean;
+  service_types?: string[];
   current_customer?: QueueItem;
 }
 
@@ -89,17 +106,30 @@ const glow = keyframes`
 
 const StandaloneDisplayMonitor: React.FC = () => {
   const theme = useTheme();
+  const isMobile = useMediaQuery('(max-width: 768px)');
   const [queueData, setQueueData] = useState<QueueItem[]>([]);
   const [counters, setCounters] = useState<Counter[]>([]);
+  const [registrationStatus, setRegistrationStatus] = useState<RegistrationStatus | null>(null);
+  const [pauseStatus, setPauseStatus] = useState<{ paused: boolean; reason: string | null; expectedResumeAt: string | null } | null>(null);
+  const [announcementSettings, setAnnouncementSettings] = useState<AnnouncementSettings | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [animationTrigger, setAnimationTrigger] = useState(0);
   const [authToken, setAuthToken] = useState<string | null>(null);
+  const [deviceToken, setDeviceToken] = useState<string | null>(DisplayApi.getDeviceToken());
+  const [needsPairing, setNeedsPairing] = useState(false);
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const [events, setEvents] = useState<EventSource | null>(null);
+  const [eventsConnected, setEventsConnected] = useState(false);
+  // Paired displays are registered by the server on connect; a staff session registers itself
+  const remote = useDisplayRemote(socket, !deviceToken);
 
-  // Get token from URL parameters or localStorage
+  // Get token from URL parameters or localStorage; a paired display doesn't need a user session
   useEffect(() => {
+    if (deviceToken) return;
+
     const urlParams = new URLSearchParams(window.location.search);
     const tokenFromUrl = urlParams.get('token');
     const tokenFromStorage = localStorage.getItem('accessToken');
@@ -111,12 +141,24 @@ const StandaloneDisplayMonitor: React.FC = () => {
     } else if (tokenFromStorage) {
       setAuthToken(tokenFromStorage);
     } else {
-      setError('No authentication token found. Please open this from the main application.');
+      setNeedsPairing(true);
       setLoading(false);
-      return;
     }
   }, []);
 
+  // Revoked token, or unpaired displays were turned off: back to the pairing screen
+  const handleDisplayUnauthorized = () => {
+    DisplayApi.clearDeviceToken();
+    setDeviceToken(null);
+    setNeedsPairing(true);
+  };
+
+  const handlePaired = useCallback((token: string) => {
+    setDeviceToken(token);
+    setNeedsPairing(false);
+    setLoading(true);
+  }, []);
+
   useEffect(() => {
     const timer = setInterval(() => {
       setCurrentTime(new Date());
@@ -125,22 +167,80 @@ const StandaloneDisplayMonitor: React.FC = () => {
     return () => clearInterval(timer);
   }, []);
 
+  // Own socket for remote management, with the device token when paired
+  useEffect(() => {
+    if ((!authToken && !deviceToken) || needsPairing) return;
+
+    const apiUrl = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+    const displaySocket = io(apiUrl.replace('/api', ''), {
+      auth: deviceToken ? { displayToken: deviceToken } : { token: authToken },
+      reconnectionDelay: 3000,
+      reconnectionDelayMax: 10000
+    });
+
+    displaySocket.on('connect_error', (err) => {
+      console.error('StandaloneDisplayMonitor: Socket connection error:', err.message);
+    });
+
+    setSocket(displaySocket);
+    return () => {
+      displaySocket.disconnect();
+      setSocket(null);
+    };
+  }, [authToken, deviceToken, needsPairing]);
+
+  // Change signals over Server-Sent Events, which TV browsers that drop the socket can keep open;
+  // the feeds are refetched on each one (and answer 304 when nothing shown changed)
   useEffect(() => {
-    if (authToken) {
+    if ((!authToken && !deviceToken) || needsPairing || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(DisplayApi.getEventsUrl());
+    const refreshQueue = () => {
       fetchQueueData();
       fetchCounters();
+      fetchPauseStatus();
+    };
+
+    source.onopen = () => {
+      setEventsConnected(true);
+      // Catch up on whatever happened while the stream was down
+      refreshQueue();
+    };
+    source.onerror = () => setEventsConnected(false);
+    source.addEventListener('queue:update', refreshQueue);
+    source.addEventListener('queue:status_changed', refreshQueue);
+    setEvents(source);
+
+    return () => {
+      source.close();
+      setEvents(null);
+      setEventsConnected(false);
+    };
+  }, [authToken, deviceToken, needsPairing]);
+
+  useEffect(() => {
+    if ((authToken || deviceToken) && !needsPairing) {
+      fetchQueueData();
+      fetchCounters();
+      fetchRegistrationStatus();
+      fetchPauseStatus();
+      fetchAnnouncementSettings();
       
+      // Refresh every 5 seconds, or every 30 as a safety net while the event stream is up
       const interval = setInterval(() => {
         fetchQueueData();
         fetchCounters();
-      }, 5000); // Refresh every 5 seconds
+        fetchRegistrationStatus();
+        fetchPauseStatus();
+        fetchAnnouncementSettings();
+      }, eventsConnected ? 30000 : 5000);
 
       return () => clearInterval(interval);
     }
-  }, [authToken]);
+  }, [authToken, deviceToken, needsPairing, eventsConnected]);
 
   const fetchQueueData = async () => {
-    if (!authToken) {
+    if (!authToken && !deviceToken) {
       console.error('StandaloneDisplayMonitor: No auth token available');
       return;
     }
@@ -150,8 +250,13 @@ const StandaloneDisplayMonitor: React.FC = () => {
       console.log('StandaloneDisplayMonitor: Auth token:', authToken ? 'Present' : 'Missing');
       console.log('StandaloneDisplayMonitor: API Base URL from env:', process.env.REACT_APP_API_URL);
       
-      const response = await apiGet('/queue/public/display-all');
+      const response = await DisplayApi.get('/queue/public/display-all');
       console.log('StandaloneDisplayMonitor: Queue API response status:', response.status);
+
+      if (response.status === 401) {
+        handleDisplayUnauthorized();
+        return;
+      }
       
       if (!response.ok) {
         const errorText = await response.text();
@@ -169,9 +274,12 @@ const StandaloneDisplayMonitor: React.FC = () => {
           id: item.customer?.id || item.id,
           name: item.customer?.name || item.name,
           token_number: item.customer?.token_number || item.token_number || item.position,
+          token_code: item.customer?.token_code || item.token_code,
           queue_status: item.customer?.queue_status || item.queue_status,
           priority_flags: item.customer?.priority_flags || item.priority_flags || { senior_citizen: false, pregnant: false, pwd: false },
           estimated_time: item.estimated_wait_time || item.estimated_time || 0,
+          estimated_wait_range: item.estimated_wait_range,
+          service_type: item.customer?.service_type || item.service_type,
           counter_id: item.customer?.counter_id || item.counter_id,
           counter_name: item.customer?.counter_name || item.counter_name
         };
@@ -179,6 +287,7 @@ const StandaloneDisplayMonitor: React.FC = () => {
       
       console.log('StandaloneDisplayMonitor: Transformed queue data:', transformedData);
       setQueueData(transformedData);
+      remote.markDataReceived();
       setAnimationTrigger(prev => prev + 1);
       setError(null);
     } catch (error) {
@@ -190,16 +299,54 @@ const StandaloneDisplayMonitor: React.FC = () => {
     }
   };
 
+  const fetchPauseStatus = async () => {
+    try {
+      const response = await DisplayApi.get('/queue/public/pause-status');
+      if (response.ok) {
+        setPauseStatus(await response.json());
+      }
+    } catch (error) {
+      console.error('StandaloneDisplayMonitor: Error fetching pause status:', error);
+    }
+  };
+
+  const fetchAnnouncementSettings = async () => {
+    try {
+      const response = await DisplayApi.get('/queue/public/announcement-settings');
+      if (response.ok) {
+        setAnnouncementSettings(await response.json());
+      }
+    } catch (error) {
+      console.error('StandaloneDisplayMonitor: Error fetching announcement settings:', error);
+    }
+  };
+
+  const fetchRegistrationStatus = async () => {
+    try {
+      const response = await DisplayApi.get('/queue/public/registration-status');
+      if (response.ok) {
+        setRegistrationStatus(await response.json());
+      }
+    } catch (error) {
+      console.error('StandaloneDisplayMonitor: Error fetching registration status:', error);
+    }
+  };
+
   const fetchCounters = async () => {
-    if (!authToken) {
+    if (!authToken && !deviceToken) {
       console.error('StandaloneDisplayMonitor: No auth token for counters');
       return;
     }
     
     try {
       console.log('StandaloneDisplayMonitor: Fetching counters from /queue/counters/display');
-      const response = await apiGet('/queue/public/counters/display');
+      const response = await DisplayApi.get('/queue/public/counters/display');
       console.log('StandaloneDisplayMonitor: Counters API response status:', response.status);
+
+      if (response.status === 401) {
+        handleDisplayUnauthorized();
+        return;
+      }
       
       if (!response.ok) {
         const errorText = await response.text();
@@ -230,7 +377,7 @@ const StandaloneDisplayMonitor: React.FC = () => {
   };
 
   const playNotificationSound = () => {
-    if (soundEnabled) {
+    if (soundEnabled && remote.volume > 0) {
       // Create a simple notification sound
       const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
       const oscillator = audioContext.createOscillator();
@@ -241,19 +388,37 @@ const StandaloneDisplayMonitor: React.FC = () => {
       
       oscillator.frequency.value = 800;
       oscillator.type = 'sine';
-      gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.5);
+      const peakGain = 0.3 * remote.volume / 100;
+      gainNode.gain.setValueAtTime(peakGain, audioContext.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(peakGain / 30, audioContext.currentTime + 0.5);
       
       oscillator.start(audioContext.currentTime);
       oscillator.stop(audioContext.currentTime + 0.5);
     }
   };
 
+  const showQueue = remote.layout !== 'counters_only';
+  const showCounters = remote.layout !== 'queue_only';
+  const visibleCounters = useMemo(() => remote.counterIds
+    ? counters.filter(counter => remote.counterIds!.includes(counter.id))
+    : counters, [counters, remote.counterIds]);
+
+  // Speak "Token A015, please proceed to Counter 2" for the counters this display shows
+  const announceCustomers = useTokenAnnouncements(visibleCounters, announcementSettings, remote.volume, soundEnabled);
+
+  // Re-announce tokens that staff recalled at the counter
+  const recalledCustomerIds = useRecallAlerts(counters, (customerIds) => {
+    playNotificationSound();
+    announceCustomers(customerIds);
+  });
+
   const waitingCustomers = queueData.filter(item => item.queue_status === 'waiting');
   const servingCustomers = queueData.filter(item => item.queue_status === 'serving');
+  const onHoldCustomers = queueData.filter(item => item.queue_status === 'on_hold');
   const priorityCustomers = queueData.filter(item => 
     item.priority_flags.senior_citizen || item.priority_flags.pregnant || item.priority_flags.pwd
   );
+  const waitingByServiceType = countByServiceType(waitingCustomers);
 
   // Enhanced average wait time calculation with detailed logging and NaN protection
   const averageWaitTime = (() => {
@@ -290,6 +455,10 @@ const StandaloneDisplayMonitor: React.FC = () => {
     return isNaN(average) ? 0 : average; // Final NaN check
   })();
 
+  if (needsPairing) {
+    return <DisplayPairing onPaired={handlePaired} />;
+  }
+
   if (loading) {
     return (
       <Box sx={{ p: 3 }}>
@@ -301,6 +470,17 @@ const StandaloneDisplayMonitor: React.FC = () => {
     );
   }
 
+  if (remote.layout === 'single_counter') {
+    const counter = visibleCounters[0] || null;
+    return (
+      <CounterMiniDisplay
+        counter={counter}
+        recalled={!!counter?.current_customer && recalledCustomerIds.has(counter.current_customer.id)}
+        message={remote.message}
+      />
+    );
+  }
+
   if (error) {
     return (
       <Box sx={{ p: 3, textAlign: 'center' }}>
@@ -410,7 +590,19 @@ const StandaloneDisplayMonitor: React.FC = () => {
           </Card>
         </Fade>
 
+        {/* Message from the admin panel */}
+        {remote.message && (
+          <Alert severity="info" variant="filled" sx={{ mb: 3, fontSize: '1.5rem', alignItems: 'center' }}>
+            {remote.message}
+          </Alert>
+        )}
+
+        {/* Queue, with the content playlist beside it on wide screens */}
+        <Box sx={{ display: 'flex', gap: 3, alignItems: 'flex-start' }}>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
         {/* Statistics Cards */}
+        {showQueue && (
+          <>
         <Box sx={{ display: 'flex', gap: 3, mb: 4, flexWrap: 'wrap' }}>
           {/* Waiting Customers */}
           <Slide direction="up" in timeout={800}>
@@ -602,7 +794,25 @@ const StandaloneDisplayMonitor: React.FC = () => {
           </Slide>
         </Box>
 
+        {/* Waiting per service type */}
+        <Fade in timeout={1500}>
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', justifyContent: 'center', mb: 4 }}>
+            {SERVICE_TYPES.map((type) => (
+              <Chip
+                key={type}
+                label={`${getServiceTypeLabel(type)}: ${waitingByServiceType[type]} waiting`}
+                color={waitingByServiceType[type] > 0 ? 'primary' : 'default'}
+                variant={waitingByServiceType[type] > 0 ? 'filled' : 'outlined'}
+                sx={{ fontWeight: 'bold', fontSize: '0.9rem' }}
+              />
+            ))}
+          </Box>
+        </Fade>
+          </>
+        )}
+
         {/* Service Counters */}
+        {showCounters && (
         <Fade in timeout={1600}>
           <Box sx={{ mb: 4 }}>
             <Typography variant="h4" gutterBottom sx={{ 
@@ -617,7 +827,7 @@ const StandaloneDisplayMonitor: React.FC = () => {
               🏢 Service Counters
             </Typography>
             <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
-              {counters.map((counter, index) => (
+              {visibleCounters.map((counter, index) => (
                 <Zoom in timeout={1800 + (index * 200)} key={counter.id}>
                   <Box sx={{ flex: '1 1 300px', minWidth: '300px', maxWidth: '400px' }}>
                     <Card sx={{ 
@@ -640,9 +850,16 @@ const StandaloneDisplayMonitor: React.FC = () => {
                     }}>
                       <CardContent sx={{ height: '100%', display: 'flex', flexDirection: 'column', position: 'relative', zIndex: 1 }}>
                         <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
-                          <Typography variant="h5" sx={{ fontWeight: 'bold' }}>
-                            {counter.name}
-                          </Typography>
+                          <Box sx={{ minWidth: 0 }}>
+                            <Typography variant="h5" sx={{ fontWeight: 'bold' }}>
+                              {counter.name}
+                            </Typography>
+                            {counter.service_types && counter.service_types.length < SERVICE_TYPES.length && (
+                              <Typography variant="caption" noWrap sx={{ display: 'block', opacity: 0.85 }}>
+                                {counter.service_types.map(getServiceTypeLabel).join(' · ')}
+                              </Typography>
+                            )}
+                          </Box>
                           <Box sx={{ 
                             p: 1, 
                             borderRadius: '50%', 
@@ -663,7 +880,7 @@ const StandaloneDisplayMonitor: React.FC = () => {
                                 textShadow: '2px 2px 4px rgba(0,0,0,0.3)',
                                 animation: `${pulse} 2s ease-in-out infinite`
                               }}>
-                                {formatTokenNumberWithHash(counter.current_customer.token_number)}
+                                {formatTokenNumberWithHash(counter.current_customer.token_number, counter.current_customer.token_code)}
                               </Typography>
                               <Typography variant="h6" sx={{ 
                                 fontWeight: 'medium',
@@ -671,6 +888,19 @@ const StandaloneDisplayMonitor: React.FC = () => {
                               }}>
                                 {counter.current_customer.name}
                               </Typography>
+                              {recalledCustomerIds.has(counter.current_customer.id) && (
+                                <Chip
+                                  label="RECALL - Please proceed to the counter"
+                                  size="small"
+                                  sx={{
+                                    mt: 1,
+                                    bgcolor: theme.palette.warning.main,
+                                    color: 'white',
+                                    fontWeight: 'bold',
+                                    animation: `${pulse} 1s ease-in-out infinite`
+                                  }}
+                                />
+                              )}
                             </Box>
                             <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1 }}>
                               {getPriorityIcon(counter.current_customer.priority_flags)}
@@ -723,8 +953,25 @@ const StandaloneDisplayMonitor: React.FC = () => {
             </Box>
           </Box>
         </Fade>
+        )}
+
+        {/* Queue paused */}
+        {pauseStatus?.paused && (
+          <Alert severity="info" variant="filled" sx={{ mb: 3, fontSize: '1.25rem', alignItems: 'center' }}>
+            ⏸️ Queue paused{pauseStatus.reason ? ` - ${pauseStatus.reason}` : ''}
+            {pauseStatus.expectedResumeAt && `. We expect to resume at ${new Date(pauseStatus.expectedResumeAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+          </Alert>
+        )}
+
+        {/* Queue closed for today */}
+        {registrationStatus && !registrationStatus.accepting && (
+          <Alert severity="warning" variant="filled" sx={{ mb: 3, fontSize: '1.25rem', alignItems: 'center' }}>
+            🚫 Queue closed for today{registrationStatus.message ? ` - ${registrationStatus.message}` : ''}
+          </Alert>
+        )}
 
         {/* Waiting Queue */}
+        {showQueue && (
         <Fade in timeout={2000}>
           <Card sx={{ 
             background: `linear-gradient(135deg, ${alpha(theme.palette.primary.main, 0.05)} 0%, ${alpha(theme.palette.info.main, 0.05)} 100%)`,
@@ -803,7 +1050,7 @@ const StandaloneDisplayMonitor: React.FC = () => {
                                 textShadow: '2px 2px 4px rgba(0,0,0,0.3)',
                                 fontFamily: 'monospace'
                               }}>
-                                {formatTokenNumberWithHash(customer.token_number)}
+                                {formatTokenNumberWithHash(customer.token_number, customer.token_code)}
                               </Typography>
                             </Box>
                             <Typography variant="h6" sx={{ 
@@ -813,6 +1060,12 @@ const StandaloneDisplayMonitor: React.FC = () => {
                             }}>
                               {customer.name}
                             </Typography>
+                            <Typography variant="caption" sx={{ mb: 1, opacity: 0.9 }}>
+                              {getServiceTypeLabel(customer.service_type)}
+                            </Typography>
+                            <Typography variant="caption" sx={{ display: 'block', mb: 1, opacity: 0.9 }}>
+                              ⏱️ {formatWaitEstimate(customer.estimated_time, customer.estimated_wait_range)}
+                            </Typography>
                             <Chip 
                               label={getPriorityLabel(customer.priority_flags)}
                               size="small"
@@ -868,9 +1121,32 @@ const StandaloneDisplayMonitor: React.FC = () => {
                   </Typography>
                 </Box>
               )}
+
+              {/* Held tokens keep their place but are not part of the line */}
+              {onHoldCustomers.length > 0 && (
+                <Box sx={{ mt: 4, pt: 3, borderTop: `1px dashed ${alpha(theme.palette.text.secondary, 0.3)}` }}>
+                  <Typography variant="h6" sx={{ fontWeight: 'bold', color: 'text.secondary', mb: 2 }}>
+                    ⏸️ On Hold - Please see the front desk to rejoin the queue
+                  </Typography>
+                  <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+                    {onHoldCustomers.map((customer) => (
+                      <Chip
+                        key={customer.id}
+                        label={formatTokenNumberWithHash(customer.token_number, customer.token_code)}
+                        variant="outlined"
+                        sx={{ fontSize: '1.1rem', fontWeight: 'bold', fontFamily: 'monospace', px: 1, py: 2.5 }}
+                      />
+                    ))}
+                  </Box>
+                </Box>
+              )}
             </CardContent>
           </Card>
         </Fade>
+        )}
+          </Box>
+          {!isMobile && <ContentPanel socket={socket} events={events} standalone />}
+        </Box>
       </Box>
     </Box>
   );
@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { JobOrderApi } from '../../services/jobOrderApi';
+import { JobOrder } from '../../types';
+import { fromShopDate, toShopDate } from '../../utils/jobOrders';
+
+interface CreateJobOrderDialogProps {
+  open: boolean;
+  customer: { id: number; name: string; or_number: string } | null;
+  onClose: () => void;
+  onCreated: (jobOrder: JobOrder) => void;
+}
+
+/**
+ * Start tracking a visit's eyewear through the lab. It starts at the first stage and is tied to
+ * the visit's latest transaction; the expected-ready date defaults to the configured turnaround.
+ */
+const CreateJobOrderDialog: React.FC<CreateJobOrderDialogProps> = ({ open, customer, onClose, onCreated }) => {
+  const [expectedReady, setExpectedReady] = useState('');
+  const [labName, setLabName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setLabName('');
+    setNotes('');
+    setError(null);
+    JobOrderApi.getStages()
+      .then((settings) => {
+        const ready = new Date(Date.now() + settings.defaultTurnaroundDays * 24 * 60 * 60 * 1000);
+        setExpectedReady(toShopDate(ready.toISOString()));
+      })
+      .catch(() => setExpectedReady(''));
+  }, [open]);
+
+  const handleCreate = async () => {
+    if (!customer) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const jobOrder = await JobOrderApi.create({
+        customer_id: customer.id,
+        expected_ready_at: fromShopDate(expectedReady),
+        lab_name: labName,
+        notes
+      });
+      onCreated(jobOrder);
+    } catch (err: any) {
+      setError(err?.response?.data?.error || 'Failed to create the job order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Start Job Order</DialogTitle>
+      <DialogContent>
+        {customer && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {customer.name} · OR {customer.or_number}
+          </Typography>
+        )}
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            label="Expected Ready"
+            type="date"
+            value={expectedReady}
+            onChange={(e) => setExpectedReady(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            helperText="The customer is texted if this moves later"
+          />
+          <TextField
+            label="Lab"
+            value={labName}
+            onChange={(e) => setLabName(e.target.value)}
+            inputProps={{ maxLength: 255 }}
+          />
+          <TextField
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            multiline
+            minRows={2}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleCreate}
+          disabled={saving || !customer}
+          startIcon={saving ? <CircularProgress size={16} /> : undefined}
+        >
+          Start
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CreateJobOrderDialog;
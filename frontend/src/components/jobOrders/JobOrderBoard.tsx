@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardContent,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  IconButton,
+  Paper,
+  Snackbar,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  ArrowForward as NextIcon,
+  Refresh as RefreshIcon,
+  Build as JobOrderIcon
+} from '@mui/icons-material';
+import { useAuth } from '../../contexts/AuthContext';
+import { useSocket } from '../../contexts/SocketContext';
+import { JobOrderApi } from '../../services/jobOrderApi';
+import { JobOrderStage } from '../../services/settingsApi';
+import { JobOrder } from '../../types';
+import { formatShopDate, isOverdue } from '../../utils/jobOrders';
+import JobOrderDialog from './JobOrderDialog';
+
+/**
+ * Staff board of job orders, one column per stage. Orders are started from a customer's
+ * actions menu; released orders are hidden unless asked for.
+ */
+const JobOrderBoard: React.FC = () => {
+  const { user } = useAuth();
+  const { socket } = useSocket();
+  const [stages, setStages] = useState<JobOrderStage[]>([]);
+  const [jobOrders, setJobOrders] = useState<JobOrder[]>([]);
+  const [showReleased, setShowReleased] = useState(false);
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const canEdit = user?.role === 'admin' || user?.role === 'sales';
+
+  const fetchBoard = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [settings, orders] = await Promise.all([
+        JobOrderApi.getStages(),
+        JobOrderApi.list({ includeFinal: showReleased })
+      ]);
+      setStages(settings.stages);
+      setJobOrders(orders);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching job orders:', err);
+      setError('Failed to load job orders');
+    } finally {
+      setLoading(false);
+    }
+  }, [showReleased]);
+
+  useEffect(() => {
+    fetchBoard();
+  }, [fetchBoard]);
+
+  // Job orders started or moved at other stations
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleQueueUpdate = (data: any) => {
+      if (typeof data?.type === 'string' && data.type.startsWith('job_order_')) {
+        fetchBoard();
+      }
+    };
+
+    socket.on('queue:update', handleQueueUpdate);
+    return () => {
+      socket.off('queue:update', handleQueueUpdate);
+    };
+  }, [socket, fetchBoard]);
+
+  const handleAdvance = async (jobOrder: JobOrder, next: JobOrderStage) => {
+    try {
+      await JobOrderApi.moveToStage(jobOrder.id, next.key);
+      setSuccess(next.ready
+        ? `${jobOrder.customer_name}'s order is ready; the customer has been texted`
+        : `${jobOrder.customer_name}'s order moved to ${next.label}`);
+      fetchBoard();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || 'Failed to move the job order');
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const visible = jobOrders.filter((jobOrder) =>
+    !term || jobOrder.customer_name.toLowerCase().includes(term) || jobOrder.or_number.toLowerCase().includes(term)
+  );
+  const columns = stages.filter((stage) => showReleased || !stage.final);
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" alignItems="center" gap={2} flexWrap="wrap" sx={{ mb: 3 }}>
+        <Box display="flex" alignItems="center" gap={1} sx={{ flex: 1 }}>
+          <JobOrderIcon color="primary" />
+          <Typography variant="h5">Job Orders</Typography>
+        </Box>
+        <TextField
+          size="small"
+          label="Search name or OR number"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <FormControlLabel
+          control={<Switch checked={showReleased} onChange={(e) => setShowReleased(e.target.checked)} />}
+          label="Show released"
+        />
+        <Button variant="outlined" startIcon={<RefreshIcon />} onClick={fetchBoard} disabled={loading}>
+          Refresh
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+
+      {loading && stages.length === 0 ? (
+        <Box display="flex" justifyContent="center" py={6}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Box sx={{ display: 'flex', gap: 2, overflowX: 'auto', pb: 2 }}>
+          {columns.map((stage) => {
+            const inStage = visible.filter((jobOrder) => jobOrder.stage === stage.key);
+            const next = stages[stages.findIndex((candidate) => candidate.key === stage.key) + 1];
+            return (
+              <Paper key={stage.key} variant="outlined" sx={{ minWidth: 240, flex: '0 0 240px', p: 1.5, bgcolor: 'action.hover' }}>
+                <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+                  <Typography variant="subtitle1" fontWeight="bold">{stage.label}</Typography>
+                  <Chip size="small" label={inStage.length} color={stage.ready ? 'success' : 'default'} />
+                </Box>
+                {inStage.length === 0 && (
+                  <Typography variant="body2" color="text.secondary">No orders</Typography>
+                )}
+                {inStage.map((jobOrder) => {
+                  const overdue = isOverdue(jobOrder, stages);
+                  return (
+                    <Card key={jobOrder.id} sx={{ mb: 1, borderLeft: 4, borderColor: overdue ? 'error.main' : 'transparent' }}>
+                      <Box display="flex" alignItems="flex-start">
+                        <CardActionArea onClick={() => setSelectedId(jobOrder.id)}>
+                          <CardContent sx={{ py: 1, '&:last-child': { pb: 1 } }}>
+                            <Typography variant="body2" fontWeight="bold">{jobOrder.customer_name}</Typography>
+                            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                              OR {jobOrder.or_number}{jobOrder.lab_name ? ` · ${jobOrder.lab_name}` : ''}
+                            </Typography>
+                            <Typography variant="caption" color={overdue ? 'error' : 'text.secondary'}>
+                              {overdue ? 'Overdue since ' : 'Expected '}{formatShopDate(jobOrder.expected_ready_at)}
+                            </Typography>
+                          </CardContent>
+                        </CardActionArea>
+                        {next && !stage.final && (
+                          <Tooltip title={`Move to ${next.label}`}>
+                            <IconButton size="small" sx={{ m: 0.5 }} onClick={() => handleAdvance(jobOrder, next)}>
+                              <NextIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </Box>
+                    </Card>
+                  );
+                })}
+              </Paper>
+            );
+          })}
+        </Box>
+      )}
+
+      <JobOrderDialog
+        jobOrderId={selectedId}
+        stages={stages}
+        canEdit={canEdit}
+        onClose={() => setSelectedId(null)}
+        onChanged={fetchBoard}
+      />
+
+      <Snackbar
+        open={!!success}
+        autoHideDuration={6000}
+        onClose={() => setSuccess(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert severity="success" onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+};
+
+export default JobOrderBoard;
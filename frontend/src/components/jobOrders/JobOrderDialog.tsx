@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { JobOrderApi } from '../../services/jobOrderApi';
+import { JobOrderStage } from '../../services/settingsApi';
+import { JobOrder } from '../../types';
+import {
+  findStage,
+  formatShopDate,
+  formatShopDateTime,
+  fromShopDate,
+  isOverdue,
+  stageReachedAt,
+  toShopDate
+} from '../../utils/jobOrders';
+
+interface JobOrderDialogProps {
+  jobOrderId: number | null;
+  stages: JobOrderStage[];
+  canEdit: boolean; // expected-ready date, lab and notes are for sales and admins
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/**
+ * A job order: when it reached each stage, moving it to another stage, and its details
+ */
+const JobOrderDialog: React.FC<JobOrderDialogProps> = ({ jobOrderId, stages, canEdit, onClose, onChanged }) => {
+  const [jobOrder, setJobOrder] = useState<JobOrder | null>(null);
+  const [stage, setStage] = useState('');
+  const [stageNote, setStageNote] = useState('');
+  const [expectedReady, setExpectedReady] = useState('');
+  const [labName, setLabName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const show = (loaded: JobOrder) => {
+    setJobOrder(loaded);
+    setStage(loaded.stage);
+    setStageNote('');
+    setExpectedReady(toShopDate(loaded.expected_ready_at));
+    setLabName(loaded.lab_name || '');
+    setNotes(loaded.notes || '');
+  };
+
+  const load = useCallback(async () => {
+    if (!jobOrderId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      show(await JobOrderApi.get(jobOrderId));
+    } catch (err) {
+      console.error('Error loading job order:', err);
+      setError('Failed to load the job order');
+    } finally {
+      setLoading(false);
+    }
+  }, [jobOrderId]);
+
+  useEffect(() => {
+    setJobOrder(null);
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<JobOrder>, failure: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      show(await action());
+      onChanged();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || failure);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMove = () => {
+    if (!jobOrder) return;
+    run(() => JobOrderApi.moveToStage(jobOrder.id, stage, stageNote), 'Failed to move the job order');
+  };
+
+  const handleSave = () => {
+    if (!jobOrder) return;
+    run(() => JobOrderApi.update(jobOrder.id, {
+      expected_ready_at: fromShopDate(expectedReady),
+      lab_name: labName,
+      notes
+    }), 'Failed to save the job order');
+  };
+
+  const reached = jobOrder ? stageReachedAt(jobOrder) : {};
+  const currentStage = jobOrder ? findStage(stages, jobOrder.stage) : undefined;
+  const targetStage = findStage(stages, stage);
+
+  return (
+    <Dialog open={!!jobOrderId} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {jobOrder ? `Job Order #${jobOrder.id} · ${jobOrder.customer_name}` : 'Job Order'}
+      </DialogTitle>
+      <DialogContent>
+        {loading && (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress />
+          </Box>
+        )}
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {jobOrder && !loading && (
+          <>
+            <Box display="flex" gap={1} alignItems="center" flexWrap="wrap" sx={{ mb: 2 }}>
+              <Typography variant="body2" color="text.secondary">
+                OR {jobOrder.or_number} · {jobOrder.contact_number}
+              </Typography>
+              <Chip size="small" color={currentStage?.ready ? 'success' : 'primary'} label={currentStage?.label || jobOrder.stage} />
+              {isOverdue(jobOrder, stages) && <Chip size="small" color="error" label="Overdue" />}
+            </Box>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Stage</TableCell>
+                  <TableCell>Reached</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {stages.map((candidate) => (
+                  <TableRow key={candidate.key} selected={candidate.key === jobOrder.stage}>
+                    <TableCell>{candidate.label}</TableCell>
+                    <TableCell>{reached[candidate.key] ? formatShopDateTime(reached[candidate.key]) : '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {(jobOrder.events || []).some((event) => event.note) && (
+              <Box sx={{ mt: 1 }}>
+                {(jobOrder.events || []).filter((event) => event.note).map((event) => (
+                  <Typography key={event.id} variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                    {formatShopDateTime(event.created_at)} · {findStage(stages, event.stage)?.label || event.stage}: {event.note}
+                    {event.changed_by_name ? ` (${event.changed_by_name})` : ''}
+                  </Typography>
+                ))}
+              </Box>
+            )}
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>Move to Stage</Typography>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1}>
+              <TextField
+                select
+                size="small"
+                label="Stage"
+                value={stage}
+                onChange={(e) => setStage(e.target.value)}
+                sx={{ minWidth: 180 }}
+              >
+                {stages.map((candidate) => (
+                  <MenuItem key={candidate.key} value={candidate.key}>{candidate.label}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                size="small"
+                label="Note"
+                value={stageNote}
+                onChange={(e) => setStageNote(e.target.value)}
+                sx={{ flex: 1 }}
+              />
+              <Button variant="contained" onClick={handleMove} disabled={saving || stage === jobOrder.stage}>
+                Move
+              </Button>
+            </Stack>
+            {targetStage?.ready && !currentStage?.ready && (
+              <Typography variant="caption" color="text.secondary">
+                The customer is texted that the order is ready for pickup.
+              </Typography>
+            )}
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle2" gutterBottom>Details</Typography>
+            <Stack spacing={2}>
+              <TextField
+                size="small"
+                label="Expected Ready"
+                type="date"
+                value={expectedReady}
+                onChange={(e) => setExpectedReady(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                disabled={!canEdit}
+                helperText={`Currently ${formatShopDate(jobOrder.expected_ready_at)}; a later date texts the customer the new estimate`}
+              />
+              <TextField
+                size="small"
+                label="Lab"
+                value={labName}
+                onChange={(e) => setLabName(e.target.value)}
+                disabled={!canEdit}
+              />
+              <TextField
+                size="small"
+                label="Notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                disabled={!canEdit}
+                multiline
+                minRows={2}
+              />
+            </Stack>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        {canEdit && jobOrder && (
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            Save Details
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default JobOrderDialog;
@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  Alert,
+  CircularProgress,
+  Divider
+} from '@mui/material';
+import {
+  PersonSearch as ReturningIcon,
+  PersonAdd as NewCustomerIcon,
+  Print as PrintIcon
+} from '@mui/icons-material';
+import { KioskTicket, PriorityFlags, ServiceType } from '../../types';
+import { SERVICE_TYPES, getServiceTypeLabel } from '../../utils/serviceTypes';
+import { KioskApi, KioskApiError, KioskStatus } from '../../services/kioskApi';
+
+type KioskScreen = 'setup' | 'home' | 'returning' | 'new' | 'ticket';
+
+// Back to the start screen after this long without a touch, so the next person starts fresh
+const IDLE_RESET_MS = 60 * 1000;
+const TICKET_DISPLAY_MS = 20 * 1000;
+
+const noPriority: PriorityFlags = { senior_citizen: false, pregnant: false, pwd: false };
+
+const emptyNewCustomer = {
+  name: '',
+  contact_number: '',
+  email: '',
+  age: '',
+  service_type: ServiceType.CASHIER,
+  priority_flags: noPriority
+};
+
+const bigButtonSx = { py: 4, fontSize: '1.5rem', flex: 1, minWidth: 260 };
+
+const KioskMode: React.FC = () => {
+  const [screen, setScreen] = useState<KioskScreen>(KioskApi.getDeviceKey() ? 'home' : 'setup');
+  const [status, setStatus] = useState<KioskStatus | null>(null);
+  const [deviceKey, setDeviceKey] = useState('');
+  const [lookup, setLookup] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [newCustomer, setNewCustomer] = useState(emptyNewCustomer);
+  const [ticket, setTicket] = useState<KioskTicket | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const idleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const resetToHome = useCallback(() => {
+    setLookup('');
+    setLastName('');
+    setNewCustomer(emptyNewCustomer);
+    setTicket(null);
+    setError(null);
+    setScreen(KioskApi.getDeviceKey() ? 'home' : 'setup');
+  }, []);
+
+  const handleApiError = useCallback((err: unknown) => {
+    if (err instanceof KioskApiError && err.status === 401) {
+      // Revoked or mistyped key: the device has to be set up again
+      KioskApi.clearDeviceKey();
+      setScreen('setup');
+    }
+    setError(err instanceof Error ? err.message : 'Something went wrong. Please ask our staff for help.');
+  }, []);
+
+  const fetchStatus = useCallback(async () => {
+    if (!KioskApi.getDeviceKey()) return;
+    try {
+      setStatus(await KioskApi.getStatus());
+    } catch (err) {
+      console.error('Error fetching kiosk status:', err);
+      if (err instanceof KioskApiError && err.status === 401) {
+        handleApiError(err);
+      }
+    }
+  }, [handleApiError]);
+
+  useEffect(() => {
+    fetchStatus();
+    const interval = setInterval(fetchStatus, 60000);
+    return () => clearInterval(interval);
+  }, [fetchStatus]);
+
+  // Idle reset on the form screens, automatic return after showing the ticket
+  useEffect(() => {
+    if (screen === 'home' || screen === 'setup') return;
+
+    const restart = () => {
+      if (idleTimer.current) clearTimeout(idleTimer.current);
+      idleTimer.current = setTimeout(resetToHome, screen === 'ticket' ? TICKET_DISPLAY_MS : IDLE_RESET_MS);
+    };
+
+    restart();
+    window.addEventListener('pointerdown', restart);
+    window.addEventListener('keydown', restart);
+    return () => {
+      if (idleTimer.current) clearTimeout(idleTimer.current);
+      window.removeEventListener('pointerdown', restart);
+      window.removeEventListener('keydown', restart);
+    };
+  }, [screen, resetToHome]);
+
+  const handleSetup = async () => {
+    if (!deviceKey.trim()) return;
+    KioskApi.setDeviceKey(deviceKey);
+    setDeviceKey('');
+    setError(null);
+    try {
+      setStatus(await KioskApi.getStatus());
+      setScreen('home');
+    } catch (err) {
+      handleApiError(err);
+    }
+  };
+
+  // OR numbers start with letters; anything else is taken as a phone number, which also needs the last name
+  const lookupIsOrNumber = /^[a-z]/i.test(lookup.trim());
+
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = lookup.trim();
+    if (!value || (!lookupIsOrNumber && !lastName.trim())) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const request = lookupIsOrNumber
+        ? { or_number: value }
+        : { contact_number: value.replace(/[\s-]/g, ''), last_name: lastName.trim() };
+      setTicket(await KioskApi.checkIn(request));
+      setScreen('ticket');
+    } catch (err) {
+      handleApiError(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      setTicket(await KioskApi.register({
+        name: newCustomer.name.trim(),
+        contact_number: newCustomer.contact_number.replace(/[\s-]/g, ''),
+        email: newCustomer.email.trim() || undefined,
+        age: Number(newCustomer.age),
+        service_type: newCustomer.service_type,
+        priority_flags: newCustomer.priority_flags
+      }));
+      setScreen('ticket');
+    } catch (err) {
+      handleApiError(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const togglePriority = (flag: keyof PriorityFlags) => {
+    setNewCustomer(prev => ({
+      ...prev,
+      priority_flags: { ...prev.priority_flags, [flag]: !prev.priority_flags[flag] }
+    }));
+  };
+
+  const registrationClosed = status && !status.registration.accepting;
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default', display: 'flex', alignItems: 'center', justifyContent: 'center', p: 3 }}>
+      <Paper sx={{ width: '100%', maxWidth: 900, p: { xs: 3, md: 6 } }}>
+        <Box textAlign="center" mb={4} sx={{ displayPrint: 'none' }}>
+          <Typography variant="h3" fontWeight="bold" color="primary">Welcome to EscaShop</Typography>
+          <Typography variant="h6" color="text.secondary">Get your queue number here</Typography>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 3, fontSize: '1.1rem', displayPrint: 'none' }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {screen === 'setup' && (
+          <Box display="flex" flexDirection="column" gap={2}>
+            <Typography variant="h5">Kiosk setup</Typography>
+            <Typography color="text.secondary">
+              Enter the device key shown when this kiosk was added under Admin → Kiosk Devices.
+            </Typography>
+            <TextField
+              label="Device Key"
+              value={deviceKey}
+              onChange={(e) => setDeviceKey(e.target.value)}
+              autoFocus
+            />
+            <Button variant="contained" size="large" onClick={handleSetup} disabled={!deviceKey.trim()}>
+              Activate Kiosk
+            </Button>
+          </Box>
+        )}
+
+        {screen === 'home' && (
+          <>
+            {registrationClosed && (
+              <Alert severity="warning" sx={{ mb: 3, fontSize: '1.2rem' }}>
+                🚫 Queue closed for today - {status!.registration.message}
+              </Alert>
+            )}
+            <Box display="flex" gap={3} flexWrap="wrap">
+              <Button
+                variant="contained"
+                startIcon={<ReturningIcon sx={{ fontSize: '2.5rem !important' }} />}
+                sx={bigButtonSx}
+                onClick={() => setScreen('returning')}
+                disabled={!!registrationClosed}
+              >
+                I've been here before
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<NewCustomerIcon sx={{ fontSize: '2.5rem !important' }} />}
+                sx={bigButtonSx}
+                onClick={() => setScreen('new')}
+                disabled={!!registrationClosed}
+              >
+                I'm a new customer
+              </Button>
+            </Box>
+          </>
+        )}
+
+        {screen === 'returning' && (
+          <form onSubmit={handleCheckIn}>
+            <Box display="flex" flexDirection="column" gap={3}>
+              <Typography variant="h5">Enter your OR number or mobile number</Typography>
+              <TextField
+                value={lookup}
+                onChange={(e) => setLookup(e.target.value)}
+                placeholder="e.g. OR2501100007 or 09171234567"
+                autoFocus
+                inputProps={{ style: { fontSize: '1.8rem' } }}
+              />
+              {lookup.trim() && !lookupIsOrNumber && (
+                <TextField
+                  label="Last Name"
+                  value={lastName}
+                  onChange={(e) => setLastName(e.target.value)}
+                  helperText="Needed with a mobile number"
+                  inputProps={{ style: { fontSize: '1.8rem' } }}
+                />
+              )}
+              <Box display="flex" gap={2}>
+                <Button size="large" onClick={resetToHome} disabled={submitting}>Back</Button>
+                <Button
+                  type="submit"
+                  variant="contained"
+                  size="large"
+                  sx={{ flex: 1 }}
+                  disabled={submitting || !lookup.trim() || (!lookupIsOrNumber && !lastName.trim())}
+                >
+                  {submitting ? <CircularProgress size={28} /> : 'Get My Number'}
+                </Button>
+              </Box>
+            </Box>
+          </form>
+        )}
+
+        {screen === 'new' && (
+          <form onSubmit={handleRegister}>
+            <Box display="flex" flexDirection="column" gap={2}>
+              <Typography variant="h5">Tell us a little about yourself</Typography>
+              <TextField
+                label="Full Name"
+                required
+                value={newCustomer.name}
+                onChange={(e) => setNewCustomer({ ...newCustomer, name: e.target.value })}
+                autoFocus
+              />
+              <Box display="flex" gap={2} flexWrap="wrap">
+                <TextField
+                  label="Mobile Number"
+                  required
+                  sx={{ flex: 2, minWidth: 220 }}
+                  value={newCustomer.contact_number}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, contact_number: e.target.value })}
+                />
+                <TextField
+                  label="Age"
+                  type="number"
+                  required
+                  sx={{ flex: 1, minWidth: 120 }}
+                  value={newCustomer.age}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, age: e.target.value })}
+                  inputProps={{ min: 1, max: 120 }}
+                />
+              </Box>
+              <TextField
+                label="Email (optional)"
+                type="email"
+                value={newCustomer.email}
+                onChange={(e) => setNewCustomer({ ...newCustomer, email: e.target.value })}
+              />
+              <TextField
+                select
+                label="What do you need today?"
+                value={newCustomer.service_type}
+                onChange={(e) => setNewCustomer({ ...newCustomer, service_type: e.target.value as ServiceType })}
+              >
+                {SERVICE_TYPES.map((type) => (
+                  <MenuItem key={type} value={type}>{getServiceTypeLabel(type)}</MenuItem>
+                ))}
+              </TextField>
+              <Box display="flex" gap={2} flexWrap="wrap">
+                <FormControlLabel
+                  control={<Checkbox checked={newCustomer.priority_flags.senior_citizen} onChange={() => togglePriority('senior_citizen')} />}
+                  label="Senior citizen"
+                />
+                <FormControlLabel
+                  control={<Checkbox checked={newCustomer.priority_flags.pwd} onChange={() => togglePriority('pwd')} />}
+                  label="Person with disability"
+                />
+                <FormControlLabel
+                  control={<Checkbox checked={newCustomer.priority_flags.pregnant} onChange={() => togglePriority('pregnant')} />}
+                  label="Pregnant"
+                />
+              </Box>
+              <Box display="flex" gap={2}>
+                <Button size="large" onClick={resetToHome} disabled={submitting}>Back</Button>
+                <Button type="submit" variant="contained" size="large" sx={{ flex: 1 }} disabled={submitting}>
+                  {submitting ? <CircularProgress size={28} /> : 'Get My Number'}
+                </Button>
+              </Box>
+            </Box>
+          </form>
+        )}
+
+        {screen === 'ticket' && ticket && (
+          <Box textAlign="center">
+            <Typography variant="h5">
+              {ticket.already_queued ? `You're already in line, ${ticket.first_name}` : `Thank you, ${ticket.first_name}!`}
+            </Typography>
+            <Typography variant="body1" color="text.secondary" mt={1}>Your queue number</Typography>
+            <Typography variant="h1" fontWeight="bold" color="primary" sx={{ fontSize: '7rem', lineHeight: 1.1 }}>
+              {ticket.token_code || String(ticket.token_number).padStart(3, '0')}
+            </Typography>
+            <Typography variant="h6">{getServiceTypeLabel(ticket.service_type)}</Typography>
+            <Divider sx={{ my: 2 }} />
+            {ticket.position !== null && (
+              <Typography variant="h6">
+                {ticket.position === 1 ? 'You are next in line' : `${ticket.position - 1} ahead of you`}
+                {ticket.estimated_wait_minutes !== null && ` · about ${ticket.estimated_wait_minutes} min`}
+              </Typography>
+            )}
+            <Typography variant="body2" color="text.secondary" mt={1}>
+              {new Date(ticket.issued_at).toLocaleString()}
+            </Typography>
+            <Typography variant="body1" mt={2}>
+              Please wait for your number on the display. Our staff will complete your details.
+            </Typography>
+            <Box display="flex" gap={2} justifyContent="center" mt={4} sx={{ displayPrint: 'none' }}>
+              <Button variant="outlined" size="large" startIcon={<PrintIcon />} onClick={() => window.print()}>
+                Print Ticket
+              </Button>
+              <Button variant="contained" size="large" onClick={resetToHome}>
+                Done
+              </Button>
+            </Box>
+          </Box>
+        )}
+
+        {status && screen !== 'setup' && (
+          <Typography variant="caption" color="text.disabled" display="block" textAlign="right" mt={4} sx={{ displayPrint: 'none' }}>
+            {status.device.name}
+          </Typography>
+        )}
+      </Paper>
+    </Box>
+  );
+};
+
+export default KioskMode;
@@ -47,6 +47,26 @@ const menuItems = [
       path: '/queue', 
       roles: ['admin', 'sales', 'cashier'] 
     },
+    { 
+      text: 'Appointments', 
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      ), 
+      path: '/appointments', 
+      roles: ['admin', 'sales'] 
+    },
+    { 
+      text: 'Job Orders', 
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+        </svg>
+      ), 
+      path: '/job-orders', 
+      roles: ['admin', 'sales', 'cashier'] 
+    },
     { 
       text: 'Display Monitor', 
       icon: (
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Typography, Box, Card, CardContent, Chip, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, IconButton, Stack, Snackbar, Alert, Tooltip, Dialog, DialogTitle, DialogContent, DialogActions, Button, FormControl, InputLabel, Select, MenuItem, Switch, FormControlLabel, Slider, useTheme, useMediaQuery, TextField } from '@mui/material';
-import { PlayArrow as ServeIcon, Check as CompleteIcon, Star as PriorityIcon, Queue as QueueIcon, Sms as SmsIcon, Refresh as RefreshIcon, DragIndicator as DragIcon, VolumeUp as VolumeIcon, VolumeOff as VolumeOffIcon, Cancel as CancelIcon, RestartAlt as ResetIcon } from '@mui/icons-material';
+import { PlayArrow as ServeIcon, Check as CompleteIcon, Star as PriorityIcon, Queue as QueueIcon, Sms as SmsIcon, Refresh as RefreshIcon, DragIndicator as DragIcon, VolumeUp as VolumeIcon, VolumeOff as VolumeOffIcon, Cancel as CancelIcon, RestartAlt as ResetIcon, Campaign as RecallIcon, SkipNext as SkipIcon, PauseCircleOutline as HoldIcon, Replay as ReactivateIcon, SwapHoriz as TransferIcon, PauseCircleFilled as PauseQueueIcon, PlayCircleFilled as ResumeQueueIcon } from '@mui/icons-material';
 import { DndContext, closestCenter } from '@dnd-kit/core';
 import { SortableContext, arrayMove, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { useSortable } from '@dnd-kit/sortable';
@@ -9,10 +9,12 @@ import { useAuth } from '../../contexts/AuthContext';
 import { formatEstimatedTime, minutesToEstimatedTime } from '../../utils/formatters';
 import { notificationSound } from '../../utils/notificationSound';
 import { formatTokenNumberWithHash } from '../../utils/tokenFormatter';
+import { SERVICE_TYPES, getServiceTypeLabel } from '../../utils/serviceTypes';
 import { apiGet, apiPost, apiPut, apiPatch } from '../../utils/api';
 import io from 'socket.io-client';
+import { attachEventStream } from '../../utils/eventStream';
 
-const SortableTableRow = ({ customer, onServe, onComplete, onProcessing, onSendSMS, onCancel }: { customer: any; onServe: (id: number) => void; onComplete: (id: number) => void; onProcessing: (id: number) => void; onSendSMS: (customer: any) => void; onCancel: (customer: any) => void }) => {
+const SortableTableRow = ({ customer, onServe, onComplete, onProcessing, onSendSMS, onCancel, onRecall, onSkip, onHold, onReactivate, onTransfer }: { customer: any; onServe: (id: number) => void; onComplete: (id: number) => void; onProcessing: (id: number) => void; onSendSMS: (customer: any) => void; onCancel: (customer: any) => void; onRecall: (customer: any) => void; onSkip: (customer: any) => void; onHold: (customer: any) => void; onReactivate: (customer: any) => void; onTransfer: (customer: any) => void }) => {
   const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id: customer.id });
 
   const style = {
@@ -37,6 +39,7 @@ const SortableTableRow = ({ customer, onServe, onComplete, onProcessing, onSendS
       case 'waiting': return 'warning';
       case 'serving': return 'info';
       case 'processing': return 'secondary';
+      case 'on_hold': return 'default';
       case 'completed': return 'success';
       default: return 'default';
     }
@@ -47,7 +50,7 @@ const SortableTableRow = ({ customer, onServe, onComplete, onProcessing, onSendS
       <TableCell>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
           <Typography variant="h6" color="primary">
-            {formatTokenNumberWithHash(customer.token_number)}
+            {formatTokenNumberWithHash(customer.token_number, customer.token_code)}
           </Typography>
           <DragIcon color="action" {...listeners} sx={{ cursor: 'grab' }} />
         </Box>
@@ -63,7 +66,7 @@ const SortableTableRow = ({ customer, onServe, onComplete, onProcessing, onSendS
       </TableCell>
       <TableCell>
         <Chip 
-          label={customer.queue_status.toUpperCase()}
+          label={customer.queue_status.replace('_', ' ').toUpperCase()}
           color={getStatusColor(customer.queue_status)}
           size="small"
         />
@@ -89,6 +92,40 @@ const SortableTableRow = ({ customer, onServe, onComplete, onProcessing, onSendS
               </IconButton>
             </Tooltip>
           )}
+          {customer.queue_status === 'waiting' && (
+            <Tooltip title="Hold - Customer stepped out, keep their place but don't call them" arrow>
+              <IconButton 
+                size="small" 
+                color="default"
+                onClick={() => onHold(customer)}
+                sx={{
+                  '&:hover': {
+                    transform: 'scale(1.1)',
+                    transition: 'transform 0.2s ease'
+                  }
+                }}
+              >
+                <HoldIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+          {customer.queue_status === 'on_hold' && (
+            <Tooltip title={`Reactivate - Return customer to their place in the queue${customer.hold_expires_at ? ` (until ${new Date(customer.hold_expires_at).toLocaleTimeString()})` : ''}`} arrow>
+              <IconButton 
+                size="small" 
+                color="primary"
+                onClick={() => onReactivate(customer)}
+                sx={{
+                  '&:hover': {
+                    transform: 'scale(1.1)',
+                    transition: 'transform 0.2s ease'
+                  }
+                }}
+              >
+                <ReactivateIcon />
+              </IconButton>
+            </Tooltip>
+          )}
           {customer.queue_status === 'serving' && (
             <Tooltip title="Mark as Processing - Move to processing status" arrow>
               <IconButton 
@@ -106,6 +143,57 @@ const SortableTableRow = ({ customer, onServe, onComplete, onProcessing, onSendS
               </IconButton>
             </Tooltip>
           )}
+          {customer.queue_status === 'serving' && (
+            <Tooltip title={`Recall - Announce the token again${customer.missed_call_count ? ` (missed ${customer.missed_call_count}x)` : ''}`} arrow>
+              <IconButton 
+                size="small" 
+                color="warning"
+                onClick={() => onRecall(customer)}
+                sx={{
+                  '&:hover': {
+                    transform: 'scale(1.1)',
+                    transition: 'transform 0.2s ease'
+                  }
+                }}
+              >
+                <RecallIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+          {customer.queue_status === 'serving' && (
+            <Tooltip title="Skip - Customer didn't show up, return them to the queue behind the next customers" arrow>
+              <IconButton 
+                size="small" 
+                color="warning"
+                onClick={() => onSkip(customer)}
+                sx={{
+                  '&:hover': {
+                    transform: 'scale(1.1)',
+                    transition: 'transform 0.2s ease'
+                  }
+                }}
+              >
+                <SkipIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+          {customer.queue_status === 'serving' && (
+            <Tooltip title="Transfer - Move to another counter or send back to the queue for another stage" arrow>
+              <IconButton 
+                size="small" 
+                color="info"
+                onClick={() => onTransfer(customer)}
+                sx={{
+                  '&:hover': {
+                    transform: 'scale(1.1)',
+                    transition: 'transform 0.2s ease'
+                  }
+                }}
+              >
+                <TransferIcon />
+              </IconButton>
+            </Tooltip>
+          )}
           {customer.queue_status === 'processing' && (
             <Tooltip title="Complete Service - Mark customer as completed" arrow>
               <IconButton 
@@ -138,7 +226,7 @@ const SortableTableRow = ({ customer, onServe, onComplete, onProcessing, onSendS
               <SmsIcon />
             </IconButton>
           </Tooltip>
-          {customer.queue_status === 'waiting' && (
+          {(customer.queue_status === 'waiting' || customer.queue_status === 'on_hold') && (
             <Tooltip title="Cancel Customer - Remove customer from queue" arrow>
               <IconButton 
                 size="small" 
@@ -162,7 +250,7 @@ const SortableTableRow = ({ customer, onServe, onComplete, onProcessing, onSendS
 };
 
 // Mobile-friendly queue card component
-const SortableQueueCard = ({ customer, onServe, onComplete, onProcessing, onSendSMS, onCancel }: { customer: any; onServe: (id: number) => void; onComplete: (id: number) => void; onProcessing: (id: number) => void; onSendSMS: (customer: any) => void; onCancel: (customer: any) => void }) => {
+const SortableQueueCard = ({ customer, onServe, onComplete, onProcessing, onSendSMS, onCancel, onRecall, onSkip, onHold, onReactivate, onTransfer }: { customer: any; onServe: (id: number) => void; onComplete: (id: number) => void; onProcessing: (id: number) => void; onSendSMS: (customer: any) => void; onCancel: (customer: any) => void; onRecall: (customer: any) => void; onSkip: (customer: any) => void; onHold: (customer: any) => void; onReactivate: (customer: any) => void; onTransfer: (customer: any) => void }) => {
   const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id: customer.id });
 
   const style = {
@@ -187,6 +275,7 @@ const SortableQueueCard = ({ customer, onServe, onComplete, onProcessing, onSend
       case 'waiting': return 'warning';
       case 'serving': return 'info';
       case 'processing': return 'secondary';
+      case 'on_hold': return 'default';
       case 'completed': return 'success';
       default: return 'default';
     }
@@ -198,13 +287,13 @@ const SortableQueueCard = ({ customer, onServe, onComplete, onProcessing, onSend
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
             <Typography variant="h5" color="primary" sx={{ fontWeight: 'bold' }}>
-              {formatTokenNumberWithHash(customer.token_number)}
+              {formatTokenNumberWithHash(customer.token_number, customer.token_code)}
             </Typography>
             <DragIcon color="action" {...listeners} sx={{ cursor: 'grab' }} />
           </Box>
           <Box sx={{ display: 'flex', gap: 1 }}>
             <Chip 
-              label={customer.queue_status.toUpperCase()}
+              label={customer.queue_status.replace('_', ' ').toUpperCase()}
               color={getStatusColor(customer.queue_status)}
               size="small"
             />
@@ -252,6 +341,30 @@ const SortableQueueCard = ({ customer, onServe, onComplete, onProcessing, onSend
               Call
             </Button>
           )}
+          {customer.queue_status === 'waiting' && (
+            <Button 
+              variant="outlined" 
+              color="inherit"
+              startIcon={<HoldIcon />}
+              onClick={() => onHold(customer)}
+              size="small"
+              sx={{ flex: 1, minWidth: 120 }}
+            >
+              Hold
+            </Button>
+          )}
+          {customer.queue_status === 'on_hold' && (
+            <Button 
+              variant="contained" 
+              color="primary"
+              startIcon={<ReactivateIcon />}
+              onClick={() => onReactivate(customer)}
+              size="small"
+              sx={{ flex: 1, minWidth: 120 }}
+            >
+              Reactivate
+            </Button>
+          )}
           {customer.queue_status === 'serving' && (
             <Button 
               variant="contained" 
@@ -264,6 +377,42 @@ const SortableQueueCard = ({ customer, onServe, onComplete, onProcessing, onSend
               Processing
             </Button>
           )}
+          {customer.queue_status === 'serving' && (
+            <Button 
+              variant="outlined" 
+              color="warning"
+              startIcon={<RecallIcon />}
+              onClick={() => onRecall(customer)}
+              size="small"
+              sx={{ flex: 1, minWidth: 120 }}
+            >
+              Recall
+            </Button>
+          )}
+          {customer.queue_status === 'serving' && (
+            <Button 
+              variant="outlined" 
+              color="warning"
+              startIcon={<SkipIcon />}
+              onClick={() => onSkip(customer)}
+              size="small"
+              sx={{ flex: 1, minWidth: 120 }}
+            >
+              Skip
+            </Button>
+          )}
+          {customer.queue_status === 'serving' && (
+            <Button 
+              variant="outlined" 
+              color="info"
+              startIcon={<TransferIcon />}
+              onClick={() => onTransfer(customer)}
+              size="small"
+              sx={{ flex: 1, minWidth: 120 }}
+            >
+              Transfer
+            </Button>
+          )}
           {customer.queue_status === 'processing' && (
             <Button 
               variant="contained" 
@@ -286,7 +435,7 @@ const SortableQueueCard = ({ customer, onServe, onComplete, onProcessing, onSend
           >
             SMS
           </Button>
-          {customer.queue_status === 'waiting' && (
+          {(customer.queue_status === 'waiting' || customer.queue_status === 'on_hold') && (
             <Button 
               variant="outlined" 
               color="error"
@@ -328,6 +477,9 @@ const QueueManagement = () => {
   const [volume, setVolume] = useState(0.5);
   const [previousQueueData, setPreviousQueueData] = useState<any[]>([]);
   const [currentTestSound, setCurrentTestSound] = useState<'info' | 'customer_added' | 'customer_serving' | 'customer_completed' | 'priority_customer'>('info');
+  const [queuePause, setQueuePause] = useState<{ reason: string; expected_resume_at: string | null } | null>(null);
+  const [pauseDialogOpen, setPauseDialogOpen] = useState(false);
+  const [pauseForm, setPauseForm] = useState({ reason: '', resumeTime: '' });
 
   // Function to check queue changes and play appropriate notifications
   const checkQueueChanges = useCallback((oldQueue: any[], newQueue: any[]) => {
@@ -391,11 +543,15 @@ const QueueManagement = () => {
           or_number: item.customer.or_number,
           name: item.customer.name,
           token_number: item.customer.token_number || item.position,
+          token_code: item.customer.token_code,
           priority_score: item.priority_score,
           queue_status: item.customer.queue_status,
           priority_flags: item.customer.priority_flags,
           estimated_time: item.estimated_wait_time,
           contact_number: item.customer.contact_number,
+          service_type: item.customer.service_type,
+          missed_call_count: item.customer.missed_call_count,
+          hold_expires_at: item.customer.hold_expires_at,
           distribution_info: item.customer.distribution_info
         }));
         
@@ -433,6 +589,18 @@ const QueueManagement = () => {
   }, []);
 
   // Handle sound settings changes
+  const fetchQueuePause = useCallback(async () => {
+    try {
+      const response = await apiGet('/queue/pause');
+      if (response.ok) {
+        const data = await response.json();
+        setQueuePause(data.pause);
+      }
+    } catch (error) {
+      console.error('Error fetching queue pause:', error);
+    }
+  }, []);
+
   const handleSoundToggle = (enabled: boolean) => {
     setSoundsEnabled(enabled);
     notificationSound.setSoundsEnabled(enabled);
@@ -500,6 +668,10 @@ const QueueManagement = () => {
         // Always refresh the queue data for real-time updates
         fetchQueueData();
 
+        if (data?.type === 'queue_paused' || data?.type === 'queue_resumed') {
+          fetchQueuePause();
+        }
+
         setSnackbar({
           open: true,
           message: 'Queue updated in real-time',
@@ -516,13 +688,20 @@ const QueueManagement = () => {
         });
       });
 
+      // Replays missed queue:update events after a reconnect, or reloads when it can't
+      const detachEventStream = attachEventStream(socketConnection, () => {
+        fetchQueueData();
+        fetchQueuePause();
+      });
+
       // setSocket(socketConnection);
 
       return () => {
+        detachEventStream();
         socketConnection.disconnect();
       };
     }
-  }, [accessToken, fetchQueueData]);
+  }, [accessToken, fetchQueueData, fetchQueuePause]);
 
   // Fetch initial queue data
   useEffect(() => {
@@ -677,6 +856,15 @@ const QueueManagement = () => {
   const [cancelReason, setCancelReason] = useState('');
   const [customerToCancel, setCustomerToCancel] = useState<any>(null);
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const [transferCounters, setTransferCounters] = useState<any[]>([]);
+  const [transferForm, setTransferForm] = useState<{
+    target: 'queue' | 'counter';
+    toCounterId: number | '';
+    serviceType: string;
+    frontOfLine: boolean;
+    reason: string;
+  }>({ target: 'queue', toCounterId: '', serviceType: '', frontOfLine: false, reason: '' });
   const [resetReason, setResetReason] = useState('');
 
   const getAvailableTemplates = (customerStatus: string, distributionMethod?: string) => {
@@ -795,6 +983,134 @@ const QueueManagement = () => {
     }
   };
 
+  const handleNoShowAction = async (customer: any, action: 'recall' | 'skip') => {
+    try {
+      const response = await apiPost(`/queue/${action}`, { customerId: customer.id });
+
+      if (response.ok) {
+        const result = await response.json();
+
+        // Refresh the queue data to get the latest state
+        fetchQueueData();
+
+        const token = formatTokenNumberWithHash(customer.token_number, customer.token_code);
+        const message = result.action === 'cancelled'
+          ? `${customer.name} (${token}) missed ${result.missedCalls} calls and was cancelled as a no-show`
+          : result.action === 'recalled'
+            ? `${customer.name} (${token}) recalled - missed call ${result.missedCalls}`
+            : `${customer.name} (${token}) returned to the queue - missed call ${result.missedCalls}`;
+
+        setSnackbar({
+          open: true,
+          message,
+          severity: result.action === 'cancelled' ? 'warning' : 'success'
+        });
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to ${action} customer`);
+      }
+    } catch (error) {
+      console.error(`Error trying to ${action} customer:`, error);
+      setSnackbar({
+        open: true,
+        message: (error as Error).message || `Failed to ${action} customer`,
+        severity: 'error'
+      });
+    }
+  };
+
+  const handleHoldAction = async (customer: any, action: 'hold' | 'reactivate') => {
+    try {
+      const response = await apiPost(`/queue/${action}`, { customerId: customer.id });
+
+      if (response.ok) {
+        const updatedCustomer = await response.json();
+
+        // Refresh the queue data to get the latest state
+        fetchQueueData();
+
+        const token = formatTokenNumberWithHash(customer.token_number, customer.token_code);
+        const message = action === 'hold'
+          ? `${customer.name} (${token}) is on hold until ${new Date(updatedCustomer.hold_expires_at).toLocaleTimeString()}`
+          : `${customer.name} (${token}) is back in the queue`;
+
+        setSnackbar({
+          open: true,
+          message,
+          severity: 'success'
+        });
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to ${action} customer`);
+      }
+    } catch (error) {
+      console.error(`Error trying to ${action} customer:`, error);
+      setSnackbar({
+        open: true,
+        message: (error as Error).message || `Failed to ${action} customer`,
+        severity: 'error'
+      });
+    }
+  };
+
+  const handleOpenTransferDialog = async (customer: any) => {
+    setCurrentCustomer(customer);
+    setTransferForm({ target: 'queue', toCounterId: '', serviceType: customer.service_type || '', frontOfLine: false, reason: '' });
+    setTransferDialogOpen(true);
+
+    try {
+      const response = await apiGet('/queue/counters');
+      if (response.ok) {
+        setTransferCounters(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading counters for transfer:', error);
+    }
+  };
+
+  const handleTransferCustomer = async () => {
+    if (!currentCustomer) return;
+
+    const toCounter = transferForm.target === 'counter';
+    try {
+      const response = await apiPost('/queue/transfer', {
+        customerId: currentCustomer.id,
+        toCounterId: toCounter ? transferForm.toCounterId : undefined,
+        serviceType: transferForm.serviceType || undefined,
+        frontOfLine: !toCounter && transferForm.frontOfLine,
+        reason: transferForm.reason || undefined
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+
+        // Refresh the queue data to get the latest state
+        fetchQueueData();
+        setTransferDialogOpen(false);
+
+        const token = formatTokenNumberWithHash(currentCustomer.token_number, currentCustomer.token_code);
+        const counterName = transferCounters.find((counter) => counter.id === result.toCounterId)?.name;
+        setSnackbar({
+          open: true,
+          message: result.action === 'moved'
+            ? `${currentCustomer.name} (${token}) transferred to ${counterName || 'the selected counter'}`
+            : `${currentCustomer.name} (${token}) sent to the ${getServiceTypeLabel(result.customer.service_type)} queue${transferForm.frontOfLine ? ' (front of line)' : ''}`,
+          severity: 'success'
+        });
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to transfer customer');
+      }
+    } catch (error) {
+      console.error('Error transferring customer:', error);
+      setSnackbar({
+        open: true,
+        message: (error as Error).message || 'Failed to transfer customer',
+        severity: 'error'
+      });
+    }
+  };
+
   const handleOpenCancelDialog = (customer: any) => {
     setCurrentCustomer(customer);
     setCancelDialogOpen(true);
@@ -829,6 +1145,73 @@ const QueueManagement = () => {
     }
   };
 
+  useEffect(() => {
+    if (accessToken) {
+      fetchQueuePause();
+    }
+  }, [accessToken, fetchQueuePause]);
+
+  const handlePauseQueue = async () => {
+    try {
+      // The resume time is picked as a time of day, today
+      let expectedResumeAt: string | undefined;
+      if (pauseForm.resumeTime) {
+        const [hours, minutes] = pauseForm.resumeTime.split(':').map(Number);
+        const resumeAt = new Date();
+        resumeAt.setHours(hours, minutes, 0, 0);
+        expectedResumeAt = resumeAt.toISOString();
+      }
+
+      const response = await apiPost('/queue/pause', { reason: pauseForm.reason, expectedResumeAt });
+
+      if (response.ok) {
+        setPauseDialogOpen(false);
+        setPauseForm({ reason: '', resumeTime: '' });
+        fetchQueuePause();
+        setSnackbar({
+          open: true,
+          message: 'Queue paused',
+          severity: 'warning'
+        });
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to pause queue');
+      }
+    } catch (error) {
+      console.error('Error pausing queue:', error);
+      setSnackbar({
+        open: true,
+        message: (error as Error).message || 'Failed to pause queue',
+        severity: 'error'
+      });
+    }
+  };
+
+  const handleResumeQueue = async () => {
+    try {
+      const response = await apiPost('/queue/resume', {});
+
+      if (response.ok) {
+        fetchQueuePause();
+        setSnackbar({
+          open: true,
+          message: 'Queue resumed',
+          severity: 'success'
+        });
+      } else {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to resume queue');
+      }
+    } catch (error) {
+      console.error('Error resuming queue:', error);
+      setSnackbar({
+        open: true,
+        message: (error as Error).message || 'Failed to resume queue',
+        severity: 'error'
+      });
+    }
+  };
+
   const handleSendSMS = async (customerId: number, customerName: string, tokenNumber: number, phoneNumber: string, template: string) => {
     try {
       // Validate phone number
@@ -1127,6 +1510,22 @@ const QueueManagement = () => {
         </Stack>
       </Box>
 
+      {/* Queue Paused Banner */}
+      {queuePause && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 2 }}
+          action={(user?.role === 'admin' || user?.role === 'cashier') && (
+            <Button color="inherit" size="small" startIcon={<ResumeQueueIcon />} onClick={handleResumeQueue}>
+              Resume
+            </Button>
+          )}
+        >
+          Queue is paused: {queuePause.reason}
+          {queuePause.expected_resume_at && ` (expected to resume at ${new Date(queuePause.expected_resume_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})`}
+        </Alert>
+      )}
+
       {/* Queue Table */}
       <Card>
         <CardContent>
@@ -1134,6 +1533,18 @@ const QueueManagement = () => {
             <Typography variant="h6">
               Customer Queue (Drag to reorder)
             </Typography>
+            <Box sx={{ display: 'flex', gap: 1 }}>
+            {(user?.role === 'admin' || user?.role === 'cashier') && !queuePause && (
+              <Button
+                variant="outlined"
+                color="warning"
+                onClick={() => setPauseDialogOpen(true)}
+                startIcon={<PauseQueueIcon />}
+                size="small"
+              >
+                Pause Queue
+              </Button>
+            )}
             {user?.role === 'admin' && queueData.length > 0 && (
               <Button
                 variant="outlined"
@@ -1145,6 +1556,7 @@ const QueueManagement = () => {
                 Reset Queue
               </Button>
             )}
+            </Box>
           </Box>
           
           <DndContext 
@@ -1167,6 +1579,11 @@ const QueueManagement = () => {
                       onProcessing={handleProcessingStatus}
                       onSendSMS={handleOpenTemplateDialog}
                       onCancel={handleOpenCancelDialog}
+                      onRecall={(customer) => handleNoShowAction(customer, 'recall')}
+                      onSkip={(customer) => handleNoShowAction(customer, 'skip')}
+                      onHold={(customer) => handleHoldAction(customer, 'hold')}
+                      onReactivate={(customer) => handleHoldAction(customer, 'reactivate')}
+                      onTransfer={handleOpenTransferDialog}
                     />
                   ))}
                 </Box>
@@ -1196,6 +1613,11 @@ const QueueManagement = () => {
                           onProcessing={handleProcessingStatus}
                           onSendSMS={handleOpenTemplateDialog}
                           onCancel={handleOpenCancelDialog}
+                          onRecall={(customer) => handleNoShowAction(customer, 'recall')}
+                          onSkip={(customer) => handleNoShowAction(customer, 'skip')}
+                          onHold={(customer) => handleHoldAction(customer, 'hold')}
+                          onReactivate={(customer) => handleHoldAction(customer, 'reactivate')}
+                          onTransfer={handleOpenTransferDialog}
                         />
                       ))}
                     </TableBody>
@@ -1330,6 +1752,137 @@ const QueueManagement = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Transfer Customer Dialog */}
+      <Dialog open={transferDialogOpen} onClose={() => setTransferDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Transfer Customer</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" gutterBottom>
+            Customer: <strong>{currentCustomer?.name}</strong> | Current stage: <strong>{getServiceTypeLabel(currentCustomer?.service_type)}</strong>
+          </Typography>
+          <FormControl fullWidth sx={{ mt: 2 }}>
+            <InputLabel>Transfer To</InputLabel>
+            <Select
+              value={transferForm.target}
+              label="Transfer To"
+              onChange={(e) => setTransferForm(prev => ({ ...prev, target: e.target.value as 'queue' | 'counter' }))}
+            >
+              <MenuItem value="queue">Back to the queue for another stage</MenuItem>
+              <MenuItem value="counter">Another counter (keep serving)</MenuItem>
+            </Select>
+          </FormControl>
+          {transferForm.target === 'counter' && (
+            <FormControl fullWidth sx={{ mt: 2 }}>
+              <InputLabel>Counter</InputLabel>
+              <Select
+                value={transferForm.toCounterId}
+                label="Counter"
+                onChange={(e) => setTransferForm(prev => ({ ...prev, toCounterId: e.target.value as number }))}
+              >
+                {transferCounters
+                  .filter((counter) => counter.is_active && counter.current_customer_id !== currentCustomer?.id)
+                  .map((counter) => (
+                    <MenuItem key={counter.id} value={counter.id} disabled={!!counter.current_customer_id}>
+                      {counter.name}{counter.current_customer_id ? ` (busy with ${counter.current_customer_name})` : ''}
+                    </MenuItem>
+                  ))}
+              </Select>
+            </FormControl>
+          )}
+          <FormControl fullWidth sx={{ mt: 2 }}>
+            <InputLabel>Service Stage</InputLabel>
+            <Select
+              value={transferForm.serviceType}
+              label="Service Stage"
+              onChange={(e) => setTransferForm(prev => ({ ...prev, serviceType: e.target.value }))}
+            >
+              {SERVICE_TYPES.map((type) => (
+                <MenuItem key={type} value={type}>{getServiceTypeLabel(type)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {transferForm.target === 'queue' && (
+            <FormControlLabel
+              sx={{ mt: 1 }}
+              control={
+                <Switch
+                  checked={transferForm.frontOfLine}
+                  onChange={(e) => setTransferForm(prev => ({ ...prev, frontOfLine: e.target.checked }))}
+                />
+              }
+              label="Front of line"
+            />
+          )}
+          <TextField
+            margin="dense"
+            label="Reason (optional)"
+            fullWidth
+            variant="outlined"
+            value={transferForm.reason}
+            onChange={(e) => setTransferForm(prev => ({ ...prev, reason: e.target.value }))}
+            placeholder="e.g. Exam done, proceed to cashier"
+            sx={{ mt: 2 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTransferDialogOpen(false)} color="primary">
+            Cancel
+          </Button>
+          <Button 
+            onClick={handleTransferCustomer}
+            color="primary" 
+            variant="contained"
+            disabled={transferForm.target === 'counter' ? !transferForm.toCounterId : !transferForm.serviceType}
+          >
+            Transfer
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Pause Queue Dialog */}
+      <Dialog open={pauseDialogOpen} onClose={() => setPauseDialogOpen(false)}>
+        <DialogTitle>Pause Queue</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            No customer can be called until the queue is resumed. Display monitors will show the reason.
+          </Typography>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Reason"
+            fullWidth
+            variant="outlined"
+            value={pauseForm.reason}
+            onChange={(e) => setPauseForm(prev => ({ ...prev, reason: e.target.value }))}
+            placeholder="e.g. Lunch break"
+            inputProps={{ maxLength: 255 }}
+            sx={{ mt: 2 }}
+          />
+          <TextField
+            margin="dense"
+            label="Expected resume time (optional)"
+            type="time"
+            fullWidth
+            variant="outlined"
+            value={pauseForm.resumeTime}
+            onChange={(e) => setPauseForm(prev => ({ ...prev, resumeTime: e.target.value }))}
+            InputLabelProps={{ shrink: true }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPauseDialogOpen(false)} color="primary">
+            Cancel
+          </Button>
+          <Button
+            onClick={handlePauseQueue}
+            color="warning"
+            variant="contained"
+            disabled={!pauseForm.reason.trim()}
+          >
+            Pause Queue
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Reset Queue Dialog */}
       <Dialog open={resetDialogOpen} onClose={() => setResetDialogOpen(false)}>
         <DialogTitle>Reset Queue</DialogTitle>
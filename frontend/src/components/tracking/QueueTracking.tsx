@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import io from 'socket.io-client';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  CircularProgress,
+  Divider
+} from '@mui/material';
+import { QueueStatus, QueueTrackingStatus } from '../../types';
+import { getServiceTypeLabel } from '../../utils/serviceTypes';
+import { TrackingApi } from '../../services/trackingApi';
+
+const STATUS_TEXT: Record<QueueStatus, { label: string; color: 'default' | 'primary' | 'success' | 'warning' | 'info' | 'error'; message: string }> = {
+  [QueueStatus.WAITING]: { label: 'Waiting', color: 'primary', message: 'You are in line. We will call your number soon.' },
+  [QueueStatus.SERVING]: { label: 'Now Serving', color: 'success', message: "It's your turn! Please proceed to the counter." },
+  [QueueStatus.PROCESSING]: { label: 'Processing', color: 'info', message: 'Your order is being prepared.' },
+  [QueueStatus.COMPLETED]: { label: 'Completed', color: 'success', message: 'All done. Thank you for visiting EscaShop!' },
+  [QueueStatus.CANCELLED]: { label: 'Cancelled', color: 'error', message: 'Your visit was cancelled. Please ask our staff if this is a mistake.' },
+  [QueueStatus.ON_HOLD]: { label: 'On Hold', color: 'warning', message: 'Your place in line is being kept for you.' }
+};
+
+const QueueTracking: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const [status, setStatus] = useState<QueueTrackingStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expired, setExpired] = useState(false);
+  const [reactivating, setReactivating] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setStatus(await TrackingApi.getStatus(token));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching tracking status:', err);
+      setError(err instanceof Error ? err.message : 'Unable to load your queue status');
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Live updates for this token only; the tracking namespace accepts the link token instead of a login
+  useEffect(() => {
+    const apiUrl = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+    const socket = io(`${apiUrl.replace('/api', '')}/tracking`, {
+      auth: { token },
+      reconnectionDelay: 3000,
+      reconnectionDelayMax: 10000
+    });
+
+    socket.on('tracking:update', (update: QueueTrackingStatus) => {
+      setStatus(update);
+      setError(null);
+    });
+
+    socket.on('tracking:expired', () => {
+      setExpired(true);
+    });
+
+    // Catch up on anything missed while disconnected (phones drop sockets when the screen locks)
+    socket.on('connect', fetchStatus);
+
+    socket.on('connect_error', (err) => {
+      console.error('Tracking connection error:', err.message);
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [token, fetchStatus]);
+
+  // Ticks the hold countdown
+  useEffect(() => {
+    if (status?.queue_status !== QueueStatus.ON_HOLD) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [status?.queue_status]);
+
+  const handleReactivate = async () => {
+    try {
+      setReactivating(true);
+      setStatus(await TrackingApi.reactivate(token));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to return you to the line');
+    } finally {
+      setReactivating(false);
+    }
+  };
+
+  const holdRemaining = status?.hold_expires_at ? Math.max(0, new Date(status.hold_expires_at).getTime() - now) : 0;
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default', display: 'flex', justifyContent: 'center', p: 2 }}>
+      <Paper sx={{ width: '100%', maxWidth: 480, p: 3, alignSelf: 'flex-start', mt: { xs: 2, sm: 6 } }}>
+        <Typography variant="h5" fontWeight="bold" color="primary" textAlign="center" gutterBottom>
+          EscaShop Queue
+        </Typography>
+
+        {expired && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            This tracking link has expired. Live updates have stopped.
+          </Alert>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!status && !error && (
+          <Box display="flex" justifyContent="center" py={6}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {status && (
+          <Box textAlign="center">
+            <Typography variant="body2" color="text.secondary">Your number</Typography>
+            <Typography variant="h1" fontWeight="bold" sx={{ fontSize: '5rem', lineHeight: 1.1 }}>
+              {status.token_code || String(status.token_number).padStart(3, '0')}
+            </Typography>
+            <Typography variant="subtitle1" color="text.secondary">{getServiceTypeLabel(status.service_type)}</Typography>
+
+            <Chip
+              label={STATUS_TEXT[status.queue_status]?.label || status.queue_status}
+              color={STATUS_TEXT[status.queue_status]?.color || 'default'}
+              sx={{ mt: 2, fontSize: '1rem', px: 1 }}
+            />
+
+            {status.queue_paused && (
+              <Alert severity="warning" sx={{ mt: 2, textAlign: 'left' }}>
+                The queue is paused: {status.queue_paused.reason}
+                {status.queue_paused.expected_resume_at &&
+                  ` (back around ${new Date(status.queue_paused.expected_resume_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})`}
+              </Alert>
+            )}
+
+            <Divider sx={{ my: 3 }} />
+
+            {status.queue_status === QueueStatus.WAITING && status.position !== null && (
+              <Box display="flex" justifyContent="space-around" mb={2}>
+                <Box>
+                  <Typography variant="h3" fontWeight="bold">{status.position - 1}</Typography>
+                  <Typography variant="body2" color="text.secondary">ahead of you</Typography>
+                </Box>
+                {status.estimated_wait && (
+                  <Box>
+                    <Typography variant="h3" fontWeight="bold">
+                      {status.estimated_wait.low === status.estimated_wait.high
+                        ? status.estimated_wait.minutes
+                        : `${status.estimated_wait.low}-${status.estimated_wait.high}`}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">minutes wait</Typography>
+                  </Box>
+                )}
+              </Box>
+            )}
+
+            {status.queue_status === QueueStatus.SERVING && status.counter_name && (
+              <Typography variant="h4" fontWeight="bold" color="success.main" mb={2}>
+                {status.counter_name}
+              </Typography>
+            )}
+
+            <Typography variant="body1">{STATUS_TEXT[status.queue_status]?.message}</Typography>
+
+            {status.queue_status === QueueStatus.ON_HOLD && (
+              <Box mt={3}>
+                {holdRemaining > 0 ? (
+                  <>
+                    <Typography variant="body2" color="text.secondary" mb={2}>
+                      Held for another {Math.floor(holdRemaining / 60000)}:{String(Math.floor((holdRemaining % 60000) / 1000)).padStart(2, '0')}
+                    </Typography>
+                    <Button variant="contained" size="large" fullWidth onClick={handleReactivate} disabled={reactivating}>
+                      {reactivating ? <CircularProgress size={24} /> : "I'm back"}
+                    </Button>
+                  </>
+                ) : (
+                  <Typography variant="body2" color="error">
+                    Your hold has expired. Please ask our staff for help.
+                  </Typography>
+                )}
+              </Box>
+            )}
+
+            <Typography variant="caption" color="text.disabled" display="block" mt={4}>
+              Updated {new Date(status.updated_at).toLocaleTimeString()}
+            </Typography>
+          </Box>
+        )}
+      </Paper>
+    </Box>
+  );
+};
+
+export default QueueTracking;
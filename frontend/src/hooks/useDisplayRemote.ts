@@ -0,0 +1,140 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import { DisplayApi } from '../services/displayApi';
+import { DisplayCommandMessage, DisplayLayout } from '../types';
+
+const SETTINGS_STORAGE = 'displayRemoteSettings';
+const HEALTH_INTERVAL_MS = 30000;
+const VERSION = process.env.REACT_APP_VERSION || process.env.REACT_APP_BUILD_TIME || 'dev';
+
+interface DisplaySettings {
+  layout: DisplayLayout;
+  counterIds: number[] | null; // null = all counters
+  volume: number; // 0-100
+}
+
+export interface DisplayRemoteState extends DisplaySettings {
+  message: string | null;
+  markDataReceived: () => void;
+}
+
+const DEFAULT_SETTINGS: DisplaySettings = { layout: 'full', counterIds: null, volume: 100 };
+
+const loadSettings = (): DisplaySettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_STORAGE) || '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * Lets admins manage this display from the admin panel. Joins the display room on the
+ * given socket, applies and acknowledges each display:command, and reports health every
+ * 30 seconds. Layout, counters and volume survive a reload.
+ *
+ * `register` is set when the socket belongs to a staff session; paired displays that
+ * connect with their device token are registered by the server on connect.
+ */
+export const useDisplayRemote = (socket: Socket | null, register: boolean): DisplayRemoteState => {
+  const [settings, setSettings] = useState<DisplaySettings>(loadSettings);
+  const [message, setMessage] = useState<string | null>(null);
+  const settingsRef = useRef(settings);
+  const startedAtRef = useRef(Date.now());
+  const lastDataAtRef = useRef<Date | null>(null);
+  const messageTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const markDataReceived = useCallback(() => {
+    lastDataAtRef.current = new Date();
+  }, []);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    localStorage.setItem(SETTINGS_STORAGE, JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => () => {
+    if (messageTimerRef.current) clearTimeout(messageTimerRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const reportHealth = (current: DisplaySettings = settingsRef.current) => {
+      socket.emit('display:health', {
+        version: VERSION,
+        uptime_seconds: Math.floor((Date.now() - startedAtRef.current) / 1000),
+        last_data_at: lastDataAtRef.current,
+        layout: current.layout,
+        volume: current.volume,
+        counter_ids: current.counterIds
+      });
+    };
+
+    const handleConnect = () => {
+      if (register) {
+        socket.emit('display:register', { deviceToken: DisplayApi.getDeviceToken() });
+      }
+      reportHealth();
+    };
+
+    const handleCommand = (command: DisplayCommandMessage) => {
+      let next = settingsRef.current;
+
+      switch (command.type) {
+        case 'reload':
+          socket.emit('display:ack', { command_id: command.id, ok: true });
+          // Give the acknowledgement a moment to leave before the page goes away
+          setTimeout(() => window.location.reload(), 500);
+          return;
+        case 'set_layout':
+          next = { ...next, layout: command.layout };
+          break;
+        case 'set_counters':
+          next = { ...next, counterIds: command.counter_ids };
+          break;
+        case 'set_volume':
+          next = { ...next, volume: command.volume };
+          break;
+        case 'show_message':
+          if (messageTimerRef.current) clearTimeout(messageTimerRef.current);
+          setMessage(command.message);
+          messageTimerRef.current = setTimeout(() => setMessage(null), command.duration_seconds * 1000);
+          break;
+        default:
+          // Sent by a newer server than this build knows about
+          socket.emit('display:ack', { command_id: (command as DisplayCommandMessage).id, ok: false, error: 'Unsupported command' });
+          return;
+      }
+
+      if (next !== settingsRef.current) {
+        settingsRef.current = next;
+        setSettings(next);
+      }
+      socket.emit('display:ack', { command_id: command.id, ok: true });
+      reportHealth(next);
+    };
+
+    socket.on('connect', handleConnect);
+    socket.on('display:command', handleCommand);
+    if (socket.connected) {
+      handleConnect();
+    }
+
+    const interval = setInterval(() => {
+      if (socket.connected) reportHealth();
+    }, HEALTH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      socket.off('connect', handleConnect);
+      socket.off('display:command', handleCommand);
+      // The staff socket outlives this page, so it has to leave the display room itself
+      if (register) {
+        socket.emit('display:unregister');
+      }
+    };
+  }, [socket, register]);
+
+  return { ...settings, message, markDataReceived };
+};
@@ -0,0 +1,17 @@
+import { useEffect, useRef } from 'react';
+import { Socket } from 'socket.io-client';
+import { attachEventStream } from '../utils/eventStream';
+
+/**
+ * Catch up on missed queue and transaction events whenever `socket` reconnects.
+ * `onResync` runs when the missed events can't be replayed and everything has to be fetched again.
+ */
+export const useEventStream = (socket: Socket | null, onResync: () => void): void => {
+  const onResyncRef = useRef(onResync);
+  onResyncRef.current = onResync;
+
+  useEffect(() => {
+    if (!socket) return;
+    return attachEventStream(socket, () => onResyncRef.current());
+  }, [socket]);
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef } from 'react';
+
+interface RecallableCounter {
+  current_customer?: {
+    id: number;
+    missed_call_count?: number;
+  };
+}
+
+const RECALL_HIGHLIGHT_MS = 15000;
+
+/**
+ * Watches the customers at each counter and reports the ones whose missed call count
+ * went up since the last refresh, i.e. staff pressed "Recall". `onRecall` gets the recalled
+ * customer ids; the ids currently being recalled are returned so the display can highlight them.
+ */
+export const useRecallAlerts = (counters: RecallableCounter[], onRecall: (customerIds: number[]) => void): Set<number> => {
+  const [recalledIds, setRecalledIds] = useState<Set<number>>(new Set());
+  const missedCallsRef = useRef<Map<number, number>>(new Map());
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const onRecallRef = useRef(onRecall);
+  onRecallRef.current = onRecall;
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  useEffect(() => {
+    const previous = missedCallsRef.current;
+    const current = new Map<number, number>();
+    const recalled: number[] = [];
+
+    counters.forEach((counter) => {
+      const customer = counter.current_customer;
+      if (!customer) return;
+
+      const missedCalls = customer.missed_call_count || 0;
+      current.set(customer.id, missedCalls);
+
+      // Customers seen for the first time were just called, not recalled
+      const before = previous.get(customer.id);
+      if (before !== undefined && missedCalls > before) {
+        recalled.push(customer.id);
+      }
+    });
+
+    missedCallsRef.current = current;
+    if (recalled.length === 0) return;
+
+    onRecallRef.current(recalled);
+    setRecalledIds((prev) => new Set([...Array.from(prev), ...recalled]));
+
+    // Not cleared on the next refresh, only on unmount, so the highlight outlives polling
+    timersRef.current.push(setTimeout(() => {
+      setRecalledIds((prev) => new Set(Array.from(prev).filter((id) => !recalled.includes(id))));
+    }, RECALL_HIGHLIGHT_MS));
+  }, [counters]);
+
+  return recalledIds;
+};
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { AnnouncementSettings } from '../services/settingsApi';
+import { tokenAnnouncer } from '../utils/tokenAnnouncer';
+import { formatTokenNumber } from '../utils/tokenFormatter';
+
+interface AnnounceableCounter {
+  id: number;
+  name: string;
+  current_customer?: {
+    id: number;
+    token_number: number;
+    token_code?: string | null;
+  };
+}
+
+/**
+ * Speaks "Token A015, please proceed to Counter 2" whenever a counter starts serving a new
+ * customer. Customers already at a counter when the display opens aren't announced.
+ * Returns a function that announces the given customers again, for recalls.
+ *
+ * `volume` is 0-100; nothing is spoken without settings, or while the display is muted.
+ */
+export const useTokenAnnouncements = (
+  counters: AnnounceableCounter[],
+  settings: AnnouncementSettings | null,
+  volume: number,
+  enabled: boolean = true
+): ((customerIds: number[]) => void) => {
+  const servingRef = useRef<Map<number, number> | null>(null);
+  const countersRef = useRef(counters);
+  const optionsRef = useRef({ settings, volume, enabled });
+  countersRef.current = counters;
+  optionsRef.current = { settings, volume, enabled };
+
+  const announce = useCallback((counter: AnnounceableCounter) => {
+    const { settings: current, volume: currentVolume, enabled: currentEnabled } = optionsRef.current;
+    const customer = counter.current_customer;
+    if (!current || !currentEnabled || !customer) return;
+
+    tokenAnnouncer.announce(
+      { token: customer.token_code || formatTokenNumber(customer.token_number), counter: counter.name },
+      current,
+      currentVolume / 100
+    );
+  }, []);
+
+  // Stop talking when the display closes
+  useEffect(() => () => tokenAnnouncer.clear(), []);
+
+  useEffect(() => {
+    const current = new Map<number, number>();
+    counters.forEach((counter) => {
+      if (counter.current_customer) {
+        current.set(counter.id, counter.current_customer.id);
+      }
+    });
+
+    const previous = servingRef.current;
+    // Wait for the first counters to arrive before anything counts as newly called
+    if (counters.length > 0) {
+      servingRef.current = current;
+    }
+    if (!previous) return;
+
+    counters.forEach((counter) => {
+      const customerId = current.get(counter.id);
+      if (customerId !== undefined && previous.get(counter.id) !== customerId) {
+        announce(counter);
+      }
+    });
+  }, [counters, announce]);
+
+  return useCallback((customerIds: number[]) => {
+    countersRef.current
+      .filter((counter) => counter.current_customer && customerIds.includes(counter.current_customer.id))
+      .forEach(announce);
+  }, [announce]);
+};
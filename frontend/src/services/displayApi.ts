@@ -0,0 +1,276 @@
+import api from './authService';
+import { apiRequest, apiUrl } from '../utils/api';
+import {
+  ConnectedDisplay,
+  DisplayCommand,
+  DisplayCommandTarget,
+  DisplayContentSlide,
+  DisplayDevice,
+  DisplayGroup,
+  DisplayPairingRequest,
+  DisplayPlaylist,
+  DisplaySlide,
+  DisplaySlideType,
+  ServiceType
+} from '../types';
+
+// The display's device token lives in this browser only; it is collected once when the display is paired
+const DISPLAY_TOKEN_STORAGE = 'displayDeviceToken';
+
+export interface DisplayGroupInput {
+  name: string;
+  counter_ids: number[];
+  service_types: ServiceType[];
+}
+
+export interface PlaylistInput {
+  name: string;
+  is_active: boolean;
+  starts_on: string | null;
+  ends_on: string | null;
+  slide_seconds: number;
+  group_ids: number[];
+}
+
+export interface SlideInput {
+  type: DisplaySlideType;
+  title: string | null;
+  body: string | null;
+  image?: string; // data URL; leave out to keep the current image
+  display_seconds: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+}
+
+export class DisplayApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export class DisplayApi {
+  static getDeviceToken(): string | null {
+    return localStorage.getItem(DISPLAY_TOKEN_STORAGE);
+  }
+
+  static setDeviceToken(token: string): void {
+    localStorage.setItem(DISPLAY_TOKEN_STORAGE, token);
+  }
+
+  static clearDeviceToken(): void {
+    localStorage.removeItem(DISPLAY_TOKEN_STORAGE);
+  }
+
+  /**
+   * GET a display feed, sending the device token if this display is paired (public)
+   */
+  static async get(endpoint: string): Promise<Response> {
+    const token = this.getDeviceToken();
+    return apiRequest(endpoint, {
+      method: 'GET',
+      headers: token ? { 'X-Display-Token': token } : {}
+    });
+  }
+
+  /**
+   * URL of the display event stream (Server-Sent Events). EventSource can't send headers, so a
+   * paired display's token goes in the query string.
+   */
+  static getEventsUrl(): string {
+    const token = this.getDeviceToken();
+    return apiUrl(`/queue/public/events${token ? `?display_token=${encodeURIComponent(token)}` : ''}`);
+  }
+
+  /**
+   * The slides to play beside the queue. A standalone display asks as itself (public);
+   * a display opened in a staff session asks with the staff login.
+   */
+  static async getContent(standalone: boolean): Promise<DisplayContentSlide[]> {
+    if (!standalone) {
+      const response = await api.get('/display-content/current');
+      return response.data;
+    }
+
+    const response = await this.get('/display-content/public/current');
+    if (!response.ok) {
+      throw new DisplayApiError('Unable to load display content', response.status);
+    }
+    return response.json();
+  }
+
+  /**
+   * Start pairing this display; show the code, keep the secret (public)
+   */
+  static async requestPairing(): Promise<DisplayPairingRequest> {
+    return this.pairingRequest('/displays/pairing-requests', {});
+  }
+
+  /**
+   * Collect the device token once an admin has entered the code
+   * @returns null while the code hasn't been entered yet (public)
+   */
+  static async claimPairing(requestId: number, secret: string): Promise<{ device: DisplayDevice; token: string } | null> {
+    const result = await this.pairingRequest<{ device: DisplayDevice; token: string } | { status: 'pending' }>(
+      `/displays/pairing-requests/${requestId}/claim`,
+      { secret }
+    );
+    return 'token' in result ? result : null;
+  }
+
+  /**
+   * List paired displays (admin only)
+   */
+  static async getDevices(): Promise<DisplayDevice[]> {
+    const response = await api.get('/displays/devices');
+    return response.data;
+  }
+
+  /**
+   * Pair the display showing `code` (admin only)
+   */
+  static async pairDevice(code: string, name: string): Promise<DisplayDevice> {
+    const response = await api.post('/displays/devices', { code, name });
+    return response.data;
+  }
+
+  /**
+   * Revoke a display's token (admin only)
+   */
+  static async revokeDevice(id: number): Promise<DisplayDevice> {
+    const response = await api.post(`/displays/devices/${id}/revoke`);
+    return response.data;
+  }
+
+  /**
+   * Put a display in a group, or take it out with null (admin only)
+   */
+  static async setDeviceGroup(id: number, groupId: number | null): Promise<DisplayDevice> {
+    const response = await api.put(`/displays/devices/${id}/group`, { group_id: groupId });
+    return response.data;
+  }
+
+  /**
+   * List display groups (admin only)
+   */
+  static async getGroups(): Promise<DisplayGroup[]> {
+    const response = await api.get('/displays/groups');
+    return response.data;
+  }
+
+  /**
+   * Create a display group (admin only)
+   */
+  static async createGroup(group: DisplayGroupInput): Promise<DisplayGroup> {
+    const response = await api.post('/displays/groups', group);
+    return response.data;
+  }
+
+  /**
+   * Replace a display group's name, counters and service types (admin only)
+   */
+  static async updateGroup(id: number, group: DisplayGroupInput): Promise<DisplayGroup> {
+    const response = await api.put(`/displays/groups/${id}`, group);
+    return response.data;
+  }
+
+  /**
+   * Delete a display group; its displays stay paired (admin only)
+   */
+  static async deleteGroup(id: number): Promise<void> {
+    await api.delete(`/displays/groups/${id}`);
+  }
+
+  /**
+   * List content playlists with their slides (admin only)
+   */
+  static async getPlaylists(): Promise<DisplayPlaylist[]> {
+    const response = await api.get('/display-content/playlists');
+    return response.data;
+  }
+
+  /**
+   * Create a content playlist (admin only)
+   */
+  static async createPlaylist(playlist: PlaylistInput): Promise<DisplayPlaylist> {
+    const response = await api.post('/display-content/playlists', playlist);
+    return response.data;
+  }
+
+  /**
+   * Update a playlist's settings and groups (admin only)
+   */
+  static async updatePlaylist(id: number, playlist: PlaylistInput): Promise<DisplayPlaylist> {
+    const response = await api.put(`/display-content/playlists/${id}`, playlist);
+    return response.data;
+  }
+
+  /**
+   * Delete a playlist and its slides (admin only)
+   */
+  static async deletePlaylist(id: number): Promise<void> {
+    await api.delete(`/display-content/playlists/${id}`);
+  }
+
+  /**
+   * Set the order a playlist's slides play in (admin only)
+   */
+  static async reorderSlides(playlistId: number, slideIds: number[]): Promise<DisplaySlide[]> {
+    const response = await api.put(`/display-content/playlists/${playlistId}/slide-order`, { slide_ids: slideIds });
+    return response.data;
+  }
+
+  /**
+   * Add a slide at the end of a playlist (admin only)
+   */
+  static async addSlide(playlistId: number, slide: SlideInput): Promise<DisplaySlide> {
+    const response = await api.post(`/display-content/playlists/${playlistId}/slides`, slide);
+    return response.data;
+  }
+
+  /**
+   * Update a slide (admin only)
+   */
+  static async updateSlide(id: number, slide: SlideInput): Promise<DisplaySlide> {
+    const response = await api.put(`/display-content/slides/${id}`, slide);
+    return response.data;
+  }
+
+  /**
+   * Delete a slide (admin only)
+   */
+  static async deleteSlide(id: number): Promise<void> {
+    await api.delete(`/display-content/slides/${id}`);
+  }
+
+  /**
+   * List displays connected right now with their health (admin only)
+   */
+  static async getConnectedDisplays(): Promise<ConnectedDisplay[]> {
+    const response = await api.get('/displays/connected');
+    return response.data;
+  }
+
+  /**
+   * Push a command to connected displays (admin only)
+   */
+  static async sendCommand(target: DisplayCommandTarget, command: DisplayCommand): Promise<{ command_id: string; recipients: string[] }> {
+    const response = await api.post('/displays/commands', { target, command });
+    return response.data;
+  }
+
+  private static async pairingRequest<T>(endpoint: string, body: object): Promise<T> {
+    const response = await apiRequest(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new DisplayApiError(data.error || 'Unable to pair this display', response.status);
+    }
+    return data as T;
+  }
+}
+
+export default DisplayApi;
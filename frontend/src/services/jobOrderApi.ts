@@ -0,0 +1,69 @@
+import api from './authService';
+import { JobOrder } from '../types';
+import { JobOrderSettings } from './settingsApi';
+
+export interface CreateJobOrderRequest {
+  customer_id: number;
+  transaction_id?: number | null;
+  expected_ready_at?: string | null;
+  lab_name?: string;
+  notes?: string;
+}
+
+export interface UpdateJobOrderRequest {
+  expected_ready_at?: string | null;
+  lab_name?: string;
+  notes?: string;
+}
+
+export class JobOrderApi {
+  /**
+   * Stages in board order, for every staff member
+   */
+  static async getStages(): Promise<JobOrderSettings> {
+    const response = await api.get('/job-orders/stages');
+    return response.data;
+  }
+
+  /**
+   * Open job orders for the board; released ones only with includeFinal
+   */
+  static async list(params: { customerId?: number; includeFinal?: boolean } = {}): Promise<JobOrder[]> {
+    const response = await api.get('/job-orders', { params });
+    return response.data;
+  }
+
+  /**
+   * A job order with its stage history
+   */
+  static async get(id: number): Promise<JobOrder> {
+    const response = await api.get(`/job-orders/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Start a job order for a visit (sales or admin)
+   */
+  static async create(request: CreateJobOrderRequest): Promise<JobOrder> {
+    const response = await api.post('/job-orders', request);
+    return response.data;
+  }
+
+  /**
+   * Move to another stage; reaching a ready stage texts the customer
+   */
+  static async moveToStage(id: number, stage: string, note?: string): Promise<JobOrder> {
+    const response = await api.post(`/job-orders/${id}/stage`, { stage, note });
+    return response.data;
+  }
+
+  /**
+   * Update the expected-ready date, lab or notes (sales or admin); a later date texts the customer
+   */
+  static async update(id: number, request: UpdateJobOrderRequest): Promise<JobOrder> {
+    const response = await api.put(`/job-orders/${id}`, request);
+    return response.data;
+  }
+}
+
+export default JobOrderApi;
@@ -0,0 +1,115 @@
+import api from './authService';
+import { apiRequest } from '../utils/api';
+import { KioskDevice, KioskTicket, PriorityFlags, ServiceType } from '../types';
+
+// The kiosk's device key lives in this browser only; an admin enters it once when setting up the device
+const KIOSK_KEY_STORAGE = 'kioskDeviceKey';
+
+export interface KioskStatus {
+  device: { id: number; name: string };
+  registration: { accepting: boolean; message: string | null };
+}
+
+export interface KioskCheckInRequest {
+  or_number?: string;
+  contact_number?: string;
+  last_name?: string; // required with contact_number
+  service_type?: ServiceType;
+  priority_flags?: PriorityFlags;
+}
+
+export interface KioskRegistrationRequest {
+  name: string;
+  contact_number: string;
+  email?: string;
+  age: number;
+  service_type?: ServiceType;
+  priority_flags?: PriorityFlags;
+}
+
+export class KioskApiError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+  }
+}
+
+export class KioskApi {
+  static getDeviceKey(): string | null {
+    return localStorage.getItem(KIOSK_KEY_STORAGE);
+  }
+
+  static setDeviceKey(key: string): void {
+    localStorage.setItem(KIOSK_KEY_STORAGE, key.trim());
+  }
+
+  static clearDeviceKey(): void {
+    localStorage.removeItem(KIOSK_KEY_STORAGE);
+  }
+
+  /**
+   * Device name and whether registration is open (kiosk key)
+   */
+  static async getStatus(): Promise<KioskStatus> {
+    return this.kioskRequest('/kiosk/status', { method: 'GET' });
+  }
+
+  /**
+   * Issue a ticket for a returning customer (kiosk key)
+   */
+  static async checkIn(data: KioskCheckInRequest): Promise<KioskTicket> {
+    return this.kioskRequest('/kiosk/check-in', { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  /**
+   * Register a new customer from the short form (kiosk key)
+   */
+  static async register(data: KioskRegistrationRequest): Promise<KioskTicket> {
+    return this.kioskRequest('/kiosk/register', { method: 'POST', body: JSON.stringify(data) });
+  }
+
+  /**
+   * List kiosk devices (admin only)
+   */
+  static async getDevices(): Promise<KioskDevice[]> {
+    const response = await api.get('/kiosk/devices');
+    return response.data;
+  }
+
+  /**
+   * Register a kiosk device; the returned key is shown only once (admin only)
+   */
+  static async createDevice(name: string): Promise<{ device: KioskDevice; key: string }> {
+    const response = await api.post('/kiosk/devices', { name });
+    return response.data;
+  }
+
+  /**
+   * Revoke a kiosk device's key (admin only)
+   */
+  static async revokeDevice(id: number): Promise<KioskDevice> {
+    const response = await api.post(`/kiosk/devices/${id}/revoke`);
+    return response.data;
+  }
+
+  // Kiosk endpoints authenticate with the device key rather than a user session
+  private static async kioskRequest<T>(endpoint: string, options: RequestInit): Promise<T> {
+    const response = await apiRequest(endpoint, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Kiosk-Key': this.getDeviceKey() || ''
+      }
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      // Auth errors carry { error: { code, message } }, everything else { error, code }
+      const message = typeof data.error === 'object' ? data.error.message : data.error;
+      const code = typeof data.error === 'object' ? data.error.code : data.code;
+      throw new KioskApiError(message || 'Something went wrong. Please ask our staff for help.', response.status, code);
+    }
+    return data as T;
+  }
+}
+
+export default KioskApi;
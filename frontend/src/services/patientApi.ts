@@ -0,0 +1,64 @@
+import api from './authService';
+import { Patient, PatientMatch, PatientPrefill, PatientTimeline } from '../types';
+
+export interface PatientMatchQuery {
+  name?: string;
+  contact_number?: string;
+  birth_date?: string;
+}
+
+export class PatientApi {
+  /**
+   * Profiles by name or phone number
+   */
+  static async search(search: string): Promise<Patient[]> {
+    const response = await api.get('/patients', { params: { search } });
+    return response.data;
+  }
+
+  /**
+   * Profiles that may be the person being registered; staff confirm before using one
+   */
+  static async findMatches(query: PatientMatchQuery): Promise<PatientMatch[]> {
+    const response = await api.get('/patients/matches', { params: query });
+    return response.data;
+  }
+
+  static async getTimeline(id: number): Promise<PatientTimeline> {
+    const response = await api.get(`/patients/${id}/timeline`);
+    return response.data;
+  }
+
+  /**
+   * Registration fields from the profile and its latest visit
+   */
+  static async getPrefill(id: number): Promise<PatientPrefill> {
+    const response = await api.get(`/patients/${id}/prefill`);
+    return response.data;
+  }
+
+  /**
+   * Link a visit to a profile (sales or admin)
+   */
+  static async linkVisit(patientId: number, customerId: number): Promise<PatientTimeline> {
+    const response = await api.post(`/patients/${patientId}/visits`, { customer_id: customerId });
+    return response.data;
+  }
+
+  /**
+   * Take a visit off its profile (sales or admin)
+   */
+  static async unlinkVisit(customerId: number): Promise<void> {
+    await api.delete(`/patients/visits/${customerId}`);
+  }
+
+  /**
+   * Start a profile from an unlinked visit (sales or admin)
+   */
+  static async createFromVisit(customerId: number, birthDate: string | null): Promise<Patient> {
+    const response = await api.post('/patients/from-visit', { customer_id: customerId, birth_date: birthDate });
+    return response.data;
+  }
+}
+
+export default PatientApi;
@@ -0,0 +1,36 @@
+import api from './authService';
+import { OrderRelease, ReleaseStatus, ReleaseVerification } from '../types';
+
+export interface ReleaseRequest {
+  verification: ReleaseVerification;
+  code?: string; // the texted code, for sms_code
+  representative_name?: string; // for representative
+  signature: string; // PNG data URL
+  override_balance?: boolean; // admins only
+  override_reason?: string;
+}
+
+export class ReleaseApi {
+  /**
+   * The visit's release, or what it still owes and whether a code was sent
+   */
+  static async getStatus(customerId: number): Promise<ReleaseStatus> {
+    const response = await api.get(`/releases/${customerId}`);
+    return response.data;
+  }
+
+  /**
+   * Text the customer a one-time release code; a new code replaces the last one
+   */
+  static async sendCode(customerId: number): Promise<{ sent_to: string; expires_at: string }> {
+    const response = await api.post(`/releases/${customerId}/code`);
+    return response.data;
+  }
+
+  static async release(customerId: number, request: ReleaseRequest): Promise<OrderRelease> {
+    const response = await api.post(`/releases/${customerId}`, request);
+    return response.data;
+  }
+}
+
+export default ReleaseApi;
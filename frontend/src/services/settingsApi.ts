@@ -22,6 +22,107 @@ export interface SessionTimeoutSettings {
   soundNotifications: boolean;
 }
 
+export interface QueuePriorityPolicySettings {
+  seniorCitizenWeight: number;
+  pwdWeight: number;
+  pregnantWeight: number;
+  maxConsecutivePriority: number; // 0 = no limit
+  agingBonusPerMinute: number; // score added per minute waited
+  appointmentWeight: number; // score for checked-in appointments once their slot time is reached
+}
+
+export interface NoShowSettings {
+  maxMissedCalls: number; // auto-cancel as no-show when reached, 0 = never
+  skipBehindCount: number; // customers a skipped customer is placed behind
+}
+
+export interface QueueHoldSettings {
+  holdWindowMinutes: number; // how long an on-hold customer can be reactivated
+}
+
+export interface AppointmentSettings {
+  slotMinutes: number; // length of a bookable slot
+  appointmentsPerCounter: number; // bookings per slot for each active counter of the service
+  noShowGraceMinutes: number; // booked appointments not checked in this long after their slot are no-shows
+}
+
+export interface JobOrderStage {
+  key: string;
+  label: string;
+  ready: boolean; // reaching it texts the customer that the order is ready for pickup
+  final: boolean; // the order has left the shop; final stages are off the board
+}
+
+export interface JobOrderSettings {
+  stages: JobOrderStage[]; // in board order; new job orders start at the first
+  defaultTurnaroundDays: number;
+}
+
+export interface DisplayAccessSettings {
+  allowUnpaired: boolean; // displays without a device token may show the queue
+}
+
+export type AnnouncementLanguage = 'en' | 'fil';
+
+export interface AnnouncementSettings {
+  enabled: boolean;
+  templates: Record<AnnouncementLanguage, string>; // {token} and {counter} are filled in when spoken
+  voices: Record<AnnouncementLanguage, string>; // speech synthesis voice name, '' = browser default
+  rate: number; // 0.5-2, 1 = normal
+  repeatCount: number; // 1-3
+  languageOrder: AnnouncementLanguage[];
+}
+
+export interface TokenFormatSettings {
+  servicePrefixes: Record<string, string>; // prefix per service type, '' = no prefix
+  priorityPrefix: string; // used instead of the service prefix for priority customers, '' = off
+  padding: number; // digits the daily number is zero-padded to
+}
+
+export interface DailyHours {
+  open: string; // HH:mm, shop local time
+  close: string; // HH:mm
+}
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+export interface BusinessHoursSettings {
+  weeklyHours: Record<Weekday, DailyHours | null>; // null = closed all day
+  capacityCheckMode: 'off' | 'warn' | 'block'; // what to do when a registration would be served after closing
+  registrationCutoffMinutes: number; // stop taking registrations this long before closing
+}
+
+export interface RegistrationStatus {
+  accepting: boolean; // false while registrations are being refused
+  reason: 'closed_today' | 'before_opening' | 'after_cutoff' | 'over_capacity' | null;
+  message: string | null;
+  opensAt: string | null;
+  closesAt: string | null;
+}
+
+export interface PriorityPolicyPreviewEntry {
+  position: number;
+  customer_id: number;
+  name: string;
+  token_number: number;
+  service_type: string;
+  priority_flags: {
+    senior_citizen: boolean;
+    pregnant: boolean;
+    pwd: boolean;
+  };
+  manual_position: number | null;
+  wait_minutes: number;
+  is_priority: boolean;
+  score: number;
+}
+
+export interface PriorityPolicyPreview {
+  policy: QueuePriorityPolicySettings;
+  consecutivePriorityServed: number;
+  queue: PriorityPolicyPreviewEntry[];
+}
+
 export class SettingsApi {
   /**
    * Get all system settings (admin only)
@@ -93,6 +194,166 @@ export class SettingsApi {
     const response = await api.put('/settings/session/timeout', settings);
     return response.data;
   }
+
+  /**
+   * Get queue priority policy (admin only)
+   */
+  static async getQueuePriorityPolicy(): Promise<QueuePriorityPolicySettings> {
+    const response = await api.get('/settings/queue/priority-policy');
+    return response.data;
+  }
+
+  /**
+   * Update queue priority policy (admin only)
+   */
+  static async updateQueuePriorityPolicy(policy: Partial<QueuePriorityPolicySettings>): Promise<QueuePriorityPolicySettings> {
+    const response = await api.put('/settings/queue/priority-policy', policy);
+    return response.data;
+  }
+
+  /**
+   * Preview the waiting queue order under an unsaved policy
+   */
+  static async previewQueuePriorityPolicy(policy: Partial<QueuePriorityPolicySettings>): Promise<PriorityPolicyPreview> {
+    const response = await api.post('/queue/priority-policy/preview', policy);
+    return response.data;
+  }
+
+  /**
+   * Get no-show handling settings (admin only)
+   */
+  static async getNoShowSettings(): Promise<NoShowSettings> {
+    const response = await api.get('/settings/queue/no-show');
+    return response.data;
+  }
+
+  /**
+   * Update no-show handling settings (admin only)
+   */
+  static async updateNoShowSettings(settings: Partial<NoShowSettings>): Promise<NoShowSettings> {
+    const response = await api.put('/settings/queue/no-show', settings);
+    return response.data;
+  }
+
+  /**
+   * Get on-hold settings (admin only)
+   */
+  static async getQueueHoldSettings(): Promise<QueueHoldSettings> {
+    const response = await api.get('/settings/queue/hold');
+    return response.data;
+  }
+
+  /**
+   * Update on-hold settings (admin only)
+   */
+  static async updateQueueHoldSettings(settings: Partial<QueueHoldSettings>): Promise<QueueHoldSettings> {
+    const response = await api.put('/settings/queue/hold', settings);
+    return response.data;
+  }
+
+  /**
+   * Get display monitor access settings (admin only)
+   */
+  static async getDisplayAccessSettings(): Promise<DisplayAccessSettings> {
+    const response = await api.get('/settings/display/access');
+    return response.data;
+  }
+
+  /**
+   * Update display monitor access settings (admin only)
+   */
+  static async updateDisplayAccessSettings(settings: Partial<DisplayAccessSettings>): Promise<DisplayAccessSettings> {
+    const response = await api.put('/settings/display/access', settings);
+    return response.data;
+  }
+
+  /**
+   * Get spoken announcement settings (admin only)
+   */
+  static async getAnnouncementSettings(): Promise<AnnouncementSettings> {
+    const response = await api.get('/settings/display/announcements');
+    return response.data;
+  }
+
+  /**
+   * Update spoken announcement settings (admin only)
+   */
+  static async updateAnnouncementSettings(settings: Partial<AnnouncementSettings>): Promise<AnnouncementSettings> {
+    const response = await api.put('/settings/display/announcements', settings);
+    return response.data;
+  }
+
+  /**
+   * Get token number format settings (admin only)
+   */
+  static async getTokenFormatSettings(): Promise<TokenFormatSettings> {
+    const response = await api.get('/settings/queue/token-format');
+    return response.data;
+  }
+
+  /**
+   * Update token number format settings (admin only)
+   */
+  static async updateTokenFormatSettings(settings: Partial<TokenFormatSettings>): Promise<TokenFormatSettings> {
+    const response = await api.put('/settings/queue/token-format', settings);
+    return response.data;
+  }
+
+  /**
+   * Get business hours and registration capacity settings (admin only)
+   */
+  static async getBusinessHoursSettings(): Promise<BusinessHoursSettings> {
+    const response = await api.get('/settings/queue/business-hours');
+    return response.data;
+  }
+
+  /**
+   * Update business hours and registration capacity settings (admin only)
+   */
+  static async updateBusinessHoursSettings(settings: Partial<BusinessHoursSettings>): Promise<BusinessHoursSettings> {
+    const response = await api.put('/settings/queue/business-hours', settings);
+    return response.data;
+  }
+
+  /**
+   * Get appointment booking settings (admin only)
+   */
+  static async getAppointmentSettings(): Promise<AppointmentSettings> {
+    const response = await api.get('/settings/queue/appointments');
+    return response.data;
+  }
+
+  /**
+   * Update appointment booking settings (admin only)
+   */
+  static async updateAppointmentSettings(settings: Partial<AppointmentSettings>): Promise<AppointmentSettings> {
+    const response = await api.put('/settings/queue/appointments', settings);
+    return response.data;
+  }
+
+  /**
+   * Get job order stages and turnaround (admin only)
+   */
+  static async getJobOrderSettings(): Promise<JobOrderSettings> {
+    const response = await api.get('/settings/job-orders');
+    return response.data;
+  }
+
+  /**
+   * Update job order stages and turnaround (admin only)
+   */
+  static async updateJobOrderSettings(settings: Partial<JobOrderSettings>): Promise<JobOrderSettings> {
+    const response = await api.put('/settings/job-orders', settings);
+    return response.data;
+  }
+
+  /**
+   * Whether walk-in registration is open right now
+   */
+  static async getRegistrationStatus(): Promise<RegistrationStatus> {
+    const response = await api.get('/settings/public/registration-status');
+    return response.data;
+  }
 }
 
 export default SettingsApi;
@@ -0,0 +1,55 @@
+import api from './authService';
+import { Courier, ProofOfDelivery, Shipment, ShipmentStatus } from '../types';
+
+export interface CreateShipmentRequest {
+  customer_id: number;
+  courier: Courier;
+  reference?: string;
+  fee?: number;
+  recipient_name?: string;
+  delivery_address?: string;
+  estimated_delivery_at?: string | null;
+}
+
+export interface ShipmentStatusRequest {
+  status: ShipmentStatus;
+  description?: string;
+  location?: string;
+  proof?: ProofOfDelivery; // needed for delivered: who received it or a photo
+}
+
+export class ShipmentApi {
+  /**
+   * A customer's shipments with their status history, newest first
+   */
+  static async listForCustomer(customerId: number): Promise<Shipment[]> {
+    const response = await api.get('/shipments', { params: { customerId } });
+    return response.data;
+  }
+
+  /**
+   * Record a Lalamove booking or LBC waybill (sales or admin)
+   */
+  static async create(request: CreateShipmentRequest): Promise<Shipment> {
+    const response = await api.post('/shipments', request);
+    return response.data;
+  }
+
+  /**
+   * Set the status by hand (sales or admin); picked up and out for delivery text the customer
+   */
+  static async changeStatus(id: number, request: ShipmentStatusRequest): Promise<Shipment> {
+    const response = await api.post(`/shipments/${id}/status`, request);
+    return response.data;
+  }
+
+  /**
+   * Ask the courier for the latest status
+   */
+  static async refresh(id: number): Promise<Shipment> {
+    const response = await api.post(`/shipments/${id}/refresh`);
+    return response.data;
+  }
+}
+
+export default ShipmentApi;
@@ -0,0 +1,36 @@
+import { apiRequest } from '../utils/api';
+import { QueueTrackingStatus } from '../types';
+
+export class TrackingApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export class TrackingApi {
+  /**
+   * Queue status for the customer a tracking link was issued to (public)
+   */
+  static async getStatus(token: string): Promise<QueueTrackingStatus> {
+    return this.request(`/track/${encodeURIComponent(token)}`, { method: 'GET' });
+  }
+
+  /**
+   * Take the customer off hold and back into the line (public)
+   */
+  static async reactivate(token: string): Promise<QueueTrackingStatus> {
+    return this.request(`/track/${encodeURIComponent(token)}/reactivate`, { method: 'POST' });
+  }
+
+  private static async request<T>(endpoint: string, options: RequestInit): Promise<T> {
+    const response = await apiRequest(endpoint, options);
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new TrackingApiError(data.error || 'Unable to load your queue status', response.status);
+    }
+    return data as T;
+  }
+}
+
+export default TrackingApi;
@@ -47,24 +47,51 @@ export interface Customer {
   payment_info: PaymentInfo;
   remarks?: string;
   priority_flags: PriorityFlags;
+  service_type: ServiceType;
   queue_status: QueueStatus;
   token_number: number;
+  token_code?: string | null;
+  appointment_at?: string | null;
+  registration_source?: 'staff' | 'kiosk';
+  details_pending?: boolean; // registered at a kiosk; prescription and payment still to be filled in
+  patient_id?: number | null; // the patient profile this visit belongs to
+  released_at?: string | null; // when the order was picked up, from its release record
+  released_to?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export enum ServiceType {
+  EYE_EXAM = 'eye_exam',
+  FRAME_FITTING = 'frame_fitting',
+  CASHIER = 'cashier',
+  RELEASING = 'releasing'
+}
+
 export enum DistributionType {
   LALAMOVE = 'lalamove',
   LBC = 'lbc',
   PICKUP = 'pickup'
 }
 
+export type PrismBase = 'BU' | 'BD' | 'BI' | 'BO'; // base up, down, in, out
+
+// One eye: sphere, cylinder, add and prism in diopters, axis in degrees, monocular PD in mm
+export interface EyePrescription {
+  sphere?: number | null;
+  cylinder?: number | null;
+  axis?: number | null;
+  add?: number | null;
+  prism?: number | null;
+  base?: PrismBase | null;
+  pd?: number | null;
+}
+
 export interface Prescription {
-  od?: string;
-  os?: string;
-  ou?: string;
-  pd?: string;
-  add?: string;
+  od?: EyePrescription; // right eye
+  os?: EyePrescription; // left eye
+  pd?: number | null; // binocular PD, when monocular PDs were not measured
+  notes?: string | null;
 }
 
 export interface PaymentInfo {
@@ -97,9 +124,374 @@ export enum QueueStatus {
   SERVING = 'serving',
   PROCESSING = 'processing',
   COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+  ON_HOLD = 'on_hold'
+}
+
+export enum AppointmentStatus {
+  BOOKED = 'booked',
+  CHECKED_IN = 'checked_in',
+  CANCELLED = 'cancelled',
+  NO_SHOW = 'no_show'
+}
+
+export interface Appointment {
+  id: number;
+  customer_name: string;
+  contact_number?: string | null;
+  email?: string | null;
+  service_type: ServiceType;
+  doctor_name?: string | null;
+  slot_start: string;
+  slot_end: string;
+  status: AppointmentStatus;
+  notes?: string | null;
+  customer_id?: number | null;
+  booked_by?: number | null;
+  booked_by_name?: string | null;
+  checked_in_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AppointmentSlot {
+  start: string;
+  end: string;
+  capacity: number;
+  booked: number;
+  available: boolean;
+}
+
+// A returning patient's profile; each visit is still its own customer record
+export interface Patient {
+  id: number;
+  name: string;
+  contact_number: string | null;
+  email: string | null;
+  birth_date: string | null; // YYYY-MM-DD
+  address: string | null;
+  occupation: string | null;
+  visit_count?: number;
+  last_visit_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PatientMatchField = 'contact_number' | 'name' | 'birth_date';
+
+export interface PatientMatch {
+  patient: Patient;
+  matched_on: PatientMatchField[];
+}
+
+export interface PatientVisit {
+  customer_id: number;
+  or_number: string;
+  created_at: string;
+  service_type: ServiceType;
+  queue_status: QueueStatus;
+  doctor_assigned: string | null;
+  prescription: Prescription;
+  grade_type: string;
+  lens_type: string;
+  frame_code: string | null;
+  amount: number;
+  paid_amount: number;
+  balance_amount: number;
+  released_at: string | null;
+  released_to: string | null;
+}
+
+export interface PatientTimeline {
+  patient: Patient;
+  visits: PatientVisit[]; // newest first
+  total_balance: number;
+}
+
+export interface PatientPrefill {
+  patient_id: number;
+  name: string;
+  contact_number: string;
+  email: string;
+  address: string;
+  occupation: string;
+  birth_date: string | null;
+  age: number | null;
+  doctor_assigned: string;
+  prescription: Prescription;
+}
+
+export interface JobOrderEvent {
+  id: number;
+  job_order_id: number;
+  stage: string;
+  expected_ready_at: string | null;
+  note: string | null;
+  changed_by: number | null;
+  changed_by_name?: string | null;
+  created_at: string;
+}
+
+// Eyewear being made for a visit; the stage is a key from the job order stage settings
+export interface JobOrder {
+  id: number;
+  customer_id: number;
+  customer_name: string;
+  contact_number: string;
+  or_number: string;
+  transaction_id: number | null;
+  stage: string;
+  stage_changed_at: string;
+  expected_ready_at: string | null;
+  lab_name: string | null;
+  notes: string | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: string;
+  updated_at: string;
+  events?: JobOrderEvent[]; // oldest first
+}
+
+export type Courier = DistributionType.LALAMOVE | DistributionType.LBC;
+
+export enum ShipmentStatus {
+  PENDING = 'pending', // booked, not yet with the courier
+  PICKED_UP = 'picked_up',
+  IN_TRANSIT = 'in_transit',
+  OUT_FOR_DELIVERY = 'out_for_delivery',
+  DELIVERED = 'delivered',
+  FAILED = 'failed', // delivery attempt failed; the courier retries
+  RETURNED = 'returned',
   CANCELLED = 'cancelled'
 }
 
+export interface ProofOfDelivery {
+  received_by?: string | null;
+  photo_url?: string | null;
+  notes?: string | null;
+}
+
+export interface ShipmentEvent {
+  id: number;
+  shipment_id: number;
+  status: ShipmentStatus;
+  description: string | null;
+  location: string | null;
+  source: 'staff' | 'courier';
+  occurred_at: string;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: string;
+}
+
+// An order delivered by Lalamove or LBC
+export interface Shipment {
+  id: number;
+  customer_id: number;
+  customer_name: string;
+  contact_number: string;
+  or_number: string;
+  courier: Courier;
+  reference: string | null; // LBC waybill or Lalamove booking reference
+  fee: number;
+  status: ShipmentStatus;
+  status_updated_at: string;
+  recipient_name: string | null;
+  delivery_address: string | null;
+  estimated_delivery_at: string | null;
+  delivered_at: string | null;
+  pod_received_by: string | null;
+  pod_photo_url: string | null;
+  pod_notes: string | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: string;
+  updated_at: string;
+  events?: ShipmentEvent[]; // oldest first
+}
+
+// How the person picking up an order was verified
+export type ReleaseVerification = 'sms_code' | 'representative';
+
+// Eyewear handed over at the counter
+export interface OrderRelease {
+  id: number;
+  customer_id: number;
+  transaction_id: number | null;
+  verification: ReleaseVerification;
+  received_by: string; // the customer, or the authorized representative
+  signature: string; // PNG data URL
+  balance_amount: number; // still owed when released
+  balance_override_by: number | null;
+  balance_override_by_name?: string | null;
+  balance_override_reason: string | null;
+  released_by: number | null;
+  released_by_name?: string | null;
+  released_at: string;
+}
+
+export interface ReleaseStatus {
+  release: OrderRelease | null;
+  balance_amount: number;
+  code_expires_at: string | null; // a texted code that can still be used
+}
+
+export interface KioskDevice {
+  id: number;
+  name: string;
+  is_active: boolean;
+  last_seen_at: string | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export interface DisplayDevice {
+  id: number;
+  name: string;
+  is_active: boolean;
+  is_claimed: boolean; // false until the display has collected its token
+  last_seen_at: string | null;
+  paired_by: number | null;
+  paired_by_name?: string | null;
+  paired_at: string;
+  revoked_at: string | null;
+  group_id: number | null;
+  group_name?: string | null;
+}
+
+export interface DisplayGroup {
+  id: number;
+  name: string;
+  counter_ids: number[]; // empty = every counter
+  service_types: ServiceType[]; // waiting line shown; empty = every service type
+  device_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DisplayPairingRequest {
+  request_id: number;
+  code: string;
+  secret: string;
+  expires_at: string;
+}
+
+export type DisplayLayout = 'full' | 'counters_only' | 'queue_only' | 'single_counter'; // single_counter: the first shown counter, full screen
+
+// Pushed to displays from the admin panel over the display:command event
+export type DisplayCommand =
+  | { type: 'reload' }
+  | { type: 'set_layout'; layout: DisplayLayout }
+  | { type: 'set_counters'; counter_ids: number[] | null } // null = all counters
+  | { type: 'set_volume'; volume: number } // 0-100
+  | { type: 'show_message'; message: string; duration_seconds: number };
+
+export type DisplayCommandMessage = DisplayCommand & { id: string; issued_by: string; issued_at: string };
+
+export interface DisplayCommandTarget {
+  all?: boolean;
+  device_ids?: number[];
+  connection_ids?: string[];
+}
+
+export interface DisplayHealth {
+  version: string;
+  uptime_seconds: number;
+  last_data_at: string | null;
+  layout: DisplayLayout;
+  volume: number;
+  counter_ids: number[] | null;
+  reported_at: string;
+}
+
+export interface ConnectedDisplay {
+  connection_id: string;
+  device_id: number | null;
+  name: string;
+  connected_at: string;
+  health: DisplayHealth | null;
+  last_command: {
+    id: string;
+    type: DisplayCommand['type'];
+    sent_at: string;
+    acknowledged_at: string | null;
+    ok: boolean | null;
+    error: string | null;
+  } | null;
+}
+
+export type DisplaySlideType = 'image' | 'text' | 'promo';
+
+export interface DisplaySlide {
+  id: number;
+  playlist_id: number;
+  type: DisplaySlideType;
+  title: string | null;
+  body: string | null;
+  image_url: string | null; // relative to the API base URL
+  display_seconds: number | null; // null = the playlist's slide_seconds
+  starts_at: string | null;
+  ends_at: string | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DisplayPlaylist {
+  id: number;
+  name: string;
+  is_active: boolean;
+  starts_on: string | null; // YYYY-MM-DD, shop time
+  ends_on: string | null;
+  slide_seconds: number;
+  group_ids: number[]; // empty = every display
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: string;
+  updated_at: string;
+  slides: DisplaySlide[];
+}
+
+// A slide as a display plays it
+export interface DisplayContentSlide {
+  id: number;
+  type: DisplaySlideType;
+  title: string | null;
+  body: string | null;
+  image_url: string | null;
+  seconds: number;
+}
+
+export interface KioskTicket {
+  customer_id: number;
+  first_name: string;
+  token_number: number;
+  token_code: string | null;
+  service_type: ServiceType;
+  queue_status: QueueStatus;
+  position: number | null;
+  estimated_wait_minutes: number | null;
+  already_queued: boolean; // the customer was already in line; this is a reprint
+  issued_at: string;
+}
+
+// Public tracking page for a single customer, opened from an SMS link
+export interface QueueTrackingStatus {
+  token_number: number;
+  token_code: string | null;
+  service_type: ServiceType;
+  queue_status: QueueStatus;
+  position: number | null;
+  estimated_wait: { minutes: number; low: number; high: number } | null;
+  counter_name: string | null;
+  hold_expires_at: string | null;
+  queue_paused: { reason: string; expected_resume_at: string | null } | null;
+  link_expires_at: string;
+  updated_at: string;
+}
+
 // Utility interface for queue status with fallback information
 export interface QueueStatusWithFallback {
   status: QueueStatus;
@@ -120,6 +512,7 @@ export interface Counter {
   id: number;
   name: string;
   is_active: boolean;
+  service_types: ServiceType[];
   current_customer_id?: number;
   current_customer_name?: string;
   created_at: string;
@@ -188,11 +581,18 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export interface ServiceTypeQueueStats {
+  waiting: number;
+  serving: number;
+  averageWaitTime: number;
+}
+
 export interface QueueStatistics {
   totalWaiting: number;
   averageWaitTime: number;
   longestWaitTime: number;
   priorityCustomers: number;
+  byServiceType: Record<ServiceType, ServiceTypeQueueStats>;
 }
 
 export interface DailyReport {
@@ -24,6 +24,12 @@ console.log('API Utility Loaded - Environment Check:', {
   'Fixed URL': API_BASE_URL
 });
 
+/**
+ * Full URL of an API path, for things the browser loads itself such as <img> sources
+ */
+export const apiUrl = (endpoint: string): string =>
+  endpoint.startsWith('http') ? endpoint : `${API_BASE_URL}${endpoint}`;
+
 export interface ApiRequestOptions extends RequestInit {
   timeout?: number;
 }
@@ -0,0 +1,65 @@
+import { Socket } from 'socket.io-client';
+
+interface StreamPosition {
+  epoch: string;
+  last_seq: number;
+}
+
+interface ResumeResponse extends StreamPosition {
+  status: 'ok' | 'resync_required';
+  replayed: number;
+}
+
+/**
+ * Keeps a socket's place in the server's numbered event stream (queue:update,
+ * queue:status_changed, transactionUpdated). After a reconnect the server replays the
+ * events that were missed, through the socket's normal listeners; when it can't,
+ * `onResync` is called so the screen fetches everything again.
+ *
+ * Rooms are lost on reconnect, so subscribe again in a connect listener; the catch-up
+ * request is sent after the connect listeners have run.
+ *
+ * @returns a function that detaches from the socket
+ */
+export const attachEventStream = (socket: Socket, onResync: () => void): (() => void) => {
+  let position: StreamPosition | null = null;
+  let connectedBefore = false;
+  let detached = false;
+
+  const track = (_event: string, payload: any) => {
+    if (!payload || typeof payload.seq !== 'number' || typeof payload.epoch !== 'string') return;
+    if (!position || position.epoch !== payload.epoch || payload.seq > position.last_seq) {
+      position = { epoch: payload.epoch, last_seq: payload.seq };
+    }
+  };
+
+  const resume = () => {
+    const reconnected = connectedBefore;
+    connectedBefore = true;
+
+    setTimeout(() => {
+      if (detached) return;
+      const known = position;
+      socket.emit('events:resume', known || {}, (response?: ResumeResponse) => {
+        if (!response || detached) return;
+        position = { epoch: response.epoch, last_seq: response.last_seq };
+        // Without a position there's no telling what was missed
+        if (reconnected && (response.status === 'resync_required' || !known)) {
+          onResync();
+        }
+      });
+    }, 0);
+  };
+
+  socket.onAny(track);
+  socket.on('connect', resume);
+  if (socket.connected) {
+    resume();
+  }
+
+  return () => {
+    detached = true;
+    socket.offAny(track);
+    socket.off('connect', resume);
+  };
+};
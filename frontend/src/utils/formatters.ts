@@ -59,3 +59,21 @@ export function minutesToEstimatedTime(totalMinutes: number): EstimatedTime {
 
   return { days, hours, minutes };
 }
+
+/**
+ * Formats a queue wait estimate with its likely range
+ * @param minutes - Expected wait in minutes
+ * @param range - Optional low/high bounds in minutes
+ * @returns A formatted string like "~12 min (8-18)" or "Next"
+ */
+export function formatWaitEstimate(minutes: number, range?: { low: number; high: number }): string {
+  if (!minutes && (!range || !range.high)) {
+    return 'Next';
+  }
+
+  if (!range || range.low === range.high) {
+    return `~${minutes} min`;
+  }
+
+  return `~${minutes} min (${range.low}-${range.high})`;
+}
@@ -0,0 +1,58 @@
+/**
+ * Job order helpers: expected-ready dates in shop time and where an order stands
+ */
+import { JobOrder } from '../types';
+import { JobOrderStage } from '../services/settingsApi';
+
+const TIMEZONE = 'Asia/Manila';
+
+// Orders picked for a date are expected by the end of the afternoon, shop time
+const READY_TIME = '17:00:00+08:00';
+
+/**
+ * A YYYY-MM-DD date (shop time) as the expected-ready timestamp sent to the API
+ */
+export const fromShopDate = (date: string): string | null =>
+  date ? new Date(`${date}T${READY_TIME}`).toISOString() : null;
+
+/**
+ * An expected-ready timestamp as YYYY-MM-DD in shop time, for date inputs
+ */
+export const toShopDate = (value?: string | null): string =>
+  value ? new Date(value).toLocaleDateString('en-CA', { timeZone: TIMEZONE }) : '';
+
+export const formatShopDate = (value?: string | null): string =>
+  value ? new Date(value).toLocaleDateString([], { timeZone: TIMEZONE, month: 'short', day: 'numeric', year: 'numeric' }) : '—';
+
+export const formatShopDateTime = (value?: string | null): string =>
+  value ? new Date(value).toLocaleString([], { timeZone: TIMEZONE, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) : '—';
+
+export const findStage = (stages: JobOrderStage[], key: string): JobOrderStage | undefined =>
+  stages.find((stage) => stage.key === key);
+
+/**
+ * Past its expected-ready date and not yet ready or released
+ */
+export const isOverdue = (jobOrder: JobOrder, stages: JobOrderStage[], now: Date = new Date()): boolean => {
+  const stage = findStage(stages, jobOrder.stage);
+  return !!jobOrder.expected_ready_at
+    && !stage?.ready
+    && !stage?.final
+    && new Date(jobOrder.expected_ready_at).getTime() < now.getTime();
+};
+
+/**
+ * When the order last reached each stage, from its history; expected-ready changes repeat the
+ * current stage and don't count
+ */
+export const stageReachedAt = (jobOrder: JobOrder): Record<string, string> => {
+  const reached: Record<string, string> = {};
+  let previous: string | null = null;
+  (jobOrder.events || []).forEach((event) => {
+    if (event.stage !== previous) {
+      reached[event.stage] = event.created_at;
+      previous = event.stage;
+    }
+  });
+  return reached;
+};
@@ -0,0 +1,215 @@
+/**
+ * Structured prescription helpers: form values, validation matching the API's ranges,
+ * display formatting and the change between two prescriptions
+ */
+import { EyePrescription, Prescription, PrismBase } from '../types';
+
+export type Eye = 'od' | 'os';
+export type EyeField = keyof EyePrescription;
+
+export const EYES: Eye[] = ['od', 'os'];
+
+export const EYE_LABELS: Record<Eye, string> = {
+  od: 'OD (Right)',
+  os: 'OS (Left)'
+};
+
+export const PRISM_BASES: PrismBase[] = ['BU', 'BD', 'BI', 'BO'];
+
+export const EYE_FIELDS: Array<{ key: EyeField; label: string }> = [
+  { key: 'sphere', label: 'SPH' },
+  { key: 'cylinder', label: 'CYL' },
+  { key: 'axis', label: 'AXIS' },
+  { key: 'add', label: 'ADD' },
+  { key: 'prism', label: 'PRISM' },
+  { key: 'base', label: 'BASE' },
+  { key: 'pd', label: 'PD' }
+];
+
+// Fields measured in diopters, written with a sign and two decimals
+const DIOPTER_FIELDS: EyeField[] = ['sphere', 'cylinder', 'add'];
+
+const RANGES: Partial<Record<EyeField, { min: number; max: number; quarterSteps?: boolean }>> = {
+  sphere: { min: -30, max: 30, quarterSteps: true },
+  cylinder: { min: -10, max: 10, quarterSteps: true },
+  axis: { min: 1, max: 180 },
+  add: { min: 0.25, max: 4, quarterSteps: true },
+  prism: { min: 0.25, max: 20 },
+  pd: { min: 20, max: 40 }
+};
+
+// The form keeps what staff typed; it becomes numbers on submit
+export type EyePrescriptionForm = Record<EyeField, string>;
+
+export interface PrescriptionForm {
+  od: EyePrescriptionForm;
+  os: EyePrescriptionForm;
+  pd: string;
+  notes: string;
+}
+
+const emptyEye = (): EyePrescriptionForm => ({ sphere: '', cylinder: '', axis: '', add: '', prism: '', base: '', pd: '' });
+
+export const emptyPrescriptionForm = (): PrescriptionForm => ({ od: emptyEye(), os: emptyEye(), pd: '', notes: '' });
+
+const toText = (value?: number | string | null): string => (value === null || value === undefined ? '' : String(value));
+
+const toNumber = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+export const toPrescriptionForm = (prescription?: Prescription | null): PrescriptionForm => {
+  const form = emptyPrescriptionForm();
+  EYES.forEach((eye) => {
+    EYE_FIELDS.forEach(({ key }) => {
+      form[eye][key] = toText(prescription?.[eye]?.[key]);
+    });
+  });
+  form.pd = toText(prescription?.pd);
+  form.notes = prescription?.notes || '';
+  return form;
+};
+
+export const fromPrescriptionForm = (form: PrescriptionForm): Prescription => {
+  const prescription: Prescription = {};
+  EYES.forEach((eye) => {
+    const values = form[eye];
+    if (EYE_FIELDS.some(({ key }) => values[key].trim() !== '')) {
+      prescription[eye] = {
+        sphere: toNumber(values.sphere),
+        cylinder: toNumber(values.cylinder),
+        axis: toNumber(values.axis),
+        add: toNumber(values.add),
+        prism: toNumber(values.prism),
+        base: (values.base as PrismBase) || null,
+        pd: toNumber(values.pd)
+      };
+    }
+  });
+  prescription.pd = toNumber(form.pd);
+  prescription.notes = form.notes.trim() || null;
+  return prescription;
+};
+
+/**
+ * Check one eye field the way the API does
+ * @returns An error message, or null when the value is fine
+ */
+export const eyeFieldError = (field: EyeField, values: EyePrescriptionForm): string | null => {
+  const value = values[field].trim();
+
+  if (field === 'axis' && value === '' && toNumber(values.cylinder)) {
+    return 'Required with a cylinder';
+  }
+  if (field === 'base' && value === '' && toNumber(values.prism)) {
+    return 'Required with a prism';
+  }
+  const range = RANGES[field];
+  if (value === '' || !range) {
+    return null;
+  }
+
+  const number = Number(value);
+  if (isNaN(number) || number < range.min || number > range.max) {
+    return `${range.min} to ${range.max}`;
+  }
+  if (field === 'axis' && !Number.isInteger(number)) {
+    return 'Whole degrees';
+  }
+  if (range.quarterSteps && !Number.isInteger(number * 4)) {
+    return '0.25 steps';
+  }
+  return null;
+};
+
+export const binocularPdError = (value: string): string | null => {
+  if (value.trim() === '') return null;
+  const number = Number(value);
+  return isNaN(number) || number < 40 || number > 80 ? '40 to 80' : null;
+};
+
+export const hasPrescriptionErrors = (form: PrescriptionForm): boolean =>
+  EYES.some((eye) => EYE_FIELDS.some(({ key }) => eyeFieldError(key, form[eye]) !== null)) || binocularPdError(form.pd) !== null;
+
+export const formatDiopter = (value?: number | null): string => {
+  if (value === null || value === undefined) return '';
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+};
+
+/**
+ * One field for display: diopters signed with two decimals, plano for a zero sphere
+ */
+export const formatEyeField = (field: EyeField, value?: number | string | null): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (field === 'sphere' && value === 0) return 'Plano';
+  if (typeof value === 'number' && DIOPTER_FIELDS.includes(field)) return formatDiopter(value);
+  if (typeof value === 'number' && field === 'prism') return value.toFixed(2);
+  return String(value);
+};
+
+/**
+ * One eye in the usual notation, e.g. "-1.25 / -0.50 x 180, ADD +2.00"
+ */
+export const formatEyePrescription = (eye?: EyePrescription | null): string => {
+  if (!eye) return '';
+
+  const parts: string[] = [];
+  if (eye.sphere !== null && eye.sphere !== undefined) {
+    let power = formatEyeField('sphere', eye.sphere);
+    if (eye.cylinder) power += ` / ${formatDiopter(eye.cylinder)} x ${eye.axis ?? '?'}`;
+    parts.push(power);
+  }
+  if (eye.add) parts.push(`ADD ${formatDiopter(eye.add)}`);
+  if (eye.prism) parts.push(`${eye.prism.toFixed(2)} ${eye.base || ''}`.trim());
+  if (eye.pd) parts.push(`PD ${eye.pd}`);
+  return parts.join(', ');
+};
+
+export const hasPrescription = (prescription?: Prescription | null): boolean =>
+  !!prescription && (EYES.some((eye) => !!formatEyePrescription(prescription[eye])) || !!prescription.pd || !!prescription.notes);
+
+export interface PrescriptionChange {
+  eye: Eye;
+  field: EyeField;
+  previous: number | string | null;
+  current: number | string | null;
+  difference: number | null; // current minus previous, when both are numbers
+}
+
+/**
+ * The eye fields that differ between two prescriptions
+ */
+export const comparePrescriptions = (previous?: Prescription | null, current?: Prescription | null): PrescriptionChange[] => {
+  const changes: PrescriptionChange[] = [];
+  EYES.forEach((eye) => {
+    EYE_FIELDS.forEach(({ key }) => {
+      const before = previous?.[eye]?.[key] ?? null;
+      const after = current?.[eye]?.[key] ?? null;
+      if (before !== after) {
+        changes.push({
+          eye,
+          field: key,
+          previous: before,
+          current: after,
+          difference: typeof before === 'number' && typeof after === 'number' ? after - before : null
+        });
+      }
+    });
+  });
+  return changes;
+};
+
+/**
+ * A change for display, e.g. "OD SPH -1.00 → -1.25 (-0.25)"
+ */
+export const describeChange = (change: PrescriptionChange): string => {
+  const label = EYE_FIELDS.find(({ key }) => key === change.field)?.label || change.field;
+  const before = formatEyeField(change.field, change.previous) || '—';
+  const after = formatEyeField(change.field, change.current) || '—';
+  const difference = change.difference !== null && DIOPTER_FIELDS.includes(change.field)
+    ? ` (${formatDiopter(change.difference)})`
+    : '';
+  return `${change.eye.toUpperCase()} ${label} ${before} → ${after}${difference}`;
+};
@@ -8,7 +8,8 @@ const VALID_QUEUE_STATUSES: string[] = [
   'serving',
   'processing',
   'completed',
-  'cancelled'
+  'cancelled',
+  'on_hold'
 ];
 
 /**
@@ -96,6 +97,8 @@ export function getStatusColor(status: QueueStatus, isFallback: boolean = false)
       return 'success';
     case QueueStatus.CANCELLED:
       return 'error';
+    case QueueStatus.ON_HOLD:
+      return 'default';
     default:
       return 'default';
   }
@@ -156,6 +159,7 @@ export function getValidQueueStatusOptions(): { value: QueueStatus; label: strin
     { value: QueueStatus.SERVING, label: 'Serving' },
     { value: QueueStatus.PROCESSING, label: 'Processing' },
     { value: QueueStatus.COMPLETED, label: 'Completed' },
-    { value: QueueStatus.CANCELLED, label: 'Cancelled' }
+    { value: QueueStatus.CANCELLED, label: 'Cancelled' },
+    { value: QueueStatus.ON_HOLD, label: 'On Hold' }
   ];
 }
@@ -0,0 +1,47 @@
+/**
+ * Service type display helpers
+ * Customers queue for one service type; counters declare which ones they handle
+ */
+import { ServiceType } from '../types';
+
+export const SERVICE_TYPE_LABELS: Record<ServiceType, string> = {
+  [ServiceType.EYE_EXAM]: 'Eye Exam',
+  [ServiceType.FRAME_FITTING]: 'Frame Fitting',
+  [ServiceType.CASHIER]: 'Cashier',
+  [ServiceType.RELEASING]: 'Releasing / Pickup'
+};
+
+export const SERVICE_TYPES: ServiceType[] = Object.values(ServiceType);
+
+/**
+ * Get a human readable label for a service type
+ * @param serviceType - The service type value from the API
+ * @returns The label, or the raw value for unknown types
+ */
+export const getServiceTypeLabel = (serviceType?: string | null): string => {
+  if (!serviceType) {
+    return SERVICE_TYPE_LABELS[ServiceType.CASHIER];
+  }
+  return SERVICE_TYPE_LABELS[serviceType as ServiceType] || serviceType;
+};
+
+/**
+ * Count waiting customers per service type
+ * @param customers - Customers with an optional service_type field
+ * @returns A count for every known service type
+ */
+export const countByServiceType = (customers: Array<{ service_type?: string }>): Record<ServiceType, number> => {
+  const counts = SERVICE_TYPES.reduce((acc, type) => {
+    acc[type] = 0;
+    return acc;
+  }, {} as Record<ServiceType, number>);
+
+  customers.forEach((customer) => {
+    const type = (customer.service_type || ServiceType.CASHIER) as ServiceType;
+    if (type in counts) {
+      counts[type] += 1;
+    }
+  });
+
+  return counts;
+};
@@ -0,0 +1,128 @@
+import { AnnouncementLanguage, AnnouncementSettings } from '../services/settingsApi';
+
+const LANGUAGE_TAGS: Record<AnnouncementLanguage, string> = { en: 'en-US', fil: 'fil-PH' };
+// Browsers list Filipino voices as fil-PH or as Tagalog (tl-PH)
+const VOICE_LANGUAGE_PREFIXES: Record<AnnouncementLanguage, string[]> = { en: ['en'], fil: ['fil', 'tl'] };
+const PAUSE_BETWEEN_CALLS_MS = 800;
+// Some browsers never fire onend, so a phrase that runs this long is given up on
+const PHRASE_TIMEOUT_MS = 15000;
+
+export interface AnnouncementCall {
+  token: string; // token code as shown, e.g. "A015"
+  counter: string; // counter name, e.g. "Counter 2"
+}
+
+interface QueuedAnnouncement {
+  key: string;
+  phrases: { text: string; language: AnnouncementLanguage; voice: string }[];
+  rate: number;
+  volume: number;
+}
+
+/**
+ * Read the token out character by character ("A 0 1 5") so "A015" isn't heard as "a fifteen"
+ */
+export const spellToken = (token: string): string => token.replace(/^#/, '').split('').join(' ');
+
+export const renderAnnouncement = (template: string, call: AnnouncementCall): string =>
+  template.replace(/\{token\}/g, spellToken(call.token)).replace(/\{counter\}/g, call.counter);
+
+export const findVoice = (language: AnnouncementLanguage, voiceName: string): SpeechSynthesisVoice | null => {
+  const voices = window.speechSynthesis.getVoices();
+  const named = voiceName ? voices.find((voice) => voice.name === voiceName) : undefined;
+  if (named) return named;
+
+  return voices.find((voice) =>
+    VOICE_LANGUAGE_PREFIXES[language].some((prefix) => voice.lang.toLowerCase().startsWith(prefix))
+  ) || null;
+};
+
+/**
+ * Speaks token calls one after another. Calls made while another is being spoken wait their
+ * turn, and a call that is already waiting isn't queued twice.
+ */
+export class TokenAnnouncer {
+  private queue: QueuedAnnouncement[] = [];
+  private speaking = false;
+
+  public isSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  /**
+   * Queue a call in every language of `settings.languageOrder`, `settings.repeatCount` times
+   * @param volume - 0 to 1
+   */
+  public announce(call: AnnouncementCall, settings: AnnouncementSettings, volume: number = 1) {
+    if (!this.isSupported() || !settings.enabled || volume <= 0) return;
+
+    const key = `${call.token}@${call.counter}`;
+    if (this.queue.some((queued) => queued.key === key)) return;
+
+    const phrases: QueuedAnnouncement['phrases'] = [];
+    for (let i = 0; i < settings.repeatCount; i++) {
+      settings.languageOrder.forEach((language) => {
+        phrases.push({
+          text: renderAnnouncement(settings.templates[language], call),
+          language,
+          voice: settings.voices[language]
+        });
+      });
+    }
+
+    this.queue.push({ key, phrases, rate: settings.rate, volume: Math.min(1, volume) });
+    this.speakNext();
+  }
+
+  // Drop everything that hasn't been spoken yet, and stop the current call
+  public clear() {
+    this.queue = [];
+    if (this.isSupported()) {
+      window.speechSynthesis.cancel();
+    }
+  }
+
+  private async speakNext() {
+    if (this.speaking) return;
+
+    const next = this.queue.shift();
+    if (!next) return;
+
+    this.speaking = true;
+    try {
+      for (const phrase of next.phrases) {
+        await this.speak(phrase.text, phrase.language, phrase.voice, next.rate, next.volume);
+      }
+      await new Promise((resolve) => setTimeout(resolve, PAUSE_BETWEEN_CALLS_MS));
+    } catch (error) {
+      console.warn('Failed to speak announcement:', error);
+    } finally {
+      this.speaking = false;
+      this.speakNext();
+    }
+  }
+
+  private speak(text: string, language: AnnouncementLanguage, voiceName: string, rate: number, volume: number): Promise<void> {
+    return new Promise((resolve) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      const voice = findVoice(language, voiceName);
+      utterance.lang = voice ? voice.lang : LANGUAGE_TAGS[language];
+      if (voice) utterance.voice = voice;
+      utterance.rate = rate;
+      utterance.volume = volume;
+
+      const done = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      const timeout = setTimeout(done, PHRASE_TIMEOUT_MS);
+      utterance.onend = done;
+      utterance.onerror = done;
+
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+}
+
+// Export singleton instance
+export const tokenAnnouncer = new TokenAnnouncer();
@@ -23,8 +23,9 @@ export const formatTokenNumber = (tokenNumber: number | string): string => {
 /**
  * Format a token number with hash prefix for display
  * @param tokenNumber - The token number to format
- * @returns A formatted token number string with hash prefix (e.g., "#001", "#002", etc.)
+ * @param tokenCode - Prefixed token code issued by the backend (e.g. "A001"), preferred when present
+ * @returns A formatted token string with hash prefix (e.g., "#001", "#A001", etc.)
  */
-export const formatTokenNumberWithHash = (tokenNumber: number | string): string => {
-  return `#${formatTokenNumber(tokenNumber)}`;
+export const formatTokenNumberWithHash = (tokenNumber: number | string, tokenCode?: string | null): string => {
+  return `#${tokenCode || formatTokenNumber(tokenNumber)}`;
 };
@@ -39,8 +39,8 @@ function doPost(e) {
       const headers = [
         'Customer Name', 'Contact Number', 'Email', 'Age', 'Address',
         'Occupation', 'Distribution Method', 'Sales Agent', 'Doctor Assigned',
-        'OD (Right Eye)', 'OS (Left Eye)', 'OU (Both Eyes)', 'PD (Pupillary Distance)',
-        'ADD (Addition)', 'Grade Type', 'Lens Type', 'Frame Code', 'Payment Method',
+        'OD (Right Eye)', 'OS (Left Eye)', 'PD (Pupillary Distance)', 'Prescription Notes',
+        'Grade Type', 'Lens Type', 'Frame Code', 'Payment Method',
         'Payment Amount', 'OR Number', 'Priority Flags', 'Remarks', 'Queue Status', 
         'Token Number', 'Estimated Time', 'Registration Date', 'Export Date'
       ];
@@ -162,11 +162,10 @@ function formatCustomerData(customer) {
     customer.distribution_info || '',
     customer.sales_agent_name || '',
     customer.doctor_assigned || '',
-    customer.prescription?.od || '',
-    customer.prescription?.os || '',
-    customer.prescription?.ou || '',
+    formatEyePrescription(customer.prescription?.od),
+    formatEyePrescription(customer.prescription?.os),
     customer.prescription?.pd || '',
-    customer.prescription?.add || '',
+    customer.prescription?.notes || '',
     customer.grade_type || '',
     customer.lens_type || '',
     customer.frame_code || '',
@@ -183,6 +182,25 @@ function formatCustomerData(customer) {
   ];
 }
 
+/**
+ * Format one eye of a prescription, e.g. "-1.25 / -0.50 x 180, ADD +2.00"
+ */
+function formatEyePrescription(eye) {
+  if (!eye) return '';
+  if (typeof eye === 'string') return eye; // exported before prescriptions were structured
+  const diopter = (value) => (value > 0 ? '+' : '') + Number(value).toFixed(2);
+  const parts = [];
+  if (eye.sphere !== null && eye.sphere !== undefined) {
+    let power = eye.sphere === 0 ? 'Plano' : diopter(eye.sphere);
+    if (eye.cylinder) power += ` / ${diopter(eye.cylinder)} x ${eye.axis || '?'}`;
+    parts.push(power);
+  }
+  if (eye.add) parts.push(`ADD ${diopter(eye.add)}`);
+  if (eye.prism) parts.push(`${Number(eye.prism).toFixed(2)} ${eye.base || ''}`.trim());
+  if (eye.pd) parts.push(`PD ${eye.pd}`);
+  return parts.join(', ');
+}
+
 /**
  * Format payment mode for display
  */
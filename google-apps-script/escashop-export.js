@@ -273,9 +273,8 @@ function addHeaders(sheet) {
     'Doctor Assigned',
     'OD (Right Eye)',
     'OS (Left Eye)',
-    'OU (Both Eyes)',
     'PD (Pupillary Distance)',
-    'ADD (Addition)',
+    'Prescription Notes',
     'Grade Type',
     'Lens Type',
     'Frame Code',
@@ -300,6 +299,25 @@ function addHeaders(sheet) {
   headerRange.setWrap(true);
 }
 
+/**
+ * Format one eye of a prescription, e.g. "-1.25 / -0.50 x 180, ADD +2.00"
+ */
+function formatEyePrescription(eye) {
+  if (!eye) return '';
+  if (typeof eye === 'string') return eye; // exported before prescriptions were structured
+  const diopter = (value) => (value > 0 ? '+' : '') + Number(value).toFixed(2);
+  const parts = [];
+  if (eye.sphere !== null && eye.sphere !== undefined) {
+    let power = eye.sphere === 0 ? 'Plano' : diopter(eye.sphere);
+    if (eye.cylinder) power += ` / ${diopter(eye.cylinder)} x ${eye.axis || '?'}`;
+    parts.push(power);
+  }
+  if (eye.add) parts.push(`ADD ${diopter(eye.add)}`);
+  if (eye.prism) parts.push(`${Number(eye.prism).toFixed(2)} ${eye.base || ''}`.trim());
+  if (eye.pd) parts.push(`PD ${eye.pd}`);
+  return parts.join(', ');
+}
+
 /**
  * Format customer data for export
  */
@@ -326,15 +344,13 @@ function formatCustomerData(customer) {
     // Handle prescription safely
     let prescriptionOD = '';
     let prescriptionOS = '';
-    let prescriptionOU = '';
     let prescriptionPD = '';
-    let prescriptionADD = '';
+    let prescriptionNotes = '';
     if (customer.prescription) {
-      prescriptionOD = customer.prescription.od || '';
-      prescriptionOS = customer.prescription.os || '';
-      prescriptionOU = customer.prescription.ou || '';
+      prescriptionOD = formatEyePrescription(customer.prescription.od);
+      prescriptionOS = formatEyePrescription(customer.prescription.os);
       prescriptionPD = customer.prescription.pd || '';
-      prescriptionADD = customer.prescription.add || '';
+      prescriptionNotes = customer.prescription.notes || '';
     }
     
     // Handle created_at date safely
@@ -361,9 +377,8 @@ function formatCustomerData(customer) {
       customer.doctor_assigned || '',
       prescriptionOD,
       prescriptionOS,
-      prescriptionOU,
       prescriptionPD,
-      prescriptionADD,
+      prescriptionNotes,
       customer.grade_type || '',
       customer.lens_type || '',
       customer.frame_code || '',
@@ -423,11 +438,9 @@ function testExport() {
     sales_agent_name: 'Agent 1',
     doctor_assigned: 'Dr. Smith',
     prescription: {
-      od: '+1.00',
-      os: '+1.25',
-      ou: '+1.00',
-      pd: '62',
-      add: '+2.00'
+      od: { sphere: 1, add: 2 },
+      os: { sphere: 1.25, add: 2 },
+      pd: 62
     },
     grade_type: 'Grade A',
     lens_type: 'Progressive',
@@ -470,11 +483,9 @@ function testSingleExportDebug() {
     sales_agent_name: 'Test Agent',
     doctor_assigned: 'Dr. Test',
     prescription: {
-      od: '+1.00',
-      os: '+1.00',
-      ou: '+1.00',
-      pd: '60',
-      add: '+2.00'
+      od: { sphere: 1, add: 2 },
+      os: { sphere: 1, add: 2 },
+      pd: 60
     },
     grade_type: 'Standard',
     lens_type: 'Single Vision',